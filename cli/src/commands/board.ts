@@ -0,0 +1,31 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { BoardApp } from '../tui/board.js';
+
+export function registerBoardCommands(program: Command): void {
+  program
+    .command('board')
+    .description('Interactive full-screen board with live updates')
+    .option('-p, --project <project>', 'Only show tasks in this project')
+    .option('-a, --author <name>', 'Author for comments added from the board', 'Veritas')
+    .option('--no-live', 'Disable live updates over WebSocket')
+    .action(async (options) => {
+      if (!process.stdin.isTTY || !process.stdout.isTTY) {
+        console.error(chalk.red('vk board needs an interactive terminal'));
+        process.exit(1);
+      }
+
+      try {
+        const app = new BoardApp({
+          project: options.project,
+          author: options.author,
+          live: options.live,
+        });
+        await app.run();
+        process.exit(0);
+      } catch (err) {
+        console.error(chalk.red(`Error: ${(err as Error).message}`));
+        process.exit(1);
+      }
+    });
+}
@@ -1,7 +1,6 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { api } from '../utils/api.js';
-import { findTask } from '../utils/find.js';
+import { findTaskWithCache, mutate, queuedNotice, resultData } from '../utils/offline-queue.js';
 
 export function registerCommentCommands(program: Command): void {
   program
@@ -11,19 +10,24 @@ export function registerCommentCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (id, text, options) => {
       try {
-        const task = await findTask(id);
+        const task = await findTaskWithCache(id);
         if (!task) {
           console.error(chalk.red(`Task not found: ${id}`));
           process.exit(1);
         }
 
-        const result = await api<unknown>(`/api/tasks/${task.id}/comments`, {
+        const result = await mutate<unknown>(task, {
           method: 'POST',
-          body: JSON.stringify({ text, author: options.author }),
+          path: `/api/tasks/${task.id}/comments`,
+          body: { text, author: options.author },
+          description: 'add comment',
         });
 
         if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
+          console.log(JSON.stringify(resultData(result), null, 2));
+        } else if (result.queued) {
+          console.log(chalk.yellow(queuedNotice(1)));
+          console.log(chalk.dim(`  Comment on ${task.title} (${result.entry.id})`));
         } else {
           console.log(chalk.green(`✓ Comment added to: ${task.title}`));
           console.log(chalk.dim(`  Author: ${options.author}`));
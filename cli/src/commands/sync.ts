@@ -0,0 +1,153 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  CLI_HOME,
+  loadQueue,
+  replayQueue,
+  resolveEntries,
+  type QueuedOperation,
+  type ReplayResult,
+  type Resolution,
+} from '../utils/offline-queue.js';
+
+const statusColors: Record<string, (s: string) => string> = {
+  pending: chalk.yellow,
+  conflict: chalk.red,
+  failed: chalk.red,
+};
+
+function formatEntry(entry: QueuedOperation): string {
+  const color = statusColors[entry.status] || chalk.white;
+  const task = entry.taskId ? chalk.cyan(entry.taskId.slice(-8)) + ' ' : '';
+  const title = entry.taskTitle && entry.taskTitle !== entry.taskId ? ` ${entry.taskTitle}` : '';
+  const lines = [
+    `${chalk.dim(entry.id)}  ${color(entry.status.padEnd(8))} ${task}${entry.description}${chalk.dim(title)}`,
+    chalk.dim(
+      `  ${entry.method} ${entry.path} · queued ${new Date(entry.queuedAt).toLocaleString()}`
+    ),
+  ];
+  if (entry.error) lines.push(color(`  ${entry.error}`));
+  return lines.join('\n');
+}
+
+function printReplay(result: ReplayResult): void {
+  if (result.applied.length) {
+    console.log(chalk.green(`✓ Replayed ${result.applied.length} queued operation(s)`));
+  }
+  for (const entry of result.dropped) {
+    console.log(chalk.dim(`  Skipped ${entry.description} (${entry.error})`));
+  }
+  if (result.offline) {
+    console.log(chalk.yellow('⏸  Server still unreachable — operations stay queued'));
+  }
+  const parked = result.remaining.filter((e) => e.status !== 'pending');
+  if (parked.length) {
+    console.log(
+      chalk.red(`⚠️  ${parked.length} operation(s) need attention — see \`vk sync status\``)
+    );
+  }
+  if (!result.applied.length && !result.remaining.length && !result.dropped.length) {
+    console.log(chalk.dim('Nothing queued'));
+  }
+}
+
+export function registerSyncCommands(program: Command): void {
+  const sync = program
+    .command('sync')
+    .description('Inspect and replay mutations queued while the server was unreachable');
+
+  // vk sync status — List queued operations
+  sync
+    .command('status')
+    .description('Show queued operations, conflicts and failures')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const queue = await loadQueue();
+
+        if (options.json) {
+          console.log(JSON.stringify(queue, null, 2));
+          return;
+        }
+
+        if (queue.length === 0) {
+          console.log(chalk.dim('Nothing queued'));
+          return;
+        }
+
+        const count = (status: string) => queue.filter((e) => e.status === status).length;
+        console.log(
+          chalk.bold(`${queue.length} queued operation(s)`) +
+            chalk.dim(
+              ` — ${count('pending')} pending, ${count('conflict')} conflict, ${count('failed')} failed`
+            )
+        );
+        console.log(chalk.dim(`Queue: ${CLI_HOME}\n`));
+        for (const entry of queue) {
+          console.log(formatEntry(entry));
+        }
+      } catch (err) {
+        console.error(chalk.red(`Error: ${(err as Error).message}`));
+        process.exit(1);
+      }
+    });
+
+  // vk sync run — Replay the queue now
+  sync
+    .command('run')
+    .description('Replay queued operations in order')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      try {
+        const result = await replayQueue();
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          printReplay(result);
+        }
+      } catch (err) {
+        console.error(chalk.red(`Error: ${(err as Error).message}`));
+        process.exit(1);
+      }
+    });
+
+  // vk sync resolve <id> — Settle conflicted or failed operations
+  sync
+    .command('resolve <id>')
+    .description('Resolve queued operations by operation ID or task ID')
+    .option('--retry', 'Check for conflicts again and replay')
+    .option('--force', "Apply over the server's changes")
+    .option('--discard', 'Drop the operations')
+    .option('--json', 'Output as JSON')
+    .action(async (id, options) => {
+      try {
+        const chosen = (['retry', 'force', 'discard'] as Resolution[]).filter((r) => options[r]);
+        if (chosen.length !== 1) {
+          console.error(chalk.red('Choose exactly one of --retry, --force or --discard'));
+          process.exit(1);
+        }
+        const resolution = chosen[0];
+
+        const resolved = await resolveEntries(id, resolution);
+        if (resolved.length === 0) {
+          console.error(chalk.red(`No queued operation matches: ${id}`));
+          process.exit(1);
+        }
+
+        const result = resolution === 'discard' ? null : await replayQueue();
+
+        if (options.json) {
+          console.log(JSON.stringify({ resolution, resolved, replay: result }, null, 2));
+          return;
+        }
+
+        const verb = resolution === 'discard' ? 'Discarded' : 'Resolved';
+        console.log(chalk.green(`✓ ${verb} ${resolved.length} operation(s) (${resolution})`));
+        if (result) printReplay(result);
+      } catch (err) {
+        console.error(chalk.red(`Error: ${(err as Error).message}`));
+        process.exit(1);
+      }
+    });
+}
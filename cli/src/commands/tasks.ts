@@ -1,6 +1,6 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { api } from '../utils/api.js';
+import { api, patchTask } from '../utils/api.js';
 import { findTask } from '../utils/find.js';
 import { formatTask, formatTaskJson, formatTasksJson } from '../utils/format.js';
 import type { Task } from '../utils/types.js';
@@ -145,10 +145,7 @@ export function registerTaskCommands(program: Command): void {
           process.exit(1);
         }
 
-        const task = await api<Task>(`/api/tasks/${existing.id}`, {
-          method: 'PATCH',
-          body: JSON.stringify(updates),
-        });
+        const task = await patchTask(existing.id, updates, { base: existing });
 
         if (options.json) {
           console.log(formatTaskJson(task));
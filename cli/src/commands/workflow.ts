@@ -1,7 +1,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { api } from '../utils/api.js';
 import { findTask } from '../utils/find.js';
+import {
+  findTaskWithCache,
+  mutate,
+  queuedNotice,
+  resultData,
+  type MutationResult,
+} from '../utils/offline-queue.js';
 import type { Task } from '../utils/types.js';
 
 function formatDuration(totalSeconds: number): string {
@@ -10,6 +16,11 @@ function formatDuration(totalSeconds: number): string {
   return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
 }
 
+function printQueued(outcomes: MutationResult<unknown>[]): void {
+  const queued = outcomes.filter((o) => o.queued).length;
+  if (queued) console.log(chalk.yellow(queuedNotice(queued)));
+}
+
 export function registerWorkflowCommands(program: Command): void {
   // vk begin <id> — Start working on a task
   program
@@ -18,42 +29,50 @@ export function registerWorkflowCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (id, options) => {
       try {
-        const task = await findTask(id);
+        const task = await findTaskWithCache(id);
         if (!task) {
           console.error(chalk.red(`Task not found: ${id}`));
           process.exit(1);
         }
 
         const results: Record<string, unknown> = {};
+        const outcomes: MutationResult<unknown>[] = [];
 
         // 1. Set status to in-progress
-        const updated = await api<Task>(`/api/tasks/${task.id}`, {
+        const updated = await mutate<Task>(task, {
           method: 'PATCH',
-          body: JSON.stringify({ status: 'in-progress' }),
+          path: `/api/tasks/${task.id}`,
+          body: { status: 'in-progress' },
+          description: 'status → in-progress',
         });
-        results.taskUpdate = updated;
+        outcomes.push(updated);
+        results.taskUpdate = resultData(updated);
 
         // 2. Start timer
         try {
-          const timeResult = await api<unknown>(`/api/tasks/${task.id}/time/start`, {
+          const timeResult = await mutate<unknown>(task, {
             method: 'POST',
+            path: `/api/tasks/${task.id}/time/start`,
+            description: 'start timer',
+            bestEffort: true,
           });
-          results.timeStart = timeResult;
+          outcomes.push(timeResult);
+          results.timeStart = resultData(timeResult);
         } catch (err) {
           results.timeStart = { error: (err as Error).message };
         }
 
         // 3. Update agent status
         try {
-          const agentResult = await api<unknown>('/api/agent/status', {
+          const agentResult = await mutate<unknown>(null, {
             method: 'POST',
-            body: JSON.stringify({
-              status: 'working',
-              taskId: task.id,
-              taskTitle: task.title,
-            }),
+            path: '/api/agent/status',
+            body: { status: 'working', taskId: task.id, taskTitle: task.title },
+            description: 'agent status → working',
+            bestEffort: true,
           });
-          results.agentStatus = agentResult;
+          outcomes.push(agentResult);
+          results.agentStatus = resultData(agentResult);
         } catch (err) {
           results.agentStatus = { error: (err as Error).message };
         }
@@ -62,6 +81,7 @@ export function registerWorkflowCommands(program: Command): void {
           console.log(JSON.stringify(results, null, 2));
         } else {
           console.log(chalk.green(`⏱️  Timer started on: ${task.title}`));
+          printQueued(outcomes);
         }
       } catch (err) {
         console.error(chalk.red(`Error: ${(err as Error).message}`));
@@ -76,39 +96,50 @@ export function registerWorkflowCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (id, summary, options) => {
       try {
-        const task = await findTask(id);
+        const task = await findTaskWithCache(id);
         if (!task) {
           console.error(chalk.red(`Task not found: ${id}`));
           process.exit(1);
         }
 
         const results: Record<string, unknown> = {};
+        const outcomes: MutationResult<unknown>[] = [];
 
         // 1. Stop timer (may fail if not running — that's OK)
         try {
-          const timeResult = await api<unknown>(`/api/tasks/${task.id}/time/stop`, {
+          const timeResult = await mutate<unknown>(task, {
             method: 'POST',
+            path: `/api/tasks/${task.id}/time/stop`,
+            description: 'stop timer',
+            bestEffort: true,
           });
-          results.timeStop = timeResult;
+          outcomes.push(timeResult);
+          results.timeStop = resultData(timeResult);
         } catch (err) {
           results.timeStop = { error: (err as Error).message };
         }
 
         // 2. Set status to done
-        const updated = await api<Task>(`/api/tasks/${task.id}`, {
+        const updated = await mutate<Task>(task, {
           method: 'PATCH',
-          body: JSON.stringify({ status: 'done' }),
+          path: `/api/tasks/${task.id}`,
+          body: { status: 'done' },
+          description: 'status → done',
         });
-        results.taskUpdate = updated;
+        outcomes.push(updated);
+        results.taskUpdate = resultData(updated);
 
         // 3. Add comment with summary
         if (summary) {
           try {
-            const commentResult = await api<unknown>(`/api/tasks/${task.id}/comments`, {
+            const commentResult = await mutate<unknown>(task, {
               method: 'POST',
-              body: JSON.stringify({ author: 'Veritas', text: summary }),
+              path: `/api/tasks/${task.id}/comments`,
+              body: { author: 'Veritas', text: summary },
+              description: 'add comment',
             });
-            results.comment = commentResult;
+            outcomes.push(commentResult);
+            results.comment = resultData(commentResult);
           } catch (err) {
             results.comment = { error: (err as Error).message };
           }
@@ -116,24 +147,30 @@ export function registerWorkflowCommands(program: Command): void {
 
         // 4. Set agent status to idle
         try {
-          const agentResult = await api<unknown>('/api/agent/status', {
+          const agentResult = await mutate<unknown>(null, {
             method: 'POST',
-            body: JSON.stringify({ status: 'idle' }),
+            path: '/api/agent/status',
+            body: { status: 'idle' },
+            description: 'agent status → idle',
+            bestEffort: true,
           });
-          results.agentStatus = agentResult;
+          outcomes.push(agentResult);
+          results.agentStatus = resultData(agentResult);
         } catch (err) {
           results.agentStatus = { error: (err as Error).message };
         }
 
-        // Get updated task for time info
-        const finalTask = await findTask(id);
-        const totalSeconds = finalTask?.timeTracking?.totalSeconds || 0;
-        const timeFormatted = formatDuration(totalSeconds);
-
         if (options.json) {
           console.log(JSON.stringify(results, null, 2));
+        } else if (updated.queued) {
+          console.log(chalk.green(`✅ Completed: ${task.title}`));
+          printQueued(outcomes);
         } else {
-          console.log(chalk.green(`✅ Completed: ${task.title} — ${timeFormatted}`));
+          // Get updated task for time info
+          const finalTask = await findTask(task.id);
+          const totalSeconds = finalTask?.timeTracking?.totalSeconds || 0;
+          console.log(chalk.green(`✅ Completed: ${task.title} — ${formatDuration(totalSeconds)}`));
+          printQueued(outcomes);
         }
       } catch (err) {
         console.error(chalk.red(`Error: ${(err as Error).message}`));
@@ -148,28 +185,35 @@ export function registerWorkflowCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (id, reason, options) => {
       try {
-        const task = await findTask(id);
+        const task = await findTaskWithCache(id);
         if (!task) {
           console.error(chalk.red(`Task not found: ${id}`));
           process.exit(1);
         }
 
         const results: Record<string, unknown> = {};
+        const outcomes: MutationResult<unknown>[] = [];
 
         // 1. Set status to blocked
-        const updated = await api<Task>(`/api/tasks/${task.id}`, {
+        const updated = await mutate<Task>(task, {
           method: 'PATCH',
-          body: JSON.stringify({ status: 'blocked' }),
+          path: `/api/tasks/${task.id}`,
+          body: { status: 'blocked' },
+          description: 'status → blocked',
         });
-        results.taskUpdate = updated;
+        outcomes.push(updated);
+        results.taskUpdate = resultData(updated);
 
         // 2. Add comment with reason
         try {
-          const commentResult = await api<unknown>(`/api/tasks/${task.id}/comments`, {
+          const commentResult = await mutate<unknown>(task, {
             method: 'POST',
-            body: JSON.stringify({ author: 'Veritas', text: `🚧 Blocked: ${reason}` }),
+            path: `/api/tasks/${task.id}/comments`,
+            body: { author: 'Veritas', text: `🚧 Blocked: ${reason}` },
+            description: 'add comment',
           });
-          results.comment = commentResult;
+          outcomes.push(commentResult);
+          results.comment = resultData(commentResult);
         } catch (err) {
           results.comment = { error: (err as Error).message };
         }
@@ -178,6 +222,7 @@ export function registerWorkflowCommands(program: Command): void {
           console.log(JSON.stringify(results, null, 2));
         } else {
           console.log(chalk.green(`🚧 Blocked: ${task.title}`));
+          printQueued(outcomes);
         }
       } catch (err) {
         console.error(chalk.red(`Error: ${(err as Error).message}`));
@@ -192,27 +237,35 @@ export function registerWorkflowCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(async (id, options) => {
       try {
-        const task = await findTask(id);
+        const task = await findTaskWithCache(id);
         if (!task) {
           console.error(chalk.red(`Task not found: ${id}`));
           process.exit(1);
         }
 
         const results: Record<string, unknown> = {};
+        const outcomes: MutationResult<unknown>[] = [];
 
         // 1. Set status to in-progress
-        const updated = await api<Task>(`/api/tasks/${task.id}`, {
+        const updated = await mutate<Task>(task, {
           method: 'PATCH',
-          body: JSON.stringify({ status: 'in-progress' }),
+          path: `/api/tasks/${task.id}`,
+          body: { status: 'in-progress' },
+          description: 'status → in-progress',
         });
-        results.taskUpdate = updated;
+        outcomes.push(updated);
+        results.taskUpdate = resultData(updated);
 
         // 2. Start timer
         try {
-          const timeResult = await api<unknown>(`/api/tasks/${task.id}/time/start`, {
+          const timeResult = await mutate<unknown>(task, {
             method: 'POST',
+            path: `/api/tasks/${task.id}/time/start`,
+            description: 'start timer',
+            bestEffort: true,
           });
-          results.timeStart = timeResult;
+          outcomes.push(timeResult);
+          results.timeStart = resultData(timeResult);
         } catch (err) {
           results.timeStart = { error: (err as Error).message };
         }
@@ -221,6 +274,7 @@ export function registerWorkflowCommands(program: Command): void {
           console.log(JSON.stringify(results, null, 2));
         } else {
           console.log(chalk.green(`🔓 Unblocked: ${task.title} — Timer restarted`));
+          printQueued(outcomes);
         }
       } catch (err) {
         console.error(chalk.red(`Error: ${(err as Error).message}`));
@@ -14,6 +14,8 @@ import { registerProjectCommands } from './commands/projects.js';
 import { registerWorkflowCommands } from './commands/workflow.js';
 import { registerSetupCommands } from './commands/setup.js';
 import { registerUsageCommands } from './commands/usage.js';
+import { registerBoardCommands } from './commands/board.js';
+import { registerSyncCommands } from './commands/sync.js';
 
 const program = new Command();
 
@@ -37,5 +39,7 @@ registerProjectCommands(program);
 registerWorkflowCommands(program);
 registerSetupCommands(program);
 registerUsageCommands(program);
+registerBoardCommands(program);
+registerSyncCommands(program);
 
 program.parse();
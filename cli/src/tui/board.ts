@@ -0,0 +1,400 @@
+import { applyJsonPatch, type TaskChangedMessage } from '@veritas-kanban/shared';
+import { api, patchTask, TaskConflictError } from '../utils/api.js';
+import type { Task } from '../utils/types.js';
+import { LiveFeed } from './live.js';
+import {
+  BOARD_COLUMNS,
+  detailLines,
+  renderBoard,
+  renderDetail,
+  type RenderState,
+} from './render.js';
+import { Terminal, type Key } from './terminal.js';
+
+export interface BoardOptions {
+  project?: string;
+  author: string;
+  live: boolean;
+}
+
+const MESSAGE_TIMEOUT_MS = 4_000;
+
+const PRIORITY_RANK: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function compareTasks(a: Task, b: Task): number {
+  const position = (a.position ?? Infinity) - (b.position ?? Infinity);
+  if (position && !Number.isNaN(position)) return position;
+  const priority = (PRIORITY_RANK[a.priority] ?? 9) - (PRIORITY_RANK[b.priority] ?? 9);
+  if (priority) return priority;
+  return b.updated.localeCompare(a.updated);
+}
+
+/**
+ * Full-screen board: columns by status, keyboard navigation, task detail
+ * with comments, timers, and live updates from the WebSocket feed.
+ */
+export class BoardApp {
+  private tasks = new Map<string, Task>();
+  private readonly terminal = new Terminal();
+  private readonly feed: LiveFeed | null;
+  private readonly state: RenderState;
+  private submitInput: ((value: string) => Promise<void>) | null = null;
+  private messageTimer: ReturnType<typeof setTimeout> | null = null;
+  private renderPending = false;
+  private exit: (() => void) | null = null;
+
+  constructor(private readonly options: BoardOptions) {
+    this.state = {
+      columns: BOARD_COLUMNS.map(() => []),
+      column: 0,
+      rows: BOARD_COLUMNS.map(() => 0),
+      detail: null,
+      input: null,
+      message: null,
+      live: 'offline',
+      project: options.project,
+    };
+    this.feed = options.live
+      ? new LiveFeed({
+          onSync: () => void this.reload(),
+          onTaskChanged: (message) => void this.applyChange(message),
+          onStatus: (status) => {
+            this.state.live = status;
+            this.scheduleRender();
+          },
+        })
+      : null;
+  }
+
+  /**
+   * Load the board and take over the terminal until the user quits
+   */
+  async run(): Promise<void> {
+    await this.reload();
+
+    const done = new Promise<void>((resolve) => {
+      this.exit = resolve;
+    });
+    this.terminal.start(
+      (str, key) => void this.handleKey(str, key),
+      () => this.render()
+    );
+    this.feed?.connect();
+    this.render();
+
+    return done;
+  }
+
+  private quit(): void {
+    this.feed?.close();
+    if (this.messageTimer) clearTimeout(this.messageTimer);
+    this.terminal.restore();
+    this.exit?.();
+  }
+
+  // ---- Data ----
+
+  private async reload(): Promise<void> {
+    const tasks = await api<Task[]>('/api/tasks');
+    this.tasks = new Map(tasks.filter((t) => this.matches(t)).map((t) => [t.id, t]));
+    this.regroup();
+  }
+
+  private matches(task: Task): boolean {
+    return !this.options.project || task.project === this.options.project;
+  }
+
+  private upsert(task: Task): void {
+    if (this.matches(task)) {
+      this.tasks.set(task.id, task);
+    } else {
+      this.tasks.delete(task.id);
+    }
+    if (this.state.detail?.task.id === task.id) {
+      this.state.detail.task = task;
+    }
+    this.regroup();
+  }
+
+  private remove(taskId: string): void {
+    this.tasks.delete(taskId);
+    if (this.state.detail?.task.id === taskId) {
+      this.state.detail = null;
+      this.flash('Task was removed', true);
+    }
+    this.regroup();
+  }
+
+  private async applyChange(message: TaskChangedMessage): Promise<void> {
+    const { changeType, taskId } = message;
+    try {
+      if (changeType === 'reordered' || !taskId) {
+        await this.reload();
+      } else if (changeType === 'deleted' || changeType === 'archived') {
+        this.remove(taskId);
+      } else if (message.task) {
+        this.upsert(message.task);
+      } else if (message.patch && this.tasks.has(taskId)) {
+        this.upsert(applyJsonPatch(this.tasks.get(taskId) as Task, message.patch));
+      } else {
+        this.upsert(await api<Task>(`/api/tasks/${taskId}`));
+      }
+    } catch {
+      // The next change or resync will catch the board up
+    }
+  }
+
+  /**
+   * Rebuild columns, keeping the selection on the same task where possible.
+   * `follow` moves the selection to that task's column (after a move).
+   */
+  private regroup(follow?: string): void {
+    const selectedId = follow ?? this.selectedTask()?.id;
+    const columns = BOARD_COLUMNS.map(({ status }) =>
+      [...this.tasks.values()].filter((t) => t.status === status).sort(compareTasks)
+    );
+
+    if (follow) {
+      const column = columns.findIndex((tasks) => tasks.some((t) => t.id === follow));
+      if (column !== -1) this.state.column = column;
+    }
+    this.state.columns = columns;
+    this.state.rows = columns.map((tasks, c) => {
+      const index =
+        c === this.state.column && selectedId ? tasks.findIndex((t) => t.id === selectedId) : -1;
+      if (index !== -1) return index;
+      return Math.max(0, Math.min(this.state.rows[c] ?? 0, tasks.length - 1));
+    });
+    this.scheduleRender();
+  }
+
+  private selectedTask(): Task | undefined {
+    if (this.state.detail) return this.state.detail.task;
+    return this.state.columns[this.state.column]?.[this.state.rows[this.state.column]];
+  }
+
+  // ---- Actions ----
+
+  private async moveSelected(delta: number): Promise<void> {
+    const task = this.selectedTask();
+    if (!task) return;
+    const current = BOARD_COLUMNS.findIndex((c) => c.status === task.status);
+    const target = BOARD_COLUMNS[current + delta];
+    if (current === -1 || !target) return;
+
+    // Optimistic: move locally, then reconcile with the server's copy
+    this.tasks.set(task.id, { ...task, status: target.status });
+    this.regroup(task.id);
+    try {
+      const updated = await patchTask(task.id, { status: target.status }, { base: task });
+      this.upsert(updated);
+      this.flash(`Moved to ${target.title}`);
+    } catch (err) {
+      // On a conflict, show what the other writer did instead of our stale copy
+      this.upsert(err instanceof TaskConflictError ? err.task : task);
+      this.flash(`Move failed: ${(err as Error).message}`, true);
+    }
+  }
+
+  private async toggleTimer(): Promise<void> {
+    const task = this.selectedTask();
+    if (!task) return;
+    const action = task.timeTracking?.isRunning ? 'stop' : 'start';
+    try {
+      this.upsert(await api<Task>(`/api/tasks/${task.id}/time/${action}`, { method: 'POST' }));
+      this.flash(action === 'start' ? 'Timer started' : 'Timer stopped');
+    } catch (err) {
+      this.flash(`Timer ${action} failed: ${(err as Error).message}`, true);
+    }
+  }
+
+  private promptComment(): void {
+    const task = this.selectedTask();
+    if (!task) return;
+    this.state.input = { label: `Comment on ${task.id.slice(-6)}`, value: '' };
+    this.submitInput = async (text) => {
+      if (!text.trim()) return;
+      try {
+        this.upsert(
+          await api<Task>(`/api/tasks/${task.id}/comments`, {
+            method: 'POST',
+            body: JSON.stringify({ author: this.options.author, text }),
+          })
+        );
+        this.flash('Comment added');
+      } catch (err) {
+        this.flash(`Comment failed: ${(err as Error).message}`, true);
+      }
+    };
+    this.scheduleRender();
+  }
+
+  private async openSelected(): Promise<void> {
+    const task = this.selectedTask();
+    if (!task) return;
+    this.state.detail = { task, scroll: 0 };
+    this.scheduleRender();
+    try {
+      this.upsert(await api<Task>(`/api/tasks/${task.id}`));
+    } catch {
+      // Keep showing the board's copy
+    }
+  }
+
+  // ---- Input ----
+
+  private async handleKey(str: string | undefined, key: Key): Promise<void> {
+    if (key.ctrl && key.name === 'c') {
+      this.quit();
+      return;
+    }
+    if (this.state.input) {
+      await this.handleInputKey(str, key);
+      return;
+    }
+
+    this.state.message = null;
+    if (this.state.detail) {
+      await this.handleDetailKey(str, key);
+    } else {
+      await this.handleBoardKey(str, key);
+    }
+    this.scheduleRender();
+  }
+
+  private async handleInputKey(str: string | undefined, key: Key): Promise<void> {
+    const input = this.state.input;
+    if (!input) return;
+
+    if (key.name === 'return') {
+      const submit = this.submitInput;
+      this.state.input = null;
+      this.submitInput = null;
+      this.scheduleRender();
+      await submit?.(input.value);
+    } else if (key.name === 'escape') {
+      this.state.input = null;
+      this.submitInput = null;
+    } else if (key.name === 'backspace') {
+      input.value = input.value.slice(0, -1);
+    } else if (str && !key.ctrl && !key.meta && str >= ' ') {
+      input.value += str;
+    }
+    this.scheduleRender();
+  }
+
+  private async handleBoardKey(str: string | undefined, key: Key): Promise<void> {
+    const { column, rows, columns } = this.state;
+
+    if ((key.name === 'left' && key.shift) || str === 'H') return this.moveSelected(-1);
+    if ((key.name === 'right' && key.shift) || str === 'L') return this.moveSelected(1);
+
+    switch (key.name) {
+      case 'left':
+      case 'h':
+        this.state.column = Math.max(0, column - 1);
+        break;
+      case 'right':
+      case 'l':
+        this.state.column = Math.min(BOARD_COLUMNS.length - 1, column + 1);
+        break;
+      case 'up':
+      case 'k':
+        rows[column] = Math.max(0, rows[column] - 1);
+        break;
+      case 'down':
+      case 'j':
+        rows[column] = Math.max(0, Math.min(columns[column].length - 1, rows[column] + 1));
+        break;
+      case 'return':
+        return this.openSelected();
+      case 't':
+        return this.toggleTimer();
+      case 'c':
+        return this.promptComment();
+      case 'r':
+        try {
+          await this.reload();
+          this.flash('Reloaded');
+        } catch (err) {
+          this.flash(`Reload failed: ${(err as Error).message}`, true);
+        }
+        break;
+      case 'q':
+        this.quit();
+        break;
+    }
+  }
+
+  private async handleDetailKey(str: string | undefined, key: Key): Promise<void> {
+    const detail = this.state.detail;
+    if (!detail) return;
+
+    if ((key.name === 'left' && key.shift) || str === 'H') return this.moveSelected(-1);
+    if ((key.name === 'right' && key.shift) || str === 'L') return this.moveSelected(1);
+
+    const maxScroll = Math.max(
+      0,
+      detailLines(detail.task, this.terminal.columns - 2).length - (this.terminal.rows - 3)
+    );
+    const page = Math.max(1, this.terminal.rows - 4);
+
+    switch (key.name) {
+      case 'up':
+      case 'k':
+        detail.scroll = Math.max(0, detail.scroll - 1);
+        break;
+      case 'down':
+      case 'j':
+        detail.scroll = Math.min(maxScroll, detail.scroll + 1);
+        break;
+      case 'pageup':
+        detail.scroll = Math.max(0, detail.scroll - page);
+        break;
+      case 'pagedown':
+        detail.scroll = Math.min(maxScroll, detail.scroll + page);
+        break;
+      case 't':
+        return this.toggleTimer();
+      case 'c':
+        return this.promptComment();
+      case 'escape':
+      case 'backspace':
+        this.state.detail = null;
+        break;
+      case 'q':
+        this.quit();
+        break;
+    }
+  }
+
+  // ---- Output ----
+
+  private flash(text: string, error = false): void {
+    this.state.message = { text, error };
+    if (this.messageTimer) clearTimeout(this.messageTimer);
+    this.messageTimer = setTimeout(() => {
+      this.state.message = null;
+      this.scheduleRender();
+    }, MESSAGE_TIMEOUT_MS);
+    this.scheduleRender();
+  }
+
+  private scheduleRender(): void {
+    if (this.renderPending) return;
+    this.renderPending = true;
+    setImmediate(() => {
+      this.renderPending = false;
+      this.render();
+    });
+  }
+
+  private render(): void {
+    const { columns, rows } = this.terminal;
+    this.terminal.draw(
+      this.state.detail
+        ? renderDetail(this.state, columns, rows)
+        : renderBoard(this.state, columns, rows)
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import type { TaskChangedMessage } from '@veritas-kanban/shared';
+import { API_BASE } from '../utils/api.js';
+
+export type LiveStatus = 'connecting' | 'live' | 'offline';
+
+export interface LiveFeedHandlers {
+  /** Connected and subscribed; the board should reload since events may have been missed */
+  onSync: () => void;
+  onTaskChanged: (message: TaskChangedMessage) => void;
+  onStatus: (status: LiveStatus) => void;
+}
+
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+/**
+ * Task updates from the server's WebSocket feed, subscribed to the `tasks`
+ * topic. Reconnects with exponential backoff and asks the board to reload
+ * after every (re)subscribe instead of replaying missed events — a full
+ * reload is cheap for a single board.
+ */
+export class LiveFeed {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closed = false;
+
+  constructor(
+    private readonly handlers: LiveFeedHandlers,
+    private readonly url = `${API_BASE.replace(/^http/, 'ws')}/ws`
+  ) {}
+
+  connect(): void {
+    if (this.closed) return;
+    this.handlers.onStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.attempts = 0;
+      socket.send(JSON.stringify({ type: 'topics:subscribe', topics: ['tasks'] }));
+    });
+
+    socket.addEventListener('message', (event) => {
+      this.handleMessage(String(event.data));
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handlers.onStatus('offline');
+      this.scheduleReconnect();
+    });
+
+    // 'close' follows 'error', which handles the reconnect
+    socket.addEventListener('error', () => {});
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private handleMessage(raw: string): void {
+    let message: { type?: string };
+    try {
+      message = JSON.parse(raw) as { type?: string };
+    } catch {
+      return;
+    }
+
+    if (message.type === 'topics:subscribed') {
+      this.handlers.onStatus('live');
+      this.handlers.onSync();
+      return;
+    }
+
+    if (message.type === 'task:changed') {
+      this.handlers.onTaskChanged(message as TaskChangedMessage);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.attempts, RECONNECT_MAX_MS);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
@@ -0,0 +1,222 @@
+import chalk from 'chalk';
+import type { Task, TaskStatus } from '../utils/types.js';
+import type { LiveStatus } from './live.js';
+
+export const BOARD_COLUMNS: { status: TaskStatus; title: string }[] = [
+  { status: 'todo', title: 'To Do' },
+  { status: 'in-progress', title: 'In Progress' },
+  { status: 'blocked', title: 'Blocked' },
+  { status: 'done', title: 'Done' },
+];
+
+export interface RenderState {
+  columns: Task[][];
+  column: number;
+  rows: number[];
+  detail: { task: Task; scroll: number } | null;
+  input: { label: string; value: string } | null;
+  message: { text: string; error: boolean } | null;
+  live: LiveStatus;
+  project?: string;
+}
+
+const HEADER_LINES = 2;
+const FOOTER_LINES = 1;
+const COLUMN_GAP = 1;
+
+const BOARD_HELP = '←→ column  ↑↓ task  H/L move  ⏎ open  t timer  c comment  r reload  q quit';
+const DETAIL_HELP = '↑↓ scroll  H/L move  t timer  c comment  esc back  q quit';
+
+const priorityColors: Record<string, (s: string) => string> = {
+  low: chalk.dim,
+  medium: chalk.white,
+  high: chalk.red,
+  critical: chalk.bold.red,
+};
+
+const statusColors: Record<string, (s: string) => string> = {
+  todo: chalk.gray,
+  'in-progress': chalk.yellow,
+  blocked: chalk.red,
+  done: chalk.green,
+};
+
+/**
+ * Truncate (with an ellipsis) or pad plain text to exactly `width` columns
+ */
+export function fit(text: string, width: number): string {
+  if (width <= 0) return '';
+  const flat = text.replace(/[\r\n\t]+/g, ' ');
+  if (flat.length > width) return `${flat.slice(0, Math.max(0, width - 1))}…`;
+  return flat.padEnd(width);
+}
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (line && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+      while (line.length > width) {
+        lines.push(line.slice(0, width));
+        line = line.slice(width);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function formatSeconds(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+}
+
+function header(state: RenderState, width: number): string[] {
+  const label = state.live === 'live' ? '● live ' : `○ ${state.live} `;
+  const color =
+    state.live === 'live' ? chalk.green : state.live === 'connecting' ? chalk.yellow : chalk.red;
+  const title = ` Veritas Kanban${state.project ? ` · #${state.project}` : ''}`;
+  const gap = Math.max(1, width - title.length - label.length);
+  return [chalk.bold(title) + ' '.repeat(gap) + color(label), ''];
+}
+
+function footer(state: RenderState, width: number, help: string): string {
+  if (state.input) {
+    return chalk.cyan(`${state.input.label}: `) + state.input.value + chalk.inverse(' ');
+  }
+  if (state.message) {
+    const text = fit(` ${state.message.text}`, width);
+    return state.message.error ? chalk.red(text) : chalk.green(text);
+  }
+  return chalk.dim(fit(` ${help}`, width));
+}
+
+function card(task: Task, width: number, selected: boolean): string {
+  const marker = task.timeTracking?.isRunning
+    ? '◷'
+    : task.attempt?.status === 'running'
+      ? '▶'
+      : ' ';
+  const id = task.id.slice(-6);
+  const text = fit(`${marker} ${id} ${task.title}`, width);
+  if (selected) return chalk.inverse(text);
+  const color = priorityColors[task.priority] || chalk.white;
+  return chalk.cyan(text.slice(0, 9)) + color(text.slice(9));
+}
+
+export function renderBoard(state: RenderState, width: number, height: number): string[] {
+  const columnWidth = Math.max(
+    10,
+    Math.floor((width - COLUMN_GAP * (BOARD_COLUMNS.length - 1)) / BOARD_COLUMNS.length)
+  );
+  const bodyHeight = Math.max(1, height - HEADER_LINES - FOOTER_LINES - 2);
+
+  const columnLines = BOARD_COLUMNS.map(({ status, title }, c) => {
+    const tasks = state.columns[c];
+    const active = c === state.column;
+    const heading = fit(` ${title} (${tasks.length})`, columnWidth);
+    const color = statusColors[status] || chalk.white;
+    const lines = [
+      active ? chalk.bold(color(heading)) : color(heading),
+      chalk.dim('─'.repeat(columnWidth)),
+    ];
+
+    // Scroll so the selected card stays visible
+    const selected = state.rows[c];
+    const offset = Math.max(0, Math.min(selected - bodyHeight + 1, tasks.length - bodyHeight));
+    for (let i = 0; i < bodyHeight; i++) {
+      const task = tasks[offset + i];
+      lines.push(
+        task ? card(task, columnWidth, active && offset + i === selected) : ' '.repeat(columnWidth)
+      );
+    }
+    return lines;
+  });
+
+  const body: string[] = [];
+  for (let i = 0; i < bodyHeight + 2; i++) {
+    body.push(columnLines.map((lines) => lines[i]).join(' '.repeat(COLUMN_GAP)));
+  }
+
+  return [...header(state, width), ...body, footer(state, width, BOARD_HELP)];
+}
+
+/**
+ * Every line of the detail view, before scrolling
+ */
+export function detailLines(task: Task, width: number): string[] {
+  const lines: string[] = [];
+  const section = (title: string) => lines.push('', chalk.bold.underline(title));
+  // Wrap plain text first so colors never straddle a line break
+  const add = (text: string, color: (s: string) => string = (s) => s) =>
+    lines.push(...wrap(text, width).map((line) => color(line)));
+  const statusColor = statusColors[task.status] || chalk.white;
+  const priorityColor = priorityColors[task.priority] || chalk.white;
+
+  add(task.title, chalk.bold);
+  lines.push(
+    `${chalk.cyan(task.id)}  ${statusColor(task.status)}  ${priorityColor(task.priority)}  ${task.type}` +
+      (task.project ? chalk.dim(`  #${task.project}`) : '') +
+      (task.sprint ? chalk.dim(`  ${task.sprint}`) : '')
+  );
+
+  const tracking = task.timeTracking;
+  if (tracking) {
+    lines.push(
+      chalk.dim(`Time: ${formatSeconds(tracking.totalSeconds)}`) +
+        (tracking.isRunning ? chalk.yellow('  ◷ timer running') : '')
+    );
+  }
+  if (task.blockedReason) {
+    const { category, note } = task.blockedReason;
+    add(`Blocked (${category})${note ? `: ${note}` : ''}`, chalk.red);
+  }
+
+  if (task.description) {
+    section('Description');
+    add(task.description);
+  }
+
+  if (task.subtasks?.length) {
+    const done = task.subtasks.filter((s) => s.completed).length;
+    section(`Subtasks (${done}/${task.subtasks.length})`);
+    for (const subtask of task.subtasks) {
+      add(`${subtask.completed ? '[x]' : '[ ]'} ${subtask.title}`);
+    }
+  }
+
+  if (task.verificationSteps?.length) {
+    section('Verification');
+    for (const step of task.verificationSteps) {
+      add(`${step.checked ? '[x]' : '[ ]'} ${step.description}`);
+    }
+  }
+
+  section(`Comments (${task.comments?.length ?? 0})`);
+  for (const comment of task.comments ?? []) {
+    lines.push(
+      chalk.cyan(comment.author) + chalk.dim(`  ${new Date(comment.timestamp).toLocaleString()}`)
+    );
+    lines.push(...wrap(comment.text, width - 2).map((line) => `  ${line}`));
+  }
+
+  return lines;
+}
+
+export function renderDetail(state: RenderState, width: number, height: number): string[] {
+  const detail = state.detail;
+  if (!detail) return [];
+
+  const bodyHeight = Math.max(1, height - HEADER_LINES - FOOTER_LINES);
+  const lines = detailLines(detail.task, width - 2).map((line) => ` ${line}`);
+  const visible = lines.slice(detail.scroll, detail.scroll + bodyHeight);
+  while (visible.length < bodyHeight) visible.push('');
+
+  return [...header(state, width), ...visible, footer(state, width, DETAIL_HELP)];
+}
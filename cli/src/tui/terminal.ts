@@ -0,0 +1,79 @@
+import readline from 'node:readline';
+
+export interface Key {
+  name?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+  meta?: boolean;
+  sequence?: string;
+}
+
+export type KeyHandler = (str: string | undefined, key: Key) => void;
+
+const ALT_SCREEN_ON = '\x1b[?1049h';
+const ALT_SCREEN_OFF = '\x1b[?1049l';
+const CURSOR_HIDE = '\x1b[?25l';
+const CURSOR_SHOW = '\x1b[?25h';
+const CURSOR_HOME = '\x1b[H';
+const CLEAR_LINE = '\x1b[K';
+const CLEAR_BELOW = '\x1b[J';
+
+/**
+ * Full-screen terminal session: alternate screen, raw keypresses, redraws.
+ * `restore()` is idempotent and also runs on process exit, so a crash never
+ * leaves the user's shell in raw mode.
+ */
+export class Terminal {
+  private active = false;
+  private keyListener?: (str: string | undefined, key: Key) => void;
+  private resizeListener?: () => void;
+  private readonly exitListener = () => this.restore();
+
+  get columns(): number {
+    return process.stdout.columns || 80;
+  }
+
+  get rows(): number {
+    return process.stdout.rows || 24;
+  }
+
+  start(onKey: KeyHandler, onResize: () => void): void {
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+
+    this.keyListener = (str, key) => onKey(str, key ?? {});
+    this.resizeListener = onResize;
+    process.stdin.on('keypress', this.keyListener);
+    process.stdout.on('resize', this.resizeListener);
+    process.on('exit', this.exitListener);
+
+    process.stdout.write(ALT_SCREEN_ON + CURSOR_HIDE);
+    this.active = true;
+  }
+
+  /**
+   * Replace the screen with `lines` (already fitted to the terminal width)
+   */
+  draw(lines: string[]): void {
+    if (!this.active) return;
+    const frame = lines
+      .slice(0, this.rows)
+      .map((line) => line + CLEAR_LINE)
+      .join('\r\n');
+    process.stdout.write(CURSOR_HOME + frame + CLEAR_BELOW);
+  }
+
+  restore(): void {
+    if (!this.active) return;
+    this.active = false;
+
+    if (this.keyListener) process.stdin.off('keypress', this.keyListener);
+    if (this.resizeListener) process.stdout.off('resize', this.resizeListener);
+    process.off('exit', this.exitListener);
+
+    process.stdout.write(CURSOR_SHOW + ALT_SCREEN_OFF);
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+  }
+}
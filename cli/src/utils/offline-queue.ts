@@ -0,0 +1,456 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { ApiError } from '@veritas-kanban/shared';
+import { api } from './api.js';
+import type { Task } from './types.js';
+
+/**
+ * Offline queue for CLI mutations.
+ *
+ * When the API is unreachable, mutations are appended to a local queue
+ * instead of failing, and replayed in order once the server answers again.
+ * Each queued operation remembers the task's `updated` timestamp from the
+ * last time the CLI saw it; if the server's copy has moved on (and not just
+ * because of our own replays), the operation is parked as a conflict for
+ * `vk sync resolve`. Later operations on the same task wait behind it.
+ */
+
+/** Local state directory (override with VK_CLI_HOME) */
+export const CLI_HOME = process.env.VK_CLI_HOME || path.join(os.homedir(), '.veritas-kanban');
+const QUEUE_FILE = path.join(CLI_HOME, 'queue.json');
+const CACHE_FILE = path.join(CLI_HOME, 'tasks-cache.json');
+const LOCK_FILE = path.join(CLI_HOME, 'queue.lock');
+
+const LOCK_RETRY_MS = 100;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 60_000;
+
+/**
+ * Gateway errors while the server restarts. Safe to wait out for reads, but a
+ * mutation may already have been applied behind the proxy, so those are
+ * never queued for replay.
+ */
+const UNAVAILABLE_STATUSES = new Set([502, 503, 504]);
+
+export type QueuedStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedOperation {
+  id: string;
+  method: 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  path: string;
+  body?: unknown;
+  /** Task the operation targets; conflicts are detected and held per task */
+  taskId?: string;
+  taskTitle?: string;
+  /** The task's `updated` timestamp when the CLI last saw it */
+  baseUpdated?: string;
+  description: string;
+  queuedAt: string;
+  status: QueuedStatus;
+  /** Failures are dropped on replay instead of holding the task (e.g. stopping a timer) */
+  bestEffort?: boolean;
+  /** Skip the conflict check on the next replay */
+  force?: boolean;
+  error?: string;
+  /** The server's `updated` timestamp when the conflict was detected */
+  serverUpdated?: string;
+}
+
+/** Enough of a task to address it and check for conflicts, possibly from the cache */
+export interface TaskRef {
+  id: string;
+  title: string;
+  status?: string;
+  updated?: string;
+}
+
+export interface MutationRequest {
+  method: QueuedOperation['method'];
+  path: string;
+  body?: unknown;
+  description: string;
+  bestEffort?: boolean;
+}
+
+export type MutationResult<T> =
+  | { queued: false; data: T }
+  | { queued: true; entry: QueuedOperation };
+
+export interface ReplayResult {
+  applied: QueuedOperation[];
+  dropped: QueuedOperation[];
+  remaining: QueuedOperation[];
+  offline: boolean;
+}
+
+class ConflictError extends Error {
+  constructor(readonly serverUpdated: string) {
+    super(`Task changed on the server since this was queued (server updated ${serverUpdated})`);
+  }
+}
+
+/** A replay's conflict check couldn't reach the server; nothing was sent */
+class ServerUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super('Server unavailable', { cause });
+  }
+}
+
+/** Set once a request in this process finds the server unreachable */
+let serverUnreachable = false;
+
+/**
+ * True when the request never reached the server: connection refused, DNS
+ * failure or reset. Only these are safe to queue and replay.
+ */
+export function isOfflineError(err: unknown): boolean {
+  // fetch rejects with a TypeError ("fetch failed") when the connection fails
+  return err instanceof TypeError && (err.message === 'fetch failed' || err.cause !== undefined);
+}
+
+/** True when a read failed because the server is unreachable or restarting */
+function isUnavailableError(err: unknown): boolean {
+  return isOfflineError(err) || (err instanceof ApiError && UNAVAILABLE_STATUSES.has(err.status));
+}
+
+// ---- Storage ----
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw new Error(`Could not read ${file}: ${(err as Error).message}`);
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(CLI_HOME, { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2) + '\n');
+  await fs.rename(tmp, file);
+}
+
+export async function loadQueue(): Promise<QueuedOperation[]> {
+  return readJson<QueuedOperation[]>(QUEUE_FILE, []);
+}
+
+async function saveQueue(queue: QueuedOperation[]): Promise<void> {
+  if (queue.length === 0) {
+    await fs.rm(QUEUE_FILE, { force: true });
+    return;
+  }
+  await writeJson(QUEUE_FILE, queue);
+}
+
+/**
+ * Serialize queue changes across concurrent CLI processes so two agents
+ * never replay the same operation twice
+ */
+async function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  await fs.mkdir(CLI_HOME, { recursive: true });
+  const started = Date.now();
+
+  for (;;) {
+    try {
+      const handle = await fs.open(LOCK_FILE, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      const stat = await fs.stat(LOCK_FILE).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(LOCK_FILE, { force: true });
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for the offline queue lock (${LOCK_FILE})`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(LOCK_FILE, { force: true });
+  }
+}
+
+function newEntryId(): string {
+  return `op_${Date.now()}_${randomBytes(3).toString('hex')}`;
+}
+
+// ---- Task cache ----
+
+type TaskCache = Record<string, TaskRef>;
+
+function toRef(task: TaskRef): TaskRef {
+  return { id: task.id, title: task.title, status: task.status, updated: task.updated };
+}
+
+async function cacheTasks(tasks: TaskRef[], replace = false): Promise<void> {
+  const cache = replace ? {} : await readJson<TaskCache>(CACHE_FILE, {});
+  for (const task of tasks) cache[task.id] = toRef(task);
+  await writeJson(CACHE_FILE, cache);
+}
+
+/** The task in an API response, if the endpoint returned the updated task */
+function responseTask(data: unknown, taskId: string): Task | null {
+  const task = data as Task | null;
+  return task && typeof task === 'object' && task.id === taskId && task.updated ? task : null;
+}
+
+/**
+ * Find a task by full or partial ID, falling back to the local cache of the
+ * last task list when the server is unreachable. Full task IDs that were
+ * never cached are accepted as-is, without a conflict baseline.
+ */
+export async function findTaskWithCache(id: string): Promise<TaskRef | null> {
+  if (!serverUnreachable) {
+    try {
+      const tasks = await api<Task[]>('/api/tasks');
+      await cacheTasks(tasks, true);
+      return tasks.find((t) => t.id === id || t.id.endsWith(id)) || null;
+    } catch (err) {
+      if (!isUnavailableError(err)) throw err;
+      serverUnreachable = true;
+    }
+  }
+
+  const cache = await readJson<TaskCache>(CACHE_FILE, {});
+  const cached = Object.values(cache).find((t) => t.id === id || t.id.endsWith(id));
+  if (cached) return cached;
+  if (id.startsWith('task_')) return { id, title: id };
+  throw new Error(
+    `Server unreachable and task ${id} is not in the local cache — use the full task ID`
+  );
+}
+
+// ---- Mutations ----
+
+function send<T>(method: string, apiPath: string, body: unknown): Promise<T> {
+  return api<T>(apiPath, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function enqueue(task: TaskRef | null, request: MutationRequest): Promise<QueuedOperation> {
+  const entry: QueuedOperation = {
+    id: newEntryId(),
+    method: request.method,
+    path: request.path,
+    body: request.body,
+    taskId: task?.id,
+    taskTitle: task?.title,
+    baseUpdated: task?.updated,
+    description: request.description,
+    queuedAt: new Date().toISOString(),
+    status: 'pending',
+    bestEffort: request.bestEffort,
+  };
+  await withQueueLock(async () => {
+    const queue = await loadQueue();
+    queue.push(entry);
+    await saveQueue(queue);
+  });
+  return entry;
+}
+
+/**
+ * Send a mutation, or queue it when the server is unreachable. Anything
+ * already queued is replayed first so operations land in order; if the
+ * queue can't drain for this task, the new operation joins it.
+ *
+ * After a successful call `task` is refreshed in place, so operations the
+ * same command queues later use our own change as their conflict baseline.
+ */
+export async function mutate<T>(
+  task: TaskRef | null,
+  request: MutationRequest
+): Promise<MutationResult<T>> {
+  if (serverUnreachable) {
+    return { queued: true, entry: await enqueue(task, request) };
+  }
+
+  if ((await loadQueue()).length > 0) {
+    const replay = await replayQueue();
+    const waiting = replay.remaining.some((e) => task && e.taskId === task.id);
+    if (replay.offline || waiting) {
+      return { queued: true, entry: await enqueue(task, request) };
+    }
+  }
+
+  let data: T;
+  try {
+    data = await send<T>(request.method, request.path, request.body);
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+    serverUnreachable = true;
+    return { queued: true, entry: await enqueue(task, request) };
+  }
+
+  if (task) await refreshTask(task, data);
+  return { queued: false, data };
+}
+
+/**
+ * Bring a task ref up to date after our own successful change, from the
+ * response when it carries the task, otherwise by fetching it. Never throws:
+ * the change has already landed.
+ */
+async function refreshTask(task: TaskRef, data: unknown): Promise<void> {
+  let updated = responseTask(data, task.id);
+  if (!updated) {
+    try {
+      updated = await api<Task>(`/api/tasks/${task.id}`);
+    } catch (err) {
+      if (isOfflineError(err)) serverUnreachable = true;
+      // The new timestamp is unknown (or the task is gone): don't let our
+      // own change look like a conflict later
+      task.updated = undefined;
+      return;
+    }
+  }
+  Object.assign(task, toRef(updated));
+  await cacheTasks([updated]);
+}
+
+/** The API response, or a `{ queued }` marker for JSON output */
+export function resultData<T>(result: MutationResult<T>): T | { queued: string } {
+  return result.queued ? { queued: result.entry.id } : result.data;
+}
+
+// ---- Replay ----
+
+/**
+ * Apply one queued operation. `replayed` tracks each task's `updated`
+ * timestamp after our own replays, so a task we just changed doesn't
+ * count as a conflict for the next queued operation on it.
+ */
+async function applyEntry(entry: QueuedOperation, replayed: Map<string, string>): Promise<void> {
+  const { taskId } = entry;
+
+  if (taskId && entry.baseUpdated && !entry.force) {
+    const current = await api<Task>(`/api/tasks/${taskId}`).catch((err: unknown) => {
+      throw isUnavailableError(err) ? new ServerUnavailableError(err) : err;
+    });
+    if (current.updated !== entry.baseUpdated && current.updated !== replayed.get(taskId)) {
+      throw new ConflictError(current.updated);
+    }
+  }
+
+  const data = await send<unknown>(entry.method, entry.path, entry.body);
+
+  if (taskId) {
+    const task: TaskRef = { id: taskId, title: entry.taskTitle ?? taskId };
+    await refreshTask(task, data);
+    if (task.updated) replayed.set(taskId, task.updated);
+  }
+}
+
+/**
+ * Replay queued operations in order. Stops sending once the server is
+ * unreachable; parks conflicts and failures, holding later operations on
+ * the same task behind them.
+ */
+export async function replayQueue(): Promise<ReplayResult> {
+  return withQueueLock(async () => {
+    const queue = await loadQueue();
+    const result: ReplayResult = { applied: [], dropped: [], remaining: [], offline: false };
+    const held = new Set<string>();
+    const replayed = new Map<string, string>();
+
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i];
+      const blocked = entry.taskId !== undefined && held.has(entry.taskId);
+
+      if (result.offline || blocked || entry.status !== 'pending') {
+        result.remaining.push(entry);
+        if (entry.taskId) held.add(entry.taskId);
+        continue;
+      }
+
+      try {
+        await applyEntry(entry, replayed);
+        result.applied.push(entry);
+      } catch (err) {
+        if (isOfflineError(err) || err instanceof ServerUnavailableError) {
+          result.offline = true;
+          serverUnreachable = true;
+          result.remaining.push(entry);
+          continue;
+        }
+        if (entry.bestEffort && !(err instanceof ConflictError)) {
+          result.dropped.push({ ...entry, error: (err as Error).message });
+          continue;
+        }
+        entry.status = err instanceof ConflictError ? 'conflict' : 'failed';
+        entry.error = (err as Error).message;
+        entry.serverUpdated = err instanceof ConflictError ? err.serverUpdated : undefined;
+        entry.force = undefined;
+        result.remaining.push(entry);
+        if (entry.taskId) held.add(entry.taskId);
+      }
+
+      // Persist after every step so a crash never replays an operation twice
+      await saveQueue([...result.remaining, ...queue.slice(i + 1)]);
+    }
+
+    await saveQueue(result.remaining);
+    return result;
+  });
+}
+
+/**
+ * Entries matching an entry ID or a task ID (full or partial suffix)
+ */
+export function matchEntries(queue: QueuedOperation[], id: string): QueuedOperation[] {
+  const byEntry = queue.filter((e) => e.id === id || e.id.endsWith(id));
+  if (byEntry.length > 0) return byEntry;
+  return queue.filter((e) => e.taskId && (e.taskId === id || e.taskId.endsWith(id)));
+}
+
+export type Resolution = 'retry' | 'force' | 'discard';
+
+/**
+ * Settle parked entries: `retry` re-checks for conflicts, `force` applies
+ * over the server's changes, `discard` drops them. Returns the entries
+ * that were changed; call `replayQueue()` afterwards to send them.
+ */
+export async function resolveEntries(
+  id: string,
+  resolution: Resolution
+): Promise<QueuedOperation[]> {
+  return withQueueLock(async () => {
+    const queue = await loadQueue();
+    const matched = matchEntries(queue, id);
+    if (matched.length === 0) return [];
+
+    if (resolution === 'discard') {
+      await saveQueue(queue.filter((e) => !matched.includes(e)));
+      return matched;
+    }
+
+    for (const entry of matched) {
+      entry.status = 'pending';
+      entry.error = undefined;
+      entry.serverUpdated = undefined;
+      entry.force = resolution === 'force' || undefined;
+    }
+    await saveQueue(queue);
+    return matched;
+  });
+}
+
+/** One-line reminder after a command queued `count` operations */
+export function queuedNotice(count: number): string {
+  const operations = `${count} operation${count === 1 ? '' : 's'}`;
+  return serverUnreachable
+    ? `⏸  Server unreachable — queued ${operations}; run \`vk sync run\` once it is back`
+    : `⏸  Queued ${operations} behind unresolved ones for this task — see \`vk sync status\``;
+}
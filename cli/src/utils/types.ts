@@ -1,5 +1,5 @@
 // Re-export shared types
-export type { Task } from '@veritas-kanban/shared';
+export type { Task, TaskStatus } from '@veritas-kanban/shared';
 
 // Metrics types
 export interface TokenMetrics {
@@ -6,12 +6,14 @@ import {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Import utilities
 import { api } from './utils/api.js';
 import { findTask } from './utils/find.js';
-import { Task } from './utils/types.js';
+import { SharedResource, Task } from './utils/types.js';
 
 // Import tool modules
 import { taskTools, handleTaskTool } from './tools/tasks.js';
@@ -19,6 +21,17 @@ import { agentTools, handleAgentTool } from './tools/agents.js';
 import { automationTools, handleAutomationTool } from './tools/automation.js';
 import { notificationTools, handleNotificationTool } from './tools/notifications.js';
 import { summaryTools, handleSummaryTool } from './tools/summary.js';
+import { commentTools, handleCommentTool } from './tools/comments.js';
+import { subtaskTools, handleSubtaskTool } from './tools/subtasks.js';
+import { timeTools, handleTimeTool } from './tools/time.js';
+import { deliverableTools, handleDeliverableTool } from './tools/deliverables.js';
+import { progressTools, handleProgressTool } from './tools/progress.js';
+import { workflowTools, handleWorkflowTool, type WorkflowSummary } from './tools/workflows.js';
+import { changeTools, handleChangeTool } from './tools/changes.js';
+import { squadTools, handleSquadTool } from './tools/squad.js';
+
+// Import prompts
+import { listPrompts, getPrompt } from './prompts/index.js';
 
 // Create MCP server
 const server = new Server(
@@ -30,6 +43,7 @@ const server = new Server(
     capabilities: {
       tools: {},
       resources: {},
+      prompts: {},
     },
   }
 );
@@ -41,6 +55,14 @@ const allTools = [
   ...automationTools,
   ...notificationTools,
   ...summaryTools,
+  ...commentTools,
+  ...subtaskTools,
+  ...timeTools,
+  ...deliverableTools,
+  ...progressTools,
+  ...workflowTools,
+  ...changeTools,
+  ...squadTools,
 ];
 
 // List available tools
@@ -71,6 +93,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     if (summaryTools.some((t) => t.name === name)) {
       return await handleSummaryTool(name, args);
     }
+    if (commentTools.some((t) => t.name === name)) {
+      return await handleCommentTool(name, args);
+    }
+    if (subtaskTools.some((t) => t.name === name)) {
+      return await handleSubtaskTool(name, args);
+    }
+    if (timeTools.some((t) => t.name === name)) {
+      return await handleTimeTool(name, args);
+    }
+    if (deliverableTools.some((t) => t.name === name)) {
+      return await handleDeliverableTool(name, args);
+    }
+    if (progressTools.some((t) => t.name === name)) {
+      return await handleProgressTool(name, args);
+    }
+    if (workflowTools.some((t) => t.name === name)) {
+      return await handleWorkflowTool(name, args);
+    }
+    if (changeTools.some((t) => t.name === name)) {
+      return await handleChangeTool(name, args);
+    }
+    if (squadTools.some((t) => t.name === name)) {
+      return await handleSquadTool(name, args);
+    }
 
     return {
       content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -91,7 +137,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 // List available resources
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  const tasks = await api<Task[]>('/api/tasks');
+  const [tasks, workflows, prompts] = await Promise.all([
+    api<Task[]>('/api/tasks'),
+    api<WorkflowSummary[]>('/api/workflows'),
+    api<SharedResource[]>('/api/shared-resources?type=prompt'),
+  ]);
 
   return {
     resources: [
@@ -113,6 +163,30 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => {
         description: `${task.type} task - ${task.status} - ${task.project || 'no project'}`,
         mimeType: 'application/json',
       })),
+      {
+        uri: 'kanban://workflows',
+        name: 'Workflows',
+        description: 'Workflow definitions available to run',
+        mimeType: 'application/json',
+      },
+      ...workflows.map((workflow) => ({
+        uri: `kanban://workflow/${workflow.id}`,
+        name: workflow.name,
+        description: workflow.description || `Workflow v${workflow.version}`,
+        mimeType: 'application/json',
+      })),
+      {
+        uri: 'kanban://prompts',
+        name: 'Prompt Templates',
+        description: 'Shared prompt templates for agents',
+        mimeType: 'application/json',
+      },
+      ...prompts.map((prompt) => ({
+        uri: `kanban://prompt/${prompt.id}`,
+        name: prompt.name,
+        description: `Prompt template v${prompt.version}${prompt.tags.length ? ` - ${prompt.tags.join(', ')}` : ''}`,
+        mimeType: 'text/markdown',
+      })),
     ],
   };
 });
@@ -167,9 +241,80 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     };
   }
 
+  if (uri === 'kanban://workflows') {
+    const workflows = await api<WorkflowSummary[]>('/api/workflows');
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(workflows, null, 2),
+        },
+      ],
+    };
+  }
+
+  if (uri.startsWith('kanban://workflow/')) {
+    const id = uri.replace('kanban://workflow/', '');
+    const workflow = await api<unknown>(`/api/workflows/${encodeURIComponent(id)}`);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(workflow, null, 2),
+        },
+      ],
+    };
+  }
+
+  if (uri === 'kanban://prompts') {
+    const prompts = await api<SharedResource[]>('/api/shared-resources?type=prompt');
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(
+            prompts.map(({ content: _content, ...meta }) => meta),
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  if (uri.startsWith('kanban://prompt/')) {
+    const id = uri.replace('kanban://prompt/', '');
+    const prompt = await api<SharedResource>(`/api/shared-resources/${encodeURIComponent(id)}`);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: prompt.content,
+        },
+      ],
+    };
+  }
+
   throw new Error(`Unknown resource: ${uri}`);
 });
 
+// List available prompts
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return listPrompts();
+});
+
+// Render a prompt, optionally filled from a task
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  return getPrompt(name, args);
+});
+
 // Start server
 async function main() {
   const transport = new StdioServerTransport();
@@ -0,0 +1,159 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+import { SharedResource, SharedResourceType } from '../utils/types.js';
+import { referencesTask, renderTemplate, taskContext, templateArguments } from './template.js';
+
+/**
+ * MCP prompts from two sources:
+ *   - prompt-registry/*.md in the repo (name = file name, e.g. `bug-triage`)
+ *   - shared resources of type prompt, guideline or skill
+ *     (name = `<type>:<slug of resource name>`, e.g. `guideline:code-review`)
+ *
+ * Every prompt takes an optional `taskId`; the task fills `{{task.*}}` and
+ * `<TASK-ID>`-style placeholders, or is appended as context when the
+ * template has none.
+ */
+
+const PROMPT_RESOURCE_TYPES: SharedResourceType[] = ['prompt', 'guideline', 'skill'];
+
+/** Repo-level prompt-registry, resolved from src/prompts or dist/prompts */
+const REGISTRY_DIR =
+  process.env.VK_PROMPT_REGISTRY ||
+  fileURLToPath(new URL('../../../prompt-registry', import.meta.url));
+
+interface PromptSource {
+  name: string;
+  description: string;
+  template: string;
+}
+
+const TASK_ID_ARGUMENT = {
+  name: 'taskId',
+  description: 'Task ID or partial ID to fill the prompt from',
+  required: false,
+};
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Registry files are "# Title", a one-line description, then the prompt in
+ * a fenced block under "## Prompt". Files without that block are used whole.
+ */
+function parseRegistryFile(name: string, markdown: string): PromptSource {
+  const lines = markdown.split('\n');
+  const title =
+    lines
+      .find((l) => l.startsWith('# '))
+      ?.slice(2)
+      .trim() || name;
+  const summary = lines.find((l) => l.trim() && !l.startsWith('#') && !l.startsWith('---'));
+
+  let template = markdown;
+  const heading = lines.findIndex((l) => l.trim() === '## Prompt');
+  const open = lines.findIndex((l, i) => i > heading && /^`{3,}/.test(l));
+  if (heading !== -1 && open !== -1) {
+    const fence = lines[open].match(/^`+/)?.[0] ?? '```';
+    const close = lines.findIndex((l, i) => i > open && l.trim() === fence);
+    template = lines.slice(open + 1, close === -1 ? undefined : close).join('\n');
+  }
+
+  return {
+    name,
+    description: summary ? `${title} — ${summary.trim()}` : title,
+    template,
+  };
+}
+
+async function loadRegistryPrompts(): Promise<PromptSource[]> {
+  const files = await fs.readdir(REGISTRY_DIR).catch(() => [] as string[]);
+  const prompts: PromptSource[] = [];
+
+  for (const file of files.sort()) {
+    if (!file.endsWith('.md') || file === 'README.md') continue;
+    const markdown = await fs.readFile(path.join(REGISTRY_DIR, file), 'utf-8');
+    prompts.push(parseRegistryFile(file.replace(/\.md$/, ''), markdown));
+  }
+  return prompts;
+}
+
+async function loadSharedResourcePrompts(): Promise<PromptSource[]> {
+  const lists = await Promise.all(
+    PROMPT_RESOURCE_TYPES.map((type) =>
+      api<SharedResource[]>(`/api/shared-resources?type=${type}`).catch(() => [])
+    )
+  );
+
+  const prompts: PromptSource[] = [];
+  const seen = new Set<string>();
+  for (const resource of lists.flat()) {
+    let name = `${resource.type}:${slugify(resource.name) || resource.id}`;
+    if (seen.has(name)) name = `${resource.type}:${resource.id}`;
+    seen.add(name);
+
+    prompts.push({
+      name,
+      description: `${resource.name} (${resource.type} v${resource.version}${resource.tags.length ? `, ${resource.tags.join(', ')}` : ''})`,
+      template: resource.content,
+    });
+  }
+  return prompts;
+}
+
+async function loadPrompts(): Promise<PromptSource[]> {
+  const [registry, shared] = await Promise.all([
+    loadRegistryPrompts(),
+    loadSharedResourcePrompts(),
+  ]);
+  return [...registry, ...shared];
+}
+
+export async function listPrompts() {
+  const prompts = await loadPrompts();
+
+  return {
+    prompts: prompts.map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: [
+        TASK_ID_ARGUMENT,
+        ...templateArguments(prompt.template).map((name) => ({ name, required: false })),
+      ],
+    })),
+  };
+}
+
+export async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = (await loadPrompts()).find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Prompt not found: ${name}`);
+  }
+
+  const { taskId, ...values } = args;
+  const task = taskId ? await findTask(taskId) : null;
+  if (taskId && !task) {
+    throw new Error(`Task not found: ${taskId}`);
+  }
+
+  let text = renderTemplate(prompt.template, task, values);
+  if (task && !referencesTask(prompt.template)) {
+    text = `${text.trimEnd()}\n\n${taskContext(task)}`;
+  }
+
+  return {
+    description: task ? `${prompt.description} — ${task.id}` : prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: { type: 'text' as const, text },
+      },
+    ],
+  };
+}
@@ -0,0 +1,146 @@
+import { Task } from '../utils/types.js';
+
+/**
+ * Prompt template substitution
+ *
+ * Two placeholder styles are filled:
+ *   - `{{task.title}}`, `{{task.acceptanceCriteria}}`, `{{task.subtasks}}`, … from a task,
+ *     and `{{name}}` from prompt arguments (used by shared resources)
+ *   - `<TASK-ID>`, `<TASK-TITLE>`, … as written in prompt-registry/*.md, from a
+ *     task or from an argument of the same name in lowercase (`<ROOT-CAUSE>` → `root-cause`)
+ *
+ * Placeholders with no value are left as-is so the agent can see what's missing.
+ */
+
+const MUSTACHE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const ANGLE_PATTERN = /<([A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*)>/g;
+
+/** Registry placeholders that a task can answer */
+const ANGLE_TASK_FIELDS: Record<string, string> = {
+  'TASK-ID': 'id',
+  'TASK-TITLE': 'title',
+  'FEATURE-TITLE': 'title',
+  'BUG-TITLE': 'title',
+  PROJECT: 'project',
+  'SPRINT-ID': 'sprint',
+  'BRIEF-CONTEXT': 'description',
+  REQUIREMENTS: 'description',
+  'ACCEPTANCE-CRITERIA': 'acceptanceCriteria',
+};
+
+function checklist(items: { text: string; done: boolean }[]): string {
+  return items.map((item) => `- [${item.done ? 'x' : ' '}] ${item.text}`).join('\n');
+}
+
+/**
+ * Verification steps plus every subtask's acceptance criteria
+ */
+function acceptanceCriteria(task: Task): string {
+  const items = [
+    ...(task.verificationSteps || []).map((s) => ({ text: s.description, done: s.checked })),
+    ...(task.subtasks || []).flatMap((s) =>
+      (s.acceptanceCriteria || []).map((text, i) => ({
+        text: `${s.title}: ${text}`,
+        done: s.criteriaChecked?.[i] ?? false,
+      }))
+    ),
+  ];
+  return checklist(items);
+}
+
+/**
+ * Value of `task.<field>` as prompt text; undefined when the task has none
+ */
+export function taskFieldText(task: Task, field: string): string | undefined {
+  let text: string | undefined;
+  switch (field) {
+    case 'acceptanceCriteria':
+      text = acceptanceCriteria(task);
+      break;
+    case 'subtasks':
+      text = checklist((task.subtasks || []).map((s) => ({ text: s.title, done: s.completed })));
+      break;
+    case 'verificationSteps':
+      text = checklist(
+        (task.verificationSteps || []).map((s) => ({ text: s.description, done: s.checked }))
+      );
+      break;
+    default: {
+      const value = (task as unknown as Record<string, unknown>)[field];
+      if (value === undefined || value === null) return undefined;
+      text = Array.isArray(value)
+        ? value.join(', ')
+        : typeof value === 'object'
+          ? JSON.stringify(value, null, 2)
+          : String(value);
+    }
+  }
+  return text ? text : undefined;
+}
+
+/**
+ * Argument names a template accepts, not counting `task.*` placeholders
+ */
+export function templateArguments(template: string): string[] {
+  const names = new Set<string>();
+  for (const [, name] of template.matchAll(MUSTACHE_PATTERN)) {
+    if (!name.startsWith('task.')) names.add(name);
+  }
+  for (const [, name] of template.matchAll(ANGLE_PATTERN)) {
+    if (!(name in ANGLE_TASK_FIELDS)) names.add(name.toLowerCase());
+  }
+  return [...names];
+}
+
+/**
+ * True when the template has any placeholder a task can fill
+ */
+export function referencesTask(template: string): boolean {
+  for (const [, name] of template.matchAll(MUSTACHE_PATTERN)) {
+    if (name.startsWith('task.')) return true;
+  }
+  for (const [, name] of template.matchAll(ANGLE_PATTERN)) {
+    if (name in ANGLE_TASK_FIELDS) return true;
+  }
+  return false;
+}
+
+export function renderTemplate(
+  template: string,
+  task: Task | null,
+  args: Record<string, string> = {}
+): string {
+  const fromTask = (field: string) => (task ? taskFieldText(task, field) : undefined);
+
+  return template
+    .replace(MUSTACHE_PATTERN, (match, name: string) => {
+      const value = name.startsWith('task.') ? fromTask(name.slice(5)) : args[name];
+      return value ?? match;
+    })
+    .replace(ANGLE_PATTERN, (match, name: string) => {
+      const field = ANGLE_TASK_FIELDS[name];
+      const value = args[name.toLowerCase()] ?? (field ? fromTask(field) : undefined);
+      if (value !== undefined) return value;
+      return name === 'DATE' ? new Date().toISOString().slice(0, 10) : match;
+    });
+}
+
+/**
+ * Markdown summary of a task, appended to prompts that don't reference one
+ */
+export function taskContext(task: Task): string {
+  const lines = [
+    `## Task ${task.id}: ${task.title}`,
+    '',
+    `Status: ${task.status} · Priority: ${task.priority} · Type: ${task.type}${task.project ? ` · Project: ${task.project}` : ''}`,
+  ];
+  if (task.description) lines.push('', task.description);
+
+  const subtasks = taskFieldText(task, 'subtasks');
+  if (subtasks) lines.push('', '### Subtasks', subtasks);
+
+  const criteria = taskFieldText(task, 'acceptanceCriteria');
+  if (criteria) lines.push('', '### Acceptance Criteria', criteria);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { ChangesResponse } from '../utils/types.js';
+
+const GetChangesSchema = z.object({
+  since: z.string().min(1),
+  types: z.array(z.enum(['tasks', 'comments', 'activity', 'broadcasts'])).optional(),
+  full: z.boolean().default(false),
+});
+
+const SearchSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+interface SearchResponse {
+  total: number;
+  results: {
+    kind: 'task' | 'doc';
+    id: string;
+    title: string;
+    score: number;
+    matchedFields: string[];
+    snippet?: string;
+    task?: { status: string; priority: string; project?: string };
+  }[];
+}
+
+export const changeTools = [
+  {
+    name: 'get_changes',
+    description:
+      'Get everything that changed since a timestamp (tasks, comments, activity, broadcasts). Use the returned "until" as the next "since".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description: 'ISO 8601 timestamp',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string', enum: ['tasks', 'comments', 'activity', 'broadcasts'] },
+          description: 'Change types to include (default: all)',
+        },
+        full: {
+          type: 'boolean',
+          description: 'Return full task objects instead of summaries (default: false)',
+        },
+      },
+      required: ['since'],
+    },
+  },
+  {
+    name: 'search',
+    description:
+      'Ranked full-text search across tasks, comments, attachments and docs. Supports "exact phrases" and filters like status:, project:, agent:, type:, priority:, sprint:, is:task|doc',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 20)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+export async function handleChangeTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'get_changes': {
+      const { since, types, full } = GetChangesSchema.parse(args);
+      const params = new URLSearchParams({ since, full: String(full) });
+      if (types?.length) params.set('types', types.join(','));
+
+      const changes = await api<ChangesResponse>(`/api/changes?${params}`);
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(changes, null, 2) }],
+      };
+    }
+
+    case 'search': {
+      const { query, limit } = SearchSchema.parse(args);
+      const params = new URLSearchParams({ q: query });
+      if (limit) params.set('limit', String(limit));
+
+      const response = await api<SearchResponse>(`/api/search?${params}`);
+      if (response.results.length === 0) {
+        return {
+          content: [{ type: 'text', text: `No results for: ${query}` }],
+        };
+      }
+
+      const lines = response.results.map((r) => {
+        const meta = r.task ? ` [${r.task.status}, ${r.task.priority}]` : '';
+        const snippet = r.snippet ? `\n  ${r.snippet}` : '';
+        return `- ${r.kind} ${r.id}: ${r.title}${meta}${snippet}`;
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${response.total} results for: ${query}\n\n${lines.join('\n')}`,
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown change tool: ${name}`);
+  }
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+import { Task } from '../utils/types.js';
+
+const AddCommentSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().min(1),
+  author: z.string().min(1).default('Veritas'),
+});
+
+const ListCommentsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const commentTools = [
+  {
+    name: 'add_comment',
+    description: 'Add a comment to a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        text: {
+          type: 'string',
+          description: 'Comment text (markdown)',
+        },
+        author: {
+          type: 'string',
+          description: 'Comment author (default: Veritas)',
+        },
+      },
+      required: ['id', 'text'],
+    },
+  },
+  {
+    name: 'list_comments',
+    description: 'List the comments on a task, oldest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+];
+
+export async function handleCommentTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'add_comment': {
+      const { id, text, author } = AddCommentSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/comments`, {
+        method: 'POST',
+        body: JSON.stringify({ author, text }),
+      });
+      const comment = updated.comments?.[updated.comments.length - 1];
+
+      return {
+        content: [{ type: 'text', text: `Comment added to ${task.id}: ${comment?.id ?? ''}` }],
+      };
+    }
+
+    case 'list_comments': {
+      const { id } = ListCommentsSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(task.comments || [], null, 2) }],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown comment tool: ${name}`);
+  }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+import { Deliverable, Task } from '../utils/types.js';
+
+const DELIVERABLE_TYPES = ['document', 'code', 'report', 'artifact', 'other'] as const;
+const DELIVERABLE_STATUSES = ['pending', 'attached', 'reviewed', 'accepted'] as const;
+
+const TaskIdSchema = z.object({
+  id: z.string().min(1),
+});
+
+const AddDeliverableSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  type: z.enum(DELIVERABLE_TYPES).default('document'),
+  path: z.string().optional(),
+  description: z.string().optional(),
+  agent: z.string().optional(),
+});
+
+const UpdateDeliverableSchema = z.object({
+  id: z.string().min(1),
+  deliverableId: z.string().min(1),
+  title: z.string().min(1).optional(),
+  status: z.enum(DELIVERABLE_STATUSES).optional(),
+  path: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const deliverableTools = [
+  {
+    name: 'list_deliverables',
+    description: 'List the deliverables attached to a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'add_deliverable',
+    description: 'Record a deliverable (document, code, report, artifact) produced for a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        title: {
+          type: 'string',
+          description: 'Deliverable title',
+        },
+        type: {
+          type: 'string',
+          enum: [...DELIVERABLE_TYPES],
+          description: 'Deliverable type (default: document)',
+        },
+        path: {
+          type: 'string',
+          description: 'File path or URL',
+        },
+        description: {
+          type: 'string',
+          description: 'Deliverable description',
+        },
+        agent: {
+          type: 'string',
+          description: 'Agent that produced it',
+        },
+      },
+      required: ['id', 'title'],
+    },
+  },
+  {
+    name: 'update_deliverable',
+    description: 'Update a deliverable (e.g. mark it attached or reviewed)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        deliverableId: {
+          type: 'string',
+          description: 'Deliverable ID',
+        },
+        title: {
+          type: 'string',
+          description: 'New title',
+        },
+        status: {
+          type: 'string',
+          enum: [...DELIVERABLE_STATUSES],
+          description: 'New status',
+        },
+        path: {
+          type: 'string',
+          description: 'File path or URL',
+        },
+        description: {
+          type: 'string',
+          description: 'New description',
+        },
+      },
+      required: ['id', 'deliverableId'],
+    },
+  },
+];
+
+export async function handleDeliverableTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'list_deliverables': {
+      const { id } = TaskIdSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const deliverables = await api<Deliverable[]>(`/api/tasks/${task.id}/deliverables`);
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(deliverables, null, 2) }],
+      };
+    }
+
+    case 'add_deliverable': {
+      const { id, ...body } = AddDeliverableSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/deliverables`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const deliverable = updated.deliverables?.[updated.deliverables.length - 1];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Deliverable added: ${deliverable?.id ?? ''}\n${JSON.stringify(deliverable, null, 2)}`,
+          },
+        ],
+      };
+    }
+
+    case 'update_deliverable': {
+      const { id, deliverableId, ...updates } = UpdateDeliverableSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/deliverables/${deliverableId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      });
+      const deliverable = updated.deliverables?.find((d) => d.id === deliverableId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Deliverable updated: ${deliverableId}\n${JSON.stringify(deliverable, null, 2)}`,
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown deliverable tool: ${name}`);
+  }
+}
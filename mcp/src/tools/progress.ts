@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+
+const TaskIdSchema = z.object({
+  id: z.string().min(1),
+});
+
+const UpdateProgressSchema = z.object({
+  id: z.string().min(1),
+  content: z.string(),
+});
+
+const AppendProgressSchema = z.object({
+  id: z.string().min(1),
+  section: z.string().min(1),
+  content: z.string().min(1),
+});
+
+export const progressTools = [
+  {
+    name: 'get_progress',
+    description: "Read a task's progress file (markdown notes carried across agent sessions)",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'update_progress',
+    description: "Overwrite a task's progress file",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        content: {
+          type: 'string',
+          description: 'Full markdown content',
+        },
+      },
+      required: ['id', 'content'],
+    },
+  },
+  {
+    name: 'append_progress',
+    description: "Append notes to a section (## heading) of a task's progress file",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        section: {
+          type: 'string',
+          description: 'Section heading, without "## " (created if missing)',
+        },
+        content: {
+          type: 'string',
+          description: 'Markdown to append',
+        },
+      },
+      required: ['id', 'section', 'content'],
+    },
+  },
+];
+
+export async function handleProgressTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'get_progress': {
+      const { id } = TaskIdSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const { content } = await api<{ content: string }>(`/api/tasks/${task.id}/progress`);
+
+      return {
+        content: [{ type: 'text', text: content || `No progress recorded for ${task.id}` }],
+      };
+    }
+
+    case 'update_progress': {
+      const { id, content } = UpdateProgressSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      await api(`/api/tasks/${task.id}/progress`, {
+        method: 'PUT',
+        body: JSON.stringify({ content }),
+      });
+
+      return {
+        content: [{ type: 'text', text: `Progress file updated: ${task.id}` }],
+      };
+    }
+
+    case 'append_progress': {
+      const { id, section, content } = AppendProgressSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      await api(`/api/tasks/${task.id}/progress/append`, {
+        method: 'POST',
+        body: JSON.stringify({ section, content }),
+      });
+
+      return {
+        content: [{ type: 'text', text: `Appended to "${section}" in progress file: ${task.id}` }],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown progress tool: ${name}`);
+  }
+}
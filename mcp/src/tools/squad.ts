@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { SquadMessage } from '../utils/types.js';
+
+const SendSquadMessageSchema = z.object({
+  agent: z.string().min(1),
+  message: z.string().min(1),
+  tags: z.array(z.string()).optional(),
+  model: z.string().optional(),
+});
+
+const GetSquadMessagesSchema = z.object({
+  since: z.string().optional(),
+  agent: z.string().optional(),
+  limit: z.number().int().positive().default(50),
+  includeSystem: z.boolean().default(true),
+});
+
+export const squadTools = [
+  {
+    name: 'send_squad_message',
+    description: 'Post a message to the squad chat channel shared by all agents',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agent: {
+          type: 'string',
+          description: 'Name of the agent sending the message',
+        },
+        message: {
+          type: 'string',
+          description: 'Message text',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional tags for categorization',
+        },
+        model: {
+          type: 'string',
+          description: 'Model that generated the message',
+        },
+      },
+      required: ['agent', 'message'],
+    },
+  },
+  {
+    name: 'get_squad_messages',
+    description: 'Read recent squad chat messages',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description: 'Only messages after this ISO 8601 timestamp',
+        },
+        agent: {
+          type: 'string',
+          description: 'Only messages from this agent',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum messages (default: 50)',
+        },
+        includeSystem: {
+          type: 'boolean',
+          description: 'Include system messages such as agent spawned/completed (default: true)',
+        },
+      },
+    },
+  },
+];
+
+export async function handleSquadTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'send_squad_message': {
+      const input = SendSquadMessageSchema.parse(args);
+      const message = await api<SquadMessage>('/api/chat/squad', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      });
+
+      return {
+        content: [{ type: 'text', text: `Squad message sent: ${message.id}` }],
+      };
+    }
+
+    case 'get_squad_messages': {
+      const { since, agent, limit, includeSystem } = GetSquadMessagesSchema.parse(args ?? {});
+      const params = new URLSearchParams({
+        limit: String(limit),
+        includeSystem: String(includeSystem),
+      });
+      if (since) params.set('since', since);
+      if (agent) params.set('agent', agent);
+
+      const messages = await api<SquadMessage[]>(`/api/chat/squad?${params}`);
+      if (messages.length === 0) {
+        return {
+          content: [{ type: 'text', text: 'No squad messages' }],
+        };
+      }
+
+      const lines = messages.map(
+        (m) =>
+          `[${m.timestamp}] ${m.displayName || m.agent}${m.system ? ' (system)' : ''}: ${m.message}`
+      );
+
+      return {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown squad tool: ${name}`);
+  }
+}
@@ -0,0 +1,331 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+import { Task } from '../utils/types.js';
+
+const AddSubtaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  acceptanceCriteria: z.array(z.string()).optional(),
+});
+
+const CompleteSubtaskSchema = z.object({
+  id: z.string().min(1),
+  subtask: z.string().min(1),
+  completed: z.boolean().default(true),
+});
+
+const ToggleCriterionSchema = z.object({
+  id: z.string().min(1),
+  subtask: z.string().min(1),
+  index: z.number().int().min(0),
+});
+
+const AddVerificationStepSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+});
+
+const CheckVerificationStepSchema = z.object({
+  id: z.string().min(1),
+  step: z.string().min(1),
+  checked: z.boolean().default(true),
+});
+
+/**
+ * Match a subtask or verification step by exact ID, then by exact text
+ */
+function findItem<T extends { id: string }>(
+  items: T[] | undefined,
+  ref: string,
+  text: (item: T) => string
+): T | undefined {
+  return items?.find((item) => item.id === ref) ?? items?.find((item) => text(item) === ref);
+}
+
+function summarizeSubtasks(task: Task): string {
+  const subtasks = task.subtasks || [];
+  const done = subtasks.filter((s) => s.completed).length;
+  return `Subtasks: ${done}/${subtasks.length} complete`;
+}
+
+function summarizeVerification(task: Task): string {
+  const steps = task.verificationSteps || [];
+  const checked = steps.filter((s) => s.checked).length;
+  return `Verification: ${checked}/${steps.length} checked`;
+}
+
+export const subtaskTools = [
+  {
+    name: 'add_subtask',
+    description: 'Add a subtask (optionally with acceptance criteria) to a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        title: {
+          type: 'string',
+          description: 'Subtask title',
+        },
+        acceptanceCriteria: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Acceptance criteria for the subtask',
+        },
+      },
+      required: ['id', 'title'],
+    },
+  },
+  {
+    name: 'complete_subtask',
+    description: 'Mark a subtask complete (or incomplete)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        subtask: {
+          type: 'string',
+          description: 'Subtask ID or exact title',
+        },
+        completed: {
+          type: 'boolean',
+          description: 'Completion state (default: true)',
+        },
+      },
+      required: ['id', 'subtask'],
+    },
+  },
+  {
+    name: 'toggle_subtask_criterion',
+    description: 'Toggle one acceptance criterion of a subtask',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        subtask: {
+          type: 'string',
+          description: 'Subtask ID or exact title',
+        },
+        index: {
+          type: 'number',
+          description: 'Zero-based index of the criterion',
+        },
+      },
+      required: ['id', 'subtask', 'index'],
+    },
+  },
+  {
+    name: 'add_verification_step',
+    description: 'Add a verification (done-criteria) step to a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        description: {
+          type: 'string',
+          description: 'What needs to be verified',
+        },
+      },
+      required: ['id', 'description'],
+    },
+  },
+  {
+    name: 'check_verification_step',
+    description: 'Check (or uncheck) a verification step',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        step: {
+          type: 'string',
+          description: 'Verification step ID or exact description',
+        },
+        checked: {
+          type: 'boolean',
+          description: 'Checked state (default: true)',
+        },
+      },
+      required: ['id', 'step'],
+    },
+  },
+];
+
+export async function handleSubtaskTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'add_subtask': {
+      const { id, title, acceptanceCriteria } = AddSubtaskSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/subtasks`, {
+        method: 'POST',
+        body: JSON.stringify({ title, acceptanceCriteria }),
+      });
+      const subtask = updated.subtasks?.[updated.subtasks.length - 1];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Subtask added: ${subtask?.id ?? ''}\n${summarizeSubtasks(updated)}`,
+          },
+        ],
+      };
+    }
+
+    case 'complete_subtask': {
+      const { id, subtask: ref, completed } = CompleteSubtaskSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const subtask = findItem(task.subtasks, ref, (s) => s.title);
+      if (!subtask) {
+        return {
+          content: [{ type: 'text', text: `Subtask not found: ${ref}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/subtasks/${subtask.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ completed }),
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Subtask ${completed ? 'completed' : 'reopened'}: ${subtask.title}\n${summarizeSubtasks(updated)}${updated.status === 'done' && task.status !== 'done' ? '\nTask auto-completed' : ''}`,
+          },
+        ],
+      };
+    }
+
+    case 'toggle_subtask_criterion': {
+      const { id, subtask: ref, index } = ToggleCriterionSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const subtask = findItem(task.subtasks, ref, (s) => s.title);
+      if (!subtask) {
+        return {
+          content: [{ type: 'text', text: `Subtask not found: ${ref}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(
+        `/api/tasks/${task.id}/subtasks/${subtask.id}/criteria/${index}`,
+        { method: 'PATCH' }
+      );
+      const toggled = updated.subtasks?.find((s) => s.id === subtask.id);
+      const checked = toggled?.criteriaChecked?.[index];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Criterion ${checked ? 'checked' : 'unchecked'}: ${toggled?.acceptanceCriteria?.[index] ?? index}`,
+          },
+        ],
+      };
+    }
+
+    case 'add_verification_step': {
+      const { id, description } = AddVerificationStepSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/verification`, {
+        method: 'POST',
+        body: JSON.stringify({ description }),
+      });
+      const step = updated.verificationSteps?.[updated.verificationSteps.length - 1];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Verification step added: ${step?.id ?? ''}\n${summarizeVerification(updated)}`,
+          },
+        ],
+      };
+    }
+
+    case 'check_verification_step': {
+      const { id, step: ref, checked } = CheckVerificationStepSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const step = findItem(task.verificationSteps, ref, (s) => s.description);
+      if (!step) {
+        return {
+          content: [{ type: 'text', text: `Verification step not found: ${ref}` }],
+          isError: true,
+        };
+      }
+
+      const updated = await api<Task>(`/api/tasks/${task.id}/verification/${step.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ checked }),
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Verification step ${checked ? 'checked' : 'unchecked'}: ${step.description}\n${summarizeVerification(updated)}`,
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown subtask tool: ${name}`);
+  }
+}
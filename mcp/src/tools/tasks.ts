@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { api } from '../utils/api.js';
+import { api, patchTask } from '../utils/api.js';
 import { findTask } from '../utils/find.js';
 import { Task } from '../utils/types.js';
 
@@ -243,10 +243,7 @@ export async function handleTaskTool(name: string, args: any): Promise<any> {
         };
       }
 
-      const updated = await api<Task>(`/api/tasks/${task.id}`, {
-        method: 'PATCH',
-        body: JSON.stringify(updates),
-      });
+      const updated = await patchTask(task.id, updates, { base: task });
 
       return {
         content: [
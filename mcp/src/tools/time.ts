@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+import { formatDuration } from '../utils/format.js';
+import { Task } from '../utils/types.js';
+
+const TaskIdSchema = z.object({
+  id: z.string().min(1),
+});
+
+const LogTimeSchema = z.object({
+  id: z.string().min(1),
+  minutes: z.number().positive(),
+  description: z.string().optional(),
+});
+
+interface TimeSummary {
+  byProject: { project: string; totalSeconds: number; taskCount: number }[];
+  total: number;
+}
+
+export const timeTools = [
+  {
+    name: 'start_timer',
+    description: 'Start the time tracking timer on a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'stop_timer',
+    description: 'Stop the running timer on a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'log_time',
+    description: 'Log a manual time entry on a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        minutes: {
+          type: 'number',
+          description: 'Time spent, in minutes',
+        },
+        description: {
+          type: 'string',
+          description: 'What the time was spent on',
+        },
+      },
+      required: ['id', 'minutes'],
+    },
+  },
+  {
+    name: 'get_time_summary',
+    description: 'Get tracked time totals by project',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+export async function handleTimeTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'start_timer':
+    case 'stop_timer': {
+      const { id } = TaskIdSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const action = name === 'start_timer' ? 'start' : 'stop';
+      const updated = await api<Task>(`/api/tasks/${task.id}/time/${action}`, {
+        method: 'POST',
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Timer ${action === 'start' ? 'started' : 'stopped'} on ${task.id}\nTotal tracked: ${formatDuration(updated.timeTracking?.totalSeconds || 0)}`,
+          },
+        ],
+      };
+    }
+
+    case 'log_time': {
+      const { id, minutes, description } = LogTimeSchema.parse(args);
+      const task = await findTask(id);
+
+      if (!task) {
+        return {
+          content: [{ type: 'text', text: `Task not found: ${id}` }],
+          isError: true,
+        };
+      }
+
+      const duration = Math.round(minutes * 60);
+      const updated = await api<Task>(`/api/tasks/${task.id}/time/entry`, {
+        method: 'POST',
+        body: JSON.stringify({ duration, description }),
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Logged ${formatDuration(duration)} on ${task.id}\nTotal tracked: ${formatDuration(updated.timeTracking?.totalSeconds || 0)}`,
+          },
+        ],
+      };
+    }
+
+    case 'get_time_summary': {
+      const summary = await api<TimeSummary>('/api/tasks/time/summary');
+      const lines = summary.byProject.map(
+        (p) => `- ${p.project}: ${formatDuration(p.totalSeconds)} (${p.taskCount} tasks)`
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [`Total tracked: ${formatDuration(summary.total)}`, ...lines].join('\n'),
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown time tool: ${name}`);
+  }
+}
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { api } from '../utils/api.js';
+import { findTask } from '../utils/find.js';
+
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+}
+
+interface StepRun {
+  stepId: string;
+  status: string;
+  agent?: string;
+  startedAt?: string;
+  completedAt?: string;
+  retries: number;
+  error?: string;
+}
+
+interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  workflowVersion: number;
+  taskId?: string;
+  status: string;
+  currentStep?: string;
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+  steps: StepRun[];
+}
+
+const StartRunSchema = z.object({
+  workflowId: z.string().min(1),
+  taskId: z.string().optional(),
+  context: z.record(z.unknown()).optional(),
+});
+
+const RunIdSchema = z.object({
+  runId: z.string().min(1),
+});
+
+const ListRunsSchema = z.object({
+  taskId: z.string().optional(),
+  workflowId: z.string().optional(),
+  status: z.enum(['pending', 'running', 'blocked', 'completed', 'failed', 'cancelled']).optional(),
+});
+
+const GateDecisionSchema = z.object({
+  runId: z.string().min(1),
+  stepId: z.string().optional(),
+});
+
+function formatRun(run: WorkflowRun): string {
+  const lines = [
+    `Run ${run.id} — ${run.workflowId} v${run.workflowVersion}: ${run.status}`,
+    ...(run.taskId ? [`Task: ${run.taskId}`] : []),
+    ...(run.currentStep ? [`Current step: ${run.currentStep}`] : []),
+    ...(run.error ? [`Error: ${run.error}`] : []),
+    '',
+    'Steps:',
+    ...run.steps.map(
+      (s) =>
+        `- ${s.stepId}: ${s.status}${s.agent ? ` (${s.agent})` : ''}${s.retries > 0 ? `, ${s.retries} retries` : ''}${s.error ? ` — ${s.error}` : ''}`
+    ),
+  ];
+  return lines.join('\n');
+}
+
+export const workflowTools = [
+  {
+    name: 'list_workflows',
+    description: 'List available workflow definitions',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'start_workflow_run',
+    description: 'Start a workflow run, optionally for a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: {
+          type: 'string',
+          description: 'Workflow ID',
+        },
+        taskId: {
+          type: 'string',
+          description: 'Task ID or partial ID to run the workflow for',
+        },
+        context: {
+          type: 'object',
+          description: 'Initial run context',
+        },
+      },
+      required: ['workflowId'],
+    },
+  },
+  {
+    name: 'get_workflow_run',
+    description: 'Get the status of a workflow run and each of its steps',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
+          type: 'string',
+          description: 'Workflow run ID',
+        },
+      },
+      required: ['runId'],
+    },
+  },
+  {
+    name: 'list_workflow_runs',
+    description: 'List workflow runs, filtered by task, workflow or status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'Task ID or partial ID',
+        },
+        workflowId: {
+          type: 'string',
+          description: 'Workflow ID',
+        },
+        status: {
+          type: 'string',
+          enum: ['pending', 'running', 'blocked', 'completed', 'failed', 'cancelled'],
+          description: 'Run status',
+        },
+      },
+    },
+  },
+  {
+    name: 'approve_workflow_gate',
+    description: 'Approve a gate step that is waiting for approval and resume the run',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
+          type: 'string',
+          description: 'Workflow run ID',
+        },
+        stepId: {
+          type: 'string',
+          description: "Gate step ID (default: the run's current step)",
+        },
+      },
+      required: ['runId'],
+    },
+  },
+  {
+    name: 'reject_workflow_gate',
+    description: 'Reject a gate step that is waiting for approval, failing the run',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
+          type: 'string',
+          description: 'Workflow run ID',
+        },
+        stepId: {
+          type: 'string',
+          description: "Gate step ID (default: the run's current step)",
+        },
+      },
+      required: ['runId'],
+    },
+  },
+];
+
+export async function handleWorkflowTool(name: string, args: any): Promise<any> {
+  switch (name) {
+    case 'list_workflows': {
+      const workflows = await api<WorkflowSummary[]>('/api/workflows');
+      return {
+        content: [{ type: 'text', text: JSON.stringify(workflows, null, 2) }],
+      };
+    }
+
+    case 'start_workflow_run': {
+      const { workflowId, taskId, context } = StartRunSchema.parse(args);
+
+      let resolvedTaskId: string | undefined;
+      if (taskId) {
+        const task = await findTask(taskId);
+        if (!task) {
+          return {
+            content: [{ type: 'text', text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+        resolvedTaskId = task.id;
+      }
+
+      const run = await api<WorkflowRun>(`/api/workflows/${encodeURIComponent(workflowId)}/runs`, {
+        method: 'POST',
+        body: JSON.stringify({ taskId: resolvedTaskId, context }),
+      });
+
+      return {
+        content: [{ type: 'text', text: `Workflow run started\n${formatRun(run)}` }],
+      };
+    }
+
+    case 'get_workflow_run': {
+      const { runId } = RunIdSchema.parse(args);
+      const run = await api<WorkflowRun>(`/api/workflows/runs/${encodeURIComponent(runId)}`);
+      return {
+        content: [{ type: 'text', text: formatRun(run) }],
+      };
+    }
+
+    case 'list_workflow_runs': {
+      const { taskId, workflowId, status } = ListRunsSchema.parse(args ?? {});
+      const params = new URLSearchParams();
+
+      if (taskId) {
+        const task = await findTask(taskId);
+        if (!task) {
+          return {
+            content: [{ type: 'text', text: `Task not found: ${taskId}` }],
+            isError: true,
+          };
+        }
+        params.set('taskId', task.id);
+      }
+      if (workflowId) params.set('workflowId', workflowId);
+      if (status) params.set('status', status);
+
+      const query = params.toString();
+      const runs = await api<WorkflowRun[]>(`/api/workflows/runs${query ? `?${query}` : ''}`);
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(runs, null, 2) }],
+      };
+    }
+
+    case 'approve_workflow_gate':
+    case 'reject_workflow_gate': {
+      const { runId, stepId } = GateDecisionSchema.parse(args);
+      const decision = name === 'approve_workflow_gate' ? 'approve' : 'reject';
+
+      let gateStepId = stepId;
+      if (!gateStepId) {
+        const run = await api<WorkflowRun>(`/api/workflows/runs/${encodeURIComponent(runId)}`);
+        gateStepId = run.currentStep;
+      }
+      if (!gateStepId) {
+        return {
+          content: [{ type: 'text', text: `Run ${runId} has no step awaiting approval` }],
+          isError: true,
+        };
+      }
+
+      const run = await api<WorkflowRun>(
+        `/api/workflows/runs/${encodeURIComponent(runId)}/steps/${encodeURIComponent(gateStepId)}/${decision}`,
+        { method: 'POST' }
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Gate ${gateStepId} ${decision === 'approve' ? 'approved' : 'rejected'}\n${formatRun(run)}`,
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown workflow tool: ${name}`);
+  }
+}
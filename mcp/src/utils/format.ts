@@ -0,0 +1,2 @@
+// Re-export shared formatting helpers
+export { formatDuration } from '@veritas-kanban/shared';
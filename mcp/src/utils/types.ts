@@ -1,2 +1,9 @@
 // Re-export shared types
-export type { Task } from '@veritas-kanban/shared';
+export type {
+  Task,
+  Deliverable,
+  ChangesResponse,
+  SquadMessage,
+  SharedResource,
+  SharedResourceType,
+} from '@veritas-kanban/shared';
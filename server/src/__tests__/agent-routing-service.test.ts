@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AgentRoutingService } from '../services/agent-routing-service';
 import type { AgentRoutingConfig, AppConfig, Task } from '@veritas-kanban/shared';
+import type { RegisteredAgent } from '../services/agent-registry-service';
+import type { AgentComparisonData } from '../services/metrics/types';
 
 // Mock ConfigService
 const mockGetConfig = vi.fn();
@@ -68,13 +70,48 @@ const BASE_CONFIG: AppConfig = {
   },
 };
 
+function registered(id: string, overrides: Partial<RegisteredAgent> = {}): RegisteredAgent {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: id,
+    capabilities: [{ name: 'code' }],
+    status: 'idle',
+    registeredAt: now,
+    lastHeartbeat: now,
+    ...overrides,
+  };
+}
+
+function stats(agent: string, successRate: number, avgCostPerRun = 0): AgentComparisonData {
+  return {
+    agent,
+    runs: 10,
+    successes: successRate / 10,
+    failures: 10 - successRate / 10,
+    successRate,
+    avgDurationMs: 1000,
+    avgTokensPerRun: 1000,
+    totalTokens: 10000,
+    avgCostPerRun,
+    totalCost: avgCostPerRun * 10,
+  };
+}
+
 describe('AgentRoutingService', () => {
   let service: AgentRoutingService;
+  let agents: RegisteredAgent[];
+  let telemetry: AgentComparisonData[];
 
   beforeEach(() => {
     mockGetConfig.mockResolvedValue(structuredClone(BASE_CONFIG));
     mockSaveConfig.mockResolvedValue(undefined);
-    service = new AgentRoutingService();
+    agents = [];
+    telemetry = [];
+    service = new AgentRoutingService(undefined, {
+      listAgents: () => agents,
+      agentStats: async () => telemetry,
+    });
   });
 
   describe('resolveAgent', () => {
@@ -241,6 +278,88 @@ describe('AgentRoutingService', () => {
     });
   });
 
+  describe('registry scoring', () => {
+    it('routes to a live registered agent with a better track record', async () => {
+      agents = [registered('amp')];
+      telemetry = [stats('amp', 95), stats('claude-code', 60)];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'medium' });
+
+      expect(result.agent).toBe('amp');
+      expect(result.model).toBeUndefined();
+      expect(result.fallback).toBe('claude-code');
+      expect(result.candidates?.map((c) => c.agent)).toEqual(['amp', 'claude-code']);
+      expect(result.candidates?.[0]).toMatchObject({
+        score: 0.79,
+        factors: { capability: 1, load: 1, successRate: 0.95, rule: 0 },
+        registered: true,
+      });
+      expect(result.reason).toContain('Scored 2 agents for [code]: amp 0.79 (capability 1');
+      expect(result.reason).toContain('Matched rule: Code tasks');
+    });
+
+    it("keeps the rule's agent when the registry has nothing better", async () => {
+      agents = [registered('amp', { status: 'busy', currentTaskId: 'task_1' })];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'high' });
+
+      expect(result.agent).toBe('claude-code');
+      expect(result.model).toBe('opus');
+      expect(result.rule).toBe('code-high');
+      expect(result.fallback).toBe('amp');
+    });
+
+    it('only scores registered agents that are configured and enabled', async () => {
+      // codex-1 isn't a configured agent type and gemini is disabled
+      agents = [registered('codex-1'), registered('gemini')];
+      telemetry = [stats('codex-1', 100), stats('gemini', 100), stats('claude-code', 50)];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'medium' });
+
+      expect(result.agent).toBe('claude-code');
+      expect(result.candidates?.map((c) => c.agent)).toEqual(['claude-code']);
+    });
+
+    it('ignores agents without the capability or with a stale heartbeat', async () => {
+      agents = [
+        registered('researcher', { capabilities: [{ name: 'research' }] }),
+        registered('stale', { lastHeartbeat: new Date(Date.now() - 10 * 60_000).toISOString() }),
+      ];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'medium' });
+
+      expect(result.agent).toBe('claude-code');
+      expect(result.candidates?.map((c) => c.agent)).toEqual(['claude-code']);
+    });
+
+    it("falls back when the rule's agent is offline", async () => {
+      agents = [registered('claude-code', { status: 'offline' }), registered('amp')];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'medium' });
+      expect(result.agent).toBe('amp');
+      expect(result.reason).toMatch(/^claude-code is offline; Scored 1 agent for \[code\]/);
+
+      // Nobody else can do the work — use the rule's fallback
+      agents = [registered('claude-code', { status: 'offline' })];
+      const fallback = await service.resolveAgent({ type: 'code', priority: 'medium' });
+      expect(fallback.agent).toBe('copilot');
+      expect(fallback.reason).toContain('falling back to copilot');
+    });
+
+    it('skips the registry when useRegistry is off', async () => {
+      mockGetConfig.mockResolvedValue({
+        ...BASE_CONFIG,
+        agentRouting: { ...(BASE_CONFIG.agentRouting as AgentRoutingConfig), useRegistry: false },
+      });
+      agents = [registered('codex-1')];
+      telemetry = [stats('codex-1', 100)];
+
+      const result = await service.resolveAgent({ type: 'code', priority: 'medium' });
+      expect(result.agent).toBe('claude-code');
+      expect(result.candidates).toBeUndefined();
+    });
+  });
+
   describe('getFallback', () => {
     it('returns fallback agent from matched rule', async () => {
       const result = await service.getFallback({ type: 'code', priority: 'high' }, 'claude-code');
@@ -0,0 +1,166 @@
+/**
+ * BoardWorkflowService Tests
+ * Tests column → status resolution and WIP limit enforcement.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_FEATURE_SETTINGS,
+  groupTasksByColumn,
+  validateBoardColumns,
+  type BoardColumn,
+  type ProjectConfig,
+  type Task,
+} from '@veritas-kanban/shared';
+import { BoardWorkflowService } from '../services/board-workflow-service.js';
+import type { ConfigService } from '../services/config-service.js';
+import type { ProjectService } from '../services/project-service.js';
+import type { TaskService } from '../services/task-service.js';
+
+const reviewWorkflow: BoardColumn[] = [
+  { id: 'todo', label: 'To Do', category: 'todo' },
+  { id: 'in-progress', label: 'In Progress', category: 'in-progress' },
+  { id: 'qa', label: 'QA', category: 'in-progress', wipLimit: 2 },
+  { id: 'blocked', label: 'Blocked', category: 'blocked' },
+  { id: 'done', label: 'Done', category: 'done' },
+];
+
+const project: ProjectConfig = {
+  id: 'web',
+  label: 'Web',
+  order: 0,
+  created: '2026-01-01',
+  updated: '2026-01-01',
+  columns: reviewWorkflow,
+};
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    description: '',
+    type: 'code',
+    status: 'todo',
+    priority: 'medium',
+    created: '2026-01-01',
+    updated: '2026-01-01',
+    ...overrides,
+  };
+}
+
+describe('BoardWorkflowService', () => {
+  let tasks: Task[];
+  let service: BoardWorkflowService;
+
+  beforeEach(() => {
+    tasks = [];
+    service = new BoardWorkflowService(
+      {
+        getFeatureSettings: vi.fn().mockResolvedValue(DEFAULT_FEATURE_SETTINGS),
+      } as unknown as ConfigService,
+      {
+        get: vi.fn(async (id: string) => (id === 'web' ? project : null)),
+        list: vi.fn().mockResolvedValue([project]),
+      } as unknown as ProjectService,
+      { listTasks: vi.fn(async () => tasks) } as unknown as TaskService
+    );
+  });
+
+  it("should map a custom column to its category and the project's workflow", async () => {
+    const current = task('t1', { project: 'web', status: 'in-progress' });
+    await expect(service.resolvePlacement(current, { column: 'qa' })).resolves.toEqual({
+      status: 'in-progress',
+      column: 'qa',
+    });
+    // The first column of a category is implied by the status
+    await expect(
+      service.resolvePlacement({ ...current, column: 'qa' }, { column: 'in-progress' })
+    ).resolves.toEqual({ status: 'in-progress', column: undefined });
+  });
+
+  it('should clear the column on a plain status change and ignore non-moves', async () => {
+    const current = task('t1', { project: 'web', status: 'in-progress', column: 'qa' });
+    await expect(service.resolvePlacement(current, { status: 'done' })).resolves.toEqual({
+      status: 'done',
+      column: undefined,
+    });
+    await expect(service.resolvePlacement(current, { status: 'in-progress' })).resolves.toBeNull();
+    await expect(service.resolvePlacement(current, { title: 'x' } as never)).resolves.toBeNull();
+  });
+
+  it('should reject unknown columns and columns that disagree with the status', async () => {
+    // Projects without a workflow use the default columns, which have no "qa"
+    await expect(
+      service.resolvePlacement(task('t1', { project: 'api' }), { column: 'qa' })
+    ).rejects.toMatchObject({ statusCode: 400, message: 'Unknown board column "qa"' });
+    await expect(
+      service.resolvePlacement(task('t1', { project: 'web' }), { column: 'qa', status: 'done' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    // New tasks start as todo
+    await expect(
+      service.resolvePlacement(null, { column: 'qa', project: 'web' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should enforce WIP limits within the workflow only', async () => {
+    tasks = [
+      task('a', { project: 'web', status: 'in-progress', column: 'qa' }),
+      task('b', { project: 'web', status: 'in-progress', column: 'qa' }),
+      // Other workflows don't count towards the limit
+      task('c', { project: 'api', status: 'in-progress', column: 'qa' }),
+    ];
+    const moving = task('t1', { project: 'web', status: 'in-progress' });
+
+    await expect(service.resolvePlacement(moving, { column: 'qa' })).rejects.toMatchObject({
+      statusCode: 409,
+      details: { code: 'WIP_LIMIT_REACHED', column: 'qa', wipLimit: 2, count: 2 },
+    });
+
+    // Resolving without the limit check only works out the target
+    await expect(
+      service.resolvePlacement(moving, { column: 'qa' }, { checkWipLimit: false })
+    ).resolves.toEqual({ status: 'in-progress', column: 'qa' });
+
+    // Tasks already in the column can still be touched
+    await expect(service.resolvePlacement(tasks[0], { column: 'qa' })).resolves.toEqual({
+      status: 'in-progress',
+      column: 'qa',
+    });
+
+    tasks.pop();
+    tasks.pop();
+    await expect(service.resolvePlacement(moving, { column: 'qa' })).resolves.toMatchObject({
+      column: 'qa',
+    });
+  });
+});
+
+describe('board column helpers', () => {
+  it('should require a column for every board status and unique IDs', () => {
+    expect(validateBoardColumns(reviewWorkflow)).toEqual([]);
+    expect(
+      validateBoardColumns([
+        { id: 'todo', label: 'To Do', category: 'todo' },
+        { id: 'todo', label: 'Later', category: 'todo' },
+      ])
+    ).toEqual([
+      'Duplicate column ID "todo"',
+      'No column for status "in-progress"',
+      'No column for status "blocked"',
+      'No column for status "done"',
+    ]);
+  });
+
+  it('should fall back to the first column of the status for stale columns', () => {
+    const grouped = groupTasksByColumn(
+      [
+        task('a', { status: 'in-progress', column: 'qa' }),
+        task('b', { status: 'in-progress', column: 'removed' }),
+        task('c', { status: 'done', column: 'qa' }),
+      ],
+      reviewWorkflow
+    );
+    expect(grouped.qa.map((t) => t.id)).toEqual(['a']);
+    expect(grouped['in-progress'].map((t) => t.id)).toEqual(['b']);
+    expect(grouped.done.map((t) => t.id)).toEqual(['c']);
+  });
+});
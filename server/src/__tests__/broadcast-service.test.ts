@@ -3,10 +3,14 @@
  * Tests WebSocket broadcast functions for task changes and telemetry.
  */
 import { describe, it, expect, beforeEach } from 'vitest';
+import type { Task } from '@veritas-kanban/shared';
 import {
   initBroadcast,
   broadcastTaskChange,
   broadcastTelemetryEvent,
+  setBroadcastTaskLookup,
+  subscribeTopics,
+  unsubscribeTopics,
 } from '../services/broadcast-service.js';
 
 // Minimal mock WebSocket server
@@ -109,6 +113,105 @@ describe('BroadcastService', () => {
     });
   });
 
+  describe('task patches', () => {
+    it('should send the full task first, then patches of changed fields', () => {
+      const wss = createMockWss();
+      wss.addClient(1);
+      initBroadcast(wss as any);
+      const tasks = new Map<string, Task>();
+      setBroadcastTaskLookup((id) => tasks.get(id));
+
+      const task = { id: 'task_p1', title: 'Draft', status: 'todo', project: 'api' } as Task;
+      tasks.set(task.id, task);
+      broadcastTaskChange('created', task.id);
+      tasks.set(task.id, { ...task, title: 'Final', sprint: 'S1' });
+      broadcastTaskChange('updated', task.id);
+      tasks.delete(task.id);
+      broadcastTaskChange('deleted', task.id);
+
+      const [created, updated, deleted] = wss.sentMessages.map((m) => JSON.parse(m));
+      expect(created.task).toEqual(task);
+      expect(created.topics).toEqual(['tasks', 'task:task_p1', 'project:api']);
+      expect(updated.patch).toEqual([
+        { op: 'replace', path: '/title', value: 'Final' },
+        { op: 'add', path: '/sprint', value: 'S1' },
+      ]);
+      expect(updated.seq).toBe(created.seq + 1);
+      expect(deleted).not.toHaveProperty('task');
+      expect(deleted).not.toHaveProperty('patch');
+      expect(deleted.topics).toContain('sprint:S1');
+
+      setBroadcastTaskLookup(null);
+    });
+  });
+
+  describe('topic subscriptions', () => {
+    beforeEach(() => {
+      setBroadcastTaskLookup(null);
+    });
+
+    it('should only deliver matching events to subscribed clients', () => {
+      const wss = createMockWss();
+      const received: string[] = [];
+      const subscriber = { readyState: 1, send: (data: string) => received.push(data) };
+      wss.clients.add(subscriber);
+      wss.addClient(1); // Legacy client without a subscription
+      initBroadcast(wss as any);
+
+      subscribeTopics(subscriber as any, ['task:task_a', 'telemetry:run.completed', 42]);
+      broadcastTaskChange('updated', 'task_a');
+      broadcastTaskChange('updated', 'task_b');
+      broadcastTelemetryEvent({ type: 'run.started', taskId: 'task_c' } as any);
+      broadcastTelemetryEvent({ type: 'run.completed', taskId: 'task_c' } as any);
+      unsubscribeTopics(subscriber as any, ['task:task_a']);
+      broadcastTaskChange('updated', 'task_a');
+
+      const messages = received.map((m) => JSON.parse(m));
+      expect(messages[0]).toMatchObject({
+        type: 'topics:subscribed',
+        topics: ['task:task_a', 'telemetry:run.completed'],
+        resync: false,
+      });
+      expect(messages.slice(1).map((m) => m.taskId ?? m.event.type)).toEqual([
+        'task_a',
+        'run.completed',
+      ]);
+      expect(wss.sentMessages).toHaveLength(5);
+    });
+
+    it('should replay missed events after a reconnect', () => {
+      const wss = createMockWss();
+      initBroadcast(wss as any);
+      const first: string[] = [];
+      subscribeTopics({ readyState: 1, send: (d: string) => first.push(d) } as any, ['tasks']);
+      const { seq, streamId } = JSON.parse(first[0]);
+
+      broadcastTaskChange('updated', 'task_r1');
+      broadcastTelemetryEvent({ type: 'run.started' } as any);
+      broadcastTaskChange('deleted', 'task_r2');
+
+      const resumed: string[] = [];
+      subscribeTopics({ readyState: 1, send: (d: string) => resumed.push(d) } as any, ['tasks'], {
+        since: seq,
+        streamId,
+      });
+      const [ack, ...replayed] = resumed.map((m) => JSON.parse(m));
+      expect(ack).toMatchObject({ replayed: 2, resync: false, seq: seq + 3 });
+      expect(replayed.map((m) => [m.seq, m.taskId])).toEqual([
+        [seq + 1, 'task_r1'],
+        [seq + 3, 'task_r2'],
+      ]);
+
+      const restarted: string[] = [];
+      subscribeTopics({ readyState: 1, send: (d: string) => restarted.push(d) } as any, ['tasks'], {
+        since: seq,
+        streamId: 'previous-server',
+      });
+      expect(restarted).toHaveLength(1);
+      expect(JSON.parse(restarted[0])).toMatchObject({ replayed: 0, resync: true });
+    });
+  });
+
   describe('initBroadcast()', () => {
     it('should accept a WebSocket server', () => {
       const wss = createMockWss();
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, validateCron, nextCronRun, isValidTimeZone } from '../utils/cron.js';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseCron', () => {
+  it('expands lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday and expands macros', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect([...parseCron('@hourly').minutes]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(validateCron('* * * *')).toMatch(/5 fields/);
+    expect(validateCron('60 * * * *')).toMatch(/out of range/);
+    expect(validateCron('*/0 * * * *')).toMatch(/Invalid step/);
+    expect(validateCron('5-1 * * * *')).toMatch(/Invalid range/);
+    expect(validateCron('0 9 * * 1-5')).toBeNull();
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute in UTC', () => {
+    expect(nextCronRun('30 9 * * *', at('2026-03-10T09:29:59Z'))?.toISOString()).toBe(
+      '2026-03-10T09:30:00.000Z'
+    );
+    // Strictly after: an exact match moves to the next day
+    expect(nextCronRun('30 9 * * *', at('2026-03-10T09:30:00Z'))?.toISOString()).toBe(
+      '2026-03-11T09:30:00.000Z'
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 13th of the month OR a Friday — 2026-03-13 is a Friday, 2026-03-20 is a Friday
+    const next = nextCronRun('0 0 13 * 5', at('2026-03-13T00:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-03-20T00:00:00.000Z');
+  });
+
+  it('evaluates the expression in the given timezone', () => {
+    // 09:00 in New York is 14:00 UTC in winter (EST, UTC-5)
+    expect(
+      nextCronRun('0 9 * * *', at('2026-01-15T12:00:00Z'), 'America/New_York')?.toISOString()
+    ).toBe('2026-01-15T14:00:00.000Z');
+    // ...and 13:00 UTC in summer (EDT, UTC-4)
+    expect(
+      nextCronRun('0 9 * * *', at('2026-07-15T12:00:00Z'), 'America/New_York')?.toISOString()
+    ).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('skips wall times that do not exist on DST spring-forward days', () => {
+    // 2026-03-08 02:30 does not exist in New York; next is 2026-03-09 02:30 EDT
+    expect(
+      nextCronRun('30 2 * * *', at('2026-03-08T05:00:00Z'), 'America/New_York')?.toISOString()
+    ).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('runs once on DST fall-back days', () => {
+    // 2026-11-01 01:30 happens twice in New York; the first is 05:30 UTC
+    const first = nextCronRun('30 1 * * *', at('2026-11-01T04:00:00Z'), 'America/New_York');
+    expect(first?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    const second = nextCronRun('30 1 * * *', first!, 'America/New_York');
+    expect(second?.toISOString()).toBe('2026-11-02T06:30:00.000Z');
+  });
+
+  it('returns null for expressions that never match', () => {
+    expect(nextCronRun('0 0 30 2 *', at('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects unknown zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -11,7 +11,9 @@ import {
   percentile,
   formatDurationForRecommendation,
   formatTokensForRecommendation,
+  tokenEventCost,
 } from '../services/metrics/helpers.js';
+import type { TokenTelemetryEvent } from '@veritas-kanban/shared';
 
 describe('Metrics Helpers', () => {
   describe('getPeriodStart', () => {
@@ -181,4 +183,40 @@ describe('Metrics Helpers', () => {
       expect(formatTokensForRecommendation(2500000)).toBe('2.50M');
     });
   });
+
+  describe('tokenEventCost', () => {
+    const catalog = [{ model: 'claude-sonnet-4', inputPer1M: 3, outputPer1M: 15 }];
+    const event = (overrides: Partial<TokenTelemetryEvent> = {}) =>
+      ({
+        id: 'evt_1',
+        type: 'run.tokens',
+        timestamp: '2026-05-01T00:00:00Z',
+        taskId: 'task_1',
+        agent: 'codex',
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        totalTokens: 1_100_000,
+        ...overrides,
+      }) as TokenTelemetryEvent;
+
+    it('should use the stored cost when there is one', () => {
+      expect(tokenEventCost(event({ cost: 1.23 }), catalog)).toEqual({
+        cost: 1.23,
+        estimated: false,
+      });
+    });
+
+    it('should price unpriced events from the catalog', () => {
+      expect(tokenEventCost(event({ model: 'claude-sonnet-4-20250514' }), catalog)).toEqual({
+        cost: 4.5,
+        estimated: false,
+      });
+    });
+
+    it('should flag fallback prices for unknown models as estimated', () => {
+      const result = tokenEventCost(event({ model: 'mystery-model' }), catalog);
+      expect(result.estimated).toBe(true);
+      expect(result.cost).toBeCloseTo(13);
+    });
+  });
 });
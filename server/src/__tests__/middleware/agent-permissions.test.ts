@@ -0,0 +1,221 @@
+/**
+ * Agent Permission Middleware Tests
+ * Tests agent identification, restrictions, gated actions and resuming
+ * approved actions.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import express, { type NextFunction, type Response } from 'express';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AuthenticatedRequest, AuthRole } from '../../middleware/auth.js';
+
+const { mockTaskService } = vi.hoisted(() => ({
+  mockTaskService: {
+    getTask: vi.fn(),
+    createTask: vi.fn(),
+    updateTask: vi.fn(),
+    deleteTask: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/task-service.js', () => ({
+  getTaskService: () => mockTaskService,
+}));
+
+vi.mock('../../services/board-workflow-service.js', () => ({
+  getBoardWorkflowService: () => ({ resolvePlacement: vi.fn().mockResolvedValue(null) }),
+}));
+
+vi.mock('../../services/broadcast-service.js', () => ({
+  broadcastTaskChange: vi.fn(),
+}));
+
+vi.mock('../../services/activity-service.js', () => ({
+  activityService: { logActivity: vi.fn() },
+}));
+
+describe('agent permission middleware', () => {
+  let testDir: string;
+  let app: express.Express;
+  let service: ReturnType<
+    typeof import('../../services/agent-permission-service.js').getAgentPermissionService
+  >;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    testDir = path.join(os.tmpdir(), `veritas-agent-perms-${Math.random().toString(36).slice(2)}`);
+    await fs.mkdir(path.join(testDir, '.veritas-kanban'), { recursive: true });
+    process.env.DATA_DIR = testDir;
+
+    // Fresh service singleton backed by the temp directory
+    vi.resetModules();
+    const { getAgentPermissionService } =
+      await import('../../services/agent-permission-service.js');
+    const { identifyAgent, requireAgentPermission } =
+      await import('../../middleware/agent-permissions.js');
+    const { agentPermissionRoutes } = await import('../../routes/agent-permissions.js');
+    const { errorHandler } = await import('../../middleware/error-handler.js');
+    service = getAgentPermissionService();
+
+    await service.setLevel('intern-bot', 'intern');
+    await service.setLevel('lead-bot', 'lead');
+
+    // Role and key name come from test headers instead of real API keys
+    app = express();
+    app.use(express.json());
+    app.use((req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+      req.auth = {
+        role: (req.get('X-Test-Role') as AuthRole) ?? 'agent',
+        keyName: req.get('X-Test-Key'),
+        isLocalhost: false,
+      };
+      next();
+    });
+    app.use('/api', identifyAgent);
+    app.get('/api/whoami', (req: AuthenticatedRequest, res) => {
+      res.json({ agentId: req.auth?.agentId ?? null });
+    });
+    app.post('/api/v1/tasks', async (req: AuthenticatedRequest, res, next) => {
+      try {
+        await requireAgentPermission(req, 'create_task', { payload: req.body });
+        res.status(201).json({ created: true });
+      } catch (err) {
+        next(err);
+      }
+    });
+    app.post('/api/v1/tasks/:id/done', async (req: AuthenticatedRequest, res, next) => {
+      try {
+        const approval = await requireAgentPermission(req, 'complete_task', {
+          taskId: req.params.id as string,
+          payload: { status: 'done', column: null },
+        });
+        res.json({ approvalId: approval?.id ?? null });
+      } catch (err) {
+        next(err);
+      }
+    });
+    app.use('/api/agents/permissions', agentPermissionRoutes);
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should identify agents by key name or X-Agent-Id, skipping non-agent roles', async () => {
+    let res = await request(app).get('/api/whoami').set('X-Test-Key', 'Lead-Bot');
+    expect(res.body.agentId).toBe('lead-bot');
+
+    res = await request(app)
+      .get('/api/whoami')
+      .set('X-Test-Key', 'lead-bot')
+      .set('X-Agent-Id', 'intern-bot');
+    expect(res.body.agentId).toBe('intern-bot');
+
+    res = await request(app)
+      .get('/api/whoami')
+      .set('X-Test-Role', 'admin')
+      .set('X-Test-Key', 'intern-bot');
+    expect(res.body.agentId).toBeNull();
+  });
+
+  it('should not let a key act for a higher-level agent', async () => {
+    const res = await request(app)
+      .get('/api/whoami')
+      .set('X-Test-Key', 'intern-bot')
+      .set('X-Agent-Id', 'lead-bot');
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('AGENT_PERMISSION_DENIED');
+  });
+
+  it('should block endpoints matching the agent restrictions', async () => {
+    await service.updatePermissions('intern-bot', { restrictions: ['/settings'] });
+
+    const res = await request(app).get('/api/v1/settings/features').set('X-Test-Key', 'intern-bot');
+    expect(res.status).toBe(403);
+    expect(res.body.details).toMatchObject({
+      agentId: 'intern-bot',
+      level: 'intern',
+      action: 'GET /settings/features',
+    });
+  });
+
+  it('should file an approval request for gated actions and resume it when approved', async () => {
+    const res = await request(app)
+      .post('/api/v1/tasks')
+      .set('X-Test-Key', 'intern-bot')
+      .send({ title: 'Write docs' });
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('AGENT_APPROVAL_REQUIRED');
+
+    const approvalId: string = res.body.details.approvalId;
+    expect(await service.getApproval(approvalId)).toMatchObject({
+      agentId: 'intern-bot',
+      action: 'create_task',
+      payload: { title: 'Write docs' },
+    });
+
+    // Interns can't approve, and agents can't approve their own requests
+    const denied = await request(app)
+      .post(`/api/agents/permissions/approvals/${approvalId}`)
+      .set('X-Test-Key', 'intern-bot')
+      .send({ decision: 'approved' });
+    expect(denied.status).toBe(403);
+
+    mockTaskService.createTask.mockResolvedValue({ id: 'task_1', title: 'Write docs' });
+    const approved = await request(app)
+      .post(`/api/agents/permissions/approvals/${approvalId}`)
+      .set('X-Test-Key', 'lead-bot')
+      .send({ decision: 'approved', reviewedBy: 'someone-else' });
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({
+      status: 'approved',
+      reviewedBy: 'lead-bot',
+      outcome: { taskId: 'task_1' },
+    });
+    expect(mockTaskService.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Write docs' })
+    );
+
+    const again = await request(app)
+      .post(`/api/agents/permissions/approvals/${approvalId}`)
+      .set('X-Test-Role', 'admin')
+      .send({ decision: 'rejected' });
+    expect(again.status).toBe(409);
+  });
+
+  it('should hold intern completions for review and finish them on approval', async () => {
+    const res = await request(app).post('/api/v1/tasks/t1/done').set('X-Test-Key', 'intern-bot');
+    expect(res.status).toBe(200);
+    expect(res.body.approvalId).toMatch(/^approval_/);
+
+    // Specialists (the default level) finish tasks directly
+    const direct = await request(app).post('/api/v1/tasks/t1/done').set('X-Test-Key', 'other-bot');
+    expect(direct.body.approvalId).toBeNull();
+
+    mockTaskService.getTask.mockResolvedValue({ id: 't1', title: 'Task', status: 'blocked' });
+    mockTaskService.updateTask.mockResolvedValue({ id: 't1', status: 'done' });
+    const approved = await request(app)
+      .post(`/api/agents/permissions/approvals/${res.body.approvalId}`)
+      .set('X-Test-Role', 'admin')
+      .send({ decision: 'approved', reviewedBy: 'brad' });
+    expect(approved.body).toMatchObject({ reviewedBy: 'brad', outcome: { taskId: 't1' } });
+    expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+      't1',
+      { status: 'done', column: null, blockedReason: null },
+      { author: 'brad' }
+    );
+  });
+
+  it('should only let admins change permission levels', async () => {
+    const res = await request(app)
+      .put('/api/agents/permissions/intern-bot/level')
+      .set('X-Test-Key', 'intern-bot')
+      .send({ level: 'lead' });
+    expect(res.status).toBe(403);
+    expect((await service.getPermissions('intern-bot')).level).toBe('intern');
+  });
+});
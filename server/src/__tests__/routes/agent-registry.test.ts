@@ -16,6 +16,14 @@ vi.mock('../../storage/fs-helpers.js', () => ({
   mkdirSync: vi.fn(),
 }));
 
+const { mockRenewLeases } = vi.hoisted(() => ({
+  mockRenewLeases: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../services/agent-work-queue-service.js', () => ({
+  getAgentWorkQueue: () => ({ renewLeases: mockRenewLeases }),
+}));
+
 const { disposeAgentRegistryService } = await import('../../services/agent-registry-service.js');
 const { agentRegistryRoutes } = await import('../../routes/agent-registry.js');
 
@@ -113,6 +121,7 @@ describe('Agent Registry Routes', () => {
       expect(res.body.status).toBe('busy');
       expect(res.body.currentTaskId).toBe('TASK-1');
       expect(res.body.currentTaskTitle).toBe('Working on task');
+      expect(mockRenewLeases).toHaveBeenCalledWith('test-agent');
     });
 
     it('should return 404 for unregistered agent', async () => {
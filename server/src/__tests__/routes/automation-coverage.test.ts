@@ -5,7 +5,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 
-const { mockTaskService, mockAutomationService } = vi.hoisted(() => ({
+const { mockTaskService, mockAutomationService, mockBudgetService } = vi.hoisted(() => ({
   mockTaskService: {
     getTask: vi.fn(),
     updateTask: vi.fn(),
@@ -21,6 +21,9 @@ const { mockTaskService, mockAutomationService } = vi.hoisted(() => ({
     getPendingTasks: vi.fn(),
     getRunningTasks: vi.fn(),
   },
+  mockBudgetService: {
+    enforce: vi.fn(),
+  },
 }));
 
 vi.mock('../../services/task-service.js', () => ({
@@ -34,14 +37,19 @@ vi.mock('../../services/automation-service.js', () => ({
   getAutomationService: () => mockAutomationService,
 }));
 
+vi.mock('../../services/budget-service.js', () => ({
+  getBudgetService: () => mockBudgetService,
+}));
+
 import { automationRoutes } from '../../routes/automation.js';
-import { errorHandler } from '../../middleware/error-handler.js';
+import { BudgetExceededError, errorHandler } from '../../middleware/error-handler.js';
 
 describe('Automation Routes (actual module)', () => {
   let app: express.Express;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockBudgetService.enforce.mockResolvedValue(undefined);
     app = express();
     app.use(express.json());
     app.use('/api/automation', automationRoutes);
@@ -80,6 +88,27 @@ describe('Automation Routes (actual module)', () => {
       expect(res.status).toBe(400);
     });
 
+    it('should refuse to start when a budget is exhausted', async () => {
+      mockTaskService.getTask.mockResolvedValue({ id: 't1', project: 'web' });
+      mockAutomationService.validateCanStart.mockReturnValue({ valid: true });
+      mockBudgetService.enforce.mockRejectedValue(
+        new BudgetExceededError('Budget exhausted', { overrideIds: ['override_1'] })
+      );
+
+      const res = await request(app).post('/api/automation/t1/start').send({});
+      expect(res.status).toBe(402);
+      expect(res.body).toMatchObject({
+        code: 'BUDGET_EXCEEDED',
+        details: { overrideIds: ['override_1'] },
+      });
+      expect(mockBudgetService.enforce).toHaveBeenCalledWith(
+        { project: 'web', agent: 'veritas' },
+        'automation.start',
+        { taskId: 't1' }
+      );
+      expect(mockTaskService.updateTask).not.toHaveBeenCalled();
+    });
+
     it('should accept sessionKey', async () => {
       mockTaskService.getTask.mockResolvedValue({ id: 't1' });
       mockAutomationService.validateCanStart.mockReturnValue({ valid: true });
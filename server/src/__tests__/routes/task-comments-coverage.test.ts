@@ -28,6 +28,7 @@ vi.mock('../../services/activity-service.js', () => ({
 
 import { taskCommentRoutes } from '../../routes/task-comments.js';
 import { errorHandler } from '../../middleware/error-handler.js';
+import type { AuthenticatedRequest } from '../../middleware/auth.js';
 
 describe('Task Comment Routes (actual module)', () => {
   let app: express.Express;
@@ -55,6 +56,31 @@ describe('Task Comment Routes (actual module)', () => {
       expect(res.status).toBe(201);
     });
 
+    it('should record the revision under the calling agent', async () => {
+      const task = { id: 't1', title: 'Task', comments: [] };
+      mockTaskService.getTask.mockResolvedValue(task);
+      mockTaskService.updateTask.mockResolvedValue(task);
+      app = express();
+      app.use(express.json());
+      app.use((req, _res, next) => {
+        (req as AuthenticatedRequest).auth = {
+          role: 'agent',
+          keyName: 'shared-key',
+          agentId: 'amp',
+          isLocalhost: false,
+        };
+        next();
+      });
+      app.use('/api/tasks', taskCommentRoutes);
+
+      await request(app).post('/api/tasks/t1/comments').send({ author: 'Amp', text: 'Done' });
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        expect.objectContaining({ addComments: expect.any(Array) }),
+        { author: 'amp' }
+      );
+    });
+
     it('should return 404 for missing task', async () => {
       mockTaskService.getTask.mockResolvedValue(null);
       const res = await request(app)
@@ -5,11 +5,12 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 
-const { mockTaskService } = vi.hoisted(() => ({
+const { mockTaskService, mockRequireAgentPermission } = vi.hoisted(() => ({
   mockTaskService: {
     getTask: vi.fn(),
     updateTask: vi.fn(),
   },
+  mockRequireAgentPermission: vi.fn(),
 }));
 
 vi.mock('../../services/task-service.js', () => ({
@@ -19,14 +20,21 @@ vi.mock('../../services/task-service.js', () => ({
   },
 }));
 
+vi.mock('../../middleware/agent-permissions.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../middleware/agent-permissions.js')>()),
+  requireAgentPermission: mockRequireAgentPermission,
+}));
+
 import { taskSubtaskRoutes } from '../../routes/task-subtasks.js';
 import { errorHandler } from '../../middleware/error-handler.js';
+import type { AuthenticatedRequest } from '../../middleware/auth.js';
 
 describe('Task Subtask Routes (actual module)', () => {
   let app: express.Express;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockRequireAgentPermission.mockResolvedValue(null);
     app = express();
     app.use(express.json());
     app.use('/api/tasks', taskSubtaskRoutes);
@@ -108,7 +116,64 @@ describe('Task Subtask Routes (actual module)', () => {
       expect(res.status).toBe(200);
       expect(mockTaskService.updateTask).toHaveBeenCalledWith(
         't1',
-        expect.objectContaining({ status: 'done' })
+        expect.objectContaining({ status: 'done' }),
+        expect.anything()
+      );
+    });
+
+    it('should record the revision under the API key when no agent is named', async () => {
+      const task = {
+        id: 't1',
+        subtasks: [{ id: 's1', title: 'Sub', completed: false, created: '2025-01-01' }],
+      };
+      mockTaskService.getTask.mockResolvedValue(task);
+      mockTaskService.updateTask.mockResolvedValue(task);
+      app = express();
+      app.use(express.json());
+      app.use((req, _res, next) => {
+        (req as AuthenticatedRequest).auth = {
+          role: 'admin',
+          keyName: 'ci-bot',
+          isLocalhost: false,
+        };
+        next();
+      });
+      app.use('/api/tasks', taskSubtaskRoutes);
+
+      await request(app).patch('/api/tasks/t1/subtasks/s1').send({ completed: true });
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith('t1', expect.anything(), {
+        author: 'ci-bot',
+      });
+    });
+
+    it('should hold the task in review when an intern ticks the last subtask', async () => {
+      const task = {
+        id: 't1',
+        title: 'Task',
+        status: 'in-progress',
+        autoCompleteOnSubtasks: true,
+        subtasks: [{ id: 's1', title: 'Sub1', completed: false, created: '2025-01-01' }],
+      };
+      mockTaskService.getTask.mockResolvedValue(task);
+      mockTaskService.updateTask.mockResolvedValue({ ...task, status: 'blocked' });
+      mockRequireAgentPermission.mockResolvedValueOnce({ id: 'approval_1' });
+
+      const res = await request(app).patch('/api/tasks/t1/subtasks/s1').send({ completed: true });
+      expect(res.status).toBe(200);
+      expect(res.headers['x-approval-request']).toBe('approval_1');
+      expect(mockRequireAgentPermission).toHaveBeenCalledWith(
+        expect.anything(),
+        'complete_task',
+        expect.objectContaining({ taskId: 't1', payload: { status: 'done', column: null } })
+      );
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        expect.objectContaining({
+          updateSubtasks: [{ id: 's1', completed: true }],
+          status: 'blocked',
+          blockedReason: expect.objectContaining({ category: 'waiting-on-feedback' }),
+        }),
+        expect.anything()
       );
     });
 
@@ -7,32 +7,47 @@ import request from 'supertest';
 import express from 'express';
 
 // Use vi.hoisted to declare mocks that vi.mock factories can reference
-const { mockTaskService, mockWorktreeService, mockBlockingService, mockActivityService } =
-  vi.hoisted(() => ({
-    mockTaskService: {
-      listTasks: vi.fn(),
-      getTask: vi.fn(),
-      createTask: vi.fn(),
-      updateTask: vi.fn(),
-      deleteTask: vi.fn(),
-      reorderTasks: vi.fn(),
-    },
-    mockWorktreeService: {
-      createWorktree: vi.fn(),
-      getWorktreeStatus: vi.fn(),
-      deleteWorktree: vi.fn(),
-      rebaseWorktree: vi.fn(),
-      mergeWorktree: vi.fn(),
-      openInVSCode: vi.fn(),
-    },
-    mockBlockingService: {
-      getBlockingStatus: vi.fn(),
-      canMoveToInProgress: vi.fn(),
-    },
-    mockActivityService: {
-      logActivity: vi.fn().mockResolvedValue(undefined),
-    },
-  }));
+const {
+  mockTaskService,
+  mockWorktreeService,
+  mockBlockingService,
+  mockActivityService,
+  mockTaskTypeService,
+  mockBoardWorkflowService,
+  mockRequireAgentPermission,
+} = vi.hoisted(() => ({
+  mockTaskService: {
+    listTasks: vi.fn(),
+    getTask: vi.fn(),
+    createTask: vi.fn(),
+    updateTask: vi.fn(),
+    deleteTask: vi.fn(),
+    reorderTasks: vi.fn(),
+  },
+  mockWorktreeService: {
+    createWorktree: vi.fn(),
+    getWorktreeStatus: vi.fn(),
+    deleteWorktree: vi.fn(),
+    rebaseWorktree: vi.fn(),
+    mergeWorktree: vi.fn(),
+    openInVSCode: vi.fn(),
+  },
+  mockBlockingService: {
+    getBlockingStatus: vi.fn(),
+    canMoveToInProgress: vi.fn(),
+  },
+  mockActivityService: {
+    logActivity: vi.fn().mockResolvedValue(undefined),
+  },
+  mockTaskTypeService: {
+    validateCustomFields: vi.fn(),
+    list: vi.fn(),
+  },
+  mockBoardWorkflowService: {
+    resolvePlacement: vi.fn().mockResolvedValue(null),
+  },
+  mockRequireAgentPermission: vi.fn().mockResolvedValue(null),
+}));
 
 vi.mock('../../services/task-service.js', () => ({
   getTaskService: () => mockTaskService,
@@ -41,6 +56,19 @@ vi.mock('../../services/task-service.js', () => ({
   },
 }));
 
+vi.mock('../../services/task-type-service.js', () => ({
+  getTaskTypeService: () => mockTaskTypeService,
+}));
+
+vi.mock('../../services/board-workflow-service.js', () => ({
+  getBoardWorkflowService: () => mockBoardWorkflowService,
+}));
+
+vi.mock('../../middleware/agent-permissions.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../middleware/agent-permissions.js')>()),
+  requireAgentPermission: mockRequireAgentPermission,
+}));
+
 vi.mock('../../services/worktree-service.js', () => ({
   WorktreeService: function () {
     return mockWorktreeService;
@@ -74,7 +102,12 @@ vi.mock('../../middleware/cache-control.js', async () => {
 
 // Import after mocking
 import { taskRoutes } from '../../routes/tasks.js';
-import { errorHandler } from '../../middleware/error-handler.js';
+import {
+  AgentPermissionError,
+  ConflictError,
+  errorHandler,
+  ValidationError,
+} from '../../middleware/error-handler.js';
 
 describe('Tasks Routes (actual module)', () => {
   let app: express.Express;
@@ -106,6 +139,48 @@ describe('Tasks Routes (actual module)', () => {
       expect(res.status).toBe(200);
       expect(res.body).toEqual([]);
     });
+
+    it('should filter by custom field values', async () => {
+      mockTaskService.listTasks.mockResolvedValue([
+        { id: 't1', title: 'A', created: '2025-01-01', customFields: { severity: 'high' } },
+        { id: 't2', title: 'B', created: '2025-01-01', customFields: { severity: 'low' } },
+        { id: 't3', title: 'C', created: '2025-01-01' },
+      ]);
+
+      const res = await request(app).get('/api/tasks?cf.severity=High&view=summary');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual([
+        expect.objectContaining({ id: 't1', customFields: { severity: 'high' } }),
+      ]);
+    });
+  });
+
+  describe('GET /api/tasks/export', () => {
+    it('should export tasks as CSV with a column per custom field', async () => {
+      mockTaskService.listTasks.mockResolvedValue([
+        {
+          id: 't1',
+          title: 'Crash, on save',
+          status: 'todo',
+          priority: 'high',
+          type: 'bug',
+          created: '2025-01-01',
+          updated: '2025-01-02',
+          customFields: { severity: 'high', legacy: 'kept' },
+        },
+      ]);
+      mockTaskTypeService.list.mockResolvedValue([
+        { id: 'bug', customFields: [{ id: 'severity' }, { id: 'estimate' }] },
+      ]);
+
+      const res = await request(app).get('/api/tasks/export?type=bug');
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toContain('text/csv');
+      expect(res.text.split('\n')).toEqual([
+        'id,title,status,priority,type,project,sprint,agent,created,updated,cf.severity,cf.estimate,cf.legacy',
+        't1,"Crash, on save",todo,high,bug,,,,2025-01-01,2025-01-02,high,,kept',
+      ]);
+    });
   });
 
   describe('POST /api/tasks/reorder', () => {
@@ -189,6 +264,23 @@ describe('Tasks Routes (actual module)', () => {
       const res = await request(app).post('/api/tasks').send({ title: '' });
       expect(res.status).toBe(400);
     });
+
+    it('should validate custom fields against the task type before creating', async () => {
+      mockTaskTypeService.validateCustomFields.mockRejectedValueOnce(
+        new ValidationError('Invalid custom fields for task type "bug"', [
+          { code: 'INVALID_CUSTOM_FIELD', message: 'severity is required', path: [] },
+        ])
+      );
+
+      const res = await request(app)
+        .post('/api/tasks')
+        .send({ title: 'Bug', type: 'bug', customFields: { estimate: 2 } });
+      expect(res.status).toBe(400);
+      expect(mockTaskTypeService.validateCustomFields).toHaveBeenCalledWith('bug', {
+        estimate: 2,
+      });
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+    });
   });
 
   describe('PATCH /api/tasks/:id', () => {
@@ -270,7 +362,8 @@ describe('Tasks Routes (actual module)', () => {
       expect(res.status).toBe(200);
       expect(mockTaskService.updateTask).toHaveBeenCalledWith(
         't1',
-        expect.objectContaining({ blockedReason: null })
+        expect.objectContaining({ blockedReason: null }),
+        expect.any(Object)
       );
     });
 
@@ -278,6 +371,170 @@ describe('Tasks Routes (actual module)', () => {
       const res = await request(app).patch('/api/tasks/t1').send({ priority: 'invalid-priority' });
       expect(res.status).toBe(400);
     });
+
+    it('should pass If-Match as the expected version and return the new ETag', async () => {
+      const oldTask = { id: 't1', status: 'todo', title: 'Task', version: 2 };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+      mockTaskService.updateTask.mockResolvedValue({ ...oldTask, priority: 'high', version: 3 });
+
+      const res = await request(app)
+        .patch('/api/tasks/t1')
+        .set('If-Match', '"2"')
+        .send({ priority: 'high' });
+      expect(res.status).toBe(200);
+      expect(res.headers.etag).toBe('"3"');
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        expect.any(Object),
+        expect.objectContaining({ expectedVersion: 2 })
+      );
+    });
+
+    it('should return 412 with the current task when the version is stale', async () => {
+      const oldTask = { id: 't1', status: 'todo', title: 'Task', version: 3 };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+
+      const res = await request(app).patch('/api/tasks/t1').send({ priority: 'high', version: 2 });
+      expect(res.status).toBe(412);
+      expect(res.body.details).toEqual({ currentVersion: 3, task: oldTask });
+      expect(mockTaskService.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should reject a malformed If-Match header', async () => {
+      const res = await request(app)
+        .patch('/api/tasks/t1')
+        .set('If-Match', 'version-2')
+        .send({ priority: 'high' });
+      expect(res.status).toBe(400);
+    });
+
+    it('should turn addSubtasks and addComments into array operations', async () => {
+      const oldTask = { id: 't1', status: 'todo', title: 'Task' };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+      mockTaskService.updateTask.mockResolvedValue(oldTask);
+
+      const res = await request(app)
+        .patch('/api/tasks/t1')
+        .send({
+          addSubtasks: [{ title: 'Write tests' }],
+          removeSubtasks: ['subtask_old'],
+          addComments: [{ author: 'amp', text: '<b>Done</b>' }],
+        });
+      expect(res.status).toBe(200);
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        {
+          addSubtasks: [expect.objectContaining({ title: 'Write tests', completed: false })],
+          removeSubtasks: ['subtask_old'],
+          addComments: [expect.objectContaining({ author: 'amp', text: 'Done' })],
+        },
+        expect.any(Object)
+      );
+    });
+
+    it('should only validate custom field values that change', async () => {
+      const oldTask = {
+        id: 't1',
+        status: 'todo',
+        title: 'Task',
+        type: 'code',
+        customFields: { legacy: 'kept' },
+      };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+      mockTaskService.updateTask.mockResolvedValue(oldTask);
+
+      const res = await request(app)
+        .patch('/api/tasks/t1')
+        .send({ type: 'bug', customFields: { legacy: 'kept', severity: 'high', old: null } });
+      expect(res.status).toBe(200);
+      expect(mockTaskTypeService.validateCustomFields).toHaveBeenCalledWith(
+        'bug',
+        { severity: 'high', old: null },
+        { partial: true }
+      );
+    });
+
+    it('should set the status from the target board column', async () => {
+      const oldTask = { id: 't1', status: 'todo', title: 'Task' };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+      mockTaskService.updateTask.mockResolvedValue({ ...oldTask, status: 'in-progress' });
+      mockBoardWorkflowService.resolvePlacement.mockResolvedValueOnce({
+        status: 'in-progress',
+        column: 'qa',
+      });
+
+      const res = await request(app).patch('/api/tasks/t1').send({ column: 'qa' });
+      expect(res.status).toBe(200);
+      expect(mockBoardWorkflowService.resolvePlacement).toHaveBeenCalledWith(
+        oldTask,
+        expect.objectContaining({ column: 'qa' })
+      );
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        expect.objectContaining({ status: 'in-progress', column: 'qa' }),
+        expect.anything()
+      );
+    });
+
+    it('should return 409 when the target column is at its WIP limit', async () => {
+      mockTaskService.getTask.mockResolvedValue({ id: 't1', status: 'todo', title: 'Task' });
+      mockBoardWorkflowService.resolvePlacement.mockRejectedValueOnce(
+        new ConflictError('Column "QA" is at its WIP limit (2)', { column: 'qa', wipLimit: 2 })
+      );
+
+      const res = await request(app).patch('/api/tasks/t1').send({ column: 'qa' });
+      expect(res.status).toBe(409);
+      expect(mockTaskService.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should hold the task in review when finishing it needs approval', async () => {
+      mockTaskService.getTask.mockResolvedValue({ id: 't1', status: 'in-progress', title: 'Task' });
+      mockTaskService.updateTask.mockResolvedValue({ id: 't1', status: 'blocked', title: 'Task' });
+      mockRequireAgentPermission.mockResolvedValueOnce({ id: 'approval_1' });
+
+      const res = await request(app).patch('/api/tasks/t1').send({ status: 'done' });
+      expect(res.status).toBe(200);
+      expect(res.headers['x-approval-request']).toBe('approval_1');
+      expect(mockRequireAgentPermission).toHaveBeenCalledWith(
+        expect.anything(),
+        'complete_task',
+        expect.objectContaining({ taskId: 't1', payload: { status: 'done', column: null } })
+      );
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        't1',
+        expect.objectContaining({
+          status: 'blocked',
+          blockedReason: expect.objectContaining({ category: 'waiting-on-feedback' }),
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should check the WIP limit of the column a held completion lands in', async () => {
+      const oldTask = { id: 't1', status: 'in-progress', title: 'Task' };
+      mockTaskService.getTask.mockResolvedValue(oldTask);
+      mockTaskService.updateTask.mockResolvedValue({ ...oldTask, status: 'blocked' });
+      mockRequireAgentPermission.mockResolvedValueOnce({ id: 'approval_1' });
+      // The done column is full, but the held task never enters it
+      mockBoardWorkflowService.resolvePlacement
+        .mockResolvedValueOnce({ status: 'done', column: undefined })
+        .mockImplementationOnce(async (_task, input) => {
+          if (input.status === 'done') {
+            throw new ConflictError('Column "Done" is at its WIP limit (1)', { column: 'done' });
+          }
+          return { status: input.status, column: undefined };
+        });
+
+      const res = await request(app).patch('/api/tasks/t1').send({ status: 'done' });
+      expect(res.status).toBe(200);
+      expect(mockBoardWorkflowService.resolvePlacement.mock.calls[0][2]).toEqual({
+        checkWipLimit: false,
+      });
+      expect(mockBoardWorkflowService.resolvePlacement).toHaveBeenLastCalledWith(
+        oldTask,
+        expect.objectContaining({ status: 'blocked', column: null })
+      );
+    });
   });
 
   describe('DELETE /api/tasks/:id', () => {
@@ -296,6 +553,21 @@ describe('Tasks Routes (actual module)', () => {
       const res = await request(app).delete('/api/tasks/nonexistent');
       expect(res.status).toBe(404);
     });
+
+    it('should not delete when the agent lacks permission', async () => {
+      mockTaskService.getTask.mockResolvedValue({ id: 't1', title: 'Task' });
+      mockRequireAgentPermission.mockRejectedValueOnce(
+        new AgentPermissionError('Only lead agents can delete tasks', {
+          agentId: 'intern-bot',
+          approvalId: 'approval_2',
+        })
+      );
+
+      const res = await request(app).delete('/api/tasks/t1');
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('AGENT_APPROVAL_REQUIRED');
+      expect(mockTaskService.deleteTask).not.toHaveBeenCalled();
+    });
   });
 
   describe('Worktree routes', () => {
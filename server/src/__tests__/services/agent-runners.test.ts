@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { AgentConfig, AppConfig } from '@veritas-kanban/shared';
+import { LocalProcessAgentRunner, StubAgentRunner } from '../../services/agent-runners.js';
+import { WorkflowStepExecutor } from '../../services/workflow-step-executor.js';
+import type { ConfigService } from '../../services/config-service.js';
+import type { AgentRunRequest, WorkflowRun, WorkflowStep } from '../../types/workflow.js';
+
+function fakeConfigService(agents: AgentConfig[]): ConfigService {
+  const config = { repos: [], agents, defaultAgent: agents[0]?.type } as unknown as AppConfig;
+  return { getConfig: async () => config } as unknown as ConfigService;
+}
+
+function nodeAgent(script: string, overrides: Partial<AgentConfig> = {}): AgentConfig {
+  return {
+    type: 'node-agent',
+    name: 'Node Agent',
+    command: process.execPath,
+    args: ['-e', script],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function request(overrides: Partial<AgentRunRequest> = {}): AgentRunRequest {
+  return {
+    runId: 'run_1700000000000_abcdefgh',
+    stepId: 'implement',
+    agentId: 'developer',
+    prompt: 'Write the code',
+    toolFilter: { denied: ['Write'] },
+    timeout: 30,
+    ...overrides,
+  };
+}
+
+describe('LocalProcessAgentRunner', () => {
+  it('runs the configured command with the prompt and tool policy', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([
+        nodeAgent(
+          'console.log(process.argv[1] + "|" + process.env.VK_DENIED_TOOLS + "|" + process.env.VK_SESSION_KEY)'
+        ),
+      ]),
+    });
+
+    const key = await runner.spawn(request());
+    const result = await runner.wait(key, 10_000);
+
+    expect(result.status).toBe('completed');
+    expect(result.output.trim()).toBe(`Write the code|Write|${key}`);
+    expect(runner.hasSession(key)).toBe(true);
+
+    await runner.cleanup(key);
+    expect(runner.hasSession(key)).toBe(false);
+  });
+
+  it('substitutes the {{prompt}} placeholder instead of appending', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([
+        nodeAgent('', { args: ['-e', 'console.log(process.argv[1])', '--', 'P:{{prompt}}'] }),
+      ]),
+    });
+
+    const key = await runner.spawn(request());
+    const result = await runner.wait(key, 10_000);
+    expect(result.output.trim()).toBe('P:Write the code');
+  });
+
+  it('reports failures with the exit code and stderr', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([nodeAgent('console.error("boom"); process.exit(3)')]),
+    });
+
+    const key = await runner.spawn(request());
+    const result = await runner.wait(key, 10_000);
+
+    expect(result.status).toBe('failed');
+    expect(result.exitCode).toBe(3);
+    expect(result.error).toBe('boom');
+  });
+
+  it('terminates the process when the timeout elapses', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([nodeAgent('setTimeout(() => {}, 60000)')]),
+    });
+
+    const key = await runner.spawn(request());
+    const result = await runner.wait(key, 200);
+
+    expect(result.status).toBe('timeout');
+  });
+
+  it('continues an idle session with a new prompt', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([
+        nodeAgent('console.log(process.env.VK_SESSION_TURN + ":" + process.argv[1])'),
+      ]),
+    });
+
+    const key = await runner.spawn(request());
+    await runner.wait(key, 10_000);
+    await runner.continueSession(key, 'Now add tests', request());
+    const result = await runner.wait(key, 10_000);
+
+    expect(result.output.trim()).toBe('2:Now add tests');
+  });
+
+  it('rejects disabled agents', async () => {
+    const runner = new LocalProcessAgentRunner({
+      configService: fakeConfigService([nodeAgent('', { enabled: false })]),
+    });
+
+    await expect(runner.spawn(request())).rejects.toThrow('disabled');
+  });
+});
+
+describe('WorkflowStepExecutor with an agent runner', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-runner-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  function makeRun(steps: WorkflowStep[]): WorkflowRun {
+    return {
+      id: 'run_1700000000000_abcdefgh',
+      workflowId: 'wf',
+      workflowVersion: 1,
+      status: 'running',
+      context: { workflow: { id: 'wf', agents: [] } },
+      startedAt: new Date().toISOString(),
+      steps: steps.map((s) => ({ stepId: s.id, status: 'pending', retries: 0 })),
+    };
+  }
+
+  it('uses the runner output as the step output and records the session key', async () => {
+    const runner = new StubAgentRunner(() => 'STATUS: done\nOUTPUT: real work');
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step: WorkflowStep = { id: 'plan', name: 'Plan', type: 'agent', agent: 'planner' };
+    const run = makeRun([step]);
+
+    const result = await executor.executeStep(step, run);
+
+    expect(result.output).toBe('STATUS: done\nOUTPUT: real work');
+    expect(run.steps[0].sessionKey).toBe(runner.calls[0].sessionKey);
+    // Fresh sessions with cleanup: delete are released immediately
+    expect(runner.cleanedUp).toEqual([runner.calls[0].sessionKey]);
+  });
+
+  it('reuses the agent session across steps and cleans it up when the run ends', async () => {
+    const runner = new StubAgentRunner();
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const session = { mode: 'reuse', context: 'minimal', cleanup: 'delete', timeout: 60 } as const;
+    const first: WorkflowStep = { id: 'a', name: 'A', type: 'agent', agent: 'dev', session };
+    const second: WorkflowStep = { id: 'b', name: 'B', type: 'agent', agent: 'dev', session };
+    const run = makeRun([first, second]);
+
+    await executor.executeStep(first, run);
+    await executor.executeStep(second, run);
+
+    expect(runner.calls.map((c) => c.kind)).toEqual(['spawn', 'continue']);
+    expect(run.steps[1].sessionKey).toBe(run.steps[0].sessionKey);
+    expect(runner.cleanedUp).toEqual([]);
+
+    expect(run.context).not.toHaveProperty('_sessions');
+
+    await executor.cleanupRunSessions(run);
+    expect(runner.cleanedUp).toEqual([run.steps[0].sessionKey]);
+
+    // The run's session registry is gone, so a later step starts a new session
+    await executor.executeStep(first, run);
+    expect(runner.calls.map((c) => c.kind)).toEqual(['spawn', 'continue', 'spawn']);
+  });
+
+  it('keeps fresh sessions past their step and releases them when the run ends', async () => {
+    const runner = new StubAgentRunner();
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const session = { mode: 'fresh', context: 'minimal', cleanup: 'keep', timeout: 60 } as const;
+    const step: WorkflowStep = { id: 'a', name: 'A', type: 'agent', agent: 'dev', session };
+    const run = makeRun([step]);
+
+    await executor.executeStep(step, run);
+    expect(runner.cleanedUp).toEqual([]);
+
+    await executor.cleanupRunSessions(run);
+    expect(runner.cleanedUp).toEqual([run.steps[0].sessionKey]);
+
+    await executor.cleanupRunSessions(run);
+    expect(runner.cleanedUp).toHaveLength(1);
+  });
+
+  it('fails the step when the agent does not complete', async () => {
+    const runner = new StubAgentRunner(() => ({ status: 'failed', error: 'crashed' }));
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step: WorkflowStep = { id: 'plan', name: 'Plan', type: 'agent', agent: 'planner' };
+
+    await expect(executor.executeStep(step, makeRun([step]))).rejects.toThrow(
+      'Agent planner failed on step plan: crashed'
+    );
+  });
+});
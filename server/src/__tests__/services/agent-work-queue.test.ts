@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Task, UpdateTaskInput } from '@veritas-kanban/shared';
+import type { RegisteredAgent } from '../../services/agent-registry-service.js';
+import {
+  BudgetExceededError,
+  ConflictError,
+  PreconditionFailedError,
+} from '../../middleware/error-handler.js';
+
+vi.mock('../../services/broadcast-service.js', () => ({
+  broadcastTaskChange: vi.fn(),
+}));
+
+const { AgentWorkQueue } = await import('../../services/agent-work-queue-service.js');
+
+const T0 = new Date('2026-05-01T12:00:00Z');
+const TTL = 60_000;
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    description: '',
+    type: 'code',
+    status: 'todo',
+    priority: 'medium',
+    created: '2026-05-01T00:00:00Z',
+    updated: '2026-05-01T00:00:00Z',
+    version: 1,
+    ...overrides,
+  } as Task;
+}
+
+function makeAgent(id: string, overrides: Partial<RegisteredAgent> = {}): RegisteredAgent {
+  return {
+    id,
+    name: id,
+    capabilities: [],
+    status: 'online',
+    registeredAt: T0.toISOString(),
+    lastHeartbeat: T0.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('AgentWorkQueue', () => {
+  let dir: string;
+  let tasks: Map<string, Task>;
+  let agents: Map<string, RegisteredAgent>;
+  let queue: InstanceType<typeof AgentWorkQueue>;
+
+  const taskService = {
+    listTasks: async () => Array.from(tasks.values()),
+    getTask: async (id: string) => tasks.get(id) ?? null,
+    updateTask: async (
+      id: string,
+      input: UpdateTaskInput,
+      options: { expectedVersion?: number } = {}
+    ) => {
+      const task = tasks.get(id);
+      if (!task) return null;
+      if (options.expectedVersion !== undefined && options.expectedVersion !== task.version) {
+        throw new PreconditionFailedError('Task has changed');
+      }
+      const updated = { ...task, ...input, version: (task.version ?? 0) + 1 } as Task;
+      tasks.set(id, updated);
+      return updated;
+    },
+  };
+
+  const board = { resolvePlacement: vi.fn() };
+  const budget = { enforce: vi.fn() };
+
+  const newQueue = () =>
+    new AgentWorkQueue({
+      taskService,
+      registry: { get: (id: string) => agents.get(id) ?? null },
+      board,
+      budget,
+      filePath: path.join(dir, 'agent-leases.json'),
+      leaseTtlMs: TTL,
+    });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-work-queue-test-'));
+    tasks = new Map();
+    agents = new Map([
+      ['codex', makeAgent('codex')],
+      ['reviewer', makeAgent('reviewer', { capabilities: [{ name: 'review' }] })],
+    ]);
+    board.resolvePlacement.mockReset().mockResolvedValue(null);
+    budget.enforce.mockReset().mockResolvedValue(undefined);
+    queue = newQueue();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('hands out tasks by priority and age, skipping ineligible ones', async () => {
+    tasks.set('old-low', makeTask('old-low', { priority: 'low', created: '2026-04-01T00:00:00Z' }));
+    tasks.set('new-high', makeTask('new-high', { priority: 'high' }));
+    tasks.set(
+      'old-high',
+      makeTask('old-high', { priority: 'high', created: '2026-04-01T00:00:00Z' })
+    );
+    tasks.set(
+      'critical-blocked',
+      makeTask('critical-blocked', { priority: 'critical', blockedBy: ['old-low'] })
+    );
+    tasks.set('critical-other', makeTask('critical-other', { priority: 'critical', agent: 'amp' }));
+
+    expect((await queue.listQueued()).map((t) => t.id)).toEqual([
+      'critical-other',
+      'old-high',
+      'new-high',
+      'old-low',
+    ]);
+
+    const claimed = await queue.claim('codex', {}, T0);
+    expect(claimed?.task).toMatchObject({
+      id: 'old-high',
+      status: 'in-progress',
+      agent: 'codex',
+      attempt: { agent: 'codex', status: 'running', started: T0.toISOString() },
+    });
+    expect(claimed?.lease).toMatchObject({
+      taskId: 'old-high',
+      agentId: 'codex',
+      attemptId: claimed?.task.attempt?.id,
+      expiresAt: new Date(T0.getTime() + TTL).toISOString(),
+    });
+
+    // Agents advertising capabilities only get matching task types
+    expect(await queue.claim('reviewer', {}, T0)).toBeNull();
+  });
+
+  it('enforces per-agent concurrency limits and agent liveness', async () => {
+    for (const id of ['a', 'b', 'c']) tasks.set(id, makeTask(id));
+
+    await queue.claim('codex', {}, T0);
+    await expect(queue.claim('codex', {}, T0)).rejects.toMatchObject({
+      statusCode: 409,
+      details: { code: 'CONCURRENCY_LIMIT', limit: 1, active: 1 },
+    });
+
+    agents.set('codex', makeAgent('codex', { maxConcurrentTasks: 2 }));
+    expect(await queue.claim('codex', {}, T0)).not.toBeNull();
+    expect(await queue.listLeases('codex')).toHaveLength(2);
+
+    agents.set('amp', makeAgent('amp', { status: 'offline' }));
+    await expect(queue.claim('amp', {}, T0)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(queue.claim('ghost', {}, T0)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('skips tasks whose column is at its WIP limit or whose budget is exhausted', async () => {
+    tasks.set('full', makeTask('full', { priority: 'critical', project: 'api' }));
+    tasks.set('broke', makeTask('broke', { priority: 'high', project: 'web' }));
+    tasks.set('ok', makeTask('ok', { project: 'api' }));
+
+    board.resolvePlacement.mockImplementation(async (task: Task) => {
+      if (task.id === 'full') {
+        throw new ConflictError('Column "Doing" is at its WIP limit (1)', {
+          code: 'WIP_LIMIT_REACHED',
+        });
+      }
+      return { status: 'in-progress', column: 'review' };
+    });
+    budget.enforce.mockImplementation(async (subject: { project?: string }) => {
+      if (subject.project === 'web') {
+        throw new BudgetExceededError('Budget exhausted', { overrideIds: ['bo_1'] });
+      }
+    });
+
+    const claimed = await queue.claim('codex', {}, T0);
+    expect(claimed?.task).toMatchObject({ id: 'ok', status: 'in-progress', column: 'review' });
+    expect(budget.enforce).toHaveBeenCalledWith(
+      { project: 'web', agent: 'codex' },
+      'agent.start',
+      { taskId: 'broke' },
+      T0
+    );
+    expect(tasks.get('full')?.status).toBe('todo');
+    expect(tasks.get('broke')?.status).toBe('todo');
+  });
+
+  it('renews leases on heartbeat and requeues tasks whose lease expired', async () => {
+    tasks.set('t1', makeTask('t1', { agent: 'auto' }));
+    const claimed = await queue.claim('codex', {}, T0);
+
+    const renewedAt = new Date(T0.getTime() + TTL / 2);
+    await queue.renewLeases('codex', renewedAt);
+    expect(await queue.sweep(new Date(T0.getTime() + TTL))).toEqual([]);
+
+    const expired = await queue.sweep(new Date(renewedAt.getTime() + TTL));
+    expect(expired.map((l) => l.taskId)).toEqual(['t1']);
+    expect(tasks.get('t1')).toMatchObject({
+      status: 'todo',
+      agent: 'auto',
+      attempts: [{ id: claimed?.lease.attemptId, agent: 'codex', status: 'failed' }],
+    });
+    expect(await queue.listLeases()).toEqual([]);
+
+    // Back in the queue for anyone to pick up
+    agents.set('amp', makeAgent('amp'));
+    expect((await queue.claim('amp', {}, T0))?.task.id).toBe('t1');
+  });
+
+  it('requeues tasks held by offline agents and drops leases on finished tasks', async () => {
+    agents.set('codex', makeAgent('codex', { maxConcurrentTasks: 2 }));
+    tasks.set('t1', makeTask('t1'));
+    tasks.set('t2', makeTask('t2'));
+    await queue.claim('codex', {}, T0);
+    await queue.claim('codex', {}, T0);
+
+    await taskService.updateTask('t2', { status: 'done' });
+    agents.set('codex', makeAgent('codex', { status: 'offline' }));
+    await queue.sweep(T0);
+
+    expect(tasks.get('t1')).toMatchObject({ status: 'todo', attempt: { status: 'failed' } });
+    expect(tasks.get('t2')).toMatchObject({ status: 'done', attempt: { status: 'complete' } });
+    expect(await queue.listLeases()).toEqual([]);
+  });
+
+  it('releases leases and keeps them across restarts', async () => {
+    tasks.set('t1', makeTask('t1'));
+    await queue.claim('codex', {}, T0);
+
+    // A fresh instance reads the persisted leases
+    const restarted = newQueue();
+    expect(await restarted.listLeases('codex')).toHaveLength(1);
+
+    await expect(restarted.release('amp', 't1', 'failed', T0)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    const task = await restarted.release('codex', 't1', 'abandoned', T0);
+    expect(task).toMatchObject({ status: 'todo', attempts: [{ status: 'failed' }] });
+    expect(await restarted.listLeases()).toEqual([]);
+  });
+});
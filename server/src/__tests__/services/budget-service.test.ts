@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  DEFAULT_FEATURE_SETTINGS,
+  type BudgetSettings,
+  type FeatureSettings,
+  type TokenTelemetryEvent,
+} from '@veritas-kanban/shared';
+import { BudgetService } from '../../services/budget-service.js';
+import { BudgetExceededError } from '../../middleware/error-handler.js';
+
+const NOW = new Date('2026-05-15T12:00:00Z');
+const CATALOG = [{ model: 'claude-sonnet-4', inputPer1M: 3, outputPer1M: 15 }];
+
+/** 1M input tokens on claude-sonnet-4 = $3 */
+function spend(overrides: Partial<TokenTelemetryEvent> = {}): TokenTelemetryEvent {
+  return {
+    id: `evt_${Math.random().toString(36).slice(2)}`,
+    type: 'run.tokens',
+    timestamp: '2026-05-15T08:00:00Z',
+    taskId: 'task_1',
+    agent: 'codex',
+    project: 'web',
+    model: 'claude-sonnet-4',
+    inputTokens: 1_000_000,
+    outputTokens: 0,
+    totalTokens: 1_000_000,
+    ...overrides,
+  };
+}
+
+describe('BudgetService', () => {
+  let dir: string;
+  let budget: BudgetSettings;
+  let events: TokenTelemetryEvent[];
+  let createNotification: ReturnType<typeof vi.fn>;
+  let service: BudgetService;
+
+  const newService = () =>
+    new BudgetService({
+      configService: {
+        getFeatureSettings: async () =>
+          ({ ...DEFAULT_FEATURE_SETTINGS, budget }) as FeatureSettings,
+      },
+      telemetry: {
+        getEvents: async ({ since } = {}) => events.filter((e) => !since || e.timestamp >= since),
+      },
+      pricing: { getCatalog: async () => CATALOG },
+      notifications: { createNotification },
+      filePath: path.join(dir, 'budget-state.json'),
+      usageCacheMs: 0,
+    });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-budget-test-'));
+    budget = {
+      ...DEFAULT_FEATURE_SETTINGS.budget,
+      enforce: true,
+      monthlyCostLimit: 10,
+      limits: [
+        { id: 'web-daily', scope: 'project', target: 'web', window: 'daily', costLimit: 5 },
+        {
+          id: 'codex-tokens',
+          scope: 'agent',
+          target: 'codex',
+          window: 'monthly',
+          tokenLimit: 4_000_000,
+        },
+      ],
+    };
+    events = [];
+    createNotification = vi.fn().mockResolvedValue({ id: 'notif_1' });
+    service = newService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('measures spending per budget scope and window', async () => {
+    events = [
+      spend(),
+      spend({ project: 'api', agent: 'amp' }),
+      // Earlier this month: counts for monthly budgets only
+      spend({ timestamp: '2026-05-02T08:00:00Z' }),
+      // Last month
+      spend({ timestamp: '2026-04-30T08:00:00Z' }),
+    ];
+
+    const usage = Object.fromEntries((await service.getUsage(NOW)).map((u) => [u.budget.id, u]));
+    expect(usage.monthly).toMatchObject({
+      cost: 9,
+      percentUsed: 90,
+      exhausted: false,
+      windowStart: '2026-05-01T00:00:00.000Z',
+      windowEnd: '2026-06-01T00:00:00.000Z',
+    });
+    expect(usage['web-daily']).toMatchObject({ cost: 3, percentUsed: 60 });
+    expect(usage['codex-tokens']).toMatchObject({ tokens: 2_000_000, percentUsed: 50 });
+  });
+
+  it('refuses work against exhausted budgets and lets it through once overridden', async () => {
+    events = [spend(), spend({ agent: 'amp' })];
+
+    // Project "web" spent $6 of its $5 daily budget
+    const subject = { project: 'web', agent: 'codex' };
+    const refusal = service.enforce(subject, 'agent.start', { taskId: 'task_9' }, NOW);
+    await expect(refusal).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(refusal).rejects.toMatchObject({
+      statusCode: 402,
+      code: 'BUDGET_EXCEEDED',
+      details: { budgets: [{ id: 'web-daily', cost: 6 }] },
+    });
+    // Other projects are unaffected
+    await expect(
+      service.enforce({ project: 'api' }, 'agent.start', {}, NOW)
+    ).resolves.toBeUndefined();
+
+    // Refusing again reuses the pending override request
+    const second = await service
+      .enforce({ project: 'web' }, 'workflow.step', {}, NOW)
+      .catch((err: BudgetExceededError) => err);
+    const [pending] = await service.listOverrides('pending');
+    expect(pending).toMatchObject({
+      budgetId: 'web-daily',
+      requestedBy: 'codex',
+      action: 'agent.start',
+      taskId: 'task_9',
+    });
+    expect((second as BudgetExceededError).overrideIds).toEqual([pending.id]);
+
+    const approved = await service.reviewOverride(pending.id, 'approved', 'admin', {}, NOW);
+    expect(approved).toMatchObject({
+      status: 'approved',
+      reviewedBy: 'admin',
+      expiresAt: '2026-05-16T00:00:00.000Z',
+    });
+    await expect(service.reviewOverride(pending.id, 'rejected', 'admin')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(
+      service.enforce({ project: 'web' }, 'agent.start', {}, NOW)
+    ).resolves.toBeUndefined();
+
+    // The override is kept across restarts, and lapses with the window
+    const restarted = newService();
+    await expect(
+      restarted.enforce({ project: 'web' }, 'agent.start', {}, NOW)
+    ).resolves.toBeUndefined();
+    events.push(
+      spend({ timestamp: '2026-05-16T08:00:00Z' }),
+      spend({ timestamp: '2026-05-16T09:00:00Z' })
+    );
+    await expect(
+      restarted.enforce({ project: 'web' }, 'agent.start', {}, new Date('2026-05-16T12:00:00Z'))
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('keeps persisted overrides when the first calls arrive together', async () => {
+    events = [spend(), spend()];
+    const first = await service.requestOverride('web-daily', { requestedBy: 'codex' }, NOW);
+
+    const restarted = newService();
+    await Promise.all([
+      restarted.requestOverride('monthly', { requestedBy: 'amp' }, NOW),
+      restarted.requestOverride('codex-tokens', { requestedBy: 'amp' }, NOW),
+    ]);
+    const ids = (await newService().listOverrides()).map((o) => o.id);
+    expect(ids).toContain(first.id);
+    expect(ids).toHaveLength(3);
+  });
+
+  it('only enforces when enforcement is switched on', async () => {
+    events = [spend(), spend()];
+    budget.enforce = false;
+
+    await expect(
+      service.enforce({ project: 'web' }, 'agent.start', {}, NOW)
+    ).resolves.toBeUndefined();
+    expect((await service.getUsage(NOW)).find((u) => u.budget.id === 'web-daily')?.exhausted).toBe(
+      true
+    );
+    expect(await service.listOverrides()).toEqual([]);
+  });
+
+  it('notifies once per budget, window and threshold', async () => {
+    events = [spend(), spend({ project: 'api' }), spend({ project: 'api' })];
+
+    // monthly at 90%, web-daily at 60%, codex-tokens at 75%
+    const notified = await service.checkThresholds(NOW);
+    expect(notified.map((u) => u.budget.id)).toEqual(['monthly']);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'budget_threshold',
+        title: 'Budget Alert',
+        message: expect.stringContaining('global monthly budget is at 90%'),
+      })
+    );
+
+    expect(await service.checkThresholds(NOW)).toEqual([]);
+
+    events.push(spend({ project: 'api' }));
+    const exhausted = await service.checkThresholds(NOW);
+    expect(exhausted.map((u) => u.budget.id)).toEqual(['monthly', 'codex-tokens']);
+    expect(createNotification).toHaveBeenLastCalledWith(
+      expect.objectContaining({ title: 'Budget Exhausted' })
+    );
+    expect(createNotification).toHaveBeenCalledTimes(3);
+  });
+});
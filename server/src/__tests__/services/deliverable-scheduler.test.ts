@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Task } from '@veritas-kanban/shared';
+import { ScheduledDeliverablesService } from '../../services/scheduled-deliverables-service.js';
+import { DeliverableScheduler } from '../../services/deliverable-scheduler.js';
+import type { WorkflowRun } from '../../types/workflow.js';
+
+describe('DeliverableScheduler', () => {
+  let dataDir: string;
+  let service: ScheduledDeliverablesService;
+  let createTask: ReturnType<typeof vi.fn>;
+  let startRun: ReturnType<typeof vi.fn>;
+  let scheduler: DeliverableScheduler;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-deliverables-test-'));
+    service = new ScheduledDeliverablesService({ dataDir });
+    createTask = vi.fn(async () => ({ id: 'task_20260301_abc123' }) as Task);
+    startRun = vi.fn(async () => ({ id: 'run_1_wf' }) as WorkflowRun);
+    scheduler = new DeliverableScheduler({
+      service,
+      taskService: { createTask },
+      workflowRunService: { startRun },
+    });
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('computes nextRunAt from the cron expression and timezone', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-02T10:00:00Z'), toFake: ['Date'] });
+    try {
+      const del = await service.create({
+        name: 'Weekly report',
+        description: 'Summarise the week',
+        schedule: 'custom',
+        cronExpr: '0 9 * * 1',
+        timezone: 'Europe/Berlin',
+      });
+      // Next Monday 09:00 Berlin (CET, UTC+1)
+      expect(del.nextRunAt).toBe('2026-03-09T08:00:00.000Z');
+      expect(del.scheduleDescription).toBe('Cron: 0 9 * * 1 (Europe/Berlin)');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects invalid cron expressions and timezones', async () => {
+    const base = { name: 'Bad', description: 'x', schedule: 'custom' as const };
+    await expect(service.create({ ...base })).rejects.toThrow('require a cron expression');
+    await expect(service.create({ ...base, cronExpr: '61 * * * *' })).rejects.toThrow(
+      'Invalid cron expression'
+    );
+    await expect(
+      service.create({ ...base, cronExpr: '0 * * * *', timezone: 'Nowhere/City' })
+    ).rejects.toThrow('Unknown timezone');
+  });
+
+  it('creates a task when a deliverable is due and schedules the next run', async () => {
+    const del = await service.create({
+      name: 'Daily pulse',
+      description: 'Post the pulse',
+      schedule: 'custom',
+      cronExpr: '0 * * * *',
+      agent: 'codex',
+    });
+    const scheduledFor = del.nextRunAt;
+    const due = new Date(scheduledFor!);
+
+    const runs = await scheduler.tick(new Date(due.getTime() + 1000));
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      status: 'success',
+      trigger: 'schedule',
+      scheduledFor,
+      taskId: 'task_20260301_abc123',
+    });
+    expect(runs[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ description: 'Post the pulse', agent: 'codex' })
+    );
+
+    const updated = (await service.get(del.id))!.deliverable;
+    expect(new Date(updated.nextRunAt!).getTime()).toBeGreaterThan(due.getTime());
+    expect(updated.totalRuns).toBe(1);
+
+    // Nothing left to fire for the same instant
+    expect(await scheduler.tick(new Date(due.getTime() + 1000))).toEqual([]);
+  });
+
+  it('starts a workflow run for workflow actions', async () => {
+    const del = await service.create({
+      name: 'Audit',
+      description: 'Run the audit workflow',
+      schedule: 'custom',
+      cronExpr: '*/5 * * * *',
+      action: { type: 'workflow', workflowId: 'security-audit', context: { depth: 2 } },
+    });
+
+    const [run] = await scheduler.tick(new Date(del.nextRunAt!));
+
+    expect(run).toMatchObject({ status: 'success', workflowRunId: 'run_1_wf' });
+    expect(startRun).toHaveBeenCalledWith(
+      'security-audit',
+      undefined,
+      expect.objectContaining({ depth: 2, deliverable: expect.objectContaining({ id: del.id }) })
+    );
+  });
+
+  it('catches up once after downtime by default', async () => {
+    const del = await service.create({
+      name: 'Hourly',
+      description: 'x',
+      schedule: 'custom',
+      cronExpr: '0 * * * *',
+    });
+    const threeHoursLate = new Date(new Date(del.nextRunAt!).getTime() + 3 * 3_600_000 + 60_000);
+
+    const runs = await scheduler.tick(threeHoursLate);
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].trigger).toBe('catch-up');
+    expect(runs[0].summary).toContain('caught up 4 missed runs');
+    expect(createTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a skipped run when the missed-run policy is skip', async () => {
+    const del = await service.create({
+      name: 'Hourly',
+      description: 'x',
+      schedule: 'custom',
+      cronExpr: '0 * * * *',
+      missedRunPolicy: 'skip',
+    });
+    const late = new Date(new Date(del.nextRunAt!).getTime() + 2 * 3_600_000 + 60_000);
+
+    const [run] = await scheduler.tick(late);
+
+    expect(run).toMatchObject({ status: 'skipped', trigger: 'catch-up' });
+    expect(run.summary).toContain('Skipped 3 missed run(s)');
+    expect(createTask).not.toHaveBeenCalled();
+  });
+
+  it('records failures with the error message', async () => {
+    createTask.mockRejectedValueOnce(new Error('disk full'));
+    const del = await service.create({
+      name: 'Daily',
+      description: 'x',
+      schedule: 'daily',
+    });
+
+    const [run] = await scheduler.tick(new Date(del.nextRunAt!));
+
+    expect(run).toMatchObject({ status: 'failed', error: 'disk full' });
+  });
+
+  it('keeps interval schedules on their original slot', async () => {
+    const del = await service.create({ name: 'Daily', description: 'x', schedule: 'daily' });
+    const slot = new Date(del.nextRunAt!);
+
+    await scheduler.tick(new Date(slot.getTime() + 30_000));
+
+    const updated = (await service.get(del.id))!.deliverable;
+    expect(new Date(updated.nextRunAt!).getTime() - slot.getTime()).toBe(24 * 3_600_000);
+  });
+
+  it('runs a deliverable on demand', async () => {
+    const del = await service.create({ name: 'Adhoc', description: 'x', schedule: 'weekly' });
+
+    const run = await scheduler.runNow(del.id);
+
+    expect(run).toMatchObject({ status: 'success', trigger: 'manual' });
+    expect(await scheduler.runNow('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  computeTokenCost,
+  findModelPricing,
+  type ModelPricing,
+  type TokenTelemetryEvent,
+} from '@veritas-kanban/shared';
+import { PricingService } from '../../services/pricing-service.js';
+import { TelemetryService } from '../../services/telemetry-service.js';
+
+const CATALOG: ModelPricing[] = [
+  { model: 'claude-sonnet-4', inputPer1M: 3, outputPer1M: 15, cacheReadPer1M: 0.3 },
+  { model: 'claude-sonnet-4', inputPer1M: 2, outputPer1M: 10, effectiveFrom: '2026-06-01' },
+  { model: 'claude-sonnet-4-5', inputPer1M: 4, outputPer1M: 20 },
+];
+
+describe('model pricing helpers', () => {
+  it('matches the longest model prefix in effect at the given time', () => {
+    expect(findModelPricing(CATALOG, 'claude-sonnet-4-20250514', '2026-05-01T00:00:00Z')).toBe(
+      CATALOG[0]
+    );
+    expect(findModelPricing(CATALOG, 'anthropic/claude-sonnet-4', '2026-06-01T09:00:00Z')).toBe(
+      CATALOG[1]
+    );
+    expect(findModelPricing(CATALOG, 'claude-sonnet-4-5', '2026-07-01T00:00:00Z')).toBe(CATALOG[2]);
+    expect(findModelPricing(CATALOG, 'gpt-5')).toBeUndefined();
+    expect(findModelPricing(CATALOG, undefined)).toBeUndefined();
+  });
+
+  it('prices input, output and cache tokens', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 2_000_000 };
+    expect(computeTokenCost(CATALOG[0], usage)).toBe(3 + 1.5 + 0.6);
+    // Cache writes fall back to the input rate when the model has no cache price
+    expect(
+      computeTokenCost(CATALOG[2], { inputTokens: 0, outputTokens: 0, cacheWriteTokens: 500_000 })
+    ).toBe(2);
+  });
+});
+
+describe('PricingService', () => {
+  let dir: string;
+  let telemetry: TelemetryService;
+  let pricing: PricingService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-pricing-test-'));
+    telemetry = new TelemetryService({
+      telemetryDir: path.join(dir, 'telemetry'),
+      config: { enabled: true, retention: 3650 },
+    });
+    pricing = new PricingService({ filePath: path.join(dir, 'model-pricing.json'), telemetry });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const tokens = (overrides: Partial<TokenTelemetryEvent> = {}) => ({
+    type: 'run.tokens' as const,
+    taskId: 'task_1',
+    agent: 'codex',
+    model: 'claude-sonnet-4',
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    totalTokens: 1_100_000,
+    ...overrides,
+  });
+
+  it('uses the built-in prices until a catalog is saved', async () => {
+    expect(await pricing.isCustom()).toBe(false);
+    expect((await pricing.getCatalog()).length).toBeGreaterThan(0);
+
+    await pricing.setCatalog(CATALOG);
+    const reloaded = new PricingService({ filePath: path.join(dir, 'model-pricing.json') });
+    expect(await reloaded.getCatalog()).toEqual(CATALOG);
+    expect(await reloaded.isCustom()).toBe(true);
+
+    await expect(pricing.setCatalog([CATALOG[0], CATALOG[0]])).rejects.toMatchObject({
+      statusCode: 400,
+    });
+
+    await pricing.resetCatalog();
+    expect(await pricing.isCustom()).toBe(false);
+  });
+
+  it('keeps reported costs and prices the rest from the catalog', async () => {
+    await pricing.setCatalog(CATALOG);
+
+    expect(await pricing.priceEvent(tokens({ cost: 0.42 }))).toMatchObject({
+      cost: 0.42,
+      costSource: 'reported',
+    });
+    expect(await pricing.priceEvent(tokens({ timestamp: '2026-05-01T00:00:00Z' }))).toMatchObject({
+      cost: 4.5,
+      costSource: 'catalog',
+    });
+    expect(await pricing.priceEvent(tokens({ timestamp: '2026-06-02T00:00:00Z' }))).toMatchObject({
+      cost: 3,
+      costSource: 'catalog',
+    });
+
+    const unknown = await pricing.priceEvent(tokens({ model: 'mystery-model' }));
+    expect(unknown.cost).toBeUndefined();
+    expect(unknown.costSource).toBeUndefined();
+  });
+
+  it('recalculates catalog-priced events when prices change', async () => {
+    await pricing.setCatalog([{ model: 'claude-sonnet-4', inputPer1M: 3, outputPer1M: 15 }]);
+
+    await telemetry.emit(await pricing.priceEvent(tokens({ taskId: 'catalog' })));
+    await telemetry.emit(await pricing.priceEvent(tokens({ taskId: 'reported', cost: 9.99 })));
+    await telemetry.emit(tokens({ taskId: 'unpriced' }));
+    await telemetry.emit(tokens({ taskId: 'legacy', cost: 7 }));
+    await telemetry.emit(tokens({ taskId: 'unknown', model: 'mystery-model' }));
+    await telemetry.flush();
+
+    await pricing.setCatalog([{ model: 'claude-sonnet-4', inputPer1M: 1, outputPer1M: 5 }]);
+    expect(await pricing.recalculate()).toEqual({ scanned: 5, updated: 2 });
+
+    const costs = Object.fromEntries(
+      (await telemetry.getEvents({ type: 'run.tokens' })).map((e) => [
+        e.taskId,
+        (e as TokenTelemetryEvent).cost,
+      ])
+    );
+    expect(costs).toEqual({
+      catalog: 1.5,
+      reported: 9.99,
+      unpriced: 1.5,
+      legacy: 7,
+      unknown: undefined,
+    });
+
+    // Dropping a model from the catalog removes the costs computed for it
+    await pricing.setCatalog([{ model: 'gpt-5', inputPer1M: 1.25, outputPer1M: 10 }]);
+    expect(await pricing.recalculate()).toMatchObject({ updated: 2 });
+    const catalogEvent = (await telemetry.getEvents({ type: 'run.tokens' })).find(
+      (e) => e.taskId === 'catalog'
+    ) as TokenTelemetryEvent;
+    expect(catalogEvent.cost).toBeUndefined();
+    expect(catalogEvent.costSource).toBeUndefined();
+  });
+});
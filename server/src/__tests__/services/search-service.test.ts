@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Task } from '@veritas-kanban/shared';
+import { SearchService } from '../../services/search-service.js';
+import { SearchIndex } from '../../utils/search-index.js';
+import { parseSearchQuery } from '../../utils/search-query.js';
+import type { DocFile } from '../../services/docs-service.js';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: 'Untitled',
+    description: '',
+    type: 'code',
+    status: 'todo',
+    priority: 'medium',
+    created: '2026-03-01T00:00:00.000Z',
+    updated: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  } as Task;
+}
+
+function makeDoc(
+  filePath: string,
+  content: string,
+  modified = '2026-03-01T00:00:00.000Z'
+): DocFile {
+  return {
+    path: filePath,
+    name: filePath.split('/').pop()!,
+    content,
+    size: content.length,
+    modified,
+    created: modified,
+    extension: '.md',
+    directory: '.',
+  };
+}
+
+describe('parseSearchQuery', () => {
+  it('separates filters, phrases and terms', () => {
+    expect(
+      parseSearchQuery('status:blocked,todo project:"Mobile App" "rate limit" Retry foo:bar')
+    ).toEqual({
+      terms: ['retry', 'foo', 'bar'],
+      phrases: [['rate', 'limit']],
+      filters: { status: ['blocked', 'todo'], project: ['mobile app'] },
+      prefix: true,
+    });
+    expect(parseSearchQuery('agent:amp crash ').prefix).toBe(false);
+  });
+});
+
+describe('SearchIndex', () => {
+  const index = new SearchIndex({ boosts: { title: 4, description: 2, comments: 1 } });
+  index.add({ id: 'a', fields: { title: 'Checkout crash', description: 'Payment page' } });
+  index.add({ id: 'b', fields: { title: 'Refactor', description: 'Fixes a checkout crash' } });
+  index.add({ id: 'c', fields: { title: 'Docs', comments: 'crash in checkout flow' } });
+
+  it('ranks title matches above description and comment matches', () => {
+    expect(index.search({ terms: ['checkout', 'crash'], phrases: [] }).map((h) => h.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('requires phrases to appear in order and expands the prefix term', () => {
+    expect(index.search({ terms: [], phrases: [['checkout', 'crash']] }).map((h) => h.id)).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(index.search({ terms: ['paym'], phrases: [], prefix: true })).toEqual([
+      { id: 'a', score: expect.any(Number), matchedFields: ['description'] },
+    ]);
+  });
+
+  it('forgets removed documents', () => {
+    const copy = new SearchIndex({ boosts: { title: 1 } });
+    copy.add({ id: 'x', fields: { title: 'checkout' } });
+    copy.remove('x');
+    expect(copy.search({ terms: ['checkout'], phrases: [] })).toEqual([]);
+    expect(copy.size).toBe(0);
+  });
+});
+
+describe('SearchService', () => {
+  let tasks: Task[];
+  let docs: DocFile[];
+  let extracted: Record<string, string>;
+  let notifyDocChange: (filePath: string) => void;
+  let service: SearchService;
+
+  beforeEach(() => {
+    tasks = [];
+    docs = [];
+    extracted = {};
+    service = new SearchService({
+      taskService: { listTasks: async () => tasks },
+      attachmentService: { getExtractedText: async (_taskId, id) => extracted[id] ?? null },
+      docsService: {
+        listFiles: async () => docs,
+        getFile: async (filePath) => docs.find((d) => d.path === filePath) ?? null,
+        onChange: (listener) => {
+          notifyDocChange = listener;
+          return () => {};
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('searches comments, attachment text and docs', async () => {
+    tasks = [
+      makeTask('task_1', {
+        title: 'Login flow',
+        comments: [{ id: 'c1', author: 'amp', text: 'Token refresh fails', timestamp: '' }],
+      }),
+      makeTask('task_2', {
+        title: 'Invoices',
+        attachments: [
+          {
+            id: 'att_1',
+            filename: 'spec.pdf',
+            originalName: 'spec.pdf',
+            mimeType: 'application/pdf',
+            size: 1,
+            uploaded: '',
+          },
+        ],
+      }),
+    ];
+    extracted = { att_1: 'Invoices are refreshed nightly' };
+    docs = [makeDoc('auth.md', '# Auth guide\n\nHow token refresh works')];
+
+    const { results } = await service.search('token refresh');
+
+    expect(results.map((r) => [r.kind, r.id, r.matchedFields])).toEqual([
+      ['doc', 'auth.md', ['description']],
+      ['task', 'task_1', ['comments']],
+    ]);
+    expect(results[0]).toMatchObject({ title: 'Auth guide', snippet: 'How token refresh works' });
+    expect((await service.search('nightly')).results[0]).toMatchObject({
+      id: 'task_2',
+      matchedFields: ['attachments'],
+    });
+  });
+
+  it('applies filters and picks up task and doc changes', async () => {
+    tasks = [
+      makeTask('task_1', { title: 'API timeout', status: 'blocked', project: 'api', agent: 'amp' }),
+      makeTask('task_2', { title: 'API docs', status: 'todo', project: 'api' }),
+    ];
+    docs = [makeDoc('api.md', '# API')];
+
+    expect((await service.search('api status:blocked agent:amp')).results).toHaveLength(1);
+    expect((await service.search('project:api')).results.map((r) => r.id)).toEqual([
+      'task_1',
+      'task_2',
+    ]);
+    expect((await service.search('api is:doc')).results.map((r) => r.id)).toEqual(['api.md']);
+
+    tasks = [{ ...tasks[0], title: 'Gateway timeout' }];
+    docs = [makeDoc('api.md', '# Gateway', '2026-03-02T00:00:00.000Z')];
+    notifyDocChange('api.md');
+
+    expect((await service.search('gateway')).results.map((r) => r.id)).toEqual([
+      'api.md',
+      'task_1',
+    ]);
+    expect((await service.search('api')).results).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { StubAgentRunner } from '../../services/agent-runners.js';
+import {
+  StepOutputValidator,
+  StepOutputValidationError,
+} from '../../services/step-output-validator.js';
+import { WorkflowStepExecutor } from '../../services/workflow-step-executor.js';
+import { WorkflowService } from '../../services/workflow-service.js';
+import type {
+  AgentRunRequest,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+} from '../../types/workflow.js';
+
+const planSchema = {
+  type: 'object',
+  required: ['stories'],
+  properties: {
+    stories: {
+      type: 'array',
+      items: { type: 'object', required: ['title'], properties: { title: { type: 'string' } } },
+    },
+  },
+};
+
+function makeWorkflow(steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    id: 'wf',
+    name: 'WF',
+    version: 1,
+    description: '',
+    agents: [{ id: 'planner', name: 'Planner', role: 'planning', description: '' }],
+    steps,
+    schemas: { plan_output: planSchema },
+  };
+}
+
+describe('StepOutputValidator', () => {
+  it('reports each violation with its location', () => {
+    const result = new StepOutputValidator().validate(planSchema, { stories: [{ id: 1 }, 'x'] });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      "/stories/0 must have required property 'title'",
+      '/stories/1 must be object',
+    ]);
+  });
+
+  it('rejects schemas that are not valid JSON Schema', () => {
+    expect(() => new StepOutputValidator().compile({ type: 'nope' })).toThrow();
+  });
+});
+
+describe('WorkflowStepExecutor output schemas', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-schema-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  const planStep: WorkflowStep = {
+    id: 'plan',
+    name: 'Plan',
+    type: 'agent',
+    agent: 'planner',
+    input: 'Plan the feature',
+    output: { file: 'plan.json', schema: 'plan_output' },
+  };
+
+  function makeRun(workflow: WorkflowDefinition): WorkflowRun {
+    return {
+      id: 'run_1700000000000_abcdefgh',
+      workflowId: workflow.id,
+      workflowVersion: 1,
+      status: 'running',
+      context: { workflow: { id: 'wf', agents: workflow.agents } },
+      startedAt: new Date().toISOString(),
+      steps: workflow.steps.map((s) => ({ stepId: s.id, status: 'pending', retries: 0 })),
+    };
+  }
+
+  it('fails the step on a schema mismatch and shows the errors on the retry', async () => {
+    const outputs = ['{"stories": [{}]}', '{"stories": [{"title": "Login"}]}'];
+    const runner = new StubAgentRunner(() => outputs.shift() ?? '');
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const workflow = makeWorkflow([planStep]);
+    const run = makeRun(workflow);
+
+    const error = await executor.executeStep(planStep, run, workflow).catch((e) => e);
+    expect(error).toBeInstanceOf(StepOutputValidationError);
+    expect(error.errors).toEqual(["/stories/0 must have required property 'title'"]);
+
+    const result = await executor.executeStep(planStep, run, workflow);
+
+    expect(result.output).toEqual({ stories: [{ title: 'Login' }] });
+    const retryPrompt = runner.calls[1].prompt;
+    expect(retryPrompt).toContain('Plan the feature');
+    expect(retryPrompt).toContain('did not match the required output schema "plan_output"');
+    expect(retryPrompt).toContain("- /stories/0 must have required property 'title'");
+    expect(run.context).not.toHaveProperty('_schemaErrors');
+  });
+
+  it('parses YAML or JSON output when a schema is set without a file hint', async () => {
+    const runner = new StubAgentRunner((request: AgentRunRequest) =>
+      request.stepId === 'plan' ? 'stories:\n  - title: Login\n' : ''
+    );
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step = { ...planStep, output: { file: 'plan.md', schema: 'plan_output' } };
+    const workflow = makeWorkflow([step]);
+
+    const result = await executor.executeStep(step, makeRun(workflow), workflow);
+
+    expect(result.output).toEqual({ stories: [{ title: 'Login' }] });
+  });
+});
+
+describe('WorkflowService schema references', () => {
+  let workflowsDir: string;
+
+  beforeEach(async () => {
+    workflowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-schema-wf-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsDir, { recursive: true, force: true });
+  });
+
+  it('rejects steps that reference an unknown schema', async () => {
+    const service = new WorkflowService(workflowsDir);
+    const workflow = makeWorkflow([
+      {
+        id: 'plan',
+        name: 'Plan',
+        type: 'agent',
+        agent: 'planner',
+        output: { file: 'p.json', schema: 'missing' },
+      },
+    ]);
+
+    await expect(service.saveWorkflow(workflow)).rejects.toThrow(
+      'Step plan references unknown schema missing'
+    );
+  });
+
+  it('rejects invalid schema definitions when loading from disk', async () => {
+    await fs.writeFile(
+      path.join(workflowsDir, 'broken.yml'),
+      [
+        'id: broken',
+        'name: Broken',
+        'version: 1',
+        'description: ""',
+        'agents: [{ id: planner, name: Planner, role: planning, description: "" }]',
+        'steps: [{ id: plan, name: Plan, type: agent, agent: planner }]',
+        'schemas: { plan_output: { type: 42 } }',
+      ].join('\n')
+    );
+
+    await expect(new WorkflowService(workflowsDir).loadWorkflow('broken')).rejects.toThrow(
+      'Schema plan_output is not a valid JSON Schema'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { TaskService } from '../../services/task-service.js';
+import { TaskRevisionService, diffTasks } from '../../services/task-revision-service.js';
+
+describe('TaskRevisionService', () => {
+  let testRoot: string;
+  let revisions: TaskRevisionService;
+  let service: TaskService;
+
+  beforeEach(async () => {
+    testRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-revisions-test-'));
+    const tasksDir = path.join(testRoot, 'active');
+    const archiveDir = path.join(testRoot, 'archive');
+    await fs.mkdir(tasksDir, { recursive: true });
+    await fs.mkdir(archiveDir, { recursive: true });
+
+    revisions = new TaskRevisionService({ revisionsDir: path.join(testRoot, 'revisions') });
+    service = new TaskService({ tasksDir, archiveDir, revisionService: revisions });
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await fs.rm(testRoot, { recursive: true, force: true });
+  });
+
+  it('diffs changed fields, ignoring bookkeeping fields', async () => {
+    const task = await service.createTask({ title: 'Diff me', description: 'one' });
+    const changed = { ...task, description: 'two', sprint: 'S1', updated: 'later' };
+
+    expect(diffTasks(task, changed)).toEqual([
+      { field: 'description', before: 'one', after: 'two' },
+      { field: 'sprint', after: 'S1' },
+    ]);
+  });
+
+  it('records each update with its author and changed fields', async () => {
+    const task = await service.createTask({ title: 'Login', description: 'Original spec' });
+
+    await service.updateTask(task.id, { description: 'Rewritten by agent' }, { author: 'amp' });
+    await service.updateTask(task.id, { priority: 'high', title: 'Login v2' });
+    await service.updateTask(task.id, { priority: 'high' }); // no-op, not recorded
+
+    const history = await revisions.listRevisions(task.id);
+    expect(history.map((r) => [r.revision, r.author, r.changes.map((c) => c.field)])).toEqual([
+      [1, 'amp', ['description']],
+      [2, 'system', ['priority', 'title']],
+    ]);
+    expect(history[0].changes[0]).toEqual({
+      field: 'description',
+      before: 'Original spec',
+      after: 'Rewritten by agent',
+    });
+  });
+
+  it('rebuilds restore input for a whole revision or a single field', async () => {
+    const task = await service.createTask({ title: 'Report', description: 'v1' });
+    await service.updateTask(task.id, { description: 'v2', priority: 'high' });
+    await service.updateTask(task.id, { description: 'v3', sprint: 'S2' });
+    await service.updateTask(task.id, { status: 'in-progress' });
+
+    const [first, second] = await revisions.listRevisions(task.id);
+
+    expect(await revisions.getRestoreInput(task.id, first.id)).toEqual({
+      description: 'v2',
+      priority: 'high',
+      sprint: undefined,
+      status: 'todo',
+    });
+    expect(await revisions.getRestoreInput(task.id, second.id, 'description')).toEqual({
+      description: 'v3',
+    });
+    expect(await revisions.getRestoreInput(task.id, 'rev_missing')).toBeNull();
+
+    // Restoring is itself an update, recorded with a link to its source
+    await service.updateTask(
+      task.id,
+      (await revisions.getRestoreInput(task.id, first.id, 'description')) ?? {},
+      { author: 'admin', restoredFrom: first.id }
+    );
+    expect((await service.getTask(task.id))?.description).toBe('v2');
+    expect((await revisions.listRevisions(task.id)).at(-1)).toMatchObject({
+      revision: 4,
+      author: 'admin',
+      restoredFrom: first.id,
+      changes: [{ field: 'description', before: 'v3', after: 'v2' }],
+    });
+  });
+
+  it('leaves non-restorable fields alone and drops history with the task', async () => {
+    const task = await service.createTask({ title: 'Timer' });
+    await service.updateTask(task.id, {
+      timeTracking: { entries: [], totalSeconds: 60, isRunning: false },
+    });
+    const [revision] = await revisions.listRevisions(task.id);
+
+    expect(await revisions.getRestoreInput(task.id, revision.id)).toEqual({});
+
+    await service.deleteTask(task.id);
+    expect(await revisions.listRevisions(task.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { StubAgentRunner, type StubResponder } from '../../services/agent-runners.js';
+import { WorkflowStepExecutor, WorkflowAbortError } from '../../services/workflow-step-executor.js';
+import type {
+  AgentRunResult,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+} from '../../types/workflow.js';
+
+const { loadWorkflow } = vi.hoisted(() => ({ loadWorkflow: vi.fn() }));
+
+vi.mock('../../services/workflow-service.js', () => ({
+  getWorkflowService: () => ({ loadWorkflow }),
+}));
+vi.mock('../../services/broadcast-service.js', () => ({ broadcastWorkflowStatus: vi.fn() }));
+vi.mock('../../services/task-service.js', () => ({
+  getTaskService: () => ({ getTask: vi.fn() }),
+}));
+
+const { WorkflowRunService } = await import('../../services/workflow-run-service.js');
+
+/** Stub runner whose sessions for the given steps never finish on their own */
+class HangingRunner extends StubAgentRunner {
+  constructor(
+    private hangingSteps: string[],
+    responder?: StubResponder
+  ) {
+    super(responder);
+  }
+
+  async wait(sessionKey: string): Promise<AgentRunResult> {
+    const call = this.calls.find((c) => c.sessionKey === sessionKey);
+    if (call && this.hangingSteps.includes(call.request.stepId)) {
+      return new Promise(() => {});
+    }
+    return super.wait(sessionKey);
+  }
+}
+
+function makeWorkflow(steps: WorkflowStep[]): WorkflowDefinition {
+  return { id: 'wf', name: 'WF', version: 1, description: '', agents: [], steps };
+}
+
+function makeRun(workflow: WorkflowDefinition): WorkflowRun {
+  return {
+    id: 'run_1700000000000_abcdefgh',
+    workflowId: workflow.id,
+    workflowVersion: 1,
+    status: 'running',
+    context: { workflow: { id: 'wf', agents: [] } },
+    startedAt: new Date().toISOString(),
+    steps: workflow.steps.map((s) => ({ stepId: s.id, status: 'pending', retries: 0 })),
+  };
+}
+
+function parallelStep(overrides: Partial<NonNullable<WorkflowStep['parallel']>>): WorkflowStep {
+  return {
+    id: 'tests',
+    name: 'Tests',
+    type: 'parallel',
+    parallel: {
+      completion: 'all',
+      steps: [
+        { id: 'unit', agent: 'tester', input: 'Run unit tests' },
+        { id: 'e2e', agent: 'tester', input: 'Run e2e tests' },
+      ],
+      ...overrides,
+    },
+  };
+}
+
+describe('WorkflowStepExecutor aborts', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-cancel-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  it('aborts outstanding sub-steps when the parallel group deadline passes', async () => {
+    const runner = new HangingRunner(['tests-e2e']);
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step = parallelStep({ completion: 'any', timeout: 0.05 });
+    const workflow = makeWorkflow([step]);
+
+    const result = await executor.executeStep(step, makeRun(workflow), workflow);
+
+    expect(result.output).toMatchObject({
+      completed: 1,
+      failed: 1,
+      subSteps: [
+        { id: 'unit', status: 'fulfilled' },
+        { id: 'e2e', status: 'rejected', error: expect.stringContaining('timed out after 0.05s') },
+      ],
+    });
+    const e2eSession = runner.calls.find((c) => c.request.stepId === 'tests-e2e')!.sessionKey;
+    expect(runner.cancelled).toContain(e2eSession);
+    expect(runner.cleanedUp).toContain(e2eSession);
+  });
+
+  it('fails fast once the completion criteria are out of reach', async () => {
+    const runner = new HangingRunner(['tests-e2e'], () => ({ status: 'failed', error: 'red' }));
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step = parallelStep({});
+    const workflow = makeWorkflow([step]);
+
+    const error = await executor.executeStep(step, makeRun(workflow), workflow).catch((e) => e);
+
+    expect(error.message).toContain('completion criteria not met');
+    expect(error.message).toContain('Aborted after sub-step unit failed');
+    expect(runner.cancelled).toHaveLength(1);
+  });
+
+  it('cancels the agent session and rejects with the abort reason', async () => {
+    const runner = new HangingRunner(['build']);
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const step: WorkflowStep = { id: 'build', name: 'Build', type: 'agent', agent: 'dev' };
+    const controller = new AbortController();
+
+    const pending = executor.executeStep(
+      step,
+      makeRun(makeWorkflow([step])),
+      undefined,
+      controller.signal
+    );
+    await vi.waitFor(() => expect(runner.calls).toHaveLength(1));
+    controller.abort(new WorkflowAbortError('cancelled', 'Cancelled: stop'));
+
+    await expect(pending).rejects.toThrow('Cancelled: stop');
+    expect(runner.cancelled).toEqual([runner.calls[0].sessionKey]);
+    expect(runner.cleanedUp).toEqual([runner.calls[0].sessionKey]);
+  });
+});
+
+describe('WorkflowRunService.cancelRun', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-cancel-run-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  const buildStep: WorkflowStep = { id: 'build', name: 'Build', type: 'agent', agent: 'dev' };
+  const shipStep: WorkflowStep = { id: 'ship', name: 'Ship', type: 'agent', agent: 'dev' };
+
+  it('stops a running run and cleans up its sessions', async () => {
+    const runner = new HangingRunner(['build']);
+    const service = new WorkflowRunService(runsDir, new WorkflowStepExecutor(runsDir, runner));
+    loadWorkflow.mockResolvedValue(makeWorkflow([buildStep, shipStep]));
+
+    const started = await service.startRun('wf');
+    await vi.waitFor(() => expect(runner.calls).toHaveLength(1));
+    const cancelled = await service.cancelRun(started.id, 'no longer needed');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.error).toBe('Cancelled: no longer needed');
+    expect(cancelled.steps.map((s) => s.status)).toEqual(['cancelled', 'pending']);
+    expect(runner.cancelled).toEqual([runner.calls[0].sessionKey]);
+    expect(runner.calls).toHaveLength(1);
+
+    await expect(service.cancelRun(started.id)).rejects.toThrow('already finished');
+  });
+
+  it('fails a step that exceeds its timeout through the on_fail policy', async () => {
+    const runner = new HangingRunner(['build']);
+    const service = new WorkflowRunService(runsDir, new WorkflowStepExecutor(runsDir, runner));
+    loadWorkflow.mockResolvedValue(
+      makeWorkflow([{ ...buildStep, timeout: 0.05, on_fail: { escalate_to: 'skip' } }, shipStep])
+    );
+
+    const started = await service.startRun('wf');
+    await vi.waitFor(async () => {
+      expect((await service.getRun(started.id))?.status).toBe('completed');
+    });
+
+    const run = (await service.getRun(started.id))!;
+    expect(run.steps.map((s) => s.status)).toEqual(['skipped', 'completed']);
+    expect(run.steps[0].error).toBe('Step build timed out after 0.05s');
+  });
+});
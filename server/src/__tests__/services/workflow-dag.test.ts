@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { StubAgentRunner } from '../../services/agent-runners.js';
+import { WorkflowStepExecutor } from '../../services/workflow-step-executor.js';
+import { WorkflowService } from '../../services/workflow-service.js';
+import { BudgetExceededError } from '../../middleware/error-handler.js';
+import type {
+  AgentRunRequest,
+  AgentRunResult,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+} from '../../types/workflow.js';
+
+const { loadWorkflow } = vi.hoisted(() => ({ loadWorkflow: vi.fn() }));
+
+vi.mock('../../services/workflow-service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/workflow-service.js')>()),
+  getWorkflowService: () => ({ loadWorkflow }),
+}));
+vi.mock('../../services/broadcast-service.js', () => ({ broadcastWorkflowStatus: vi.fn() }));
+vi.mock('../../services/task-service.js', () => ({
+  getTaskService: () => ({ getTask: vi.fn() }),
+}));
+
+const { WorkflowRunService } = await import('../../services/workflow-run-service.js');
+
+function makeWorkflow(steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    id: 'wf',
+    name: 'WF',
+    version: 1,
+    description: '',
+    agents: [{ id: 'dev', name: 'Dev', role: 'developer', description: '' }],
+    steps,
+  };
+}
+
+function agentStep(id: string, extra: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id, name: id, type: 'agent', agent: 'dev', input: `Do ${id}`, ...extra };
+}
+
+describe('WorkflowRunService DAG scheduling', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-dag-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  async function runToEnd(
+    runner: StubAgentRunner,
+    workflow: WorkflowDefinition
+  ): Promise<WorkflowRun> {
+    const service = new WorkflowRunService(runsDir, new WorkflowStepExecutor(runsDir, runner));
+    loadWorkflow.mockResolvedValue(workflow);
+    const started = await service.startRun(workflow.id);
+    await vi.waitFor(async () => {
+      expect(['completed', 'failed']).toContain((await service.getRun(started.id))?.status);
+    });
+    return (await service.getRun(started.id))!;
+  }
+
+  it('runs independent steps concurrently and joins on depends_on', async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    class GatedRunner extends StubAgentRunner {
+      async wait(sessionKey: string): Promise<AgentRunResult> {
+        if (this.calls.length < 2) await released;
+        return super.wait(sessionKey);
+      }
+    }
+    const runner = new GatedRunner();
+    const service = new WorkflowRunService(runsDir, new WorkflowStepExecutor(runsDir, runner));
+    loadWorkflow.mockResolvedValue(
+      makeWorkflow([
+        agentStep('backend', { depends_on: [] }),
+        agentStep('frontend', { depends_on: [] }),
+        agentStep('integrate', { depends_on: ['backend', 'frontend'] }),
+      ])
+    );
+
+    const started = await service.startRun('wf');
+    // Both roots start before either finishes
+    await vi.waitFor(() => expect(runner.calls).toHaveLength(2));
+    release();
+    await vi.waitFor(async () => {
+      expect((await service.getRun(started.id))?.status).toBe('completed');
+    });
+
+    expect(runner.calls.map((c) => c.request.stepId)).toEqual(['backend', 'frontend', 'integrate']);
+  });
+
+  it('skips steps whose when expression is false and runs their dependents', async () => {
+    const runner = new StubAgentRunner();
+    const run = await runToEnd(
+      runner,
+      makeWorkflow([
+        agentStep('build'),
+        agentStep('migrate', { when: '{{task.needsMigration == true}}' }),
+        agentStep('deploy'),
+      ])
+    );
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.map((s) => s.status)).toEqual(['completed', 'skipped', 'completed']);
+    expect(runner.calls.map((c) => c.request.stepId)).toEqual(['build', 'deploy']);
+  });
+
+  it('routes a failed gate back to an earlier step and re-runs what follows', async () => {
+    let reviews = 0;
+    const runner = new StubAgentRunner((request: AgentRunRequest) => {
+      if (request.stepId !== 'review') return `${request.stepId} done`;
+      reviews++;
+      return JSON.stringify({ approved: reviews > 1 });
+    });
+
+    const run = await runToEnd(
+      runner,
+      makeWorkflow([
+        agentStep('implement'),
+        agentStep('review', { output: { file: 'review.json' } }),
+        {
+          id: 'review-gate',
+          name: 'Review gate',
+          type: 'gate',
+          condition: '{{review.approved == true}}',
+          on_false: { goto: 'implement' },
+        },
+        agentStep('deploy'),
+      ])
+    );
+
+    expect(run.status).toBe('completed');
+    expect(runner.calls.map((c) => c.request.stepId)).toEqual([
+      'implement',
+      'review',
+      'implement',
+      'review',
+      'deploy',
+    ]);
+    expect(run.context._routeVisits).toEqual({ 'review-gate->implement': 1 });
+  });
+
+  it('skips the steps an on_true route jumps over', async () => {
+    const runner = new StubAgentRunner();
+    const run = await runToEnd(
+      runner,
+      makeWorkflow([
+        agentStep('triage'),
+        {
+          id: 'trivial',
+          name: 'Trivial?',
+          type: 'gate',
+          condition: '{{triage}}',
+          on_true: { goto: 'ship' },
+        },
+        agentStep('design'),
+        agentStep('ship'),
+      ])
+    );
+
+    expect(run.steps.map((s) => s.status)).toEqual([
+      'completed',
+      'completed',
+      'skipped',
+      'completed',
+    ]);
+  });
+
+  it('fails the run once a route exceeds max_visits', async () => {
+    const runner = new StubAgentRunner();
+    const run = await runToEnd(
+      runner,
+      makeWorkflow([
+        agentStep('implement'),
+        {
+          id: 'gate',
+          name: 'Gate',
+          type: 'gate',
+          condition: '{{missing}}',
+          on_false: { goto: 'implement', max_visits: 2 },
+        },
+      ])
+    );
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Gate gate routed to implement 2 times — giving up');
+    expect(runner.calls).toHaveLength(3);
+  });
+
+  it('pauses before a step when a budget is exhausted and resumes once overridden', async () => {
+    const runner = new StubAgentRunner();
+    let exhausted = true;
+    const enforce = vi.fn(async () => {
+      if (exhausted) {
+        throw new BudgetExceededError('Budget exhausted', { overrideIds: ['override_1'] });
+      }
+    });
+    const service = new WorkflowRunService(runsDir, new WorkflowStepExecutor(runsDir, runner), {
+      budget: { enforce },
+    });
+    loadWorkflow.mockResolvedValue(makeWorkflow([agentStep('build'), agentStep('ship')]));
+
+    const started = await service.startRun('wf');
+    await vi.waitFor(async () => {
+      expect((await service.getRun(started.id))?.status).toBe('blocked');
+    });
+    const paused = (await service.getRun(started.id))!;
+    expect(paused.steps[0].status).toBe('pending');
+    expect(paused.context._budgetHold).toEqual({ stepId: 'build', overrideIds: ['override_1'] });
+    expect(runner.calls).toHaveLength(0);
+    expect(enforce).toHaveBeenCalledWith({ project: undefined, agent: 'dev' }, 'workflow.step', {
+      taskId: undefined,
+      requestedBy: 'dev',
+    });
+
+    expect(await service.resumeBudgetHolds('override_2')).toEqual([]);
+    exhausted = false;
+    expect((await service.resumeBudgetHolds('override_1')).map((r) => r.id)).toEqual([started.id]);
+    await vi.waitFor(async () => {
+      expect((await service.getRun(started.id))?.status).toBe('completed');
+    });
+    expect(runner.calls.map((c) => c.request.stepId)).toEqual(['build', 'ship']);
+    const finished = (await service.getRun(started.id))!;
+    expect(finished.error).toBeUndefined();
+    expect(finished.context).not.toHaveProperty('_budgetHold');
+  });
+});
+
+describe('WorkflowService dependency validation', () => {
+  let workflowsDir: string;
+  let service: WorkflowService;
+
+  beforeEach(async () => {
+    workflowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-dag-wf-test-'));
+    service = new WorkflowService(workflowsDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsDir, { recursive: true, force: true });
+  });
+
+  it('rejects unknown and self dependencies', async () => {
+    await expect(
+      service.saveWorkflow(makeWorkflow([agentStep('a', { depends_on: ['nope'] })]))
+    ).rejects.toThrow('Step a depends_on references unknown step nope');
+    await expect(
+      service.saveWorkflow(makeWorkflow([agentStep('a', { depends_on: ['a'] })]))
+    ).rejects.toThrow('Step a cannot depend on itself');
+  });
+
+  it('rejects dependency cycles', async () => {
+    const workflow = makeWorkflow([
+      agentStep('a', { depends_on: ['c'] }),
+      agentStep('b', { depends_on: ['a'] }),
+      agentStep('c', { depends_on: ['b'] }),
+    ]);
+
+    await expect(service.saveWorkflow(workflow)).rejects.toThrow(
+      'Step dependency cycle: a -> c -> b -> a'
+    );
+  });
+
+  it('rejects steps every gate outcome routes around', async () => {
+    const workflow = makeWorkflow([
+      agentStep('implement'),
+      {
+        id: 'gate',
+        name: 'Gate',
+        type: 'gate',
+        condition: '{{implement}}',
+        on_true: { goto: 'ship' },
+        on_false: { goto: 'implement' },
+      },
+      agentStep('polish'),
+      agentStep('ship'),
+    ]);
+
+    await expect(service.saveWorkflow(workflow)).rejects.toThrow(
+      'Step polish is unreachable: every outcome of gate gate routes around it'
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { StubAgentRunner } from '../../services/agent-runners.js';
+import {
+  WorkflowStepExecutor,
+  LoopVerificationError,
+} from '../../services/workflow-step-executor.js';
+import type {
+  AgentRunRequest,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+} from '../../types/workflow.js';
+
+describe('WorkflowStepExecutor loop verification', () => {
+  let runsDir: string;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-loop-verify-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  function loopStep(overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+    return {
+      id: 'implement',
+      name: 'Implement',
+      type: 'loop',
+      agent: 'developer',
+      input: 'Implement {{story}} (attempt {{loop.attempt}})',
+      loop: {
+        over: '{{stories}}',
+        item_var: 'story',
+        completion: 'all_done',
+        verify_each: true,
+        verify_step: 'verify',
+      },
+      ...overrides,
+    };
+  }
+
+  const verifyAgentStep: WorkflowStep = {
+    id: 'verify',
+    name: 'Verify',
+    type: 'agent',
+    agent: 'verifier',
+    input: 'Check {{story}}: {{implement.output}}',
+  };
+
+  function makeWorkflow(steps: WorkflowStep[]): WorkflowDefinition {
+    return { id: 'wf', name: 'WF', version: 1, description: '', agents: [], steps };
+  }
+
+  function makeRun(workflow: WorkflowDefinition): WorkflowRun {
+    return {
+      id: 'run_1700000000000_abcdefgh',
+      workflowId: workflow.id,
+      workflowVersion: 1,
+      status: 'running',
+      context: { stories: ['login', 'logout'], workflow: { id: 'wf', agents: [] } },
+      startedAt: new Date().toISOString(),
+      steps: workflow.steps.map((s) => ({ stepId: s.id, status: 'pending', retries: 0 })),
+    };
+  }
+
+  it('runs the verify step after each iteration with the iteration output', async () => {
+    const runner = new StubAgentRunner((request: AgentRunRequest) =>
+      request.stepId === 'verify' ? 'DECISION: approved' : `built ${request.prompt}`
+    );
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const workflow = makeWorkflow([loopStep(), verifyAgentStep]);
+    const run = makeRun(workflow);
+
+    await executor.executeStep(workflow.steps[0], run, workflow);
+
+    const verifyPrompts = runner.calls
+      .filter((c) => c.request.stepId === 'verify')
+      .map((c) => c.prompt);
+    expect(verifyPrompts).toEqual([
+      'Check login: built Implement login (attempt 1)',
+      'Check logout: built Implement logout (attempt 1)',
+    ]);
+
+    const loopState = run.steps[0].loopState!;
+    expect(loopState.completedIterations).toBe(2);
+    expect(loopState.verifyResults).toMatchObject([
+      { iteration: 1, attempt: 1, passed: true, decision: 'approved' },
+      { iteration: 2, attempt: 1, passed: true, decision: 'approved' },
+    ]);
+    expect(run.steps[1].status).toBe('completed');
+    await expect(fs.access(loopState.verifyResults![1].output!)).resolves.toBeUndefined();
+  });
+
+  it('retries an iteration that fails verification per on_fail.retry', async () => {
+    let verifications = 0;
+    const runner = new StubAgentRunner((request: AgentRunRequest) => {
+      if (request.stepId !== 'verify') return `built ${request.prompt}`;
+      verifications++;
+      return verifications === 1 ? 'DECISION: rejected\nMissing tests' : 'DECISION: approved';
+    });
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const workflow = makeWorkflow([loopStep({ on_fail: { retry: 1 } }), verifyAgentStep]);
+    const run = makeRun(workflow);
+
+    await executor.executeStep(workflow.steps[0], run, workflow);
+
+    const implementPrompts = runner.calls
+      .filter((c) => c.request.stepId === 'implement')
+      .map((c) => c.prompt);
+    expect(implementPrompts).toEqual([
+      'Implement login (attempt 1)',
+      'Implement login (attempt 2)',
+      'Implement logout (attempt 1)',
+    ]);
+    expect(run.steps[0].loopState!.verifyResults).toMatchObject([
+      { iteration: 1, attempt: 1, passed: false, decision: 'rejected' },
+      { iteration: 1, attempt: 2, passed: true },
+      { iteration: 2, attempt: 1, passed: true },
+    ]);
+  });
+
+  it('fails the loop once verification retries are exhausted', async () => {
+    const runner = new StubAgentRunner((request: AgentRunRequest) =>
+      request.stepId === 'verify' ? { status: 'failed', error: 'tests red' } : 'built'
+    );
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const workflow = makeWorkflow([loopStep({ on_fail: { retry: 1 } }), verifyAgentStep]);
+    const run = makeRun(workflow);
+
+    const error = await executor.executeStep(workflow.steps[0], run, workflow).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LoopVerificationError);
+    expect(error.message).toContain('iteration 1 of implement');
+    expect(error.message).toContain('tests red');
+    expect(run.steps[0].loopState!.verifyResults).toHaveLength(2);
+    expect(run.steps[1].status).toBe('failed');
+  });
+
+  it('supports gate verify steps evaluated against the iteration output', async () => {
+    const runner = new StubAgentRunner((request: AgentRunRequest) =>
+      request.prompt.includes('logout') ? '{"ok": false}' : '{"ok": true}'
+    );
+    const executor = new WorkflowStepExecutor(runsDir, runner);
+    const workflow = makeWorkflow([
+      loopStep({
+        output: { file: 'implement-{{loop.index}}.json' },
+        loop: { ...loopStep().loop!, completion: 'any_done', continue_on_error: true },
+      }),
+      { id: 'verify', name: 'Check', type: 'gate', condition: '{{implement.output.ok == true}}' },
+    ]);
+    const run = makeRun(workflow);
+
+    await executor.executeStep(workflow.steps[0], run, workflow);
+
+    const loopState = run.steps[0].loopState!;
+    expect(loopState.verifyResults!.map((r) => r.passed)).toEqual([true, false]);
+    expect(loopState.completedIterations).toBe(1);
+    expect(loopState.failedIterations).toBe(1);
+  });
+
+  it('requires the workflow definition to resolve the verify step', async () => {
+    const executor = new WorkflowStepExecutor(runsDir, new StubAgentRunner());
+    const workflow = makeWorkflow([loopStep(), verifyAgentStep]);
+
+    await expect(executor.executeStep(workflow.steps[0], makeRun(workflow))).rejects.toThrow(
+      'needs the workflow definition'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { WorkflowDefinition } from '../../types/workflow.js';
+
+const { loadWorkflow } = vi.hoisted(() => ({ loadWorkflow: vi.fn() }));
+
+vi.mock('../../services/workflow-service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/workflow-service.js')>()),
+  getWorkflowService: () => ({ loadWorkflow }),
+}));
+vi.mock('../../services/broadcast-service.js', () => ({ broadcastWorkflowStatus: vi.fn() }));
+vi.mock('../../services/task-service.js', () => ({
+  getTaskService: () => ({ getTask: vi.fn() }),
+}));
+
+const { WorkflowRunService } = await import('../../services/workflow-run-service.js');
+const { broadcastWorkflowStatus } = await import('../../services/broadcast-service.js');
+
+const workflow: WorkflowDefinition = {
+  id: 'feature-dev',
+  name: 'Feature Dev',
+  version: 3,
+  description: '',
+  agents: [
+    { id: 'dev', name: 'Dev', role: 'developer', description: '' },
+    { id: 'qa', name: 'QA', role: 'reviewer', description: '' },
+  ],
+  steps: [
+    {
+      id: 'implement',
+      name: 'Implement',
+      type: 'loop',
+      agent: 'dev',
+      input: 'Implement {{story}} for {{feature}}',
+      loop: { over: '{{stories}}', item_var: 'story', completion: 'all_done' },
+    },
+    {
+      id: 'review',
+      name: 'Review',
+      type: 'agent',
+      agent: 'qa',
+      input: 'Review {{feature}}',
+      session: { mode: 'fresh', context: 'full', cleanup: 'delete', timeout: 60 },
+      output: { file: 'review.json' },
+    },
+    {
+      id: 'review-gate',
+      name: 'Review gate',
+      type: 'gate',
+      condition: '{{review.approved == true}}',
+      on_false: { goto: 'review' },
+    },
+  ],
+};
+
+describe('WorkflowRunService simulation', () => {
+  let runsDir: string;
+  let service: InstanceType<typeof WorkflowRunService>;
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-simulation-test-'));
+    service = new WorkflowRunService(runsDir);
+    loadWorkflow.mockResolvedValue(workflow);
+  });
+
+  afterEach(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  it('reports prompts, gates, loops and the final context', async () => {
+    const simulation = await service.simulateRun('feature-dev', {
+      context: { feature: 'dark mode', stories: ['toggle', 'theme'] },
+      outputs: { review: ['{"approved": false}', '{"approved": true}'] },
+    });
+
+    expect(simulation.status).toBe('completed');
+    expect(simulation.workflowVersion).toBe(3);
+    expect(simulation.prompts.map((p) => [p.stepId, p.prompt])).toEqual([
+      ['implement', 'Implement toggle for dark mode'],
+      ['implement', 'Implement theme for dark mode'],
+      ['review', 'Review dark mode'],
+      ['review', 'Review dark mode'],
+    ]);
+    expect(simulation.gates).toEqual([
+      { stepId: 'review-gate', condition: '{{review.approved == true}}', passed: true },
+    ]);
+    expect(simulation.loops).toEqual([
+      { stepId: 'implement', iterations: 2, completed: 2, failed: 0 },
+    ]);
+    expect(simulation.context.review).toEqual({ approved: true });
+    expect(simulation.context._routeVisits).toEqual({ 'review-gate->review': 1 });
+  });
+
+  it('writes nothing to the runs directory and broadcasts nothing', async () => {
+    await service.simulateRun('feature-dev', {
+      context: { feature: 'dark mode', stories: ['toggle'] },
+      outputs: { review: '{"approved": true}' },
+    });
+
+    expect(await fs.readdir(runsDir)).toEqual([]);
+    expect(broadcastWorkflowStatus).not.toHaveBeenCalled();
+  });
+
+  it('reports a gate that fails the run', async () => {
+    const simulation = await service.simulateRun('feature-dev', {
+      context: { stories: [] },
+      outputs: { review: '{"approved": false}' },
+    });
+
+    expect(simulation.status).toBe('failed');
+    expect(simulation.error).toContain('routed to review 10 times');
+    expect(simulation.gates[0]).toMatchObject({ stepId: 'review-gate', passed: false });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Task } from '@veritas-kanban/shared';
+import {
+  WorkflowTriggerService,
+  getLifecycleEvents,
+} from '../../services/workflow-trigger-service.js';
+import { WorkflowService } from '../../services/workflow-service.js';
+import type { WorkflowDefinition, WorkflowRun, WorkflowTrigger } from '../../types/workflow.js';
+
+function makeWorkflow(id: string, triggers: WorkflowTrigger[]): WorkflowDefinition {
+  return {
+    id,
+    name: id,
+    version: 1,
+    description: '',
+    agents: [{ id: 'dev', name: 'Dev', role: 'developer', description: '' }],
+    steps: [{ id: 'triage', name: 'Triage', type: 'agent', agent: 'dev' }],
+    triggers,
+  };
+}
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task_20260301_abc123',
+    title: 'Checkout crashes',
+    description: '',
+    type: 'bug',
+    status: 'todo',
+    priority: 'high',
+    project: 'checkout',
+    created: '2026-03-01T00:00:00.000Z',
+    updated: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  } as Task;
+}
+
+describe('getLifecycleEvents', () => {
+  it('maps task changes to lifecycle events', () => {
+    const task = makeTask();
+
+    expect(getLifecycleEvents(undefined, task)).toEqual(['task.created']);
+    expect(getLifecycleEvents(task, { ...task, status: 'in-progress', agent: 'amp' })).toEqual([
+      'task.started',
+      'task.assigned',
+    ]);
+    expect(getLifecycleEvents(task, { ...task, title: 'Renamed' })).toEqual([]);
+  });
+});
+
+describe('WorkflowTriggerService', () => {
+  let workflows: WorkflowDefinition[];
+  let runs: WorkflowRun[];
+  let startRun: ReturnType<typeof vi.fn>;
+  let service: WorkflowTriggerService;
+
+  beforeEach(() => {
+    workflows = [];
+    runs = [];
+    startRun = vi.fn(async (workflowId: string, taskId?: string) => {
+      const run = { id: `run_${runs.length + 1}`, workflowId, taskId, status: 'running' };
+      runs.push(run as WorkflowRun);
+      return run as WorkflowRun;
+    });
+    service = new WorkflowTriggerService({
+      workflowService: {
+        listWorkflows: async () => workflows,
+        loadWorkflow: async (id: string) => workflows.find((w) => w.id === id) ?? null,
+      },
+      workflowRunService: {
+        startRun,
+        getRun: async (id: string) => runs.find((r) => r.id === id) ?? null,
+        listRunsMetadata: async (filters) =>
+          runs.filter((r) => r.workflowId === filters?.workflowId && r.taskId === filters?.taskId),
+      },
+    });
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('starts a run bound to a created task that matches the filter', async () => {
+    workflows = [
+      makeWorkflow('bug-triage', [
+        {
+          id: 'new-bugs',
+          type: 'event',
+          event: 'task.created',
+          filter: { task_types: ['bug'], projects: ['checkout'] },
+        },
+      ]),
+    ];
+
+    await service.handleTaskChange(undefined, makeTask({ project: 'billing' }));
+    expect(startRun).not.toHaveBeenCalled();
+
+    const started = await service.handleTaskChange(undefined, makeTask());
+
+    expect(started).toHaveLength(1);
+    expect(startRun).toHaveBeenCalledWith(
+      'bug-triage',
+      'task_20260301_abc123',
+      { trigger: { id: 'new-bugs', type: 'event', event: 'task.created', payload: undefined } },
+      expect.objectContaining({ id: 'new-bugs', type: 'event', event: 'task.created' })
+    );
+  });
+
+  it('matches status transitions on from and to', async () => {
+    workflows = [
+      makeWorkflow('review', [
+        { id: 'to-review', type: 'status', from: ['in-progress'], to: ['done'] },
+      ]),
+    ];
+    const task = makeTask();
+
+    await service.handleTaskChange(task, { ...task, status: 'done' });
+    expect(startRun).not.toHaveBeenCalled();
+
+    await service.handleTaskChange({ ...task, status: 'in-progress' }, { ...task, status: 'done' });
+    expect(startRun.mock.calls[0][3]).toMatchObject({ event: 'in-progress -> done' });
+  });
+
+  it('does not start a second active run for the same task', async () => {
+    workflows = [
+      makeWorkflow('bug-triage', [
+        { id: 'created', type: 'event', event: 'task.created' },
+        { id: 'assigned', type: 'event', event: 'task.assigned' },
+      ]),
+    ];
+    const task = makeTask();
+
+    // Concurrent events for one task start a single run
+    await Promise.all([
+      service.handleTaskChange(undefined, task),
+      service.handleTaskChange(undefined, task),
+    ]);
+    await service.handleTaskChange(task, { ...task, agent: 'amp' });
+    expect(startRun).toHaveBeenCalledTimes(1);
+
+    runs[0].status = 'completed';
+    await service.handleTaskChange(task, { ...task, agent: 'copilot' });
+    expect(startRun).toHaveBeenCalledTimes(2);
+  });
+
+  it('fires schedules when due and skips while the previous run is active', async () => {
+    workflows = [makeWorkflow('nightly', [{ id: 'nightly', type: 'schedule', cron: '0 2 * * *' }])];
+
+    await service.tick(new Date('2026-03-01T12:00:00Z'));
+    await service.tick(new Date('2026-03-02T01:59:00Z'));
+    expect(startRun).not.toHaveBeenCalled();
+
+    await service.tick(new Date('2026-03-02T02:00:30Z'));
+    expect(startRun).toHaveBeenCalledTimes(1);
+    expect(startRun.mock.calls[0][2]).toEqual({
+      trigger: { id: 'nightly', type: 'schedule', scheduledFor: '2026-03-02T02:00:00.000Z' },
+    });
+
+    await service.tick(new Date('2026-03-03T02:00:30Z'));
+    expect(startRun).toHaveBeenCalledTimes(1);
+
+    runs[0].status = 'completed';
+    await service.tick(new Date('2026-03-04T02:00:30Z'));
+    expect(startRun).toHaveBeenCalledTimes(2);
+  });
+
+  it('fires webhook triggers with their payload', async () => {
+    workflows = [makeWorkflow('alerts', [{ id: 'sentry', type: 'webhook' }])];
+
+    const result = await service.fireWebhook('alerts', 'sentry', { payload: { issue: 'crash' } });
+
+    expect(result.run?.id).toBe('run_1');
+    expect(startRun.mock.calls[0][2]).toEqual({
+      trigger: { id: 'sentry', type: 'webhook', event: 'webhook', payload: { issue: 'crash' } },
+    });
+    await expect(service.fireWebhook('alerts', 'nope')).rejects.toThrow(
+      'has no enabled webhook trigger nope'
+    );
+  });
+});
+
+describe('WorkflowService trigger validation', () => {
+  let workflowsDir: string;
+  let service: WorkflowService;
+
+  beforeEach(async () => {
+    workflowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-triggers-wf-test-'));
+    service = new WorkflowService(workflowsDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsDir, { recursive: true, force: true });
+  });
+
+  it('rejects unknown events and invalid schedules', async () => {
+    await expect(
+      service.saveWorkflow(
+        makeWorkflow('wf', [{ id: 't', type: 'event', event: 'task.exploded' as 'task.done' }])
+      )
+    ).rejects.toThrow('Trigger t must set event to one of');
+    await expect(
+      service.saveWorkflow(makeWorkflow('wf', [{ id: 't', type: 'schedule', cron: '61 * * * *' }]))
+    ).rejects.toThrow('Trigger t has an invalid schedule');
+    await expect(
+      service.saveWorkflow(makeWorkflow('wf', [{ id: 't', type: 'status' }]))
+    ).rejects.toThrow('Trigger t must list the statuses in "to"');
+  });
+});
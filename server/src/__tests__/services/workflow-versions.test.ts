@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import yaml from 'yaml';
+import { WorkflowService } from '../../services/workflow-service.js';
+import { diffWorkflows } from '../../utils/workflow-diff.js';
+import type { WorkflowDefinition, WorkflowStep } from '../../types/workflow.js';
+
+function makeWorkflow(version: number, steps: WorkflowStep[]): WorkflowDefinition {
+  return {
+    id: 'feature-dev',
+    name: 'Feature Dev',
+    version,
+    description: '',
+    agents: [{ id: 'dev', name: 'Dev', role: 'developer', description: '' }],
+    steps,
+  };
+}
+
+const implement: WorkflowStep = { id: 'implement', name: 'Implement', type: 'agent', agent: 'dev' };
+const review: WorkflowStep = { id: 'review', name: 'Review', type: 'agent', agent: 'dev' };
+
+describe('WorkflowService versions', () => {
+  let workflowsDir: string;
+  let service: WorkflowService;
+
+  beforeEach(async () => {
+    workflowsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-versions-test-'));
+    service = new WorkflowService(workflowsDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workflowsDir, { recursive: true, force: true });
+  });
+
+  it('keeps every saved version and refuses to overwrite one', async () => {
+    await service.saveWorkflow(makeWorkflow(1, [implement]));
+    await service.saveWorkflow(makeWorkflow(2, [implement, review]));
+
+    expect((await service.loadWorkflowVersion('feature-dev', 1))?.steps).toHaveLength(1);
+    expect((await service.loadWorkflowVersion('feature-dev', 2))?.steps).toHaveLength(2);
+    expect(await service.loadWorkflowVersion('feature-dev', 3)).toBeNull();
+
+    await expect(service.saveWorkflow(makeWorkflow(2, [review]))).rejects.toThrow(
+      'version 2 already exists with different content'
+    );
+  });
+
+  it('snapshots a pre-versioning definition before replacing it', async () => {
+    await fs.writeFile(
+      path.join(workflowsDir, 'feature-dev.yml'),
+      yaml.stringify(makeWorkflow(4, [implement]))
+    );
+
+    await service.saveWorkflow(makeWorkflow(5, [implement, review]));
+
+    expect((await service.loadWorkflowVersion('feature-dev', 4))?.steps).toEqual([implement]);
+  });
+
+  it('lists versions with their audit records and rolls back as a new version', async () => {
+    await service.saveWorkflow(makeWorkflow(1, [implement]));
+    await service.auditChange({
+      timestamp: '2026-03-01T10:00:00.000Z',
+      userId: 'alice',
+      action: 'create',
+      workflowId: 'feature-dev',
+      workflowVersion: 1,
+    });
+    await service.saveWorkflow(makeWorkflow(2, [implement, review]));
+
+    const rollback = await service.rollbackWorkflow('feature-dev', 1);
+
+    expect(rollback?.workflow.version).toBe(3);
+    expect((await service.loadWorkflow('feature-dev'))?.steps).toEqual([implement]);
+    expect(await service.listVersions('feature-dev')).toEqual([
+      expect.objectContaining({ version: 3, current: true }),
+      expect.objectContaining({ version: 2, current: false }),
+      expect.objectContaining({ version: 1, savedBy: 'alice', action: 'create' }),
+    ]);
+    await expect(service.rollbackWorkflow('feature-dev', 3)).rejects.toThrow(
+      'already the current version'
+    );
+  });
+});
+
+describe('diffWorkflows', () => {
+  it('reports step changes per step ID', () => {
+    const changes = diffWorkflows(
+      makeWorkflow(1, [implement, review]),
+      makeWorkflow(2, [
+        { ...implement, input: 'Build it' },
+        { ...review, id: 'qa' },
+      ])
+    );
+
+    expect(changes.map((c) => c.field)).toEqual([
+      'version',
+      'steps.implement',
+      'steps.review',
+      'steps.qa',
+    ]);
+    expect(changes[2]).toMatchObject({ oldValue: review, newValue: null });
+  });
+});
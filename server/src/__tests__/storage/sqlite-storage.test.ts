@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Task, ManagedListItem, TelemetryEvent } from '@veritas-kanban/shared';
+import { SqliteStorageProvider } from '../../storage/sqlite-storage.js';
+import { FileStorageProvider } from '../../storage/file-storage.js';
+import { copyStorage } from '../../storage/migrate.js';
+import { initStorage, getStorage, shutdownStorage } from '../../storage/index.js';
+import { TaskService } from '../../services/task-service.js';
+import { TelemetryService } from '../../services/telemetry-service.js';
+import { ManagedListService } from '../../services/managed-list-service.js';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  const now = new Date().toISOString();
+  return {
+    id: `task_20260129_${Math.random().toString(36).slice(2, 8)}`,
+    title: 'Test Task',
+    description: 'A test task description',
+    type: 'code',
+    status: 'todo',
+    priority: 'medium',
+    created: now,
+    updated: now,
+    ...overrides,
+  };
+}
+
+function listConfig(filename: string, defaults: ManagedListItem[] = []) {
+  return { filename, configDir: '/unused', defaults };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('SqliteStorageProvider', () => {
+  let provider: SqliteStorageProvider;
+
+  beforeEach(async () => {
+    provider = new SqliteStorageProvider({ dbPath: ':memory:' });
+    await provider.initialize();
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+  });
+
+  describe('TaskRepository', () => {
+    it('creates, reads, updates and deletes tasks', async () => {
+      const created = await provider.tasks.create(makeTask({ id: '', title: 'New' }));
+      expect(created.id).toMatch(/^task_\d{8}_/);
+
+      const updated = await provider.tasks.update(created.id, { status: 'in-progress' });
+      expect(updated.status).toBe('in-progress');
+      expect((await provider.tasks.findById(created.id))?.status).toBe('in-progress');
+
+      await provider.tasks.delete(created.id);
+      expect(await provider.tasks.findById(created.id)).toBeNull();
+      await expect(provider.tasks.delete(created.id)).rejects.toThrow('Task not found');
+    });
+
+    it('keeps archived tasks out of findAll', async () => {
+      await provider.tasks.import(makeTask({ id: 'task_active' }));
+      await provider.tasks.import(makeTask({ id: 'task_old' }), { archived: true });
+
+      expect((await provider.tasks.findAll()).map((t) => t.id)).toEqual(['task_active']);
+      expect((await provider.tasks.findArchived()).map((t) => t.id)).toEqual(['task_old']);
+    });
+
+    it('ranks title matches above description and comment matches', async () => {
+      await provider.tasks.import(
+        makeTask({
+          id: 'task_comment',
+          title: 'Unrelated',
+          description: 'Nothing here',
+          comments: [
+            { id: 'c1', author: 'a', text: 'database migration', timestamp: '2026-01-01' },
+          ],
+        })
+      );
+      await provider.tasks.import(
+        makeTask({ id: 'task_desc', title: 'Cleanup', description: 'Run the database migration' })
+      );
+      await provider.tasks.import(
+        makeTask({ id: 'task_title', title: 'Database migration', description: 'Do it' })
+      );
+
+      const results = await provider.tasks.search('database migr');
+      expect(results.map((t) => t.id)).toEqual(['task_title', 'task_desc', 'task_comment']);
+    });
+
+    it('matches task IDs and ignores archived tasks in search', async () => {
+      await provider.tasks.import(makeTask({ id: 'task_20260101_abc123', title: 'Alpha' }));
+      await provider.tasks.import(makeTask({ id: 'task_archived', title: 'Alpha' }), {
+        archived: true,
+      });
+
+      expect((await provider.tasks.search('abc123')).map((t) => t.id)).toEqual([
+        'task_20260101_abc123',
+      ]);
+      expect((await provider.tasks.search('alpha')).map((t) => t.id)).toEqual([
+        'task_20260101_abc123',
+      ]);
+    });
+
+    it('reindexes tasks on update', async () => {
+      const task = await provider.tasks.create(makeTask({ title: 'Old name' }));
+      await provider.tasks.update(task.id, { title: 'Shiny name' });
+
+      expect(await provider.tasks.search('old')).toEqual([]);
+      expect((await provider.tasks.search('shiny')).map((t) => t.id)).toEqual([task.id]);
+    });
+  });
+
+  describe('SettingsRepository', () => {
+    it('fills defaults and deep-merges patches', async () => {
+      const defaults = await provider.settings.get();
+      expect(defaults.board).toBeDefined();
+
+      const updated = await provider.settings.update({
+        board: { ...defaults.board, showDashboard: false },
+      });
+      expect(updated.board.showDashboard).toBe(false);
+      expect((await provider.settings.get()).board.showDashboard).toBe(false);
+    });
+  });
+
+  describe('ActivityRepository', () => {
+    it('returns activities newest-first', async () => {
+      await provider.activities.logActivity('task_created', 't1', 'First');
+      await provider.activities.logActivity('task_updated', 't1', 'First', undefined, 'codex');
+
+      const activities = await provider.activities.getActivities();
+      expect(activities.map((a) => a.type)).toEqual(['task_updated', 'task_created']);
+      expect(activities[0].agent).toBe('codex');
+    });
+  });
+
+  describe('StatusHistoryRepository', () => {
+    it('records durations and summarises a day', async () => {
+      await provider.statusHistory.logStatusChange('idle', 'working', 't1');
+      const second = await provider.statusHistory.logStatusChange('working', 'idle');
+
+      expect(second.durationMs).toBeGreaterThanOrEqual(0);
+      const summary = await provider.statusHistory.getDailySummary();
+      expect(summary.transitions).toBe(2);
+    });
+  });
+
+  describe('ManagedListRepository', () => {
+    it('seeds defaults once and supports create/reorder/delete', async () => {
+      const now = new Date().toISOString();
+      const defaults = [{ id: 'default', label: 'Default', order: 0, created: now, updated: now }];
+      const list = provider.managedLists.create(listConfig('projects.json', defaults));
+
+      const created = await list.create({ label: 'My Project' });
+      expect(created.id).toMatch(/^my-project-/);
+      expect(created.order).toBe(1);
+
+      await list.delete('default');
+      // Re-creating the repository must not re-seed deleted defaults
+      const again = provider.managedLists.create(listConfig('projects.json', defaults));
+      expect((await again.list()).map((i) => i.id)).toEqual([created.id]);
+
+      await again.create({ id: 'second', label: 'Second' });
+      const reordered = await again.reorder(['second', created.id]);
+      expect(reordered.map((i) => i.id)).toEqual(['second', created.id]);
+    });
+  });
+
+  describe('TelemetryRepository', () => {
+    it('filters, counts and groups events', async () => {
+      await provider.telemetry.emit<TelemetryEvent>({ type: 'run.started', taskId: 't1' });
+      await provider.telemetry.emit<TelemetryEvent>({ type: 'run.completed', taskId: 't1' });
+      await provider.telemetry.emit<TelemetryEvent>({ type: 'run.started', taskId: 't2' });
+
+      expect(await provider.telemetry.countEvents('run.started')).toBe(2);
+      expect(await provider.telemetry.getEvents({ taskId: 't1', limit: 1 })).toHaveLength(1);
+
+      const bulk = await provider.telemetry.getBulkTaskEvents(['t1', 't2', 't3']);
+      expect(bulk.get('t1')).toHaveLength(2);
+      expect(bulk.get('t3')).toEqual([]);
+    });
+
+    it('drops events older than the retention period on init', async () => {
+      await provider.telemetry.importEvents([
+        { id: 'evt_old', type: 'run.started', timestamp: '2000-01-01T00:00:00.000Z' },
+      ]);
+      await provider.telemetry.init();
+      expect(await provider.telemetry.getEvents()).toEqual([]);
+    });
+  });
+});
+
+describe('SQLite storage persistence and registry', () => {
+  let testRoot: string;
+
+  beforeEach(async () => {
+    testRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-sqlite-test-'));
+  });
+
+  afterEach(async () => {
+    await shutdownStorage();
+    await fs.rm(testRoot, { recursive: true, force: true });
+  });
+
+  it('persists data across connections', async () => {
+    const dbPath = path.join(testRoot, 'nested', 'veritas.db');
+    const first = new SqliteStorageProvider({ dbPath });
+    await first.initialize();
+    await first.tasks.import(makeTask({ id: 'task_persisted', title: 'Persisted' }));
+    await first.shutdown();
+
+    const second = new SqliteStorageProvider({ dbPath });
+    await second.initialize();
+    expect((await second.tasks.search('persisted')).map((t) => t.id)).toEqual(['task_persisted']);
+    await second.shutdown();
+  });
+
+  it('can be selected through initStorage', async () => {
+    await initStorage('sqlite', { dbPath: path.join(testRoot, 'veritas.db') });
+    expect(getStorage()).toBeInstanceOf(SqliteStorageProvider);
+  });
+});
+
+describe('VERITAS_STORAGE=sqlite boot path', () => {
+  let testRoot: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    testRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-sqlite-boot-'));
+    dbPath = path.join(testRoot, 'veritas.db');
+    vi.stubEnv('VERITAS_STORAGE', 'sqlite');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await shutdownStorage();
+    await fs.rm(testRoot, { recursive: true, force: true });
+  });
+
+  // Services are created at import time, before startup opens the database
+  function createServices() {
+    const telemetry = new TelemetryService({ telemetryDir: path.join(testRoot, 'telemetry') });
+    const tasks = new TaskService({
+      tasksDir: path.join(testRoot, 'tasks', 'active'),
+      archiveDir: path.join(testRoot, 'tasks', 'archive'),
+      telemetryService: telemetry,
+      revisionService: {
+        recordRevision: vi.fn().mockResolvedValue(undefined),
+        deleteRevisions: vi.fn().mockResolvedValue(undefined),
+      },
+    });
+    const projects = new ManagedListService<ManagedListItem>({
+      filename: 'projects.json',
+      configDir: path.join(testRoot, 'config'),
+      defaults: [],
+    });
+    return { telemetry, tasks, projects };
+  }
+
+  it('serves tasks from the database once startup opens it', async () => {
+    const seed = new SqliteStorageProvider({ dbPath });
+    await seed.initialize();
+    await seed.tasks.import(makeTask({ id: 'task_seeded', title: 'Seeded' }));
+    await seed.shutdown();
+
+    const { tasks } = createServices();
+    const listing = tasks.listTasks();
+    await initStorage('sqlite', { dbPath });
+
+    expect((await listing).map((t) => t.id)).toEqual(['task_seeded']);
+    expect(await fs.readdir(path.join(testRoot, 'tasks', 'active'))).toEqual([]);
+    tasks.dispose();
+  });
+
+  it('writes tasks, telemetry and managed lists through the provider', async () => {
+    await initStorage('sqlite', { dbPath });
+    const { telemetry, tasks, projects } = createServices();
+    const storage = getStorage();
+
+    const task = await tasks.createTask({ title: 'Stored in SQLite' });
+    await tasks.updateTask(task.id, { title: 'Renamed' });
+    expect(await storage.tasks.findById(task.id)).toMatchObject({ title: 'Renamed', version: 2 });
+    expect((await storage.tasks.search('renamed')).map((t) => t.id)).toEqual([task.id]);
+
+    await tasks.archiveTask(task.id);
+    expect(await tasks.listTasks()).toEqual([]);
+    expect((await storage.tasks.findArchived()).map((t) => t.id)).toEqual([task.id]);
+    await tasks.restoreTask(task.id);
+    expect((await storage.tasks.findAll()).map((t) => t.id)).toEqual([task.id]);
+
+    const events = await storage.telemetry.getTaskEvents(task.id);
+    expect(events.map((e) => e.type).sort()).toEqual([
+      'task.archived',
+      'task.created',
+      'task.restored',
+    ]);
+    expect(await telemetry.countEvents('task.created')).toBe(1);
+
+    await projects.create({ id: 'proj', label: 'Project' });
+    const stored = await storage.managedLists.create(listConfig('projects.json')).list();
+    expect(stored.map((p) => p.id)).toEqual(['proj']);
+
+    expect(await fs.readdir(path.join(testRoot, 'tasks', 'active'))).toEqual([]);
+    await expect(fs.access(path.join(testRoot, 'telemetry'))).rejects.toThrow();
+    await expect(fs.access(path.join(testRoot, 'config', 'projects.json'))).rejects.toThrow();
+    tasks.dispose();
+  });
+});
+
+describe('copyStorage', () => {
+  let testRoot: string;
+
+  beforeEach(async () => {
+    testRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'veritas-migrate-test-'));
+    // The file-based activity/template/status services resolve their
+    // directories from DATA_DIR and process.cwd()
+    vi.stubEnv('DATA_DIR', testRoot);
+    vi.spyOn(process, 'cwd').mockReturnValue(testRoot);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(testRoot, { recursive: true, force: true });
+  });
+
+  function fileProvider(root: string): FileStorageProvider {
+    return new FileStorageProvider({
+      taskServiceOptions: {
+        tasksDir: path.join(root, 'tasks', 'active'),
+        archiveDir: path.join(root, 'tasks', 'archive'),
+      },
+      configServiceOptions: {
+        configDir: path.join(root, 'config'),
+        configFile: path.join(root, 'config', 'config.json'),
+      },
+      telemetryServiceOptions: { telemetryDir: path.join(root, 'telemetry') },
+    });
+  }
+
+  it('round-trips file → sqlite → file', async () => {
+    const managedListDir = path.join(testRoot, 'lists');
+    const source = fileProvider(path.join(testRoot, 'source'));
+    await source.initialize();
+
+    await source.tasks.import(makeTask({ id: 'task_a', title: 'Alpha' }));
+    await source.tasks.import(makeTask({ id: 'task_b', title: 'Beta' }), { archived: true });
+    await source.activities.logActivity('task_created', 'task_a', 'Alpha');
+    await source.templates.createTemplate({ name: 'Bug', taskDefaults: { type: 'code' } });
+    await source.managedLists
+      .create({ filename: 'projects.json', configDir: managedListDir, defaults: [] })
+      .create({ id: 'proj', label: 'Project' });
+    await source.telemetry.emit<TelemetryEvent>({ type: 'run.started', taskId: 'task_a' });
+
+    const sqlite = new SqliteStorageProvider({ dbPath: ':memory:' });
+    await sqlite.initialize();
+
+    const report = await copyStorage(source, sqlite, { managedListDir });
+    expect(report).toMatchObject({
+      tasks: 1,
+      archivedTasks: 1,
+      activities: 1,
+      templates: 1,
+      telemetryEvents: 1,
+    });
+    expect(report.managedLists['projects.json']).toBe(1);
+    expect((await sqlite.tasks.search('alpha')).map((t) => t.id)).toEqual(['task_a']);
+
+    const back = fileProvider(path.join(testRoot, 'back'));
+    await back.initialize();
+    await copyStorage(sqlite, back, { managedListDir: path.join(testRoot, 'lists-back') });
+
+    expect(await back.tasks.findById('task_a')).toMatchObject({ title: 'Alpha' });
+    expect((await back.tasks.findArchived()).map((t) => t.id)).toEqual(['task_b']);
+    expect(await back.telemetry.getTaskEvents('task_a')).toHaveLength(1);
+
+    await Promise.all([source.shutdown(), sqlite.shutdown(), back.shutdown()]);
+  });
+});
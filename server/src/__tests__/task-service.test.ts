@@ -240,6 +240,142 @@ updated: '2026-01-26T10:00:00.000Z'
     });
   });
 
+  describe('Optimistic concurrency', () => {
+    it('should start at version 1 and bump the version on every update', async () => {
+      const task = await service.createTask({ title: 'Versioned' });
+      expect(task.version).toBe(1);
+
+      const first = await service.updateTask(task.id, { priority: 'high' });
+      const second = await service.updateTask(task.id, { priority: 'low' });
+      expect(first?.version).toBe(2);
+      expect(second?.version).toBe(3);
+    });
+
+    it('should persist the version in the task file', async () => {
+      const task = await service.createTask({ title: 'Persisted' });
+      await service.updateTask(task.id, { priority: 'high' });
+      service.dispose();
+
+      const reloaded = new TaskService({ tasksDir, archiveDir });
+      expect((await reloaded.getTask(task.id))?.version).toBe(2);
+      reloaded.dispose();
+    });
+
+    it('should reject a stale expectedVersion with 412 and the current task', async () => {
+      const task = await service.createTask({ title: 'Contended' });
+      await service.updateTask(task.id, { priority: 'high' });
+
+      await expect(
+        service.updateTask(task.id, { priority: 'low' }, { expectedVersion: 1 })
+      ).rejects.toMatchObject({
+        statusCode: 412,
+        details: { currentVersion: 2, task: expect.objectContaining({ priority: 'high' }) },
+      });
+      expect((await service.getTask(task.id))?.priority).toBe('high');
+    });
+
+    it('should accept the current expectedVersion', async () => {
+      const task = await service.createTask({ title: 'Uncontended' });
+      const updated = await service.updateTask(
+        task.id,
+        { priority: 'high' },
+        { expectedVersion: 1 }
+      );
+      expect(updated?.version).toBe(2);
+    });
+
+    it('should treat tasks without a version as version 0', async () => {
+      const taskContent = `---
+id: task_20260126_legacy
+title: Legacy
+status: todo
+created: '2026-01-26T10:00:00.000Z'
+updated: '2026-01-26T10:00:00.000Z'
+---
+`;
+      await fs.writeFile(path.join(tasksDir, 'task_20260126_legacy-legacy.md'), taskContent);
+
+      const updated = await service.updateTask(
+        'task_20260126_legacy',
+        { priority: 'high' },
+        {
+          expectedVersion: 0,
+        }
+      );
+      expect(updated?.version).toBe(1);
+    });
+
+    it('should merge concurrent array operations instead of overwriting', async () => {
+      const task = await service.createTask({ title: 'Shared' });
+      const subtask = (id: string) => ({ id, title: id, completed: false, created: task.created });
+      const comment = (id: string) => ({ id, author: 'a', text: id, timestamp: task.created });
+
+      await Promise.all([
+        service.updateTask(task.id, { addSubtasks: [subtask('s1')], addComments: [comment('c1')] }),
+        service.updateTask(task.id, { addSubtasks: [subtask('s2')], addComments: [comment('c2')] }),
+      ]);
+      await service.updateTask(task.id, {
+        updateSubtasks: [{ id: 's1', completed: true }],
+        removeSubtasks: ['s2'],
+        updateComments: [{ id: 'c2', text: 'edited' }],
+        removeComments: ['c1', 'missing'],
+      });
+
+      const result = await service.getTask(task.id);
+      expect(result?.subtasks).toEqual([expect.objectContaining({ id: 's1', completed: true })]);
+      expect(result?.comments).toEqual([expect.objectContaining({ id: 'c2', text: 'edited' })]);
+      expect(result).not.toHaveProperty('addSubtasks');
+    });
+  });
+
+  describe('Custom fields', () => {
+    it('should persist custom field values in the task file', async () => {
+      const task = await service.createTask({
+        title: 'Customer bug',
+        customFields: { severity: 'high', estimate: 3, due: '2026-03-01' },
+      });
+      service.dispose();
+
+      const reloaded = new TaskService({ tasksDir, archiveDir });
+      expect((await reloaded.getTask(task.id))?.customFields).toEqual({
+        severity: 'high',
+        estimate: 3,
+        due: '2026-03-01',
+      });
+      reloaded.dispose();
+    });
+
+    it('should merge updates per field and clear fields set to null', async () => {
+      const task = await service.createTask({
+        title: 'Merge',
+        customFields: { severity: 'high', customer: 'Acme' },
+      });
+
+      const updated = await service.updateTask(task.id, {
+        customFields: { severity: 'low', customer: null, estimate: 5 },
+      });
+      expect(updated?.customFields).toEqual({ severity: 'low', estimate: 5 });
+
+      const cleared = await service.updateTask(task.id, {
+        customFields: { severity: null, estimate: null },
+      });
+      expect(cleared?.customFields).toBeUndefined();
+    });
+  });
+
+  describe('Board columns', () => {
+    it('should keep the column until the status changes without one', async () => {
+      const task = await service.createTask({ title: 'Review me' });
+
+      const inQa = await service.updateTask(task.id, { status: 'in-progress', column: 'qa' });
+      expect(inQa?.column).toBe('qa');
+      expect((await service.updateTask(task.id, { title: 'Renamed' }))?.column).toBe('qa');
+
+      const done = await service.updateTask(task.id, { status: 'done' });
+      expect(done?.column).toBeUndefined();
+    });
+  });
+
   describe('Task deletion', () => {
     it('should delete a task', async () => {
       const task = await service.createTask({ title: 'To Delete' });
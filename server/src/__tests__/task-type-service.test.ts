@@ -0,0 +1,115 @@
+/**
+ * TaskTypeService Tests
+ * Tests custom field validation against task type declarations.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  matchesCustomFieldFilters,
+  mergeCustomFields,
+  parseCustomFieldFilters,
+  type TaskTypeConfig,
+} from '@veritas-kanban/shared';
+import { TaskTypeService } from '../services/task-type-service.js';
+import type { TaskService } from '../services/task-service.js';
+
+const bugType: TaskTypeConfig = {
+  id: 'bug',
+  label: 'Bug',
+  icon: 'Bug',
+  order: 0,
+  created: '2026-01-01',
+  updated: '2026-01-01',
+  customFields: [
+    { id: 'severity', label: 'Severity', type: 'enum', required: true, options: ['low', 'high'] },
+    { id: 'estimate', label: 'Estimate', type: 'number' },
+    { id: 'due', label: 'Due', type: 'date' },
+    { id: 'ticket', label: 'Ticket', type: 'url' },
+    { id: 'customer', label: 'Customer', type: 'string' },
+  ],
+};
+
+describe('TaskTypeService', () => {
+  let service: TaskTypeService;
+
+  beforeEach(() => {
+    service = new TaskTypeService({ listTasks: vi.fn() } as unknown as TaskService);
+    vi.spyOn(service, 'get').mockImplementation(async (id) => (id === 'bug' ? bugType : null));
+  });
+
+  describe('validateCustomFields', () => {
+    it('should accept values that match their definitions', async () => {
+      await expect(
+        service.validateCustomFields('bug', {
+          severity: 'high',
+          estimate: 3,
+          due: '2026-03-01',
+          ticket: 'https://tracker.example.com/T-1?a=1&b=2',
+          customer: 'Acme & Co',
+        })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject mistyped values with one issue per field', async () => {
+      await expect(
+        service.validateCustomFields('bug', {
+          severity: 'urgent',
+          estimate: '3',
+          due: '03/01/2026',
+          ticket: 'javascript:alert(1)',
+          customer: '<b>Acme</b>',
+        })
+      ).rejects.toMatchObject({
+        statusCode: 400,
+        details: [
+          { path: ['customFields', 'severity'], message: 'severity must be one of: low, high' },
+          { path: ['customFields', 'estimate'], message: 'estimate must be a number' },
+          { path: ['customFields', 'due'], message: 'due must be a date (YYYY-MM-DD)' },
+          { path: ['customFields', 'ticket'], message: 'ticket must be an http(s) URL' },
+          { path: ['customFields', 'customer'], message: 'customer must not contain HTML' },
+        ],
+      });
+    });
+
+    it('should require required fields on create but not on partial updates', async () => {
+      await expect(service.validateCustomFields('bug', { estimate: 1 })).rejects.toMatchObject({
+        details: [expect.objectContaining({ message: 'severity is required' })],
+      });
+      await expect(
+        service.validateCustomFields('bug', { estimate: 1 }, { partial: true })
+      ).resolves.toBeUndefined();
+      await expect(
+        service.validateCustomFields('bug', { severity: null }, { partial: true })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject undeclared fields but allow clearing them', async () => {
+      await expect(
+        service.validateCustomFields('code', { severity: 'high' })
+      ).rejects.toMatchObject({
+        details: [
+          expect.objectContaining({ message: 'severity is not a field of this task type' }),
+        ],
+      });
+      await expect(
+        service.validateCustomFields('code', { severity: null }, { partial: true })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('custom field helpers', () => {
+  it('should merge changes and drop cleared values', () => {
+    expect(mergeCustomFields({ a: 'x', b: 1 }, { a: null, c: 'y' })).toEqual({ b: 1, c: 'y' });
+    expect(mergeCustomFields({ a: 'x' }, { a: null })).toBeUndefined();
+  });
+
+  it('should parse cf.* query params and match case-insensitively', () => {
+    const filters = parseCustomFieldFilters({ 'cf.severity': 'HIGH', 'cf.estimate': '3', q: 'x' });
+    expect(filters).toEqual({ severity: 'HIGH', estimate: '3' });
+    expect(
+      matchesCustomFieldFilters({ customFields: { severity: 'high', estimate: 3 } }, filters)
+    ).toBe(true);
+    expect(matchesCustomFieldFilters({ customFields: { severity: 'high' } }, filters)).toBe(false);
+    expect(matchesCustomFieldFilters({}, {})).toBe(true);
+  });
+});
@@ -76,6 +76,12 @@ export const envSchema = z.object({
   /** Root directory for data storage */
   VERITAS_DATA_DIR: z.string().optional(),
 
+  /** Storage backend behind the storage layer (sqlite requires Node 22+) */
+  VERITAS_STORAGE: z.enum(['file', 'sqlite']).optional().default('file'),
+
+  /** SQLite database path (default: <data dir>/.veritas-kanban/veritas.db) */
+  VERITAS_SQLITE_PATH: z.string().optional(),
+
   // ── CORS ────────────────────────────────────────────────────────────
   /** Comma-separated list of allowed CORS origins */
   CORS_ORIGINS: z.string().optional(),
@@ -105,6 +111,14 @@ export const envSchema = z.object({
   /** Days after which telemetry is compressed */
   TELEMETRY_COMPRESS_DAYS: positiveIntString,
 
+  // ── Workflows ───────────────────────────────────────────────────────
+  /** Backend that executes workflow agent steps: local subprocess or stub */
+  VERITAS_AGENT_RUNNER: z.enum(['local', 'stub']).optional().default('local'),
+
+  // ── Scheduled Deliverables ──────────────────────────────────────────
+  /** Run the background scheduler that fires due deliverables */
+  VERITAS_DELIVERABLE_SCHEDULER: booleanString.default('true'),
+
   // ── External Services ───────────────────────────────────────────────
   /** Clawdbot gateway URL */
   CLAWDBOT_GATEWAY: z.string().url().optional().default('http://127.0.0.1:18789'),
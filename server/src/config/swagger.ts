@@ -83,6 +83,17 @@ const options: swaggerJsdoc.Options = {
               maxItems: 4,
             },
             position: { type: 'number' },
+            customFields: {
+              type: 'object',
+              description: "Values for the custom fields declared by the task's type",
+              additionalProperties: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+              example: { severity: 'high', customer: 'Acme' },
+            },
+            column: {
+              type: 'string',
+              description: 'Custom board column; unset for the first column of the status',
+              example: 'qa',
+            },
           },
           required: ['id', 'title', 'status', 'priority', 'type', 'created'],
         },
@@ -128,6 +139,15 @@ const options: swaggerJsdoc.Options = {
               type: 'array',
               items: { $ref: '#/components/schemas/ReviewComment' },
             },
+            customFields: {
+              type: 'object',
+              description: 'Validated against the task type; required fields must be set',
+              additionalProperties: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+            },
+            column: {
+              type: 'string',
+              description: 'Board column to start in (must be a todo column)',
+            },
           },
           required: ['title'],
         },
@@ -141,6 +161,12 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               enum: ['todo', 'in-progress', 'blocked', 'done'],
             },
+            column: {
+              type: 'string',
+              nullable: true,
+              description:
+                "Board column to move to; sets status to the column's category and is rejected with 409 when the column is at its WIP limit",
+            },
             priority: { type: 'string', enum: ['low', 'medium', 'high'] },
             project: { type: 'string' },
             sprint: { type: 'string' },
@@ -157,6 +183,14 @@ const options: swaggerJsdoc.Options = {
               items: { $ref: '#/components/schemas/ReviewComment' },
             },
             position: { type: 'number' },
+            customFields: {
+              type: 'object',
+              description: 'Merged into existing values; null clears a field',
+              additionalProperties: {
+                oneOf: [{ type: 'string' }, { type: 'number' }],
+                nullable: true,
+              },
+            },
           },
         },
         Subtask: {
@@ -25,13 +25,23 @@ import { syncSettingsToServices } from './routes/settings.js';
 import { initAgentStatus } from './routes/agent-status.js';
 import { getTelemetryService } from './services/telemetry-service.js';
 import { ConfigService } from './services/config-service.js';
-import { disposeTaskService } from './services/task-service.js';
-import { initBroadcast } from './services/broadcast-service.js';
+import { disposeTaskService, getTaskService } from './services/task-service.js';
+import {
+  initBroadcast,
+  setBroadcastTaskLookup,
+  subscribeTopics,
+  unsubscribeTopics,
+} from './services/broadcast-service.js';
 import { runStartupMigrations } from './services/migration-service.js';
 import { createBackup, runIntegrityChecks } from './services/integrity-service.js';
+import { initStorage, resolveStorageType, shutdownStorage } from './storage/index.js';
+import { getDeliverableScheduler } from './services/deliverable-scheduler.js';
+import { getAgentWorkQueue } from './services/agent-work-queue-service.js';
+import { getWorkflowTriggerService } from './services/workflow-trigger-service.js';
 import { errorHandler, AppError } from './middleware/error-handler.js';
 import { requestIdMiddleware } from './middleware/request-id.js';
 import { responseEnvelopeMiddleware } from './middleware/response-envelope.js';
+import { identifyAgent } from './middleware/agent-permissions.js';
 import { requestTimeout } from './middleware/request-timeout.js';
 import {
   authenticate,
@@ -295,7 +305,16 @@ const corsOptions: cors.CorsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-API-Version', 'X-Request-ID'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-API-Key',
+    'X-API-Version',
+    'X-Request-ID',
+    'If-Match',
+    'X-Agent-Id',
+  ],
+  exposedHeaders: ['ETag', 'X-Approval-Request'],
 };
 
 // ============================================
@@ -417,6 +436,14 @@ app.use('/api', apiCacheHeaders);
 // the error handler so that both route responses and errors are wrapped.
 app.use('/api', responseEnvelopeMiddleware);
 
+// ============================================
+// Agent Permission Levels
+// ============================================
+// Identifies the acting agent (API key name or X-Agent-Id) and blocks
+// endpoints restricted for its level. Runs after the envelope so its
+// errors are wrapped like any route error.
+app.use('/api', identifyAgent);
+
 // ============================================
 // API Routes — Versioned
 // Canonical:  /api/v1/...
@@ -501,14 +528,38 @@ let configService: ConfigService | null = null;
       `Startup: backup ${backupPath ? 'created' : 'skipped'}, integrity: ${integrityReport.filesChecked} files checked, ${integrityReport.issuesFound} issues found`
     );
 
-    // 2. Run data migrations (idempotent)
+    // 2. Open the storage layer when a non-file backend is selected. Tasks,
+    //    telemetry and managed lists wait for it; the file backend is the
+    //    services themselves, so there is nothing extra to open.
+    const storageType = resolveStorageType();
+    if (storageType !== 'file') {
+      await initStorage(storageType);
+      log.info({ storageType }, 'Storage layer initialised');
+    }
+
+    // 3. Run data migrations (idempotent)
     await runStartupMigrations();
 
-    // 3. Initialize telemetry service and sync with feature settings
+    // 4. Initialize telemetry service and sync with feature settings
     configService = new ConfigService();
     const featureSettings = await configService.getFeatureSettings();
     syncSettingsToServices(featureSettings);
     await getTelemetryService().init();
+
+    // 5. Start firing scheduled deliverables (catches up runs missed while down)
+    if (process.env.VERITAS_DELIVERABLE_SCHEDULER !== 'false') {
+      getDeliverableScheduler().start();
+    }
+
+    // 6. Start workflows from task events and schedule triggers
+    if (process.env.VERITAS_WORKFLOW_TRIGGERS !== 'false') {
+      getWorkflowTriggerService().start();
+    }
+
+    // 7. Return tasks from expired agent work queue leases
+    if (process.env.VERITAS_WORK_QUEUE_SWEEP !== 'false') {
+      getAgentWorkQueue().start();
+    }
   } catch (err) {
     log.error({ err }, 'Failed to initialize services');
   }
@@ -553,8 +604,10 @@ const wss = new WebSocketServer({
   },
 });
 
-// Initialize broadcast service for task change notifications
+// Initialize broadcast service for task change notifications.
+// The task cache lets task:changed events carry patches instead of bare IDs.
 initBroadcast(wss);
+setBroadcastTaskLookup((taskId) => getTaskService().peekTask(taskId));
 
 // Initialize agent status service for WebSocket broadcasts
 initAgentStatus(wss);
@@ -644,6 +697,16 @@ wss.on('connection', (ws: HeartbeatWebSocket, req) => {
     try {
       const message = JSON.parse(data.toString());
 
+      // Handle topic subscriptions (task, workflow and telemetry events)
+      if (message.type === 'topics:subscribe') {
+        subscribeTopics(ws, message.topics, { since: message.since, streamId: message.streamId });
+        log.debug({ topics: message.topics, since: message.since }, 'Topic subscription added');
+      }
+
+      if (message.type === 'topics:unsubscribe') {
+        unsubscribeTopics(ws, message.topics);
+      }
+
       // Handle subscription to chat session
       if (message.type === 'chat:subscribe' && message.sessionId) {
         // Unsubscribe from previous chat session
@@ -838,6 +901,15 @@ async function gracefulShutdown(signal: string) {
   try {
     log.info('Disposing services');
 
+    // Stop firing scheduled deliverables
+    getDeliverableScheduler().stop();
+
+    // Stop starting triggered workflow runs
+    getWorkflowTriggerService().stop();
+
+    // Stop sweeping agent work queue leases
+    getAgentWorkQueue().stop();
+
     // Flush pending telemetry writes
     await getTelemetryService().flush();
     log.info('Telemetry flushed');
@@ -846,6 +918,9 @@ async function gracefulShutdown(signal: string) {
     disposeTaskService();
     log.info('Task service disposed');
 
+    // Close the storage layer (e.g. the SQLite connection)
+    await shutdownStorage();
+
     // Dispose config service (closes file watcher, clears cache)
     if (configService) {
       configService.dispose();
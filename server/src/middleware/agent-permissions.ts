@@ -0,0 +1,129 @@
+/**
+ * Agent Permission Middleware
+ *
+ * Applies agent permission levels (intern / specialist / lead) to API requests:
+ *   1. `identifyAgent` works out which agent an agent-role request acts for,
+ *      stores it on `req.auth.agentId` and rejects requests matching the
+ *      agent's custom `restrictions` (matched against "METHOD /path").
+ *   2. Routes call `requireAgentPermission` for named actions (create_task,
+ *      delete_task, delegate, approve, complete_task). Gated actions file an
+ *      ApprovalRequest carrying the request's input so it can be resumed.
+ *
+ * Admin keys, browser sessions and read-only keys aren't agents and skip
+ * these checks — their access is governed by `authorize` alone.
+ */
+import type { Response, NextFunction } from 'express';
+import type { UpdateTaskInput } from '@veritas-kanban/shared';
+import type { AuthenticatedRequest } from './auth.js';
+import { AgentPermissionError } from './error-handler.js';
+import {
+  getAgentPermissionService,
+  PERMISSION_LEVEL_RANK,
+  type ApprovalRequest,
+} from '../services/agent-permission-service.js';
+
+/** Lets agents sharing an API key say which of them is acting */
+export const AGENT_ID_HEADER = 'X-Agent-Id';
+
+export type AgentAction = 'create_task' | 'delete_task' | 'delegate' | 'approve' | 'complete_task';
+
+/**
+ * Identify the acting agent and enforce its endpoint restrictions.
+ *
+ * The agent is the X-Agent-Id header when given, otherwise the API key name.
+ * A key may only act for agents at or below its own level, so a shared key
+ * can't be used to claim a lead's autonomy.
+ */
+export async function identifyAgent(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const auth = req.auth;
+    if (auth?.role !== 'agent') return next();
+
+    const keyAgent = auth.keyName?.toLowerCase();
+    const claimed = req.get(AGENT_ID_HEADER)?.trim().toLowerCase();
+    const agentId = claimed || keyAgent;
+    if (!agentId) return next();
+
+    const service = getAgentPermissionService();
+    const config = await service.getPermissions(agentId);
+
+    if (claimed && keyAgent && claimed !== keyAgent) {
+      const keyConfig = await service.getPermissions(keyAgent);
+      if (PERMISSION_LEVEL_RANK[config.level] > PERMISSION_LEVEL_RANK[keyConfig.level]) {
+        throw new AgentPermissionError(
+          `API key "${auth.keyName}" cannot act for ${config.level} agent "${claimed}"`,
+          { agentId: claimed, level: config.level, keyLevel: keyConfig.level }
+        );
+      }
+    }
+
+    auth.agentId = agentId;
+
+    // Mounted under /api, so strip the version prefix to match /api/... and /api/v1/... alike
+    const action = `${req.method} ${req.path.replace(/^\/v1(?=\/|$)/, '')}`;
+    const result = await service.checkPermission(agentId, action);
+    if (!result.allowed) {
+      throw new AgentPermissionError(result.reason ?? 'Action not permitted', {
+        agentId,
+        level: config.level,
+        action,
+      });
+    }
+
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Check a named action for the acting agent.
+ *
+ * Returns null when the action may go ahead as requested. For actions that
+ * proceed in a reduced form (an agent without autoComplete finishing a task)
+ * it files and returns the approval request. Disallowed actions throw an
+ * AgentPermissionError; gated ones file an approval request first and carry
+ * its ID in the error details.
+ */
+export async function requireAgentPermission(
+  req: AuthenticatedRequest,
+  action: AgentAction,
+  context: { taskId?: string; details?: string; payload?: Record<string, unknown> } = {}
+): Promise<ApprovalRequest | null> {
+  const agentId = req.auth?.role === 'agent' ? req.auth.agentId : undefined;
+  if (!agentId) return null;
+
+  const service = getAgentPermissionService();
+  const result = await service.checkPermission(agentId, action);
+  if (result.allowed && !result.requiresApproval) return null;
+
+  const approval = result.requiresApproval
+    ? await service.requestApproval({ agentId, action, ...context })
+    : undefined;
+  if (result.allowed) return approval ?? null;
+
+  const { level } = await service.getPermissions(agentId);
+  throw new AgentPermissionError(result.reason ?? 'Action not permitted', {
+    agentId,
+    level,
+    action,
+    ...(context.taskId && { taskId: context.taskId }),
+    ...(approval && { approvalId: approval.id }),
+  });
+}
+
+/** Park a task an agent tried to finish in review until its approval request is decided */
+export function holdForReview(approval: ApprovalRequest): UpdateTaskInput {
+  return {
+    status: 'blocked',
+    column: null,
+    blockedReason: {
+      category: 'waiting-on-feedback',
+      note: `Completion awaiting approval (${approval.id})`,
+    },
+  };
+}
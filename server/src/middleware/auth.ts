@@ -38,9 +38,20 @@ export interface AuthenticatedRequest extends Request {
     role: AuthRole;
     keyName?: string;
     isLocalhost: boolean;
+    /** Acting agent for agent-role requests (set by identifyAgent) */
+    agentId?: string;
   };
 }
 
+/**
+ * Who a change made by this request is credited to: the acting agent for
+ * agent requests, otherwise the API key name
+ */
+export function getRequestAuthor(req: Request): string | undefined {
+  const auth = (req as AuthenticatedRequest).auth;
+  return auth?.agentId || auth?.keyName;
+}
+
 // === Configuration ===
 
 // Load auth config from environment variables
@@ -106,3 +106,11 @@ export function setLastModified(res: Response, isoDate: string | undefined): voi
     res.set('Last-Modified', new Date(isoDate).toUTCString());
   }
 }
+
+/**
+ * Sets a strong ETag from the task's write counter, for clients to send
+ * back as `If-Match` on their next update.
+ */
+export function setTaskETag(res: Response, task: { version?: number }): void {
+  res.set('ETag', `"${task.version ?? 0}"`);
+}
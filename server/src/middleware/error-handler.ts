@@ -29,8 +29,14 @@ export class ValidationError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string) {
-    super(409, message, 'CONFLICT');
+  constructor(message: string, details?: unknown) {
+    super(409, message, 'CONFLICT', details);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(412, message, 'PRECONDITION_FAILED', details);
   }
 }
 
@@ -46,6 +52,34 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * An agent's permission level doesn't allow the action. Uses
+ * AGENT_APPROVAL_REQUIRED when an approval request was filed instead.
+ */
+export class AgentPermissionError extends AppError {
+  constructor(message: string, details: { approvalId?: string } & Record<string, unknown>) {
+    super(
+      403,
+      message,
+      details.approvalId ? 'AGENT_APPROVAL_REQUIRED' : 'AGENT_PERMISSION_DENIED',
+      details
+    );
+  }
+}
+
+/**
+ * Work was refused because a budget is exhausted. `overrideIds` lists the
+ * override requests filed so an admin can let it through.
+ */
+export class BudgetExceededError extends AppError {
+  readonly overrideIds: string[];
+
+  constructor(message: string, details: { overrideIds: string[] } & Record<string, unknown>) {
+    super(402, message, 'BUDGET_EXCEEDED', details);
+    this.overrideIds = details.overrideIds;
+  }
+}
+
 export class BadRequestError extends AppError {
   constructor(message: string, details?: unknown) {
     super(400, message, 'BAD_REQUEST', details);
@@ -9,13 +9,20 @@
  * POST   /api/agents/permissions/approvals        — Request approval (intern)
  * GET    /api/agents/permissions/approvals         — Get pending approvals
  * POST   /api/agents/permissions/approvals/:id    — Review approval request
+ *
+ * Levels are enforced on every agent request by middleware/agent-permissions.ts.
+ * Changing levels is admin-only so agents can't promote themselves, and
+ * reviewing an approval resumes the held-back action.
  */
 
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { getAgentPermissionService } from '../services/agent-permission-service.js';
+import { applyApprovalDecision } from '../services/approval-resume-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
-import { NotFoundError } from '../middleware/error-handler.js';
+import { authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { requireAgentPermission } from '../middleware/agent-permissions.js';
+import { AgentPermissionError, ConflictError, NotFoundError } from '../middleware/error-handler.js';
 
 const router: RouterType = Router();
 
@@ -62,6 +69,7 @@ router.get(
  */
 router.put(
   '/:id/level',
+  authorize('admin'),
   asyncHandler(async (req, res) => {
     const schema = z.object({
       level: z.enum(['intern', 'specialist', 'lead']),
@@ -78,6 +86,7 @@ router.put(
  */
 router.patch(
   '/:id',
+  authorize('admin'),
   asyncHandler(async (req, res) => {
     const schema = z.object({
       trustedDomains: z.array(z.string()).optional(),
@@ -132,19 +141,41 @@ router.post(
 
 /**
  * POST /api/agents/permissions/approvals/:id
+ *
+ * Agents need the approve permission and can't review their own requests;
+ * their reviewedBy is always the acting agent.
  */
 router.post(
   '/approvals/:id',
-  asyncHandler(async (req, res) => {
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
     const schema = z.object({
       decision: z.enum(['approved', 'rejected']),
-      reviewedBy: z.string().min(1),
+      reviewedBy: z.string().min(1).optional(),
     });
     const { decision, reviewedBy } = schema.parse(req.body);
     const service = getAgentPermissionService();
-    const result = await service.reviewApproval(String(req.params.id), decision, reviewedBy);
-    if (!result) throw new NotFoundError('Approval request not found');
-    res.json(result);
+
+    const request = await service.getApproval(String(req.params.id));
+    if (!request) throw new NotFoundError('Approval request not found');
+    if (request.status !== 'pending') {
+      throw new ConflictError(`Approval request was already ${request.status}`);
+    }
+
+    const agentId = req.auth?.role === 'agent' ? req.auth.agentId : undefined;
+    if (agentId) {
+      await requireAgentPermission(req, 'approve', { taskId: request.taskId });
+      if (agentId === request.agentId) {
+        throw new AgentPermissionError('Agents cannot review their own approval requests', {
+          agentId,
+          action: 'approve',
+        });
+      }
+    }
+
+    const reviewer = agentId ?? reviewedBy ?? req.auth?.keyName ?? 'unknown';
+    const reviewed = await service.reviewApproval(request.id, decision, reviewer);
+    if (!reviewed) throw new NotFoundError('Approval request not found');
+    res.json(await applyApprovalDecision(reviewed));
   })
 );
 
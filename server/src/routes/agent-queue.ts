@@ -0,0 +1,127 @@
+/**
+ * Agent Work Queue API Routes
+ *
+ * GET  /api/agents/queue          — Queued tasks (in hand-out order) and active leases
+ * POST /api/agents/:id/claim      — Lease the next eligible task (204 when none)
+ * POST /api/agents/:id/release    — Give up a lease (complete, failed or abandoned)
+ * GET  /api/agents/:id/leases     — Leases held by an agent
+ *
+ * Leases are renewed by POST /api/agents/register/:id/heartbeat.
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { getAgentWorkQueue } from '../services/agent-work-queue-service.js';
+import { asyncHandler } from '../middleware/async-handler.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { AgentPermissionError, ValidationError } from '../middleware/error-handler.js';
+
+const router: RouterType = Router();
+
+// ─── Validation Schemas ──────────────────────────────────────────
+
+const claimSchema = z.object({
+  project: z.string().max(100).optional(),
+  types: z.array(z.string().min(1).max(50)).max(20).optional(),
+});
+
+const releaseSchema = z.object({
+  taskId: z.string().min(1).max(100),
+  outcome: z.enum(['complete', 'failed', 'abandoned']),
+});
+
+/** Agents may only claim and release for themselves */
+function assertActingAs(req: AuthenticatedRequest, agentId: string): void {
+  const acting = req.auth?.role === 'agent' ? req.auth.agentId : undefined;
+  if (acting && acting !== agentId.toLowerCase()) {
+    throw new AgentPermissionError(`Agent "${acting}" cannot act for "${agentId}"`, {
+      agentId: acting,
+    });
+  }
+}
+
+// ─── Routes ──────────────────────────────────────────────────────
+
+/**
+ * GET /api/agents/queue
+ * Queued tasks in the order they will be handed out, plus active leases
+ */
+router.get(
+  '/queue',
+  asyncHandler(async (req, res) => {
+    const queue = getAgentWorkQueue();
+    const queued = await queue.listQueued({ project: req.query.project as string | undefined });
+    res.json({
+      queued: queued.map((t) => ({
+        id: t.id,
+        title: t.title,
+        type: t.type,
+        priority: t.priority,
+        project: t.project,
+        agent: t.agent,
+      })),
+      leases: await queue.listLeases(),
+    });
+  })
+);
+
+/**
+ * POST /api/agents/:id/claim
+ * Lease the next eligible task to the agent
+ */
+router.post(
+  '/:id/claim',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const parsed = claimSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError('Invalid claim', parsed.error.errors);
+    }
+
+    const agentId = req.params.id as string;
+    assertActingAs(req, agentId);
+
+    const claimed = await getAgentWorkQueue().claim(agentId, parsed.data);
+    if (!claimed) {
+      res.status(204).end();
+      return;
+    }
+    res.json(claimed);
+  })
+);
+
+/**
+ * POST /api/agents/:id/release
+ * Give up a lease; failed and abandoned tasks go back to the queue
+ */
+router.post(
+  '/:id/release',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const parsed = releaseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid release', parsed.error.errors);
+    }
+
+    const agentId = req.params.id as string;
+    assertActingAs(req, agentId);
+
+    const task = await getAgentWorkQueue().release(
+      agentId,
+      parsed.data.taskId,
+      parsed.data.outcome
+    );
+    res.json({ released: true, task });
+  })
+);
+
+/**
+ * GET /api/agents/:id/leases
+ * Leases currently held by an agent
+ */
+router.get(
+  '/:id/leases',
+  asyncHandler(async (req, res) => {
+    res.json(await getAgentWorkQueue().listLeases(req.params.id as string));
+  })
+);
+
+export { router as agentQueueRoutes };
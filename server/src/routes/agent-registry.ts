@@ -2,7 +2,7 @@
  * Agent Registry API Routes
  *
  * POST   /api/agents/register          — Register or update an agent
- * POST   /api/agents/register/:id/heartbeat — Send heartbeat
+ * POST   /api/agents/register/:id/heartbeat — Send heartbeat (renews work queue leases)
  * DELETE /api/agents/register/:id       — Deregister an agent
  * GET    /api/agents/register           — List all registered agents
  * GET    /api/agents/register/:id       — Get specific agent
@@ -13,6 +13,7 @@
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { getAgentRegistryService } from '../services/agent-registry-service.js';
+import { getAgentWorkQueue } from '../services/agent-work-queue-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
 
@@ -34,6 +35,7 @@ const registerSchema = z.object({
   version: z.string().max(50).optional(),
   metadata: z.record(z.unknown()).optional(),
   sessionKey: z.string().max(200).optional(),
+  maxConcurrentTasks: z.number().int().min(1).max(50).optional(),
 });
 
 const heartbeatSchema = z.object({
@@ -143,6 +145,9 @@ router.post(
       throw new NotFoundError('Agent not registered. Call POST /api/agents/register first.');
     }
 
+    // A live agent keeps the tasks it claimed from the work queue
+    await getAgentWorkQueue().renewLeases(agent.id);
+
     res.json(agent);
   })
 );
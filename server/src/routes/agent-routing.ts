@@ -1,7 +1,7 @@
 /**
  * Agent Routing API Routes
  *
- * POST /api/agents/route       — Resolve the best agent for a task
+ * POST /api/agents/route       — Resolve the best agent for a task (rules + registry scoring)
  * GET  /api/agents/routing     — Get current routing configuration
  * PUT  /api/agents/routing     — Update routing configuration
  */
@@ -44,9 +44,12 @@ const routingRuleSchema = z.object({
   agent: z.string().min(1).max(50),
   model: z.string().max(50).optional(),
   fallback: z.string().max(50).optional(),
+  capabilities: z.array(z.string().min(1).max(50)).max(20).optional(),
   enabled: z.boolean(),
 });
 
+const routingWeightSchema = z.number().min(0).max(1).optional();
+
 const routingConfigSchema = z.object({
   enabled: z.boolean(),
   rules: z.array(routingRuleSchema),
@@ -54,6 +57,18 @@ const routingConfigSchema = z.object({
   defaultModel: z.string().max(50).optional(),
   fallbackOnFailure: z.boolean(),
   maxRetries: z.number().int().min(0).max(3),
+  useRegistry: z.boolean().optional(),
+  weights: z
+    .object({
+      capability: routingWeightSchema,
+      liveness: routingWeightSchema,
+      load: routingWeightSchema,
+      successRate: routingWeightSchema,
+      cost: routingWeightSchema,
+      rule: routingWeightSchema,
+    })
+    .strict()
+    .optional(),
 });
 
 // ─── Routes ──────────────────────────────────────────────────────
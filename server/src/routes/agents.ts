@@ -3,10 +3,14 @@ import { z } from 'zod';
 import { ClawdbotAgentService, clawdbotAgentService } from '../services/clawdbot-agent-service.js';
 import { getTelemetryService } from '../services/telemetry-service.js';
 import { getTaskService } from '../services/task-service.js';
+import { getPricingService } from '../services/pricing-service.js';
+import { getBudgetService } from '../services/budget-service.js';
 import type { AgentType, TokenTelemetryEvent } from '@veritas-kanban/shared';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { createLogger } from '../lib/logger.js';
 
+const log = createLogger('agents');
 const router: RouterType = Router();
 
 // Validation schemas
@@ -27,6 +31,9 @@ const reportTokensSchema = z.object({
   inputTokens: z.number({ required_error: 'inputTokens is required' }).int().nonnegative(),
   outputTokens: z.number({ required_error: 'outputTokens is required' }).int().nonnegative(),
   totalTokens: z.number().int().nonnegative().optional(),
+  cacheReadTokens: z.number().int().nonnegative().optional(),
+  cacheWriteTokens: z.number().int().nonnegative().optional(),
+  cost: z.number().nonnegative().optional(),
   model: z.string().optional(),
   agent: AgentTypeSchema.optional(),
 });
@@ -133,6 +140,9 @@ router.post(
     let inputTokens: number;
     let outputTokens: number;
     let totalTokens: number | undefined;
+    let cacheReadTokens: number | undefined;
+    let cacheWriteTokens: number | undefined;
+    let cost: number | undefined;
     let model: string | undefined;
     let agent: AgentType | undefined;
     try {
@@ -141,6 +151,9 @@ router.post(
       inputTokens = parsed.inputTokens;
       outputTokens = parsed.outputTokens;
       totalTokens = parsed.totalTokens;
+      cacheReadTokens = parsed.cacheReadTokens;
+      cacheWriteTokens = parsed.cacheWriteTokens;
+      cost = parsed.cost;
       model = parsed.model;
       agent = parsed.agent as AgentType | undefined;
     } catch (error) {
@@ -164,24 +177,35 @@ router.post(
     const resolvedAttemptId = attemptId || task.attempt?.id || 'unknown';
     const resolvedAgent = agent || task.attempt?.agent || 'claude-code';
 
-    // Emit telemetry event
+    // Emit telemetry event, priced from the model pricing catalog unless a cost was reported
     const telemetry = getTelemetryService();
-    const event = await telemetry.emit<TokenTelemetryEvent>({
-      type: 'run.tokens',
-      taskId,
-      attemptId: resolvedAttemptId,
-      agent: resolvedAgent,
-      project: task.project,
-      inputTokens,
-      outputTokens,
-      totalTokens: totalTokens ?? inputTokens + outputTokens,
-      model,
-    });
+    const event = await telemetry.emit<TokenTelemetryEvent>(
+      await getPricingService().priceEvent({
+        type: 'run.tokens' as const,
+        taskId,
+        attemptId: resolvedAttemptId,
+        agent: resolvedAgent,
+        project: task.project,
+        inputTokens,
+        outputTokens,
+        cacheReadTokens,
+        cacheWriteTokens,
+        totalTokens: totalTokens ?? inputTokens + outputTokens,
+        cost,
+        model,
+      })
+    );
+
+    // Notify about budgets that crossed a threshold (non-blocking)
+    getBudgetService()
+      .checkThresholds()
+      .catch((err) => log.error({ err: err }, 'Budget threshold check failed'));
 
     res.status(201).json({
       recorded: true,
       eventId: event.id,
       totalTokens: event.totalTokens,
+      cost: event.cost,
     });
   })
 );
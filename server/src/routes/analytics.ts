@@ -26,6 +26,7 @@ const analyticsService = getAnalyticsService();
  *   - agent: Filter by agent type
  *   - project: Filter by project
  *   - sprint: Filter by sprint
+ *   - cf.<field>: Filter by custom field value (e.g. cf.severity=high)
  */
 router.get(
   '/timeline',
@@ -51,6 +52,7 @@ router.get(
  *   - from (ISO 8601): Start date
  *   - to (ISO 8601): End date
  *   - project: Filter by project
+ *   - cf.<field>: Filter by custom field value
  */
 router.get(
   '/metrics',
@@ -8,6 +8,7 @@ import { getTextExtractionService } from '../services/text-extraction-service.js
 import type { Attachment } from '@veritas-kanban/shared';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError, BadRequestError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -82,9 +83,11 @@ router.post(
     }
 
     // Update task with new attachments
-    const updatedTask = await taskService.updateTask(taskId, {
-      attachments: [...currentAttachments, ...newAttachments],
-    });
+    const updatedTask = await taskService.updateTask(
+      taskId,
+      { attachments: [...currentAttachments, ...newAttachments] },
+      { author: getRequestAuthor(req) }
+    );
 
     res.json({
       attachments: newAttachments,
@@ -223,9 +226,11 @@ router.delete(
 
     // Update task to remove attachment from metadata
     const updatedAttachments = (task.attachments || []).filter((a: Attachment) => a.id !== attId);
-    await taskService.updateTask(taskId, {
-      attachments: updatedAttachments,
-    });
+    await taskService.updateTask(
+      taskId,
+      { attachments: updatedAttachments },
+      { author: getRequestAuthor(req) }
+    );
 
     res.json({ deleted: true });
   })
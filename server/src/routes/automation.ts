@@ -2,8 +2,10 @@ import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { getTaskService } from '../services/task-service.js';
 import { getAutomationService } from '../services/automation-service.js';
+import { getBudgetService } from '../services/budget-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -45,9 +47,20 @@ router.post(
       throw error;
     }
 
+    // Refuse to start once the task's project or the automation agent is out of budget
+    await getBudgetService().enforce(
+      { project: task.project, agent: 'veritas' },
+      'automation.start',
+      {
+        taskId: task.id,
+      }
+    );
+
     // Get update payload and update task
     const payload = automationService.getStartPayload(input.sessionKey);
-    const updated = await taskService.updateTask(task.id, payload);
+    const updated = await taskService.updateTask(task.id, payload, {
+      author: getRequestAuthor(req),
+    });
 
     // Build and return result
     const result = automationService.buildStartResult(updated!, payload.attempt!.id);
@@ -88,7 +101,9 @@ router.post(
       input.result,
       input.status
     );
-    const updated = await taskService.updateTask(task.id, payload);
+    const updated = await taskService.updateTask(task.id, payload, {
+      author: getRequestAuthor(req),
+    });
 
     // Build and return result
     const result = automationService.buildCompleteResult(updated!, input.status);
@@ -0,0 +1,119 @@
+/**
+ * Budget API Routes
+ *
+ * GET  /api/budgets                      — Usage of every budget in its current window
+ * GET  /api/budgets/overrides            — Override requests (?status=pending|approved|rejected)
+ * POST /api/budgets/:id/overrides        — Ask to continue past an exhausted budget
+ * POST /api/budgets/overrides/:id        — Approve or reject an override request (admin)
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { getBudgetService } from '../services/budget-service.js';
+import { getConfigService } from '../services/config-service.js';
+import { getWorkflowRunService } from '../services/workflow-run-service.js';
+import { asyncHandler } from '../middleware/async-handler.js';
+import { authorize, type AuthenticatedRequest } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error-handler.js';
+
+const router: RouterType = Router();
+
+// ─── Validation Schemas ──────────────────────────────────────────
+
+const listOverridesSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+});
+
+const requestOverrideSchema = z.object({
+  reason: z.string().max(1000).optional(),
+  taskId: z.string().max(100).optional(),
+});
+
+const reviewOverrideSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  reviewedBy: z.string().min(1).optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// ─── Routes ──────────────────────────────────────────────────────
+
+/**
+ * GET /api/budgets
+ */
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const settings = (await getConfigService().getFeatureSettings()).budget;
+    res.json({
+      enforce: settings.enabled && settings.enforce,
+      budgets: await getBudgetService().getUsage(),
+    });
+  })
+);
+
+/**
+ * GET /api/budgets/overrides
+ */
+router.get(
+  '/overrides',
+  asyncHandler(async (req, res) => {
+    const parsed = listOverridesSchema.safeParse(req.query);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid query', parsed.error.errors);
+    }
+    res.json(await getBudgetService().listOverrides(parsed.data.status));
+  })
+);
+
+/**
+ * POST /api/budgets/overrides/:id
+ * Approving resumes workflow runs that were paused waiting on the override.
+ */
+router.post(
+  '/overrides/:id',
+  authorize('admin'),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const parsed = reviewOverrideSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid review', parsed.error.errors);
+    }
+
+    const { decision, reviewedBy, expiresAt } = parsed.data;
+    const reviewer = reviewedBy ?? req.auth?.keyName ?? 'unknown';
+    const override = await getBudgetService().reviewOverride(
+      String(req.params.id),
+      decision,
+      reviewer,
+      { expiresAt }
+    );
+
+    const resumedRuns =
+      decision === 'approved'
+        ? (await getWorkflowRunService().resumeBudgetHolds(override.id)).map((run) => run.id)
+        : [];
+    res.json({ ...override, resumedRuns });
+  })
+);
+
+/**
+ * POST /api/budgets/:id/overrides
+ * Agents file requests as themselves.
+ */
+router.post(
+  '/:id/overrides',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const parsed = requestOverrideSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError('Invalid override request', parsed.error.errors);
+    }
+
+    const requestedBy = req.auth?.role === 'agent' ? req.auth.agentId : req.auth?.keyName;
+    const override = await getBudgetService().requestOverride(String(req.params.id), {
+      ...parsed.data,
+      ...(requestedBy ? { requestedBy } : {}),
+    });
+    res.status(201).json(override);
+  })
+);
+
+export { router as budgetRoutes };
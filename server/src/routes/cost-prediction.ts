@@ -12,6 +12,7 @@ import { getCostPredictionService } from '../services/cost-prediction-service.js
 import { getTaskService } from '../services/task-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 
@@ -61,9 +62,11 @@ router.post(
       });
 
       // Store prediction on the task
-      await taskService.updateTask(task.id, {
-        costPrediction: prediction,
-      } as Record<string, unknown>);
+      await taskService.updateTask(
+        task.id,
+        { costPrediction: prediction } as Record<string, unknown>,
+        { author: getRequestAuthor(req) }
+      );
 
       return res.json(prediction);
     }
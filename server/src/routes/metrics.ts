@@ -65,6 +65,21 @@ router.get(
   })
 );
 
+/**
+ * GET /api/metrics/costs
+ * Get token costs (from the pricing catalog) broken down by model, agent and project
+ */
+router.get(
+  '/costs',
+  validate({ query: MetricsQuerySchema }),
+  asyncHandler(async (req: ValidatedRequest<unknown, MetricsQuery>, res) => {
+    const metrics = getMetricsService();
+    const { period, project, from, to } = req.validated.query!;
+    const result = await metrics.getCostMetrics(period, project, from, to);
+    res.json(result);
+  })
+);
+
 /**
  * GET /api/metrics/duration
  * Get run duration metrics with per-agent breakdown
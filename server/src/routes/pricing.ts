@@ -0,0 +1,110 @@
+/**
+ * Model Pricing API Routes
+ *
+ * GET    /api/pricing              — Current pricing catalog (and whether it's the default)
+ * PUT    /api/pricing              — Replace the catalog and reprice stored token events
+ * DELETE /api/pricing              — Go back to the built-in prices and reprice
+ * POST   /api/pricing/recalculate  — Reprice stored token events from the current catalog
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { getPricingService } from '../services/pricing-service.js';
+import { asyncHandler } from '../middleware/async-handler.js';
+import { authorize } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error-handler.js';
+
+const router: RouterType = Router();
+
+// ─── Validation Schemas ──────────────────────────────────────────
+
+const ratePerMillion = z.number().nonnegative().max(10_000);
+
+const modelPricingSchema = z
+  .object({
+    model: z.string().min(1).max(100),
+    inputPer1M: ratePerMillion,
+    outputPer1M: ratePerMillion,
+    cacheReadPer1M: ratePerMillion.optional(),
+    cacheWritePer1M: ratePerMillion.optional(),
+    effectiveFrom: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'effectiveFrom must be YYYY-MM-DD')
+      .optional(),
+  })
+  .strict();
+
+const catalogSchema = z.object({
+  models: z.array(modelPricingSchema).max(500),
+});
+
+const recalculateSchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
+// ─── Routes ──────────────────────────────────────────────────────
+
+/**
+ * GET /api/pricing
+ */
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const pricing = getPricingService();
+    res.json({ models: await pricing.getCatalog(), isDefault: !(await pricing.isCustom()) });
+  })
+);
+
+/**
+ * PUT /api/pricing
+ * Replace the catalog. Costs computed from the old prices are recalculated.
+ */
+router.put(
+  '/',
+  authorize('admin'),
+  asyncHandler(async (req, res) => {
+    const parsed = catalogSchema.safeParse(req.body);
+    if (!parsed.success) {
+      throw new ValidationError('Invalid pricing catalog', parsed.error.errors);
+    }
+
+    const pricing = getPricingService();
+    const models = await pricing.setCatalog(parsed.data.models);
+    const recalculated = await pricing.recalculate();
+    res.json({ models, isDefault: false, recalculated });
+  })
+);
+
+/**
+ * DELETE /api/pricing
+ * Drop the saved catalog in favour of the built-in prices
+ */
+router.delete(
+  '/',
+  authorize('admin'),
+  asyncHandler(async (_req, res) => {
+    const pricing = getPricingService();
+    const models = await pricing.resetCatalog();
+    const recalculated = await pricing.recalculate();
+    res.json({ models, isDefault: true, recalculated });
+  })
+);
+
+/**
+ * POST /api/pricing/recalculate
+ * Reprice stored token events, optionally only from a date on
+ */
+router.post(
+  '/recalculate',
+  authorize('admin'),
+  asyncHandler(async (req, res) => {
+    const parsed = recalculateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError('Invalid recalculation request', parsed.error.errors);
+    }
+
+    res.json(await getPricingService().recalculate(parsed.data));
+  })
+);
+
+export { router as pricingRoutes };
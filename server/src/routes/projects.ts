@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { ProjectService } from '../services/project-service.js';
-import { getTaskService } from '../services/task-service.js';
+import { getProjectService } from '../services/project-service.js';
+import { BoardColumnsSchema } from '../schemas/feature-settings-schema.js';
 import { createManagedListRouter } from './managed-list-routes.js';
 import { createLogger } from '../lib/logger.js';
 const log = createLogger('projects');
@@ -11,6 +11,7 @@ const createProjectSchema = z.object({
   label: z.string().min(1),
   description: z.string().optional(),
   color: z.string().optional(),
+  columns: BoardColumnsSchema.optional(),
 });
 
 const updateProjectSchema = z.object({
@@ -18,11 +19,12 @@ const updateProjectSchema = z.object({
   description: z.string().optional(),
   color: z.string().optional(),
   isHidden: z.boolean().optional(),
+  // An empty list drops the project's workflow in favour of the default columns
+  columns: z.union([z.tuple([]), BoardColumnsSchema]).optional(),
 });
 
 // Create service instances
-const taskService = getTaskService();
-const projectService = new ProjectService(taskService);
+const projectService = getProjectService();
 
 // Initialize service
 projectService.init().catch((err) => {
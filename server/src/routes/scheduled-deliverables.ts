@@ -8,16 +8,32 @@
  * DELETE /api/deliverables/:id          — Delete deliverable
  * POST   /api/deliverables/:id/runs     — Record a run
  * GET    /api/deliverables/:id/runs     — Get run history
+ * POST   /api/deliverables/:id/trigger  — Run the deliverable's action now
  */
 
 import { Router, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { getScheduledDeliverablesService } from '../services/scheduled-deliverables-service.js';
+import { getDeliverableScheduler } from '../services/deliverable-scheduler.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError } from '../middleware/error-handler.js';
 
 const router: RouterType = Router();
 
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('task'),
+    taskType: z.string().optional(),
+    project: z.string().optional(),
+    priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  }),
+  z.object({
+    type: z.literal('workflow'),
+    workflowId: z.string().min(1),
+    context: z.record(z.unknown()).optional(),
+  }),
+]);
+
 router.get(
   '/',
   asyncHandler(async (req, res) => {
@@ -39,11 +55,14 @@ router.post(
       description: z.string().min(1),
       schedule: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'custom']),
       cronExpr: z.string().optional(),
+      timezone: z.string().optional(),
       scheduleDescription: z.string().optional(),
       agent: z.string().optional(),
       outputPath: z.string().optional(),
       tags: z.array(z.string()).optional(),
       enabled: z.boolean().optional(),
+      action: actionSchema.optional(),
+      missedRunPolicy: z.enum(['catch-up', 'skip']).optional(),
     });
     const data = schema.parse(req.body);
     const service = getScheduledDeliverablesService();
@@ -70,11 +89,14 @@ router.patch(
       description: z.string().optional(),
       schedule: z.enum(['daily', 'weekly', 'biweekly', 'monthly', 'custom']).optional(),
       cronExpr: z.string().optional(),
+      timezone: z.string().optional(),
       scheduleDescription: z.string().optional(),
       enabled: z.boolean().optional(),
       agent: z.string().optional(),
       outputPath: z.string().optional(),
       tags: z.array(z.string()).optional(),
+      action: actionSchema.optional(),
+      missedRunPolicy: z.enum(['catch-up', 'skip']).optional(),
     });
     const update = schema.parse(req.body);
     const service = getScheduledDeliverablesService();
@@ -123,4 +145,13 @@ router.get(
   })
 );
 
+router.post(
+  '/:id/trigger',
+  asyncHandler(async (req, res) => {
+    const run = await getDeliverableScheduler().runNow(String(req.params.id));
+    if (!run) throw new NotFoundError('Deliverable not found');
+    res.status(201).json(run);
+  })
+);
+
 export { router as scheduledDeliverablesRoutes };
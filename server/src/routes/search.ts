@@ -0,0 +1,38 @@
+/**
+ * Search API Routes
+ *
+ * GET /api/search?q=&limit= — Ranked search across tasks, comments, attachments and docs
+ *
+ * Query syntax: free terms, "exact phrases" and filters
+ * (status:, project:, agent:, type:, priority:, sprint:, is:task|doc)
+ */
+
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/async-handler.js';
+import { getSearchService } from '../services/search-service.js';
+
+const router: RouterType = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().max(500).default(''),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+/**
+ * GET /api/search
+ */
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const { q, limit } = searchQuerySchema.parse(req.query);
+    if (!q.trim()) {
+      return res.json({ query: null, total: 0, results: [] });
+    }
+
+    const results = await getSearchService().search(q, { limit });
+    res.json(results);
+  })
+);
+
+export { router as searchRoutes };
@@ -6,7 +6,7 @@ import { broadcastTaskChange } from '../services/broadcast-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
 import { auditLog } from '../services/audit-service.js';
-import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { getRequestAuthor, type AuthenticatedRequest } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -133,7 +133,9 @@ router.post(
 router.post(
   '/:id/restore',
   asyncHandler(async (req, res) => {
-    const task = await taskService.restoreTask(req.params.id as string);
+    const task = await taskService.restoreTask(req.params.id as string, {
+      author: getRequestAuthor(req),
+    });
     if (!task) {
       throw new NotFoundError('Archived task not found');
     }
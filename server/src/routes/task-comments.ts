@@ -1,11 +1,12 @@
 import { Router, type Router as RouterType } from 'express';
-import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import { getTaskService } from '../services/task-service.js';
+import { createComment } from '../services/task-array-ops.js';
 import { activityService } from '../services/activity-service.js';
 import { getGitHubSyncService } from '../services/github-sync-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 import { sanitizeCommentText, sanitizeAuthor } from '../utils/sanitize.js';
 
 const router: RouterType = Router();
@@ -39,15 +40,11 @@ router.post(
       throw new NotFoundError('Task not found');
     }
 
-    const comment = {
-      id: `comment_${randomUUID()}`,
-      author,
-      text,
-      timestamp: new Date().toISOString(),
-    };
-
-    const comments = [...(task.comments || []), comment];
-    const updatedTask = await taskService.updateTask(req.params.id as string, { comments });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { addComments: [createComment(author, text)] },
+      { author: getRequestAuthor(req) }
+    );
 
     // Log activity
     await activityService.logActivity(
@@ -95,22 +92,17 @@ router.patch(
       throw new NotFoundError('Task not found');
     }
 
-    const comments = task.comments || [];
-    const commentIndex = comments.findIndex(
-      (c: { id: string; author: string; text: string; timestamp: string }) =>
-        c.id === (req.params.commentId as string)
-    );
-    if (commentIndex === -1) {
+    const commentId = req.params.commentId as string;
+    if (!(task.comments || []).some((c: { id: string }) => c.id === commentId)) {
       throw new NotFoundError('Comment not found');
     }
 
-    comments[commentIndex] = {
-      ...comments[commentIndex],
-      text,
-      timestamp: comments[commentIndex].timestamp, // preserve original timestamp
-    };
-
-    const updatedTask = await taskService.updateTask(req.params.id as string, { comments });
+    // Edits keep the original timestamp
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { updateComments: [{ id: commentId, text }] },
+      { author: getRequestAuthor(req) }
+    );
     res.json(updatedTask);
   })
 );
@@ -124,18 +116,16 @@ router.delete(
       throw new NotFoundError('Task not found');
     }
 
-    const comments = task.comments || [];
-    const filtered = comments.filter(
-      (c: { id: string; author: string; text: string; timestamp: string }) =>
-        c.id !== (req.params.commentId as string)
-    );
-    if (filtered.length === comments.length) {
+    const commentId = req.params.commentId as string;
+    if (!(task.comments || []).some((c: { id: string }) => c.id === commentId)) {
       throw new NotFoundError('Comment not found');
     }
 
-    const updatedTask = await taskService.updateTask(req.params.id as string, {
-      comments: filtered,
-    });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { removeComments: [commentId] },
+      { author: getRequestAuthor(req) }
+    );
 
     await activityService.logActivity(
       'comment_deleted',
@@ -5,6 +5,7 @@ import { getTaskService } from '../services/task-service.js';
 import { activityService } from '../services/activity-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 import {
   AddDeliverableBodySchema,
   UpdateDeliverableBodySchema,
@@ -58,7 +59,11 @@ router.post(
     };
 
     const deliverables = [...(task.deliverables || []), deliverable];
-    const updatedTask = await taskService.updateTask(req.params.id as string, { deliverables });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { deliverables },
+      { author: getRequestAuthor(req) }
+    );
 
     // Log activity
     await activityService.logActivity(
@@ -120,7 +125,11 @@ router.patch(
       ...body,
     };
 
-    const updatedTask = await taskService.updateTask(req.params.id as string, { deliverables });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { deliverables },
+      { author: getRequestAuthor(req) }
+    );
 
     // Log activity
     await activityService.logActivity(
@@ -177,9 +186,11 @@ router.delete(
         description?: string;
       }) => d.id === (req.params.deliverableId as string)
     );
-    const updatedTask = await taskService.updateTask(req.params.id as string, {
-      deliverables: filtered,
-    });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { deliverables: filtered },
+      { author: getRequestAuthor(req) }
+    );
 
     // Log activity
     await activityService.logActivity(
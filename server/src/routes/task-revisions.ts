@@ -0,0 +1,87 @@
+import { Router, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { getTaskService } from '../services/task-service.js';
+import { getTaskRevisionService, isRestorableField } from '../services/task-revision-service.js';
+import { activityService } from '../services/activity-service.js';
+import { broadcastTaskChange } from '../services/broadcast-service.js';
+import { asyncHandler } from '../middleware/async-handler.js';
+import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
+
+const router: RouterType = Router();
+const taskService = getTaskService();
+const revisionService = getTaskRevisionService();
+
+// Validation schemas
+const restoreSchema = z.object({
+  field: z.string().min(1).max(100).optional(),
+});
+
+// GET /api/tasks/:id/revisions - List revisions, newest first
+router.get(
+  '/:id/revisions',
+  asyncHandler(async (req, res) => {
+    const task = await taskService.getTask(req.params.id as string);
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+
+    const revisions = await revisionService.listRevisions(task.id);
+    res.json(revisions.reverse());
+  })
+);
+
+// POST /api/tasks/:id/revisions/:revisionId/restore - Restore the task (or one field)
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  asyncHandler(async (req, res) => {
+    let field: string | undefined;
+    try {
+      ({ field } = restoreSchema.parse(req.body ?? {}));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new ValidationError('Validation failed', error.errors);
+      }
+      throw error;
+    }
+    if (field !== undefined && !isRestorableField(field)) {
+      throw new ValidationError(`Field "${field}" cannot be restored`);
+    }
+
+    const task = await taskService.getTask(req.params.id as string);
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+
+    const revisionId = req.params.revisionId as string;
+    const input = await revisionService.getRestoreInput(task.id, revisionId, field);
+    if (!input) {
+      throw new NotFoundError('Revision not found');
+    }
+    if (field !== undefined && !(field in input)) {
+      throw new ValidationError(`No revision of this task changed "${field}"`);
+    }
+
+    const author = getRequestAuthor(req);
+    const updatedTask = await taskService.updateTask(task.id, input, {
+      author,
+      restoredFrom: revisionId,
+    });
+    if (!updatedTask) {
+      throw new NotFoundError('Task not found');
+    }
+    broadcastTaskChange('updated', updatedTask.id);
+
+    await activityService.logActivity(
+      'task_updated',
+      updatedTask.id,
+      updatedTask.title,
+      { restoredFrom: revisionId, ...(field ? { field } : {}) },
+      author
+    );
+
+    res.json(updatedTask);
+  })
+);
+
+export { router as taskRevisionRoutes };
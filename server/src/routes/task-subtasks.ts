@@ -1,10 +1,13 @@
 import { Router, type Router as RouterType } from 'express';
-import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import { getTaskService } from '../services/task-service.js';
+import { createSubtask } from '../services/task-array-ops.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
-import type { Subtask } from '@veritas-kanban/shared';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { holdForReview, requireAgentPermission } from '../middleware/agent-permissions.js';
+import { getRequestAuthor } from '../middleware/auth.js';
+import type { Subtask, UpdateTaskInput } from '@veritas-kanban/shared';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -46,19 +49,11 @@ router.post(
       throw new NotFoundError('Task not found');
     }
 
-    const subtask = {
-      id: `subtask_${randomUUID()}`,
-      title,
-      completed: false,
-      created: new Date().toISOString(),
-      ...(acceptanceCriteria && {
-        acceptanceCriteria,
-        criteriaChecked: new Array(acceptanceCriteria.length).fill(false),
-      }),
-    };
-
-    const subtasks = [...(task.subtasks || []), subtask];
-    const updatedTask = await taskService.updateTask(req.params.id as string, { subtasks });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { addSubtasks: [createSubtask(title, acceptanceCriteria)] },
+      { author: getRequestAuthor(req) }
+    );
 
     res.status(201).json(updatedTask);
   })
@@ -83,23 +78,34 @@ router.patch(
       throw new NotFoundError('Task not found');
     }
 
-    const subtasks = task.subtasks || [];
-    const subtaskIndex = subtasks.findIndex(
-      (s: Subtask) => s.id === (req.params.subtaskId as string)
+    const subtaskId = req.params.subtaskId as string;
+    const subtasks = (task.subtasks || []).map((s: Subtask) =>
+      s.id === subtaskId ? { ...s, ...updates } : s
     );
-    if (subtaskIndex === -1) {
+    if (!subtasks.some((s: Subtask) => s.id === subtaskId)) {
       throw new NotFoundError('Subtask not found');
     }
 
-    subtasks[subtaskIndex] = { ...subtasks[subtaskIndex], ...updates };
-
     // Check if we should auto-complete the parent task
-    let taskUpdates: any = { subtasks };
-    if (task.autoCompleteOnSubtasks && subtasks.every((s: Subtask) => s.completed)) {
-      taskUpdates.status = 'done';
+    const taskUpdates: UpdateTaskInput = { updateSubtasks: [{ id: subtaskId, ...updates }] };
+    const finishing =
+      task.autoCompleteOnSubtasks &&
+      task.status !== 'done' &&
+      subtasks.every((s: Subtask) => s.completed);
+    if (finishing) {
+      // Finishing through the last subtask needs the same permission as moving the task to done
+      const approval = await requireAgentPermission(req as AuthenticatedRequest, 'complete_task', {
+        taskId: task.id,
+        details: `Move "${task.title}" to done`,
+        payload: { status: 'done', column: null },
+      });
+      Object.assign(taskUpdates, approval ? holdForReview(approval) : { status: 'done' });
+      if (approval) res.setHeader('X-Approval-Request', approval.id);
     }
 
-    const updatedTask = await taskService.updateTask(req.params.id as string, taskUpdates);
+    const updatedTask = await taskService.updateTask(req.params.id as string, taskUpdates, {
+      author: getRequestAuthor(req),
+    });
 
     res.json(updatedTask);
   })
@@ -114,10 +120,11 @@ router.delete(
       throw new NotFoundError('Task not found');
     }
 
-    const subtasks = (task.subtasks || []).filter(
-      (s: Subtask) => s.id !== (req.params.subtaskId as string)
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { removeSubtasks: [req.params.subtaskId as string] },
+      { author: getRequestAuthor(req) }
     );
-    const updatedTask = await taskService.updateTask(req.params.id as string, { subtasks });
 
     res.json(updatedTask);
   })
@@ -137,13 +144,11 @@ router.patch(
       throw new NotFoundError('Task not found');
     }
 
-    const subtasks = task.subtasks || [];
-    const subtaskIndex = subtasks.findIndex((s) => s.id === (req.params.subtaskId as string));
-    if (subtaskIndex === -1) {
+    const subtask = (task.subtasks || []).find((s) => s.id === (req.params.subtaskId as string));
+    if (!subtask) {
       throw new NotFoundError('Subtask not found');
     }
 
-    const subtask = subtasks[subtaskIndex];
     if (!subtask.acceptanceCriteria || !subtask.criteriaChecked) {
       throw new ValidationError('Subtask has no acceptance criteria');
     }
@@ -156,12 +161,11 @@ router.patch(
     const newCriteriaChecked = [...subtask.criteriaChecked];
     newCriteriaChecked[criteriaIndex] = !newCriteriaChecked[criteriaIndex];
 
-    subtasks[subtaskIndex] = {
-      ...subtask,
-      criteriaChecked: newCriteriaChecked,
-    };
-
-    const updatedTask = await taskService.updateTask(req.params.id as string, { subtasks });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { updateSubtasks: [{ id: subtask.id, criteriaChecked: newCriteriaChecked }] },
+      { author: getRequestAuthor(req) }
+    );
 
     res.json(updatedTask);
   })
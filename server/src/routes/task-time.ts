@@ -4,6 +4,7 @@ import { getTaskService } from '../services/task-service.js';
 import { broadcastTaskChange } from '../services/broadcast-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -27,7 +28,9 @@ router.get(
 router.post(
   '/:id/time/start',
   asyncHandler(async (req, res) => {
-    const task = await taskService.startTimer(req.params.id as string);
+    const task = await taskService.startTimer(req.params.id as string, {
+      author: getRequestAuthor(req),
+    });
     broadcastTaskChange('updated', task.id);
     res.json(task);
   })
@@ -37,7 +40,9 @@ router.post(
 router.post(
   '/:id/time/stop',
   asyncHandler(async (req, res) => {
-    const task = await taskService.stopTimer(req.params.id as string);
+    const task = await taskService.stopTimer(req.params.id as string, {
+      author: getRequestAuthor(req),
+    });
     broadcastTaskChange('updated', task.id);
     res.json(task);
   })
@@ -57,7 +62,9 @@ router.post(
       }
       throw error;
     }
-    const task = await taskService.addTimeEntry(req.params.id as string, duration, description);
+    const task = await taskService.addTimeEntry(req.params.id as string, duration, description, {
+      author: getRequestAuthor(req),
+    });
     broadcastTaskChange('updated', task.id);
     res.json(task);
   })
@@ -69,7 +76,8 @@ router.delete(
   asyncHandler(async (req, res) => {
     const task = await taskService.deleteTimeEntry(
       req.params.id as string,
-      req.params.entryId as string
+      req.params.entryId as string,
+      { author: getRequestAuthor(req) }
     );
     broadcastTaskChange('updated', task.id);
     res.json(task);
@@ -1,16 +1,43 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { TaskTypeService } from '../services/task-type-service.js';
-import { getTaskService } from '../services/task-service.js';
+import { CUSTOM_FIELD_TYPES, type CustomFieldType } from '@veritas-kanban/shared';
+import { getTaskTypeService } from '../services/task-type-service.js';
 import { createManagedListRouter } from './managed-list-routes.js';
 import { createLogger } from '../lib/logger.js';
 const log = createLogger('task-types');
 
 // Validation schemas
+const customFieldSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[a-zA-Z][a-zA-Z0-9_-]{0,49}$/,
+        'Field ID must start with a letter (letters, digits, _ and -)'
+      ),
+    label: z.string().min(1).max(100),
+    type: z.enum(CUSTOM_FIELD_TYPES as [CustomFieldType, ...CustomFieldType[]]),
+    required: z.boolean().optional(),
+    options: z.array(z.string().min(1).max(100)).max(50).optional(),
+    description: z.string().max(500).optional(),
+  })
+  .refine((field) => field.type !== 'enum' || (field.options?.length ?? 0) > 0, {
+    message: 'Enum fields need at least one option',
+    path: ['options'],
+  });
+
+const customFieldsSchema = z
+  .array(customFieldSchema)
+  .max(50)
+  .refine((fields) => new Set(fields.map((f) => f.id)).size === fields.length, {
+    message: 'Custom field IDs must be unique',
+  });
+
 const createTaskTypeSchema = z.object({
   label: z.string().min(1),
   icon: z.string().min(1),
   color: z.string().optional(),
+  customFields: customFieldsSchema.optional(),
 });
 
 const updateTaskTypeSchema = z.object({
@@ -18,11 +45,11 @@ const updateTaskTypeSchema = z.object({
   icon: z.string().min(1).optional(),
   color: z.string().optional(),
   isHidden: z.boolean().optional(),
+  customFields: customFieldsSchema.optional(),
 });
 
 // Create service instances
-const taskService = getTaskService();
-const taskTypeService = new TaskTypeService(taskService);
+const taskTypeService = getTaskTypeService();
 
 // Initialize service
 taskTypeService.init().catch((err) => {
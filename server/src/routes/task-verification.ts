@@ -4,6 +4,7 @@ import { z } from 'zod';
 import { getTaskService } from '../services/task-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import { getRequestAuthor } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -44,9 +45,11 @@ router.post(
     };
 
     const verificationSteps = [...(task.verificationSteps || []), step];
-    const updatedTask = await taskService.updateTask(req.params.id as string, {
-      verificationSteps,
-    });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { verificationSteps },
+      { author: getRequestAuthor(req) }
+    );
 
     res.status(201).json(updatedTask);
   })
@@ -90,9 +93,11 @@ router.patch(
 
     verificationSteps[stepIndex] = updatedStep;
 
-    const updatedTask = await taskService.updateTask(req.params.id as string, {
-      verificationSteps,
-    });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { verificationSteps },
+      { author: getRequestAuthor(req) }
+    );
 
     res.json(updatedTask);
   })
@@ -111,9 +116,11 @@ router.delete(
       (s: { id: string; description: string; checked: boolean; checkedAt?: string }) =>
         s.id !== (req.params.stepId as string)
     );
-    const updatedTask = await taskService.updateTask(req.params.id as string, {
-      verificationSteps,
-    });
+    const updatedTask = await taskService.updateTask(
+      req.params.id as string,
+      { verificationSteps },
+      { author: getRequestAuthor(req) }
+    );
 
     res.json(updatedTask);
   })
@@ -1,4 +1,4 @@
-import { Router, type Router as RouterType } from 'express';
+import { Router, type Request, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { getTaskService } from '../services/task-service.js';
 import { WorktreeService } from '../services/worktree-service.js';
@@ -7,15 +7,32 @@ import { getBlockingService } from '../services/blocking-service.js';
 import { getGitHubSyncService } from '../services/github-sync-service.js';
 import { getDelegationService } from '../services/delegation-service.js';
 import { getProgressService } from '../services/progress-service.js';
-import type { CreateTaskInput, UpdateTaskInput, Task, TaskSummary } from '@veritas-kanban/shared';
+import {
+  matchesCustomFieldFilters,
+  parseCustomFieldFilters,
+  type CreateTaskInput,
+  type UpdateTaskInput,
+  type Task,
+  type TaskSummary,
+} from '@veritas-kanban/shared';
+import { getTaskTypeService } from '../services/task-type-service.js';
+import { getBoardWorkflowService } from '../services/board-workflow-service.js';
 import { broadcastTaskChange } from '../services/broadcast-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
-import { NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import {
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+} from '../middleware/error-handler.js';
 import { sendPaginated } from '../middleware/response-envelope.js';
-import { setLastModified } from '../middleware/cache-control.js';
-import { sanitizeTaskFields } from '../utils/sanitize.js';
+import { setLastModified, setTaskETag } from '../middleware/cache-control.js';
+import { sanitizeAuthor, sanitizeCommentText, sanitizeTaskFields } from '../utils/sanitize.js';
+import { toCsv } from '../utils/csv.js';
+import { createComment, createSubtask } from '../services/task-array-ops.js';
 import { auditLog } from '../services/audit-service.js';
-import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { getRequestAuthor, type AuthenticatedRequest } from '../middleware/auth.js';
+import { holdForReview, requireAgentPermission } from '../middleware/agent-permissions.js';
+import type { ApprovalRequest } from '../services/agent-permission-service.js';
 
 const router: RouterType = Router();
 const taskService = getTaskService();
@@ -23,6 +40,8 @@ const worktreeService = new WorktreeService();
 const blockingService = getBlockingService();
 const delegationService = getDelegationService();
 const progressService = getProgressService();
+const taskTypeService = getTaskTypeService();
+const boardWorkflowService = getBoardWorkflowService();
 
 // Validation schemas
 const reviewCommentSchema = z.object({
@@ -35,6 +54,9 @@ const reviewCommentSchema = z.object({
 
 export const reviewScoresSchema = z.array(z.number().int().min(0).max(10)).length(4);
 
+// Shape only — values are checked against the task type's definitions
+const customFieldValueSchema = z.union([z.string(), z.number()]);
+
 const createTaskSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().optional().default(''),
@@ -45,6 +67,8 @@ const createTaskSchema = z.object({
   agent: z.string().max(50).optional(), // "auto" | agent type slug
   reviewScores: reviewScoresSchema.optional(),
   reviewComments: z.array(reviewCommentSchema).optional(),
+  customFields: z.record(customFieldValueSchema).optional(),
+  column: z.string().max(50).optional(),
 });
 
 const gitSchema = z
@@ -108,6 +132,24 @@ const subtaskSchema = z.object({
   criteriaChecked: z.array(z.boolean()).optional(),
 });
 
+const addSubtaskSchema = z.object({
+  title: z.string().min(1).max(200),
+  acceptanceCriteria: z.array(z.string()).optional(),
+});
+
+const subtaskUpdateSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1).max(200).optional(),
+  completed: z.boolean().optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+  criteriaChecked: z.array(z.boolean()).optional(),
+});
+
+const addCommentSchema = z.object({
+  author: z.string().min(1).max(100),
+  text: z.string().min(1).max(2000),
+});
+
 const githubSchema = z
   .object({
     issueNumber: z.number().int().positive(),
@@ -120,6 +162,7 @@ const updateTaskSchema = z.object({
   description: z.string().optional(),
   type: z.string().optional(),
   status: z.enum(['todo', 'in-progress', 'blocked', 'done']).optional(),
+  column: z.string().max(50).nullable().optional(),
   priority: z.enum(['low', 'medium', 'high']).optional(),
   project: z.string().optional(),
   sprint: z.string().optional(),
@@ -137,8 +180,57 @@ const updateTaskSchema = z.object({
   plan: z.string().optional(),
   automation: automationSchema,
   position: z.number().optional(),
+  customFields: z.record(customFieldValueSchema.nullable()).optional(),
+  // Optimistic concurrency: alternative to the If-Match header
+  version: z.number().int().min(0).optional(),
+  // Array merge operations
+  addSubtasks: z.array(addSubtaskSchema).optional(),
+  updateSubtasks: z.array(subtaskUpdateSchema).optional(),
+  removeSubtasks: z.array(z.string()).optional(),
+  addComments: z.array(addCommentSchema).optional(),
 });
 
+/**
+ * Version the client expects to update, from `If-Match: "<version>"` or a
+ * `version` body field. `If-Match: *` (or neither) skips the check.
+ */
+function expectedVersion(ifMatch: string | undefined, bodyVersion?: number): number | undefined {
+  if (!ifMatch || ifMatch.trim() === '*') return bodyVersion;
+
+  const match = ifMatch.trim().match(/^(?:W\/)?"(\d+)"$/);
+  if (!match) {
+    throw new ValidationError('If-Match must be a task ETag, e.g. "3"');
+  }
+  const version = Number(match[1]);
+  if (bodyVersion !== undefined && bodyVersion !== version) {
+    throw new ValidationError('If-Match and body version disagree');
+  }
+  return version;
+}
+
+/**
+ * Filters shared by the task list and CSV export: comma-separated status,
+ * priority and type, exact project, and `cf.<field>=<value>` custom fields
+ */
+function filterTaskList(tasks: Task[], query: Request['query']): Task[] {
+  const list = (param: unknown) =>
+    typeof param === 'string' ? param.split(',').map((s) => s.trim()) : undefined;
+  const statuses = list(query.status);
+  const priorities = list(query.priority);
+  const types = list(query.type);
+  const project = typeof query.project === 'string' ? query.project : undefined;
+  const customFields = parseCustomFieldFilters(query);
+
+  return tasks.filter(
+    (t) =>
+      (!statuses || statuses.includes(t.status)) &&
+      (!priorities || priorities.includes(t.priority)) &&
+      (!types || types.includes(t.type)) &&
+      (!project || t.project === project) &&
+      matchesCustomFieldFilters(t, customFields)
+  );
+}
+
 // Progress schemas
 const appendProgressSchema = z.object({
   section: z.string().min(1),
@@ -183,6 +275,10 @@ const appendProgressSchema = z.object({
  *         schema: { type: string }
  *         description: Filter by project name (exact match)
  *       - in: query
+ *         name: cf.{field}
+ *         schema: { type: string }
+ *         description: Filter by a custom field value, e.g. cf.severity=high (case-insensitive)
+ *       - in: query
  *         name: view
  *         schema: { type: string, enum: [summary] }
  *         description: '"summary" returns lightweight TaskSummary objects'
@@ -205,29 +301,8 @@ const appendProgressSchema = z.object({
 router.get(
   '/',
   asyncHandler(async (req, res) => {
-    let tasks = await taskService.listTasks();
-
     // --- Filtering ---
-    const statusFilter = req.query.status as string | undefined;
-    const priorityFilter = req.query.priority as string | undefined;
-    const typeFilter = req.query.type as string | undefined;
-    const projectFilter = req.query.project as string | undefined;
-
-    if (statusFilter) {
-      const statuses = statusFilter.split(',').map((s) => s.trim());
-      tasks = tasks.filter((t) => statuses.includes(t.status));
-    }
-    if (priorityFilter) {
-      const priorities = priorityFilter.split(',').map((s) => s.trim());
-      tasks = tasks.filter((t) => priorities.includes(t.priority));
-    }
-    if (typeFilter) {
-      const types = typeFilter.split(',').map((s) => s.trim());
-      tasks = tasks.filter((t) => types.includes(t.type));
-    }
-    if (projectFilter) {
-      tasks = tasks.filter((t) => t.project === projectFilter);
-    }
+    let tasks = filterTaskList(await taskService.listTasks(), req.query);
 
     const total = tasks.length;
 
@@ -283,6 +358,7 @@ router.get(
           id: task.id,
           title: task.title,
           status: task.status,
+          column: task.column,
           priority: task.priority,
           type: task.type,
           project: task.project,
@@ -304,6 +380,7 @@ router.get(
               }
             : undefined,
           attempt: task.attempt,
+          customFields: task.customFields,
         })
       );
     } else {
@@ -424,6 +501,71 @@ router.get(
   })
 );
 
+/**
+ * @openapi
+ * /api/tasks/export:
+ *   get:
+ *     summary: Export tasks as CSV
+ *     description: >
+ *       Download active tasks as CSV with one `cf.<field>` column per custom
+ *       field declared by any task type. Accepts the same filters as GET /api/tasks.
+ *     tags: [Tasks]
+ *     responses:
+ *       200:
+ *         description: CSV file download
+ *         content:
+ *           text/csv:
+ *             schema: { type: string }
+ */
+router.get(
+  '/export',
+  asyncHandler(async (req, res) => {
+    const tasks = filterTaskList(await taskService.listTasks(), req.query);
+    const taskTypes = await taskTypeService.list(true);
+
+    // Declared fields first (in type order), then any values left over from
+    // fields that have since been removed from their type
+    const fieldIds = [
+      ...new Set([
+        ...taskTypes.flatMap((type) => (type.customFields ?? []).map((field) => field.id)),
+        ...tasks.flatMap((task) => Object.keys(task.customFields ?? {})),
+      ]),
+    ];
+
+    const headers = [
+      'id',
+      'title',
+      'status',
+      'priority',
+      'type',
+      'project',
+      'sprint',
+      'agent',
+      'created',
+      'updated',
+      ...fieldIds.map((id) => `cf.${id}`),
+    ];
+    const rows = tasks.map((task) => [
+      task.id,
+      task.title,
+      task.status,
+      task.priority,
+      task.type,
+      task.project ?? '',
+      task.sprint ?? '',
+      task.agent ?? '',
+      task.created,
+      task.updated,
+      ...fieldIds.map((id) => String(task.customFields?.[id] ?? '')),
+    ]);
+
+    const filename = `tasks-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(toCsv(headers, rows));
+  })
+);
+
 // POST /api/tasks/reorder - Reorder tasks within a column
 router.post(
   '/reorder',
@@ -437,7 +579,9 @@ router.post(
       }
       throw error;
     }
-    const updated = await taskService.reorderTasks(orderedIds);
+    const updated = await taskService.reorderTasks(orderedIds, {
+      author: getRequestAuthor(req),
+    });
     broadcastTaskChange('reordered');
     res.json({ updated: updated.length });
   })
@@ -478,6 +622,7 @@ router.get(
       throw new NotFoundError('Task not found');
     }
     setLastModified(res, task.updated || task.created);
+    setTaskETag(res, task);
     res.json(task);
   })
 );
@@ -538,6 +683,13 @@ router.post(
     }
     // Sanitize user-provided text fields to prevent stored XSS
     sanitizeTaskFields(input);
+    await taskTypeService.validateCustomFields(input.type ?? 'code', input.customFields);
+    await requireAgentPermission(req as AuthenticatedRequest, 'create_task', {
+      details: input.title,
+      payload: { ...input },
+    });
+    const placement = await boardWorkflowService.resolvePlacement(null, input);
+    input.column = placement?.column;
     const task = await taskService.createTask(input);
     broadcastTaskChange('created', task.id);
 
@@ -576,6 +728,12 @@ router.post(
  *       Partially update a task. Supports changing status, priority, title, description,
  *       and more. Moving a blocked task to in-progress checks blockedBy dependencies.
  *       Moving out of blocked status auto-clears blockedReason.
+ *       Send `column` to move the task to a custom board column; its status
+ *       follows the column's category.
+ *       Send the task's ETag as If-Match (or its `version` in the body) to
+ *       reject the update with 412 if someone else changed the task first.
+ *       addSubtasks, updateSubtasks, removeSubtasks and addComments change
+ *       single array elements without sending (and overwriting) whole arrays.
  *     tags: [Tasks]
  *     parameters:
  *       - in: path
@@ -608,13 +766,41 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Target board column is at its WIP limit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         description: Task changed since the given version; details carry the current task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.patch(
   '/:id',
   asyncHandler(async (req, res) => {
     let input: UpdateTaskInput;
+    let version: number | undefined;
     try {
-      input = updateTaskSchema.parse(req.body) as UpdateTaskInput;
+      const {
+        version: bodyVersion,
+        addSubtasks,
+        addComments,
+        ...fields
+      } = updateTaskSchema.parse(req.body);
+      input = fields as UpdateTaskInput;
+      if (addSubtasks) {
+        input.addSubtasks = addSubtasks.map((s) => createSubtask(s.title, s.acceptanceCriteria));
+      }
+      if (addComments) {
+        input.addComments = addComments.map((c) =>
+          createComment(sanitizeAuthor(c.author), sanitizeCommentText(c.text))
+        );
+      }
+      version = bodyVersion;
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw new ValidationError('Validation failed', error.errors);
@@ -623,15 +809,81 @@ router.patch(
     }
     // Sanitize user-provided text fields to prevent stored XSS
     sanitizeTaskFields(input);
+    const expected = expectedVersion(req.get('If-Match'), version);
 
     const oldTask = await taskService.getTask(req.params.id as string);
     if (!oldTask) {
       throw new NotFoundError('Task not found');
     }
 
+    // Fail fast before any side effects; updateTask re-checks under the lock
+    if (expected !== undefined && (oldTask.version ?? 0) !== expected) {
+      throw new PreconditionFailedError(
+        `Task has changed (version ${oldTask.version ?? 0}, expected ${expected})`,
+        { currentVersion: oldTask.version ?? 0, task: oldTask }
+      );
+    }
+
+    // Only validate values that change — clients may echo back values kept
+    // from the task's previous type
+    if (input.customFields) {
+      const changed = Object.entries(input.customFields).filter(
+        ([field, value]) => oldTask.customFields?.[field] !== value
+      );
+      await taskTypeService.validateCustomFields(
+        input.type ?? oldTask.type,
+        Object.fromEntries(changed),
+        { partial: true }
+      );
+    }
+
+    // Map a board column to its status. The WIP limit is checked below, once
+    // an approval hold has settled which column the task really moves to
+    const placement = await boardWorkflowService.resolvePlacement(oldTask, input, {
+      checkWipLimit: false,
+    });
+    if (placement) {
+      input.status = placement.status;
+      input.column = placement.column ?? null;
+    }
+
+    // Agent permission levels: handing the task to another agent, reviewing
+    // work and finishing tasks may need a lead's approval
+    const authReq = req as AuthenticatedRequest;
+    if (
+      input.agent &&
+      input.agent !== 'auto' &&
+      input.agent !== oldTask.agent &&
+      input.agent !== authReq.auth?.agentId
+    ) {
+      await requireAgentPermission(authReq, 'delegate', {
+        taskId: oldTask.id,
+        details: `Assign "${oldTask.title}" to ${input.agent}`,
+        payload: { agent: input.agent },
+      });
+    }
+    if (input.review?.decision && input.review.decision !== oldTask.review?.decision) {
+      await requireAgentPermission(authReq, 'approve', { taskId: oldTask.id });
+    }
+    let approval: ApprovalRequest | null = null;
+    if (input.status === 'done' && oldTask.status !== 'done') {
+      approval = await requireAgentPermission(authReq, 'complete_task', {
+        taskId: oldTask.id,
+        details: `Move "${oldTask.title}" to done`,
+        payload: { status: 'done', column: input.column ?? null },
+      });
+      if (approval) Object.assign(input, holdForReview(approval));
+    }
+
+    // Enforce the WIP limit of the column the task ends up in
+    const finalPlacement = await boardWorkflowService.resolvePlacement(oldTask, input);
+    if (finalPlacement) {
+      input.status = finalPlacement.status;
+      input.column = finalPlacement.column ?? null;
+    }
+
     // Check delegation if moving to 'done'
     if (input.status === 'done' && oldTask.status !== 'done') {
-      const authReq = req as AuthenticatedRequest;
       const agentName = authReq.auth?.keyName || 'unknown';
 
       const delegationCheck = await delegationService.canApprove(agentName, {
@@ -682,7 +934,10 @@ router.patch(
       input.blockedReason = null;
     }
 
-    const task = await taskService.updateTask(req.params.id as string, input);
+    const task = await taskService.updateTask(req.params.id as string, input, {
+      author: getRequestAuthor(req),
+      expectedVersion: expected,
+    });
     if (!task) {
       throw new NotFoundError('Task not found');
     }
@@ -713,6 +968,8 @@ router.patch(
       await activityService.logActivity('task_updated', task.id, task.title, undefined, task.agent);
     }
 
+    setTaskETag(res, task);
+    if (approval) res.setHeader('X-Approval-Request', approval.id);
     res.json(task);
   })
 );
@@ -744,6 +1001,13 @@ router.delete(
   '/:id',
   asyncHandler(async (req, res) => {
     const task = await taskService.getTask(req.params.id as string);
+    if (task) {
+      await requireAgentPermission(req as AuthenticatedRequest, 'delete_task', {
+        taskId: task.id,
+        details: `Delete "${task.title}"`,
+        payload: {},
+      });
+    }
     const success = await taskService.deleteTask(req.params.id as string);
     if (!success) {
       throw new NotFoundError('Task not found');
@@ -980,13 +1244,26 @@ router.post(
       throw error;
     }
 
+    const authReq = req as AuthenticatedRequest;
     const updated: string[] = [];
     const failed: string[] = [];
 
     // Update tasks in parallel for better performance
     const results = await Promise.allSettled(
       input.ids.map(async (id) => {
-        const task = await taskService.updateTask(id, { status: input.status });
+        const finishing =
+          input.status === 'done' && (await taskService.getTask(id))?.status !== 'done';
+        const approval = finishing
+          ? await requireAgentPermission(authReq, 'complete_task', {
+              taskId: id,
+              payload: { status: 'done', column: null },
+            })
+          : null;
+        const task = await taskService.updateTask(
+          id,
+          approval ? holdForReview(approval) : { status: input.status },
+          { author: getRequestAuthor(req) }
+        );
         if (task) {
           // Log activity for status change
           await activityService.logActivity(
@@ -995,7 +1272,7 @@ router.post(
             task.title,
             {
               from: task.status,
-              status: input.status,
+              status: approval ? task.status : input.status,
             },
             task.agent
           );
@@ -1019,7 +1296,6 @@ router.post(
     broadcastTaskChange('updated');
 
     // Audit log
-    const authReq = req as AuthenticatedRequest;
     await auditLog({
       action: 'tasks.bulk_update',
       actor: authReq.auth?.keyName || 'unknown',
@@ -3,6 +3,8 @@ import { getTelemetryService } from '../services/telemetry-service.js';
 import { broadcastTelemetryEvent } from '../services/broadcast-service.js';
 import { getFailureAlertService } from '../services/failure-alert-service.js';
 import { getTaskService } from '../services/task-service.js';
+import { getPricingService } from '../services/pricing-service.js';
+import { getBudgetService } from '../services/budget-service.js';
 import { asyncHandler } from '../middleware/async-handler.js';
 import { validate, type ValidatedRequest } from '../middleware/validate.js';
 import type { TelemetryQueryOptions, AnyTelemetryEvent } from '@veritas-kanban/shared';
@@ -46,7 +48,10 @@ router.post(
   validate({ body: TelemetryEventIngestionSchema }),
   asyncHandler(async (req: ValidatedRequest<unknown, unknown, TelemetryEventIngestion>, res) => {
     const telemetry = getTelemetryService();
-    const eventInput = req.validated.body!;
+    const input = req.validated.body!;
+    // Token usage without a reported cost is priced from the model pricing catalog
+    const eventInput =
+      input.type === 'run.tokens' ? await getPricingService().priceEvent(input) : input;
 
     // Emit the event (adds id and timestamp)
     const event = await telemetry.emit(eventInput);
@@ -77,6 +82,13 @@ router.post(
       })();
     }
 
+    // Notify about budgets that crossed a threshold (non-blocking)
+    if (event.type === 'run.tokens') {
+      getBudgetService()
+        .checkThresholds()
+        .catch((err) => log.error({ err: err }, '[Telemetry] Budget threshold check error'));
+    }
+
     res.status(201).json(event);
   })
 );
@@ -25,6 +25,7 @@ import { taskCommentRoutes } from '../task-comments.js';
 import { taskSubtaskRoutes } from '../task-subtasks.js';
 import { taskVerificationRoutes } from '../task-verification.js';
 import { taskDeliverableRoutes } from '../task-deliverables.js';
+import { taskRevisionRoutes } from '../task-revisions.js';
 import attachmentRoutes from '../attachments.js';
 import { backlogRoutes } from '../backlog.js';
 
@@ -33,6 +34,7 @@ import { configRoutes } from '../config.js';
 import { chatRoutes } from '../chat.js';
 import { agentRoutes } from '../agents.js';
 import { agentRoutingRoutes } from '../agent-routing.js';
+import { agentQueueRoutes } from '../agent-queue.js';
 import { diffRoutes } from '../diff.js';
 import { automationRoutes } from '../automation.js';
 import { summaryRoutes } from '../summary.js';
@@ -56,6 +58,8 @@ import { agentStatusRoutes } from '../agent-status.js';
 import { agentRegistryRoutes } from '../agent-registry.js';
 import { agentPermissionRoutes } from '../agent-permissions.js';
 import { costPredictionRoutes } from '../cost-prediction.js';
+import { pricingRoutes } from '../pricing.js';
+import { budgetRoutes } from '../budgets.js';
 import { errorLearningRoutes } from '../error-learning.js';
 import { docsRoutes } from '../docs.js';
 import { docFreshnessRoutes } from '../doc-freshness.js';
@@ -71,6 +75,7 @@ import lessonsRoutes from '../lessons.js';
 import delegationRoutes from '../delegation.js';
 import { workflowRoutes } from '../workflows.js';
 import toolPolicyRoutes from '../tool-policies.js';
+import { searchRoutes } from '../search.js';
 
 const v1Router: IRouter = Router();
 
@@ -93,6 +98,7 @@ v1Router.use('/tasks', taskCommentRoutes);
 v1Router.use('/tasks', taskSubtaskRoutes);
 v1Router.use('/tasks', taskVerificationRoutes);
 v1Router.use('/tasks', taskDeliverableRoutes);
+v1Router.use('/tasks', taskRevisionRoutes);
 
 // Attachment routes get the stricter upload rate limit (20 req/min)
 // applied BEFORE the route handler for upload (POST) requests.
@@ -118,6 +124,7 @@ v1Router.use('/chat', chatRoutes); // Chat interface - must be before agent rout
 v1Router.use('/agents/register', agentRegistryRoutes); // Before agentRoutes (/:taskId catches "register")
 v1Router.use('/agents/permissions', agentPermissionRoutes);
 v1Router.use('/agents', agentRoutingRoutes); // Must be before agentRoutes (/:taskId would match "route"/"routing")
+v1Router.use('/agents', agentQueueRoutes); // Before agentRoutes (/:taskId would match "queue")
 v1Router.use('/agents', agentRoutes);
 v1Router.use('/diff', diffRoutes);
 v1Router.use('/automation', automationRoutes);
@@ -140,6 +147,8 @@ v1Router.use('/settings', settingsRoutes);
 v1Router.use('/settings/transition-hooks', transitionHooksRoutes);
 v1Router.use('/agent/status', agentStatusRoutes);
 v1Router.use('/cost-prediction', costPredictionRoutes);
+v1Router.use('/pricing', pricingRoutes);
+v1Router.use('/budgets', budgetRoutes);
 v1Router.use('/deliverables', scheduledDeliverablesRoutes);
 v1Router.use('/reports', reportRoutes);
 v1Router.use('/doc-freshness', docFreshnessRoutes);
@@ -154,5 +163,6 @@ v1Router.use('/lessons', lessonsRoutes);
 v1Router.use('/delegation', delegationRoutes);
 v1Router.use('/workflows', workflowRoutes);
 v1Router.use('/tool-policies', toolPolicyRoutes);
+v1Router.use('/search', searchRoutes);
 
 export { v1Router };
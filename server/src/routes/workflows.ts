@@ -13,6 +13,7 @@ import type { AuthenticatedRequest } from '../middleware/auth.js';
 import { NotFoundError, ValidationError, BadRequestError } from '../middleware/error-handler.js';
 import { checkWorkflowPermission, assertWorkflowPermission } from '../middleware/workflow-auth.js';
 import { diffWorkflows } from '../utils/workflow-diff.js';
+import { getWorkflowTriggerService } from '../services/workflow-trigger-service.js';
 
 const router = Router();
 const workflowService = getWorkflowService();
@@ -35,10 +36,32 @@ const startRunSchema = z.object({
   context: z.record(z.unknown()).optional(),
 });
 
+const simulateRunSchema = z.object({
+  taskId: z.string().optional(),
+  context: z.record(z.unknown()).optional(),
+  outputs: z.record(z.union([z.string(), z.array(z.string()).min(1).max(100)])).optional(),
+});
+
 const resumeRunSchema = z.object({
   context: z.record(z.unknown()).optional(),
 });
 
+const cancelRunSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+const versionParamSchema = z.coerce.number().int().min(0);
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(0),
+  to: z.coerce.number().int().min(0).optional(),
+});
+
+const webhookTriggerSchema = z.object({
+  taskId: z.string().optional(),
+  payload: z.record(z.unknown()).optional(),
+});
+
 // Basic input validation - detailed validation happens in WorkflowService
 const workflowCreateSchema = z.object({
   id: z.string().min(1).max(100),
@@ -50,6 +73,7 @@ const workflowCreateSchema = z.object({
   steps: z.array(z.unknown()).min(1).max(50),
   variables: z.record(z.unknown()).optional(),
   schemas: z.record(z.unknown()).optional(),
+  triggers: z.array(z.unknown()).max(20).optional(),
 });
 
 // ==================== Workflow CRUD Routes ====================
@@ -209,6 +233,107 @@ router.delete(
   })
 );
 
+// ==================== Workflow Version Routes ====================
+
+/**
+ * GET /api/workflows/:id/versions — List saved versions, newest first
+ */
+router.get(
+  '/:id/versions',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'view');
+
+    const versions = await workflowService.listVersions(workflowId);
+    if (versions.length === 0) {
+      throw new NotFoundError(`Workflow ${workflowId} not found`);
+    }
+
+    res.json(versions);
+  })
+);
+
+/**
+ * GET /api/workflows/:id/versions/:version — Get a saved version's definition
+ */
+router.get(
+  '/:id/versions/:version',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const version = versionParamSchema.parse(getStringParam(req.params.version));
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'view');
+
+    const workflow = await workflowService.loadWorkflowVersion(workflowId, version);
+    if (!workflow) {
+      throw new NotFoundError(`Workflow ${workflowId} version ${version} not found`);
+    }
+
+    res.json(workflow);
+  })
+);
+
+/**
+ * GET /api/workflows/:id/diff?from=1&to=3 — Diff two versions (`to` defaults to current)
+ */
+router.get(
+  '/:id/diff',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'view');
+
+    const query = diffQuerySchema.parse(req.query);
+    const to = query.to ?? (await workflowService.loadWorkflow(workflowId))?.version;
+    const [fromWorkflow, toWorkflow] = await Promise.all([
+      workflowService.loadWorkflowVersion(workflowId, query.from),
+      to === undefined ? null : workflowService.loadWorkflowVersion(workflowId, to),
+    ]);
+    if (!fromWorkflow || !toWorkflow) {
+      throw new NotFoundError(
+        `Workflow ${workflowId} version ${fromWorkflow ? to : query.from} not found`
+      );
+    }
+
+    res.json({ from: query.from, to, changes: diffWorkflows(fromWorkflow, toWorkflow) });
+  })
+);
+
+/**
+ * POST /api/workflows/:id/versions/:version/rollback — Restore a version as a new version
+ */
+router.post(
+  '/:id/versions/:version/rollback',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const version = versionParamSchema.parse(getStringParam(req.params.version));
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'edit');
+
+    const result = await workflowService.rollbackWorkflow(workflowId, version);
+    if (!result) {
+      throw new NotFoundError(`Workflow ${workflowId} version ${version} not found`);
+    }
+
+    await workflowService.auditChange({
+      timestamp: new Date().toISOString(),
+      userId,
+      action: 'rollback',
+      workflowId,
+      workflowVersion: result.workflow.version,
+      restoredVersion: version,
+      changes: diffWorkflows(result.previous, result.workflow),
+    });
+
+    res.json({ success: true, version: result.workflow.version, restoredVersion: version });
+  })
+);
+
 // ==================== Workflow Run Routes ====================
 
 /**
@@ -243,6 +368,58 @@ router.post(
   })
 );
 
+/**
+ * POST /api/workflows/:id/triggers/:triggerId — Fire a webhook trigger
+ * Returns 201 with the run, or 200 with `skipped` when the task already has an active run
+ */
+router.post(
+  '/:id/triggers/:triggerId',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const triggerId = getStringParam(req.params.triggerId);
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'execute');
+
+    const input = webhookTriggerSchema.parse(req.body ?? {});
+    const result = await getWorkflowTriggerService().fireWebhook(workflowId, triggerId, input);
+    if (!result.run) {
+      res.json({ skipped: true, reason: result.skipped });
+      return;
+    }
+
+    await workflowService.auditChange({
+      timestamp: new Date().toISOString(),
+      userId,
+      action: 'run',
+      workflowId,
+      workflowVersion: result.run.workflowVersion,
+      runId: result.run.id,
+    });
+
+    res.status(201).json(result.run);
+  })
+);
+
+/**
+ * POST /api/workflows/:id/simulate — Dry-run a workflow with canned step outputs
+ * Nothing is persisted and no agents are started
+ */
+router.post(
+  '/:id/simulate',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const workflowId = getStringParam(req.params.id);
+    const userId = getUserId(req);
+
+    await assertWorkflowPermission(workflowId, userId, 'view');
+
+    const input = simulateRunSchema.parse(req.body ?? {});
+    const simulation = await workflowRunService.simulateRun(workflowId, input);
+
+    res.json(simulation);
+  })
+);
+
 /**
  * GET /api/workflow-runs/active — Get currently running workflow runs
  * IMPORTANT: This route MUST come before /runs/:id to avoid path conflicts
@@ -375,6 +552,40 @@ router.post(
   })
 );
 
+/**
+ * POST /api/workflow-runs/:id/cancel — Cancel a pending, running or blocked workflow run
+ * Aborts in-flight steps and cleans up their agent sessions
+ */
+router.post(
+  '/runs/:id/cancel',
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const runId = getStringParam(req.params.id);
+    const userId = getUserId(req);
+
+    const run = await workflowRunService.getRun(runId);
+    if (!run) {
+      throw new NotFoundError(`Workflow run ${runId} not found`);
+    }
+
+    // Check execute permission on the workflow
+    await assertWorkflowPermission(run.workflowId, userId, 'execute');
+
+    if (run.status === 'completed' || run.status === 'failed' || run.status === 'cancelled') {
+      throw new ValidationError(
+        `Run ${runId} has already finished (current status: ${run.status})`
+      );
+    }
+
+    // Validate input
+    const { reason } = cancelRunSchema.parse(req.body || {});
+
+    // Cancel run
+    const cancelled = await workflowRunService.cancelRun(runId, reason);
+
+    res.json(cancelled);
+  })
+);
+
 /**
  * POST /api/workflow-runs/:runId/steps/:stepId/approve — Approve a gate step
  * Phase 4: Gate approval endpoint
@@ -406,11 +617,8 @@ router.post(
       );
     }
 
-    // Security: Verify this is actually a gate step
-    const workflow = await workflowService.loadWorkflow(run.workflowId);
-    if (!workflow) {
-      throw new NotFoundError(`Workflow ${run.workflowId} not found`);
-    }
+    // Security: Verify this is actually a gate step (in the version the run is pinned to)
+    const workflow = await workflowRunService.getRunWorkflow(run);
 
     const stepDef = workflow.steps.find((s) => s.id === stepId);
     if (!stepDef || stepDef.type !== 'gate') {
@@ -467,11 +675,8 @@ router.post(
       );
     }
 
-    // Security: Verify this is actually a gate step
-    const workflow = await workflowService.loadWorkflow(run.workflowId);
-    if (!workflow) {
-      throw new NotFoundError(`Workflow ${run.workflowId} not found`);
-    }
+    // Security: Verify this is actually a gate step (in the version the run is pinned to)
+    const workflow = await workflowRunService.getRunWorkflow(run);
 
     const stepDef = workflow.steps.find((s) => s.id === stepId);
     if (!stepDef || stepDef.type !== 'gate') {
@@ -1,34 +1,57 @@
 import { z } from 'zod';
+import { parseCustomFieldFilters, type CustomFieldValue } from '@veritas-kanban/shared';
 
 /**
  * Analytics Schemas
  * Validates query parameters and request bodies for analytics endpoints
  */
 
+/**
+ * Collect `cf.<field>=<value>` params into `customFields` before validation
+ */
+function withCustomFieldFilters(query: unknown): unknown {
+  if (!query || typeof query !== 'object') return query;
+  const customFields = parseCustomFieldFilters(query as Record<string, unknown>);
+  return Object.keys(customFields).length > 0 ? { ...query, customFields } : query;
+}
+
+const customFieldFiltersSchema = z
+  .record(z.string())
+  .optional()
+  .describe('Custom field filters from cf.<field>=<value> params');
+
 /**
  * Timeline Query Schema
- * GET /api/analytics/timeline?from=ISO&to=ISO&agent=X&project=Y
+ * GET /api/analytics/timeline?from=ISO&to=ISO&agent=X&project=Y&cf.severity=high
  */
-export const TimelineQuerySchema = z.object({
-  from: z.string().datetime().optional().describe('Start date (ISO 8601)'),
-  to: z.string().datetime().optional().describe('End date (ISO 8601)'),
-  agent: z.string().optional().describe('Filter by agent type'),
-  project: z.string().optional().describe('Filter by project'),
-  sprint: z.string().optional().describe('Filter by sprint'),
-});
+export const TimelineQuerySchema = z.preprocess(
+  withCustomFieldFilters,
+  z.object({
+    from: z.string().datetime().optional().describe('Start date (ISO 8601)'),
+    to: z.string().datetime().optional().describe('End date (ISO 8601)'),
+    agent: z.string().optional().describe('Filter by agent type'),
+    project: z.string().optional().describe('Filter by project'),
+    sprint: z.string().optional().describe('Filter by sprint'),
+    customFields: customFieldFiltersSchema,
+  })
+);
 
 export type TimelineQuery = z.infer<typeof TimelineQuerySchema>;
 
 /**
  * Metrics Query Schema
- * GET /api/analytics/metrics?sprint=X&from=ISO&to=ISO&project=Y
+ * GET /api/analytics/metrics?sprint=X&from=ISO&to=ISO&project=Y&cf.severity=high
  */
-export const MetricsQuerySchema = z.object({
-  sprint: z.string().optional().describe('Sprint ID/name'),
-  from: z.string().datetime().optional().describe('Start date (ISO 8601)'),
-  to: z.string().datetime().optional().describe('End date (ISO 8601)'),
-  project: z.string().optional().describe('Filter by project'),
-});
+export const MetricsQuerySchema = z.preprocess(
+  withCustomFieldFilters,
+  z.object({
+    sprint: z.string().optional().describe('Sprint ID/name'),
+    from: z.string().datetime().optional().describe('Start date (ISO 8601)'),
+    to: z.string().datetime().optional().describe('End date (ISO 8601)'),
+    project: z.string().optional().describe('Filter by project'),
+    customFields: customFieldFiltersSchema,
+  })
+);
 
 export type MetricsQuery = z.infer<typeof MetricsQuerySchema>;
 
@@ -42,6 +65,7 @@ export interface TaskTimeline {
   sprint?: string;
   agent?: string;
   status: string;
+  customFields?: Record<string, CustomFieldValue>;
   startTime?: string; // ISO timestamp of first time entry
   endTime?: string; // ISO timestamp of last time entry
   durationSeconds: number; // Total tracked time
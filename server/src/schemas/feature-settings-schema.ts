@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import {
+  BOARD_COLUMN_ID_PATTERN,
+  validateBoardColumns,
+  validateBudgetLimits,
+} from '@veritas-kanban/shared';
 
 // Dangerous keys check
 const DANGEROUS_KEYS = ['__proto__', 'constructor', 'prototype'];
@@ -37,6 +42,31 @@ const DashboardWidgetSettingsSchema = z
   .strict()
   .optional();
 
+/** A workflow's board columns — shared by the board settings and project workflows */
+export const BoardColumnsSchema = z
+  .array(
+    z
+      .object({
+        id: z
+          .string()
+          .regex(
+            BOARD_COLUMN_ID_PATTERN,
+            'Column ID must be lowercase letters, digits, _ and - (max 50)'
+          ),
+        label: z.string().min(1).max(50),
+        category: z.enum(['todo', 'in-progress', 'blocked', 'done']),
+        wipLimit: z.number().int().min(1).max(999).optional(),
+      })
+      .strict()
+  )
+  .min(1)
+  .max(20)
+  .superRefine((columns, ctx) => {
+    for (const message of validateBoardColumns(columns)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
 const BoardSettingsSchema = z
   .object({
     showDashboard: z.boolean().optional(),
@@ -48,6 +78,7 @@ const BoardSettingsSchema = z
     enableDragAndDrop: z.boolean().optional(),
     showDoneMetrics: z.boolean().optional(),
     dashboardWidgets: DashboardWidgetSettingsSchema,
+    columns: BoardColumnsSchema.optional(),
   })
   .strict()
   .optional();
@@ -126,12 +157,40 @@ const ArchiveSettingsSchema = z
   .strict()
   .optional();
 
+const BudgetLimitsSchema = z
+  .array(
+    z
+      .object({
+        id: z
+          .string()
+          .regex(
+            /^[a-z0-9][a-z0-9_-]{0,49}$/,
+            'Budget ID must be lowercase letters, digits, _ and - (max 50)'
+          ),
+        scope: z.enum(['global', 'project', 'agent']),
+        target: z.string().max(100).optional(),
+        window: z.enum(['daily', 'monthly']),
+        costLimit: z.number().min(0).optional(),
+        tokenLimit: z.number().int().min(0).optional(),
+      })
+      .strict()
+  )
+  .max(100)
+  .superRefine((limits, ctx) => {
+    for (const message of validateBudgetLimits(limits)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
 const BudgetSettingsSchema = z
   .object({
     enabled: z.boolean().optional(),
     monthlyTokenLimit: z.number().int().min(0).optional(),
     monthlyCostLimit: z.number().min(0).optional(),
     warningThreshold: z.number().min(0).max(100).optional(),
+    enforce: z.boolean().optional(),
+    limits: BudgetLimitsSchema.optional(),
+    notifyThresholds: z.array(z.number().min(1).max(1000)).max(10).optional(),
   })
   .strict()
   .optional();
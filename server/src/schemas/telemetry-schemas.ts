@@ -108,7 +108,9 @@ const RunTokensEventSchema = BaseEventSchema.extend({
   inputTokens: z.number().int().nonnegative(),
   outputTokens: z.number().int().nonnegative(),
   cacheTokens: z.number().int().nonnegative().optional(),
-  cost: z.number().nonnegative().optional(),
+  cacheReadTokens: z.number().int().nonnegative().optional(),
+  cacheWriteTokens: z.number().int().nonnegative().optional(),
+  cost: z.number().nonnegative().optional(), // Computed from the pricing catalog when omitted
   model: z.string().optional(),
 });
 
@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * CLI script to copy data between the file and SQLite storage backends
+ * Usage: pnpm run migrate-storage <file-to-sqlite|sqlite-to-file> [--db <path>]
+ */
+
+import {
+  FileStorageProvider,
+  SqliteStorageProvider,
+  copyStorage,
+  type StorageProvider,
+} from '../storage/index.js';
+
+const DIRECTIONS = ['file-to-sqlite', 'sqlite-to-file'] as const;
+type Direction = (typeof DIRECTIONS)[number];
+
+function usage(): never {
+  console.error(
+    '\nUsage: pnpm run migrate-storage <file-to-sqlite|sqlite-to-file> [--db <path>]\n'
+  );
+  console.error(
+    '  --db <path>  SQLite database file (default: VERITAS_SQLITE_PATH or .veritas-kanban/veritas.db)\n'
+  );
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): { direction: Direction; dbPath?: string } {
+  const direction = argv[0] as Direction;
+  if (!DIRECTIONS.includes(direction)) usage();
+
+  const dbIndex = argv.indexOf('--db');
+  if (dbIndex !== -1 && !argv[dbIndex + 1]) usage();
+
+  return { direction, dbPath: dbIndex !== -1 ? argv[dbIndex + 1] : undefined };
+}
+
+async function main() {
+  const { direction, dbPath } = parseArgs(process.argv.slice(2));
+
+  const file = new FileStorageProvider();
+  const sqlite = new SqliteStorageProvider({ dbPath });
+  const [source, target]: StorageProvider[] =
+    direction === 'file-to-sqlite' ? [file, sqlite] : [sqlite, file];
+
+  console.log(`\n🗄️  Veritas Kanban - Storage Migration (${direction})\n`);
+  console.log(`   SQLite database: ${sqlite.dbPath}\n`);
+
+  try {
+    await file.initialize();
+    await sqlite.initialize();
+
+    const report = await copyStorage(source, target);
+
+    console.log('✅ Migration complete:');
+    console.log(`   Tasks:            ${report.tasks} active, ${report.archivedTasks} archived`);
+    console.log(`   Activities:       ${report.activities}`);
+    console.log(`   Status history:   ${report.statusHistory}`);
+    console.log(`   Templates:        ${report.templates}`);
+    for (const [list, count] of Object.entries(report.managedLists)) {
+      console.log(`   ${list.padEnd(18)}${count}`);
+    }
+    console.log(`   Telemetry events: ${report.telemetryEvents}\n`);
+  } catch (err) {
+    console.error('\n❌ Migration failed:', err);
+    process.exitCode = 1;
+  } finally {
+    await file.shutdown();
+    await sqlite.shutdown();
+  }
+
+  process.exit();
+}
+
+main();
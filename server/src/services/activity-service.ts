@@ -191,6 +191,18 @@ export class ActivityService {
     return activity;
   }
 
+  /**
+   * Replace the activity log with the given entries (newest-first).
+   * Used by storage migrations.
+   */
+  async importActivities(activities: Activity[]): Promise<void> {
+    await this.ensureDir();
+    await withFileLock(this.activityFile, async () => {
+      const trimmed = activities.slice(0, this.MAX_ACTIVITIES);
+      await writeFile(this.activityFile, JSON.stringify(trimmed, null, 2), 'utf-8');
+    });
+  }
+
   async clearActivities(): Promise<void> {
     await this.ensureDir();
     await writeFile(this.activityFile, '[]', 'utf-8');
@@ -53,14 +53,25 @@ export interface ApprovalRequest {
   taskId?: string;
   /** Additional details */
   details?: string;
+  /** The blocked request's input, replayed when the request is approved */
+  payload?: Record<string, unknown>;
   /** Status */
   status: 'pending' | 'approved' | 'rejected';
   /** Who approved/rejected */
   reviewedBy?: string;
   reviewedAt?: string;
+  /** What happened when the approved action was resumed */
+  outcome?: { taskId?: string; error?: string };
   createdAt: string;
 }
 
+/** Higher ranks have more autonomy */
+export const PERMISSION_LEVEL_RANK: Record<PermissionLevel, number> = {
+  intern: 0,
+  specialist: 1,
+  lead: 2,
+};
+
 // ─── Default Permissions ─────────────────────────────────────────
 
 const DEFAULT_PERMISSIONS: Record<
@@ -256,7 +267,7 @@ class AgentPermissionService {
         return {
           allowed: true,
           reason: 'Task will go to review instead of done',
-          requiresApproval: false,
+          requiresApproval: true,
         };
 
       case 'delete_task':
@@ -281,6 +292,7 @@ class AgentPermissionService {
     action: string;
     taskId?: string;
     details?: string;
+    payload?: Record<string, unknown>;
   }): Promise<ApprovalRequest> {
     await this.ensureLoaded();
 
@@ -290,6 +302,7 @@ class AgentPermissionService {
       action: params.action,
       taskId: params.taskId,
       details: params.details,
+      payload: params.payload,
       status: 'pending',
       createdAt: new Date().toISOString(),
     };
@@ -326,6 +339,31 @@ class AgentPermissionService {
     return request;
   }
 
+  /**
+   * Get a single approval request.
+   */
+  async getApproval(requestId: string): Promise<ApprovalRequest | null> {
+    await this.ensureLoaded();
+    return this.approvals.find((a) => a.id === requestId) ?? null;
+  }
+
+  /**
+   * Record the result of resuming an approved action.
+   */
+  async recordOutcome(
+    requestId: string,
+    outcome: NonNullable<ApprovalRequest['outcome']>
+  ): Promise<ApprovalRequest | null> {
+    await this.ensureLoaded();
+
+    const request = this.approvals.find((a) => a.id === requestId);
+    if (!request) return null;
+
+    request.outcome = outcome;
+    await this.saveApprovals();
+    return request;
+  }
+
   /**
    * Get pending approval requests.
    */
@@ -51,6 +51,8 @@ export interface RegisteredAgent {
   currentTaskTitle?: string;
   /** Session key (for OpenClaw/orchestrator integration) */
   sessionKey?: string;
+  /** Most tasks the agent may hold from the work queue at once (default 1) */
+  maxConcurrentTasks?: number;
 }
 
 export interface AgentRegistration {
@@ -62,6 +64,7 @@ export interface AgentRegistration {
   version?: string;
   metadata?: Record<string, unknown>;
   sessionKey?: string;
+  maxConcurrentTasks?: number;
 }
 
 export interface AgentHeartbeat {
@@ -79,7 +82,7 @@ export interface AgentRegistryData {
 // ─── Configuration ───────────────────────────────────────────────
 
 /** How long before an agent is considered offline (no heartbeat) */
-const HEARTBEAT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+export const HEARTBEAT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
 /** How often to check for stale agents */
 const STALE_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
@@ -121,6 +124,7 @@ class AgentRegistryService {
       version: registration.version ?? existing?.version,
       metadata: registration.metadata ?? existing?.metadata,
       sessionKey: registration.sessionKey ?? existing?.sessionKey,
+      maxConcurrentTasks: registration.maxConcurrentTasks ?? existing?.maxConcurrentTasks,
       status: 'online',
       registeredAt: existing?.registeredAt ?? now,
       lastHeartbeat: now,
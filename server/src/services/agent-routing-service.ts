@@ -6,26 +6,61 @@
  *
  * Rules are evaluated in order — first match wins.
  * Falls back to the configured default when no rules match.
+ *
+ * When agents are registered in the AgentRegistryService, the rule's pick
+ * competes with them: each candidate is scored on capability match,
+ * heartbeat liveness, load, and success rate and cost from telemetry, so
+ * an offline or busy agent loses to a live one that can do the work.
  */
 
 import { ConfigService } from './config-service.js';
 import {
   DEFAULT_ROUTING_CONFIG,
+  DEFAULT_ROUTING_WEIGHTS,
   type AgentRoutingConfig,
+  type AppConfig,
+  type RoutingCandidate,
   type RoutingRule,
   type RoutingResult,
   type RoutingMatchCriteria,
+  type RoutingWeights,
 } from '@veritas-kanban/shared';
 import type { Task, AgentType, TaskPriority } from '@veritas-kanban/shared';
 import { createLogger } from '../lib/logger.js';
+import {
+  getAgentRegistryService,
+  HEARTBEAT_TIMEOUT_MS,
+  type RegisteredAgent,
+} from './agent-registry-service.js';
+import { getMetricsService } from './metrics/metrics-service.js';
+import type { AgentComparisonData } from './metrics/types.js';
 
 const log = createLogger('agent-routing');
 
+type RoutableTask = Pick<Task, 'type' | 'priority' | 'project' | 'subtasks'>;
+
+/** The parts of the registry and telemetry routing reads (injectable for tests) */
+export interface RoutingSignals {
+  listAgents(): RegisteredAgent[];
+  agentStats(project?: string): Promise<AgentComparisonData[]>;
+}
+
+const defaultSignals: RoutingSignals = {
+  listAgents: () => getAgentRegistryService().list(),
+  agentStats: async (project) =>
+    (await getMetricsService().getAgentComparison('30d', project, 1)).agents,
+};
+
+/** Neutral score for factors without data (unknown cost, no runs yet, ...) */
+const UNKNOWN = 0.5;
+
 export class AgentRoutingService {
   private configService: ConfigService;
+  private signals: RoutingSignals;
 
-  constructor(configService?: ConfigService) {
+  constructor(configService?: ConfigService, signals: RoutingSignals = defaultSignals) {
     this.configService = configService || new ConfigService();
+    this.signals = signals;
   }
 
   /**
@@ -34,9 +69,7 @@ export class AgentRoutingService {
    * @param task - Full task object (or partial with type/priority/project/subtasks)
    * @returns RoutingResult with the selected agent, optional model, fallback, and reasoning
    */
-  async resolveAgent(
-    task: Pick<Task, 'type' | 'priority' | 'project' | 'subtasks'>
-  ): Promise<RoutingResult> {
+  async resolveAgent(task: RoutableTask): Promise<RoutingResult> {
     const config = await this.configService.getConfig();
     const routing: AgentRoutingConfig = config.agentRouting || DEFAULT_ROUTING_CONFIG;
 
@@ -49,53 +82,20 @@ export class AgentRoutingService {
       };
     }
 
-    // Evaluate rules in order (first match wins)
-    for (const rule of routing.rules) {
-      if (!rule.enabled) continue;
-
-      if (this.matchesRule(task, rule.match)) {
-        // Verify the agent is actually configured and enabled
-        const agentConfig = config.agents.find(
-          (a: { type: string; name: string; command: string; args: string[]; enabled: boolean }) =>
-            a.type === rule.agent
-        );
-        if (!agentConfig?.enabled) {
-          log.warn(`Rule "${rule.name}" matched but agent "${rule.agent}" is disabled — skipping`);
-          continue;
-        }
+    const { result, rule } = this.resolveByRules(task, config, routing);
+    if (routing.useRegistry === false) return result;
 
-        log.info(
-          `Task [type=${task.type}, priority=${task.priority}] matched rule "${rule.name}" → ${rule.agent}${rule.model ? ` (${rule.model})` : ''}`
-        );
-        return {
-          agent: rule.agent,
-          model: rule.model,
-          fallback: rule.fallback,
-          rule: rule.id,
-          reason: `Matched rule: ${rule.name}`,
-        };
-      }
-    }
+    const registered = this.signals.listAgents();
+    if (registered.length === 0) return result;
 
-    // No rule matched — use defaults
-    log.info(
-      `Task [type=${task.type}, priority=${task.priority}] — no rules matched, using default: ${routing.defaultAgent}`
-    );
-    return {
-      agent: routing.defaultAgent || config.defaultAgent,
-      model: routing.defaultModel,
-      reason: 'No routing rules matched — using default agent',
-    };
+    return this.resolveByScore(task, config, routing, result, rule, registered);
   }
 
   /**
    * Get the fallback agent for a given primary agent.
    * Used when an agent fails and `fallbackOnFailure` is enabled.
    */
-  async getFallback(
-    task: Pick<Task, 'type' | 'priority' | 'project' | 'subtasks'>,
-    failedAgent: AgentType
-  ): Promise<RoutingResult | null> {
+  async getFallback(task: RoutableTask, failedAgent: AgentType): Promise<RoutingResult | null> {
     const config = await this.configService.getConfig();
     const routing: AgentRoutingConfig = config.agentRouting || DEFAULT_ROUTING_CONFIG;
 
@@ -118,6 +118,10 @@ export class AgentRoutingService {
         log.warn(`Fallback agent "${rule.fallback}" for rule "${rule.name}" is disabled`);
         continue;
       }
+      if (this.isOffline(rule.fallback)) {
+        log.warn(`Fallback agent "${rule.fallback}" for rule "${rule.name}" is offline`);
+        continue;
+      }
 
       log.info(`Falling back from ${failedAgent} → ${rule.fallback} (rule: ${rule.name})`);
       return {
@@ -179,6 +183,214 @@ export class AgentRoutingService {
 
   // ─── Private helpers ───────────────────────────────────────────
 
+  /**
+   * Static rule routing: the first enabled rule whose agent is enabled,
+   * otherwise the default agent.
+   */
+  private resolveByRules(
+    task: RoutableTask,
+    config: AppConfig,
+    routing: AgentRoutingConfig
+  ): { result: RoutingResult; rule?: RoutingRule } {
+    // Evaluate rules in order (first match wins)
+    for (const rule of routing.rules) {
+      if (!rule.enabled) continue;
+
+      if (this.matchesRule(task, rule.match)) {
+        // Verify the agent is actually configured and enabled
+        const agentConfig = config.agents.find(
+          (a: { type: string; name: string; command: string; args: string[]; enabled: boolean }) =>
+            a.type === rule.agent
+        );
+        if (!agentConfig?.enabled) {
+          log.warn(`Rule "${rule.name}" matched but agent "${rule.agent}" is disabled — skipping`);
+          continue;
+        }
+
+        log.info(
+          `Task [type=${task.type}, priority=${task.priority}] matched rule "${rule.name}" → ${rule.agent}${rule.model ? ` (${rule.model})` : ''}`
+        );
+        return {
+          result: {
+            agent: rule.agent,
+            model: rule.model,
+            fallback: rule.fallback,
+            rule: rule.id,
+            reason: `Matched rule: ${rule.name}`,
+          },
+          rule,
+        };
+      }
+    }
+
+    // No rule matched — use defaults
+    log.info(
+      `Task [type=${task.type}, priority=${task.priority}] — no rules matched, using default: ${routing.defaultAgent}`
+    );
+    return {
+      result: {
+        agent: routing.defaultAgent || config.defaultAgent,
+        model: routing.defaultModel,
+        reason: 'No routing rules matched — using default agent',
+      },
+    };
+  }
+
+  /**
+   * Score the live registry agents and the rule's pick, and route to the
+   * best one. The runner-up becomes the fallback.
+   */
+  private async resolveByScore(
+    task: RoutableTask,
+    config: AppConfig,
+    routing: AgentRoutingConfig,
+    ruleResult: RoutingResult,
+    rule: RoutingRule | undefined,
+    registered: RegisteredAgent[]
+  ): Promise<RoutingResult> {
+    const weights: RoutingWeights = { ...DEFAULT_ROUTING_WEIGHTS, ...routing.weights };
+    const required = (rule?.capabilities ?? [task.type]).map((c) => c.toLowerCase());
+    // Only agents that can actually be started compete: registry IDs must name an enabled agent
+    const enabled = new Set(config.agents.filter((a) => a.enabled).map((a) => a.type));
+    const now = Date.now();
+
+    let stats: AgentComparisonData[] = [];
+    try {
+      stats = await this.signals.agentStats(task.project);
+    } catch (err) {
+      log.warn({ err }, 'Could not read agent telemetry for routing — scoring without it');
+    }
+    const statsByAgent = new Map(stats.map((s) => [s.agent, s]));
+    const costs = stats.map((s) => s.avgCostPerRun).filter((c) => c > 0);
+    const cheapest = costs.length > 0 ? Math.min(...costs) : 0;
+
+    const history = (agent: string) => {
+      const data = statsByAgent.get(agent);
+      return {
+        successRate: data ? data.successRate / 100 : UNKNOWN,
+        cost:
+          data && data.avgCostPerRun > 0 && cheapest > 0 ? cheapest / data.avgCostPerRun : UNKNOWN,
+      };
+    };
+
+    const candidates: RoutingCandidate[] = [];
+    for (const agent of registered) {
+      if (!enabled.has(agent.id)) continue;
+      const liveness = Math.max(
+        0,
+        1 - (now - Date.parse(agent.lastHeartbeat)) / HEARTBEAT_TIMEOUT_MS
+      );
+      if (agent.status === 'offline' || liveness === 0) continue;
+
+      const advertised = new Set(agent.capabilities.map((c) => c.name.toLowerCase()));
+      const capability =
+        required.length > 0
+          ? required.filter((c) => advertised.has(c)).length / required.length
+          : 1;
+      const isRulePick = agent.id === ruleResult.agent;
+      // Agents that can't do the work only stay in the running when a rule picked them
+      if (capability === 0 && !isRulePick) continue;
+
+      candidates.push(
+        this.scoreCandidate(agent.id, true, weights, {
+          capability,
+          liveness,
+          load: agent.status === 'busy' || agent.currentTaskId ? 0 : 1,
+          ...history(agent.id),
+          rule: isRulePick && ruleResult.rule ? 1 : 0,
+        })
+      );
+    }
+
+    // The rule's pick competes even when it isn't registered (e.g. a local CLI agent);
+    // liveness and load are unknown, and a matched rule vouches for its capability
+    const ruleAgentEntry = registered.find((a) => a.id === ruleResult.agent);
+    if (!ruleAgentEntry) {
+      candidates.push(
+        this.scoreCandidate(ruleResult.agent, false, weights, {
+          capability: ruleResult.rule ? 1 : UNKNOWN,
+          liveness: UNKNOWN,
+          load: UNKNOWN,
+          ...history(ruleResult.agent),
+          rule: ruleResult.rule ? 1 : 0,
+        })
+      );
+    }
+
+    candidates.sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(b.agent === ruleResult.agent) - Number(a.agent === ruleResult.agent) ||
+        a.agent.localeCompare(b.agent)
+    );
+
+    const offlineNote =
+      ruleAgentEntry && !candidates.some((c) => c.agent === ruleAgentEntry.id)
+        ? `${ruleAgentEntry.id} is offline; `
+        : '';
+    const [winner, runnerUp] = candidates;
+
+    if (!winner) {
+      // The rule's agent is registered but offline and nobody else can do the work
+      const defaultAgent = routing.defaultAgent || config.defaultAgent;
+      const fallback = [ruleResult.fallback, defaultAgent].find(
+        (agent): agent is AgentType =>
+          !!agent && agent !== ruleResult.agent && enabled.has(agent) && !this.isOffline(agent)
+      );
+      if (!fallback) {
+        return { ...ruleResult, reason: `${ruleResult.reason} (${offlineNote}no alternative)` };
+      }
+      return {
+        agent: fallback,
+        model: fallback === defaultAgent ? routing.defaultModel : undefined,
+        reason: `${offlineNote}falling back to ${fallback} — ${ruleResult.reason}`,
+      };
+    }
+
+    const isRulePick = winner.agent === ruleResult.agent;
+    const summary = candidates
+      .slice(0, 3)
+      .map((c) => `${c.agent} ${formatCandidate(c)}`)
+      .join('; ');
+    const result: RoutingResult = {
+      agent: winner.agent,
+      model: isRulePick ? ruleResult.model : undefined,
+      fallback: runnerUp?.agent ?? (isRulePick ? ruleResult.fallback : undefined),
+      rule: isRulePick ? ruleResult.rule : undefined,
+      reason: `${offlineNote}Scored ${candidates.length} agent${candidates.length === 1 ? '' : 's'} for [${required.join(', ')}]: ${summary} — ${ruleResult.reason}`,
+      candidates,
+    };
+
+    log.info(
+      `Task [type=${task.type}, priority=${task.priority}] routed by score → ${result.agent} (${winner.score})`
+    );
+    return result;
+  }
+
+  private scoreCandidate(
+    agent: AgentType,
+    registered: boolean,
+    weights: RoutingWeights,
+    factors: RoutingWeights
+  ): RoutingCandidate {
+    const keys = Object.keys(DEFAULT_ROUTING_WEIGHTS) as (keyof RoutingWeights)[];
+    const total = keys.reduce((sum, k) => sum + weights[k], 0);
+    const weighted = keys.reduce((sum, k) => sum + weights[k] * factors[k], 0);
+    const rounded = { ...factors };
+    for (const k of keys) rounded[k] = round(factors[k]);
+    return {
+      agent,
+      score: round(total > 0 ? weighted / total : 0),
+      factors: rounded,
+      registered,
+    };
+  }
+
+  /** Registered agents that have gone offline; unknown agents aren't offline */
+  private isOffline(agent: AgentType): boolean {
+    return this.signals.listAgents().find((a) => a.id === agent)?.status === 'offline';
+  }
+
   /**
    * Check if a task matches a rule's criteria.
    * All specified criteria must match (AND logic).
@@ -224,6 +436,18 @@ export class AgentRoutingService {
   }
 }
 
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** e.g. "0.82 (capability 1, liveness 0.95, load 1, successRate 0.9, cost 0.4, rule 0)" */
+function formatCandidate(candidate: RoutingCandidate): string {
+  const factors = Object.entries(candidate.factors)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(', ');
+  return `${candidate.score} (${factors}${candidate.registered ? '' : ', not registered'})`;
+}
+
 // Singleton
 let _instance: AgentRoutingService | null = null;
 
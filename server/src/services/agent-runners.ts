@@ -0,0 +1,366 @@
+/**
+ * Agent Runners — Pluggable backends that execute workflow agent sessions
+ *
+ * - LocalProcessAgentRunner: spawns the CLI configured in AgentConfig.command/args
+ * - StubAgentRunner: deterministic in-memory runner for tests and dry environments
+ *
+ * Select the default runner with VERITAS_AGENT_RUNNER=local|stub (default: local).
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { nanoid } from 'nanoid';
+import type { AgentConfig } from '@veritas-kanban/shared';
+import type { AgentRunner, AgentRunRequest, AgentRunResult } from '../types/workflow.js';
+import { ConfigService } from './config-service.js';
+import { getProjectRoot } from '../utils/paths.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('agent-runners');
+
+/** Max captured output per prompt (1MB) — older output is dropped first */
+const MAX_OUTPUT_SIZE = 1024 * 1024;
+
+/** Grace period between SIGTERM and SIGKILL when cancelling */
+const KILL_GRACE_MS = 5_000;
+
+/** Placeholder replaced by the rendered prompt inside AgentConfig.args */
+const PROMPT_PLACEHOLDER = '{{prompt}}';
+
+export function createSessionKey(runId: string, stepId: string): string {
+  return `vk_${runId}_${stepId}_${nanoid(6)}`;
+}
+
+// ==================== Local Process Runner ====================
+
+interface LocalSession {
+  key: string;
+  request: AgentRunRequest;
+  agentConfig: AgentConfig;
+  proc?: ChildProcess;
+  output: string;
+  turns: number;
+  result?: AgentRunResult;
+  done?: Promise<AgentRunResult>;
+  cancelled: boolean;
+}
+
+/**
+ * Runs each prompt as one invocation of the agent CLI. The runner keeps no
+ * conversation state between turns: a continued session starts a new process
+ * with the same VK_SESSION_KEY (and a higher VK_SESSION_TURN), so a CLI that
+ * wants continuity has to resume its own conversation from that key.
+ */
+export class LocalProcessAgentRunner implements AgentRunner {
+  readonly name = 'local';
+  private sessions = new Map<string, LocalSession>();
+  private configService: ConfigService;
+  private cwd: string;
+
+  constructor(options: { configService?: ConfigService; cwd?: string } = {}) {
+    this.configService = options.configService || new ConfigService();
+    this.cwd = options.cwd || getProjectRoot();
+  }
+
+  async spawn(request: AgentRunRequest): Promise<string> {
+    const agentConfig = await this.resolveAgentConfig(request.agentType);
+    const key = createSessionKey(request.runId, request.stepId);
+
+    const session: LocalSession = {
+      key,
+      request,
+      agentConfig,
+      output: '',
+      turns: 0,
+      cancelled: false,
+    };
+    this.sessions.set(key, session);
+    this.startTurn(session, request.prompt);
+
+    log.info(
+      { sessionKey: key, agentType: agentConfig.type, stepId: request.stepId },
+      'Agent session spawned'
+    );
+    return key;
+  }
+
+  async continueSession(
+    sessionKey: string,
+    prompt: string,
+    request: AgentRunRequest
+  ): Promise<void> {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      throw new Error(`Agent session ${sessionKey} not found`);
+    }
+    if (session.proc && !session.result) {
+      throw new Error(`Agent session ${sessionKey} is still busy`);
+    }
+
+    session.request = request;
+    session.cancelled = false;
+    this.startTurn(session, prompt);
+    log.info({ sessionKey, turn: session.turns }, 'Agent session continued');
+  }
+
+  hasSession(sessionKey: string): boolean {
+    return this.sessions.has(sessionKey);
+  }
+
+  async wait(sessionKey: string, timeoutMs: number): Promise<AgentRunResult> {
+    const session = this.sessions.get(sessionKey);
+    if (!session?.done) {
+      throw new Error(`Agent session ${sessionKey} not found`);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+
+    try {
+      const outcome = await Promise.race([session.done, timeout]);
+      if (outcome !== 'timeout') return outcome;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    log.warn({ sessionKey, timeoutMs }, 'Agent session timed out — terminating');
+    await this.cancel(sessionKey);
+    return {
+      sessionKey,
+      status: 'timeout',
+      output: session.output,
+      error: `Agent session timed out after ${Math.round(timeoutMs / 1000)}s`,
+    };
+  }
+
+  async cancel(sessionKey: string): Promise<void> {
+    const session = this.sessions.get(sessionKey);
+    const proc = session?.proc;
+    if (!session || !proc || session.result) return;
+
+    session.cancelled = true;
+    proc.kill('SIGTERM');
+    const killTimer = setTimeout(() => {
+      if (proc.exitCode === null && proc.signalCode === null) proc.kill('SIGKILL');
+    }, KILL_GRACE_MS);
+    killTimer.unref();
+
+    await session.done;
+  }
+
+  async cleanup(sessionKey: string): Promise<void> {
+    await this.cancel(sessionKey);
+    this.sessions.delete(sessionKey);
+    log.info({ sessionKey }, 'Agent session cleaned up');
+  }
+
+  private async resolveAgentConfig(agentType?: string): Promise<AgentConfig> {
+    const config = await this.configService.getConfig();
+    const type = agentType || config.defaultAgent;
+    const agentConfig = config.agents.find((a) => a.type === type);
+
+    if (!agentConfig) {
+      throw new Error(`No agent configured for type "${type}"`);
+    }
+    if (!agentConfig.enabled) {
+      throw new Error(`Agent "${type}" is disabled in settings`);
+    }
+    return agentConfig;
+  }
+
+  private buildArgs(agentConfig: AgentConfig, prompt: string): string[] {
+    const args = agentConfig.args || [];
+    if (args.some((arg) => arg.includes(PROMPT_PLACEHOLDER))) {
+      return args.map((arg) => arg.split(PROMPT_PLACEHOLDER).join(prompt));
+    }
+    return [...args, prompt];
+  }
+
+  private buildEnv(session: LocalSession): NodeJS.ProcessEnv {
+    const { request } = session;
+    return {
+      ...process.env,
+      VK_SESSION_KEY: session.key,
+      VK_SESSION_TURN: String(session.turns),
+      VK_WORKFLOW_RUN_ID: request.runId,
+      VK_WORKFLOW_STEP_ID: request.stepId,
+      VK_AGENT_ID: request.agentId,
+      ...(request.taskId ? { VK_TASK_ID: request.taskId } : {}),
+      ...(request.model ? { VK_MODEL: request.model } : {}),
+      ...(request.toolFilter.allowed
+        ? { VK_ALLOWED_TOOLS: request.toolFilter.allowed.join(',') }
+        : {}),
+      ...(request.toolFilter.denied
+        ? { VK_DENIED_TOOLS: request.toolFilter.denied.join(',') }
+        : {}),
+    };
+  }
+
+  private startTurn(session: LocalSession, prompt: string): void {
+    session.turns++;
+    session.output = '';
+    session.result = undefined;
+
+    const { command } = session.agentConfig;
+    const args = this.buildArgs(session.agentConfig, prompt);
+
+    session.done = new Promise<AgentRunResult>((resolve) => {
+      const finish = (result: Omit<AgentRunResult, 'sessionKey' | 'output'>) => {
+        if (session.result) return;
+        session.result = { sessionKey: session.key, output: session.output, ...result };
+        resolve(session.result);
+      };
+
+      let proc: ChildProcess;
+      try {
+        proc = spawn(command, args, {
+          cwd: this.cwd,
+          shell: false,
+          env: this.buildEnv(session),
+          stdio: ['ignore', 'pipe', 'pipe'],
+        });
+      } catch (err) {
+        finish({ status: 'failed', error: err instanceof Error ? err.message : String(err) });
+        return;
+      }
+      session.proc = proc;
+
+      let stderr = '';
+      proc.stdout?.on('data', (data: Buffer) => {
+        session.output += data.toString();
+        if (session.output.length > MAX_OUTPUT_SIZE) {
+          session.output = session.output.slice(-MAX_OUTPUT_SIZE);
+        }
+      });
+      proc.stderr?.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-4096);
+      });
+
+      proc.on('error', (err) => {
+        finish({ status: 'failed', error: `Failed to start "${command}": ${err.message}` });
+      });
+
+      proc.on('close', (code, signal) => {
+        if (session.cancelled) {
+          finish({ status: 'cancelled', exitCode: code, error: `Terminated (${signal || code})` });
+        } else if (code === 0) {
+          finish({ status: 'completed', exitCode: code });
+        } else {
+          finish({
+            status: 'failed',
+            exitCode: code,
+            error: stderr.trim() || `"${command}" exited with code ${code ?? signal}`,
+          });
+        }
+      });
+    });
+  }
+}
+
+// ==================== Stub Runner ====================
+
+export type StubResponder = (
+  request: AgentRunRequest,
+  prompt: string
+) => string | Partial<Omit<AgentRunResult, 'sessionKey'>>;
+
+export interface StubRunnerCall {
+  sessionKey: string;
+  kind: 'spawn' | 'continue';
+  prompt: string;
+  request: AgentRunRequest;
+}
+
+/**
+ * In-memory runner: answers every prompt through a responder function.
+ * Records calls so tests can assert on prompts, sessions and cleanup.
+ */
+export class StubAgentRunner implements AgentRunner {
+  readonly name = 'stub';
+  readonly calls: StubRunnerCall[] = [];
+  readonly cleanedUp: string[] = [];
+  readonly cancelled: string[] = [];
+  private sessions = new Map<string, AgentRunResult>();
+  private responder: StubResponder;
+
+  constructor(responder?: StubResponder) {
+    this.responder =
+      responder ||
+      ((request) => `STATUS: done\nOUTPUT: ${request.agentId} completed ${request.stepId}`);
+  }
+
+  async spawn(request: AgentRunRequest): Promise<string> {
+    const sessionKey = createSessionKey(request.runId, request.stepId);
+    this.respond(sessionKey, 'spawn', request.prompt, request);
+    return sessionKey;
+  }
+
+  async continueSession(
+    sessionKey: string,
+    prompt: string,
+    request: AgentRunRequest
+  ): Promise<void> {
+    if (!this.sessions.has(sessionKey)) {
+      throw new Error(`Agent session ${sessionKey} not found`);
+    }
+    this.respond(sessionKey, 'continue', prompt, request);
+  }
+
+  hasSession(sessionKey: string): boolean {
+    return this.sessions.has(sessionKey);
+  }
+
+  async wait(sessionKey: string): Promise<AgentRunResult> {
+    const result = this.sessions.get(sessionKey);
+    if (!result) {
+      throw new Error(`Agent session ${sessionKey} not found`);
+    }
+    return result;
+  }
+
+  async cancel(sessionKey: string): Promise<void> {
+    this.cancelled.push(sessionKey);
+  }
+
+  async cleanup(sessionKey: string): Promise<void> {
+    this.sessions.delete(sessionKey);
+    this.cleanedUp.push(sessionKey);
+  }
+
+  private respond(
+    sessionKey: string,
+    kind: StubRunnerCall['kind'],
+    prompt: string,
+    request: AgentRunRequest
+  ): void {
+    this.calls.push({ sessionKey, kind, prompt, request });
+    const response = this.responder(request, prompt);
+    const partial = typeof response === 'string' ? { output: response } : response;
+    this.sessions.set(sessionKey, {
+      status: 'completed',
+      output: '',
+      ...partial,
+      sessionKey,
+    });
+  }
+}
+
+// ==================== Default Runner ====================
+
+let defaultRunner: AgentRunner | null = null;
+
+export function getAgentRunner(): AgentRunner {
+  if (!defaultRunner) {
+    defaultRunner =
+      process.env.VERITAS_AGENT_RUNNER === 'stub'
+        ? new StubAgentRunner()
+        : new LocalProcessAgentRunner();
+  }
+  return defaultRunner;
+}
+
+/** Override the default runner (tests, embedding hosts with their own backend) */
+export function setAgentRunner(runner: AgentRunner | null): void {
+  defaultRunner = runner;
+}
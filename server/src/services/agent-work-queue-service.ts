@@ -0,0 +1,448 @@
+/**
+ * Agent Work Queue
+ *
+ * Pull-based task distribution for registered agents. Instead of racing each
+ * other on `/changes`, an agent calls `claim()` and gets the next eligible
+ * task under a time-bound lease:
+ *   - Eligible tasks are `todo`, unassigned (or "auto", or already assigned to
+ *     the agent), not held by another lease and not waiting on unfinished
+ *     `blockedBy` tasks. Agents that advertise capabilities only get tasks
+ *     whose type matches one of them, unless the task names them directly.
+ *   - Tasks are handed out by priority (critical first), then oldest first.
+ *   - Each agent holds at most `maxConcurrentTasks` leases (default 1).
+ *   - Claims go through the same gates as moving a task by hand or starting
+ *     an agent: tasks are skipped while their in-progress column is at its
+ *     WIP limit or a budget covering the agent or project is exhausted.
+ *   - Registry heartbeats renew the agent's leases. A background sweep returns
+ *     tasks whose lease expired, or whose agent went offline or deregistered,
+ *     to the queue and records the attempt as failed.
+ *
+ * Leases are kept in the runtime directory so they survive restarts.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { Task, TaskAttempt, TaskPriority, TaskType } from '@veritas-kanban/shared';
+import { createLogger } from '../lib/logger.js';
+import { getRuntimeDir } from '../utils/paths.js';
+import {
+  BudgetExceededError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+} from '../middleware/error-handler.js';
+import { getAgentRegistryService, HEARTBEAT_TIMEOUT_MS } from './agent-registry-service.js';
+import { getBlockingService } from './blocking-service.js';
+import {
+  getBoardWorkflowService,
+  type BoardWorkflowService,
+  type TaskPlacement,
+} from './board-workflow-service.js';
+import { getBudgetService, type BudgetService } from './budget-service.js';
+import { getTaskService, type TaskService } from './task-service.js';
+import { broadcastTaskChange } from './broadcast-service.js';
+
+const log = createLogger('agent-work-queue');
+
+/** How often expired leases are swept */
+const DEFAULT_INTERVAL_MS = 30_000;
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export interface TaskLease {
+  taskId: string;
+  agentId: string;
+  attemptId: string;
+  claimedAt: string;
+  renewedAt: string;
+  expiresAt: string;
+  /** The task's agent before the claim, restored if the lease is lost */
+  previousAgent?: string;
+}
+
+export interface ClaimFilters {
+  project?: string;
+  types?: TaskType[];
+}
+
+export type ReleaseOutcome = 'complete' | 'failed' | 'abandoned';
+
+type AgentRegistry = Pick<ReturnType<typeof getAgentRegistryService>, 'get'>;
+
+export interface AgentWorkQueueOptions {
+  taskService?: Pick<TaskService, 'listTasks' | 'getTask' | 'updateTask'>;
+  registry?: AgentRegistry;
+  board?: Pick<BoardWorkflowService, 'resolvePlacement'>;
+  budget?: Pick<BudgetService, 'enforce'>;
+  /** Defaults to agent-leases.json in the runtime directory */
+  filePath?: string;
+  /** How long a lease lasts without a heartbeat */
+  leaseTtlMs?: number;
+  intervalMs?: number;
+}
+
+export class AgentWorkQueue {
+  private taskService: Pick<TaskService, 'listTasks' | 'getTask' | 'updateTask'>;
+  private registry: AgentRegistry;
+  private board: Pick<BoardWorkflowService, 'resolvePlacement'>;
+  private budget: Pick<BudgetService, 'enforce'>;
+  private filePath: string;
+  private leaseTtlMs: number;
+  private intervalMs: number;
+  private leases: Map<string, TaskLease> | null = null;
+  private loading: Promise<Map<string, TaskLease>> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Claims, releases and sweeps run one at a time so two agents never get the same task
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: AgentWorkQueueOptions = {}) {
+    this.taskService = options.taskService || getTaskService();
+    this.registry = options.registry || getAgentRegistryService();
+    this.board = options.board || getBoardWorkflowService();
+    this.budget = options.budget || getBudgetService();
+    this.filePath = options.filePath ?? path.join(getRuntimeDir(), 'agent-leases.json');
+    this.leaseTtlMs = options.leaseTtlMs ?? HEARTBEAT_TIMEOUT_MS;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    log.info({ intervalMs: this.intervalMs }, 'Starting agent work queue');
+
+    // Sweep immediately so leases that lapsed while the server was down are reclaimed
+    this.sweepSafely();
+    this.timer = setInterval(() => this.sweepSafely(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log.info('Stopped agent work queue');
+    }
+  }
+
+  /** Active leases, optionally for one agent */
+  async listLeases(agentId?: string): Promise<TaskLease[]> {
+    const leases = Array.from((await this.load()).values());
+    return agentId ? leases.filter((l) => l.agentId === agentId) : leases;
+  }
+
+  /** Tasks waiting in the queue, in the order they would be handed out */
+  async listQueued(filters: ClaimFilters = {}): Promise<Task[]> {
+    const leases = await this.load();
+    const tasks = await this.taskService.listTasks();
+    return this.eligible(tasks, leases, filters);
+  }
+
+  /**
+   * Lease the next eligible task to an agent and mark it in-progress with a
+   * running attempt. Returns null when nothing is waiting.
+   */
+  claim(
+    agentId: string,
+    filters: ClaimFilters = {},
+    now: Date = new Date()
+  ): Promise<{ task: Task; lease: TaskLease } | null> {
+    return this.exclusive(async () => {
+      const agent = this.registry.get(agentId);
+      if (!agent) {
+        throw new NotFoundError('Agent not registered. Call POST /api/agents/register first.');
+      }
+      if (agent.status === 'offline') {
+        throw new ConflictError(`Agent ${agentId} is offline; send a heartbeat before claiming`);
+      }
+
+      const leases = await this.load();
+      const limit = agent.maxConcurrentTasks ?? 1;
+      const active = Array.from(leases.values()).filter((l) => l.agentId === agentId).length;
+      if (active >= limit) {
+        throw new ConflictError(`Agent ${agentId} already holds ${active} of ${limit} task(s)`, {
+          code: 'CONCURRENCY_LIMIT',
+          limit,
+          active,
+        });
+      }
+
+      const capabilities = agent.capabilities.map((c) => c.name.toLowerCase());
+      const candidates = this.eligible(await this.taskService.listTasks(), leases, filters).filter(
+        (t) =>
+          t.agent === agentId ||
+          (this.claimableBy(t, agentId) && (!capabilities.length || capabilities.includes(t.type)))
+      );
+
+      for (const task of candidates) {
+        let placement: TaskPlacement | null;
+        try {
+          placement = await this.board.resolvePlacement(task, { status: 'in-progress' });
+          await this.budget.enforce(
+            { project: task.project, agent: agentId },
+            'agent.start',
+            { taskId: task.id },
+            now
+          );
+        } catch (err) {
+          if (!(err instanceof ConflictError || err instanceof BudgetExceededError)) throw err;
+          log.info({ taskId: task.id, agentId, reason: err.message }, 'Skipping task for now');
+          continue;
+        }
+
+        const attempt: TaskAttempt = {
+          id: `attempt_${nanoid(8)}`,
+          agent: agentId,
+          status: 'running',
+          started: now.toISOString(),
+        };
+
+        let updated: Task | null;
+        try {
+          // Pinned to the version we picked so a concurrent edit can't be clobbered
+          updated = await this.taskService.updateTask(
+            task.id,
+            {
+              status: placement?.status ?? 'in-progress',
+              column: placement?.column ?? null,
+              agent: agentId,
+              attempt,
+            },
+            { author: agentId, expectedVersion: task.version ?? 0 }
+          );
+        } catch (err) {
+          if (!(err instanceof PreconditionFailedError)) {
+            // A quality gate refusing the move shouldn't stall the whole queue
+            log.warn({ err, taskId: task.id, agentId }, 'Skipping task that could not be claimed');
+          }
+          continue;
+        }
+        if (!updated) continue;
+
+        const lease: TaskLease = {
+          taskId: task.id,
+          agentId,
+          attemptId: attempt.id,
+          claimedAt: now.toISOString(),
+          renewedAt: now.toISOString(),
+          expiresAt: new Date(now.getTime() + this.leaseTtlMs).toISOString(),
+          ...(task.agent && task.agent !== agentId && { previousAgent: task.agent }),
+        };
+        leases.set(task.id, lease);
+        await this.persist();
+
+        broadcastTaskChange('updated', task.id);
+        log.info({ taskId: task.id, agentId, attemptId: attempt.id }, 'Task claimed');
+        return { task: updated, lease };
+      }
+
+      return null;
+    });
+  }
+
+  /** Extend every lease the agent holds. Called on each registry heartbeat. */
+  renewLeases(agentId: string, now: Date = new Date()): Promise<TaskLease[]> {
+    return this.exclusive(async () => {
+      const renewed: TaskLease[] = [];
+      for (const lease of (await this.load()).values()) {
+        if (lease.agentId !== agentId) continue;
+        lease.renewedAt = now.toISOString();
+        lease.expiresAt = new Date(now.getTime() + this.leaseTtlMs).toISOString();
+        renewed.push(lease);
+      }
+      if (renewed.length) await this.persist();
+      return renewed;
+    });
+  }
+
+  /**
+   * Give up a lease. A completed attempt leaves the task where the agent put
+   * it; a failed or abandoned one returns the task to the queue.
+   */
+  release(
+    agentId: string,
+    taskId: string,
+    outcome: ReleaseOutcome,
+    now: Date = new Date()
+  ): Promise<Task | null> {
+    return this.exclusive(async () => {
+      const leases = await this.load();
+      const lease = leases.get(taskId);
+      if (!lease || lease.agentId !== agentId) {
+        throw new NotFoundError(`Agent ${agentId} holds no lease on task ${taskId}`);
+      }
+
+      leases.delete(taskId);
+      await this.persist();
+
+      const task = await this.taskService.getTask(taskId);
+      if (!task) return null;
+      if (outcome === 'complete') {
+        return this.finishAttempt(task, lease, now);
+      }
+      return this.requeue(task, lease, now);
+    });
+  }
+
+  /**
+   * Return tasks whose lease expired, or whose agent is offline or gone, to
+   * the queue. Leases on tasks that have left in-progress (finished, blocked
+   * or moved by hand) are simply dropped.
+   */
+  sweep(now: Date = new Date()): Promise<TaskLease[]> {
+    return this.exclusive(async () => {
+      const leases = await this.load();
+      const expired: TaskLease[] = [];
+      let changed = false;
+
+      for (const lease of Array.from(leases.values())) {
+        const task = await this.taskService.getTask(lease.taskId);
+        if (!task || task.status !== 'in-progress' || task.agent !== lease.agentId) {
+          leases.delete(lease.taskId);
+          changed = true;
+          if (task?.status === 'done') await this.finishAttempt(task, lease, now);
+          continue;
+        }
+
+        const agent = this.registry.get(lease.agentId);
+        const lapsed = new Date(lease.expiresAt).getTime() <= now.getTime();
+        if (!lapsed && agent && agent.status !== 'offline') continue;
+
+        leases.delete(lease.taskId);
+        changed = true;
+        expired.push(lease);
+        log.warn(
+          { taskId: lease.taskId, agentId: lease.agentId, expiresAt: lease.expiresAt },
+          agent && agent.status !== 'offline'
+            ? 'Lease expired; returning task to the queue'
+            : 'Leasing agent is offline; returning task to the queue'
+        );
+        await this.requeue(task, lease, now);
+      }
+
+      if (changed) await this.persist();
+      return expired;
+    });
+  }
+
+  private sweepSafely(): void {
+    this.sweep().catch((err) => {
+      log.error({ err }, 'Agent work queue sweep failed');
+    });
+  }
+
+  private eligible(tasks: Task[], leases: Map<string, TaskLease>, filters: ClaimFilters): Task[] {
+    const blocking = getBlockingService();
+    return tasks
+      .filter(
+        (t) =>
+          t.status === 'todo' &&
+          !leases.has(t.id) &&
+          (!filters.project || t.project === filters.project) &&
+          (!filters.types?.length || filters.types.includes(t.type)) &&
+          blocking.canMoveToInProgress(t, tasks).allowed
+      )
+      .sort(
+        (a, b) =>
+          (PRIORITY_RANK[a.priority] ?? 2) - (PRIORITY_RANK[b.priority] ?? 2) ||
+          a.created.localeCompare(b.created)
+      );
+  }
+
+  /** Tasks assigned to a specific agent are only handed to that agent */
+  private claimableBy(task: Task, agentId: string): boolean {
+    return !task.agent || task.agent === 'auto' || task.agent === agentId;
+  }
+
+  private async requeue(task: Task, lease: TaskLease, now: Date): Promise<Task | null> {
+    const updated = await this.taskService.updateTask(
+      task.id,
+      {
+        status: 'todo',
+        column: null,
+        agent: lease.previousAgent,
+        ...this.closeAttempt(task, lease, 'failed', now),
+      },
+      { author: lease.agentId }
+    );
+    broadcastTaskChange('updated', task.id);
+    return updated;
+  }
+
+  private async finishAttempt(task: Task, lease: TaskLease, now: Date): Promise<Task | null> {
+    const updated = await this.taskService.updateTask(
+      task.id,
+      this.closeAttempt(task, lease, 'complete', now),
+      { author: lease.agentId }
+    );
+    broadcastTaskChange('updated', task.id);
+    return updated;
+  }
+
+  /** End the lease's attempt and append it to the task's attempt history */
+  private closeAttempt(
+    task: Task,
+    lease: TaskLease,
+    status: 'complete' | 'failed',
+    now: Date
+  ): { attempt: TaskAttempt; attempts: TaskAttempt[] } {
+    const attempt: TaskAttempt = {
+      id: lease.attemptId,
+      agent: lease.agentId,
+      started: lease.claimedAt,
+      ...(task.attempt?.id === lease.attemptId ? task.attempt : {}),
+      status,
+      ended: now.toISOString(),
+    };
+    const history = (task.attempts ?? []).filter((a) => a.id !== attempt.id);
+    return { attempt, attempts: [...history, attempt] };
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Concurrent callers share one read, so none of them sees (or persists) a half-loaded map */
+  private load(): Promise<Map<string, TaskLease>> {
+    if (!this.loading) this.loading = this.readLeases();
+    return this.loading;
+  }
+
+  private async readLeases(): Promise<Map<string, TaskLease>> {
+    const leases = new Map<string, TaskLease>();
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      for (const lease of JSON.parse(raw) as TaskLease[]) {
+        leases.set(lease.taskId, lease);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn({ err }, 'Could not load agent leases, starting fresh');
+      }
+    }
+    this.leases = leases;
+    return leases;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const leases = Array.from((this.leases ?? new Map()).values());
+    await fs.writeFile(this.filePath, JSON.stringify(leases, null, 2), 'utf-8');
+  }
+}
+
+// Singleton
+let instance: AgentWorkQueue | null = null;
+
+export function getAgentWorkQueue(): AgentWorkQueue {
+  if (!instance) {
+    instance = new AgentWorkQueue();
+  }
+  return instance;
+}
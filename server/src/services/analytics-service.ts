@@ -1,5 +1,5 @@
 import { createLogger } from '../lib/logger.js';
-import type { Task, TimeEntry } from '@veritas-kanban/shared';
+import { matchesCustomFieldFilters, type Task, type TimeEntry } from '@veritas-kanban/shared';
 import { getTaskService } from './task-service.js';
 import { StatusHistoryService } from './status-history-service.js';
 import type {
@@ -95,6 +95,10 @@ export class AnalyticsService {
       tasks = tasks.filter((t) => t.agent === query.agent);
     }
 
+    if (query.customFields) {
+      tasks = tasks.filter((t) => matchesCustomFieldFilters(t, query.customFields));
+    }
+
     // Build task timelines
     const taskTimelines: TaskTimeline[] = tasks
       .filter((t) => t.timeTracking?.entries && t.timeTracking.entries.length > 0)
@@ -140,6 +144,10 @@ export class AnalyticsService {
       allTasks = allTasks.filter((t) => t.project === query.project);
     }
 
+    if (query.customFields) {
+      allTasks = allTasks.filter((t) => matchesCustomFieldFilters(t, query.customFields));
+    }
+
     // Determine time window
     let from: Date;
     let to: Date;
@@ -296,6 +304,7 @@ export class AnalyticsService {
       sprint: task.sprint,
       agent: task.agent,
       status: task.status,
+      customFields: task.customFields,
       startTime,
       endTime,
       durationSeconds: totalDurationSeconds,
@@ -0,0 +1,138 @@
+/**
+ * Approval Resume Service
+ *
+ * Carries out actions that were held back for an agent approval request
+ * (see requireAgentPermission) once a lead or admin reviews them:
+ * approved actions are replayed from the stored payload, and a rejected
+ * completion sends the task back to in-progress.
+ */
+
+import type { CreateTaskInput } from '@veritas-kanban/shared';
+import { createLogger } from '../lib/logger.js';
+import { getAgentPermissionService, type ApprovalRequest } from './agent-permission-service.js';
+import { getBoardWorkflowService } from './board-workflow-service.js';
+import { getTaskService } from './task-service.js';
+import { activityService } from './activity-service.js';
+import { broadcastTaskChange } from './broadcast-service.js';
+
+const log = createLogger('approval-resume');
+
+type Outcome = NonNullable<ApprovalRequest['outcome']>;
+
+/**
+ * Apply a reviewed request's decision. Requests without a payload (filed by
+ * hand through the approvals API) have nothing to resume and are returned as-is.
+ */
+export async function applyApprovalDecision(request: ApprovalRequest): Promise<ApprovalRequest> {
+  if (!request.payload || request.status === 'pending') return request;
+
+  let outcome: Outcome;
+  try {
+    outcome = request.status === 'approved' ? await resume(request) : await revert(request);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    log.warn({ requestId: request.id, action: request.action, error }, 'Failed to resume action');
+    outcome = { taskId: request.taskId, error };
+  }
+
+  const updated = await getAgentPermissionService().recordOutcome(request.id, outcome);
+  return updated ?? request;
+}
+
+async function resume(request: ApprovalRequest): Promise<Outcome> {
+  const taskService = getTaskService();
+  const payload = request.payload ?? {};
+  const approvedBy = request.reviewedBy;
+
+  if (request.action === 'create_task') {
+    const input = { ...payload } as unknown as CreateTaskInput;
+    const placement = await getBoardWorkflowService().resolvePlacement(null, input);
+    input.column = placement?.column;
+    const task = await taskService.createTask(input);
+    broadcastTaskChange('created', task.id);
+    await activityService.logActivity(
+      'task_created',
+      task.id,
+      task.title,
+      { type: task.type, priority: task.priority, project: task.project, approvedBy },
+      request.agentId
+    );
+    return { taskId: task.id };
+  }
+
+  const task = request.taskId ? await taskService.getTask(request.taskId) : null;
+  if (!task) throw new Error(`Task ${request.taskId ?? '(none)'} not found`);
+
+  switch (request.action) {
+    case 'complete_task': {
+      const placement = await getBoardWorkflowService().resolvePlacement(task, {
+        status: 'done',
+        column: typeof payload.column === 'string' ? payload.column : undefined,
+      });
+      await taskService.updateTask(
+        task.id,
+        { status: 'done', column: placement?.column ?? null, blockedReason: null },
+        { author: approvedBy }
+      );
+      broadcastTaskChange('updated', task.id);
+      await activityService.logActivity(
+        'status_changed',
+        task.id,
+        task.title,
+        { from: task.status, status: 'done', approvedBy },
+        request.agentId
+      );
+      break;
+    }
+
+    case 'delete_task':
+      await taskService.deleteTask(task.id);
+      broadcastTaskChange('deleted', task.id);
+      await activityService.logActivity(
+        'task_deleted',
+        task.id,
+        task.title,
+        { approvedBy },
+        request.agentId
+      );
+      break;
+
+    case 'delegate':
+      await taskService.updateTask(
+        task.id,
+        { agent: String(payload.agent) },
+        { author: approvedBy }
+      );
+      broadcastTaskChange('updated', task.id);
+      await activityService.logActivity(
+        'task_updated',
+        task.id,
+        task.title,
+        { agent: payload.agent, approvedBy },
+        request.agentId
+      );
+      break;
+
+    default:
+      throw new Error(`Action "${request.action}" can't be resumed`);
+  }
+
+  return { taskId: task.id };
+}
+
+async function revert(request: ApprovalRequest): Promise<Outcome> {
+  if (request.action !== 'complete_task' || !request.taskId) return { taskId: request.taskId };
+
+  // Only undo the review hold if nobody has moved the task since
+  const taskService = getTaskService();
+  const task = await taskService.getTask(request.taskId);
+  if (task?.status === 'blocked' && task.blockedReason?.note?.includes(request.id)) {
+    await taskService.updateTask(
+      task.id,
+      { status: 'in-progress', blockedReason: null },
+      { author: request.reviewedBy }
+    );
+    broadcastTaskChange('updated', task.id);
+  }
+  return { taskId: request.taskId };
+}
@@ -0,0 +1,141 @@
+import {
+  getTaskColumn,
+  getWorkflowColumns,
+  isInWorkflow,
+  type BoardColumn,
+  type Task,
+  type TaskStatus,
+} from '@veritas-kanban/shared';
+import { ConflictError, ValidationError } from '../middleware/error-handler.js';
+import { getConfigService, type ConfigService } from './config-service.js';
+import { getProjectService, type ProjectService } from './project-service.js';
+import { getTaskService, type TaskService } from './task-service.js';
+
+/** Where a create or update puts a task on the board */
+export interface TaskPlacement {
+  status: TaskStatus;
+  /** Undefined for the first column of the status */
+  column: string | undefined;
+}
+
+interface PlacementInput {
+  status?: TaskStatus;
+  column?: string | null;
+  project?: string;
+}
+
+/**
+ * Resolves board columns (custom workflows) to status categories and
+ * enforces per-column WIP limits.
+ */
+export class BoardWorkflowService {
+  constructor(
+    private configService: ConfigService = getConfigService(),
+    private projectService: ProjectService = getProjectService(),
+    private taskService: TaskService = getTaskService()
+  ) {}
+
+  /** Columns of a project's workflow, or of the default workflow */
+  async getColumns(projectId?: string): Promise<BoardColumn[]> {
+    const [settings, project] = await Promise.all([
+      this.configService.getFeatureSettings(),
+      projectId ? this.projectService.get(projectId) : null,
+    ]);
+    return getWorkflowColumns(settings.board.columns, project);
+  }
+
+  /**
+   * Work out the status and column a create/update moves the task to, and
+   * reject the move when the target column is at its WIP limit. Returns null
+   * when the input doesn't move the task. Pass `checkWipLimit: false` to only
+   * resolve the target, e.g. before deciding whether the move is held back.
+   */
+  async resolvePlacement(
+    task: Pick<Task, 'id' | 'status' | 'column' | 'project'> | null,
+    input: PlacementInput,
+    options: { checkWipLimit?: boolean } = {}
+  ): Promise<TaskPlacement | null> {
+    const statusChanged = input.status !== undefined && input.status !== task?.status;
+    if (input.column === undefined && !statusChanged && task) return null;
+
+    const projectId = input.project ?? task?.project;
+    const columns = await this.getColumns(projectId);
+    const status = input.status ?? (task ? task.status : 'todo');
+
+    let target: BoardColumn | undefined;
+    if (input.column) {
+      target = columns.find((c) => c.id === input.column);
+      if (!target) {
+        throw new ValidationError(`Unknown board column "${input.column}"`, [
+          {
+            code: 'INVALID_COLUMN',
+            message: `Column must be one of: ${columns.map((c) => c.id).join(', ')}`,
+            path: ['column'],
+          },
+        ]);
+      }
+      // New tasks always start as todo, so only todo columns are valid on create
+      const expected = task ? input.status : 'todo';
+      if (expected && expected !== target.category) {
+        throw new ValidationError(
+          `Column "${target.label}" holds ${target.category} tasks, not ${expected}`,
+          [{ code: 'INVALID_COLUMN', message: 'Column and status disagree', path: ['column'] }]
+        );
+      }
+    } else {
+      target = columns.find((c) => c.category === status);
+    }
+
+    if (!target) return { status, column: undefined };
+
+    const currentColumn = task ? getTaskColumn(task, columns) : undefined;
+    if (options.checkWipLimit !== false && target.wipLimit && target.id !== currentColumn?.id) {
+      await this.assertWipCapacity(target, columns, projectId, task?.id);
+    }
+
+    const firstOfCategory = columns.find((c) => c.category === target.category);
+    return {
+      status: target.category,
+      column: target.id === firstOfCategory?.id ? undefined : target.id,
+    };
+  }
+
+  private async assertWipCapacity(
+    column: BoardColumn,
+    columns: BoardColumn[],
+    projectId: string | undefined,
+    movingTaskId: string | undefined
+  ): Promise<void> {
+    const [tasks, projects] = await Promise.all([
+      this.taskService.listTasks(),
+      this.projectService.list(true),
+    ]);
+    const withWorkflow = new Set(projects.filter((p) => p.columns?.length).map((p) => p.id));
+    const workflowProject = projectId && withWorkflow.has(projectId) ? projectId : undefined;
+
+    const count = tasks.filter(
+      (t) =>
+        t.id !== movingTaskId &&
+        isInWorkflow(t, workflowProject, withWorkflow) &&
+        getTaskColumn(t, columns)?.id === column.id
+    ).length;
+
+    if (column.wipLimit && count >= column.wipLimit) {
+      throw new ConflictError(`Column "${column.label}" is at its WIP limit (${column.wipLimit})`, {
+        code: 'WIP_LIMIT_REACHED',
+        column: column.id,
+        wipLimit: column.wipLimit,
+        count,
+      });
+    }
+  }
+}
+
+let boardWorkflowServiceInstance: BoardWorkflowService | null = null;
+
+export function getBoardWorkflowService(): BoardWorkflowService {
+  if (!boardWorkflowServiceInstance) {
+    boardWorkflowServiceInstance = new BoardWorkflowService();
+  }
+  return boardWorkflowServiceInstance;
+}
@@ -1,5 +1,14 @@
 import type { WebSocketServer, WebSocket } from 'ws';
-import type { AnyTelemetryEvent, SquadMessage } from '@veritas-kanban/shared';
+import { randomUUID } from 'node:crypto';
+import {
+  createJsonPatch,
+  type AnyTelemetryEvent,
+  type JsonPatchOperation,
+  type SquadMessage,
+  type Task,
+  type TaskChangeType,
+  type TopicSubscribedMessage,
+} from '@veritas-kanban/shared';
 import {
   notifyTaskChange,
   notifyChatMessage,
@@ -16,19 +25,135 @@ export function initBroadcast(wss: WebSocketServer): void {
   wssRef = wss;
 }
 
-export type TaskChangeType =
-  | 'created'
-  | 'updated'
-  | 'deleted'
-  | 'archived'
-  | 'restored'
-  | 'reordered';
+export type { TaskChangeType };
+
+// ============================================
+// Topic subscriptions & replay
+// ============================================
+// Task, workflow and telemetry events are published with a sequence number
+// and a list of topics. Clients that send `topics:subscribe` only receive
+// events matching one of their topics; clients that never subscribe keep
+// receiving everything. The last REPLAY_BUFFER_SIZE events are kept so a
+// reconnecting client can resume from the last sequence number it saw.
+
+/** Events kept for replay after a reconnect */
+const REPLAY_BUFFER_SIZE = 1000;
+/** Topics a single client may subscribe to */
+const MAX_TOPICS_PER_CLIENT = 100;
+const MAX_TOPIC_LENGTH = 200;
+
+/** Identifies this server process; sequence numbers restart with it */
+const streamId = randomUUID();
+let seq = 0;
+const replayBuffer: Array<{ seq: number; topics: string[]; payload: string }> = [];
+const clientTopics = new WeakMap<WebSocket, Set<string>>();
+
+/** Synchronous task lookup (the task cache), used to build task patches */
+let taskLookup: ((taskId: string) => Task | undefined) | null = null;
+/** Task state as of its last broadcast — the base for the next patch */
+const taskSnapshots = new Map<string, Task>();
+
+export function setBroadcastTaskLookup(
+  lookup: ((taskId: string) => Task | undefined) | null
+): void {
+  taskLookup = lookup;
+  taskSnapshots.clear();
+}
+
+function isSubscribed(client: WebSocket, topics: string[]): boolean {
+  const subscribed = clientTopics.get(client);
+  return !subscribed || topics.some((topic) => subscribed.has(topic));
+}
+
+/**
+ * Sequence, buffer and send an event to every open client subscribed to one
+ * of its topics
+ */
+function publish(message: object, topics: string[]): void {
+  seq += 1;
+  const payload = JSON.stringify({ ...message, seq, topics });
+  replayBuffer.push({ seq, topics, payload });
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) replayBuffer.shift();
+
+  wssRef?.clients.forEach((client: WebSocket) => {
+    if (client.readyState === 1 && isSubscribed(client, topics)) {
+      // WebSocket.OPEN = 1
+      client.send(payload);
+    }
+  });
+}
+
+/**
+ * Add topics to a client's subscription and acknowledge with a
+ * `topics:subscribed` message. With `since`, events after that sequence
+ * number that match the client's topics are replayed right after the ack;
+ * if they are no longer available the ack has `resync: true`.
+ */
+export function subscribeTopics(
+  client: WebSocket,
+  topics: unknown,
+  options: { since?: unknown; streamId?: unknown } = {}
+): void {
+  const subscribed = clientTopics.get(client) ?? new Set<string>();
+  for (const topic of Array.isArray(topics) ? topics : []) {
+    if (subscribed.size >= MAX_TOPICS_PER_CLIENT) break;
+    if (typeof topic === 'string' && topic.length > 0 && topic.length <= MAX_TOPIC_LENGTH) {
+      subscribed.add(topic);
+    }
+  }
+  clientTopics.set(client, subscribed);
+
+  let resync = false;
+  let missed: string[] = [];
+  if (typeof options.since === 'number') {
+    const since = options.since;
+    const oldest = replayBuffer[0]?.seq ?? seq + 1;
+    if (options.streamId !== streamId || since > seq || since < oldest - 1) {
+      resync = true;
+    } else {
+      missed = replayBuffer
+        .filter((event) => event.seq > since && isSubscribed(client, event.topics))
+        .map((event) => event.payload);
+    }
+  }
+
+  const ack: TopicSubscribedMessage = {
+    type: 'topics:subscribed',
+    topics: [...subscribed],
+    streamId,
+    seq,
+    replayed: missed.length,
+    resync,
+  };
+  client.send(JSON.stringify(ack));
+  for (const payload of missed) client.send(payload);
+}
+
+export function unsubscribeTopics(client: WebSocket, topics: unknown): void {
+  const subscribed = clientTopics.get(client);
+  if (!subscribed) return;
+  for (const topic of Array.isArray(topics) ? topics : []) {
+    if (typeof topic === 'string') subscribed.delete(topic);
+  }
+}
+
+function taskTopics(taskId: string | undefined, ...versions: Array<Task | undefined>): string[] {
+  const topics = new Set(['tasks']);
+  if (taskId) topics.add(`task:${taskId}`);
+  for (const task of versions) {
+    if (task?.project) topics.add(`project:${task.project}`);
+    if (task?.sprint) topics.add(`sprint:${task.sprint}`);
+  }
+  return [...topics];
+}
 
 export interface TaskChangeEvent {
   type: 'task:changed';
   changeType: TaskChangeType;
   taskId?: string;
   timestamp: string;
+  patch?: JsonPatchOperation[];
+  task?: Task;
 }
 
 export interface TelemetryBroadcastEvent {
@@ -37,8 +162,10 @@ export interface TelemetryBroadcastEvent {
 }
 
 /**
- * Broadcast a task change to all connected WebSocket clients.
- * Clients can listen for 'task:changed' messages and invalidate their query caches.
+ * Broadcast a task change to subscribed WebSocket clients.
+ * Updates carry a JSON patch of the fields changed since the task's previous
+ * broadcast; creates, restores and first broadcasts carry the full task.
+ * Clients without either fall back to invalidating their query caches.
  *
  * @param taskContext - Optional enriched context for the webhook payload (title, status, etc.)
  */
@@ -49,21 +176,30 @@ export function broadcastTaskChange(
 ): void {
   if (!wssRef) return;
 
+  const previous = taskId ? taskSnapshots.get(taskId) : undefined;
+  const current = taskId && taskLookup ? taskLookup(taskId) : undefined;
+  if (taskId) {
+    // Cloned: callers sometimes mutate cached task arrays in place
+    if (current) taskSnapshots.set(taskId, structuredClone(current));
+    else taskSnapshots.delete(taskId);
+  }
+
   const message: TaskChangeEvent = {
     type: 'task:changed',
     changeType,
     taskId,
     timestamp: new Date().toISOString(),
   };
+  if (current && previous && changeType === 'updated') {
+    message.patch = createJsonPatch(
+      previous as unknown as Record<string, unknown>,
+      current as unknown as Record<string, unknown>
+    );
+  } else if (current) {
+    message.task = current;
+  }
 
-  const payload = JSON.stringify(message);
-
-  wssRef.clients.forEach((client: WebSocket) => {
-    if (client.readyState === 1) {
-      // WebSocket.OPEN = 1
-      client.send(payload);
-    }
-  });
+  publish(message, taskTopics(taskId, previous, current));
 
   // Also notify via webhook (fire-and-forget)
   notifyTaskChange(changeType, taskId, taskContext);
@@ -125,7 +261,7 @@ export function broadcastSquadMessage(message: SquadMessage): void {
 }
 
 /**
- * Broadcast a telemetry event to all connected WebSocket clients.
+ * Broadcast a telemetry event to subscribed WebSocket clients.
  * Clients can listen for 'telemetry:event' messages for real-time telemetry updates.
  */
 export function broadcastTelemetryEvent(event: AnyTelemetryEvent): void {
@@ -136,14 +272,9 @@ export function broadcastTelemetryEvent(event: AnyTelemetryEvent): void {
     event,
   };
 
-  const payload = JSON.stringify(message);
-
-  wssRef.clients.forEach((client: WebSocket) => {
-    if (client.readyState === 1) {
-      // WebSocket.OPEN = 1
-      client.send(payload);
-    }
-  });
+  const topics = ['telemetry', `telemetry:${event.type}`];
+  if (event.taskId) topics.push(`task:${event.taskId}`);
+  publish(message, topics);
 }
 
 export interface BroadcastMessageEvent {
@@ -209,7 +340,7 @@ export interface WorkflowStatusEvent {
 }
 
 /**
- * Broadcast workflow run status updates to all connected WebSocket clients.
+ * Broadcast workflow run status updates to subscribed WebSocket clients.
  * Sends full run state to avoid extra HTTP fetches.
  */
 export function broadcastWorkflowStatus(run: {
@@ -264,12 +395,7 @@ export function broadcastWorkflowStatus(run: {
     },
   };
 
-  const payload = JSON.stringify(message);
-
-  wssRef.clients.forEach((client: WebSocket) => {
-    if (client.readyState === 1) {
-      // WebSocket.OPEN = 1
-      client.send(payload);
-    }
-  });
+  const topics = ['workflows', `workflow:${run.workflowId}`, `workflow-run:${run.id}`];
+  if (run.taskId) topics.push(`task:${run.taskId}`);
+  publish(message, topics);
 }
@@ -0,0 +1,440 @@
+/**
+ * Budget Service
+ *
+ * Enforces spending budgets (global, per project or per agent, over a daily
+ * or monthly window) on the work that spends tokens:
+ *   - `enforce` is called before an agent starts, a workflow step runs or an
+ *     automation starts. Once an applicable budget is exhausted the work is
+ *     refused with BudgetExceededError and an override request is filed.
+ *   - An admin approves an override to let work continue until the window
+ *     ends (or an earlier expiry), or rejects it.
+ *   - `checkThresholds` runs after token usage is recorded and sends one
+ *     notification per budget, window and crossed threshold.
+ *
+ * Spending is the cost of `run.tokens` telemetry, priced from the model
+ * pricing catalog. Enforcement only applies with `budget.enforce` on; usage
+ * is reported whenever budget tracking is enabled. Overrides and sent
+ * notifications are kept in the runtime directory.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import {
+  budgetApplies,
+  budgetWindowEnd,
+  budgetWindowStart,
+  getBudgetLimits,
+  type AnyTelemetryEvent,
+  type BudgetAction,
+  type BudgetLimit,
+  type BudgetOverride,
+  type BudgetOverrideStatus,
+  type BudgetUsage,
+  type ModelPricing,
+  type TokenTelemetryEvent,
+} from '@veritas-kanban/shared';
+import { createLogger } from '../lib/logger.js';
+import { getRuntimeDir } from '../utils/paths.js';
+import { BudgetExceededError, ConflictError, NotFoundError } from '../middleware/error-handler.js';
+import { tokenEventCost } from './metrics/helpers.js';
+import { getConfigService, type ConfigService } from './config-service.js';
+import { getTelemetryService, type TelemetryService } from './telemetry-service.js';
+import { getPricingService, type PricingService } from './pricing-service.js';
+import { getNotificationService, type NotificationService } from './notification-service.js';
+
+const log = createLogger('budget-service');
+
+/** How long telemetry read for usage is reused before it is read again */
+const DEFAULT_USAGE_CACHE_MS = 30_000;
+
+/** Whose spending a piece of work counts as */
+export interface BudgetSubject {
+  project?: string;
+  agent?: string;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Applicable budgets that are exhausted and have no approved override */
+  exhausted: BudgetUsage[];
+}
+
+export interface BudgetServiceOptions {
+  configService?: Pick<ConfigService, 'getFeatureSettings'>;
+  telemetry?: Pick<TelemetryService, 'getEvents'>;
+  pricing?: Pick<PricingService, 'getCatalog'>;
+  notifications?: Pick<NotificationService, 'createNotification'>;
+  /** Defaults to budget-state.json in the runtime directory */
+  filePath?: string;
+  usageCacheMs?: number;
+}
+
+interface BudgetState {
+  overrides: BudgetOverride[];
+  /** Thresholds already notified, keyed by `<budget id>@<window start>` */
+  notified: Record<string, number[]>;
+}
+
+interface SpendingSnapshot {
+  since: string;
+  readAt: number;
+  events: TokenTelemetryEvent[];
+  catalog: ModelPricing[];
+}
+
+/** e.g. `daily budget for project "web"` */
+export function describeBudget(budget: BudgetLimit): string {
+  const window = budget.window === 'daily' ? 'daily' : 'monthly';
+  return budget.scope === 'global'
+    ? `global ${window} budget`
+    : `${window} budget for ${budget.scope} "${budget.target}"`;
+}
+
+function formatLimits(usage: BudgetUsage): string {
+  const parts: string[] = [];
+  if (usage.budget.costLimit) {
+    parts.push(`$${usage.cost.toFixed(2)} of $${usage.budget.costLimit.toFixed(2)}`);
+  }
+  if (usage.budget.tokenLimit) {
+    parts.push(
+      `${usage.tokens.toLocaleString()} of ${usage.budget.tokenLimit.toLocaleString()} tokens`
+    );
+  }
+  return parts.join(', ');
+}
+
+export class BudgetService {
+  private configService: Pick<ConfigService, 'getFeatureSettings'>;
+  private telemetry?: Pick<TelemetryService, 'getEvents'>;
+  private pricing?: Pick<PricingService, 'getCatalog'>;
+  private notifications?: Pick<NotificationService, 'createNotification'>;
+  private filePath: string;
+  private usageCacheMs: number;
+  private state: BudgetState | null = null;
+  private loading: Promise<BudgetState> | null = null;
+  private spending: SpendingSnapshot | null = null;
+
+  constructor(options: BudgetServiceOptions = {}) {
+    this.configService = options.configService ?? getConfigService();
+    this.telemetry = options.telemetry;
+    this.pricing = options.pricing;
+    this.notifications = options.notifications;
+    this.filePath = options.filePath ?? path.join(getRuntimeDir(), 'budget-state.json');
+    this.usageCacheMs = options.usageCacheMs ?? DEFAULT_USAGE_CACHE_MS;
+  }
+
+  /**
+   * Usage of every configured budget in its current window. Empty when
+   * budget tracking is disabled.
+   */
+  async getUsage(now: Date = new Date()): Promise<BudgetUsage[]> {
+    const settings = (await this.configService.getFeatureSettings()).budget;
+    if (!settings.enabled) return [];
+
+    const budgets = getBudgetLimits(settings);
+    if (budgets.length === 0) return [];
+
+    const since = budgets
+      .map((b) => budgetWindowStart(b.window, now).toISOString())
+      .reduce((a, b) => (a < b ? a : b));
+    const { events, catalog } = await this.readSpending(since);
+    const state = await this.load();
+
+    return budgets.map((budget) => {
+      const windowStart = budgetWindowStart(budget.window, now).toISOString();
+      let cost = 0;
+      let tokens = 0;
+      for (const event of events) {
+        if (event.timestamp < windowStart || !budgetApplies(budget, event)) continue;
+        cost += tokenEventCost(event, catalog).cost;
+        tokens += event.totalTokens ?? event.inputTokens + event.outputTokens;
+      }
+
+      const percentUsed = Math.max(
+        budget.costLimit ? (cost / budget.costLimit) * 100 : 0,
+        budget.tokenLimit ? (tokens / budget.tokenLimit) * 100 : 0
+      );
+      const override = state.overrides.find(
+        (o) =>
+          o.budgetId === budget.id &&
+          o.windowStart === windowStart &&
+          o.status === 'approved' &&
+          (!o.expiresAt || o.expiresAt > now.toISOString())
+      );
+
+      return {
+        budget,
+        windowStart,
+        windowEnd: budgetWindowEnd(budget.window, now).toISOString(),
+        cost: Math.round(cost * 10_000) / 10_000,
+        tokens,
+        percentUsed: Math.round(percentUsed * 10) / 10,
+        exhausted: percentUsed >= 100,
+        ...(override ? { override } : {}),
+      };
+    });
+  }
+
+  /**
+   * Whether work for this subject may go ahead. Always allowed unless
+   * enforcement is switched on.
+   */
+  async check(subject: BudgetSubject, now: Date = new Date()): Promise<BudgetCheck> {
+    const settings = (await this.configService.getFeatureSettings()).budget;
+    if (!settings.enabled || !settings.enforce) return { allowed: true, exhausted: [] };
+
+    const exhausted = (await this.getUsage(now)).filter(
+      (usage) => usage.exhausted && !usage.override && budgetApplies(usage.budget, subject)
+    );
+    return { allowed: exhausted.length === 0, exhausted };
+  }
+
+  /**
+   * Refuse work that would spend against an exhausted budget. Files an
+   * override request per exhausted budget (reusing a pending one) and throws
+   * BudgetExceededError listing them.
+   */
+  async enforce(
+    subject: BudgetSubject,
+    action: BudgetAction,
+    context: { taskId?: string; requestedBy?: string } = {},
+    now: Date = new Date()
+  ): Promise<void> {
+    const { allowed, exhausted } = await this.check(subject, now);
+    if (allowed) return;
+
+    const overrides: BudgetOverride[] = [];
+    for (const usage of exhausted) {
+      overrides.push(
+        await this.requestOverride(
+          usage.budget.id,
+          { requestedBy: context.requestedBy ?? subject.agent, action, taskId: context.taskId },
+          now
+        )
+      );
+    }
+
+    log.warn(
+      { action, ...subject, budgets: exhausted.map((u) => u.budget.id) },
+      'Work refused, budget exhausted'
+    );
+    throw new BudgetExceededError(
+      `Budget exhausted: ${exhausted.map((u) => `${describeBudget(u.budget)} (${formatLimits(u)})`).join('; ')}`,
+      {
+        budgets: exhausted.map((u) => ({
+          id: u.budget.id,
+          cost: u.cost,
+          tokens: u.tokens,
+          percentUsed: u.percentUsed,
+          windowEnd: u.windowEnd,
+        })),
+        overrideIds: overrides.map((o) => o.id),
+      }
+    );
+  }
+
+  async listOverrides(status?: BudgetOverrideStatus): Promise<BudgetOverride[]> {
+    const state = await this.load();
+    const overrides = status ? state.overrides.filter((o) => o.status === status) : state.overrides;
+    return [...overrides].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Ask to continue past a budget in its current window. A pending request
+   * for the same budget and window is returned instead of filing another.
+   */
+  async requestOverride(
+    budgetId: string,
+    input: Pick<BudgetOverride, 'requestedBy' | 'action' | 'taskId' | 'reason'> = {},
+    now: Date = new Date()
+  ): Promise<BudgetOverride> {
+    const budget = await this.findBudget(budgetId);
+    const windowStart = budgetWindowStart(budget.window, now).toISOString();
+    const state = await this.load();
+
+    const pending = state.overrides.find(
+      (o) => o.budgetId === budgetId && o.windowStart === windowStart && o.status === 'pending'
+    );
+    if (pending) return pending;
+
+    const override: BudgetOverride = {
+      id: `override_${nanoid(10)}`,
+      budgetId,
+      windowStart,
+      status: 'pending',
+      ...input,
+      createdAt: now.toISOString(),
+    };
+    state.overrides.push(override);
+    await this.persist();
+
+    log.info(
+      { overrideId: override.id, budgetId, action: input.action },
+      'Budget override requested'
+    );
+    return override;
+  }
+
+  /**
+   * Approve or reject an override request. Approved overrides last until the
+   * end of the budget window, or `expiresAt` if that is earlier.
+   */
+  async reviewOverride(
+    id: string,
+    decision: 'approved' | 'rejected',
+    reviewer: string,
+    options: { expiresAt?: string } = {},
+    now: Date = new Date()
+  ): Promise<BudgetOverride> {
+    const state = await this.load();
+    const override = state.overrides.find((o) => o.id === id);
+    if (!override) {
+      throw new NotFoundError(`Budget override ${id} not found`);
+    }
+    if (override.status !== 'pending') {
+      throw new ConflictError(`Budget override was already ${override.status}`);
+    }
+
+    override.status = decision;
+    override.reviewedBy = reviewer;
+    override.reviewedAt = now.toISOString();
+    if (decision === 'approved') {
+      const budget = await this.findBudget(override.budgetId);
+      const windowEnd = budgetWindowEnd(
+        budget.window,
+        new Date(override.windowStart)
+      ).toISOString();
+      override.expiresAt =
+        options.expiresAt && options.expiresAt < windowEnd ? options.expiresAt : windowEnd;
+    }
+    await this.persist();
+
+    log.info({ overrideId: id, decision, reviewer }, 'Budget override reviewed');
+    return override;
+  }
+
+  /**
+   * Send a notification for every budget that has crossed one of the
+   * configured thresholds since the last check. Call after usage is
+   * recorded; returns the budgets that were notified.
+   */
+  async checkThresholds(now: Date = new Date()): Promise<BudgetUsage[]> {
+    this.spending = null;
+    const settings = (await this.configService.getFeatureSettings()).budget;
+    const thresholds = [...(settings.notifyThresholds ?? [])].sort((a, b) => a - b);
+    const usages = await this.getUsage(now);
+    if (thresholds.length === 0 || usages.length === 0) return [];
+
+    const state = await this.load();
+    const notified: Record<string, number[]> = {};
+    const alerts: Array<{ usage: BudgetUsage; threshold: number }> = [];
+
+    for (const usage of usages) {
+      const key = `${usage.budget.id}@${usage.windowStart}`;
+      const sent = state.notified[key] ?? [];
+      const crossed = thresholds.filter((t) => usage.percentUsed >= t);
+      const fresh = crossed.filter((t) => !sent.includes(t));
+      if (fresh.length > 0) alerts.push({ usage, threshold: fresh[fresh.length - 1] });
+      // Budgets and windows no longer current are dropped here
+      if (crossed.length > 0 || sent.length > 0)
+        notified[key] = [...new Set([...sent, ...crossed])];
+    }
+
+    state.notified = notified;
+    if (alerts.length === 0) return [];
+    await this.persist();
+
+    const notifications = this.notifications ?? getNotificationService();
+    for (const { usage, threshold } of alerts) {
+      const exhausted = threshold >= 100;
+      try {
+        await notifications.createNotification({
+          type: 'budget_threshold',
+          title: exhausted ? 'Budget Exhausted' : 'Budget Alert',
+          message:
+            `The ${describeBudget(usage.budget)} is at ${usage.percentUsed}% (${formatLimits(usage)}).` +
+            (exhausted && settings.enforce
+              ? ' Agent starts, workflow steps and automation are paused until it resets or an override is approved.'
+              : ''),
+          ...(usage.budget.scope === 'project' ? { project: usage.budget.target } : {}),
+        });
+      } catch (err) {
+        log.warn({ err, budgetId: usage.budget.id }, 'Failed to send budget notification');
+      }
+    }
+
+    log.info(
+      { budgets: alerts.map((a) => ({ id: a.usage.budget.id, threshold: a.threshold })) },
+      'Budget thresholds crossed'
+    );
+    return alerts.map((a) => a.usage);
+  }
+
+  private async findBudget(budgetId: string): Promise<BudgetLimit> {
+    const settings = (await this.configService.getFeatureSettings()).budget;
+    const budget = getBudgetLimits(settings).find((b) => b.id === budgetId);
+    if (!budget) {
+      throw new NotFoundError(`Budget ${budgetId} not found`);
+    }
+    return budget;
+  }
+
+  /** Token events since `since`, reused for a short while between checks */
+  private async readSpending(since: string): Promise<SpendingSnapshot> {
+    const cached = this.spending;
+    if (cached && cached.since <= since && Date.now() - cached.readAt < this.usageCacheMs) {
+      return cached;
+    }
+
+    const telemetry = this.telemetry ?? getTelemetryService();
+    const [events, catalog] = await Promise.all([
+      telemetry.getEvents({ type: 'run.tokens', since }),
+      (this.pricing ?? getPricingService()).getCatalog(),
+    ]);
+    this.spending = {
+      since,
+      readAt: Date.now(),
+      events: events.filter(
+        (e: AnyTelemetryEvent): e is TokenTelemetryEvent => e.type === 'run.tokens'
+      ),
+      catalog,
+    };
+    return this.spending;
+  }
+
+  /** Concurrent callers share one read, so none of them sees (or persists) a half-loaded state */
+  private load(): Promise<BudgetState> {
+    if (!this.loading) this.loading = this.readState();
+    return this.loading;
+  }
+
+  private async readState(): Promise<BudgetState> {
+    let state: BudgetState = { overrides: [], notified: {} };
+    try {
+      const raw = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as Partial<BudgetState>;
+      state = { overrides: raw.overrides ?? [], notified: raw.notified ?? {} };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn({ err }, 'Could not load budget state, starting fresh');
+      }
+    }
+    this.state = state;
+    return state;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.state, null, 2), 'utf-8');
+  }
+}
+
+// Singleton
+let instance: BudgetService | null = null;
+
+export function getBudgetService(): BudgetService {
+  if (!instance) {
+    instance = new BudgetService();
+  }
+  return instance;
+}
@@ -17,6 +17,7 @@ import path from 'path';
 import { ConfigService } from './config-service.js';
 import { TaskService } from './task-service.js';
 import { getAgentRoutingService } from './agent-routing-service.js';
+import { getBudgetService } from './budget-service.js';
 import { getBreaker } from './circuit-registry.js';
 import { validatePathSegment, ensureWithinBase } from '../utils/sanitize.js';
 import type { Task, AgentType, TaskAttempt, AttemptStatus } from '@veritas-kanban/shared';
@@ -114,6 +115,9 @@ export class ClawdbotAgentService {
       agent = agentType;
     }
 
+    // Refuse to start once the task's project or the agent is out of budget
+    await getBudgetService().enforce({ project: task.project, agent }, 'agent.start', { taskId });
+
     // Create attempt
     const attemptId = `attempt_${nanoid(8)}`;
     const startedAt = new Date().toISOString();
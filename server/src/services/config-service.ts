@@ -122,6 +122,36 @@ function deepMergeDefaults<T extends object>(target: Partial<T>, defaults: T): T
   return result as T;
 }
 
+/**
+ * Apply a partial feature-settings patch on top of the current settings.
+ * Shared by every settings backend so merge semantics stay identical.
+ */
+export function mergeFeatureSettings(
+  current: FeatureSettings,
+  patch: Record<string, unknown>
+): FeatureSettings {
+  // Deep merge the patch into current settings
+  const merged = deepMergeDefaults(patch as Partial<FeatureSettings>, current);
+  // Also merge any new keys from patch that aren't in defaults
+  // SAFETY: FeatureSettings sections are all objects with string keys
+  const mergedRecord = merged as unknown as Record<string, Record<string, unknown>>;
+  for (const section of Object.keys(patch)) {
+    const patchSection = patch[section];
+    if (
+      section in mergedRecord &&
+      typeof patchSection === 'object' &&
+      patchSection !== null &&
+      !Array.isArray(patchSection)
+    ) {
+      mergedRecord[section] = {
+        ...mergedRecord[section],
+        ...(patchSection as Record<string, unknown>),
+      };
+    }
+  }
+  return merged;
+}
+
 export interface ConfigServiceOptions {
   configDir?: string;
   configFile?: string;
@@ -221,25 +251,7 @@ export class ConfigService {
   async updateFeatureSettings(patch: Record<string, unknown>): Promise<FeatureSettings> {
     const config = await this.getConfig();
     const current = config.features || DEFAULT_FEATURE_SETTINGS;
-    // Deep merge the patch into current settings
-    const merged = deepMergeDefaults(patch as Partial<FeatureSettings>, current);
-    // Also merge any new keys from patch that aren't in defaults
-    // SAFETY: FeatureSettings sections are all objects with string keys
-    const mergedRecord = merged as unknown as Record<string, Record<string, unknown>>;
-    for (const section of Object.keys(patch)) {
-      const patchSection = patch[section];
-      if (
-        section in mergedRecord &&
-        typeof patchSection === 'object' &&
-        patchSection !== null &&
-        !Array.isArray(patchSection)
-      ) {
-        mergedRecord[section] = {
-          ...mergedRecord[section],
-          ...(patchSection as Record<string, unknown>),
-        };
-      }
-    }
+    const merged = mergeFeatureSettings(current, patch);
     config.features = merged;
     await this.saveConfig(config);
     return merged;
@@ -15,8 +15,17 @@
 
 import { getTelemetryService } from './telemetry-service.js';
 import { getTaskService } from './task-service.js';
+import { getPricingService } from './pricing-service.js';
+import { tokenEventCost } from './metrics/helpers.js';
 import { createLogger } from '../lib/logger.js';
-import type { Task, TaskType, TaskPriority } from '@veritas-kanban/shared';
+import {
+  computeTokenCost,
+  type ModelPricing,
+  type Task,
+  type TaskType,
+  type TaskPriority,
+  type TokenTelemetryEvent,
+} from '@veritas-kanban/shared';
 
 const log = createLogger('cost-prediction');
 
@@ -73,8 +82,8 @@ export interface AccuracyStats {
 
 // ─── Cost Model Constants ────────────────────────────────────────
 
-/** Base cost per task (USD) — derived from historical average */
-const DEFAULT_BASE_COST = 0.15;
+/** Token volume of a typical task, priced from the catalog when there's no history */
+const TYPICAL_TASK_USAGE = { inputTokens: 40_000, outputTokens: 8_000 };
 
 /** Type multipliers — how much more/less expensive each type tends to be */
 const TYPE_MULTIPLIERS: Record<string, number> = {
@@ -126,7 +135,10 @@ class CostPredictionService {
   }): Promise<CostPrediction> {
     // 1. Get historical base cost from telemetry
     const historicalBase = await this.getHistoricalBaseCost(task.type, task.project);
-    const baseCost = historicalBase.avgCost > 0 ? historicalBase.avgCost : DEFAULT_BASE_COST;
+    const baseCost =
+      historicalBase.avgCost > 0
+        ? historicalBase.avgCost
+        : this.defaultBaseCost(await getPricingService().getCatalog());
 
     // 2. Apply type multiplier
     const typeKey = (task.type || 'feature').toLowerCase();
@@ -289,6 +301,18 @@ class CostPredictionService {
     };
   }
 
+  /**
+   * Cost of a typical task at the median model price in the catalog.
+   */
+  private defaultBaseCost(catalog: ModelPricing[]): number {
+    const costs = catalog
+      .map((pricing) => computeTokenCost(pricing, TYPICAL_TASK_USAGE))
+      .sort((a, b) => a - b);
+    const mid = Math.floor(costs.length / 2);
+    if (costs.length % 2 === 1) return costs[mid] ?? 0;
+    return ((costs[mid - 1] ?? 0) + (costs[mid] ?? 0)) / 2;
+  }
+
   /**
    * Get historical average cost for similar tasks.
    */
@@ -308,17 +332,13 @@ class CostPredictionService {
       }
 
       // Filter by type/project if available and calculate average cost per task
+      const catalog = await getPricingService().getCatalog();
       const taskCosts = new Map<string, number>();
       for (const event of events) {
-        const e = event as unknown as Record<string, unknown>;
-        const taskId = e.taskId as string;
+        const taskId = event.taskId;
         if (!taskId) continue;
 
-        const inputTokens = (e.inputTokens as number) || 0;
-        const outputTokens = (e.outputTokens as number) || 0;
-        const eventCost =
-          (e.cost as number) || inputTokens * 0.00001 + outputTokens * 0.00003;
-
+        const eventCost = tokenEventCost(event as TokenTelemetryEvent, catalog).cost;
         taskCosts.set(taskId, (taskCosts.get(taskId) || 0) + eventCost);
       }
 
@@ -348,16 +368,14 @@ class CostPredictionService {
 
       if (!events || events.length === 0) return 1.0;
 
+      const catalog = await getPricingService().getCatalog();
       const projectCosts: number[] = [];
       const otherCosts: number[] = [];
 
       for (const event of events) {
-        const e = event as unknown as Record<string, unknown>;
-        const inputTokens = (e.inputTokens as number) || 0;
-        const outputTokens = (e.outputTokens as number) || 0;
-        const cost = (e.cost as number) || inputTokens * 0.00001 + outputTokens * 0.00003;
+        const cost = tokenEventCost(event as TokenTelemetryEvent, catalog).cost;
 
-        if (e.project === project) {
+        if (event.project === project) {
           projectCosts.push(cost);
         } else {
           otherCosts.push(cost);
@@ -0,0 +1,224 @@
+/**
+ * Deliverable Scheduler
+ *
+ * Background loop that fires scheduled deliverables when their `nextRunAt`
+ * passes: creates a task or starts a workflow run (per `Deliverable.action`)
+ * and records a DeliverableRun with status and duration.
+ *
+ * Runs that fell due while the server was down are either caught up (run
+ * once, trigger: 'catch-up') or recorded as skipped, per `missedRunPolicy`.
+ *
+ * Disable with VERITAS_DELIVERABLE_SCHEDULER=false (e.g. on secondary instances).
+ */
+
+import { createLogger } from '../lib/logger.js';
+import {
+  getScheduledDeliverablesService,
+  type Deliverable,
+  type DeliverableRun,
+  type DeliverableRunTrigger,
+  type ScheduledDeliverablesService,
+} from './scheduled-deliverables-service.js';
+import { getTaskService, type TaskService } from './task-service.js';
+import { getWorkflowRunService, type WorkflowRunService } from './workflow-run-service.js';
+
+const log = createLogger('deliverable-scheduler');
+
+/** How often due deliverables are checked */
+const DEFAULT_INTERVAL_MS = 30_000;
+
+/** A run due longer ago than this was missed (server down), not just picked up late */
+const DEFAULT_MISSED_THRESHOLD_MS = 5 * 60_000;
+
+export interface DeliverableSchedulerOptions {
+  service?: ScheduledDeliverablesService;
+  taskService?: Pick<TaskService, 'createTask'>;
+  workflowRunService?: Pick<WorkflowRunService, 'startRun'>;
+  intervalMs?: number;
+  missedThresholdMs?: number;
+}
+
+interface ActionResult {
+  summary: string;
+  taskId?: string;
+  workflowRunId?: string;
+}
+
+export class DeliverableScheduler {
+  private service: ScheduledDeliverablesService;
+  private taskService?: Pick<TaskService, 'createTask'>;
+  private workflowRunService?: Pick<WorkflowRunService, 'startRun'>;
+  private intervalMs: number;
+  private missedThresholdMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(options: DeliverableSchedulerOptions = {}) {
+    this.service = options.service || getScheduledDeliverablesService();
+    this.taskService = options.taskService;
+    this.workflowRunService = options.workflowRunService;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.missedThresholdMs = options.missedThresholdMs ?? DEFAULT_MISSED_THRESHOLD_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    log.info({ intervalMs: this.intervalMs }, 'Starting deliverable scheduler');
+
+    // Check immediately so runs missed during downtime are handled on boot
+    this.tickSafely();
+    this.timer = setInterval(() => this.tickSafely(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log.info('Stopped deliverable scheduler');
+    }
+  }
+
+  /**
+   * Fire every deliverable that is due at `now`. Overlapping calls are
+   * ignored so a slow action never runs twice.
+   */
+  async tick(now: Date = new Date()): Promise<DeliverableRun[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    try {
+      const runs: DeliverableRun[] = [];
+      for (const del of await this.service.getDue(now)) {
+        runs.push(await this.fire(del, now));
+      }
+      return runs;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a deliverable immediately, outside its schedule.
+   */
+  async runNow(deliverableId: string): Promise<DeliverableRun | null> {
+    const result = await this.service.get(deliverableId);
+    if (!result) return null;
+    return this.execute(result.deliverable, 'manual');
+  }
+
+  private tickSafely(): void {
+    this.tick().catch((err) => {
+      log.error({ err }, 'Deliverable scheduler tick failed');
+    });
+  }
+
+  private async fire(del: Deliverable, now: Date): Promise<DeliverableRun> {
+    const scheduledFor = del.nextRunAt ?? now.toISOString();
+    const missed = now.getTime() - new Date(scheduledFor).getTime() > this.missedThresholdMs;
+
+    if (!missed) {
+      return this.execute(del, 'schedule', scheduledFor);
+    }
+
+    const missedCount = 1 + this.service.countScheduledRuns(del, new Date(scheduledFor), now);
+    if (del.missedRunPolicy === 'skip') {
+      log.warn({ deliverableId: del.id, missedCount }, 'Skipping missed deliverable runs');
+      return this.service.recordRun({
+        deliverableId: del.id,
+        status: 'skipped',
+        trigger: 'catch-up',
+        scheduledFor,
+        summary: `Skipped ${missedCount} missed run(s) since ${scheduledFor}`,
+      });
+    }
+
+    log.info({ deliverableId: del.id, missedCount }, 'Catching up missed deliverable run');
+    return this.execute(del, 'catch-up', scheduledFor, missedCount);
+  }
+
+  private async execute(
+    del: Deliverable,
+    trigger: DeliverableRunTrigger,
+    scheduledFor?: string,
+    missedCount = 1
+  ): Promise<DeliverableRun> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.performAction(del, scheduledFor ?? new Date().toISOString());
+      const summary =
+        missedCount > 1
+          ? `${result.summary} (caught up ${missedCount} missed runs)`
+          : result.summary;
+
+      log.info({ deliverableId: del.id, trigger, ...result }, 'Deliverable run completed');
+      return await this.service.recordRun({
+        deliverableId: del.id,
+        status: 'success',
+        trigger,
+        scheduledFor,
+        summary,
+        taskId: result.taskId,
+        workflowRunId: result.workflowRunId,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      log.error({ deliverableId: del.id, trigger, err }, 'Deliverable run failed');
+      return this.service.recordRun({
+        deliverableId: del.id,
+        status: 'failed',
+        trigger,
+        scheduledFor,
+        error,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  private async performAction(del: Deliverable, scheduledFor: string): Promise<ActionResult> {
+    const action = del.action ?? { type: 'task' };
+
+    if (action.type === 'workflow') {
+      const workflowRuns = this.workflowRunService || getWorkflowRunService();
+      const run = await workflowRuns.startRun(action.workflowId, undefined, {
+        ...action.context,
+        deliverable: { id: del.id, name: del.name, scheduledFor, outputPath: del.outputPath },
+      });
+      return { summary: `Started workflow run ${run.id}`, workflowRunId: run.id };
+    }
+
+    const tasks = this.taskService || getTaskService();
+    const outputNote = del.outputPath ? `\n\nOutput path: \`${del.outputPath}\`` : '';
+    const task = await tasks.createTask({
+      title: `${del.name} — ${this.formatDate(scheduledFor, del.timezone)}`,
+      description: `${del.description}${outputNote}`,
+      type: action.taskType,
+      project: action.project,
+      priority: action.priority,
+      agent: del.agent,
+    });
+    return { summary: `Created task ${task.id}`, taskId: task.id };
+  }
+
+  /** YYYY-MM-DD in the deliverable's timezone */
+  private formatDate(iso: string, timeZone = 'UTC'): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(new Date(iso));
+  }
+}
+
+// Singleton
+let instance: DeliverableScheduler | null = null;
+
+export function getDeliverableScheduler(): DeliverableScheduler {
+  if (!instance) {
+    instance = new DeliverableScheduler();
+  }
+  return instance;
+}
@@ -57,6 +57,7 @@ export interface DocsStats {
 
 class DocsService {
   private docsRoot: string;
+  private changeListeners = new Set<(filePath: string) => void>();
 
   constructor() {
     // Default to <storage>/../docs, configurable via VK_DOCS_DIR
@@ -73,9 +74,7 @@ class DocsService {
     sortOrder?: 'asc' | 'desc';
   }): Promise<DocFile[]> {
     const files: DocFile[] = [];
-    const root = options?.directory
-      ? path.join(this.docsRoot, options.directory)
-      : this.docsRoot;
+    const root = options?.directory ? path.join(this.docsRoot, options.directory) : this.docsRoot;
 
     try {
       await this.scanDirectory(root, files);
@@ -162,6 +161,7 @@ class DocsService {
 
     const stat = await fs.stat(fullPath);
     log.info({ filePath }, 'Doc saved');
+    this.notifyChange(filePath);
 
     return {
       path: filePath,
@@ -189,6 +189,7 @@ class DocsService {
     try {
       await fs.unlink(fullPath);
       log.info({ filePath }, 'Doc deleted');
+      this.notifyChange(filePath);
       return true;
     } catch {
       return false;
@@ -279,8 +280,27 @@ class DocsService {
     return dirs.sort();
   }
 
+  /**
+   * Subscribe to docs saved or deleted through this service.
+   * Returns an unsubscribe function.
+   */
+  onChange(listener: (filePath: string) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
   // ─── Private ─────────────────────────────────────────────────
 
+  private notifyChange(filePath: string): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(filePath);
+      } catch (err) {
+        log.warn({ err, filePath }, 'Docs change listener failed');
+      }
+    }
+  }
+
   private async scanDirectory(dir: string, files: DocFile[]): Promise<void> {
     let entries;
     try {
@@ -37,6 +37,17 @@ export type LifecycleEvent =
   | 'task.commented'
   | 'task.reviewed';
 
+export const LIFECYCLE_EVENTS: LifecycleEvent[] = [
+  'task.created',
+  'task.started',
+  'task.blocked',
+  'task.done',
+  'task.cancelled',
+  'task.assigned',
+  'task.commented',
+  'task.reviewed',
+];
+
 export type HookAction =
   | 'notify' // Send notification
   | 'log_activity' // Log to activity feed
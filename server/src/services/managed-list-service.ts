@@ -5,6 +5,11 @@ import { nanoid } from 'nanoid';
 import type { ManagedListItem } from '@veritas-kanban/shared';
 import { createLogger } from '../lib/logger.js';
 import { withFileLock } from './file-lock.js';
+import {
+  resolveStorageType,
+  whenStorageReady,
+  type ManagedListRepository,
+} from '../storage/index.js';
 const log = createLogger('managed-list-service');
 
 export interface ManagedListServiceConfig<T extends ManagedListItem> {
@@ -19,17 +24,34 @@ export class ManagedListService<T extends ManagedListItem> {
   private filePath: string;
   private defaults: T[];
   private referenceCounter?: (id: string) => Promise<number>;
+  private repository: ManagedListRepository<T> | Promise<ManagedListRepository<T>> | null;
 
-  constructor(config: ManagedListServiceConfig<T>) {
+  /**
+   * @param repository Store the list in a storage repository instead of a JSON
+   *   file. Defaults to the provider selected by VERITAS_STORAGE; null forces files.
+   */
+  constructor(
+    config: ManagedListServiceConfig<T>,
+    repository?: ManagedListRepository<T> | Promise<ManagedListRepository<T>> | null
+  ) {
     this.filePath = join(config.configDir, config.filename);
     this.defaults = config.defaults;
     this.referenceCounter = config.referenceCounter;
+    this.repository =
+      repository !== undefined
+        ? repository
+        : resolveStorageType() === 'sqlite'
+          ? whenStorageReady().then((storage) => storage.managedLists.create(config))
+          : null;
   }
 
   /**
    * Initialize service: ensure config dir exists and seed file if missing
    */
   async init(): Promise<void> {
+    const repository = await this.repository;
+    if (repository) return repository.init();
+
     const configDir = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
 
     await mkdir(configDir, { recursive: true });
@@ -81,6 +103,9 @@ export class ManagedListService<T extends ManagedListItem> {
   async list(includeHidden = false): Promise<T[]> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.list(includeHidden);
+
     let result = [...this.items];
 
     if (!includeHidden) {
@@ -95,6 +120,10 @@ export class ManagedListService<T extends ManagedListItem> {
    */
   async get(id: string): Promise<T | null> {
     await this.init();
+
+    const repository = await this.repository;
+    if (repository) return repository.get(id);
+
     return this.items.find((item) => item.id === id) || null;
   }
 
@@ -104,6 +133,9 @@ export class ManagedListService<T extends ManagedListItem> {
   async create(input: Omit<T, 'order' | 'created' | 'updated'> & { id?: string }): Promise<T> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.create(input);
+
     const now = new Date().toISOString();
     // Use provided id if given (clean, deterministic), otherwise generate one
     const id =
@@ -137,6 +169,9 @@ export class ManagedListService<T extends ManagedListItem> {
    * Skips ID generation — caller provides the full item
    */
   async seedItem(item: T): Promise<T> {
+    const repository = await this.repository;
+    if (repository) return repository.seedItem(item);
+
     this.items.push(item);
     await this.save();
     return item;
@@ -148,6 +183,9 @@ export class ManagedListService<T extends ManagedListItem> {
   async update(id: string, patch: Partial<T>): Promise<T | null> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.update(id, patch);
+
     const index = this.items.findIndex((item) => item.id === id);
     if (index === -1) return null;
 
@@ -172,6 +210,9 @@ export class ManagedListService<T extends ManagedListItem> {
   ): Promise<{ allowed: boolean; referenceCount: number; isDefault: boolean }> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.canDelete(id);
+
     const item = this.items.find((item) => item.id === id);
     if (!item) {
       return { allowed: false, referenceCount: 0, isDefault: false };
@@ -193,6 +234,9 @@ export class ManagedListService<T extends ManagedListItem> {
   async delete(id: string, force = false): Promise<{ deleted: boolean; referenceCount?: number }> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.delete(id, force);
+
     const item = this.items.find((item) => item.id === id);
     if (!item) {
       return { deleted: false };
@@ -218,6 +262,9 @@ export class ManagedListService<T extends ManagedListItem> {
   async reorder(orderedIds: string[]): Promise<T[]> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.reorder(orderedIds);
+
     // Create a map of id -> new order
     const orderMap = new Map<string, number>();
     orderedIds.forEach((id, index) => {
@@ -19,7 +19,9 @@ import {
   toLocalDateStr,
   getTodayStr,
   getElapsedTodayMs,
+  tokenEventCost,
 } from './helpers.js';
+import { getPricingService } from '../pricing-service.js';
 import { getEventFiles, createLineReader } from './telemetry-reader.js';
 import { computeTaskMetrics } from './task-metrics.js';
 import type {
@@ -366,6 +368,7 @@ export async function computeTrends(
 ): Promise<TrendsData> {
   const since = getPeriodStart(period, from);
   const files = await getEventFiles(telemetryDir, since);
+  const catalog = await getPricingService().getCatalog();
 
   // Accumulator per day
   const dailyData = new Map<
@@ -494,11 +497,7 @@ export async function computeTrends(
             dayAcc.totalTokens += totalTokens;
             dayAcc.inputTokens += tokenEvent.inputTokens;
             dayAcc.outputTokens += tokenEvent.outputTokens;
-            // Accumulate reported cost for daily cost estimates
-            const eventCost = (tokenEvent as unknown as Record<string, unknown>).cost;
-            if (typeof eventCost === 'number' && eventCost > 0) {
-              dayAcc.costEstimate = (dayAcc.costEstimate || 0) + eventCost;
-            }
+            dayAcc.costEstimate += tokenEventCost(tokenEvent, catalog).cost;
           }
         } catch {
           // Intentionally silent: skip malformed NDJSON line
@@ -556,6 +555,7 @@ export async function computeAgentComparison(
 ): Promise<AgentComparisonResult> {
   const since = getPeriodStart(period);
   const files = await getEventFiles(telemetryDir, since);
+  const catalog = await getPricingService().getCatalog();
 
   // Per-agent accumulator
   const agentData = new Map<
@@ -653,12 +653,7 @@ export async function computeAgentComparison(
             acc.totalTokens += totalTokens;
             acc.inputTokens += tokenEvent.inputTokens;
             acc.outputTokens += tokenEvent.outputTokens;
-            // Prefer reported cost; fall back to estimation ($0.01/1K in, $0.03/1K out)
-            const eventCost = (tokenEvent as unknown as Record<string, unknown>).cost;
-            acc.costEstimate +=
-              typeof eventCost === 'number' && eventCost > 0
-                ? eventCost
-                : (tokenEvent.inputTokens / 1000) * 0.01 + (tokenEvent.outputTokens / 1000) * 0.03;
+            acc.costEstimate += tokenEventCost(tokenEvent, catalog).cost;
           }
         } catch {
           // Intentionally silent: skip malformed NDJSON line
@@ -788,10 +783,18 @@ export async function computeTaskCost(
 ): Promise<import('./types.js').TaskCostMetrics> {
   const since = getPeriodStart(period, from);
   const files = await getEventFiles(telemetryDir, since);
+  const catalog = await getPricingService().getCatalog();
 
   const taskCosts = new Map<
     string,
-    { inputTokens: number; outputTokens: number; totalTokens: number; cost: number; runs: number; totalDurationMs: number }
+    {
+      inputTokens: number;
+      outputTokens: number;
+      totalTokens: number;
+      cost: number;
+      runs: number;
+      totalDurationMs: number;
+    }
   >();
 
   for (const filePath of files) {
@@ -819,14 +822,7 @@ export async function computeTaskCost(
             existing.outputTokens += tokenEvent.outputTokens;
             existing.totalTokens +=
               tokenEvent.totalTokens ?? tokenEvent.inputTokens + tokenEvent.outputTokens;
-            const eventCost = (tokenEvent as unknown as Record<string, unknown>).cost;
-            if (typeof eventCost === 'number' && eventCost > 0) {
-              existing.cost += eventCost;
-            } else {
-              // Estimate at Opus rates
-              existing.cost +=
-                tokenEvent.inputTokens * (15 / 1e6) + tokenEvent.outputTokens * (75 / 1e6);
-            }
+            existing.cost += tokenEventCost(tokenEvent, catalog).cost;
             existing.runs++;
             taskCosts.set(event.taskId, existing);
           }
@@ -902,7 +898,7 @@ export async function computeUtilization(
   period: MetricsPeriod,
   from?: string,
   to?: string,
-  utcOffsetHours?: number,
+  utcOffsetHours?: number
 ): Promise<import('./types.js').UtilizationMetrics> {
   const since = getPeriodStart(period, from);
   const files = await getEventFiles(telemetryDir, since);
@@ -2,6 +2,12 @@
  * Shared utility functions for metrics calculations.
  */
 import path from 'path';
+import {
+  computeTokenCost,
+  findModelPricing,
+  type ModelPricing,
+  type TokenTelemetryEvent,
+} from '@veritas-kanban/shared';
 import type { MetricsPeriod, TrendDirection } from './types.js';
 import { getProjectRoot, getTelemetryDir } from '../../utils/paths.js';
 
@@ -176,6 +182,30 @@ export function calculateChange(current: number, previous: number): number {
   return Math.round(((current - previous) / previous) * 100);
 }
 
+/** Rough rates (USD per token) for events whose model isn't in the pricing catalog */
+const FALLBACK_INPUT_RATE = 0.01 / 1000;
+const FALLBACK_OUTPUT_RATE = 0.03 / 1000;
+
+/**
+ * Cost of a token event: the cost stored on the event (reported, or priced on
+ * ingest), else the catalog price of its model at the time, else a rough
+ * estimate when the model is unknown.
+ */
+export function tokenEventCost(
+  event: TokenTelemetryEvent,
+  catalog: ModelPricing[]
+): { cost: number; estimated: boolean } {
+  if (typeof event.cost === 'number') return { cost: event.cost, estimated: false };
+
+  const pricing = findModelPricing(catalog, event.model, event.timestamp);
+  if (pricing) return { cost: computeTokenCost(pricing, event), estimated: false };
+
+  return {
+    cost: event.inputTokens * FALLBACK_INPUT_RATE + event.outputTokens * FALLBACK_OUTPUT_RATE,
+    estimated: true,
+  };
+}
+
 /**
  * Calculate percentile from sorted array
  */
@@ -29,4 +29,6 @@ export type {
   SprintVelocityPoint,
   CurrentSprintProgress,
   VelocityMetrics,
+  CostBreakdownEntry,
+  CostMetrics,
 } from './types.js';
@@ -7,8 +7,13 @@ import { TaskService } from '../task-service.js';
 import { TELEMETRY_DIR } from './helpers.js';
 import { computeTaskMetrics, computeVelocityMetrics } from './task-metrics.js';
 import { computeRunMetrics, computeDurationMetrics, computeFailedRuns } from './run-metrics.js';
-import { computeTokenMetrics, computeBudgetMetrics } from './token-metrics.js';
-import { computeAllMetrics, computeTrends, computeAgentComparison, computeUtilization } from './dashboard-metrics.js';
+import { computeTokenMetrics, computeBudgetMetrics, computeCostMetrics } from './token-metrics.js';
+import {
+  computeAllMetrics,
+  computeTrends,
+  computeAgentComparison,
+  computeUtilization,
+} from './dashboard-metrics.js';
 import type {
   MetricsPeriod,
   TaskMetrics,
@@ -18,6 +23,7 @@ import type {
   TrendComparison,
   TrendsData,
   BudgetMetrics,
+  CostMetrics,
   AgentComparisonResult,
   VelocityMetrics,
   FailedRunDetails,
@@ -89,6 +95,15 @@ export class MetricsService {
     return computeTrends(this.telemetryDir, period, project, from, to);
   }
 
+  async getCostMetrics(
+    period: MetricsPeriod,
+    project?: string,
+    from?: string,
+    to?: string
+  ): Promise<CostMetrics> {
+    return computeCostMetrics(this.telemetryDir, period, project, from, to);
+  }
+
   async getBudgetMetrics(
     tokenBudget: number,
     costBudget: number,
@@ -130,7 +145,7 @@ export class MetricsService {
     period: MetricsPeriod,
     from?: string,
     to?: string,
-    utcOffsetHours?: number,
+    utcOffsetHours?: number
   ): Promise<import('./types.js').UtilizationMetrics> {
     // Use telemetry-based computation (reliable data source)
     return computeUtilization(this.telemetryDir, period, from, to, utcOffsetHours);
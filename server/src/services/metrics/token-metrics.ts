@@ -2,9 +2,17 @@
  * Token-related metrics: token usage and budget tracking.
  */
 import type { TokenTelemetryEvent, AnyTelemetryEvent } from '@veritas-kanban/shared';
-import { getPeriodStart, percentile } from './helpers.js';
+import { getPeriodStart, percentile, tokenEventCost } from './helpers.js';
+import { getPricingService } from '../pricing-service.js';
 import { getEventFiles, streamEvents, createLineReader } from './telemetry-reader.js';
-import type { MetricsPeriod, TokenMetrics, TokenAccumulator, BudgetMetrics } from './types.js';
+import type {
+  MetricsPeriod,
+  TokenMetrics,
+  TokenAccumulator,
+  BudgetMetrics,
+  CostBreakdownEntry,
+  CostMetrics,
+} from './types.js';
 import { createLogger } from '../../lib/logger.js';
 const log = createLogger('token-metrics');
 
@@ -137,7 +145,8 @@ export async function computeBudgetMetrics(
   let totalTokens = 0;
   let inputTokens = 0;
   let outputTokens = 0;
-  let reportedCost = 0; // Sum of event.cost when available (preferred over estimation)
+  let estimatedCost = 0;
+  const catalog = await getPricingService().getCatalog();
 
   // Stream through files for current month only
   for (const filePath of files) {
@@ -162,10 +171,7 @@ export async function computeBudgetMetrics(
           totalTokens += eventTotal;
           inputTokens += tokenEvent.inputTokens;
           outputTokens += tokenEvent.outputTokens;
-          // Use the reported cost if available (preferred over estimated)
-          if (typeof (tokenEvent as unknown as Record<string, unknown>).cost === 'number') {
-            reportedCost += (tokenEvent as unknown as Record<string, unknown>).cost as number;
-          }
+          estimatedCost += tokenEventCost(tokenEvent, catalog).cost;
         } catch {
           // Intentionally silent: skip malformed NDJSON line
           continue;
@@ -178,11 +184,6 @@ export async function computeBudgetMetrics(
     }
   }
 
-  // Cost: prefer reported cost from events; fall back to estimation
-  // Fallback rates: Input $0.01/1K, Output $0.03/1K (rough average across models)
-  const fallbackCost = (inputTokens / 1000) * 0.01 + (outputTokens / 1000) * 0.03;
-  const estimatedCost = reportedCost > 0 ? reportedCost : fallbackCost;
-
   // Burn rate calculations
   const tokensPerDay = daysElapsed > 0 ? totalTokens / daysElapsed : 0;
   const costPerDay = daysElapsed > 0 ? estimatedCost / daysElapsed : 0;
@@ -235,3 +236,90 @@ export async function computeBudgetMetrics(
     status,
   };
 }
+
+/** Costs are kept to 4 decimals so cheap models don't round away to $0.00 */
+function roundCost(cost: number): number {
+  return Math.round(cost * 10_000) / 10_000;
+}
+
+/**
+ * Get token costs with per-model, per-agent and per-project breakdowns
+ */
+export async function computeCostMetrics(
+  telemetryDir: string,
+  period: MetricsPeriod,
+  project?: string,
+  from?: string,
+  to?: string
+): Promise<CostMetrics> {
+  const since = getPeriodStart(period, from);
+  const files = await getEventFiles(telemetryDir, since);
+  const catalog = await getPricingService().getCatalog();
+
+  const groups = {
+    byModel: new Map<string, CostBreakdownEntry>(),
+    byAgent: new Map<string, CostBreakdownEntry>(),
+    byProject: new Map<string, CostBreakdownEntry>(),
+  };
+  const totals = { cost: 0, estimated: 0, runs: 0 };
+
+  await streamEvents(
+    files,
+    ['run.tokens'],
+    since,
+    project,
+    totals,
+    (event, acc) => {
+      const tokenEvent = event as TokenTelemetryEvent;
+      const { cost, estimated } = tokenEventCost(tokenEvent, catalog);
+      acc.cost += cost;
+      if (estimated) acc.estimated += cost;
+      acc.runs++;
+
+      const keys: Array<[Map<string, CostBreakdownEntry>, string | undefined]> = [
+        [groups.byModel, tokenEvent.model],
+        [groups.byAgent, tokenEvent.agent],
+        [groups.byProject, tokenEvent.project],
+      ];
+      for (const [group, value] of keys) {
+        const key = value || 'unknown';
+        let entry = group.get(key);
+        if (!entry) {
+          entry = {
+            key,
+            cost: 0,
+            runs: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+          };
+          group.set(key, entry);
+        }
+        entry.cost += cost;
+        entry.runs++;
+        entry.inputTokens += tokenEvent.inputTokens;
+        entry.outputTokens += tokenEvent.outputTokens;
+        entry.cacheReadTokens += tokenEvent.cacheReadTokens ?? tokenEvent.cacheTokens ?? 0;
+        entry.cacheWriteTokens += tokenEvent.cacheWriteTokens ?? 0;
+      }
+    },
+    to
+  );
+
+  // Most expensive first
+  const breakdown = (group: Map<string, CostBreakdownEntry>): CostBreakdownEntry[] =>
+    Array.from(group.values())
+      .map((entry) => ({ ...entry, cost: roundCost(entry.cost) }))
+      .sort((a, b) => b.cost - a.cost);
+
+  return {
+    period,
+    totalCost: roundCost(totals.cost),
+    estimatedCost: roundCost(totals.estimated),
+    runs: totals.runs,
+    byModel: breakdown(groups.byModel),
+    byAgent: breakdown(groups.byAgent),
+    byProject: breakdown(groups.byProject),
+  };
+}
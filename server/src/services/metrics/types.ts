@@ -196,7 +196,7 @@ export interface BudgetMetrics {
   inputTokens: number;
   outputTokens: number;
 
-  // Cost estimation (simplified: $0.01 per 1K tokens input, $0.03 per 1K output)
+  // Cost from event costs and the pricing catalog (rough rates for unknown models)
   estimatedCost: number;
 
   // Burn rate calculations
@@ -302,6 +302,29 @@ export interface TaskCostMetrics {
   avgCostPerTask: number;
 }
 
+// ── Cost Breakdown ──────────────────────────────────────────────────
+
+/** Token cost of one model, agent or project within a period */
+export interface CostBreakdownEntry {
+  key: string; // Model, agent or project ("unknown" when the event has none)
+  cost: number;
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface CostMetrics {
+  period: MetricsPeriod;
+  totalCost: number;
+  estimatedCost: number; // Part of totalCost at rough rates (model not in the pricing catalog)
+  runs: number;
+  byModel: CostBreakdownEntry[];
+  byAgent: CostBreakdownEntry[];
+  byProject: CostBreakdownEntry[];
+}
+
 // ── Agent Utilization ───────────────────────────────────────────────
 
 export interface UtilizationMetrics {
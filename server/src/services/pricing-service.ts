@@ -0,0 +1,161 @@
+/**
+ * Pricing Service
+ *
+ * Holds the model pricing catalog (per-model input, output and cache rates
+ * with effective dates) and prices token telemetry from it:
+ *   - `priceEvent` fills in the cost of a token event that arrives without one.
+ *   - `recalculate` rewrites the cost of stored events priced from the
+ *     catalog, so a price change applies retroactively. Costs reported by
+ *     agents are never touched.
+ *
+ * Until a catalog is saved the built-in DEFAULT_MODEL_PRICING list is used.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  DEFAULT_MODEL_PRICING,
+  computeTokenCost,
+  findModelPricing,
+  validateModelPricing,
+  type AnyTelemetryEvent,
+  type ModelPricing,
+  type TokenTelemetryEvent,
+  type TokenUsage,
+} from '@veritas-kanban/shared';
+import { createLogger } from '../lib/logger.js';
+import { getRuntimeDir } from '../utils/paths.js';
+import { ValidationError } from '../middleware/error-handler.js';
+import { getTelemetryService, type TelemetryService } from './telemetry-service.js';
+
+const log = createLogger('pricing-service');
+
+type PricedFields = Pick<TokenTelemetryEvent, 'cost' | 'costSource'>;
+
+/** Anything carrying token counts, e.g. an ingested event before it is stored */
+type PriceableEvent = TokenUsage &
+  Pick<TokenTelemetryEvent, 'model' | 'cost'> & { timestamp?: string };
+
+export interface PricingServiceOptions {
+  /** Defaults to model-pricing.json in the runtime directory */
+  filePath?: string;
+  telemetry?: Pick<TelemetryService, 'rewriteEvents'>;
+}
+
+export interface RecalculationResult {
+  scanned: number;
+  updated: number;
+}
+
+export class PricingService {
+  private filePath: string;
+  private telemetry?: Pick<TelemetryService, 'rewriteEvents'>;
+  private catalog: ModelPricing[] | null = null;
+  private custom = false;
+
+  constructor(options: PricingServiceOptions = {}) {
+    this.filePath = options.filePath ?? path.join(getRuntimeDir(), 'model-pricing.json');
+    this.telemetry = options.telemetry;
+  }
+
+  async getCatalog(): Promise<ModelPricing[]> {
+    if (this.catalog) return this.catalog;
+
+    try {
+      this.catalog = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as ModelPricing[];
+      this.custom = true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn({ err }, 'Could not load model pricing, using defaults');
+      }
+      this.catalog = DEFAULT_MODEL_PRICING;
+      this.custom = false;
+    }
+    return this.catalog;
+  }
+
+  /** Whether a catalog has been saved (otherwise the defaults apply) */
+  async isCustom(): Promise<boolean> {
+    await this.getCatalog();
+    return this.custom;
+  }
+
+  /** Replace the catalog. Recalculate afterwards to reprice stored events. */
+  async setCatalog(entries: ModelPricing[]): Promise<ModelPricing[]> {
+    const issues = validateModelPricing(entries);
+    if (issues.length > 0) {
+      throw new ValidationError('Invalid pricing catalog', issues);
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2), 'utf-8');
+    this.catalog = entries;
+    this.custom = true;
+    log.info({ models: entries.length }, 'Model pricing updated');
+    return entries;
+  }
+
+  /** Drop the saved catalog and go back to the built-in prices */
+  async resetCatalog(): Promise<ModelPricing[]> {
+    await fs.rm(this.filePath, { force: true });
+    this.catalog = DEFAULT_MODEL_PRICING;
+    this.custom = false;
+    return this.catalog;
+  }
+
+  /**
+   * Cost an incoming token event. A reported cost is kept (and marked as
+   * reported); otherwise the catalog price at the event's time is used.
+   * Events for models missing from the catalog are left unpriced.
+   */
+  async priceEvent<T extends PriceableEvent>(event: T): Promise<T & PricedFields> {
+    if (typeof event.cost === 'number') {
+      return { ...event, costSource: 'reported' };
+    }
+
+    const pricing = findModelPricing(await this.getCatalog(), event.model, event.timestamp);
+    if (!pricing) return event;
+    return { ...event, cost: computeTokenCost(pricing, event), costSource: 'catalog' };
+  }
+
+  /**
+   * Reprice stored token events from the current catalog. Only events priced
+   * from the catalog, or never priced, are rewritten; events whose model has
+   * left the catalog lose their computed cost.
+   */
+  async recalculate(options: { since?: string } = {}): Promise<RecalculationResult> {
+    const catalog = await this.getCatalog();
+    const telemetry = this.telemetry ?? getTelemetryService();
+
+    const result = await telemetry.rewriteEvents((event: AnyTelemetryEvent) => {
+      if (event.type !== 'run.tokens') return null;
+      const tokenEvent = event as TokenTelemetryEvent;
+      // Costs without a source predate the catalog and were reported by agents
+      if (typeof tokenEvent.cost === 'number' && tokenEvent.costSource !== 'catalog') return null;
+
+      const pricing = findModelPricing(catalog, tokenEvent.model, tokenEvent.timestamp);
+      if (!pricing) {
+        if (tokenEvent.costSource !== 'catalog') return null;
+        const { cost: _cost, costSource: _source, ...unpriced } = tokenEvent;
+        return unpriced;
+      }
+
+      const cost = computeTokenCost(pricing, tokenEvent);
+      if (cost === tokenEvent.cost) return null;
+      return { ...tokenEvent, cost, costSource: 'catalog' };
+    }, options);
+
+    log.info(result, 'Recalculated token costs');
+    return result;
+  }
+}
+
+// Singleton
+let instance: PricingService | null = null;
+
+export function getPricingService(): PricingService {
+  if (!instance) {
+    instance = new PricingService();
+  }
+  return instance;
+}
@@ -1,7 +1,7 @@
 import { resolve } from 'path';
 import type { ProjectConfig } from '@veritas-kanban/shared';
 import { ManagedListService } from './managed-list-service.js';
-import { TaskService } from './task-service.js';
+import { TaskService, getTaskService } from './task-service.js';
 import { createLogger } from '../lib/logger.js';
 const log = createLogger('project-service');
 
@@ -106,3 +106,12 @@ export class ProjectService extends ManagedListService<ProjectConfig> {
     log.info(`✅ Seeded ${projectArray.length} projects from existing tasks`);
   }
 }
+
+let projectServiceInstance: ProjectService | null = null;
+
+export function getProjectService(): ProjectService {
+  if (!projectServiceInstance) {
+    projectServiceInstance = new ProjectService(getTaskService());
+  }
+  return projectServiceInstance;
+}
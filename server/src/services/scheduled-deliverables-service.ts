@@ -10,6 +10,9 @@
 import { createLogger } from '../lib/logger.js';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import type { TaskPriority } from '@veritas-kanban/shared';
+import { ValidationError } from '../middleware/error-handler.js';
+import { isValidTimeZone, nextCronRun, validateCron } from '../utils/cron.js';
 const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '..', '.veritas-kanban');
 
 const log = createLogger('deliverables');
@@ -18,6 +21,16 @@ const log = createLogger('deliverables');
 
 export type DeliverableSchedule = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
 
+/** What to do with runs that fell due while the server was down */
+export type MissedRunPolicy = 'catch-up' | 'skip';
+
+/** What the scheduler does when a deliverable is due (default: create a task) */
+export type DeliverableAction =
+  | { type: 'task'; taskType?: string; project?: string; priority?: TaskPriority }
+  | { type: 'workflow'; workflowId: string; context?: Record<string, unknown> };
+
+export type DeliverableRunTrigger = 'manual' | 'schedule' | 'catch-up';
+
 export interface Deliverable {
   id: string;
   /** Display name */
@@ -28,6 +41,8 @@ export interface Deliverable {
   schedule: DeliverableSchedule;
   /** Cron expression (for custom schedules) */
   cronExpr?: string;
+  /** IANA timezone the cron expression is evaluated in (default: UTC) */
+  timezone?: string;
   /** Human-readable schedule description */
   scheduleDescription: string;
   /** Is this deliverable active? */
@@ -38,6 +53,10 @@ export interface Deliverable {
   outputPath?: string;
   /** Tags for categorization */
   tags: string[];
+  /** Action taken by the scheduler when due */
+  action?: DeliverableAction;
+  /** Missed-run handling after downtime (default: catch-up, i.e. run once) */
+  missedRunPolicy?: MissedRunPolicy;
   /** Creation timestamp */
   createdAt: string;
   /** Last run timestamp */
@@ -61,23 +80,55 @@ export interface DeliverableRun {
   durationMs?: number;
   /** Error message if failed */
   error?: string;
+  /** What started this run (absent on runs recorded before scheduling existed) */
+  trigger?: DeliverableRunTrigger;
+  /** Scheduled time this run was for */
+  scheduledFor?: string;
+  /** Task created by this run */
+  taskId?: string;
+  /** Workflow run started by this run */
+  workflowRunId?: string;
   /** Run timestamp */
   runAt: string;
 }
 
+type DeliverableInput = Pick<
+  Deliverable,
+  | 'name'
+  | 'description'
+  | 'schedule'
+  | 'cronExpr'
+  | 'timezone'
+  | 'scheduleDescription'
+  | 'enabled'
+  | 'agent'
+  | 'outputPath'
+  | 'tags'
+  | 'action'
+  | 'missedRunPolicy'
+>;
+
+/** Upper bound when counting missed occurrences */
+const MAX_COUNTED_RUNS = 1000;
+
 // ─── Service ─────────────────────────────────────────────────────
 
-class ScheduledDeliverablesService {
+export class ScheduledDeliverablesService {
   private deliverables: Deliverable[] = [];
   private runs: DeliverableRun[] = [];
   private loaded = false;
+  private dataDir: string;
+
+  constructor(options: { dataDir?: string } = {}) {
+    this.dataDir = options.dataDir || DATA_DIR;
+  }
 
   private get deliverablesPath(): string {
-    return path.join(DATA_DIR, 'scheduled-deliverables.json');
+    return path.join(this.dataDir, 'scheduled-deliverables.json');
   }
 
   private get runsPath(): string {
-    return path.join(DATA_DIR, 'deliverable-runs.json');
+    return path.join(this.dataDir, 'deliverable-runs.json');
   }
 
   private async ensureLoaded(): Promise<void> {
@@ -99,9 +150,21 @@ class ScheduledDeliverablesService {
       this.runs = [];
     }
     this.loaded = true;
+
+    // Deliverables created before scheduling existed have no nextRunAt yet
+    const now = new Date();
+    let backfilled = false;
+    for (const del of this.deliverables) {
+      if (del.enabled && !del.nextRunAt) {
+        del.nextRunAt = this.calculateNextRun(del, now);
+        backfilled = true;
+      }
+    }
+    if (backfilled) await this.saveDeliverables();
   }
 
   private async saveDeliverables(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
     await fs.writeFile(this.deliverablesPath, JSON.stringify(this.deliverables, null, 2));
   }
 
@@ -117,15 +180,19 @@ class ScheduledDeliverablesService {
     description: string;
     schedule: DeliverableSchedule;
     cronExpr?: string;
+    timezone?: string;
     scheduleDescription?: string;
     agent?: string;
     outputPath?: string;
     tags?: string[];
     enabled?: boolean;
+    action?: DeliverableAction;
+    missedRunPolicy?: MissedRunPolicy;
   }): Promise<Deliverable> {
     await this.ensureLoaded();
+    this.validateSchedule(params.schedule, params.cronExpr, params.timezone);
 
-    const scheduleDesc = params.scheduleDescription || this.describeSchedule(params.schedule, params.cronExpr);
+    const scheduleDesc = params.scheduleDescription || this.describeSchedule(params.schedule, params.cronExpr, params.timezone);
 
     const deliverable: Deliverable = {
       id: `del_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
@@ -133,14 +200,20 @@ class ScheduledDeliverablesService {
       description: params.description,
       schedule: params.schedule,
       cronExpr: params.cronExpr,
+      timezone: params.timezone,
       scheduleDescription: scheduleDesc,
       enabled: params.enabled ?? true,
       agent: params.agent,
       outputPath: params.outputPath,
       tags: params.tags || [],
+      action: params.action,
+      missedRunPolicy: params.missedRunPolicy,
       createdAt: new Date().toISOString(),
       totalRuns: 0,
     };
+    if (deliverable.enabled) {
+      deliverable.nextRunAt = this.calculateNextRun(deliverable, new Date());
+    }
 
     this.deliverables.push(deliverable);
     await this.saveDeliverables();
@@ -151,14 +224,29 @@ class ScheduledDeliverablesService {
   /**
    * Update a deliverable.
    */
-  async update(id: string, update: Partial<Pick<Deliverable, 'name' | 'description' | 'schedule' | 'cronExpr' | 'scheduleDescription' | 'enabled' | 'agent' | 'outputPath' | 'tags'>>): Promise<Deliverable | null> {
+  async update(id: string, update: Partial<DeliverableInput>): Promise<Deliverable | null> {
     await this.ensureLoaded();
     const del = this.deliverables.find((d) => d.id === id);
     if (!del) return null;
 
+    this.validateSchedule(
+      update.schedule ?? del.schedule,
+      update.cronExpr ?? del.cronExpr,
+      update.timezone ?? del.timezone
+    );
+
     Object.assign(del, update);
-    if (update.schedule || update.cronExpr) {
-      del.scheduleDescription = update.scheduleDescription || this.describeSchedule(del.schedule, del.cronExpr);
+    const scheduleChanged =
+      update.schedule !== undefined ||
+      update.cronExpr !== undefined ||
+      update.timezone !== undefined;
+    if (scheduleChanged) {
+      del.scheduleDescription = update.scheduleDescription || this.describeSchedule(del.schedule, del.cronExpr, del.timezone);
+    }
+    if (!del.enabled) {
+      del.nextRunAt = undefined;
+    } else if (scheduleChanged || !del.nextRunAt) {
+      del.nextRunAt = this.calculateNextRun(del, new Date());
     }
 
     await this.saveDeliverables();
@@ -187,6 +275,10 @@ class ScheduledDeliverablesService {
     summary?: string;
     durationMs?: number;
     error?: string;
+    trigger?: DeliverableRunTrigger;
+    scheduledFor?: string;
+    taskId?: string;
+    workflowRunId?: string;
   }): Promise<DeliverableRun> {
     await this.ensureLoaded();
 
@@ -198,6 +290,10 @@ class ScheduledDeliverablesService {
       summary: params.summary,
       durationMs: params.durationMs,
       error: params.error,
+      trigger: params.trigger ?? 'manual',
+      scheduledFor: params.scheduledFor,
+      taskId: params.taskId,
+      workflowRunId: params.workflowRunId,
       runAt: new Date().toISOString(),
     };
 
@@ -208,7 +304,13 @@ class ScheduledDeliverablesService {
     if (del) {
       del.lastRunAt = run.runAt;
       del.totalRuns++;
-      del.nextRunAt = this.calculateNextRun(del);
+      if (del.enabled) {
+        // Interval schedules keep their phase: advance from the slot that was due,
+        // and never hand back the slot that was just handled
+        const anchor = params.scheduledFor ? new Date(params.scheduledFor) : undefined;
+        const after = new Date(Math.max(Date.parse(run.runAt), anchor?.getTime() ?? 0));
+        del.nextRunAt = this.calculateNextRun(del, after, anchor);
+      }
       await this.saveDeliverables();
     }
 
@@ -263,32 +365,87 @@ class ScheduledDeliverablesService {
       .slice(0, limit);
   }
 
+  /**
+   * Enabled deliverables whose next run is at or before `now`.
+   */
+  async getDue(now: Date = new Date()): Promise<Deliverable[]> {
+    await this.ensureLoaded();
+    return this.deliverables.filter(
+      (d) => d.enabled && d.nextRunAt && new Date(d.nextRunAt).getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Count scheduled occurrences in the half-open window (from, to].
+   */
+  countScheduledRuns(del: Deliverable, from: Date, to: Date): number {
+    let count = 0;
+    let cursor = from;
+    while (count < MAX_COUNTED_RUNS) {
+      const next = this.calculateNextRun(del, cursor, cursor);
+      if (!next || new Date(next).getTime() > to.getTime()) break;
+      count++;
+      cursor = new Date(next);
+    }
+    return count;
+  }
+
+  /**
+   * Next run strictly after `after`. Custom schedules evaluate the cron
+   * expression in the deliverable's timezone; interval schedules step from
+   * `anchor` (default: `after`). Undefined if the cron never matches.
+   */
+  calculateNextRun(del: Deliverable, after: Date, anchor?: Date): string | undefined {
+    if (del.schedule === 'custom') {
+      if (!del.cronExpr) return undefined;
+      return nextCronRun(del.cronExpr, after, del.timezone)?.toISOString();
+    }
+
+    const next = new Date(anchor ?? after);
+    do {
+      switch (del.schedule) {
+        case 'daily': next.setDate(next.getDate() + 1); break;
+        case 'weekly': next.setDate(next.getDate() + 7); break;
+        case 'biweekly': next.setDate(next.getDate() + 14); break;
+        case 'monthly': next.setMonth(next.getMonth() + 1); break;
+      }
+    } while (next.getTime() <= after.getTime());
+
+    return next.toISOString();
+  }
+
   // ─── Private ─────────────────────────────────────────────────
 
-  private describeSchedule(schedule: DeliverableSchedule, cronExpr?: string): string {
+  private validateSchedule(
+    schedule: DeliverableSchedule,
+    cronExpr?: string,
+    timezone?: string
+  ): void {
+    if (schedule === 'custom') {
+      if (!cronExpr) {
+        throw new ValidationError('Custom schedules require a cron expression');
+      }
+      const cronError = validateCron(cronExpr);
+      if (cronError) {
+        throw new ValidationError(`Invalid cron expression: ${cronError}`);
+      }
+    }
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new ValidationError(`Unknown timezone: ${timezone}`);
+    }
+  }
+
+  private describeSchedule(schedule: DeliverableSchedule, cronExpr?: string, timezone?: string): string {
     switch (schedule) {
       case 'daily': return 'Every day';
       case 'weekly': return 'Every week';
       case 'biweekly': return 'Every 2 weeks';
       case 'monthly': return 'Every month';
-      case 'custom': return cronExpr ? `Cron: ${cronExpr}` : 'Custom schedule';
+      case 'custom':
+        if (!cronExpr) return 'Custom schedule';
+        return timezone ? `Cron: ${cronExpr} (${timezone})` : `Cron: ${cronExpr}`;
     }
   }
-
-  private calculateNextRun(del: Deliverable): string {
-    const lastRun = del.lastRunAt ? new Date(del.lastRunAt) : new Date();
-    const next = new Date(lastRun);
-
-    switch (del.schedule) {
-      case 'daily': next.setDate(next.getDate() + 1); break;
-      case 'weekly': next.setDate(next.getDate() + 7); break;
-      case 'biweekly': next.setDate(next.getDate() + 14); break;
-      case 'monthly': next.setMonth(next.getMonth() + 1); break;
-      default: next.setDate(next.getDate() + 1); break;
-    }
-
-    return next.toISOString();
-  }
 }
 
 // Singleton
@@ -0,0 +1,311 @@
+/**
+ * Search Service
+ *
+ * Unified full-text search across tasks (title, description, comments and
+ * extracted attachment text) and docs, ranked with BM25F field boosts:
+ * title > description > comments > attachment text.
+ *
+ * The index is kept in memory and updated incrementally: each search first
+ * re-indexes tasks whose cached object changed and docs whose mtime or size
+ * changed (docs saved through DocsService are picked up immediately, external
+ * edits within DOCS_RESCAN_MS).
+ */
+
+import type { Task } from '@veritas-kanban/shared';
+import { getTaskService, type TaskService } from './task-service.js';
+import { getAttachmentService, type AttachmentService } from './attachment-service.js';
+import { getDocsService, type DocFile } from './docs-service.js';
+import { SearchIndex } from '../utils/search-index.js';
+import {
+  parseSearchQuery,
+  tokenize,
+  type ParsedSearchQuery,
+  type SearchFilterKey,
+} from '../utils/search-query.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('search');
+
+/** Field weights (BM25F boosts) */
+const FIELD_BOOSTS = {
+  title: 4,
+  description: 2,
+  comments: 1.5,
+  attachments: 1,
+};
+
+/** How long a docs scan stays fresh when no doc was saved through DocsService */
+const DOCS_RESCAN_MS = 10_000;
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_LENGTH = 160;
+
+type DocsService = ReturnType<typeof getDocsService>;
+
+export type SearchResultKind = 'task' | 'doc';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string; // Task ID or doc path
+  title: string;
+  score: number;
+  matchedFields: string[];
+  snippet?: string;
+  task?: Pick<Task, 'status' | 'priority' | 'type' | 'project' | 'agent'>;
+}
+
+export interface SearchResponse {
+  query: ParsedSearchQuery;
+  total: number;
+  results: SearchResult[];
+}
+
+export interface SearchServiceOptions {
+  taskService?: Pick<TaskService, 'listTasks'>;
+  attachmentService?: Pick<AttachmentService, 'getExtractedText'>;
+  docsService?: Pick<DocsService, 'listFiles' | 'getFile' | 'onChange'>;
+}
+
+interface IndexedEntry {
+  kind: SearchResultKind;
+  fields: Record<string, string>;
+  task?: Task;
+  docVersion?: string; // mtime + size of the indexed doc
+}
+
+export class SearchService {
+  private taskService: Pick<TaskService, 'listTasks'>;
+  private attachmentService: Pick<AttachmentService, 'getExtractedText'>;
+  private docsService: Pick<DocsService, 'listFiles' | 'getFile' | 'onChange'>;
+  private index = new SearchIndex({ boosts: FIELD_BOOSTS });
+  private entries = new Map<string, IndexedEntry>();
+  private docsScannedAt = 0;
+  private syncing: Promise<void> | null = null;
+  private unsubscribeDocs: () => void;
+
+  constructor(options: SearchServiceOptions = {}) {
+    this.taskService = options.taskService ?? getTaskService();
+    this.attachmentService = options.attachmentService ?? getAttachmentService();
+    this.docsService = options.docsService ?? getDocsService();
+    this.unsubscribeDocs = this.docsService.onChange(() => {
+      this.docsScannedAt = 0;
+    });
+  }
+
+  dispose(): void {
+    this.unsubscribeDocs();
+  }
+
+  /**
+   * Search tasks and docs. Task filters (status:, project:, ...) exclude docs;
+   * `is:task` / `is:doc` restrict the kind.
+   */
+  async search(query: string, options: { limit?: number } = {}): Promise<SearchResponse> {
+    await this.sync();
+
+    const parsed = parseSearchQuery(query);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const accept = (key: string) => this.matchesFilters(this.entries.get(key)!, parsed.filters);
+
+    let results: SearchResult[];
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+      // Filters only: matching tasks, most recently updated first
+      results = [...this.entries.entries()]
+        .filter(([key, entry]) => entry.kind === 'task' && accept(key))
+        .sort(([, a], [, b]) => b.task!.updated.localeCompare(a.task!.updated))
+        .map(([key, entry]) => this.toResult(key, entry, 0, [], parsed));
+    } else {
+      results = this.index
+        .search(parsed, accept)
+        .map((hit) =>
+          this.toResult(hit.id, this.entries.get(hit.id)!, hit.score, hit.matchedFields, parsed)
+        );
+    }
+
+    return { query: parsed, total: results.length, results: results.slice(0, limit) };
+  }
+
+  /**
+   * Bring the index up to date. Concurrent searches share one sync.
+   */
+  private async sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.syncTasks()
+        .then(() => this.syncDocs())
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    await this.syncing;
+  }
+
+  private async syncTasks(): Promise<void> {
+    const tasks = await this.taskService.listTasks();
+    const seen = new Set<string>();
+    let updated = 0;
+
+    for (const task of tasks) {
+      const key = `task:${task.id}`;
+      seen.add(key);
+      // The task cache replaces the object on every write
+      if (this.entries.get(key)?.task === task) continue;
+
+      const fields = {
+        title: task.title,
+        description: task.description ?? '',
+        comments: (task.comments ?? []).map((c) => c.text).join('\n'),
+        attachments: (await this.getAttachmentTexts(task)).join('\n'),
+      };
+      this.entries.set(key, { kind: 'task', fields, task });
+      this.index.add({ id: key, fields });
+      updated++;
+    }
+
+    const removed = this.removeMissing('task', seen);
+    if (updated > 0 || removed > 0) {
+      log.debug({ updated, removed, size: this.index.size }, 'Task index updated');
+    }
+  }
+
+  private async syncDocs(): Promise<void> {
+    if (Date.now() - this.docsScannedAt < DOCS_RESCAN_MS) return;
+    this.docsScannedAt = Date.now();
+
+    const files = await this.docsService.listFiles();
+    const seen = new Set<string>();
+    let updated = 0;
+
+    for (const file of files) {
+      const key = `doc:${file.path}`;
+      const version = `${file.modified}:${file.size}`;
+      seen.add(key);
+      if (this.entries.get(key)?.docVersion === version) continue;
+
+      const doc = await this.docsService.getFile(file.path);
+      if (!doc) continue;
+      const fields = { title: getDocTitle(doc), description: doc.content ?? '' };
+      this.entries.set(key, { kind: 'doc', fields, docVersion: version });
+      this.index.add({ id: key, fields });
+      updated++;
+    }
+
+    const removed = this.removeMissing('doc', seen);
+    if (updated > 0 || removed > 0) {
+      log.debug({ updated, removed, size: this.index.size }, 'Docs index updated');
+    }
+  }
+
+  private removeMissing(kind: SearchResultKind, seen: Set<string>): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.kind === kind && !seen.has(key)) {
+        this.entries.delete(key);
+        this.index.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async getAttachmentTexts(task: Task): Promise<string[]> {
+    const texts: string[] = [];
+    for (const attachment of task.attachments ?? []) {
+      const text = await this.attachmentService.getExtractedText(task.id, attachment.id);
+      if (text) texts.push(text);
+    }
+    return texts;
+  }
+
+  private matchesFilters(entry: IndexedEntry, filters: ParsedSearchQuery['filters']): boolean {
+    if (
+      filters.is &&
+      !filters.is.some((kind) => kind === entry.kind || kind === `${entry.kind}s`)
+    ) {
+      return false;
+    }
+
+    const taskFilters = Object.entries(filters).filter(([key]) => key !== 'is') as Array<
+      [Exclude<SearchFilterKey, 'is'>, string[]]
+    >;
+    if (taskFilters.length === 0) return true;
+
+    const task = entry.task;
+    if (!task) return false;
+    return taskFilters.every(([key, values]) => {
+      const actual =
+        key === 'agent' ? [task.agent, ...(task.agents ?? [])] : [task[key] as string | undefined];
+      return actual.some((value) => !!value && values.includes(value.toLowerCase()));
+    });
+  }
+
+  private toResult(
+    key: string,
+    entry: IndexedEntry,
+    score: number,
+    matchedFields: string[],
+    query: ParsedSearchQuery
+  ): SearchResult {
+    const id = key.slice(key.indexOf(':') + 1);
+    const snippetField = matchedFields.find((field) => field !== 'title');
+    const snippet = snippetField
+      ? getSnippet(entry.fields[snippetField], [...query.terms, ...query.phrases.flat()])
+      : undefined;
+
+    return {
+      kind: entry.kind,
+      id,
+      title: entry.fields.title,
+      score: Math.round(score * 1000) / 1000,
+      matchedFields,
+      ...(snippet ? { snippet } : {}),
+      ...(entry.task
+        ? {
+            task: {
+              status: entry.task.status,
+              priority: entry.task.priority,
+              type: entry.task.type,
+              project: entry.task.project,
+              agent: entry.task.agent,
+            },
+          }
+        : {}),
+    };
+  }
+}
+
+/**
+ * A doc's first markdown heading, or its filename without the extension
+ */
+function getDocTitle(doc: DocFile): string {
+  const heading = doc.content?.match(/^#\s+(.+)$/m);
+  return heading ? heading[1].trim() : doc.name.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * A window of `text` around the first line containing a query term
+ */
+function getSnippet(text: string, terms: string[]): string | undefined {
+  if (!text) return undefined;
+  const lines = text.split('\n');
+  const line =
+    lines.find((l) => tokenize(l).some((token) => terms.some((t) => token.startsWith(t)))) ??
+    lines[0];
+  const collapsed = line.replace(/\s+/g, ' ').trim();
+  if (collapsed.length <= SNIPPET_LENGTH) return collapsed;
+
+  const lower = collapsed.toLowerCase();
+  const positions = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - 40);
+  return `${start > 0 ? '…' : ''}${collapsed.slice(start, start + SNIPPET_LENGTH)}…`;
+}
+
+// Singleton
+let instance: SearchService | null = null;
+
+export function getSearchService(): SearchService {
+  if (!instance) {
+    instance = new SearchService();
+  }
+  return instance;
+}
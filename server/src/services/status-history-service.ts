@@ -36,6 +36,104 @@ export interface StatusPeriod {
   taskTitle?: string;
 }
 
+/**
+ * Compute a daily activity summary from the day's entries (newest-first).
+ * `lastBeforeDay` is the most recent entry before the day, used when the day
+ * itself has no transitions. Shared by every status-history backend.
+ */
+export function buildDailySummary(
+  targetDate: string,
+  entries: StatusHistoryEntry[],
+  lastBeforeDay?: StatusHistoryEntry
+): DailySummary {
+  const startOfDay = new Date(`${targetDate}T00:00:00.000Z`);
+  const endOfDay = new Date(`${targetDate}T23:59:59.999Z`);
+
+  // Reverse to process chronologically
+  const chronological = [...entries].reverse();
+
+  let activeMs = 0;
+  let idleMs = 0;
+  let errorMs = 0;
+  const periods: StatusPeriod[] = [];
+
+  // Process each transition
+  for (let i = 0; i < chronological.length; i++) {
+    const entry = chronological[i];
+    const nextEntry = chronological[i + 1];
+
+    // Calculate how long this status lasted
+    let endTime: Date;
+    if (nextEntry) {
+      endTime = new Date(nextEntry.timestamp);
+    } else {
+      // Last entry - use current time or end of day if analyzing past dates
+      const now = new Date();
+      endTime = now < endOfDay ? now : endOfDay;
+    }
+
+    const startTime = new Date(entry.timestamp);
+    const durationMs = endTime.getTime() - startTime.getTime();
+
+    // Only count positive durations within the day
+    if (durationMs > 0) {
+      // Categorize the time
+      if (entry.newStatus === 'idle') {
+        idleMs += durationMs;
+      } else if (entry.newStatus === 'error') {
+        errorMs += durationMs;
+      } else {
+        activeMs += durationMs;
+      }
+
+      // Add to periods
+      periods.push({
+        status: entry.newStatus,
+        startTime: entry.timestamp,
+        endTime: endTime.toISOString(),
+        durationMs,
+        taskId: entry.taskId,
+        taskTitle: entry.taskTitle,
+      });
+    }
+  }
+
+  // If no entries for the day, the most recent entry before it determines the status
+  if (chronological.length === 0 && lastBeforeDay) {
+    const now = new Date();
+    const effectiveEnd = now < endOfDay ? now : endOfDay;
+    const durationMs = effectiveEnd.getTime() - startOfDay.getTime();
+
+    if (durationMs > 0) {
+      if (lastBeforeDay.newStatus === 'idle') {
+        idleMs = durationMs;
+      } else if (lastBeforeDay.newStatus === 'error') {
+        errorMs = durationMs;
+      } else {
+        activeMs = durationMs;
+      }
+
+      periods.push({
+        status: lastBeforeDay.newStatus,
+        startTime: startOfDay.toISOString(),
+        endTime: effectiveEnd.toISOString(),
+        durationMs,
+        taskId: lastBeforeDay.taskId,
+        taskTitle: lastBeforeDay.taskTitle,
+      });
+    }
+  }
+
+  return {
+    date: targetDate,
+    activeMs,
+    idleMs,
+    errorMs,
+    transitions: entries.length,
+    periods,
+  };
+}
+
 export class StatusHistoryService {
   private historyFile: string;
   private readonly MAX_ENTRIES = 5000; // Keep more entries for historical analysis
@@ -160,98 +258,16 @@ export class StatusHistoryService {
       endOfDay.toISOString()
     );
 
-    // Reverse to process chronologically
-    const chronological = [...entries].reverse();
-
-    let activeMs = 0;
-    let idleMs = 0;
-    let errorMs = 0;
-    const periods: StatusPeriod[] = [];
-
-    // Process each transition
-    for (let i = 0; i < chronological.length; i++) {
-      const entry = chronological[i];
-      const nextEntry = chronological[i + 1];
-
-      // Calculate how long this status lasted
-      let endTime: Date;
-      if (nextEntry) {
-        endTime = new Date(nextEntry.timestamp);
-      } else {
-        // Last entry - use current time or end of day if analyzing past dates
-        const now = new Date();
-        endTime = now < endOfDay ? now : endOfDay;
-      }
-
-      const startTime = new Date(entry.timestamp);
-      const durationMs = endTime.getTime() - startTime.getTime();
-
-      // Only count positive durations within the day
-      if (durationMs > 0) {
-        // Categorize the time
-        if (entry.newStatus === 'idle') {
-          idleMs += durationMs;
-        } else if (entry.newStatus === 'error') {
-          errorMs += durationMs;
-        } else {
-          activeMs += durationMs;
-        }
-
-        // Add to periods
-        periods.push({
-          status: entry.newStatus,
-          startTime: entry.timestamp,
-          endTime: endTime.toISOString(),
-          durationMs,
-          taskId: entry.taskId,
-          taskTitle: entry.taskTitle,
-        });
-      }
-    }
-
-    // If no entries for the day, check the last status from before this day
-    if (chronological.length === 0) {
+    // If no entries for the day, the last status from before this day carries over
+    let lastBeforeDay: StatusHistoryEntry | undefined;
+    if (entries.length === 0) {
       const allEntries = await this.getHistory(this.MAX_ENTRIES);
-      const beforeDay = allEntries.filter(
+      lastBeforeDay = allEntries.find(
         (e) => new Date(e.timestamp).getTime() < startOfDay.getTime()
       );
-
-      if (beforeDay.length > 0) {
-        // The most recent entry before this day determines the starting status
-        const lastBeforeDay = beforeDay[0];
-        const now = new Date();
-        const effectiveEnd = now < endOfDay ? now : endOfDay;
-        const durationMs = effectiveEnd.getTime() - startOfDay.getTime();
-
-        if (durationMs > 0) {
-          if (lastBeforeDay.newStatus === 'idle') {
-            idleMs = durationMs;
-          } else if (lastBeforeDay.newStatus === 'error') {
-            errorMs = durationMs;
-          } else {
-            activeMs = durationMs;
-          }
-
-          periods.push({
-            status: lastBeforeDay.newStatus,
-            startTime: startOfDay.toISOString(),
-            endTime: effectiveEnd.toISOString(),
-            durationMs,
-            taskId: lastBeforeDay.taskId,
-            taskTitle: lastBeforeDay.taskTitle,
-          });
-        }
-      }
     }
 
-    return {
-      date: targetDate,
-      activeMs,
-      idleMs,
-      errorMs,
-      transitions: entries.length,
-      periods,
-    };
+    return buildDailySummary(targetDate, entries, lastBeforeDay);
   }
 
   async getWeeklySummary(): Promise<DailySummary[]> {
@@ -268,6 +284,19 @@ export class StatusHistoryService {
     return summaries;
   }
 
+  /**
+   * Replace the history with the given entries (newest-first).
+   * Used by storage migrations.
+   */
+  async importHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    await this.ensureDir();
+    const trimmed = entries.slice(0, this.MAX_ENTRIES);
+    await withFileLock(this.historyFile, async () => {
+      await writeFile(this.historyFile, JSON.stringify(trimmed, null, 2), 'utf-8');
+    });
+    this.lastEntry = trimmed[0] ?? null;
+  }
+
   async clearHistory(): Promise<void> {
     await this.ensureDir();
     await writeFile(this.historyFile, '[]', 'utf-8');
@@ -0,0 +1,111 @@
+/**
+ * StepOutputValidator — Validates parsed workflow step outputs against the
+ * JSON Schemas declared in `WorkflowDefinition.schemas` (referenced by
+ * `StepOutput.schema`).
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+import type { WorkflowDefinition, StepOutput } from '../types/workflow.js';
+
+/** Keep validation feedback short enough to inject into a retry prompt */
+const MAX_REPORTED_ERRORS = 10;
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Thrown when a step output does not match its schema. Carries the formatted
+ * errors so a retry can show them to the agent.
+ */
+export class StepOutputValidationError extends Error {
+  constructor(
+    readonly stepId: string,
+    readonly schemaId: string,
+    readonly errors: string[]
+  ) {
+    super(`Output of step ${stepId} does not match schema ${schemaId}: ${errors.join('; ')}`);
+    this.name = 'StepOutputValidationError';
+  }
+}
+
+export class StepOutputValidator {
+  private ajv = new Ajv({ allErrors: true, strict: false });
+  // Compiled validators keyed by schema object (workflow definitions are cached)
+  private compiled = new WeakMap<object, ValidateFunction>();
+
+  /**
+   * Compile a schema, throwing if it is not a valid JSON Schema
+   */
+  compile(schema: unknown): ValidateFunction {
+    if (!schema || typeof schema !== 'object') {
+      throw new Error('Schema must be an object');
+    }
+
+    let validate = this.compiled.get(schema);
+    if (!validate) {
+      validate = this.ajv.compile(schema);
+      this.compiled.set(schema, validate);
+    }
+    return validate;
+  }
+
+  validate(schema: unknown, output: unknown): SchemaValidationResult {
+    const validate = this.compile(schema);
+    if (validate(output)) {
+      return { valid: true, errors: [] };
+    }
+    return { valid: false, errors: formatErrors(validate.errors ?? []) };
+  }
+
+  /**
+   * Validate a step's parsed output against its `output.schema`, if any.
+   * Throws StepOutputValidationError on mismatch.
+   */
+  assertStepOutput(
+    stepId: string,
+    output: StepOutput | undefined,
+    parsedOutput: unknown,
+    workflow?: Pick<WorkflowDefinition, 'schemas'>
+  ): void {
+    const schemaId = output?.schema;
+    if (!schemaId) return;
+
+    if (!workflow) {
+      throw new Error(
+        `Step ${stepId} needs the workflow definition to validate schema ${schemaId}`
+      );
+    }
+    const schema = workflow.schemas?.[schemaId];
+    if (!schema) {
+      throw new Error(`Step ${stepId} references unknown schema ${schemaId}`);
+    }
+
+    const result = this.validate(schema, parsedOutput);
+    if (!result.valid) {
+      throw new StepOutputValidationError(stepId, schemaId, result.errors);
+    }
+  }
+}
+
+function formatErrors(errors: ErrorObject[]): string[] {
+  const formatted = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => {
+    const location = error.instancePath || '(root)';
+    return `${location} ${error.message ?? 'is invalid'}`;
+  });
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    formatted.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return formatted;
+}
+
+// Singleton
+let validatorInstance: StepOutputValidator | null = null;
+
+export function getStepOutputValidator(): StepOutputValidator {
+  if (!validatorInstance) {
+    validatorInstance = new StepOutputValidator();
+  }
+  return validatorInstance;
+}
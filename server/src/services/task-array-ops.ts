@@ -0,0 +1,68 @@
+import { randomUUID } from 'node:crypto';
+import type { Comment, Subtask, Task, UpdateTaskInput } from '@veritas-kanban/shared';
+
+/**
+ * Array merge operations for task updates.
+ *
+ * `addSubtasks`, `removeComments` and friends describe a change to one
+ * element instead of carrying the whole array, so two agents editing the
+ * same task can't overwrite each other's subtasks or comments. TaskService
+ * applies them inside the task's file lock against the latest copy.
+ */
+
+/** Fold array operations into `subtasks` / `comments` and drop the operation keys */
+export function applyArrayOperations(task: Task, input: UpdateTaskInput): UpdateTaskInput {
+  const {
+    addSubtasks,
+    updateSubtasks,
+    removeSubtasks,
+    addComments,
+    updateComments,
+    removeComments,
+    ...changes
+  } = input;
+
+  if (addSubtasks || updateSubtasks || removeSubtasks) {
+    const removed = new Set(removeSubtasks ?? []);
+    const updates = new Map((updateSubtasks ?? []).map((u) => [u.id, u]));
+
+    // Operations on subtasks someone else already removed are no-ops
+    changes.subtasks = [...(changes.subtasks ?? task.subtasks ?? []), ...(addSubtasks ?? [])]
+      .filter((s) => !removed.has(s.id))
+      .map((s) => (updates.has(s.id) ? { ...s, ...updates.get(s.id), id: s.id } : s));
+  }
+
+  if (addComments || updateComments || removeComments) {
+    const removed = new Set(removeComments ?? []);
+    const edits = new Map((updateComments ?? []).map((c) => [c.id, c.text]));
+
+    changes.comments = [...(changes.comments ?? task.comments ?? []), ...(addComments ?? [])]
+      .filter((c) => !removed.has(c.id))
+      .map((c) => (edits.has(c.id) ? { ...c, text: edits.get(c.id) as string } : c));
+  }
+
+  return changes;
+}
+
+export function createSubtask(title: string, acceptanceCriteria?: string[]): Subtask {
+  return {
+    id: `subtask_${randomUUID()}`,
+    title,
+    completed: false,
+    created: new Date().toISOString(),
+    ...(acceptanceCriteria && {
+      acceptanceCriteria,
+      criteriaChecked: new Array(acceptanceCriteria.length).fill(false),
+    }),
+  };
+}
+
+/** Author and text must already be sanitized */
+export function createComment(author: string, text: string): Comment {
+  return {
+    id: `comment_${randomUUID()}`,
+    author,
+    text,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Task Revision Service
+ *
+ * Persists every task update as a revision — who made it, when, and each
+ * changed field with its value before and after — in one JSON file per task
+ * under tasks/revisions. Revisions are enough to rebuild any field's value
+ * at any point in history, which is how restore works.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { nanoid } from 'nanoid';
+import {
+  NON_RESTORABLE_TASK_FIELDS,
+  type Task,
+  type TaskFieldChange,
+  type TaskRevision,
+  type UpdateTaskInput,
+} from '@veritas-kanban/shared';
+import { fileExists } from '../storage/fs-helpers.js';
+import { withFileLock } from './file-lock.js';
+import { createLogger } from '../lib/logger.js';
+import { getTasksRevisionsDir } from '../utils/paths.js';
+
+const log = createLogger('task-revisions');
+
+/** Oldest revisions beyond this are dropped */
+const MAX_REVISIONS_PER_TASK = 500;
+
+/** Bookkeeping fields that change on every write and are not recorded */
+const UNTRACKED_FIELDS = new Set(['id', 'created', 'updated', 'version']);
+
+const NON_RESTORABLE_FIELDS = new Set<string>(NON_RESTORABLE_TASK_FIELDS);
+
+export interface RecordRevisionOptions {
+  author?: string;
+  restoredFrom?: string;
+}
+
+export interface TaskRevisionServiceOptions {
+  revisionsDir?: string;
+}
+
+/**
+ * Field-level differences between two versions of a task
+ */
+export function diffTasks(before: Task, after: Task): TaskFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: TaskFieldChange[] = [];
+
+  for (const field of [...fields].sort()) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+    const previous = before[field as keyof Task];
+    const next = after[field as keyof Task];
+    if (isDeepStrictEqual(previous ?? null, next ?? null)) continue;
+    changes.push({
+      field,
+      ...(previous !== undefined ? { before: previous } : {}),
+      ...(next !== undefined ? { after: next } : {}),
+    });
+  }
+  return changes;
+}
+
+export function isRestorableField(field: string): boolean {
+  return !UNTRACKED_FIELDS.has(field) && !NON_RESTORABLE_FIELDS.has(field);
+}
+
+export class TaskRevisionService {
+  private revisionsDir: string;
+
+  constructor(options: TaskRevisionServiceOptions = {}) {
+    this.revisionsDir = options.revisionsDir || getTasksRevisionsDir();
+  }
+
+  private revisionsFile(taskId: string): string {
+    return path.join(this.revisionsDir, `${taskId}.json`);
+  }
+
+  /**
+   * Revisions for a task, oldest first
+   */
+  async listRevisions(taskId: string): Promise<TaskRevision[]> {
+    const file = this.revisionsFile(taskId);
+    if (!(await fileExists(file))) return [];
+
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as TaskRevision[];
+    } catch (err) {
+      log.warn({ taskId, err }, 'Failed to read task revisions');
+      return [];
+    }
+  }
+
+  async getRevision(taskId: string, revisionId: string): Promise<TaskRevision | null> {
+    const revisions = await this.listRevisions(taskId);
+    return revisions.find((r) => r.id === revisionId) ?? null;
+  }
+
+  /**
+   * Record the update from `before` to `after`. Returns null when no
+   * tracked field changed.
+   */
+  async recordRevision(
+    before: Task,
+    after: Task,
+    options: RecordRevisionOptions = {}
+  ): Promise<TaskRevision | null> {
+    const changes = diffTasks(before, after);
+    if (changes.length === 0) return null;
+
+    const file = this.revisionsFile(after.id);
+    await fs.mkdir(this.revisionsDir, { recursive: true });
+
+    return withFileLock(file, async () => {
+      const revisions = await this.listRevisions(after.id);
+      const revision: TaskRevision = {
+        id: `rev_${nanoid(10)}`,
+        taskId: after.id,
+        revision: (revisions[revisions.length - 1]?.revision ?? 0) + 1,
+        timestamp: after.updated,
+        author: options.author || 'system',
+        changes,
+        ...(options.restoredFrom ? { restoredFrom: options.restoredFrom } : {}),
+      };
+
+      const kept = [...revisions, revision].slice(-MAX_REVISIONS_PER_TASK);
+      await fs.writeFile(file, JSON.stringify(kept, null, 2), 'utf-8');
+      return revision;
+    });
+  }
+
+  /**
+   * The update that returns a task's restorable fields (or just `field`) to
+   * their values right after `revisionId` was applied.
+   *
+   * A field's value at revision N is the `after` of the last revision up to N
+   * that changed it, or else the `before` of the first later revision that
+   * changed it. Fields no revision touched are left alone.
+   */
+  async getRestoreInput(
+    taskId: string,
+    revisionId: string,
+    field?: string
+  ): Promise<UpdateTaskInput | null> {
+    const revisions = await this.listRevisions(taskId);
+    const index = revisions.findIndex((r) => r.id === revisionId);
+    if (index === -1) return null;
+
+    const values = new Map<string, unknown>();
+    for (let i = revisions.length - 1; i > index; i--) {
+      for (const change of revisions[i].changes) values.set(change.field, change.before);
+    }
+    for (let i = 0; i <= index; i++) {
+      for (const change of revisions[i].changes) values.set(change.field, change.after);
+    }
+
+    const input: Record<string, unknown> = {};
+    for (const [name, value] of values) {
+      if (field !== undefined && name !== field) continue;
+      if (!isRestorableField(name)) continue;
+      // UpdateTaskInput clears blockedReason with null rather than undefined
+      input[name] = name === 'blockedReason' && value === undefined ? null : value;
+    }
+    return input as UpdateTaskInput;
+  }
+
+  async deleteRevisions(taskId: string): Promise<void> {
+    await fs.rm(this.revisionsFile(taskId), { force: true });
+  }
+}
+
+// Singleton
+let instance: TaskRevisionService | null = null;
+
+export function getTaskRevisionService(): TaskRevisionService {
+  if (!instance) {
+    instance = new TaskRevisionService();
+  }
+  return instance;
+}
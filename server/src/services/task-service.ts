@@ -14,21 +14,40 @@ import type {
   RunStartedEvent,
   RunCompletedEvent,
 } from '@veritas-kanban/shared';
+import { mergeCustomFields } from '@veritas-kanban/shared';
 import { getTelemetryService, type TelemetryService } from './telemetry-service.js';
 import { ConfigService } from './config-service.js';
 import { withFileLock } from './file-lock.js';
 import { createLogger } from '../lib/logger.js';
-import { ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler.js';
+import {
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+} from '../middleware/error-handler.js';
 import { fireHook, getHookEventForStatusChange } from './hook-service.js';
+import { getWorkflowTriggerService } from './workflow-trigger-service.js';
+import {
+  TaskRevisionService,
+  getTaskRevisionService,
+  type RecordRevisionOptions,
+} from './task-revision-service.js';
 import {
   validateTransition,
   executePostTransitionActions,
   type TransitionActionCallbacks,
 } from './transition-hooks-service.js';
+import { applyArrayOperations } from './task-array-ops.js';
 import { getTasksActiveDir, getTasksArchiveDir } from '../utils/paths.js';
+import { resolveStorageType, whenStorageReady, type TaskRepository } from '../storage/index.js';
 
 const log = createLogger('task-cache');
 
+export interface UpdateTaskOptions extends RecordRevisionOptions {
+  /** Reject with 412 unless the task is still at this version (If-Match) */
+  expectedVersion?: number;
+}
+
 /**
  * Task ID format validation
  * Production format: task_YYYYMMDD_XXXXXX (date + 6-char nanoid)
@@ -59,6 +78,12 @@ export interface TaskServiceOptions {
   tasksDir?: string;
   archiveDir?: string;
   telemetryService?: TelemetryService;
+  revisionService?: Pick<TaskRevisionService, 'recordRevision' | 'deleteRevisions'>;
+  /**
+   * Store tasks in a storage repository instead of markdown files. Defaults to
+   * the provider selected by VERITAS_STORAGE; pass null to force files.
+   */
+  repository?: TaskRepository | Promise<TaskRepository> | null;
 }
 
 /** Ignore file-watcher events within this window after our own writes */
@@ -68,6 +93,8 @@ export class TaskService {
   private tasksDir: string;
   private archiveDir: string;
   private telemetry: TelemetryService;
+  private revisions: Pick<TaskRevisionService, 'recordRevision' | 'deleteRevisions'>;
+  private repository: TaskRepository | Promise<TaskRepository> | null;
 
   // ============ In-Memory Cache ============
   private cache: Map<string, Task> = new Map();
@@ -81,6 +108,20 @@ export class TaskService {
     this.tasksDir = options.tasksDir || DEFAULT_TASKS_DIR;
     this.archiveDir = options.archiveDir || DEFAULT_ARCHIVE_DIR;
     this.telemetry = options.telemetryService || getTelemetryService();
+    // Custom task directories keep their revisions alongside them
+    this.revisions =
+      options.revisionService ||
+      (options.tasksDir
+        ? new TaskRevisionService({
+            revisionsDir: path.join(path.dirname(options.tasksDir), 'revisions'),
+          })
+        : getTaskRevisionService());
+    this.repository =
+      options.repository !== undefined
+        ? options.repository
+        : resolveStorageType() === 'sqlite'
+          ? whenStorageReady().then((storage) => storage.tasks)
+          : null;
     this.ensureDirectories();
   }
 
@@ -88,10 +129,11 @@ export class TaskService {
 
   /**
    * Initialize the cache by loading all tasks from disk and starting the file watcher.
-   * Safe to call multiple times; only the first call does work.
+   * Safe to call multiple times; only the first call does work. Repository-backed
+   * services reload on every call since there is no watcher to keep them in sync.
    */
   private async initCache(): Promise<void> {
-    if (this.cacheInitialized) return;
+    if (this.cacheInitialized && !this.repository) return;
 
     // Prevent concurrent initialization (e.g. parallel listTasks + getTask)
     if (this.cacheLoading) {
@@ -102,13 +144,22 @@ export class TaskService {
     this.cacheLoading = this.loadCacheFromDisk();
     await this.cacheLoading;
     this.cacheLoading = null;
+    if (this.cacheInitialized) return;
     this.cacheInitialized = true;
-    this.startWatcher();
+    if (!this.repository) this.startWatcher();
     log.debug({ count: this.cache.size }, 'Cache initialized');
   }
 
-  /** Read every .md file in tasksDir and populate the cache */
+  /** Read every .md file in tasksDir (or the repository) and populate the cache */
   private async loadCacheFromDisk(): Promise<void> {
+    const repository = await this.repository;
+    if (repository) {
+      const tasks = await repository.findAll();
+      this.cache.clear();
+      tasks.forEach((task) => this.cache.set(task.id, task));
+      return;
+    }
+
     await this.ensureDirectories();
     await this.seedIfEmpty();
     const files = await fs.readdir(this.tasksDir);
@@ -340,11 +391,13 @@ export class TaskService {
         description: cleanDescription.trim(),
         type: data.type || 'code',
         status: data.status || 'todo',
+        column: data.column,
         priority: data.priority || 'medium',
         project: data.project,
         sprint: data.sprint,
         created: data.created || new Date().toISOString(),
         updated: data.updated || new Date().toISOString(),
+        version: data.version,
         git: data.git,
         github: data.github,
         attempt: data.attempt,
@@ -363,6 +416,7 @@ export class TaskService {
         position: data.position,
         lessonsLearned: data.lessonsLearned,
         lessonTags: data.lessonTags,
+        customFields: data.customFields,
       };
     } catch (error) {
       log.error({ err: error, filename }, 'Failed to parse task file');
@@ -407,6 +461,14 @@ export class TaskService {
     return this.cacheGet(id) ?? null;
   }
 
+  /**
+   * Synchronous cache read for callers that cannot await (e.g. WebSocket
+   * broadcasts). Returns undefined until the cache has loaded the task.
+   */
+  peekTask(id: string): Task | undefined {
+    return this.cache.get(id);
+  }
+
   async createTask(input: CreateTaskInput): Promise<Task> {
     const now = new Date().toISOString();
 
@@ -416,24 +478,32 @@ export class TaskService {
       description: input.description || '',
       type: input.type || 'code',
       status: 'todo',
+      column: input.column,
       priority: input.priority || 'medium',
       project: input.project,
       sprint: input.sprint,
       agent: input.agent, // Pre-assigned agent (or "auto" for routing)
       subtasks: input.subtasks, // Include subtasks from template
       blockedBy: input.blockedBy, // Include dependencies from blueprint
+      customFields: input.customFields,
       created: now,
       updated: now,
+      version: 1,
     };
 
     const filename = this.taskToFilename(task);
     const filepath = path.join(this.tasksDir, filename);
-    const content = this.taskToMarkdown(task);
+    const repository = await this.repository;
 
-    await withFileLock(filepath, async () => {
-      this.markWrite();
-      await fs.writeFile(filepath, content, 'utf-8');
-    });
+    if (repository) {
+      await repository.import(task);
+    } else {
+      const content = this.taskToMarkdown(task);
+      await withFileLock(filepath, async () => {
+        this.markWrite();
+        await fs.writeFile(filepath, content, 'utf-8');
+      });
+    }
 
     // Write-through: update cache immediately
     this.cache.set(task.id, task);
@@ -451,38 +521,58 @@ export class TaskService {
       log.warn({ taskId: task.id }, 'onCreated hook failed: %s', err);
     });
 
+    // Start any workflows triggered by the new task
+    getWorkflowTriggerService().notifyTaskChange(undefined, task);
+
     return task;
   }
 
-  async updateTask(id: string, input: UpdateTaskInput): Promise<Task | null> {
+  async updateTask(
+    id: string,
+    input: UpdateTaskInput,
+    options: UpdateTaskOptions = {}
+  ): Promise<Task | null> {
     // Initial read to check existence and compute the lock filepath.
     // NOTE: this data may be stale by the time we acquire the lock —
     // the actual merge happens inside the lock with a fresh cache read.
     const task = await this.getTask(id);
     if (!task) return null;
 
-    // Handle git field separately to merge properly
-    const {
-      git: gitUpdate,
-      github: githubUpdate,
-      blockedReason: blockedReasonUpdate,
-      ...restInput
-    } = input;
-
     // Compute filenames for locking. We use the tentative updated task
     // to determine the new filename (title may have changed).
     const oldFilename = this.taskToFilename(task);
-    const tentativeTask: Task = { ...task, ...restInput };
+    const tentativeTask: Task = { ...task, title: input.title ?? task.title };
     const newFilename = this.taskToFilename(tentativeTask);
     const filepath = path.join(this.tasksDir, newFilename);
 
     let updatedTask!: Task;
+    let previousTask!: Task;
 
     await withFileLock(filepath, async () => {
       // Re-read from cache inside the lock to get the latest state.
       // This prevents concurrent writes (e.g., debounced field save vs.
       // timer start) from overwriting each other's changes.
       const freshTask = this.cacheGet(id) ?? task;
+      previousTask = freshTask;
+
+      const currentVersion = freshTask.version ?? 0;
+      if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+        throw new PreconditionFailedError(
+          `Task has changed (version ${currentVersion}, expected ${options.expectedVersion})`,
+          { currentVersion, task: freshTask }
+        );
+      }
+
+      // Handle git field separately to merge properly; array operations
+      // merge into the fresh subtasks/comments
+      const {
+        git: gitUpdate,
+        github: githubUpdate,
+        blockedReason: blockedReasonUpdate,
+        customFields: customFieldsUpdate,
+        column: columnUpdate,
+        ...restInput
+      } = applyArrayOperations(freshTask, input);
 
       const previousStatus = freshTask.status;
       const statusChanged = input.status !== undefined && input.status !== previousStatus;
@@ -587,17 +677,32 @@ export class TaskService {
           blockedReasonUpdate === null
             ? undefined
             : (blockedReasonUpdate ?? freshTask.blockedReason),
+        // Custom fields merge per key, so editing one never drops the others
+        customFields: customFieldsUpdate
+          ? mergeCustomFields(freshTask.customFields, customFieldsUpdate)
+          : freshTask.customFields,
+        // A status change without a column lands in the first column of the new status
+        column:
+          columnUpdate === null
+            ? undefined
+            : (columnUpdate ?? (statusChanged ? undefined : freshTask.column)),
         updated: new Date().toISOString(),
+        version: currentVersion + 1,
       };
 
-      const content = this.taskToMarkdown(updatedTask);
-      this.markWrite();
+      const repository = await this.repository;
+      if (repository) {
+        await repository.import(updatedTask);
+      } else {
+        const content = this.taskToMarkdown(updatedTask);
+        this.markWrite();
 
-      if (oldFilename !== newFilename) {
-        // Intentionally silent: old file may already be gone after rename
-        await fs.unlink(path.join(this.tasksDir, oldFilename)).catch(() => {});
+        if (oldFilename !== newFilename) {
+          // Intentionally silent: old file may already be gone after rename
+          await fs.unlink(path.join(this.tasksDir, oldFilename)).catch(() => {});
+        }
+        await fs.writeFile(filepath, content, 'utf-8');
       }
-      await fs.writeFile(filepath, content, 'utf-8');
 
       // Write-through: update cache immediately (inside lock for consistency)
       this.cache.set(updatedTask.id, updatedTask);
@@ -713,6 +818,14 @@ export class TaskService {
       }
     });
 
+    // Keep the previous field values so the update can be inspected and undone
+    await this.revisions.recordRevision(previousTask, updatedTask, options).catch((err) => {
+      log.warn({ taskId: updatedTask.id }, 'Failed to record task revision: %s', err);
+    });
+
+    // Start any workflows triggered by the change
+    getWorkflowTriggerService().notifyTaskChange(previousTask, updatedTask);
+
     return updatedTask;
   }
 
@@ -720,19 +833,24 @@ export class TaskService {
     const task = await this.getTask(id);
     if (!task) return false;
 
-    // Find actual file on disk (slug may differ from current title)
-    const actualFilename = await this.findTaskFile(this.tasksDir, id);
-    if (!actualFilename) {
-      log.warn({ taskId: id }, 'Task file not found on disk for deletion');
-      return false;
-    }
+    const repository = await this.repository;
+    if (repository) {
+      await repository.delete(id);
+    } else {
+      // Find actual file on disk (slug may differ from current title)
+      const actualFilename = await this.findTaskFile(this.tasksDir, id);
+      if (!actualFilename) {
+        log.warn({ taskId: id }, 'Task file not found on disk for deletion');
+        return false;
+      }
 
-    const filepath = path.join(this.tasksDir, actualFilename);
+      const filepath = path.join(this.tasksDir, actualFilename);
 
-    await withFileLock(filepath, async () => {
-      this.markWrite();
-      await fs.unlink(filepath);
-    });
+      await withFileLock(filepath, async () => {
+        this.markWrite();
+        await fs.unlink(filepath);
+      });
+    }
 
     // Remove from cache
     this.cacheInvalidate(id);
@@ -741,6 +859,7 @@ export class TaskService {
     const { getAttachmentService } = await import('./attachment-service.js');
     const attachmentService = getAttachmentService();
     await attachmentService.deleteAllAttachments(id);
+    await this.revisions.deleteRevisions(id);
 
     return true;
   }
@@ -749,20 +868,25 @@ export class TaskService {
     const task = await this.getTask(id);
     if (!task) return false;
 
-    // Find actual file on disk (slug may differ from current title)
-    const actualFilename = await this.findTaskFile(this.tasksDir, id);
-    if (!actualFilename) {
-      log.warn({ taskId: id }, 'Task file not found on disk for archiving');
-      return false;
-    }
+    const repository = await this.repository;
+    if (repository) {
+      await repository.import(task, { archived: true });
+    } else {
+      // Find actual file on disk (slug may differ from current title)
+      const actualFilename = await this.findTaskFile(this.tasksDir, id);
+      if (!actualFilename) {
+        log.warn({ taskId: id }, 'Task file not found on disk for archiving');
+        return false;
+      }
 
-    const sourcePath = path.join(this.tasksDir, actualFilename);
-    const destPath = path.join(this.archiveDir, actualFilename);
+      const sourcePath = path.join(this.tasksDir, actualFilename);
+      const destPath = path.join(this.archiveDir, actualFilename);
 
-    await withFileLock(sourcePath, async () => {
-      this.markWrite();
-      await fs.rename(sourcePath, destPath);
-    });
+      await withFileLock(sourcePath, async () => {
+        this.markWrite();
+        await fs.rename(sourcePath, destPath);
+      });
+    }
 
     // Remove from active cache (archived tasks are not cached)
     this.cacheInvalidate(id);
@@ -794,6 +918,9 @@ export class TaskService {
   }
 
   async listArchivedTasks(): Promise<Task[]> {
+    const repository = await this.repository;
+    if (repository) return repository.findArchived();
+
     await this.ensureDirectories();
 
     const files = await fs.readdir(this.archiveDir);
@@ -816,40 +943,82 @@ export class TaskService {
     );
   }
 
+  /**
+   * Write a task verbatim (keeps ID and timestamps) into the active or archive
+   * directory. Used by storage migrations — no hooks or telemetry are fired.
+   */
+  async importTask(task: Task, options: { archived?: boolean } = {}): Promise<void> {
+    if (!isValidTaskId(task.id)) {
+      throw new ValidationError(`Invalid task ID: ${task.id}`);
+    }
+
+    const repository = await this.repository;
+    if (repository) {
+      await repository.import(task, options);
+      if (!options.archived && this.cacheInitialized) {
+        this.cache.set(task.id, task);
+      }
+      return;
+    }
+
+    await this.ensureDirectories();
+
+    const dir = options.archived ? this.archiveDir : this.tasksDir;
+    const existing = await this.findTaskFile(dir, task.id);
+    const filepath = path.join(dir, this.taskToFilename(task));
+
+    await withFileLock(filepath, async () => {
+      this.markWrite();
+      if (existing && existing !== path.basename(filepath)) {
+        await fs.unlink(path.join(dir, existing));
+      }
+      await fs.writeFile(filepath, this.taskToMarkdown(task), 'utf-8');
+    });
+
+    if (!options.archived && this.cacheInitialized) {
+      this.cache.set(task.id, task);
+    }
+  }
+
   async getArchivedTask(id: string): Promise<Task | null> {
     const tasks = await this.listArchivedTasks();
     return tasks.find((t) => t.id === id) || null;
   }
 
-  async restoreTask(id: string): Promise<Task | null> {
+  async restoreTask(id: string, options: RecordRevisionOptions = {}): Promise<Task | null> {
     const task = await this.getArchivedTask(id);
     if (!task) return null;
 
-    // Find actual file on disk (slug may differ from current title)
-    const actualFilename = await this.findTaskFile(this.archiveDir, id);
-    if (!actualFilename) {
-      log.warn({ taskId: id }, 'Archived task file not found on disk for restoration');
-      return null;
-    }
-
-    const sourcePath = path.join(this.archiveDir, actualFilename);
-    const destPath = path.join(this.tasksDir, actualFilename);
-
     // Update status to done
     const restoredTask: Task = {
       ...task,
       status: 'done',
       updated: new Date().toISOString(),
+      version: (task.version ?? 0) + 1,
     };
 
-    const content = this.taskToMarkdown(restoredTask);
+    const repository = await this.repository;
+    if (repository) {
+      await repository.import(restoredTask);
+    } else {
+      // Find actual file on disk (slug may differ from current title)
+      const actualFilename = await this.findTaskFile(this.archiveDir, id);
+      if (!actualFilename) {
+        log.warn({ taskId: id }, 'Archived task file not found on disk for restoration');
+        return null;
+      }
 
-    await withFileLock(destPath, async () => {
-      // Move back to active and set status to done
-      await fs.rename(sourcePath, destPath);
-      this.markWrite();
-      await fs.writeFile(destPath, content, 'utf-8');
-    });
+      const sourcePath = path.join(this.archiveDir, actualFilename);
+      const destPath = path.join(this.tasksDir, actualFilename);
+      const content = this.taskToMarkdown(restoredTask);
+
+      await withFileLock(destPath, async () => {
+        // Move back to active and set status to done
+        await fs.rename(sourcePath, destPath);
+        this.markWrite();
+        await fs.writeFile(destPath, content, 'utf-8');
+      });
+    }
 
     // Restore attachments from archive
     const { getAttachmentService } = await import('./attachment-service.js');
@@ -859,6 +1028,10 @@ export class TaskService {
     // Write-through: add restored task to active cache
     this.cache.set(restoredTask.id, restoredTask);
 
+    await this.revisions.recordRevision(task, restoredTask, options).catch((err) => {
+      log.warn({ taskId: restoredTask.id }, 'Failed to record task revision: %s', err);
+    });
+
     // Emit telemetry event
     await this.telemetry.emit<TaskTelemetryEvent>({
       type: 'task.restored',
@@ -943,7 +1116,7 @@ export class TaskService {
    * Per-task exclusivity: only one timer per task (but multiple tasks can
    * each have their own running timer — supports multi-agent workflows).
    */
-  async startTimer(taskId: string): Promise<Task> {
+  async startTimer(taskId: string, options: RecordRevisionOptions = {}): Promise<Task> {
     const task = await this.getTask(taskId);
     if (!task) {
       throw new NotFoundError('Task not found');
@@ -968,13 +1141,13 @@ export class TaskService {
       activeEntryId: entryId,
     };
 
-    return (await this.updateTask(taskId, { timeTracking })) as Task;
+    return (await this.updateTask(taskId, { timeTracking }, options)) as Task;
   }
 
   /**
    * Stop the running timer for a task
    */
-  async stopTimer(taskId: string): Promise<Task> {
+  async stopTimer(taskId: string, options: RecordRevisionOptions = {}): Promise<Task> {
     const task = await this.getTask(taskId);
     if (!task) {
       throw new NotFoundError('Task not found');
@@ -1019,13 +1192,18 @@ export class TaskService {
       isRunning: false,
     };
 
-    return this.updateTask(taskId, { timeTracking }) as Promise<Task>;
+    return this.updateTask(taskId, { timeTracking }, options) as Promise<Task>;
   }
 
   /**
    * Add a manual time entry
    */
-  async addTimeEntry(taskId: string, duration: number, description?: string): Promise<Task> {
+  async addTimeEntry(
+    taskId: string,
+    duration: number,
+    description?: string,
+    options: RecordRevisionOptions = {}
+  ): Promise<Task> {
     const task = await this.getTask(taskId);
     if (!task) {
       throw new NotFoundError('Task not found');
@@ -1053,13 +1231,17 @@ export class TaskService {
       activeEntryId: task.timeTracking?.activeEntryId,
     };
 
-    return this.updateTask(taskId, { timeTracking }) as Promise<Task>;
+    return this.updateTask(taskId, { timeTracking }, options) as Promise<Task>;
   }
 
   /**
    * Delete a time entry
    */
-  async deleteTimeEntry(taskId: string, entryId: string): Promise<Task> {
+  async deleteTimeEntry(
+    taskId: string,
+    entryId: string,
+    options: RecordRevisionOptions = {}
+  ): Promise<Task> {
     const task = await this.getTask(taskId);
     if (!task) {
       throw new NotFoundError('Task not found');
@@ -1084,21 +1266,21 @@ export class TaskService {
       ...(wasActive ? {} : { activeEntryId: task.timeTracking?.activeEntryId }),
     };
 
-    return this.updateTask(taskId, { timeTracking }) as Promise<Task>;
+    return this.updateTask(taskId, { timeTracking }, options) as Promise<Task>;
   }
 
   /**
    * Reorder tasks within a status column.
    * Accepts an ordered array of task IDs and assigns sequential position values.
    */
-  async reorderTasks(orderedIds: string[]): Promise<Task[]> {
+  async reorderTasks(orderedIds: string[], options: RecordRevisionOptions = {}): Promise<Task[]> {
     const tasks = await this.listTasks();
     const updated: Task[] = [];
 
     for (let i = 0; i < orderedIds.length; i++) {
       const task = tasks.find((t) => t.id === orderedIds[i]);
       if (task && task.position !== i) {
-        const result = await this.updateTask(task.id, { position: i });
+        const result = await this.updateTask(task.id, { position: i }, options);
         if (result) updated.push(result);
       }
     }
@@ -1,7 +1,13 @@
 import { resolve } from 'path';
-import type { TaskTypeConfig } from '@veritas-kanban/shared';
+import {
+  validateCustomFields,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type TaskTypeConfig,
+} from '@veritas-kanban/shared';
 import { ManagedListService } from './managed-list-service.js';
-import { TaskService } from './task-service.js';
+import { TaskService, getTaskService } from './task-service.js';
+import { ValidationError } from '../middleware/error-handler.js';
 
 const DEFAULT_TASK_TYPES: TaskTypeConfig[] = [
   {
@@ -51,7 +57,7 @@ export class TaskTypeService extends ManagedListService<TaskTypeConfig> {
 
   constructor(taskService: TaskService) {
     const configDir = resolve(process.cwd(), '..', '.veritas-kanban');
-    
+
     super({
       filename: 'task-types.json',
       configDir,
@@ -65,4 +71,41 @@ export class TaskTypeService extends ManagedListService<TaskTypeConfig> {
 
     this.taskService = taskService;
   }
+
+  /** Custom fields declared by a task type (none for unknown types) */
+  async getCustomFields(typeId: string): Promise<CustomFieldDefinition[]> {
+    const type = await this.get(typeId);
+    return type?.customFields ?? [];
+  }
+
+  /**
+   * Reject custom field values that don't match the type's declarations.
+   * Pass `partial` for updates, where omitted required fields are fine.
+   */
+  async validateCustomFields(
+    typeId: string,
+    values: Record<string, CustomFieldValue | null> | undefined,
+    options: { partial?: boolean } = {}
+  ): Promise<void> {
+    const issues = validateCustomFields(await this.getCustomFields(typeId), values, options);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Invalid custom fields for task type "${typeId}"`,
+        issues.map((issue) => ({
+          code: 'INVALID_CUSTOM_FIELD',
+          message: `${issue.field} ${issue.message}`,
+          path: ['customFields', issue.field],
+        }))
+      );
+    }
+  }
+}
+
+let taskTypeServiceInstance: TaskTypeService | null = null;
+
+export function getTaskTypeService(): TaskTypeService {
+  if (!taskTypeServiceInstance) {
+    taskTypeServiceInstance = new TaskTypeService(getTaskService());
+  }
+  return taskTypeServiceInstance;
 }
@@ -2,8 +2,10 @@ import fs from 'fs/promises';
 import { createReadStream, createWriteStream } from '../storage/fs-helpers.js';
 import path from 'path';
 import { getTelemetryDir } from '../utils/paths.js';
+import { escapeCsvField } from '../utils/csv.js';
 import { createGzip, createGunzip } from 'zlib';
 import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
 import readline from 'readline';
 import { nanoid } from 'nanoid';
 import type {
@@ -14,6 +16,11 @@ import type {
   AnyTelemetryEvent,
 } from '@veritas-kanban/shared';
 import { createLogger } from '../lib/logger.js';
+import {
+  resolveStorageType,
+  whenStorageReady,
+  type TelemetryRepository,
+} from '../storage/index.js';
 const log = createLogger('telemetry-service');
 
 // Default paths - resolve via shared paths helper (respects DATA_DIR/VERITAS_DATA_DIR)
@@ -28,6 +35,62 @@ const DEFAULT_CONFIG: TelemetryConfig = {
 export interface TelemetryServiceOptions {
   telemetryDir?: string;
   config?: Partial<TelemetryConfig>;
+  /**
+   * Store events in a storage repository instead of NDJSON files. Defaults to
+   * the provider selected by VERITAS_STORAGE; pass null to force files.
+   */
+  repository?: TelemetryRepository | Promise<TelemetryRepository> | null;
+}
+
+/**
+ * Render telemetry events as CSV. Shared by every telemetry backend.
+ */
+export function telemetryEventsToCsv(events: AnyTelemetryEvent[]): string {
+  if (events.length === 0) {
+    return 'id,type,timestamp,taskId,project,agent,success,durationMs,inputTokens,outputTokens,cacheTokens,cost,error\n';
+  }
+
+  // CSV header
+  const headers = [
+    'id',
+    'type',
+    'timestamp',
+    'taskId',
+    'project',
+    'agent',
+    'success',
+    'durationMs',
+    'inputTokens',
+    'outputTokens',
+    'cacheTokens',
+    'cost',
+    'error',
+  ];
+
+  const rows = events.map((event) => {
+    // Access optional union fields via Record — events are a discriminated union
+    // and CSV export needs all possible fields regardless of event type
+    // SAFETY: AnyTelemetryEvent subtypes have string-keyed fields we need to access generically
+    const fields = event as unknown as Record<string, unknown>;
+    const row: Record<string, string> = {
+      id: escapeCsvField(event.id),
+      type: escapeCsvField(event.type),
+      timestamp: escapeCsvField(event.timestamp),
+      taskId: escapeCsvField(event.taskId || ''),
+      project: escapeCsvField(event.project || ''),
+      agent: escapeCsvField(String(fields.agent ?? '')),
+      success: escapeCsvField(String(fields.success ?? '')),
+      durationMs: escapeCsvField(String(fields.durationMs ?? '')),
+      inputTokens: escapeCsvField(String(fields.inputTokens ?? '')),
+      outputTokens: escapeCsvField(String(fields.outputTokens ?? '')),
+      cacheTokens: escapeCsvField(String(fields.cacheTokens ?? '')),
+      cost: escapeCsvField(String(fields.cost ?? '')),
+      error: escapeCsvField(String(fields.error ?? '')),
+    };
+    return headers.map((h) => row[h]).join(',');
+  });
+
+  return [headers.join(','), ...rows].join('\n');
 }
 
 /**
@@ -44,9 +107,16 @@ export class TelemetryService {
   private writeQueue: Promise<void> = Promise.resolve();
   private pendingWrites: Array<TelemetryEvent> = [];
   private readonly MAX_QUEUE_SIZE = 10000;
+  private repository: TelemetryRepository | Promise<TelemetryRepository> | null;
 
   constructor(options: TelemetryServiceOptions = {}) {
     this.telemetryDir = options.telemetryDir || TELEMETRY_DIR;
+    this.repository =
+      options.repository !== undefined
+        ? options.repository
+        : resolveStorageType() === 'sqlite'
+          ? whenStorageReady().then((storage) => storage.telemetry)
+          : null;
 
     // Read retention from env var, falling back to options, then default
     const envRetention = process.env.TELEMETRY_RETENTION_DAYS;
@@ -74,8 +144,11 @@ export class TelemetryService {
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    await fs.mkdir(this.telemetryDir, { recursive: true });
-    await this.cleanupOldEvents();
+    // The repository runs its own retention cleanup when the provider opens
+    if (!(await this.repository)) {
+      await fs.mkdir(this.telemetryDir, { recursive: true });
+      await this.cleanupOldEvents();
+    }
     this.initialized = true;
   }
 
@@ -120,6 +193,9 @@ export class TelemetryService {
 
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.emit<T>(event);
+
     const fullEvent: T = {
       ...event,
       id: `evt_${nanoid(12)}`,
@@ -156,11 +232,81 @@ export class TelemetryService {
     return fullEvent;
   }
 
+  /**
+   * Append events verbatim (keeps IDs and timestamps). Used by storage migrations.
+   */
+  async importEvents(events: AnyTelemetryEvent[]): Promise<void> {
+    await this.init();
+
+    const repository = await this.repository;
+    if (repository) return repository.importEvents(events);
+
+    const writePromise = this.writeQueue.then(async () => {
+      for (const event of events) {
+        await this.writeEvent(event);
+      }
+    });
+    this.writeQueue = writePromise.catch((err) => {
+      log.error({ err: err }, '[Telemetry] Failed to import events');
+    });
+
+    await writePromise;
+  }
+
+  /**
+   * Rewrite stored events in place. `transform` returns a replacement event,
+   * or null to leave the event as it is. Only files dated within since/until
+   * are visited. Runs in the write queue so events emitted meanwhile aren't lost.
+   */
+  async rewriteEvents(
+    transform: (event: AnyTelemetryEvent) => AnyTelemetryEvent | null,
+    options: { since?: string; until?: string } = {}
+  ): Promise<{ scanned: number; updated: number }> {
+    await this.init();
+
+    const repository = await this.repository;
+    if (repository) {
+      const events = await repository.getEvents(options);
+      const replacements = events
+        .map((event) => transform(event))
+        .filter((event): event is AnyTelemetryEvent => event !== null);
+      await repository.importEvents(replacements);
+      return { scanned: events.length, updated: replacements.length };
+    }
+
+    const rewrite = this.writeQueue.then(async () => {
+      let scanned = 0;
+      let updated = 0;
+      for (const filename of await this.getEventFiles(options.since, options.until)) {
+        let changed = false;
+        const events = (await this.readEventFile(filename)).map((event) => {
+          scanned++;
+          const replacement = transform(event);
+          if (!replacement) return event;
+          changed = true;
+          updated++;
+          return replacement;
+        });
+        if (changed) await this.replaceEventFile(filename, events);
+      }
+      return { scanned, updated };
+    });
+    this.writeQueue = rewrite.then(
+      () => undefined,
+      (err) => {
+        log.error({ err: err }, '[Telemetry] Failed to rewrite events');
+      }
+    );
+
+    return rewrite;
+  }
+
   /**
    * Wait for any pending writes to complete
    */
   async flush(): Promise<void> {
     await this.writeQueue;
+    await (await this.repository)?.flush();
   }
 
   /**
@@ -169,6 +315,9 @@ export class TelemetryService {
   async getEvents(options: TelemetryQueryOptions = {}): Promise<AnyTelemetryEvent[]> {
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.getEvents(options);
+
     const { type, since, until, taskId, project, limit } = options;
     const types = type ? (Array.isArray(type) ? type : [type]) : null;
 
@@ -223,6 +372,9 @@ export class TelemetryService {
 
     await this.init();
 
+    const repository = await this.repository;
+    if (repository) return repository.getBulkTaskEvents(taskIds);
+
     // Get all recent event files (last 90 days should cover most use cases)
     const files = await this.getEventFiles();
 
@@ -280,6 +432,9 @@ export class TelemetryService {
    */
   async clear(): Promise<void> {
     await this.init();
+
+    const repository = await this.repository;
+    if (repository) return repository.clear();
     const files = await fs.readdir(this.telemetryDir);
 
     for (const file of files) {
@@ -302,67 +457,7 @@ export class TelemetryService {
    */
   async exportAsCsv(options: TelemetryQueryOptions = {}): Promise<string> {
     const events = await this.getEvents(options);
-
-    if (events.length === 0) {
-      return 'id,type,timestamp,taskId,project,agent,success,durationMs,inputTokens,outputTokens,cacheTokens,cost,error\n';
-    }
-
-    // CSV header
-    const headers = [
-      'id',
-      'type',
-      'timestamp',
-      'taskId',
-      'project',
-      'agent',
-      'success',
-      'durationMs',
-      'inputTokens',
-      'outputTokens',
-      'cacheTokens',
-      'cost',
-      'error',
-    ];
-
-    const rows = events.map((event) => {
-      // Access optional union fields via Record — events are a discriminated union
-      // and CSV export needs all possible fields regardless of event type
-      // SAFETY: AnyTelemetryEvent subtypes have string-keyed fields we need to access generically
-      const fields = event as unknown as Record<string, unknown>;
-      const row: Record<string, string> = {
-        id: this.escapeCsvField(event.id),
-        type: this.escapeCsvField(event.type),
-        timestamp: this.escapeCsvField(event.timestamp),
-        taskId: this.escapeCsvField(event.taskId || ''),
-        project: this.escapeCsvField(event.project || ''),
-        agent: this.escapeCsvField(String(fields.agent ?? '')),
-        success: this.escapeCsvField(String(fields.success ?? '')),
-        durationMs: this.escapeCsvField(String(fields.durationMs ?? '')),
-        inputTokens: this.escapeCsvField(String(fields.inputTokens ?? '')),
-        outputTokens: this.escapeCsvField(String(fields.outputTokens ?? '')),
-        cacheTokens: this.escapeCsvField(String(fields.cacheTokens ?? '')),
-        cost: this.escapeCsvField(String(fields.cost ?? '')),
-        error: this.escapeCsvField(String(fields.error ?? '')),
-      };
-      return headers.map((h) => row[h]).join(',');
-    });
-
-    return [headers.join(','), ...rows].join('\n');
-  }
-
-  /**
-   * Escape a field for CSV (handles commas, quotes, newlines)
-   */
-  private escapeCsvField(field: string): string {
-    let sanitized = field;
-    // Prevent formula injection in spreadsheet applications
-    if (/^[=+\-@]/.test(sanitized)) {
-      sanitized = `'${sanitized}`;
-    }
-    if (sanitized.includes(',') || sanitized.includes('"') || sanitized.includes('\n')) {
-      return `"${sanitized.replace(/"/g, '""')}"`;
-    }
-    return sanitized;
+    return telemetryEventsToCsv(events);
   }
 
   // ============ Private Methods ============
@@ -543,6 +638,22 @@ export class TelemetryService {
     }
   }
 
+  /**
+   * Atomically replace an event file's contents, keeping its compression.
+   */
+  private async replaceEventFile(filename: string, events: AnyTelemetryEvent[]): Promise<void> {
+    const filepath = path.join(this.telemetryDir, filename);
+    const tmpPath = `${filepath}.tmp`;
+    const content = events.map((event) => JSON.stringify(event) + '\n').join('');
+
+    if (filename.endsWith('.gz')) {
+      await pipeline(Readable.from([content]), createGzip(), createWriteStream(tmpPath));
+    } else {
+      await fs.writeFile(tmpPath, content, 'utf-8');
+    }
+    await fs.rename(tmpPath, filepath);
+  }
+
   /**
    * Compress an NDJSON file to gzip and remove the original.
    */
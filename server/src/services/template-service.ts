@@ -190,6 +190,15 @@ export class TemplateService {
     return updated;
   }
 
+  /**
+   * Write a template verbatim (keeps ID and timestamps). Used by storage migrations.
+   */
+  async importTemplate(template: TaskTemplate): Promise<void> {
+    await this.ensureDir();
+    const content = matter.stringify('', this.cleanForYaml(template));
+    await writeFile(this.templatePath(template.id), content, 'utf-8');
+  }
+
   async deleteTemplate(id: string): Promise<boolean> {
     const path = this.templatePath(id);
 
@@ -6,18 +6,42 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { nanoid } from 'nanoid';
-import type { WorkflowRun, StepRun, WorkflowDefinition, WorkflowStep } from '../types/workflow.js';
+import type {
+  WorkflowRun,
+  StepRun,
+  WorkflowDefinition,
+  WorkflowStep,
+  GateRoute,
+  WorkflowRunTrigger,
+  WorkflowSimulation,
+  WorkflowSimulationInput,
+} from '../types/workflow.js';
+import type { Task } from '@veritas-kanban/shared';
 import { getWorkflowService } from './workflow-service.js';
-import { WorkflowStepExecutor } from './workflow-step-executor.js';
+import {
+  WorkflowStepExecutor,
+  LoopVerificationError,
+  WorkflowAbortError,
+  abortableDelay,
+} from './workflow-step-executor.js';
+import { StubAgentRunner } from './agent-runners.js';
 import { getWorkflowRunsDir } from '../utils/paths.js';
+import {
+  getStepDependencies,
+  getDownstreamSteps,
+  type StepDependencies,
+} from '../utils/workflow-graph.js';
 import { createLogger } from '../lib/logger.js';
 import { broadcastWorkflowStatus } from './broadcast-service.js';
 import { getTaskService } from './task-service.js';
+import { getBudgetService, type BudgetService } from './budget-service.js';
+import { BudgetExceededError } from '../middleware/error-handler.js';
 
 const log = createLogger('workflow-run');
 
 // Concurrency limits
 const MAX_CONCURRENT_RUNS = 10;
+const DEFAULT_MAX_ROUTE_VISITS = 10;
 let activeRunCount = 0;
 const RUN_ID_PATTERN = /^run_\d{10,}_[a-zA-Z0-9_-]{6,}$/;
 
@@ -35,15 +59,43 @@ class ValidationError extends Error {
   }
 }
 
+/** A run executing in this process */
+interface ActiveRun {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+function isCancellation(reason: unknown): boolean {
+  return reason instanceof WorkflowAbortError && reason.kind === 'cancelled';
+}
+
+function isFinished(stepRun: StepRun): boolean {
+  return stepRun.status === 'completed' || stepRun.status === 'skipped';
+}
+
 export class WorkflowRunService {
   private runsDir: string;
   private workflowService: ReturnType<typeof getWorkflowService>;
   private stepExecutor: WorkflowStepExecutor;
+  private activeRuns = new Map<string, ActiveRun>();
+  private pendingSaves = new Map<string, Promise<void>>();
+  private dryRun: boolean;
+  private budget?: Pick<BudgetService, 'enforce'>;
 
-  constructor(runsDir?: string) {
+  /**
+   * With `dryRun`, runs are neither persisted nor broadcast (see simulateRun)
+   * and budgets are not enforced
+   */
+  constructor(
+    runsDir?: string,
+    stepExecutor?: WorkflowStepExecutor,
+    options: { dryRun?: boolean; budget?: Pick<BudgetService, 'enforce'> } = {}
+  ) {
     this.runsDir = runsDir || getWorkflowRunsDir();
     this.workflowService = getWorkflowService();
-    this.stepExecutor = new WorkflowStepExecutor();
+    this.stepExecutor = stepExecutor || new WorkflowStepExecutor(runsDir);
+    this.dryRun = options.dryRun ?? false;
+    this.budget = options.budget;
     this.ensureDirectories();
   }
 
@@ -74,7 +126,8 @@ export class WorkflowRunService {
   async startRun(
     workflowId: string,
     taskId?: string,
-    initialContext?: Record<string, unknown>
+    initialContext?: Record<string, unknown>,
+    trigger?: WorkflowRunTrigger
   ): Promise<WorkflowRun> {
     // Check concurrency limit
     if (activeRunCount >= MAX_CONCURRENT_RUNS) {
@@ -93,9 +146,124 @@ export class WorkflowRunService {
     const task = taskId ? await taskService.getTask(taskId) : null;
 
     const runId = `run_${Date.now()}_${nanoid(8)}`;
+    const run = this.createRun(runId, workflow, task, taskId, initialContext, trigger);
+
+    // Persist initial run state
+    await this.saveRun(run);
+
+    // Snapshot workflow YAML into run directory (for version immutability)
+    await this.snapshotWorkflow(run.id, workflow);
+
+    log.info(
+      { runId, workflowId, workflowVersion: workflow.version, trigger: trigger?.id },
+      'Workflow run started'
+    );
+
+    // Start execution (async — don't await)
+    this.launchRun(run, workflow, 'Workflow run failed');
+
+    return run;
+  }
+
+  /**
+   * Dry-run a workflow: steps execute against a fixture context with canned
+   * agent outputs (`outputs[stepId]`, one entry per call, the last repeating)
+   * and nothing is persisted — no run.json, step-outputs/ or progress file.
+   * Reports the rendered prompts, gate outcomes, loop iteration counts and the
+   * final context.
+   */
+  async simulateRun(
+    workflowId: string,
+    input: WorkflowSimulationInput = {}
+  ): Promise<WorkflowSimulation> {
+    const workflow = await this.workflowService.loadWorkflow(workflowId);
+    if (!workflow) {
+      throw new NotFoundError(`Workflow ${workflowId} not found`);
+    }
+
+    const task = input.taskId ? await getTaskService().getTask(input.taskId) : null;
+    const run = this.createRun(
+      `sim_${Date.now()}_${nanoid(8)}`,
+      workflow,
+      task,
+      input.taskId,
+      input.context
+    );
+
+    const queues = new Map(
+      Object.entries(input.outputs ?? {}).map(([stepId, output]) => [
+        stepId,
+        Array.isArray(output) ? [...output] : [output],
+      ])
+    );
+    const runner = new StubAgentRunner((request) => {
+      const queue = queues.get(request.stepId);
+      if (!queue || queue.length === 0) {
+        return `STATUS: done\nOUTPUT: simulated ${request.stepId}`;
+      }
+      return queue.length > 1 ? queue.shift()! : queue[0];
+    });
+    const executor = new WorkflowStepExecutor(this.runsDir, runner, { dryRun: true });
+    const simulator = new WorkflowRunService(this.runsDir, executor, { dryRun: true });
+
+    await simulator.executeRun(run, workflow, new AbortController().signal);
+
+    const contextOf = (stepId: string) =>
+      (run.context[stepId] ?? {}) as { passed?: boolean; goto?: string };
+    const stepRunOf = (stepId: string) => run.steps.find((s) => s.stepId === stepId);
+
+    return {
+      workflowId: workflow.id,
+      workflowVersion: workflow.version,
+      status: run.status,
+      ...(run.error ? { error: run.error } : {}),
+      prompts: runner.calls.map((call) => ({
+        stepId: call.request.stepId,
+        agentId: call.request.agentId,
+        prompt: call.prompt,
+      })),
+      gates: workflow.steps
+        .filter((step) => step.type === 'gate')
+        .map((step) => {
+          const status = stepRunOf(step.id)?.status;
+          const { passed, goto } = contextOf(step.id);
+          return {
+            stepId: step.id,
+            condition: step.condition ?? '',
+            ...(status === 'completed' ? { passed, ...(goto ? { goto } : {}) } : {}),
+            ...(status === 'failed' ? { passed: false } : {}),
+          };
+        }),
+      loops: workflow.steps
+        .filter((step) => step.type === 'loop')
+        .map((step) => {
+          const loopState = stepRunOf(step.id)?.loopState;
+          return {
+            stepId: step.id,
+            iterations: loopState?.totalIterations ?? 0,
+            completed: loopState?.completedIterations ?? 0,
+            failed: loopState?.failedIterations ?? 0,
+          };
+        }),
+      steps: run.steps,
+      context: run.context,
+    };
+  }
+
+  /**
+   * Build the initial state of a run
+   */
+  private createRun(
+    runId: string,
+    workflow: WorkflowDefinition,
+    task: Task | null,
+    taskId?: string,
+    initialContext?: Record<string, unknown>,
+    trigger?: WorkflowRunTrigger
+  ): WorkflowRun {
     const now = new Date().toISOString();
 
-    const run: WorkflowRun = {
+    return {
       id: runId,
       workflowId: workflow.id,
       workflowVersion: workflow.version,
@@ -120,129 +288,360 @@ export class WorkflowRunService {
           agents: workflow.agents,
         },
         run: { id: runId, startedAt: now },
-
-        // Phase 2: Session tracking for reuse mode (#111)
-        _sessions: {},
       },
       startedAt: now,
+      ...(trigger ? { trigger } : {}),
       steps: workflow.steps.map((step) => ({
         stepId: step.id,
         status: 'pending',
         retries: 0,
       })),
     };
+  }
 
-    // Persist initial run state
-    await this.saveRun(run);
-
-    // Snapshot workflow YAML into run directory (for version immutability)
-    await this.snapshotWorkflow(run.id, workflow);
-
-    log.info({ runId, workflowId, workflowVersion: workflow.version }, 'Workflow run started');
-
-    // Start execution (async — don't await)
-    this.executeRun(run, workflow).catch((err) => {
-      log.error({ runId, err }, 'Workflow run failed');
-    });
-
-    return run;
+  /**
+   * Execute a run in the background, registering its abort controller so it
+   * can be cancelled. The workflow's `config.timeout` aborts the run when it
+   * passes.
+   */
+  private launchRun(run: WorkflowRun, workflow: WorkflowDefinition, failureMessage: string): void {
+    const controller = new AbortController();
+    const runTimeout = workflow.config?.timeout;
+    const deadline = runTimeout
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new WorkflowAbortError('timeout', `Workflow run timed out after ${runTimeout}s`)
+            ),
+          runTimeout * 1000
+        )
+      : undefined;
+
+    const done = this.executeRun(run, workflow, controller.signal)
+      .catch((err) => {
+        log.error({ runId: run.id, err }, failureMessage);
+      })
+      .finally(() => {
+        clearTimeout(deadline);
+        this.activeRuns.delete(run.id);
+      });
+    this.activeRuns.set(run.id, { controller, done });
   }
 
   /**
-   * Execute the workflow run (iterates through steps with retry logic)
+   * Execute the workflow run. Steps are scheduled as a dependency graph:
+   * every pending step whose dependencies have completed (or been skipped)
+   * runs, so independent branches run concurrently. A step failure that its
+   * on_fail policy does not handle aborts the other branches and fails the run.
    */
-  private async executeRun(run: WorkflowRun, workflow: WorkflowDefinition): Promise<void> {
+  private async executeRun(
+    run: WorkflowRun,
+    workflow: WorkflowDefinition,
+    signal: AbortSignal
+  ): Promise<void> {
     // Increment active run counter
     activeRunCount++;
 
-    try {
-      // Build initial step queue (skip already completed/skipped steps on resume)
-      const stepQueue: string[] = this.buildStepQueue(run, workflow);
+    // Aborts the remaining branches when one step fails the run
+    const branches = new AbortController();
+    const abortBranches = () => branches.abort(signal.reason);
+    signal.addEventListener('abort', abortBranches, { once: true });
+    const inFlight = new Map<string, Promise<void>>();
+    let failure: { err: unknown } | undefined;
 
-      while (stepQueue.length > 0) {
-        const stepId = stepQueue.shift()!;
-        const step = workflow.steps.find((s) => s.id === stepId)!;
+    try {
+      const dependencies = getStepDependencies(workflow);
 
-        // Skip if step already completed/skipped (defensive when retry_step rebuilds queue)
-        const existingStepRun = run.steps.find((s) => s.stepId === step.id)!;
-        if (existingStepRun.status === 'completed' || existingStepRun.status === 'skipped') {
-          continue;
+      // Anything unfinished runs (again) — e.g. the failed step of a resumed run
+      for (const stepRun of run.steps) {
+        if (dependencies.has(stepRun.stepId) && !isFinished(stepRun)) {
+          stepRun.status = 'pending';
         }
+      }
 
-        // Update current step
-        run.currentStep = step.id;
-        await this.saveRun(run);
-        broadcastWorkflowStatus(run);
-
-        const stepRun = existingStepRun;
-        stepRun.status = 'running';
-        stepRun.startedAt = new Date().toISOString();
-        await this.saveRun(run);
-
-        try {
-          const result = await this.stepExecutor.executeStep(step, run);
-
-          stepRun.status = 'completed';
-          stepRun.completedAt = new Date().toISOString();
-          stepRun.duration = Math.floor(
-            (new Date(stepRun.completedAt).getTime() - new Date(stepRun.startedAt!).getTime()) /
-              1000
-          );
-          stepRun.output = result.outputPath;
-
-          // Merge step output into run context
-          run.context[step.id] = result.output;
-
-          await this.saveRun(run);
-          broadcastWorkflowStatus(run);
-        } catch (err: unknown) {
-          // Step failed
-          stepRun.status = 'failed';
-          stepRun.error = err instanceof Error ? err.message : 'Unknown error';
-          stepRun.completedAt = new Date().toISOString();
-          await this.saveRun(run);
-          broadcastWorkflowStatus(run);
-
-          // Handle failure policy
-          const handled = await this.handleStepFailure(step, stepRun, stepQueue, workflow, run);
-          if (!handled) {
-            // No retry policy — fail the entire workflow
-            throw err;
-          }
-
-          if (run.status === 'blocked') {
-            log.info({ runId: run.id, stepId: step.id }, 'Workflow run blocked — awaiting resume');
-            return;
+      while (true) {
+        if (!failure && !signal.aborted && run.status !== 'blocked') {
+          for (const step of this.getReadySteps(run, workflow, dependencies)) {
+            if (inFlight.has(step.id)) continue;
+            const execution = this.runStep(step, run, workflow, dependencies, branches.signal)
+              .catch((err: unknown) => {
+                if (failure) return;
+                failure = { err };
+                branches.abort(
+                  new WorkflowAbortError('cancelled', `Aborted after step ${step.id} failed`)
+                );
+              })
+              .finally(() => inFlight.delete(step.id));
+            inFlight.set(step.id, execution);
           }
         }
+
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight.values());
       }
 
+      signal.throwIfAborted();
+      if (failure) throw failure.err;
+
       if (run.status === 'blocked') {
-        log.info({ runId: run.id }, 'Workflow run remains blocked');
+        log.info({ runId: run.id }, 'Workflow run blocked — awaiting resume');
         return;
       }
 
+      const stuck = run.steps.filter((s) => dependencies.has(s.stepId) && s.status === 'pending');
+      if (stuck.length > 0) {
+        throw new Error(`Steps with unmet dependencies: ${stuck.map((s) => s.stepId).join(', ')}`);
+      }
+
       // All steps completed
       run.status = 'completed';
       run.completedAt = new Date().toISOString();
+      await this.stepExecutor.cleanupRunSessions(run);
       await this.saveRun(run);
-      broadcastWorkflowStatus(run);
+      this.broadcastStatus(run);
 
       log.info({ runId: run.id, workflowId: run.workflowId }, 'Workflow run completed');
     } catch (err: unknown) {
-      run.status = 'failed';
+      const cancelled = signal.aborted && isCancellation(signal.reason);
+      run.status = cancelled ? 'cancelled' : 'failed';
       run.error = err instanceof Error ? err.message : 'Unknown error';
       run.completedAt = new Date().toISOString();
+      await this.stepExecutor.cleanupRunSessions(run);
       await this.saveRun(run);
-      broadcastWorkflowStatus(run);
+      this.broadcastStatus(run);
 
-      log.error({ runId: run.id, err }, 'Workflow run failed');
+      if (cancelled) {
+        log.info({ runId: run.id }, 'Workflow run cancelled');
+      } else {
+        log.error({ runId: run.id, err }, 'Workflow run failed');
+      }
     } finally {
+      signal.removeEventListener('abort', abortBranches);
       // Decrement active run counter
       activeRunCount--;
     }
   }
 
+  /**
+   * Pending steps whose dependencies have all completed or been skipped
+   */
+  private getReadySteps(
+    run: WorkflowRun,
+    workflow: WorkflowDefinition,
+    dependencies: StepDependencies
+  ): WorkflowStep[] {
+    const statusOf = (stepId: string) => run.steps.find((s) => s.stepId === stepId)?.status;
+    return workflow.steps.filter((step) => {
+      const deps = dependencies.get(step.id);
+      if (!deps || statusOf(step.id) !== 'pending') return false;
+      return deps.every((dep) => {
+        const status = statusOf(dep);
+        return status === 'completed' || status === 'skipped';
+      });
+    });
+  }
+
+  /**
+   * Run one step: skip it if its `when` is false, otherwise execute it and
+   * apply its failure policy or gate route. Rejects when the run must fail.
+   */
+  private async runStep(
+    step: WorkflowStep,
+    run: WorkflowRun,
+    workflow: WorkflowDefinition,
+    dependencies: StepDependencies,
+    signal: AbortSignal
+  ): Promise<void> {
+    const stepRun = run.steps.find((s) => s.stepId === step.id)!;
+
+    if (!(await this.stepExecutor.shouldRunStep(step, run))) {
+      stepRun.status = 'skipped';
+      stepRun.completedAt = new Date().toISOString();
+      await this.saveRun(run);
+      this.broadcastStatus(run);
+      log.info(
+        { runId: run.id, stepId: step.id, when: step.when },
+        'Skipping step — when is false'
+      );
+      return;
+    }
+
+    if (await this.pauseForBudget(step, run)) return;
+
+    // Update current step
+    run.currentStep = step.id;
+    stepRun.status = 'running';
+    stepRun.startedAt = new Date().toISOString();
+    await this.saveRun(run);
+    this.broadcastStatus(run);
+
+    const stepDeadline = this.createStepSignal(step, signal);
+    try {
+      const result = await this.stepExecutor.executeStep(step, run, workflow, stepDeadline.signal);
+      if (result.route) {
+        this.countRouteVisit(run, step, result.route);
+      }
+
+      stepRun.status = 'completed';
+      stepRun.completedAt = new Date().toISOString();
+      stepRun.duration = Math.floor(
+        (new Date(stepRun.completedAt).getTime() - new Date(stepRun.startedAt).getTime()) / 1000
+      );
+      stepRun.output = result.outputPath;
+
+      // Merge step output into run context
+      run.context[step.id] = result.output;
+
+      if (result.route) {
+        this.routeTo(run, dependencies, result.route.goto, step.id);
+        log.info({ runId: run.id, stepId: step.id, goto: result.route.goto }, 'Gate routed');
+      }
+
+      await this.saveRun(run);
+      this.broadcastStatus(run);
+    } catch (err: unknown) {
+      // Step failed (or the run was cancelled / timed out while it ran)
+      const runAborted = signal.aborted;
+      stepRun.status = runAborted && isCancellation(signal.reason) ? 'cancelled' : 'failed';
+      stepRun.error = err instanceof Error ? err.message : 'Unknown error';
+      stepRun.completedAt = new Date().toISOString();
+      await this.saveRun(run);
+      this.broadcastStatus(run);
+
+      // No failure policy applies once the whole run is aborted
+      if (runAborted) throw signal.reason;
+
+      // Handle failure policy
+      const handled = await this.handleStepFailure(
+        step,
+        stepRun,
+        workflow,
+        run,
+        dependencies,
+        err,
+        signal
+      );
+      if (!handled) {
+        // No retry policy — fail the entire workflow
+        throw err;
+      }
+
+      if (run.status === 'blocked') {
+        log.info({ runId: run.id, stepId: step.id }, 'Workflow run blocked — awaiting resume');
+      }
+    } finally {
+      stepDeadline.clear();
+    }
+  }
+
+  /**
+   * Block the run instead of starting a step that would spend against an
+   * exhausted budget. The step stays pending; approving one of the override
+   * requests in run.context._budgetHold resumes the run (see resumeBudgetHolds).
+   */
+  private async pauseForBudget(step: WorkflowStep, run: WorkflowRun): Promise<boolean> {
+    // Gates don't run agents
+    if (this.dryRun || step.type === 'gate') return false;
+
+    const task = run.context.task as Task | undefined;
+    try {
+      await (this.budget ?? getBudgetService()).enforce(
+        { project: task?.project, agent: step.agent },
+        'workflow.step',
+        { taskId: run.taskId, requestedBy: step.agent }
+      );
+      return false;
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError)) throw err;
+
+      run.status = 'blocked';
+      run.error = err.message;
+      run.context._budgetHold = { stepId: step.id, overrideIds: err.overrideIds };
+      await this.saveRun(run);
+      this.broadcastStatus(run);
+      log.warn({ runId: run.id, stepId: step.id }, 'Workflow run paused — budget exhausted');
+      return true;
+    }
+  }
+
+  /**
+   * Count a gate route in run.context._routeVisits, failing the gate once the
+   * route's max_visits is exceeded (stops review loops running forever)
+   */
+  private countRouteVisit(run: WorkflowRun, step: WorkflowStep, route: GateRoute): void {
+    if (!run.context._routeVisits || typeof run.context._routeVisits !== 'object') {
+      run.context._routeVisits = {};
+    }
+    const visits = run.context._routeVisits as Record<string, number>;
+    const key = `${step.id}->${route.goto}`;
+    const maxVisits = route.max_visits ?? DEFAULT_MAX_ROUTE_VISITS;
+
+    if ((visits[key] ?? 0) >= maxVisits) {
+      throw new Error(`Gate ${step.id} routed to ${route.goto} ${maxVisits} times — giving up`);
+    }
+    visits[key] = (visits[key] ?? 0) + 1;
+  }
+
+  /**
+   * Continue the run at `targetId`: the target and every step downstream of it
+   * are reset to pending so they run (again). Pending steps downstream of
+   * `bypassFrom` that the route does not lead to are skipped.
+   */
+  private routeTo(
+    run: WorkflowRun,
+    dependencies: StepDependencies,
+    targetId: string,
+    bypassFrom?: string
+  ): void {
+    const rerun = new Set([targetId, ...getDownstreamSteps(dependencies, targetId)]);
+    const bypassed = bypassFrom ? getDownstreamSteps(dependencies, bypassFrom) : new Set();
+
+    for (const stepRun of run.steps) {
+      // Steps still running on another branch finish as they are
+      if (stepRun.status === 'running') continue;
+
+      if (rerun.has(stepRun.stepId)) {
+        stepRun.status = 'pending';
+        stepRun.retries = 0;
+        stepRun.error = undefined;
+      } else if (bypassed.has(stepRun.stepId) && stepRun.status === 'pending') {
+        stepRun.status = 'skipped';
+      }
+    }
+  }
+
+  /**
+   * Abort signal for one step: the run's signal, plus the step's own deadline
+   * (`timeout`, seconds). Loop steps apply their timeout per iteration instead.
+   */
+  private createStepSignal(
+    step: WorkflowStep,
+    runSignal: AbortSignal
+  ): { signal: AbortSignal; clear: () => void } {
+    if (!step.timeout || step.type === 'loop') {
+      return { signal: runSignal, clear: () => {} };
+    }
+
+    const controller = new AbortController();
+    const abortStep = () => controller.abort(runSignal.reason);
+    runSignal.addEventListener('abort', abortStep, { once: true });
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new WorkflowAbortError('timeout', `Step ${step.id} timed out after ${step.timeout}s`)
+        ),
+      step.timeout * 1000
+    );
+
+    return {
+      signal: controller.signal,
+      clear: () => {
+        clearTimeout(timer);
+        runSignal.removeEventListener('abort', abortStep);
+      },
+    };
+  }
+
   /**
    * Handle step failure according to on_fail policy
    * Returns true if handled (retry queued), false if should fail workflow
@@ -250,31 +649,32 @@ export class WorkflowRunService {
   private async handleStepFailure(
     step: WorkflowStep,
     stepRun: StepRun,
-    stepQueue: string[],
     workflow: WorkflowDefinition,
-    run: WorkflowRun
+    run: WorkflowRun,
+    dependencies: StepDependencies,
+    err?: unknown,
+    signal?: AbortSignal
   ): Promise<boolean> {
     const policy = step.on_fail;
     if (!policy) return false;
 
-    // Strategy 1: Retry the same step
-    if (policy.retry && stepRun.retries < policy.retry) {
+    // Strategy 1: Retry the same step (loop verification already spent the
+    // retries on the failing iteration)
+    const retriesSpent = err instanceof LoopVerificationError;
+    if (policy.retry && stepRun.retries < policy.retry && !retriesSpent) {
       stepRun.retries++;
       stepRun.status = 'pending';
       stepRun.error = undefined;
 
       // Phase 2: Apply retry delay if specified (#113)
-      if (policy.retry_delay_ms && policy.retry_delay_ms > 0) {
+      if (policy.retry_delay_ms && policy.retry_delay_ms > 0 && !this.dryRun) {
         log.info(
           { stepId: step.id, retry: stepRun.retries, delayMs: policy.retry_delay_ms },
           'Delaying retry'
         );
-        await new Promise((resolve) => setTimeout(resolve, policy.retry_delay_ms));
+        await abortableDelay(policy.retry_delay_ms, signal);
       }
 
-      // Re-queue this step at the front
-      stepQueue.unshift(step.id);
-
       await this.saveRun(run);
       log.info({ stepId: step.id, retry: stepRun.retries }, 'Retrying step');
       return true;
@@ -287,20 +687,6 @@ export class WorkflowRunService {
         throw new Error(`retry_step references unknown step: ${policy.retry_step}`);
       }
 
-      // Reset the retry step's state
-      const retryStepRun = run.steps.find((s) => s.stepId === retryStep.id)!;
-      retryStepRun.status = 'pending';
-      retryStepRun.retries = 0;
-      retryStepRun.error = undefined;
-
-      // Build a new queue starting from the retry step
-      const retryIndex = workflow.steps.findIndex((s) => s.id === policy.retry_step);
-      const newQueue = workflow.steps.slice(retryIndex).map((s) => s.id);
-
-      // Replace the queue
-      stepQueue.length = 0;
-      stepQueue.push(...newQueue);
-
       // Store failure context for the retry step
       run.context._retryContext = {
         failedStep: step.id,
@@ -308,6 +694,10 @@ export class WorkflowRunService {
         retries: stepRun.retries,
       };
 
+      // Re-run the retry step and everything downstream of it, including this step
+      this.routeTo(run, dependencies, retryStep.id);
+      stepRun.status = 'pending';
+
       await this.saveRun(run);
       log.info({ failedStep: step.id, retryStep: retryStep.id }, 'Routing to retry step');
       return true;
@@ -415,6 +805,7 @@ export class WorkflowRunService {
         | 'startedAt'
         | 'completedAt'
         | 'error'
+        | 'trigger'
       >
     >
   > {
@@ -430,6 +821,7 @@ export class WorkflowRunService {
         | 'startedAt'
         | 'completedAt'
         | 'error'
+        | 'trigger'
       >
     > = [];
 
@@ -456,6 +848,7 @@ export class WorkflowRunService {
           startedAt: run.startedAt,
           completedAt: run.completedAt,
           error: run.error,
+          trigger: run.trigger,
         });
       } catch (err: unknown) {
         log.warn({ runDir: dir, err }, 'Failed to read run metadata');
@@ -488,17 +881,74 @@ export class WorkflowRunService {
     run.status = 'running';
     await this.saveRun(run);
 
-    // Resume execution
-    const workflow = await this.workflowService.loadWorkflow(run.workflowId);
-    if (!workflow) {
-      throw new NotFoundError(`Workflow ${run.workflowId} not found`);
+    // Resume execution against the version the run started with
+    const workflow = await this.getRunWorkflow(run);
+
+    log.info({ runId, workflowVersion: workflow.version }, 'Resuming workflow run');
+
+    this.launchRun(run, workflow, 'Workflow resume failed');
+
+    return run;
+  }
+
+  /**
+   * Resume runs paused for a budget once one of their override requests is
+   * approved. Returns the resumed runs.
+   */
+  async resumeBudgetHolds(overrideId: string): Promise<WorkflowRun[]> {
+    const resumed: WorkflowRun[] = [];
+    for (const run of await this.listRuns({ status: 'blocked' })) {
+      const hold = run.context._budgetHold as { overrideIds?: string[] } | undefined;
+      if (!hold?.overrideIds?.includes(overrideId)) continue;
+
+      // The hold is lifted: drop it and the "Budget exhausted" error before resuming
+      delete run.context._budgetHold;
+      run.error = undefined;
+      await this.saveRun(run);
+      resumed.push(await this.resumeRun(run.id));
     }
+    return resumed;
+  }
 
-    log.info({ runId }, 'Resuming workflow run');
+  /**
+   * Cancel a run. An executing run is aborted — its in-flight agent sessions
+   * are cancelled and cleaned up — and this resolves once it has stopped.
+   * Runs not executing in this process (blocked, or orphaned by a restart)
+   * are marked cancelled directly.
+   */
+  async cancelRun(runId: string, reason?: string): Promise<WorkflowRun> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new NotFoundError(`Run ${runId} not found`);
+    }
 
-    this.executeRun(run, workflow).catch((err) => {
-      log.error({ runId, err }, 'Workflow resume failed');
-    });
+    if (run.status === 'completed' || run.status === 'failed' || run.status === 'cancelled') {
+      throw new ValidationError(`Run ${runId} has already finished (status: ${run.status})`);
+    }
+
+    const message = reason ? `Cancelled: ${reason}` : 'Cancelled';
+    log.info({ runId, reason }, 'Cancelling workflow run');
+
+    const active = this.activeRuns.get(run.id);
+    if (active) {
+      active.controller.abort(new WorkflowAbortError('cancelled', message));
+      await active.done;
+      return (await this.getRun(run.id)) ?? run;
+    }
+
+    const now = new Date().toISOString();
+    for (const stepRun of run.steps) {
+      if (stepRun.status === 'running') {
+        stepRun.status = 'cancelled';
+        stepRun.completedAt = now;
+      }
+    }
+    run.status = 'cancelled';
+    run.error = message;
+    run.completedAt = now;
+    await this.stepExecutor.cleanupRunSessions(run);
+    await this.saveRun(run);
+    this.broadcastStatus(run);
 
     return run;
   }
@@ -647,21 +1097,30 @@ export class WorkflowRunService {
     };
   }
 
-  private buildStepQueue(run: WorkflowRun, workflow: WorkflowDefinition): string[] {
-    return workflow.steps
-      .filter((step) => {
-        const state = run.steps.find((s) => s.stepId === step.id);
-        if (!state) return true;
-        return state.status !== 'completed' && state.status !== 'skipped';
-      })
-      .map((step) => step.id);
-  }
-
   /**
    * Save run state to disk
    * Phase 2: Updates lastCheckpoint timestamp on every save
+   * Saves of one run are serialized — concurrent branches must not interleave writes
    */
   private async saveRun(run: WorkflowRun): Promise<void> {
+    if (this.dryRun) return;
+
+    const previous = this.pendingSaves.get(run.id) ?? Promise.resolve();
+    const save = previous.catch(() => {}).then(() => this.writeRun(run));
+    this.pendingSaves.set(run.id, save);
+
+    try {
+      await save;
+    } finally {
+      if (this.pendingSaves.get(run.id) === save) this.pendingSaves.delete(run.id);
+    }
+  }
+
+  private broadcastStatus(run: WorkflowRun): void {
+    if (!this.dryRun) broadcastWorkflowStatus(run);
+  }
+
+  private async writeRun(run: WorkflowRun): Promise<void> {
     const runDir = path.join(this.runsDir, run.id);
     await fs.mkdir(runDir, { recursive: true });
 
@@ -672,6 +1131,31 @@ export class WorkflowRunService {
     await fs.writeFile(runPath, JSON.stringify(run, null, 2), 'utf-8');
   }
 
+  /**
+   * The workflow definition a run is pinned to: its snapshot, or the saved
+   * `workflowVersion` for runs without one
+   */
+  async getRunWorkflow(run: WorkflowRun): Promise<WorkflowDefinition> {
+    const snapshotPath = path.join(this.runsDir, run.id, 'workflow.yml');
+    try {
+      const yaml = await import('yaml');
+      return yaml.parse(await fs.readFile(snapshotPath, 'utf-8')) as WorkflowDefinition;
+    } catch (err: unknown) {
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')) throw err;
+    }
+
+    const workflow = await this.workflowService.loadWorkflowVersion(
+      run.workflowId,
+      run.workflowVersion
+    );
+    if (!workflow) {
+      throw new NotFoundError(
+        `Workflow ${run.workflowId} version ${run.workflowVersion} not found`
+      );
+    }
+    return workflow;
+  }
+
   /**
    * Snapshot workflow YAML into run directory (for version immutability)
    */
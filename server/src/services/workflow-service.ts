@@ -6,10 +6,25 @@
 import fs from 'fs/promises';
 import path from 'path';
 import yaml from 'yaml';
-import type { WorkflowDefinition, WorkflowACL, WorkflowAuditEvent } from '../types/workflow.js';
+import type {
+  WorkflowDefinition,
+  WorkflowACL,
+  WorkflowAuditEvent,
+  WorkflowVersionSummary,
+} from '../types/workflow.js';
 import { ValidationError } from '../types/workflow.js';
 import { getWorkflowsDir } from '../utils/paths.js';
 import { createLogger } from '../lib/logger.js';
+import { getStepOutputValidator } from './step-output-validator.js';
+import { LIFECYCLE_EVENTS } from './lifecycle-hooks-service.js';
+import { isValidTimeZone, validateCron } from '../utils/cron.js';
+import {
+  findDependencyCycle,
+  findUnreachableSteps,
+  getStepDependencies,
+  getVerifyStepIds,
+  isGateRoute,
+} from '../utils/workflow-graph.js';
 
 const log = createLogger('workflow-service');
 const WORKFLOW_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-_]*$/;
@@ -22,6 +37,12 @@ const MAX_AGENTS_PER_WORKFLOW = 20;
 const MAX_STEPS_PER_WORKFLOW = 50;
 const MAX_TOOLS_PER_AGENT = 50;
 const MAX_RETRY_DELAY_MS = 300000; // 5 minutes max delay
+const MAX_TRIGGERS_PER_WORKFLOW = 20;
+const TRIGGER_TYPES = ['event', 'status', 'schedule', 'webhook'];
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.length > 0);
+}
 
 export class WorkflowService {
   private workflowsDir: string;
@@ -173,6 +194,16 @@ export class WorkflowService {
       }
     }
 
+    // Keep the version being replaced (workflows saved before versioning
+    // have no snapshot yet)
+    const current = await this.loadWorkflow(normalizedId).catch(() => null);
+    if (current) {
+      await this.writeVersionSnapshot(current, { strict: false });
+    }
+
+    // Versions are immutable: fails if this version was saved with other content
+    await this.writeVersionSnapshot(workflow, { strict: true });
+
     const content = yaml.stringify(workflow);
     await fs.writeFile(filePath, content, 'utf-8');
 
@@ -182,6 +213,126 @@ export class WorkflowService {
     log.info({ workflowId: normalizedId, version: workflow.version }, 'Workflow saved');
   }
 
+  /**
+   * Load a specific saved version of a workflow
+   */
+  async loadWorkflowVersion(id: string, version: number): Promise<WorkflowDefinition | null> {
+    const normalizedId = this.normalizeWorkflowId(id);
+
+    try {
+      const content = await fs.readFile(this.versionPath(normalizedId, version), 'utf-8');
+      return yaml.parse(content) as WorkflowDefinition;
+    } catch (err: unknown) {
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')) throw err;
+    }
+
+    // The current version may predate versioning
+    const current = await this.loadWorkflow(normalizedId);
+    return current?.version === version ? current : null;
+  }
+
+  /**
+   * List the saved versions of a workflow, newest first, with the audit
+   * record that created each one
+   */
+  async listVersions(id: string): Promise<WorkflowVersionSummary[]> {
+    const normalizedId = this.normalizeWorkflowId(id);
+    const current = await this.loadWorkflow(normalizedId);
+    if (!current) return [];
+
+    const files = await fs.readdir(this.versionsDir(normalizedId)).catch(() => []);
+    const versions = new Set([current.version]);
+    for (const file of files) {
+      const match = /^v(\d+)\.yml$/.exec(file);
+      if (match) versions.add(Number(match[1]));
+    }
+
+    const audit = await this.readAuditLog(normalizedId);
+    const summaries: WorkflowVersionSummary[] = [];
+    for (const version of [...versions].sort((a, b) => b - a)) {
+      const workflow = await this.loadWorkflowVersion(normalizedId, version);
+      if (!workflow) continue;
+
+      const record = [...audit]
+        .reverse()
+        .find(
+          (e) => e.workflowVersion === version && ['create', 'edit', 'rollback'].includes(e.action)
+        );
+      summaries.push({
+        version,
+        name: workflow.name,
+        current: version === current.version,
+        savedAt: record?.timestamp,
+        savedBy: record?.userId,
+        action: record?.action,
+        restoredVersion: record?.restoredVersion,
+        changes: record?.changes,
+      });
+    }
+    return summaries;
+  }
+
+  /**
+   * Restore an earlier version's content as a new version
+   */
+  async rollbackWorkflow(
+    id: string,
+    version: number
+  ): Promise<{ previous: WorkflowDefinition; workflow: WorkflowDefinition } | null> {
+    const previous = await this.loadWorkflow(id);
+    const target = previous ? await this.loadWorkflowVersion(id, version) : null;
+    if (!previous || !target) return null;
+
+    if (version === previous.version) {
+      throw new ValidationError(`Version ${version} is already the current version`);
+    }
+
+    const workflow = { ...target, version: previous.version + 1 };
+    await this.saveWorkflow(workflow);
+
+    log.info(
+      { workflowId: workflow.id, restoredVersion: version, version: workflow.version },
+      'Workflow rolled back'
+    );
+    return { previous, workflow };
+  }
+
+  private versionsDir(normalizedId: string): string {
+    return path.join(this.workflowsDir, '.versions', normalizedId);
+  }
+
+  private versionPath(normalizedId: string, version: number): string {
+    return path.join(this.versionsDir(normalizedId), `v${version}.yml`);
+  }
+
+  /**
+   * Write the immutable snapshot of a workflow version. With `strict`, an
+   * existing snapshot of the same version with different content is an error;
+   * otherwise the existing snapshot wins.
+   */
+  private async writeVersionSnapshot(
+    workflow: WorkflowDefinition,
+    { strict }: { strict: boolean }
+  ): Promise<void> {
+    const normalizedId = this.normalizeWorkflowId(workflow.id);
+    const snapshotPath = this.versionPath(normalizedId, workflow.version);
+    const content = yaml.stringify(workflow);
+
+    await fs.mkdir(this.versionsDir(normalizedId), { recursive: true });
+    try {
+      await fs.writeFile(snapshotPath, content, { encoding: 'utf-8', flag: 'wx' });
+    } catch (err: unknown) {
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST')) throw err;
+
+      const existing = await fs.readFile(snapshotPath, 'utf-8');
+      if (strict && existing !== content) {
+        throw new ValidationError(
+          `Workflow ${normalizedId} version ${workflow.version} already exists with different content. Save changes as a new version.`
+        );
+      }
+    }
+  }
+
   /**
    * Delete a workflow definition
    */
@@ -189,6 +340,7 @@ export class WorkflowService {
     const normalizedId = this.normalizeWorkflowId(id);
     const filePath = path.join(this.workflowsDir, `${normalizedId}.yml`);
     await fs.unlink(filePath);
+    await fs.rm(this.versionsDir(normalizedId), { recursive: true, force: true });
     this.cache.delete(normalizedId);
 
     log.info({ workflowId: normalizedId }, 'Workflow deleted');
@@ -260,6 +412,20 @@ export class WorkflowService {
 
     const agentIdSet = new Set(agentIds);
     const stepIdSet = new Set(stepIds);
+    const verifyStepIds = getVerifyStepIds(workflow);
+
+    // Output schemas must be valid JSON Schema
+    const validator = getStepOutputValidator();
+    for (const [schemaId, schema] of Object.entries(workflow.schemas ?? {})) {
+      try {
+        validator.compile(schema);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        throw new ValidationError(`Schema ${schemaId} is not a valid JSON Schema: ${message}`);
+      }
+    }
+
+    this.validateTriggers(workflow);
 
     // Validate agent-specific constraints
     for (const agent of workflow.agents) {
@@ -291,6 +457,83 @@ export class WorkflowService {
         );
       }
 
+      // ...and one the loop can run after each iteration
+      const verifyStepId = step.loop?.verify_step;
+      if (verifyStepId) {
+        const verifyStep = workflow.steps.find((s) => s.id === verifyStepId);
+        if (verifyStep?.id === step.id) {
+          throw new ValidationError(`Step ${step.id} cannot verify itself`);
+        }
+        if (verifyStep && verifyStep.type !== 'agent' && verifyStep.type !== 'gate') {
+          throw new ValidationError(
+            `Step ${step.id} verify_step ${verifyStep.id} must be an agent or gate step`
+          );
+        }
+      }
+
+      // depends_on must reference other scheduled steps
+      if (step.depends_on !== undefined) {
+        if (!Array.isArray(step.depends_on)) {
+          throw new ValidationError(`Step ${step.id} depends_on must be a list of step IDs`);
+        }
+        if (verifyStepIds.has(step.id)) {
+          throw new ValidationError(
+            `Step ${step.id} is a loop verify step and cannot declare depends_on`
+          );
+        }
+        for (const dep of step.depends_on) {
+          if (dep === step.id) {
+            throw new ValidationError(`Step ${step.id} cannot depend on itself`);
+          }
+          if (!stepIdSet.has(dep)) {
+            throw new ValidationError(`Step ${step.id} depends_on references unknown step ${dep}`);
+          }
+          if (verifyStepIds.has(dep)) {
+            throw new ValidationError(
+              `Step ${step.id} cannot depend on ${dep}, which only runs inside its loop`
+            );
+          }
+        }
+      }
+
+      if (step.when !== undefined && (typeof step.when !== 'string' || !step.when.trim())) {
+        throw new ValidationError(`Step ${step.id} when must be a non-empty expression`);
+      }
+
+      // Gate routes must lead to another scheduled step
+      for (const route of [step.on_true, step.on_false]) {
+        if (!isGateRoute(route)) continue;
+        if (step.type !== 'gate' || verifyStepIds.has(step.id)) {
+          throw new ValidationError(`Step ${step.id} goto is only supported on gate steps`);
+        }
+        if (route.goto === step.id) {
+          throw new ValidationError(`Step ${step.id} cannot route to itself`);
+        }
+        if (!stepIdSet.has(route.goto) || verifyStepIds.has(route.goto)) {
+          throw new ValidationError(`Step ${step.id} goto references unknown step ${route.goto}`);
+        }
+        if (
+          route.max_visits !== undefined &&
+          (!Number.isInteger(route.max_visits) || route.max_visits < 1)
+        ) {
+          throw new ValidationError(`Step ${step.id} max_visits must be a positive integer`);
+        }
+      }
+
+      // Output schemas must reference a schema defined in workflow.schemas
+      const schemaRefs = [
+        { id: step.id, schema: step.output?.schema },
+        ...(step.parallel?.steps ?? []).map((sub) => ({
+          id: `${step.id}.${sub.id}`,
+          schema: sub.output?.schema,
+        })),
+      ];
+      for (const ref of schemaRefs) {
+        if (ref.schema && !workflow.schemas?.[ref.schema]) {
+          throw new ValidationError(`Step ${ref.id} references unknown schema ${ref.schema}`);
+        }
+      }
+
       // Validate retry_delay_ms bounds
       if (step.on_fail?.retry_delay_ms !== undefined) {
         if (step.on_fail.retry_delay_ms < 0) {
@@ -305,6 +548,92 @@ export class WorkflowService {
         }
       }
     }
+
+    // The dependency graph must be acyclic, and every step must be able to run
+    const dependencies = getStepDependencies(workflow);
+    const cycle = findDependencyCycle(dependencies);
+    if (cycle) {
+      throw new ValidationError(`Step dependency cycle: ${cycle.join(' -> ')}`);
+    }
+
+    const unreachable = findUnreachableSteps(workflow, dependencies);
+    if (unreachable.length > 0) {
+      const { stepId, gateId } = unreachable[0];
+      throw new ValidationError(
+        `Step ${stepId} is unreachable: every outcome of gate ${gateId} routes around it`
+      );
+    }
+  }
+
+  /**
+   * Validate the triggers that start runs automatically
+   */
+  private validateTriggers(workflow: WorkflowDefinition): void {
+    if (workflow.triggers === undefined) return;
+    if (!Array.isArray(workflow.triggers)) {
+      throw new ValidationError('Workflow triggers must be an array');
+    }
+    if (workflow.triggers.length > MAX_TRIGGERS_PER_WORKFLOW) {
+      throw new ValidationError(
+        `Workflow exceeds maximum of ${MAX_TRIGGERS_PER_WORKFLOW} triggers (has ${workflow.triggers.length})`
+      );
+    }
+
+    const triggerIds = new Set<string>();
+    for (const trigger of workflow.triggers) {
+      if (!trigger.id || !WORKFLOW_ID_PATTERN.test(trigger.id)) {
+        throw new ValidationError(
+          `Trigger id "${trigger.id ?? ''}" must contain only letters, numbers, hyphens, and underscores`
+        );
+      }
+      if (triggerIds.has(trigger.id)) {
+        throw new ValidationError(`Duplicate trigger ID found: ${trigger.id}`);
+      }
+      triggerIds.add(trigger.id);
+
+      if (!TRIGGER_TYPES.includes(trigger.type)) {
+        throw new ValidationError(
+          `Trigger ${trigger.id} has invalid type ${trigger.type} (expected ${TRIGGER_TYPES.join(', ')})`
+        );
+      }
+
+      if (trigger.type === 'event' && !LIFECYCLE_EVENTS.includes(trigger.event!)) {
+        throw new ValidationError(
+          `Trigger ${trigger.id} must set event to one of: ${LIFECYCLE_EVENTS.join(', ')}`
+        );
+      }
+
+      if (trigger.type === 'status') {
+        if (!isStringList(trigger.to) || trigger.to.length === 0) {
+          throw new ValidationError(`Trigger ${trigger.id} must list the statuses in "to"`);
+        }
+        if (trigger.from !== undefined && !isStringList(trigger.from)) {
+          throw new ValidationError(`Trigger ${trigger.id} "from" must be a list of statuses`);
+        }
+      }
+
+      if (trigger.filter !== undefined) {
+        for (const [key, values] of Object.entries(trigger.filter)) {
+          if (!['task_types', 'projects', 'priorities'].includes(key) || !isStringList(values)) {
+            throw new ValidationError(
+              `Trigger ${trigger.id} filter.${key} is not a supported list (task_types, projects, priorities)`
+            );
+          }
+        }
+      }
+
+      if (trigger.type === 'schedule') {
+        const cronError = trigger.cron ? validateCron(trigger.cron) : 'cron is required';
+        if (cronError) {
+          throw new ValidationError(`Trigger ${trigger.id} has an invalid schedule: ${cronError}`);
+        }
+        if (trigger.timezone && !isValidTimeZone(trigger.timezone)) {
+          throw new ValidationError(
+            `Trigger ${trigger.id} has an unknown timezone ${trigger.timezone}`
+          );
+        }
+      }
+    }
   }
 
   /**
@@ -356,6 +685,26 @@ export class WorkflowService {
     log.info({ event }, 'Workflow audit event logged');
   }
 
+  /**
+   * Read a workflow's audit records, oldest first
+   */
+  async readAuditLog(workflowId: string): Promise<WorkflowAuditEvent[]> {
+    const auditPath = path.join(this.workflowsDir, '.audit.jsonl');
+    const content = await fs.readFile(auditPath, 'utf-8').catch(() => '');
+    const events: WorkflowAuditEvent[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as WorkflowAuditEvent;
+        if (event.workflowId === workflowId) events.push(event);
+      } catch {
+        // Intentionally silent: skip a truncated line from an interrupted append
+      }
+    }
+    return events;
+  }
+
   /**
    * Clear the cache (useful for tests)
    */
@@ -1,6 +1,6 @@
 /**
  * WorkflowStepExecutor — Executes individual workflow steps
- * Phase 1: Core Engine (agent steps only, OpenClaw integration placeholder)
+ * Agent work is delegated to a pluggable AgentRunner (see agent-runners.ts)
  */
 
 import fs from 'fs/promises';
@@ -8,53 +8,154 @@ import path from 'path';
 import sanitizeFilename from 'sanitize-filename';
 import yaml from 'yaml';
 import type {
+  WorkflowDefinition,
   WorkflowStep,
   WorkflowRun,
   StepExecutionResult,
+  LoopVerifyResult,
   WorkflowAgent,
+  StepOutput,
+  ParallelSubStep,
   StepSessionConfig,
+  AgentRunner,
+  AgentRunRequest,
+  AgentRunResult,
+  ToolFilter,
 } from '../types/workflow.js';
 import { getWorkflowRunsDir } from '../utils/paths.js';
 import { createLogger } from '../lib/logger.js';
 import { getToolPolicyService } from './tool-policy-service.js';
+import { getAgentRunner } from './agent-runners.js';
+import { getStepOutputValidator, StepOutputValidationError } from './step-output-validator.js';
+import { isGateRoute } from '../utils/workflow-graph.js';
 
 const log = createLogger('workflow-step-executor');
 
+/**
+ * Thrown when a loop iteration still fails verification after the loop step's
+ * `on_fail.retry` attempts. The retry budget was spent on the iteration, so the
+ * run service does not retry the whole loop step again.
+ */
+export class LoopVerificationError extends Error {
+  constructor(
+    readonly stepId: string,
+    readonly iteration: number,
+    reason: string
+  ) {
+    super(`Verification failed for iteration ${iteration} of ${stepId}: ${reason}`);
+    this.name = 'LoopVerificationError';
+  }
+}
+
+/**
+ * Reason a step's AbortSignal fired: the run was cancelled, or a run, step or
+ * parallel group deadline passed. In-flight agent sessions are cancelled when
+ * the signal aborts.
+ */
+export class WorkflowAbortError extends Error {
+  constructor(
+    readonly kind: 'cancelled' | 'timeout',
+    message: string
+  ) {
+    super(message);
+    this.name = 'WorkflowAbortError';
+  }
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason once it aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface StepExecutorOptions {
+  /**
+   * Simulate instead of run: step outputs and progress are kept in memory and
+   * nothing is written under the runs directory (used by workflow simulation)
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Runner bookkeeping for one run. Kept out of run.context so session keys and
+ * retry state never reach step templates or the run API.
+ */
+interface RunAgentState {
+  /** Session key per agent for `mode: reuse` */
+  sessions: Record<string, string>;
+  /** Fresh sessions created with `cleanup: keep` */
+  kept: string[];
+  /** Last schema failure per step, shown in the retry prompt */
+  schemaErrors: Record<string, { schema: string; errors: string[] }>;
+}
+
 export class WorkflowStepExecutor {
   private runsDir: string;
   private appendCountCache?: Map<string, number>; // Performance: Track append counts to reduce stat() calls
+  private runner: AgentRunner;
+  private dryRun: boolean;
+  private dryRunProgress = new Map<string, string>();
+  private runState = new Map<string, RunAgentState>();
 
-  constructor(runsDir?: string) {
+  constructor(runsDir?: string, runner?: AgentRunner, options: StepExecutorOptions = {}) {
     this.runsDir = runsDir || getWorkflowRunsDir();
+    this.runner = runner || getAgentRunner();
+    this.dryRun = options.dryRun ?? false;
   }
 
   /**
-   * Execute a single workflow step
+   * Execute a single workflow step. The workflow definition is needed to
+   * resolve steps referenced by the step (e.g. a loop's verify_step). When
+   * `signal` aborts, running agent sessions are cancelled and the step rejects
+   * with the signal's reason.
    */
-  async executeStep(step: WorkflowStep, run: WorkflowRun): Promise<StepExecutionResult> {
+  async executeStep(
+    step: WorkflowStep,
+    run: WorkflowRun,
+    workflow?: WorkflowDefinition,
+    signal?: AbortSignal
+  ): Promise<StepExecutionResult> {
     log.info({ runId: run.id, stepId: step.id, type: step.type }, 'Executing step');
+    signal?.throwIfAborted();
 
     switch (step.type) {
       case 'agent':
-        return this.executeAgentStep(step, run);
+        return this.executeAgentStep(step, run, workflow, signal);
       case 'loop':
-        return this.executeLoopStep(step, run);
+        return this.executeLoopStep(step, run, workflow, signal);
       case 'gate':
         return this.executeGateStep(step, run);
       case 'parallel':
-        return this.executeParallelStep(step, run);
+        return this.executeParallelStep(step, run, workflow, signal);
       default:
         throw new Error(`Unknown step type: ${step.type}`);
     }
   }
 
   /**
-   * Execute an agent step (spawns OpenClaw session)
+   * Execute an agent step (runs the agent through the configured AgentRunner)
    * Integrated features: #108 (progress), #110 (tool policies), #111 (session management)
    */
   private async executeAgentStep(
     step: WorkflowStep,
-    run: WorkflowRun
+    run: WorkflowRun,
+    workflow?: WorkflowDefinition,
+    signal?: AbortSignal
   ): Promise<StepExecutionResult> {
     const agentDef = this.getAgentDefinition(run, step.agent!);
     const workflowConfig = run.context.workflow as
@@ -70,8 +171,12 @@ export class WorkflowStepExecutor {
     // Build context based on session config (#111)
     const sessionContext = this.buildSessionContext(sessionConfig, run, progress);
 
-    // Render the input prompt with context
-    const prompt = this.renderTemplate(step.input || '', sessionContext);
+    // Render the input prompt with context (plus schema errors from a failed attempt)
+    const prompt = this.withSchemaFeedback(
+      run,
+      step.id,
+      this.renderTemplate(step.input || '', sessionContext)
+    );
 
     // Get tool policy filter for this agent role (#110)
     const toolPolicyFilter = await this.getToolPolicyForAgent(agentDef);
@@ -90,51 +195,15 @@ export class WorkflowStepExecutor {
       'Agent step execution configured'
     );
 
-    // TODO: OpenClaw integration (sessions_spawn)
-    // This is the placeholder for actual session spawning.
-    // When OpenClaw sessions API is integrated, replace this with:
-    //
-    // if (sessionConfig.mode === 'reuse') {
-    //   const lastSessionKey = run.context._sessions?.[step.agent!];
-    //   if (lastSessionKey) {
-    //     // Continue existing session
-    //     const result = await this.continueSession(lastSessionKey, prompt);
-    //   } else {
-    //     // No existing session, fall back to fresh
-    //     const sessionKey = await this.spawnAgent({
-    //       agentId: step.agent!,
-    //       prompt,
-    //       taskId: run.taskId,
-    //       model: agentDef?.model,
-    //       toolFilter: toolPolicyFilter,
-    //       timeout: sessionConfig.timeout,
-    //     });
-    //     run.context._sessions = { ...run.context._sessions, [step.agent!]: sessionKey };
-    //   }
-    // } else {
-    //   // Fresh session
-    //   const sessionKey = await this.spawnAgent({
-    //     agentId: step.agent!,
-    //     prompt,
-    //     taskId: run.taskId,
-    //     model: agentDef?.model,
-    //     toolFilter: toolPolicyFilter,
-    //     timeout: sessionConfig.timeout,
-    //   });
-    //   run.context._sessions = { ...run.context._sessions, [step.agent!]: sessionKey };
-    // }
-    // const result = await this.waitForSession(sessionKey);
-    //
-    // After session completes:
-    // if (sessionConfig.cleanup === 'delete') {
-    //   await this.cleanupSession(sessionKey);
-    // }
-
-    // Placeholder: Simulate agent execution (Phase 1 only)
-    const result = `Agent ${step.agent} (role: ${agentDef?.role || 'unknown'}) executed step ${step.id}\n\nSession Config:\n- Mode: ${sessionConfig.mode}\n- Context: ${sessionConfig.context}\n- Cleanup: ${sessionConfig.cleanup}\n- Timeout: ${sessionConfig.timeout}s\n\nTool Policy:\n- Allowed: ${toolPolicyFilter.allowed?.join(', ') || 'all'}\n- Denied: ${toolPolicyFilter.denied?.join(', ') || 'none'}\n\nPrompt:\n${prompt}\n\nSTATUS: done\nOUTPUT: Placeholder result`;
+    const result = await this.invokeAgent(run, step.id, step.agent!, agentDef, prompt, {
+      sessionConfig,
+      toolFilter: toolPolicyFilter,
+      signal,
+    });
 
-    // Parse output
+    // Parse output and validate it against the step's output schema
     const parsed = this.parseStepOutput(result, step);
+    this.validateOutputSchema(run, step.id, step.output, parsed, workflow);
 
     // Validate acceptance criteria
     await this.validateAcceptanceCriteria(step, result, parsed);
@@ -198,6 +267,11 @@ export class WorkflowStepExecutor {
         return JSON.parse(rawOutput);
       }
 
+      // Schema-validated output without a hint: accept JSON or YAML
+      if (step.output?.schema) {
+        return yaml.parse(rawOutput);
+      }
+
       // Default: return as-is
       return rawOutput;
     } catch (err) {
@@ -206,6 +280,46 @@ export class WorkflowStepExecutor {
     }
   }
 
+  /**
+   * Validate parsed output against its output schema. On failure the errors
+   * are kept per run so the retry prompt can show them.
+   */
+  private validateOutputSchema(
+    run: WorkflowRun,
+    key: string,
+    output: StepOutput | undefined,
+    parsedOutput: unknown,
+    workflow?: WorkflowDefinition
+  ): void {
+    const feedback = this.getRunState(run).schemaErrors;
+    try {
+      getStepOutputValidator().assertStepOutput(key, output, parsedOutput, workflow);
+      delete feedback[key];
+    } catch (err) {
+      if (err instanceof StepOutputValidationError) {
+        feedback[key] = { schema: err.schemaId, errors: err.errors };
+        log.warn({ runId: run.id, stepId: key, errors: err.errors }, 'Step output failed schema');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Append the previous attempt's schema errors to a prompt, if any
+   */
+  private withSchemaFeedback(run: WorkflowRun, key: string, prompt: string): string {
+    const previous = this.getRunState(run).schemaErrors[key];
+    if (!previous) return prompt;
+
+    const errors = previous.errors.map((error) => `- ${error}`).join('\n');
+    return (
+      `${prompt}\n\n---\n` +
+      `Your previous output did not match the required output schema "${previous.schema}":\n` +
+      `${errors}\n` +
+      `Return output that conforms to the schema.`
+    );
+  }
+
   /**
    * Save step output to disk
    */
@@ -222,11 +336,12 @@ export class WorkflowStepExecutor {
     }
 
     const outputDir = path.join(this.runsDir, safeRunId, 'step-outputs');
-    await fs.mkdir(outputDir, { recursive: true });
-
     const candidate = filename || `${stepId}.md`;
     const safeName = sanitizeFilename(candidate) || `${stepId}.md`;
     const outputPath = path.join(outputDir, safeName);
+    if (this.dryRun) return outputPath;
+
+    await fs.mkdir(outputDir, { recursive: true });
 
     const content = typeof output === 'string' ? output : JSON.stringify(output, null, 2);
     await fs.writeFile(outputPath, content, 'utf-8');
@@ -333,17 +448,22 @@ export class WorkflowStepExecutor {
 
   /**
    * Execute a loop step — iterates over a collection
-   * Phase 4: Loop execution with verify_each support
+   * Phase 4: Loop execution with verify_each support. A failed verification
+   * retries the iteration per the loop step's on_fail.retry / retry_delay_ms.
    */
   private async executeLoopStep(
     step: WorkflowStep,
-    run: WorkflowRun
+    run: WorkflowRun,
+    workflow?: WorkflowDefinition,
+    signal?: AbortSignal
   ): Promise<StepExecutionResult> {
     if (!step.loop) {
       throw new Error(`Loop step ${step.id} missing loop configuration`);
     }
 
     const loopConfig = step.loop;
+    const verifyStep = this.resolveVerifyStep(step, workflow);
+    const maxAttempts = verifyStep ? 1 + (step.on_fail?.retry ?? 0) : 1;
 
     // Load progress file
     const progress = await this.loadProgressFile(run.id);
@@ -388,9 +508,21 @@ export class WorkflowStepExecutor {
         currentIteration: 0,
         completedIterations: 0,
         failedIterations: 0,
+        ...(verifyStep ? { verifyResults: [] } : {}),
       };
     }
 
+    // Resolve agent, session and tool policy once for all iterations
+    const agentDef = this.getAgentDefinition(run, step.agent!);
+    const workflowConfig = run.context.workflow as
+      | { config?: { fresh_session_default?: boolean } }
+      | undefined;
+    const baseSessionConfig = this.buildSessionConfig(step, run, workflowConfig?.config);
+    const iterationSessionConfig: StepSessionConfig = loopConfig.fresh_session_per_iteration
+      ? { ...baseSessionConfig, mode: 'fresh' }
+      : baseSessionConfig;
+    const toolPolicyFilter = await this.getToolPolicyForAgent(agentDef);
+
     const itemVar = loopConfig.item_var || 'item';
     const indexVar = loopConfig.index_var || 'index';
     const results: unknown[] = [];
@@ -423,27 +555,76 @@ export class WorkflowStepExecutor {
       };
 
       try {
-        // Render the input prompt for this iteration
-        const prompt = this.renderTemplate(step.input || '', iterationContext);
+        let result = '';
+        let parsed: unknown;
+        let verification: LoopVerifyResult | undefined;
+
+        for (let attempt = 1; ; attempt++) {
+          // Retries see the previous verification so the agent can address it
+          const attemptContext = {
+            ...iterationContext,
+            loop: { ...iterationContext.loop, attempt, verification },
+          };
+
+          // Render the input prompt for this iteration
+          const iterationKey = `${step.id}-iter-${i + 1}`;
+          const prompt = this.withSchemaFeedback(
+            run,
+            iterationKey,
+            this.renderTemplate(step.input || '', attemptContext)
+          );
 
-        // Execute the iteration (spawn agent)
-        const result = `Agent ${step.agent} executed loop iteration ${i + 1}/${iterationCount}\n\nPrompt:\n${prompt}\n\nSTATUS: done\nOUTPUT: Iteration ${i + 1} complete`;
+          // Execute the iteration through the agent runner
+          result = await this.invokeAgent(run, step.id, step.agent!, agentDef, prompt, {
+            sessionConfig: iterationSessionConfig,
+            toolFilter: toolPolicyFilter,
+            signal,
+          });
 
-        // Parse output
-        const parsed = this.parseStepOutput(result, step);
+          // Parse output
+          parsed = this.parseStepOutput(result, step);
+          this.validateOutputSchema(run, iterationKey, step.output, parsed, workflow);
 
-        // Validate acceptance criteria for this iteration
-        await this.validateAcceptanceCriteria(step, result, parsed);
+          // Validate acceptance criteria for this iteration
+          await this.validateAcceptanceCriteria(step, result, parsed);
 
-        // Save iteration output
-        const outputFilename = this.renderTemplate(
-          step.output?.file || `${step.id}-{{loop.index}}.md`,
-          iterationContext
-        );
-        await this.saveStepOutput(run.id, step.id, result, outputFilename);
+          // Save iteration output
+          const outputFilename = this.renderTemplate(
+            step.output?.file || `${step.id}-{{loop.index}}.md`,
+            attemptContext
+          );
+          await this.saveStepOutput(run.id, step.id, result, outputFilename);
+
+          // Append to progress
+          await this.appendProgressFile(run.id, `${step.id}-iter-${i + 1}`, result);
+
+          if (!verifyStep) break;
+
+          verification = await this.verifyIteration(
+            verifyStep,
+            step,
+            run,
+            attemptContext,
+            { iteration: i + 1, attempt, raw: result, parsed },
+            signal
+          );
+          stepRun?.loopState?.verifyResults?.push(verification);
 
-        // Append to progress
-        await this.appendProgressFile(run.id, `${step.id}-iter-${i + 1}`, result);
+          if (verification.passed) break;
+
+          const reason = verification.error || 'verification rejected';
+          if (attempt >= maxAttempts) {
+            throw new LoopVerificationError(step.id, i + 1, reason);
+          }
+
+          log.warn(
+            { runId: run.id, stepId: step.id, iteration: i + 1, attempt, reason },
+            'Loop iteration failed verification — retrying'
+          );
+          if (step.on_fail?.retry_delay_ms && !this.dryRun) {
+            await abortableDelay(step.on_fail.retry_delay_ms, signal);
+          }
+        }
 
         results.push(parsed);
         completedItems.push(String(currentItem));
@@ -451,17 +632,10 @@ export class WorkflowStepExecutor {
         if (stepRun?.loopState) {
           stepRun.loopState.completedIterations++;
         }
-
-        // Run verification step if verify_each is enabled
-        if (loopConfig.verify_each && loopConfig.verify_step) {
-          log.info(
-            { runId: run.id, stepId: step.id, verifyStep: loopConfig.verify_step },
-            'Running verification step'
-          );
-          // Verification would be handled by the workflow executor
-          // This is just a placeholder to show the integration point
-        }
       } catch (err: unknown) {
+        // Cancellation and deadlines end the loop regardless of continue_on_error
+        if (signal?.aborted) throw signal.reason;
+
         if (stepRun?.loopState) {
           stepRun.loopState.failedIterations++;
         }
@@ -528,6 +702,165 @@ export class WorkflowStepExecutor {
     };
   }
 
+  /**
+   * Resolve the step run after each iteration when verify_each is enabled
+   */
+  private resolveVerifyStep(
+    step: WorkflowStep,
+    workflow?: WorkflowDefinition
+  ): WorkflowStep | undefined {
+    const verifyStepId = step.loop?.verify_each ? step.loop.verify_step : undefined;
+    if (!verifyStepId) return undefined;
+
+    if (!workflow) {
+      throw new Error(`Loop step ${step.id} needs the workflow definition to run ${verifyStepId}`);
+    }
+    const verifyStep = workflow.steps.find((s) => s.id === verifyStepId);
+    if (!verifyStep) {
+      throw new Error(`Loop step ${step.id} verify_step references unknown step ${verifyStepId}`);
+    }
+    if (verifyStep.type !== 'agent' && verifyStep.type !== 'gate') {
+      throw new Error(`Verify step ${verifyStepId} must be an agent or gate step`);
+    }
+    return verifyStep;
+  }
+
+  /**
+   * Run a loop's verify step against one iteration. The iteration output is
+   * available to the verify step as {{<loop step id>.output}} alongside the
+   * loop variables. Agent verify steps fail on an error, unmet acceptance
+   * criteria or an explicit `DECISION: rejected`; gate verify steps fail when
+   * their condition is false. Failures are returned; only an abort throws.
+   */
+  private async verifyIteration(
+    verifyStep: WorkflowStep,
+    loopStep: WorkflowStep,
+    run: WorkflowRun,
+    iterationContext: Record<string, unknown>,
+    iteration: { iteration: number; attempt: number; raw: string; parsed: unknown },
+    signal?: AbortSignal
+  ): Promise<LoopVerifyResult> {
+    const context = {
+      ...iterationContext,
+      [loopStep.id]: { output: iteration.parsed, raw: iteration.raw },
+    };
+    const verifyStepRun = run.steps.find((s) => s.stepId === verifyStep.id);
+    if (verifyStepRun) {
+      verifyStepRun.status = 'running';
+      verifyStepRun.agent = verifyStep.agent;
+      verifyStepRun.startedAt = new Date().toISOString();
+      verifyStepRun.error = undefined;
+    }
+
+    log.info(
+      {
+        runId: run.id,
+        stepId: loopStep.id,
+        verifyStep: verifyStep.id,
+        iteration: iteration.iteration,
+        attempt: iteration.attempt,
+      },
+      'Running verification step'
+    );
+
+    let result: LoopVerifyResult;
+    try {
+      let output: unknown;
+      let passed: boolean;
+      let decision: string | undefined;
+      let error: string | undefined;
+
+      if (verifyStep.type === 'gate') {
+        const condition = verifyStep.condition || '';
+        passed = Boolean(this.evaluateExpression(condition, context));
+        output = { passed, condition };
+        if (!passed) {
+          const onFalse = isGateRoute(verifyStep.on_false) ? undefined : verifyStep.on_false;
+          error = onFalse?.escalate_message || `Condition not met: ${condition}`;
+        }
+      } else {
+        const agentDef = this.getAgentDefinition(run, verifyStep.agent!);
+        const workflowConfig = run.context.workflow as
+          | { config?: { fresh_session_default?: boolean } }
+          | undefined;
+        const raw = await this.invokeAgent(
+          run,
+          verifyStep.id,
+          verifyStep.agent!,
+          agentDef,
+          this.renderTemplate(verifyStep.input || '', context),
+          {
+            sessionConfig: this.buildSessionConfig(verifyStep, run, workflowConfig?.config),
+            toolFilter: await this.getToolPolicyForAgent(agentDef),
+            signal,
+          }
+        );
+        output = this.parseStepOutput(raw, verifyStep);
+        await this.validateAcceptanceCriteria(verifyStep, raw, output);
+
+        decision = this.parseVerifyDecision(raw, output);
+        passed = decision !== 'rejected';
+        if (!passed) error = `${verifyStep.id} rejected the iteration`;
+        await this.appendProgressFile(run.id, `${verifyStep.id}-iter-${iteration.iteration}`, raw);
+      }
+
+      const outputPath = await this.saveStepOutput(
+        run.id,
+        verifyStep.id,
+        output,
+        this.renderTemplate(
+          verifyStep.output?.file || `${verifyStep.id}-{{loop.index}}.md`,
+          context
+        )
+      );
+      run.context[verifyStep.id] = output;
+
+      result = {
+        iteration: iteration.iteration,
+        attempt: iteration.attempt,
+        passed,
+        decision,
+        output: outputPath,
+        error,
+        verifiedAt: new Date().toISOString(),
+      };
+    } catch (err: unknown) {
+      if (signal?.aborted) {
+        if (verifyStepRun) verifyStepRun.status = 'cancelled';
+        throw signal.reason;
+      }
+      result = {
+        iteration: iteration.iteration,
+        attempt: iteration.attempt,
+        passed: false,
+        error: err instanceof Error ? err.message : 'Unknown error',
+        verifiedAt: new Date().toISOString(),
+      };
+    }
+
+    if (verifyStepRun) {
+      verifyStepRun.status = result.passed ? 'completed' : 'failed';
+      verifyStepRun.completedAt = result.verifiedAt;
+      verifyStepRun.output = result.output ?? verifyStepRun.output;
+      verifyStepRun.error = result.error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Read a verify agent's decision: a structured `decision` / `passed: false`
+   * field, or the `DECISION: approved|rejected` line convention.
+   */
+  private parseVerifyDecision(raw: string, parsed: unknown): string | undefined {
+    if (parsed && typeof parsed === 'object') {
+      const { decision, passed } = parsed as { decision?: unknown; passed?: unknown };
+      if (passed === false) return 'rejected';
+      if (typeof decision === 'string') return decision.toLowerCase();
+    }
+    return raw.match(/DECISION:\s*(approved|rejected)/i)?.[1].toLowerCase();
+  }
+
   /**
    * Execute a gate step — blocks execution until a condition is met
    * Phase 4: Gate execution with approval/condition/timeout
@@ -556,10 +889,11 @@ export class WorkflowStepExecutor {
       'Gate condition evaluated'
     );
 
-    if (!conditionResult) {
-      // Condition not met — handle on_false policy
-      const policy = step.on_false;
+    const passed = Boolean(conditionResult);
+    const policy = passed ? step.on_true : step.on_false;
 
+    if (!passed && !isGateRoute(policy)) {
+      // Condition not met — handle on_false policy
       if (policy?.escalate_to === 'human') {
         // Block the workflow (will be handled by workflow-run-service)
         throw new Error(policy.escalate_message || `Gate ${step.id} condition not met`);
@@ -568,23 +902,45 @@ export class WorkflowStepExecutor {
       throw new Error(`Gate ${step.id} condition failed: ${step.condition}`);
     }
 
-    // Gate passed
-    const output = `Gate ${step.id} passed: ${step.condition}`;
+    // Gate passed, or routes elsewhere on failure (the run service applies the route)
+    const route = isGateRoute(policy) ? policy : undefined;
+    const output = route
+      ? `Gate ${step.id} ${passed ? 'passed' : 'failed'}: ${step.condition} — routing to ${route.goto}`
+      : `Gate ${step.id} passed: ${step.condition}`;
     const outputPath = await this.saveStepOutput(run.id, step.id, output);
 
     return {
-      output: { passed: true, condition: step.condition },
+      output: { passed, condition: step.condition, ...(route ? { goto: route.goto } : {}) },
       outputPath,
+      route,
     };
   }
 
+  /**
+   * Evaluate a step's `when` expression against the run context. Steps
+   * without one always run.
+   */
+  async shouldRunStep(step: WorkflowStep, run: WorkflowRun): Promise<boolean> {
+    if (!step.when) return true;
+
+    const progress = await this.loadProgressFile(run.id);
+    const result = this.evaluateExpression(step.when, {
+      ...run.context,
+      progress: progress || '',
+      steps: this.buildStepsContext(run),
+    });
+    return Boolean(result);
+  }
+
   /**
    * Execute a parallel step — runs multiple sub-steps concurrently
    * Phase 4: Parallel execution with fan-out/fan-in
    */
   private async executeParallelStep(
     step: WorkflowStep,
-    run: WorkflowRun
+    run: WorkflowRun,
+    workflow?: WorkflowDefinition,
+    signal?: AbortSignal
   ): Promise<StepExecutionResult> {
     if (!step.parallel) {
       throw new Error(`Parallel step ${step.id} missing parallel configuration`);
@@ -623,15 +979,72 @@ export class WorkflowStepExecutor {
       'Starting parallel execution'
     );
 
+    // Sub-steps share one abort signal, fired by run cancellation, the group
+    // deadline (parallel.timeout) or fail_fast
+    signal?.throwIfAborted();
+    const group = new AbortController();
+    const abortGroup = () => group.abort(signal?.reason);
+    signal?.addEventListener('abort', abortGroup, { once: true });
+    const deadline = parallelConfig.timeout
+      ? setTimeout(
+          () =>
+            group.abort(
+              new WorkflowAbortError(
+                'timeout',
+                `Parallel step ${step.id} timed out after ${parallelConfig.timeout}s`
+              )
+            ),
+          parallelConfig.timeout * 1000
+        )
+      : undefined;
+
+    const completionType = parallelConfig.completion;
+    const required =
+      completionType === 'any'
+        ? 1
+        : typeof completionType === 'number'
+          ? completionType
+          : subSteps.length;
+    let failures = 0;
+
     // Execute all sub-steps in parallel using Promise.allSettled
     // Note: For production use with real OpenClaw sessions, consider batching to limit
     // concurrent session spawns (e.g., p-limit library with concurrency: 10)
     const subStepPromises = subSteps.map((subStep) =>
-      this.executeParallelSubStep(subStep, run, contextWithProgress, step.id)
+      this.executeParallelSubStep(
+        subStep,
+        run,
+        contextWithProgress,
+        step.id,
+        workflow,
+        group.signal
+      ).catch((err: unknown) => {
+        failures++;
+        // fail_fast: stop the rest once the completion criteria are out of reach
+        if (
+          parallelConfig.fail_fast !== false &&
+          subSteps.length - failures < required &&
+          !group.signal.aborted
+        ) {
+          group.abort(
+            new WorkflowAbortError('cancelled', `Aborted after sub-step ${subStep.id} failed`)
+          );
+        }
+        throw err;
+      })
     );
 
-    // Wait for all (or until completion criteria met)
-    const results = await Promise.allSettled(subStepPromises);
+    // Wait for all (aborted sub-steps settle as soon as the group aborts)
+    let results: PromiseSettledResult<unknown>[];
+    try {
+      results = await Promise.allSettled(subStepPromises);
+    } finally {
+      clearTimeout(deadline);
+      signal?.removeEventListener('abort', abortGroup);
+    }
+
+    // A cancelled run stops here; a group deadline is judged by the completion criteria
+    if (signal?.aborted) throw signal.reason;
 
     // Analyze results
     const fulfilled = results.filter((r) => r.status === 'fulfilled');
@@ -649,7 +1062,6 @@ export class WorkflowStepExecutor {
     );
 
     // Check completion criteria
-    const completionType = parallelConfig.completion;
     let success = false;
 
     if (completionType === 'all') {
@@ -702,31 +1114,50 @@ export class WorkflowStepExecutor {
    * Execute a single parallel sub-step
    */
   private async executeParallelSubStep(
-    subStep: { id: string; agent: string; input: string; timeout?: number },
+    subStep: ParallelSubStep,
     run: WorkflowRun,
     context: Record<string, unknown>,
-    parentStepId: string
+    parentStepId: string,
+    workflow?: WorkflowDefinition,
+    signal?: AbortSignal
   ): Promise<unknown> {
+    const subStepKey = `${parentStepId}-${subStep.id}`;
     log.info(
       { runId: run.id, parentStepId, subStepId: subStep.id, agent: subStep.agent },
       'Executing parallel sub-step'
     );
 
     // Render the input prompt
-    const prompt = this.renderTemplate(subStep.input, context);
+    const prompt = this.withSchemaFeedback(
+      run,
+      subStepKey,
+      this.renderTemplate(subStep.input, context)
+    );
 
-    // Placeholder: Simulate agent execution
-    const result = `Agent ${subStep.agent} executed sub-step ${subStep.id}\n\nPrompt:\n${prompt}\n\nSTATUS: done\nOUTPUT: Sub-step ${subStep.id} complete`;
+    // Sub-steps always run in their own fresh session
+    const agentDef = this.getAgentDefinition(run, subStep.agent);
+    const result = await this.invokeAgent(run, subStepKey, subStep.agent, agentDef, prompt, {
+      sessionConfig: {
+        mode: 'fresh',
+        context: 'minimal',
+        cleanup: 'delete',
+        timeout: subStep.timeout || 600,
+      },
+      toolFilter: await this.getToolPolicyForAgent(agentDef),
+      signal,
+    });
 
     // Parse output
     const parsed = this.parseStepOutput(result, {
       id: subStep.id,
       name: subStep.id,
       type: 'agent',
+      output: subStep.output,
     } as WorkflowStep);
+    this.validateOutputSchema(run, subStepKey, subStep.output, parsed, workflow);
 
     // Save sub-step output
-    await this.saveStepOutput(run.id, `${parentStepId}-${subStep.id}`, result);
+    await this.saveStepOutput(run.id, subStepKey, result);
 
     return parsed;
   }
@@ -777,13 +1208,140 @@ export class WorkflowStepExecutor {
     return this.getNestedValue(context, cleaned);
   }
 
+  // ==================== Agent Runner Integration ====================
+
+  /**
+   * Run a prompt through the agent runner and return the raw agent output.
+   * Honours session mode (fresh/reuse), cleanup policy and timeout; records the
+   * session key on the StepRun and, for reuse mode, in the run's agent state.
+   * Aborting `signal` cancels the session and rejects with the signal's reason.
+   */
+  private async invokeAgent(
+    run: WorkflowRun,
+    stepId: string,
+    agentId: string,
+    agentDef: WorkflowAgent | null,
+    prompt: string,
+    options: { sessionConfig: StepSessionConfig; toolFilter: ToolFilter; signal?: AbortSignal }
+  ): Promise<string> {
+    const { sessionConfig, toolFilter, signal } = options;
+    signal?.throwIfAborted();
+    const request: AgentRunRequest = {
+      runId: run.id,
+      stepId,
+      agentId,
+      agentType: agentDef?.agent_type,
+      model: agentDef?.model,
+      prompt,
+      taskId: run.taskId,
+      toolFilter,
+      timeout: sessionConfig.timeout,
+    };
+
+    const { sessions, kept } = this.getRunState(run);
+    const existingKey = sessionConfig.mode === 'reuse' ? sessions[agentId] : undefined;
+
+    let sessionKey: string;
+    if (existingKey && this.runner.hasSession(existingKey)) {
+      await this.runner.continueSession(existingKey, prompt, request);
+      sessionKey = existingKey;
+    } else {
+      if (existingKey) {
+        log.warn({ runId: run.id, stepId, sessionKey: existingKey }, 'Session lost — spawning');
+      }
+      sessionKey = await this.runner.spawn(request);
+      if (sessionConfig.mode === 'reuse') {
+        sessions[agentId] = sessionKey;
+      } else if (sessionConfig.cleanup === 'keep') {
+        kept.push(sessionKey);
+      }
+    }
+
+    const stepRun = run.steps.find((s) => s.stepId === stepId);
+    if (stepRun) {
+      stepRun.sessionKey = sessionKey;
+    }
+
+    try {
+      const result = await this.waitForAgent(sessionKey, sessionConfig.timeout * 1000, signal);
+      if (result.status !== 'completed') {
+        throw new Error(
+          `Agent ${agentId} ${result.status} on step ${stepId}: ${result.error || 'no output'}`
+        );
+      }
+      return result.output;
+    } finally {
+      // Reused and kept sessions stay alive until the run finishes (see cleanupRunSessions)
+      if (sessionConfig.mode === 'fresh' && sessionConfig.cleanup === 'delete') {
+        await this.cleanupSession(sessionKey);
+      }
+    }
+  }
+
   /**
-   * Cleanup OpenClaw session (Phase 2 tracked in #110)
+   * Wait for the runner, cancelling the session as soon as `signal` aborts
+   * rather than waiting for the runner to notice
+   */
+  private async waitForAgent(
+    sessionKey: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<AgentRunResult> {
+    if (!signal) return this.runner.wait(sessionKey, timeoutMs);
+    signal.throwIfAborted();
+
+    let onAbort = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        log.info({ sessionKey, reason: String(signal.reason) }, 'Cancelling agent session');
+        this.runner.cancel(sessionKey).catch((err) => {
+          log.warn({ sessionKey, err }, 'Session cancel failed');
+        });
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([this.runner.wait(sessionKey, timeoutMs), aborted]);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private getRunState(run: WorkflowRun): RunAgentState {
+    let state = this.runState.get(run.id);
+    if (!state) {
+      state = { sessions: {}, kept: [], schemaErrors: {} };
+      this.runState.set(run.id, state);
+    }
+    return state;
+  }
+
+  /**
+   * Release an agent session through the runner
    */
   async cleanupSession(sessionKey: string): Promise<void> {
-    log.info({ sessionKey }, 'Session cleanup (placeholder)');
-    // Phase 2 (tracked in #110): Call OpenClaw session cleanup API
-    // Will integrate with sessions API for proper resource cleanup
+    try {
+      await this.runner.cleanup(sessionKey);
+    } catch (err) {
+      log.warn({ sessionKey, err }, 'Session cleanup failed');
+    }
+  }
+
+  /**
+   * Release reused and kept sessions once a run has finished (completed,
+   * failed or cancelled) and forget the run's agent state. `cleanup: keep`
+   * only keeps a session past its step.
+   */
+  async cleanupRunSessions(run: WorkflowRun): Promise<void> {
+    const state = this.runState.get(run.id);
+    if (!state) return;
+    this.runState.delete(run.id);
+
+    for (const sessionKey of new Set([...Object.values(state.sessions), ...state.kept])) {
+      await this.cleanupSession(sessionKey);
+    }
   }
 
   // ==================== Phase 2: Progress File Integration (#108) ====================
@@ -798,6 +1356,7 @@ export class WorkflowStepExecutor {
     if (!safeRunId || safeRunId !== runId) {
       throw new Error(`Invalid run ID: ${runId}`);
     }
+    if (this.dryRun) return this.dryRunProgress.get(runId) ?? null;
 
     const progressPath = path.join(this.runsDir, safeRunId, 'progress.md');
 
@@ -824,6 +1383,12 @@ export class WorkflowStepExecutor {
 
     const progressPath = path.join(this.runsDir, safeRunId, 'progress.md');
     const timestamp = new Date().toISOString();
+    const entry = `## Step: ${stepId} (${timestamp})\n\n${typeof output === 'string' ? output : JSON.stringify(output, null, 2)}\n\n---\n\n`;
+
+    if (this.dryRun) {
+      this.dryRunProgress.set(runId, (this.dryRunProgress.get(runId) ?? '') + entry);
+      return;
+    }
 
     // Performance: Check progress file size before appending (cap at 10MB)
     // Only check size periodically to avoid repeated stat() calls
@@ -857,8 +1422,6 @@ export class WorkflowStepExecutor {
       }
     }
 
-    const entry = `## Step: ${stepId} (${timestamp})\n\n${typeof output === 'string' ? output : JSON.stringify(output, null, 2)}\n\n---\n\n`;
-
     await fs.appendFile(progressPath, entry, 'utf-8');
 
     log.info({ runId, stepId }, 'Progress file updated');
@@ -0,0 +1,392 @@
+/**
+ * Workflow Trigger Service
+ *
+ * Starts workflow runs from the `triggers` declared on workflow definitions:
+ * - event: a task lifecycle event (task.created, task.done, ...)
+ * - status: a task status transition (`from` → `to`)
+ * - schedule: a cron expression, checked on a background loop
+ * - webhook: an inbound POST to /workflows/:id/triggers/:triggerId
+ *
+ * Task-bound runs are deduplicated: a workflow never has two active runs
+ * for the same task, however many of its triggers match.
+ *
+ * Disable with VERITAS_WORKFLOW_TRIGGERS=false (e.g. on secondary instances).
+ */
+
+import type { Task } from '@veritas-kanban/shared';
+import type {
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowRunTrigger,
+  WorkflowTrigger,
+  WorkflowTriggerFilter,
+} from '../types/workflow.js';
+import type { LifecycleEvent } from './lifecycle-hooks-service.js';
+import { getWorkflowService, type WorkflowService } from './workflow-service.js';
+import { getWorkflowRunService, type WorkflowRunService } from './workflow-run-service.js';
+import { NotFoundError } from '../middleware/error-handler.js';
+import { nextCronRun } from '../utils/cron.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('workflow-triggers');
+
+/** How often schedule triggers are checked */
+const DEFAULT_INTERVAL_MS = 30_000;
+
+/** Runs that still hold their task (or schedule) slot */
+const ACTIVE_RUN_STATUSES = new Set(['pending', 'running', 'blocked']);
+
+/** Lifecycle event fired when a task moves into each status */
+const STATUS_EVENTS: Record<string, LifecycleEvent> = {
+  'in-progress': 'task.started',
+  blocked: 'task.blocked',
+  done: 'task.done',
+  cancelled: 'task.cancelled',
+};
+
+export interface WorkflowTriggerServiceOptions {
+  workflowService?: Pick<WorkflowService, 'listWorkflows' | 'loadWorkflow'>;
+  workflowRunService?: Pick<WorkflowRunService, 'startRun' | 'getRun' | 'listRunsMetadata'>;
+  intervalMs?: number;
+}
+
+export interface WebhookTriggerInput {
+  taskId?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface TriggerResult {
+  run?: WorkflowRun;
+  /** Why no run was started (an active run already holds the slot) */
+  skipped?: string;
+}
+
+interface ScheduleState {
+  spec: string;
+  nextRunAt: Date | null;
+  lastRunId?: string;
+}
+
+/**
+ * Lifecycle events implied by a task change (`previous` is undefined for a
+ * newly created task)
+ */
+export function getLifecycleEvents(previous: Task | undefined, task: Task): LifecycleEvent[] {
+  if (!previous) return ['task.created'];
+
+  const events: LifecycleEvent[] = [];
+  if (task.status !== previous.status && STATUS_EVENTS[task.status]) {
+    events.push(STATUS_EVENTS[task.status]);
+  }
+  if (task.agent && task.agent !== previous.agent) {
+    events.push('task.assigned');
+  }
+  if ((task.comments?.length ?? 0) > (previous.comments?.length ?? 0)) {
+    events.push('task.commented');
+  }
+  if (task.review && JSON.stringify(task.review) !== JSON.stringify(previous.review)) {
+    events.push('task.reviewed');
+  }
+  return events;
+}
+
+function matchesFilter(filter: WorkflowTriggerFilter | undefined, task: Task): boolean {
+  if (!filter) return true;
+  if (filter.task_types?.length && !filter.task_types.includes(task.type)) return false;
+  if (filter.projects?.length && !(task.project && filter.projects.includes(task.project))) {
+    return false;
+  }
+  if (filter.priorities?.length && !filter.priorities.includes(task.priority)) return false;
+  return true;
+}
+
+export class WorkflowTriggerService {
+  private workflowService?: WorkflowTriggerServiceOptions['workflowService'];
+  private workflowRunService?: WorkflowTriggerServiceOptions['workflowRunService'];
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  // Task-bound runs being started, keyed workflowId:taskId (closes the gap
+  // before the new run is visible to listRunsMetadata)
+  private starting = new Set<string>();
+  private schedules = new Map<string, ScheduleState>();
+
+  constructor(options: WorkflowTriggerServiceOptions = {}) {
+    this.workflowService = options.workflowService;
+    this.workflowRunService = options.workflowRunService;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  }
+
+  private get workflows() {
+    return this.workflowService || getWorkflowService();
+  }
+
+  private get runs() {
+    return this.workflowRunService || getWorkflowRunService();
+  }
+
+  /**
+   * Start listening for task changes and checking schedule triggers
+   */
+  start(): void {
+    if (this.timer) return;
+    log.info({ intervalMs: this.intervalMs }, 'Starting workflow triggers');
+
+    this.tickSafely();
+    this.timer = setInterval(() => this.tickSafely(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log.info('Stopped workflow triggers');
+    }
+  }
+
+  /**
+   * Called by the task service after a task is created or updated. Does
+   * nothing until the service is started. Never throws.
+   */
+  notifyTaskChange(previous: Task | undefined, task: Task): void {
+    if (!this.timer) return;
+
+    this.handleTaskChange(previous, task).catch((err) => {
+      log.error({ taskId: task.id, err }, 'Workflow trigger evaluation failed');
+    });
+  }
+
+  /**
+   * Start a run for every workflow with an event or status trigger matching
+   * the task change. Returns the runs started.
+   */
+  async handleTaskChange(previous: Task | undefined, task: Task): Promise<WorkflowRun[]> {
+    const events = getLifecycleEvents(previous, task);
+    const statusChanged = !!previous && previous.status !== task.status;
+    if (events.length === 0 && !statusChanged) return [];
+
+    const started: WorkflowRun[] = [];
+    for (const workflow of await this.workflows.listWorkflows()) {
+      const match = this.findTaskTrigger(workflow, events, previous, task);
+      if (!match) continue;
+
+      try {
+        const result = await this.startTaskRun(workflow.id, match.trigger, match.event, task.id);
+        if (result.run) started.push(result.run);
+      } catch (err) {
+        log.error(
+          { workflowId: workflow.id, triggerId: match.trigger.id, taskId: task.id, err },
+          'Failed to start triggered workflow run'
+        );
+      }
+    }
+    return started;
+  }
+
+  /**
+   * Fire a workflow's webhook trigger
+   */
+  async fireWebhook(
+    workflowId: string,
+    triggerId: string,
+    input: WebhookTriggerInput = {}
+  ): Promise<TriggerResult> {
+    const workflow = await this.workflows.loadWorkflow(workflowId);
+    if (!workflow) {
+      throw new NotFoundError(`Workflow ${workflowId} not found`);
+    }
+
+    const trigger = workflow.triggers?.find(
+      (t) => t.id === triggerId && t.type === 'webhook' && t.enabled !== false
+    );
+    if (!trigger) {
+      throw new NotFoundError(`Workflow ${workflowId} has no enabled webhook trigger ${triggerId}`);
+    }
+
+    return this.startTaskRun(workflowId, trigger, 'webhook', input.taskId, input.payload);
+  }
+
+  /**
+   * Fire every schedule trigger that is due at `now`. Overlapping calls are
+   * ignored. A schedule is skipped while its previous run is still active.
+   */
+  async tick(now: Date = new Date()): Promise<WorkflowRun[]> {
+    if (this.ticking) return [];
+    this.ticking = true;
+
+    try {
+      const started: WorkflowRun[] = [];
+      const seen = new Set<string>();
+
+      for (const workflow of await this.workflows.listWorkflows()) {
+        for (const trigger of workflow.triggers ?? []) {
+          if (trigger.type !== 'schedule' || trigger.enabled === false || !trigger.cron) continue;
+
+          const key = `${workflow.id}:${trigger.id}`;
+          seen.add(key);
+          const run = await this.checkSchedule(key, workflow, trigger, now);
+          if (run) started.push(run);
+        }
+      }
+
+      // Forget schedules whose trigger was removed
+      for (const key of this.schedules.keys()) {
+        if (!seen.has(key)) this.schedules.delete(key);
+      }
+      return started;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private tickSafely(): void {
+    this.tick().catch((err) => {
+      log.error({ err }, 'Workflow schedule tick failed');
+    });
+  }
+
+  private async checkSchedule(
+    key: string,
+    workflow: WorkflowDefinition,
+    trigger: WorkflowTrigger,
+    now: Date
+  ): Promise<WorkflowRun | null> {
+    const timezone = trigger.timezone ?? 'UTC';
+    const spec = `${trigger.cron} ${timezone}`;
+    let state = this.schedules.get(key);
+
+    // First sighting (or an edited schedule): wait for the next occurrence
+    if (!state || state.spec !== spec) {
+      state = { spec, nextRunAt: nextCronRun(trigger.cron!, now, timezone) };
+      this.schedules.set(key, state);
+      return null;
+    }
+    if (!state.nextRunAt || state.nextRunAt > now) return null;
+
+    const scheduledFor = state.nextRunAt.toISOString();
+    state.nextRunAt = nextCronRun(trigger.cron!, now, timezone);
+
+    if (state.lastRunId) {
+      const previous = await this.runs.getRun(state.lastRunId).catch(() => null);
+      if (previous && ACTIVE_RUN_STATUSES.has(previous.status)) {
+        log.warn(
+          { workflowId: workflow.id, triggerId: trigger.id, runId: previous.id },
+          'Skipping scheduled run: previous run still active'
+        );
+        return null;
+      }
+    }
+
+    try {
+      const run = await this.runs.startRun(
+        workflow.id,
+        undefined,
+        { trigger: { id: trigger.id, type: trigger.type, scheduledFor } },
+        this.runTrigger(trigger, trigger.cron)
+      );
+      state.lastRunId = run.id;
+      return run;
+    } catch (err) {
+      log.error(
+        { workflowId: workflow.id, triggerId: trigger.id, err },
+        'Failed to start scheduled workflow run'
+      );
+      return null;
+    }
+  }
+
+  private findTaskTrigger(
+    workflow: WorkflowDefinition,
+    events: LifecycleEvent[],
+    previous: Task | undefined,
+    task: Task
+  ): { trigger: WorkflowTrigger; event: string } | null {
+    for (const trigger of workflow.triggers ?? []) {
+      if (trigger.enabled === false || !matchesFilter(trigger.filter, task)) continue;
+
+      if (trigger.type === 'event' && trigger.event && events.includes(trigger.event)) {
+        return { trigger, event: trigger.event };
+      }
+
+      if (
+        trigger.type === 'status' &&
+        previous &&
+        previous.status !== task.status &&
+        trigger.to?.includes(task.status) &&
+        (!trigger.from?.length || trigger.from.includes(previous.status))
+      ) {
+        return { trigger, event: `${previous.status} -> ${task.status}` };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start a run, skipping it when the workflow already has an active run for
+   * the task
+   */
+  private async startTaskRun(
+    workflowId: string,
+    trigger: WorkflowTrigger,
+    event: string,
+    taskId?: string,
+    payload?: Record<string, unknown>
+  ): Promise<TriggerResult> {
+    const context = { trigger: { id: trigger.id, type: trigger.type, event, payload } };
+    if (!taskId) {
+      const run = await this.runs.startRun(
+        workflowId,
+        undefined,
+        context,
+        this.runTrigger(trigger, event)
+      );
+      return { run };
+    }
+
+    const key = `${workflowId}:${taskId}`;
+    if (this.starting.has(key)) {
+      return { skipped: `A run of ${workflowId} is already starting for task ${taskId}` };
+    }
+
+    this.starting.add(key);
+    try {
+      const existing = await this.runs.listRunsMetadata({ workflowId, taskId });
+      const active = existing.find((r) => ACTIVE_RUN_STATUSES.has(r.status));
+      if (active) {
+        log.info(
+          { workflowId, taskId, triggerId: trigger.id, runId: active.id },
+          'Skipping triggered run: task already has an active run'
+        );
+        return {
+          skipped: `Run ${active.id} of ${workflowId} is already active for task ${taskId}`,
+        };
+      }
+
+      const run = await this.runs.startRun(
+        workflowId,
+        taskId,
+        context,
+        this.runTrigger(trigger, event)
+      );
+      log.info({ workflowId, taskId, triggerId: trigger.id, event }, 'Triggered workflow run');
+      return { run };
+    } finally {
+      this.starting.delete(key);
+    }
+  }
+
+  private runTrigger(trigger: WorkflowTrigger, event?: string): WorkflowRunTrigger {
+    return { id: trigger.id, type: trigger.type, event, firedAt: new Date().toISOString() };
+  }
+}
+
+// Singleton
+let instance: WorkflowTriggerService | null = null;
+
+export function getWorkflowTriggerService(): WorkflowTriggerService {
+  if (!instance) {
+    instance = new WorkflowTriggerService();
+  }
+  return instance;
+}
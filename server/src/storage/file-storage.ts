@@ -104,6 +104,14 @@ export class FileTaskRepository implements TaskRepository {
         t.id.toLowerCase().includes(lower)
     );
   }
+
+  async findArchived(): Promise<Task[]> {
+    return this.service.listArchivedTasks();
+  }
+
+  async import(task: Task, options?: { archived?: boolean }): Promise<void> {
+    return this.service.importTask(task, options);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -154,6 +162,10 @@ export class FileActivityRepository implements ActivityRepository {
   async clearActivities(): Promise<void> {
     return this.service.clearActivities();
   }
+
+  async importActivities(activities: Activity[]): Promise<void> {
+    return this.service.importActivities(activities);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -186,6 +198,10 @@ export class FileTemplateRepository implements TemplateRepository {
   async deleteTemplate(id: string): Promise<boolean> {
     return this.service.deleteTemplate(id);
   }
+
+  async importTemplate(template: TaskTemplate): Promise<void> {
+    return this.service.importTemplate(template);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -234,6 +250,10 @@ export class FileStatusHistoryRepository implements StatusHistoryRepository {
   async clearHistory(): Promise<void> {
     return this.service.clearHistory();
   }
+
+  async importHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    return this.service.importHistory(entries);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -295,7 +315,7 @@ export class FileManagedListProvider implements ManagedListProvider {
   create<T extends ManagedListItem>(
     config: import('../services/managed-list-service.js').ManagedListServiceConfig<T>
   ): ManagedListRepository<T> {
-    const service = new ManagedListService<T>(config);
+    const service = new ManagedListService<T>(config, null);
     return new FileManagedListRepository(service);
   }
 }
@@ -347,6 +367,10 @@ export class FileTelemetryRepository implements TelemetryRepository {
     return this.service.clear();
   }
 
+  async importEvents(events: AnyTelemetryEvent[]): Promise<void> {
+    return this.service.importEvents(events);
+  }
+
   async flush(): Promise<void> {
     return this.service.flush();
   }
@@ -399,11 +423,16 @@ export class FileStorageProvider implements StorageProvider {
   private telemetryService: TelemetryService;
 
   constructor(options: FileStorageOptions = {}) {
-    this.telemetryService = new TelemetryService(options.telemetryServiceOptions);
+    // The file backend is the services themselves, whatever VERITAS_STORAGE says
+    this.telemetryService = new TelemetryService({
+      ...(options.telemetryServiceOptions || {}),
+      repository: null,
+    });
 
     this.taskService = new TaskService({
       ...(options.taskServiceOptions || {}),
       telemetryService: this.telemetryService,
+      repository: null,
     });
     this.configService = new ConfigService(options.configServiceOptions);
     this.activityService = new ActivityService();
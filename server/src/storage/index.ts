@@ -4,13 +4,14 @@
  * Usage:
  *   import { initStorage, getStorage } from './storage/index.js';
  *
- *   await initStorage('file');          // call once at startup
- *   const storage = getStorage();       // anywhere in the app
+ *   await initStorage(resolveStorageType()); // once at startup (VERITAS_STORAGE)
+ *   const storage = getStorage();            // anywhere in the app
  *   const tasks   = await storage.tasks.findAll();
  */
 
 import type { StorageProvider } from './interfaces.js';
 import { FileStorageProvider, type FileStorageOptions } from './file-storage.js';
+import { SqliteStorageProvider, type SqliteStorageOptions } from './sqlite-storage.js';
 
 export type {
   TaskRepository,
@@ -35,36 +36,67 @@ export {
   FileTelemetryRepository,
 } from './file-storage.js';
 export type { FileStorageOptions } from './file-storage.js';
+export {
+  SqliteStorageProvider,
+  SqliteConnection,
+  SqliteTaskRepository,
+  SqliteSettingsRepository,
+  SqliteActivityRepository,
+  SqliteTemplateRepository,
+  SqliteStatusHistoryRepository,
+  SqliteManagedListRepository,
+  SqliteManagedListProvider,
+  SqliteTelemetryRepository,
+} from './sqlite-storage.js';
+export type { SqliteStorageOptions } from './sqlite-storage.js';
+export { copyStorage, MANAGED_LIST_FILES } from './migrate.js';
+export type { CopyStorageOptions, CopyStorageReport } from './migrate.js';
 
 // ---------------------------------------------------------------------------
 // Supported backend types (extend this union as new backends are added)
 // ---------------------------------------------------------------------------
-export type StorageType = 'file';
+export type StorageType = 'file' | 'sqlite';
+
+/** Backend selected by the VERITAS_STORAGE env var (default: `'file'`). */
+export function resolveStorageType(): StorageType {
+  const value = process.env.VERITAS_STORAGE?.trim().toLowerCase();
+  if (!value || value === 'file') return 'file';
+  if (value === 'sqlite') return 'sqlite';
+  throw new Error(`Unknown storage type in VERITAS_STORAGE: ${value}`);
+}
 
 // ---------------------------------------------------------------------------
 // Module-level singleton
 // ---------------------------------------------------------------------------
 let activeProvider: StorageProvider | null = null;
+let resolveReady: (provider: StorageProvider) => void = () => {};
+let ready = pendingProvider();
+
+function pendingProvider(): Promise<StorageProvider> {
+  return new Promise((resolve) => {
+    resolveReady = resolve;
+  });
+}
 
 /**
  * Initialise the storage layer.
  *
- * @param type    Backend type – currently only `'file'`.
+ * @param type    Backend type – `'file'` or `'sqlite'`.
  * @param options Backend-specific options forwarded to the provider.
  */
 export async function initStorage(
   type: StorageType = 'file',
-  options?: FileStorageOptions
+  options?: FileStorageOptions | SqliteStorageOptions
 ): Promise<void> {
   // Shut down any previously-active provider
-  if (activeProvider) {
-    await activeProvider.shutdown();
-    activeProvider = null;
-  }
+  await shutdownStorage();
 
   switch (type) {
     case 'file':
-      activeProvider = new FileStorageProvider(options);
+      activeProvider = new FileStorageProvider(options as FileStorageOptions);
+      break;
+    case 'sqlite':
+      activeProvider = new SqliteStorageProvider(options as SqliteStorageOptions);
       break;
     default: {
       // Exhaustive check – compile error if a new StorageType is added
@@ -75,6 +107,7 @@ export async function initStorage(
   }
 
   await activeProvider.initialize();
+  resolveReady(activeProvider);
 }
 
 /**
@@ -88,3 +121,23 @@ export function getStorage(): StorageProvider {
   }
   return activeProvider;
 }
+
+/**
+ * Resolve with the active provider once `initStorage` has finished.
+ *
+ * Services created at import time use this to reach the backend selected at
+ * startup without racing the initialisation.
+ */
+export function whenStorageReady(): Promise<StorageProvider> {
+  return ready;
+}
+
+/**
+ * Shut down the active provider, if any. Safe to call more than once.
+ */
+export async function shutdownStorage(): Promise<void> {
+  if (!activeProvider) return;
+  await activeProvider.shutdown();
+  activeProvider = null;
+  ready = pendingProvider();
+}
@@ -3,8 +3,11 @@
  *
  * These define a backend-agnostic contract for persisting tasks and settings.
  * The first concrete implementation wraps the existing file-based services;
- * future implementations (SQLite, PostgreSQL, S3, …) can be added without
- * touching business logic.
+ * `sqlite-storage.ts` is a second, self-contained backend. Further backends
+ * (PostgreSQL, S3, …) can be added without touching business logic.
+ *
+ * The `import*` / `findArchived` methods exist so `storage/migrate.ts` can copy
+ * data between backends losslessly (IDs and timestamps are preserved).
  */
 
 import type {
@@ -50,6 +53,12 @@ export interface TaskRepository {
 
   /** Full-text(-ish) search over tasks. */
   search(query: string): Promise<Task[]>;
+
+  /** Return every archived task. */
+  findArchived(): Promise<Task[]>;
+
+  /** Write a task verbatim (keeps ID and timestamps). Used by storage migrations. */
+  import(task: Task, options?: { archived?: boolean }): Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -83,6 +92,9 @@ export interface ActivityRepository {
 
   /** Delete all activity entries. */
   clearActivities(): Promise<void>;
+
+  /** Replace all entries with the given ones (newest-first). Used by storage migrations. */
+  importActivities(activities: Activity[]): Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -104,6 +116,9 @@ export interface TemplateRepository {
 
   /** Delete a template by ID. Returns true if deleted, false if not found. */
   deleteTemplate(id: string): Promise<boolean>;
+
+  /** Write a template verbatim (keeps ID and timestamps). Used by storage migrations. */
+  importTemplate(template: TaskTemplate): Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -134,6 +149,9 @@ export interface StatusHistoryRepository {
 
   /** Delete all history entries. */
   clearHistory(): Promise<void>;
+
+  /** Replace all entries with the given ones (newest-first). Used by storage migrations. */
+  importHistory(entries: StatusHistoryEntry[]): Promise<void>;
 }
 
 // ---------------------------------------------------------------------------
@@ -211,6 +229,9 @@ export interface TelemetryRepository {
   /** Delete all events. */
   clear(): Promise<void>;
 
+  /** Append events verbatim (keeps IDs and timestamps). Used by storage migrations. */
+  importEvents(events: AnyTelemetryEvent[]): Promise<void>;
+
   /** Wait for pending writes to complete. */
   flush(): Promise<void>;
 
@@ -0,0 +1,100 @@
+/**
+ * Copy all data from one StorageProvider to another.
+ *
+ * Backend-agnostic: works file → sqlite, sqlite → file, or between any two
+ * future backends. IDs and timestamps are preserved. Both providers must
+ * already be initialised; the caller owns their lifecycle.
+ */
+
+import type { ManagedListItem } from '@veritas-kanban/shared';
+import type { StorageProvider } from './interfaces.js';
+import { createLogger } from '../lib/logger.js';
+import { getRuntimeDir } from '../utils/paths.js';
+
+const log = createLogger('storage-migrate');
+
+/** Managed lists known to the app (see project/sprint/task-type services) */
+export const MANAGED_LIST_FILES = ['projects.json', 'sprints.json', 'task-types.json'] as const;
+
+/** Upper bound for capped collections (matches the services' own caps) */
+const MAX_COLLECTION_ENTRIES = 5000;
+
+export interface CopyStorageOptions {
+  /** Directory holding the managed-list JSON files (file backend only; default: runtime dir). */
+  managedListDir?: string;
+}
+
+export interface CopyStorageReport {
+  tasks: number;
+  archivedTasks: number;
+  settings: boolean;
+  activities: number;
+  statusHistory: number;
+  templates: number;
+  managedLists: Record<string, number>;
+  telemetryEvents: number;
+}
+
+export async function copyStorage(
+  source: StorageProvider,
+  target: StorageProvider,
+  options: CopyStorageOptions = {}
+): Promise<CopyStorageReport> {
+  const managedListDir = options.managedListDir || getRuntimeDir();
+
+  const report: CopyStorageReport = {
+    tasks: 0,
+    archivedTasks: 0,
+    settings: false,
+    activities: 0,
+    statusHistory: 0,
+    templates: 0,
+    managedLists: {},
+    telemetryEvents: 0,
+  };
+
+  for (const task of await source.tasks.findAll()) {
+    await target.tasks.import(task);
+    report.tasks++;
+  }
+  for (const task of await source.tasks.findArchived()) {
+    await target.tasks.import(task, { archived: true });
+    report.archivedTasks++;
+  }
+  log.info({ tasks: report.tasks, archived: report.archivedTasks }, 'Copied tasks');
+
+  await target.settings.update(await source.settings.get());
+  report.settings = true;
+
+  const activities = await source.activities.getActivities(MAX_COLLECTION_ENTRIES);
+  await target.activities.importActivities(activities);
+  report.activities = activities.length;
+
+  const history = await source.statusHistory.getHistory(MAX_COLLECTION_ENTRIES);
+  await target.statusHistory.importHistory(history);
+  report.statusHistory = history.length;
+
+  for (const template of await source.templates.getTemplates()) {
+    await target.templates.importTemplate(template);
+    report.templates++;
+  }
+
+  for (const filename of MANAGED_LIST_FILES) {
+    const config = { filename, configDir: managedListDir, defaults: [] as ManagedListItem[] };
+    const items = await source.managedLists.create(config).list(true);
+    const targetList = target.managedLists.create(config);
+    for (const item of items) {
+      await targetList.seedItem(item);
+    }
+    report.managedLists[filename] = items.length;
+  }
+
+  // Oldest-first so append-only backends keep chronological order
+  const events = await source.telemetry.getEvents();
+  await target.telemetry.importEvents([...events].reverse());
+  await target.telemetry.flush();
+  report.telemetryEvents = events.length;
+
+  log.info({ report }, 'Storage copy complete');
+  return report;
+}
@@ -0,0 +1,1133 @@
+/**
+ * SQLite-based StorageProvider implementation.
+ *
+ * Everything lives in a single database file (default:
+ * `.veritas-kanban/veritas.db`, override with VERITAS_SQLITE_PATH).
+ * Uses the built-in `node:sqlite` module (Node 22+), loaded lazily in
+ * `initialize()` so the file backend keeps working on older runtimes.
+ *
+ * Task search is backed by an FTS5 index ranked with bm25 — title matches
+ * weigh more than description matches, which weigh more than comments.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from 'node:sqlite';
+import {
+  DEFAULT_FEATURE_SETTINGS,
+  type Task,
+  type FeatureSettings,
+  type TaskTemplate,
+  type CreateTemplateInput,
+  type UpdateTemplateInput,
+  type ManagedListItem,
+  type TelemetryEvent,
+  type TelemetryEventType,
+  type TelemetryConfig,
+  type TelemetryQueryOptions,
+  type AnyTelemetryEvent,
+} from '@veritas-kanban/shared';
+import type {
+  TaskRepository,
+  SettingsRepository,
+  StorageProvider,
+  ActivityRepository,
+  TemplateRepository,
+  StatusHistoryRepository,
+  ManagedListRepository,
+  ManagedListProvider,
+  TelemetryRepository,
+} from './interfaces.js';
+import { mergeFeatureSettings } from '../services/config-service.js';
+import type { Activity, ActivityType } from '../services/activity-service.js';
+import {
+  buildDailySummary,
+  type StatusHistoryEntry,
+  type DailySummary,
+  type AgentStatusState,
+} from '../services/status-history-service.js';
+import type { ManagedListServiceConfig } from '../services/managed-list-service.js';
+import { telemetryEventsToCsv } from '../services/telemetry-service.js';
+import { ConflictError } from '../middleware/error-handler.js';
+import { getRuntimeDir } from '../utils/paths.js';
+import { createLogger } from '../lib/logger.js';
+
+const log = createLogger('sqlite-storage');
+
+/** Same caps as the file-based services */
+const MAX_ACTIVITIES = 5000;
+const MAX_STATUS_ENTRIES = 5000;
+
+/** Keep IN (...) lists well below SQLite's bound-parameter limit */
+const IN_CHUNK_SIZE = 500;
+
+type Row = Record<string, SQLOutputValue>;
+type Param = SQLInputValue | undefined | boolean;
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Ordered schema migrations. `PRAGMA user_version` records how many have
+ * been applied — append new entries, never edit existing ones.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE tasks (
+    id          TEXT PRIMARY KEY,
+    title       TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    status      TEXT NOT NULL,
+    type        TEXT,
+    priority    TEXT,
+    project     TEXT,
+    sprint      TEXT,
+    archived    INTEGER NOT NULL DEFAULT 0,
+    created     TEXT NOT NULL,
+    updated     TEXT NOT NULL,
+    data        TEXT NOT NULL
+  );
+  CREATE INDEX idx_tasks_archived_updated ON tasks (archived, updated DESC);
+  CREATE INDEX idx_tasks_status ON tasks (status);
+  CREATE INDEX idx_tasks_project ON tasks (project);
+  CREATE INDEX idx_tasks_sprint ON tasks (sprint);
+
+  CREATE VIRTUAL TABLE tasks_fts USING fts5(
+    id UNINDEXED,
+    title,
+    description,
+    comments,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TABLE settings (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE activities (
+    seq       INTEGER PRIMARY KEY AUTOINCREMENT,
+    id        TEXT NOT NULL UNIQUE,
+    type      TEXT NOT NULL,
+    task_id   TEXT,
+    agent     TEXT,
+    timestamp TEXT NOT NULL,
+    data      TEXT NOT NULL
+  );
+  CREATE INDEX idx_activities_timestamp ON activities (timestamp DESC);
+
+  CREATE TABLE templates (
+    id   TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE status_history (
+    seq       INTEGER PRIMARY KEY AUTOINCREMENT,
+    id        TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    data      TEXT NOT NULL
+  );
+  CREATE INDEX idx_status_history_timestamp ON status_history (timestamp DESC);
+
+  CREATE TABLE managed_lists (
+    list     TEXT NOT NULL,
+    id       TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data     TEXT NOT NULL,
+    PRIMARY KEY (list, id)
+  );
+  CREATE TABLE managed_list_meta (
+    list      TEXT PRIMARY KEY,
+    seeded_at TEXT NOT NULL
+  );
+
+  CREATE TABLE telemetry_events (
+    id        TEXT PRIMARY KEY,
+    type      TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    task_id   TEXT,
+    project   TEXT,
+    data      TEXT NOT NULL
+  );
+  CREATE INDEX idx_telemetry_timestamp ON telemetry_events (timestamp DESC);
+  CREATE INDEX idx_telemetry_type_timestamp ON telemetry_events (type, timestamp);
+  CREATE INDEX idx_telemetry_task ON telemetry_events (task_id);
+  `,
+];
+
+// ---------------------------------------------------------------------------
+// SqliteConnection — owns the database handle, shared by all repositories
+// ---------------------------------------------------------------------------
+
+export class SqliteConnection {
+  readonly dbPath: string;
+  private handle: DatabaseSync | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async open(): Promise<void> {
+    if (this.handle) return;
+
+    const { DatabaseSync } = await import('node:sqlite');
+    if (this.dbPath !== ':memory:') {
+      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+    }
+
+    const db = new DatabaseSync(this.dbPath);
+    db.exec('PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;');
+    this.handle = db;
+    this.migrate();
+  }
+
+  close(): void {
+    this.handle?.close();
+    this.handle = null;
+  }
+
+  get db(): DatabaseSync {
+    if (!this.handle) {
+      throw new Error('SQLite storage is not open. Call initialize() first.');
+    }
+    return this.handle;
+  }
+
+  all(sql: string, ...params: Param[]): Row[] {
+    return this.db.prepare(sql).all(...params.map(toSqlValue));
+  }
+
+  get(sql: string, ...params: Param[]): Row | undefined {
+    return this.db.prepare(sql).get(...params.map(toSqlValue));
+  }
+
+  run(sql: string, ...params: Param[]): number {
+    return Number(this.db.prepare(sql).run(...params.map(toSqlValue)).changes);
+  }
+
+  /** Run `fn` inside a transaction; rolls back if it throws. */
+  transaction<T>(fn: () => T): T {
+    this.db.exec('BEGIN');
+    try {
+      const result = fn();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  private migrate(): void {
+    const row = this.get('PRAGMA user_version');
+    const current = Number(row?.user_version ?? 0);
+
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      this.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.exec(`PRAGMA user_version = ${version + 1}`);
+      });
+      log.info({ version: version + 1, dbPath: this.dbPath }, 'Applied SQLite schema migration');
+    }
+  }
+}
+
+function toSqlValue(value: Param): SQLInputValue {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+function parseData<T>(row: Row): T {
+  return JSON.parse(String(row.data)) as T;
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// ---------------------------------------------------------------------------
+// SqliteTaskRepository
+// ---------------------------------------------------------------------------
+
+export class SqliteTaskRepository implements TaskRepository {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  async findAll(): Promise<Task[]> {
+    return this.conn
+      .all('SELECT data FROM tasks WHERE archived = 0 ORDER BY updated DESC')
+      .map((row) => parseData<Task>(row));
+  }
+
+  async findById(id: string): Promise<Task | null> {
+    const row = this.conn.get('SELECT data FROM tasks WHERE id = ?', id);
+    return row ? parseData<Task>(row) : null;
+  }
+
+  async create(task: Task): Promise<Task> {
+    const now = new Date().toISOString();
+    const created: Task = {
+      ...task,
+      id: task.id || this.generateId(),
+      created: task.created || now,
+      updated: now,
+    };
+
+    if (this.conn.get('SELECT 1 FROM tasks WHERE id = ?', created.id)) {
+      throw new ConflictError(`Task already exists: ${created.id}`);
+    }
+
+    this.conn.transaction(() => this.write(created, false));
+    return created;
+  }
+
+  async update(id: string, updates: Partial<Task>): Promise<Task> {
+    const row = this.conn.get('SELECT archived, data FROM tasks WHERE id = ?', id);
+    if (!row) {
+      throw new Error(`Task not found: ${id}`);
+    }
+
+    const updated: Task = {
+      ...parseData<Task>(row),
+      ...updates,
+      id,
+      updated: new Date().toISOString(),
+    };
+    this.conn.transaction(() => this.write(updated, row.archived === 1));
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    const deleted = this.conn.transaction(() => {
+      this.conn.run('DELETE FROM tasks_fts WHERE id = ?', id);
+      return this.conn.run('DELETE FROM tasks WHERE id = ?', id);
+    });
+    if (deleted === 0) {
+      throw new Error(`Task not found: ${id}`);
+    }
+  }
+
+  /**
+   * Ranked full-text search over active tasks. Every word in the query must
+   * match (as a prefix); tasks whose ID contains the query are appended.
+   */
+  async search(query: string): Promise<Task[]> {
+    const terms = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    const results: Task[] = [];
+    const seen = new Set<string>();
+
+    if (terms.length > 0) {
+      const match = terms.map((term) => `"${term}"*`).join(' ');
+      const rows = this.conn.all(
+        `SELECT t.id, t.data FROM tasks_fts f
+           JOIN tasks t ON t.id = f.id
+          WHERE tasks_fts MATCH ? AND t.archived = 0
+          ORDER BY bm25(tasks_fts, 0.0, 10.0, 4.0, 1.0), t.updated DESC`,
+        match
+      );
+      for (const row of rows) {
+        seen.add(String(row.id));
+        results.push(parseData<Task>(row));
+      }
+    }
+
+    const trimmed = query.trim();
+    if (trimmed) {
+      const escaped = trimmed.replace(/[\\%_]/g, (c) => `\\${c}`);
+      const rows = this.conn.all(
+        `SELECT id, data FROM tasks WHERE archived = 0 AND id LIKE ? ESCAPE '\\' ORDER BY updated DESC`,
+        `%${escaped}%`
+      );
+      for (const row of rows) {
+        if (!seen.has(String(row.id))) results.push(parseData<Task>(row));
+      }
+    }
+
+    return results;
+  }
+
+  async findArchived(): Promise<Task[]> {
+    return this.conn
+      .all('SELECT data FROM tasks WHERE archived = 1 ORDER BY updated DESC')
+      .map((row) => parseData<Task>(row));
+  }
+
+  async import(task: Task, options?: { archived?: boolean }): Promise<void> {
+    this.conn.transaction(() => this.write(task, options?.archived ?? false));
+  }
+
+  private write(task: Task, archived: boolean): void {
+    this.conn.run(
+      `INSERT INTO tasks (id, title, description, status, type, priority, project, sprint, archived, created, updated, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         title = excluded.title, description = excluded.description, status = excluded.status,
+         type = excluded.type, priority = excluded.priority, project = excluded.project,
+         sprint = excluded.sprint, archived = excluded.archived, created = excluded.created,
+         updated = excluded.updated, data = excluded.data`,
+      task.id,
+      task.title,
+      task.description || '',
+      task.status,
+      task.type,
+      task.priority,
+      task.project,
+      task.sprint,
+      archived,
+      task.created,
+      task.updated,
+      JSON.stringify(task)
+    );
+
+    this.conn.run('DELETE FROM tasks_fts WHERE id = ?', task.id);
+    this.conn.run(
+      'INSERT INTO tasks_fts (id, title, description, comments) VALUES (?, ?, ?, ?)',
+      task.id,
+      task.title,
+      task.description || '',
+      (task.comments || []).map((c) => c.text).join('\n')
+    );
+  }
+
+  private generateId(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `task_${date}_${nanoid(6)}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteSettingsRepository
+// ---------------------------------------------------------------------------
+
+export class SqliteSettingsRepository implements SettingsRepository {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  async get(): Promise<FeatureSettings> {
+    const row = this.conn.get("SELECT value FROM settings WHERE key = 'features'");
+    const stored = row ? (JSON.parse(String(row.value)) as Record<string, unknown>) : {};
+    return mergeFeatureSettings(DEFAULT_FEATURE_SETTINGS, stored);
+  }
+
+  async update(settings: Partial<FeatureSettings>): Promise<FeatureSettings> {
+    const merged = mergeFeatureSettings(await this.get(), settings as Record<string, unknown>);
+    this.conn.run(
+      `INSERT INTO settings (key, value) VALUES ('features', ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      JSON.stringify(merged)
+    );
+    return merged;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteActivityRepository
+// ---------------------------------------------------------------------------
+
+export class SqliteActivityRepository implements ActivityRepository {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  async getActivities(limit = 50): Promise<Activity[]> {
+    return this.conn
+      .all('SELECT data FROM activities ORDER BY timestamp DESC, seq DESC LIMIT ?', limit)
+      .map((row) => parseData<Activity>(row));
+  }
+
+  async logActivity(
+    type: ActivityType,
+    taskId: string,
+    taskTitle: string,
+    details?: Record<string, unknown>,
+    agent?: string
+  ): Promise<Activity> {
+    const activity: Activity = {
+      id: `activity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      taskId,
+      taskTitle,
+      ...(agent && { agent }),
+      details,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.conn.transaction(() => {
+      this.insert(activity);
+      this.trim();
+    });
+    return activity;
+  }
+
+  async clearActivities(): Promise<void> {
+    this.conn.run('DELETE FROM activities');
+  }
+
+  async importActivities(activities: Activity[]): Promise<void> {
+    this.conn.transaction(() => {
+      this.conn.run('DELETE FROM activities');
+      // Insert oldest-first so insertion order matches chronology
+      for (const activity of [...activities].reverse()) {
+        this.insert(activity);
+      }
+      this.trim();
+    });
+  }
+
+  private insert(activity: Activity): void {
+    this.conn.run(
+      'INSERT INTO activities (id, type, task_id, agent, timestamp, data) VALUES (?, ?, ?, ?, ?, ?)',
+      activity.id,
+      activity.type,
+      activity.taskId,
+      activity.agent,
+      activity.timestamp,
+      JSON.stringify(activity)
+    );
+  }
+
+  private trim(): void {
+    this.conn.run(
+      `DELETE FROM activities WHERE seq NOT IN (
+         SELECT seq FROM activities ORDER BY timestamp DESC, seq DESC LIMIT ?
+       )`,
+      MAX_ACTIVITIES
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteTemplateRepository
+// ---------------------------------------------------------------------------
+
+export class SqliteTemplateRepository implements TemplateRepository {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  async getTemplates(): Promise<TaskTemplate[]> {
+    return this.conn
+      .all('SELECT data FROM templates')
+      .map((row) => parseData<TaskTemplate>(row))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTemplate(id: string): Promise<TaskTemplate | null> {
+    const row = this.conn.get('SELECT data FROM templates WHERE id = ?', id);
+    return row ? parseData<TaskTemplate>(row) : null;
+  }
+
+  async createTemplate(input: CreateTemplateInput): Promise<TaskTemplate> {
+    const now = new Date().toISOString();
+    const template: TaskTemplate = {
+      id: `template_${slugify(input.name)}_${Date.now()}`,
+      name: input.name,
+      description: input.description,
+      category: input.category,
+      version: 1,
+      taskDefaults: input.taskDefaults,
+      subtaskTemplates: input.subtaskTemplates,
+      blueprint: input.blueprint,
+      created: now,
+      updated: now,
+    };
+
+    await this.importTemplate(template);
+    return template;
+  }
+
+  async updateTemplate(id: string, input: UpdateTemplateInput): Promise<TaskTemplate | null> {
+    const existing = await this.getTemplate(id);
+    if (!existing) return null;
+
+    const updated: TaskTemplate = {
+      ...existing,
+      name: input.name ?? existing.name,
+      description: input.description ?? existing.description,
+      category: input.category ?? existing.category,
+      version: existing.version,
+      taskDefaults: {
+        ...existing.taskDefaults,
+        ...input.taskDefaults,
+      },
+      subtaskTemplates: input.subtaskTemplates ?? existing.subtaskTemplates,
+      blueprint: input.blueprint ?? existing.blueprint,
+      updated: new Date().toISOString(),
+    };
+
+    await this.importTemplate(updated);
+    return updated;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.conn.run('DELETE FROM templates WHERE id = ?', id) > 0;
+  }
+
+  async importTemplate(template: TaskTemplate): Promise<void> {
+    this.conn.run(
+      `INSERT INTO templates (id, name, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, data = excluded.data`,
+      template.id,
+      template.name,
+      JSON.stringify(template)
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteStatusHistoryRepository
+// ---------------------------------------------------------------------------
+
+export class SqliteStatusHistoryRepository implements StatusHistoryRepository {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  async getHistory(limit = 100, offset = 0): Promise<StatusHistoryEntry[]> {
+    return this.conn
+      .all(
+        'SELECT data FROM status_history ORDER BY timestamp DESC, seq DESC LIMIT ? OFFSET ?',
+        limit,
+        offset
+      )
+      .map((row) => parseData<StatusHistoryEntry>(row));
+  }
+
+  async logStatusChange(
+    previousStatus: AgentStatusState,
+    newStatus: AgentStatusState,
+    taskId?: string,
+    taskTitle?: string,
+    subAgentCount?: number
+  ): Promise<StatusHistoryEntry> {
+    const now = new Date();
+    const [lastEntry] = await this.getHistory(1);
+
+    const entry: StatusHistoryEntry = {
+      id: `status_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: now.toISOString(),
+      previousStatus,
+      newStatus,
+      taskId,
+      taskTitle,
+      subAgentCount,
+      durationMs: lastEntry ? now.getTime() - new Date(lastEntry.timestamp).getTime() : undefined,
+    };
+
+    this.conn.transaction(() => {
+      this.insert(entry);
+      this.trim();
+    });
+    return entry;
+  }
+
+  async getHistoryByDateRange(startDate: string, endDate: string): Promise<StatusHistoryEntry[]> {
+    return this.conn
+      .all(
+        `SELECT data FROM status_history WHERE timestamp >= ? AND timestamp <= ?
+         ORDER BY timestamp DESC, seq DESC`,
+        new Date(startDate).toISOString(),
+        new Date(endDate).toISOString()
+      )
+      .map((row) => parseData<StatusHistoryEntry>(row));
+  }
+
+  async getDailySummary(date?: string): Promise<DailySummary> {
+    const targetDate = date || new Date().toISOString().split('T')[0];
+    const startOfDay = `${targetDate}T00:00:00.000Z`;
+
+    const entries = await this.getHistoryByDateRange(startOfDay, `${targetDate}T23:59:59.999Z`);
+
+    let lastBeforeDay: StatusHistoryEntry | undefined;
+    if (entries.length === 0) {
+      const row = this.conn.get(
+        'SELECT data FROM status_history WHERE timestamp < ? ORDER BY timestamp DESC, seq DESC LIMIT 1',
+        startOfDay
+      );
+      lastBeforeDay = row ? parseData<StatusHistoryEntry>(row) : undefined;
+    }
+
+    return buildDailySummary(targetDate, entries, lastBeforeDay);
+  }
+
+  async getWeeklySummary(): Promise<DailySummary[]> {
+    const summaries: DailySummary[] = [];
+    const today = new Date();
+
+    for (let i = 0; i < 7; i++) {
+      const date = new Date(today);
+      date.setDate(date.getDate() - i);
+      summaries.push(await this.getDailySummary(date.toISOString().split('T')[0]));
+    }
+
+    return summaries;
+  }
+
+  async clearHistory(): Promise<void> {
+    this.conn.run('DELETE FROM status_history');
+  }
+
+  async importHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    this.conn.transaction(() => {
+      this.conn.run('DELETE FROM status_history');
+      for (const entry of [...entries].reverse()) {
+        this.insert(entry);
+      }
+      this.trim();
+    });
+  }
+
+  private insert(entry: StatusHistoryEntry): void {
+    this.conn.run(
+      'INSERT INTO status_history (id, timestamp, data) VALUES (?, ?, ?)',
+      entry.id,
+      entry.timestamp,
+      JSON.stringify(entry)
+    );
+  }
+
+  private trim(): void {
+    this.conn.run(
+      `DELETE FROM status_history WHERE seq NOT IN (
+         SELECT seq FROM status_history ORDER BY timestamp DESC, seq DESC LIMIT ?
+       )`,
+      MAX_STATUS_ENTRIES
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteManagedListRepository / Provider
+// ---------------------------------------------------------------------------
+
+/**
+ * Managed lists are keyed by their config filename (e.g. `projects.json`)
+ * so the same configs drive both backends.
+ */
+export class SqliteManagedListRepository<
+  T extends ManagedListItem,
+> implements ManagedListRepository<T> {
+  private conn: SqliteConnection;
+  private listName: string;
+  private defaults: T[];
+  private referenceCounter?: (id: string) => Promise<number>;
+
+  constructor(conn: SqliteConnection, config: ManagedListServiceConfig<T>) {
+    this.conn = conn;
+    this.listName = config.filename;
+    this.defaults = config.defaults;
+    this.referenceCounter = config.referenceCounter;
+  }
+
+  /** Seed defaults the first time the list is used */
+  async init(): Promise<void> {
+    const seeded = this.conn.get('SELECT 1 FROM managed_list_meta WHERE list = ?', this.listName);
+    if (seeded) return;
+
+    this.conn.transaction(() => {
+      this.defaults.forEach((item) => this.write(item));
+      this.markSeeded();
+    });
+  }
+
+  async list(includeHidden = false): Promise<T[]> {
+    await this.init();
+    const items = this.all().sort((a, b) => a.order - b.order);
+    return includeHidden ? items : items.filter((item) => !item.isHidden);
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.init();
+    const row = this.conn.get(
+      'SELECT data FROM managed_lists WHERE list = ? AND id = ?',
+      this.listName,
+      id
+    );
+    return row ? parseData<T>(row) : null;
+  }
+
+  async create(input: Omit<T, 'order' | 'created' | 'updated'> & { id?: string }): Promise<T> {
+    await this.init();
+
+    const now = new Date().toISOString();
+    const id =
+      input.id || `${slugify((input as Pick<ManagedListItem, 'label'>).label)}-${nanoid(6)}`;
+
+    if (await this.get(id)) {
+      throw new Error(`Item with id '${id}' already exists`);
+    }
+
+    const items = this.all();
+    const maxOrder = items.length > 0 ? Math.max(...items.map((item) => item.order)) : -1;
+    const newItem = { ...input, id, order: maxOrder + 1, created: now, updated: now } as T;
+
+    this.write(newItem);
+    return newItem;
+  }
+
+  async seedItem(item: T): Promise<T> {
+    this.conn.transaction(() => {
+      this.write(item);
+      this.markSeeded();
+    });
+    return item;
+  }
+
+  async update(id: string, patch: Partial<T>): Promise<T | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const updated: T = { ...existing, ...patch, id, updated: new Date().toISOString() };
+    this.write(updated);
+    return updated;
+  }
+
+  async canDelete(
+    id: string
+  ): Promise<{ allowed: boolean; referenceCount: number; isDefault: boolean }> {
+    const item = await this.get(id);
+    if (!item) {
+      return { allowed: false, referenceCount: 0, isDefault: false };
+    }
+
+    const referenceCount = this.referenceCounter ? await this.referenceCounter(id) : 0;
+    return { allowed: referenceCount === 0, referenceCount, isDefault: item.isDefault || false };
+  }
+
+  async delete(id: string, force = false): Promise<{ deleted: boolean; referenceCount?: number }> {
+    if (!(await this.get(id))) {
+      return { deleted: false };
+    }
+
+    if (!force && this.referenceCounter) {
+      const referenceCount = await this.referenceCounter(id);
+      if (referenceCount > 0) {
+        return { deleted: false, referenceCount };
+      }
+    }
+
+    this.conn.run('DELETE FROM managed_lists WHERE list = ? AND id = ?', this.listName, id);
+    return { deleted: true };
+  }
+
+  async reorder(orderedIds: string[]): Promise<T[]> {
+    await this.init();
+
+    const orderMap = new Map(orderedIds.map((id, index) => [id, index]));
+    const now = new Date().toISOString();
+    const items = this.all();
+
+    this.conn.transaction(() => {
+      for (const item of items) {
+        const newOrder = orderMap.get(item.id);
+        if (newOrder !== undefined) {
+          item.order = newOrder;
+          item.updated = now;
+          this.write(item);
+        }
+      }
+    });
+
+    return items.sort((a, b) => a.order - b.order);
+  }
+
+  private all(): T[] {
+    return this.conn
+      .all('SELECT data FROM managed_lists WHERE list = ?', this.listName)
+      .map((row) => parseData<T>(row));
+  }
+
+  private write(item: T): void {
+    this.conn.run(
+      `INSERT INTO managed_lists (list, id, position, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT(list, id) DO UPDATE SET position = excluded.position, data = excluded.data`,
+      this.listName,
+      item.id,
+      item.order,
+      JSON.stringify(item)
+    );
+  }
+
+  private markSeeded(): void {
+    this.conn.run(
+      'INSERT OR IGNORE INTO managed_list_meta (list, seeded_at) VALUES (?, ?)',
+      this.listName,
+      new Date().toISOString()
+    );
+  }
+}
+
+export class SqliteManagedListProvider implements ManagedListProvider {
+  private conn: SqliteConnection;
+
+  constructor(conn: SqliteConnection) {
+    this.conn = conn;
+  }
+
+  create<T extends ManagedListItem>(config: ManagedListServiceConfig<T>): ManagedListRepository<T> {
+    return new SqliteManagedListRepository(this.conn, config);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteTelemetryRepository
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TELEMETRY_CONFIG: TelemetryConfig = {
+  enabled: true,
+  retention: 30,
+  traces: false,
+};
+
+export class SqliteTelemetryRepository implements TelemetryRepository {
+  private conn: SqliteConnection;
+  private config: TelemetryConfig;
+
+  constructor(conn: SqliteConnection, config?: Partial<TelemetryConfig>) {
+    this.conn = conn;
+
+    const envRetention = parseInt(process.env.TELEMETRY_RETENTION_DAYS || '', 10);
+    this.config = {
+      ...DEFAULT_TELEMETRY_CONFIG,
+      ...config,
+      ...(!isNaN(envRetention) && envRetention > 0 ? { retention: envRetention } : {}),
+    };
+  }
+
+  /** Drop events older than the retention period */
+  async init(): Promise<void> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - this.config.retention);
+    const deleted = this.conn.run(
+      'DELETE FROM telemetry_events WHERE timestamp < ?',
+      cutoff.toISOString().slice(0, 10)
+    );
+    if (deleted > 0) {
+      log.info(
+        `[Telemetry] Cleanup: deleted ${deleted} events (retention=${this.config.retention}d)`
+      );
+    }
+  }
+
+  async emit<T extends TelemetryEvent>(
+    event: Omit<T, 'id' | 'timestamp'> & { timestamp?: string }
+  ): Promise<T> {
+    const fullEvent = {
+      ...event,
+      id: this.config.enabled ? `evt_${nanoid(12)}` : `disabled_${nanoid(8)}`,
+      timestamp: event.timestamp ?? new Date().toISOString(),
+    } as T;
+
+    if (this.config.enabled) {
+      this.insert(fullEvent);
+    }
+    return fullEvent;
+  }
+
+  async getEvents(options: TelemetryQueryOptions = {}): Promise<AnyTelemetryEvent[]> {
+    const { type, since, until, taskId, project, limit } = options;
+    const where: string[] = [];
+    const params: Param[] = [];
+
+    if (type) {
+      const types = Array.isArray(type) ? type : [type];
+      where.push(`type IN (${placeholders(types.length)})`);
+      params.push(...types);
+    }
+    if (since) {
+      where.push('timestamp >= ?');
+      params.push(since);
+    }
+    if (until) {
+      where.push('timestamp <= ?');
+      params.push(until);
+    }
+    if (taskId) {
+      where.push('task_id = ?');
+      params.push(taskId);
+    }
+    if (project) {
+      where.push('project = ?');
+      params.push(project);
+    }
+
+    let sql = 'SELECT data FROM telemetry_events';
+    if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+    sql += ' ORDER BY timestamp DESC';
+    if (limit) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    return this.conn.all(sql, ...params).map((row) => parseData<AnyTelemetryEvent>(row));
+  }
+
+  async getTaskEvents(taskId: string): Promise<AnyTelemetryEvent[]> {
+    return this.getEvents({ taskId });
+  }
+
+  async getBulkTaskEvents(taskIds: string[]): Promise<Map<string, AnyTelemetryEvent[]>> {
+    const result = new Map<string, AnyTelemetryEvent[]>();
+    for (const taskId of taskIds) {
+      result.set(taskId, []);
+    }
+
+    for (let i = 0; i < taskIds.length; i += IN_CHUNK_SIZE) {
+      const chunk = taskIds.slice(i, i + IN_CHUNK_SIZE);
+      const rows = this.conn.all(
+        `SELECT task_id, data FROM telemetry_events WHERE task_id IN (${placeholders(chunk.length)})
+         ORDER BY timestamp DESC`,
+        ...chunk
+      );
+      for (const row of rows) {
+        result.get(String(row.task_id))?.push(parseData<AnyTelemetryEvent>(row));
+      }
+    }
+
+    return result;
+  }
+
+  async getEventsSince(since: string): Promise<AnyTelemetryEvent[]> {
+    return this.getEvents({ since });
+  }
+
+  async countEvents(
+    type: TelemetryEventType | TelemetryEventType[],
+    since?: string,
+    until?: string
+  ): Promise<number> {
+    const types = Array.isArray(type) ? type : [type];
+    const params: Param[] = [...types];
+    let sql = `SELECT COUNT(*) AS count FROM telemetry_events WHERE type IN (${placeholders(types.length)})`;
+    if (since) {
+      sql += ' AND timestamp >= ?';
+      params.push(since);
+    }
+    if (until) {
+      sql += ' AND timestamp <= ?';
+      params.push(until);
+    }
+    return Number(this.conn.get(sql, ...params)?.count ?? 0);
+  }
+
+  async clear(): Promise<void> {
+    this.conn.run('DELETE FROM telemetry_events');
+  }
+
+  async importEvents(events: AnyTelemetryEvent[]): Promise<void> {
+    this.conn.transaction(() => {
+      for (const event of events) {
+        this.insert(event);
+      }
+    });
+  }
+
+  /** Writes are synchronous — nothing is ever pending */
+  async flush(): Promise<void> {}
+
+  async exportAsJson(options: TelemetryQueryOptions = {}): Promise<string> {
+    return JSON.stringify(await this.getEvents(options), null, 2);
+  }
+
+  async exportAsCsv(options: TelemetryQueryOptions = {}): Promise<string> {
+    return telemetryEventsToCsv(await this.getEvents(options));
+  }
+
+  configure(config: Partial<TelemetryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): TelemetryConfig {
+    return { ...this.config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  private insert(event: TelemetryEvent): void {
+    this.conn.run(
+      `INSERT OR REPLACE INTO telemetry_events (id, type, timestamp, task_id, project, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      event.id,
+      event.type,
+      event.timestamp,
+      event.taskId,
+      event.project,
+      JSON.stringify(event)
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteStorageProvider
+// ---------------------------------------------------------------------------
+
+export interface SqliteStorageOptions {
+  /** Database file path, or `:memory:`. Defaults to VERITAS_SQLITE_PATH or `<runtime>/veritas.db`. */
+  dbPath?: string;
+  telemetryConfig?: Partial<TelemetryConfig>;
+}
+
+export class SqliteStorageProvider implements StorageProvider {
+  readonly tasks: SqliteTaskRepository;
+  readonly settings: SqliteSettingsRepository;
+  readonly activities: SqliteActivityRepository;
+  readonly templates: SqliteTemplateRepository;
+  readonly statusHistory: SqliteStatusHistoryRepository;
+  readonly managedLists: SqliteManagedListProvider;
+  readonly telemetry: SqliteTelemetryRepository;
+
+  private conn: SqliteConnection;
+
+  constructor(options: SqliteStorageOptions = {}) {
+    const dbPath =
+      options.dbPath || process.env.VERITAS_SQLITE_PATH || path.join(getRuntimeDir(), 'veritas.db');
+    this.conn = new SqliteConnection(dbPath);
+
+    this.tasks = new SqliteTaskRepository(this.conn);
+    this.settings = new SqliteSettingsRepository(this.conn);
+    this.activities = new SqliteActivityRepository(this.conn);
+    this.templates = new SqliteTemplateRepository(this.conn);
+    this.statusHistory = new SqliteStatusHistoryRepository(this.conn);
+    this.managedLists = new SqliteManagedListProvider(this.conn);
+    this.telemetry = new SqliteTelemetryRepository(this.conn, options.telemetryConfig);
+  }
+
+  get dbPath(): string {
+    return this.conn.dbPath;
+  }
+
+  async initialize(): Promise<void> {
+    await this.conn.open();
+    await this.telemetry.init();
+    log.info({ dbPath: this.conn.dbPath }, 'SQLite storage initialised');
+  }
+
+  async shutdown(): Promise<void> {
+    this.conn.close();
+  }
+}
@@ -5,6 +5,8 @@
  * Architecture: /Users/bradgroux/Projects/veritas-kanban/docs/WORKFLOW_ENGINE_ARCHITECTURE.md
  */
 
+import type { LifecycleEvent } from '../services/lifecycle-hooks-service.js';
+
 // ==================== Workflow Definition Types ====================
 
 export interface WorkflowDefinition {
@@ -17,20 +19,47 @@ export interface WorkflowDefinition {
   steps: WorkflowStep[];
   variables?: Record<string, unknown>;
   schemas?: Record<string, unknown>;
+  triggers?: WorkflowTrigger[];
 }
 
 export interface WorkflowConfig {
-  timeout?: number; // seconds
+  timeout?: number; // seconds; run deadline, restarted when a blocked run resumes
   fresh_session_default?: boolean;
   progress_file?: string;
   telemetry_tags?: string[];
 }
 
+export type WorkflowTriggerType = 'event' | 'status' | 'schedule' | 'webhook';
+
+/**
+ * Starts a run automatically. Task-bound triggers (event, status) bind the
+ * run to the task; a workflow never has two active runs for the same task.
+ */
+export interface WorkflowTrigger {
+  id: string;
+  type: WorkflowTriggerType;
+  enabled?: boolean; // default: true
+  event?: LifecycleEvent; // type=event
+  from?: string[]; // type=status: previous statuses (any when omitted)
+  to?: string[]; // type=status: new statuses
+  filter?: WorkflowTriggerFilter; // type=event|status
+  cron?: string; // type=schedule: 5-field cron expression
+  timezone?: string; // type=schedule: IANA timezone (default: UTC)
+}
+
+/** Task fields a trigger must match; each list matches any of its values */
+export interface WorkflowTriggerFilter {
+  task_types?: string[];
+  projects?: string[];
+  priorities?: string[];
+}
+
 export interface WorkflowAgent {
   id: string;
   name: string;
   role: string; // maps to toolPolicy
   model?: string; // default model for this agent
+  agent_type?: string; // AgentConfig.type used to run this agent (defaults to config.defaultAgent)
   description: string;
   tools?: string[]; // Phase 2: Tool restrictions (#110)
 }
@@ -48,14 +77,19 @@ export interface WorkflowStep {
   output?: StepOutput;
   acceptance_criteria?: string[];
   on_fail?: FailurePolicy;
-  timeout?: number;
+  timeout?: number; // seconds; step deadline (per iteration for loop steps)
+
+  // Scheduling
+  depends_on?: string[]; // Step IDs that must finish first (default: the previous step)
+  when?: string; // Expression; the step is skipped when it evaluates false
 
   // Loop-specific config
   loop?: LoopConfig;
 
   // Gate-specific config
   condition?: string; // Jinja2 expression evaluating to boolean
-  on_false?: EscalationPolicy;
+  on_true?: GateRoute;
+  on_false?: EscalationPolicy | GateRoute;
 
   // Parallel-specific config (Phase 4)
   parallel?: ParallelConfig;
@@ -80,6 +114,15 @@ export interface EscalationPolicy {
   escalate_message?: string;
 }
 
+/**
+ * Gate outcome that continues at another step. Routing to an upstream step
+ * re-runs it and everything downstream of it; routing past steps skips them.
+ */
+export interface GateRoute {
+  goto: string; // Step ID
+  max_visits?: number; // Times the route may be taken per run before the gate fails (default: 10)
+}
+
 export interface LoopConfig {
   over: string; // Jinja2 expression returning array
   item_var?: string; // Variable name for current item (default: "item")
@@ -97,8 +140,8 @@ export interface LoopConfig {
 export interface ParallelConfig {
   steps: ParallelSubStep[]; // Sub-steps to execute in parallel
   completion: 'all' | 'any' | number; // Wait for all, any, or N sub-steps
-  fail_fast?: boolean; // If true, abort others when one fails (default: true)
-  timeout?: number; // Max time to wait for parallel steps (seconds)
+  fail_fast?: boolean; // If true, abort the others once completion can no longer be met (default: true)
+  timeout?: number; // Max time to wait for parallel steps (seconds); outstanding sub-steps are aborted
 }
 
 export interface ParallelSubStep {
@@ -111,8 +154,20 @@ export interface ParallelSubStep {
 
 // ==================== Workflow Run Types ====================
 
-export type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed';
-export type StepRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type WorkflowRunStatus =
+  | 'pending'
+  | 'running'
+  | 'blocked'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+export type StepRunStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled';
 
 export interface WorkflowRun {
   id: string; // run_<timestamp>_<nanoid>
@@ -126,9 +181,17 @@ export interface WorkflowRun {
   completedAt?: string;
   lastCheckpoint?: string; // Phase 2: Last state persistence timestamp (#113)
   error?: string;
+  trigger?: WorkflowRunTrigger; // Set when a workflow trigger started the run
   steps: StepRun[];
 }
 
+export interface WorkflowRunTrigger {
+  id: string; // WorkflowTrigger.id
+  type: WorkflowTriggerType;
+  event?: string; // Lifecycle event or status transition that fired it
+  firedAt: string;
+}
+
 export interface StepRun {
   stepId: string;
   status: StepRunStatus;
@@ -147,9 +210,20 @@ export interface StepRun {
     currentIteration: number;
     completedIterations: number;
     failedIterations: number;
+    verifyResults?: LoopVerifyResult[]; // One entry per verified attempt (verify_each)
   };
 }
 
+export interface LoopVerifyResult {
+  iteration: number; // 1-based
+  attempt: number; // 1-based; > 1 when the iteration was retried after failing verification
+  passed: boolean;
+  decision?: string; // e.g. "approved" / "rejected" when the verify agent reports one
+  output?: string; // Path to the verify step output file
+  error?: string;
+  verifiedAt: string;
+}
+
 // ==================== Tool Policy Types ====================
 
 export interface ToolPolicy {
@@ -169,11 +243,101 @@ export interface StepSessionConfig {
   includeOutputsFrom?: string[]; // step names for 'custom' context mode
 }
 
+// ==================== Agent Runner Types ====================
+
+export interface ToolFilter {
+  allowed?: string[];
+  denied?: string[];
+}
+
+export interface AgentRunRequest {
+  runId: string;
+  stepId: string;
+  agentId: string; // Workflow agent ID
+  agentType?: string; // AgentConfig.type to execute with
+  model?: string;
+  prompt: string;
+  taskId?: string;
+  toolFilter: ToolFilter;
+  timeout: number; // seconds
+}
+
+export type AgentRunStatus = 'completed' | 'failed' | 'timeout' | 'cancelled';
+
+export interface AgentRunResult {
+  sessionKey: string;
+  status: AgentRunStatus;
+  output: string;
+  exitCode?: number | null;
+  error?: string;
+}
+
+/**
+ * Pluggable backend that actually executes agent sessions for workflow steps.
+ * A session may span several prompts when a step uses `session.mode: reuse`.
+ */
+export interface AgentRunner {
+  readonly name: string;
+  /** Start a new session and send the first prompt. Returns the session key. */
+  spawn(request: AgentRunRequest): Promise<string>;
+  /** Send another prompt to an existing, idle session */
+  continueSession(sessionKey: string, prompt: string, request: AgentRunRequest): Promise<void>;
+  /** Whether the runner still holds state for a session (e.g. not lost on restart) */
+  hasSession(sessionKey: string): boolean;
+  /** Wait for the current prompt to finish, or time out after `timeoutMs` */
+  wait(sessionKey: string, timeoutMs: number): Promise<AgentRunResult>;
+  /** Abort the current prompt, if one is running */
+  cancel(sessionKey: string): Promise<void>;
+  /** Release all resources held for the session */
+  cleanup(sessionKey: string): Promise<void>;
+}
+
 // ==================== Step Execution Types ====================
 
 export interface StepExecutionResult {
   output: unknown; // Parsed output (for context passing)
   outputPath: string; // Path to output file
+  route?: GateRoute; // Gate outcome routing (on_true/on_false goto)
+}
+
+// ==================== Simulation Types ====================
+
+export interface WorkflowSimulationInput {
+  taskId?: string; // Task loaded into context.task (read only)
+  context?: Record<string, unknown>; // Fixture context merged over the workflow variables
+  outputs?: Record<string, string | string[]>; // Canned agent output per step ID, consumed in order
+}
+
+export interface WorkflowSimulation {
+  workflowId: string;
+  workflowVersion: number;
+  status: WorkflowRunStatus;
+  error?: string;
+  prompts: SimulatedPrompt[]; // Every prompt sent to an agent, in order
+  gates: SimulatedGate[];
+  loops: SimulatedLoop[];
+  steps: StepRun[];
+  context: Record<string, unknown>; // Final run context
+}
+
+export interface SimulatedPrompt {
+  stepId: string; // Parallel sub-steps use <parent>-<sub-step>
+  agentId: string;
+  prompt: string; // Rendered prompt
+}
+
+export interface SimulatedGate {
+  stepId: string;
+  condition: string;
+  passed?: boolean; // Unset when the run never reached the gate
+  goto?: string; // Route taken
+}
+
+export interface SimulatedLoop {
+  stepId: string;
+  iterations: number;
+  completed: number;
+  failed: number;
 }
 
 // ==================== RBAC & Audit Types ====================
@@ -192,11 +356,24 @@ export interface WorkflowACL {
 export interface WorkflowAuditEvent {
   timestamp: string;
   userId: string;
-  action: 'create' | 'edit' | 'delete' | 'run';
+  action: 'create' | 'edit' | 'delete' | 'run' | 'rollback';
   workflowId: string;
   workflowVersion?: number;
   changes?: Array<{ field: string; oldValue: unknown; newValue: unknown }>;
   runId?: string;
+  restoredVersion?: number; // rollback: the version whose content was restored
+}
+
+/** A saved workflow version, described by the audit record that created it */
+export interface WorkflowVersionSummary {
+  version: number;
+  name: string;
+  current: boolean;
+  savedAt?: string;
+  savedBy?: string;
+  action?: WorkflowAuditEvent['action'];
+  restoredVersion?: number;
+  changes?: WorkflowAuditEvent['changes'];
 }
 
 // ==================== Validation Error Types ====================
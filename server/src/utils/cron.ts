@@ -0,0 +1,312 @@
+/**
+ * Cron Expression Utility
+ * Parses standard 5-field cron expressions and computes next run times
+ * in an IANA timezone (DST-aware, no external dependencies).
+ *
+ *   ┌──────── minute        0-59
+ *   │ ┌────── hour          0-23
+ *   │ │ ┌──── day of month  1-31
+ *   │ │ │ ┌── month         1-12 or JAN-DEC
+ *   │ │ │ │ ┌ day of week   0-7 or SUN-SAT (0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`10-30/5`, or `*` followed
+ * by `/N`) and the macros @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly.
+ * When both day fields are restricted, a day matches if EITHER matches (Vixie cron).
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** False when the day-of-month field is `*` */
+  domRestricted: boolean;
+  /** False when the day-of-week field is `*` */
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+/** Give up searching after this many years without a match (e.g. `0 0 30 2 *`) */
+const MAX_SEARCH_YEARS = 5;
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names) {
+    const index = spec.names.indexOf(upper);
+    if (index !== -1) return index + (spec.nameOffset ?? 0);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...extra] = part.split('/');
+    if (extra.length > 0 || rangePart === '') {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || Number(stepPart) === 0) {
+        throw new Error(`Invalid step "${stepPart}" in ${spec.name} field`);
+      }
+      step = Number(stepPart);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to, ...rest] = rangePart.split('-');
+      if (rest.length > 0) throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid range "${rangePart}" in ${spec.name} field`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // `5/15` means "from 5 to max every 15"
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws an Error describing the first problem found.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: !fields[2].startsWith('*'),
+    dowRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/** Returns an error message, or null when the expression is valid. */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── Timezone helpers ────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of `instant` in `timeZone`, encoded as a UTC timestamp
+ * (so Date's UTC getters return the local fields).
+ */
+function toWallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to an instant. Returns null when the
+ * wall time does not exist (skipped by a DST transition). Ambiguous times
+ * (repeated by a DST transition) resolve to the first occurrence.
+ */
+function fromWallClock(wall: number, timeZone: string): number | null {
+  const offsetAt = (instant: number) => toWallClock(instant, timeZone) - instant;
+
+  // Try both offsets around the wall time; prefer the earlier instant
+  const candidates = [offsetAt(wall - 12 * 3_600_000), offsetAt(wall + 12 * 3_600_000)]
+    .map((offset) => wall - offset)
+    .sort((a, b) => a - b);
+
+  for (const instant of candidates) {
+    if (toWallClock(instant, timeZone) === wall) return instant;
+  }
+  return null;
+}
+
+// ─── Matching ────────────────────────────────────────────────────
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) return domMatch || dowMatch;
+  if (schedule.domRestricted) return domMatch;
+  if (schedule.dowRestricted) return dowMatch;
+  return true;
+}
+
+/** Next matching wall-clock minute strictly after `wall`, or null */
+function nextWallMatch(schedule: CronSchedule, wall: number): number | null {
+  const date = new Date(wall);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return null;
+}
+
+/**
+ * Compute the next run strictly after `after`, evaluated in `timeZone`
+ * (default: UTC). Returns null if the expression never matches.
+ */
+export function nextCronRun(
+  schedule: CronSchedule | string,
+  after: Date,
+  timeZone = 'UTC'
+): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  let wall = toWallClock(after.getTime(), timeZone);
+
+  // Loop only repeats for wall times skipped by DST
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const match = nextWallMatch(parsed, wall);
+    if (match === null) return null;
+
+    const instant = fromWallClock(match, timeZone);
+    if (instant !== null && instant > after.getTime()) return new Date(instant);
+    wall = match;
+  }
+
+  return null;
+}
@@ -0,0 +1,25 @@
+/**
+ * CSV helpers shared by the telemetry and task exports.
+ */
+
+/**
+ * Escape a field for CSV (handles commas, quotes, newlines)
+ */
+export function escapeCsvField(field: string): string {
+  let sanitized = field;
+  // Prevent formula injection in spreadsheet applications
+  if (/^[=+\-@]/.test(sanitized)) {
+    sanitized = `'${sanitized}`;
+  }
+  if (sanitized.includes(',') || sanitized.includes('"') || sanitized.includes('\n')) {
+    return `"${sanitized.replace(/"/g, '""')}"`;
+  }
+  return sanitized;
+}
+
+/**
+ * Render a header row plus data rows, escaping every cell
+ */
+export function toCsv(headers: string[], rows: string[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\n');
+}
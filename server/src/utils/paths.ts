@@ -127,6 +127,11 @@ export function getTasksAttachmentsDir(): string {
   return path.join(getStorageRoot(), 'tasks', 'attachments');
 }
 
+/** Absolute path to the task revision history directory (tasks/revisions). */
+export function getTasksRevisionsDir(): string {
+  return path.join(getStorageRoot(), 'tasks', 'revisions');
+}
+
 // ---------------------------------------------------------------------------
 // Telemetry / traces / logs / worktrees / templates
 // ---------------------------------------------------------------------------
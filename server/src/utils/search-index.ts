@@ -0,0 +1,206 @@
+/**
+ * Search Index Utility
+ * In-memory inverted index with BM25F ranking over boosted fields
+ */
+
+import { tokenize } from './search-query.js';
+
+export interface SearchDocument {
+  id: string;
+  fields: Record<string, string>; // Field name → raw text
+}
+
+export interface SearchIndexQuery {
+  terms: string[];
+  phrases: string[][];
+  prefix?: boolean; // The last term matches as a prefix
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  matchedFields: string[]; // Fields containing a query term, highest boost first
+}
+
+export interface SearchIndexOptions {
+  boosts: Record<string, number>; // Field weights; fields without one are not indexed
+  k1?: number;
+  b?: number;
+}
+
+interface IndexedDocument {
+  tokens: Record<string, string[]>; // Field → tokens in order (for phrase matching)
+  terms: Set<string>;
+}
+
+/** Prefix expansions considered for the term being typed */
+const MAX_PREFIX_EXPANSIONS = 50;
+
+export class SearchIndex {
+  private boosts: Record<string, number>;
+  private fields: string[];
+  private k1: number;
+  private b: number;
+  private documents = new Map<string, IndexedDocument>();
+  /** Term → document ID → term frequency per field */
+  private postings = new Map<string, Map<string, Record<string, number>>>();
+  private fieldLengthTotals: Record<string, number> = {};
+
+  constructor(options: SearchIndexOptions) {
+    this.boosts = options.boosts;
+    this.fields = Object.keys(options.boosts).sort((a, b) => options.boosts[b] - options.boosts[a]);
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Add a document, replacing any previous version with the same ID
+   */
+  add(doc: SearchDocument): void {
+    this.remove(doc.id);
+
+    const indexed: IndexedDocument = { tokens: {}, terms: new Set() };
+    for (const field of this.fields) {
+      const tokens = tokenize(doc.fields[field] ?? '');
+      indexed.tokens[field] = tokens;
+      this.fieldLengthTotals[field] = (this.fieldLengthTotals[field] ?? 0) + tokens.length;
+
+      for (const token of tokens) {
+        indexed.terms.add(token);
+        let docs = this.postings.get(token);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token, docs);
+        }
+        let frequencies = docs.get(doc.id);
+        if (!frequencies) {
+          frequencies = {};
+          docs.set(doc.id, frequencies);
+        }
+        frequencies[field] = (frequencies[field] ?? 0) + 1;
+      }
+    }
+    this.documents.set(doc.id, indexed);
+  }
+
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) return;
+
+    for (const field of this.fields) {
+      this.fieldLengthTotals[field] -= indexed.tokens[field].length;
+    }
+    for (const term of indexed.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+  }
+
+  /**
+   * Documents containing every term and phrase, best match first. `accept`
+   * filters documents before they are scored.
+   */
+  search(query: SearchIndexQuery, accept?: (id: string) => boolean): SearchHit[] {
+    const phraseTerms = query.phrases.flat();
+    if (query.terms.length === 0 && phraseTerms.length === 0) return [];
+
+    // Each required term, with the prefix term expanded to the indexed terms it starts
+    const required: string[][] = query.terms.map((term, i) =>
+      query.prefix && i === query.terms.length - 1 ? this.expandPrefix(term) : [term]
+    );
+    for (const term of phraseTerms) required.push([term]);
+
+    // Candidates: documents holding the rarest requirement, checked against the rest
+    const postingsFor = (alternatives: string[]) =>
+      alternatives.flatMap((term) => {
+        const docs = this.postings.get(term);
+        return docs ? [docs] : [];
+      });
+    const candidates = required
+      .map(postingsFor)
+      .sort((a, b) => countDocs(a) - countDocs(b))[0]
+      .flatMap((docs) => [...docs.keys()]);
+
+    const hits: SearchHit[] = [];
+    for (const id of new Set(candidates)) {
+      if (accept && !accept(id)) continue;
+      if (!required.every((alternatives) => postingsFor(alternatives).some((d) => d.has(id)))) {
+        continue;
+      }
+      const doc = this.documents.get(id)!;
+      if (!query.phrases.every((phrase) => this.containsPhrase(doc, phrase))) continue;
+
+      const matched = new Set<string>();
+      let score = 0;
+      for (const alternatives of required) {
+        let best = 0;
+        for (const term of alternatives) {
+          const frequencies = this.postings.get(term)?.get(id);
+          if (!frequencies) continue;
+          for (const field of Object.keys(frequencies)) matched.add(field);
+          best = Math.max(best, this.scoreTerm(term, frequencies, doc));
+        }
+        score += best;
+      }
+
+      hits.push({ id, score, matchedFields: this.fields.filter((f) => matched.has(f)) });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * BM25F: field frequencies are length-normalized and boosted before
+   * saturation, so a title hit outweighs several body hits
+   */
+  private scoreTerm(
+    term: string,
+    frequencies: Record<string, number>,
+    doc: IndexedDocument
+  ): number {
+    const total = this.documents.size;
+    const docFrequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (total - docFrequency + 0.5) / (docFrequency + 0.5));
+
+    let weighted = 0;
+    for (const [field, tf] of Object.entries(frequencies)) {
+      const averageLength = this.fieldLengthTotals[field] / total || 1;
+      const normalization = 1 - this.b + (this.b * doc.tokens[field].length) / averageLength;
+      weighted += (this.boosts[field] * tf) / normalization;
+    }
+    return (idf * weighted * (this.k1 + 1)) / (weighted + this.k1);
+  }
+
+  private containsPhrase(doc: IndexedDocument, phrase: string[]): boolean {
+    return this.fields.some((field) => {
+      const tokens = doc.tokens[field];
+      for (let i = 0; i + phrase.length <= tokens.length; i++) {
+        if (phrase.every((term, j) => tokens[i + j] === term)) return true;
+      }
+      return false;
+    });
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    const expansions = [prefix];
+    for (const term of this.postings.keys()) {
+      if (expansions.length >= MAX_PREFIX_EXPANSIONS) break;
+      if (term !== prefix && term.startsWith(prefix)) expansions.push(term);
+    }
+    return expansions;
+  }
+}
+
+function countDocs(postings: Array<Map<string, unknown>>): number {
+  return postings.reduce((sum, docs) => sum + docs.size, 0);
+}
@@ -0,0 +1,80 @@
+/**
+ * Search Query Utility
+ * Tokenizer and query-syntax parser shared by the search index and service
+ *
+ * Syntax: free terms, "exact phrases" and `key:value` filters, e.g.
+ *   status:blocked project:api agent:amp "rate limit" retry
+ * Filter values may be quoted (`project:"mobile app"`) or comma-separated
+ * (`status:todo,blocked`); repeated keys are OR'ed.
+ */
+
+export const SEARCH_FILTER_KEYS = [
+  'status',
+  'project',
+  'agent',
+  'type',
+  'priority',
+  'sprint',
+  'is',
+] as const;
+
+export type SearchFilterKey = (typeof SEARCH_FILTER_KEYS)[number];
+
+export interface ParsedSearchQuery {
+  terms: string[]; // Tokenized free terms (all must match)
+  phrases: string[][]; // Tokenized exact phrases (all must match)
+  filters: Partial<Record<SearchFilterKey, string[]>>; // Lowercased filter values
+  prefix: boolean; // The last term is still being typed and matches as a prefix
+}
+
+/**
+ * Split text into lowercase, accent-folded word tokens
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
+
+function isFilterKey(key: string): key is SearchFilterKey {
+  return (SEARCH_FILTER_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Parse a search query string. Unknown `key:value` pairs are searched as text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], filters: {}, prefix: false };
+  const pattern = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+  let lastTokenIsTerm = false;
+
+  for (const match of query.matchAll(pattern)) {
+    const [, quotedKey, quotedValue, key, value, phrase, word] = match;
+    const filterKey = (quotedKey ?? key)?.toLowerCase();
+    lastTokenIsTerm = false;
+
+    if (filterKey && isFilterKey(filterKey)) {
+      const raw = quotedValue !== undefined ? [quotedValue] : value.split(',');
+      const values = raw.map((v) => v.trim().toLowerCase()).filter(Boolean);
+      if (values.length > 0) {
+        parsed.filters[filterKey] = [...(parsed.filters[filterKey] ?? []), ...values];
+      }
+    } else if (phrase !== undefined) {
+      const tokens = tokenize(phrase);
+      if (tokens.length > 1) parsed.phrases.push(tokens);
+      else parsed.terms.push(...tokens);
+    } else {
+      const tokens = tokenize(word ?? match[0]);
+      parsed.terms.push(...tokens);
+      lastTokenIsTerm = tokens.length > 0;
+    }
+  }
+
+  // Search-as-you-type: a trailing word without whitespace after it is a prefix
+  parsed.prefix = lastTokenIsTerm && !/\s$/.test(query);
+  return parsed;
+}
@@ -54,32 +54,51 @@ export function diffWorkflows(
     });
   }
 
-  // Agent changes
-  if (JSON.stringify(oldWorkflow.agents) !== JSON.stringify(newWorkflow.agents)) {
-    changes.push({
-      field: 'agents',
-      oldValue: `${oldWorkflow.agents.length} agents`,
-      newValue: `${newWorkflow.agents.length} agents`,
-    });
-  }
+  // Agent and step changes, per ID
+  changes.push(...diffById('agents', oldWorkflow.agents, newWorkflow.agents));
+  changes.push(...diffById('steps', oldWorkflow.steps, newWorkflow.steps));
 
-  // Step changes
-  if (JSON.stringify(oldWorkflow.steps) !== JSON.stringify(newWorkflow.steps)) {
-    changes.push({
-      field: 'steps',
-      oldValue: `${oldWorkflow.steps.length} steps`,
-      newValue: `${newWorkflow.steps.length} steps`,
-    });
+  // Variable, schema and trigger changes
+  for (const field of ['variables', 'schemas', 'triggers'] as const) {
+    if (JSON.stringify(oldWorkflow[field]) !== JSON.stringify(newWorkflow[field])) {
+      changes.push({ field, oldValue: oldWorkflow[field], newValue: newWorkflow[field] });
+    }
   }
 
-  // Variable changes
-  if (JSON.stringify(oldWorkflow.variables) !== JSON.stringify(newWorkflow.variables)) {
-    changes.push({
-      field: 'variables',
-      oldValue: oldWorkflow.variables,
-      newValue: newWorkflow.variables,
-    });
+  return changes;
+}
+
+/**
+ * Compare two lists of items with IDs. Added items have a null oldValue,
+ * removed items a null newValue; a reorder is reported as `<field>.order`.
+ */
+function diffById<T extends { id: string }>(
+  field: string,
+  oldItems: T[],
+  newItems: T[]
+): WorkflowChange[] {
+  const changes: WorkflowChange[] = [];
+  const oldById = new Map(oldItems.map((item) => [item.id, item]));
+  const newById = new Map(newItems.map((item) => [item.id, item]));
+
+  for (const item of oldItems) {
+    const updated = newById.get(item.id);
+    if (!updated) {
+      changes.push({ field: `${field}.${item.id}`, oldValue: item, newValue: null });
+    } else if (JSON.stringify(item) !== JSON.stringify(updated)) {
+      changes.push({ field: `${field}.${item.id}`, oldValue: item, newValue: updated });
+    }
+  }
+  for (const item of newItems) {
+    if (!oldById.has(item.id)) {
+      changes.push({ field: `${field}.${item.id}`, oldValue: null, newValue: item });
+    }
   }
 
+  const oldOrder = oldItems.map((item) => item.id).filter((id) => newById.has(id));
+  const newOrder = newItems.map((item) => item.id).filter((id) => oldById.has(id));
+  if (oldOrder.join() !== newOrder.join()) {
+    changes.push({ field: `${field}.order`, oldValue: oldOrder, newValue: newOrder });
+  }
   return changes;
 }
@@ -0,0 +1,138 @@
+/**
+ * Workflow Graph Utility
+ * Step dependency graph shared by workflow validation and run scheduling
+ */
+
+import type {
+  EscalationPolicy,
+  GateRoute,
+  WorkflowDefinition,
+  WorkflowStep,
+} from '../types/workflow.js';
+
+/** Step ID → IDs of the steps it waits for */
+export type StepDependencies = Map<string, string[]>;
+
+/**
+ * Whether a gate outcome routes to another step (rather than escalating)
+ */
+export function isGateRoute(policy: EscalationPolicy | GateRoute | undefined): policy is GateRoute {
+  return !!policy && typeof (policy as GateRoute).goto === 'string';
+}
+
+/**
+ * Steps run by a loop after each iteration (loop.verify_each) — they are
+ * executed by the loop, not scheduled on their own
+ */
+export function getVerifyStepIds(workflow: WorkflowDefinition): Set<string> {
+  const ids = new Set<string>();
+  for (const step of workflow.steps) {
+    if (step.loop?.verify_each && step.loop.verify_step) {
+      ids.add(step.loop.verify_step);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Resolve each scheduled step's dependencies: its `depends_on` list, or the
+ * previous scheduled step when `depends_on` is omitted (so workflows without
+ * dependencies keep running in array order). Verify steps are left out.
+ */
+export function getStepDependencies(workflow: WorkflowDefinition): StepDependencies {
+  const verifySteps = getVerifyStepIds(workflow);
+  const dependencies: StepDependencies = new Map();
+  let previous: WorkflowStep | undefined;
+
+  for (const step of workflow.steps) {
+    if (verifySteps.has(step.id)) continue;
+    dependencies.set(step.id, step.depends_on ?? (previous ? [previous.id] : []));
+    previous = step;
+  }
+  return dependencies;
+}
+
+/**
+ * All steps that transitively depend on `stepId`
+ */
+export function getDownstreamSteps(dependencies: StepDependencies, stepId: string): Set<string> {
+  const downstream = new Set<string>();
+  const pending = [stepId];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const [id, deps] of dependencies) {
+      if (deps.includes(current) && !downstream.has(id)) {
+        downstream.add(id);
+        pending.push(id);
+      }
+    }
+  }
+  return downstream;
+}
+
+/**
+ * Find a dependency cycle, returned as the step IDs along it with the first
+ * step repeated at the end (e.g. `['a', 'b', 'a']`), or null if there is none
+ */
+export function findDependencyCycle(dependencies: StepDependencies): string[] | null {
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const index = path.indexOf(id);
+    if (index !== -1) return [...path.slice(index), id];
+    if (done.has(id)) return null;
+
+    path.push(id);
+    for (const dep of dependencies.get(id) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(id);
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Steps a routing gate bypasses on every outcome that lets the run continue
+ * past it. Gates with an `on_true.goto` skip the downstream steps the route
+ * does not lead to; a failed gate only continues when it routes forward or
+ * its `on_fail` skips it.
+ */
+export function findUnreachableSteps(
+  workflow: WorkflowDefinition,
+  dependencies: StepDependencies
+): Array<{ stepId: string; gateId: string }> {
+  const unreachable: Array<{ stepId: string; gateId: string }> = [];
+  const closure = (id: string) => new Set([id, ...getDownstreamSteps(dependencies, id)]);
+
+  for (const gate of workflow.steps) {
+    if (gate.type !== 'gate' || !gate.on_true?.goto) continue;
+
+    const downstream = getDownstreamSteps(dependencies, gate.id);
+    const reachedOnTrue = closure(gate.on_true.goto);
+    let reachedOnFalse: Set<string> = new Set();
+    if (isGateRoute(gate.on_false)) {
+      const target = closure(gate.on_false.goto);
+      // Routing back upstream re-runs the gate rather than continuing past it
+      if (!target.has(gate.id)) reachedOnFalse = target;
+    } else if (gate.on_fail?.escalate_to === 'skip') {
+      reachedOnFalse = downstream;
+    }
+
+    for (const stepId of downstream) {
+      if (!reachedOnTrue.has(stepId) && !reachedOnFalse.has(stepId)) {
+        unreachable.push({ stepId, gateId: gate.id });
+      }
+    }
+  }
+  return unreachable;
+}
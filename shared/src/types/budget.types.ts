@@ -0,0 +1,47 @@
+/**
+ * Budget enforcement types.
+ *
+ * Budgets themselves are configured in BudgetSettings (see config.types);
+ * these describe their usage and the overrides that let work continue once
+ * a budget is exhausted.
+ */
+
+import type { BudgetLimit } from './config.types.js';
+
+/** Work that is checked against budgets before it starts */
+export type BudgetAction = 'agent.start' | 'workflow.step' | 'automation.start';
+
+/** Spending against one budget in its current window */
+export interface BudgetUsage {
+  budget: BudgetLimit;
+  windowStart: string;
+  windowEnd: string;
+  cost: number;
+  tokens: number;
+  /** Largest share of the cost or token cap used, in percent */
+  percentUsed: number;
+  exhausted: boolean;
+  /** Approved override that lets work continue although the budget is exhausted */
+  override?: BudgetOverride;
+}
+
+export type BudgetOverrideStatus = 'pending' | 'approved' | 'rejected';
+
+/** A request to keep working past an exhausted budget, filed when work is refused */
+export interface BudgetOverride {
+  id: string;
+  budgetId: string;
+  /** Start of the budget window the override applies to */
+  windowStart: string;
+  status: BudgetOverrideStatus;
+  /** Agent or user whose work was refused */
+  requestedBy?: string;
+  action?: BudgetAction;
+  taskId?: string;
+  reason?: string;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** Approved overrides last until the window ends unless reviewed with an earlier expiry */
+  expiresAt?: string;
+}
@@ -1,6 +1,6 @@
 // Config Types
 
-import type { AgentType, TaskPriority } from './task.types.js';
+import type { AgentType, TaskPriority, TaskStatus } from './task.types.js';
 import type { TelemetryConfig } from './telemetry.types.js';
 
 export interface DevServerConfig {
@@ -43,9 +43,39 @@ export interface RoutingRule {
   agent: AgentType; // Primary agent to use
   model?: string; // Optional model override (e.g. "opus", "sonnet")
   fallback?: AgentType; // Fallback agent if primary fails
+  /** Capabilities a registered agent needs for these tasks (default: the task type) */
+  capabilities?: string[];
   enabled: boolean; // Can disable without deleting
 }
 
+/** Relative weight of each factor when scoring agents from the registry */
+export interface RoutingWeights {
+  capability: number; // Share of the required capabilities the agent advertises
+  liveness: number; // Heartbeat freshness
+  load: number; // Idle vs busy
+  successRate: number; // Run success rate from telemetry
+  cost: number; // Average run cost from telemetry (cheapest scores highest)
+  rule: number; // Agent picked by the matching routing rule
+}
+
+export const DEFAULT_ROUTING_WEIGHTS: RoutingWeights = {
+  capability: 0.3,
+  liveness: 0.1,
+  load: 0.15,
+  successRate: 0.2,
+  cost: 0.1,
+  rule: 0.15,
+};
+
+/** How an agent scored for a task; every factor is between 0 and 1 */
+export interface RoutingCandidate {
+  agent: AgentType;
+  score: number;
+  factors: RoutingWeights;
+  /** False for the rule's agent when it isn't in the registry (liveness and load unknown) */
+  registered: boolean;
+}
+
 /** Top-level routing configuration */
 export interface AgentRoutingConfig {
   enabled: boolean; // Master toggle for routing engine
@@ -54,6 +84,10 @@ export interface AgentRoutingConfig {
   defaultModel?: string; // Default model for the default agent
   fallbackOnFailure: boolean; // Auto-retry with fallback on failure
   maxRetries: number; // Max retries before giving up (0-3)
+  /** Score live agents from the agent registry (default: true) */
+  useRegistry?: boolean;
+  /** Overrides for DEFAULT_ROUTING_WEIGHTS */
+  weights?: Partial<RoutingWeights>;
 }
 
 /** Result from the routing engine */
@@ -63,6 +97,8 @@ export interface RoutingResult {
   fallback?: AgentType;
   rule?: string; // ID of matched rule (undefined = default)
   reason: string; // Human-readable explanation
+  /** Scored agents, best first (only when registry agents were considered) */
+  candidates?: RoutingCandidate[];
 }
 
 /** Default routing config */
@@ -151,6 +187,18 @@ export interface GeneralSettings {
   humanDisplayName: string; // Display name for human user in Squad Chat (default: "Human")
 }
 
+/**
+ * A board column. Custom columns ("Ready for Review", "QA") map onto a status
+ * category, so transition hooks, analytics and GitHub sync only ever see the
+ * built-in statuses.
+ */
+export interface BoardColumn {
+  id: string; // Stored on tasks as `column`; built-in columns use their status as ID
+  label: string;
+  category: TaskStatus; // Status of tasks in this column
+  wipLimit?: number; // Max tasks in the column; moves into a full column are rejected
+}
+
 /** Board display settings */
 export interface BoardSettings {
   showDashboard: boolean;
@@ -162,6 +210,7 @@ export interface BoardSettings {
   enableDragAndDrop: boolean;
   showDoneMetrics: boolean;
   dashboardWidgets: DashboardWidgetSettings;
+  columns: BoardColumn[]; // Default workflow; projects can declare their own
 }
 
 /** Task behavior settings */
@@ -217,12 +266,28 @@ export interface ArchiveSettings {
   autoArchiveAfterDays: number;
 }
 
+export type BudgetScope = 'global' | 'project' | 'agent';
+export type BudgetWindow = 'daily' | 'monthly';
+
+/** A spending cap for everything, one project or one agent over a day or month (UTC) */
+export interface BudgetLimit {
+  id: string;
+  scope: BudgetScope;
+  target?: string; // Project or agent ID (not used for global budgets)
+  window: BudgetWindow;
+  costLimit?: number; // Dollars (0 or unset = no cost cap)
+  tokenLimit?: number; // Tokens (0 or unset = no token cap)
+}
+
 /** Budget tracking settings */
 export interface BudgetSettings {
   enabled: boolean;
   monthlyTokenLimit: number; // Monthly token budget (0 = no limit)
   monthlyCostLimit: number; // Monthly cost budget in dollars (0 = no limit)
   warningThreshold: number; // Percentage threshold for warning (0-100, default 80)
+  enforce: boolean; // Refuse agent starts and pause workflows once a budget is exhausted
+  limits: BudgetLimit[]; // Scoped budgets, enforced alongside the monthly limits above
+  notifyThresholds: number[]; // Usage percentages that send a notification, once per window
 }
 
 /** Structural enforcement toggles (all on by default). */
@@ -333,6 +398,12 @@ export const DEFAULT_FEATURE_SETTINGS: FeatureSettings = {
     showSprintBadges: true,
     enableDragAndDrop: true,
     showDoneMetrics: true,
+    columns: [
+      { id: 'todo', label: 'To Do', category: 'todo' },
+      { id: 'in-progress', label: 'In Progress', category: 'in-progress' },
+      { id: 'blocked', label: 'Blocked', category: 'blocked' },
+      { id: 'done', label: 'Done', category: 'done' },
+    ],
     dashboardWidgets: {
       showTokenUsage: true,
       showRunDuration: true,
@@ -393,6 +464,9 @@ export const DEFAULT_FEATURE_SETTINGS: FeatureSettings = {
     monthlyTokenLimit: 0, // 0 = no limit
     monthlyCostLimit: 0, // 0 = no limit (dollars)
     warningThreshold: 80, // Warn at 80% of budget
+    enforce: false,
+    limits: [],
+    notifyThresholds: [80, 100],
   },
   enforcement: {
     squadChat: false,
@@ -14,3 +14,4 @@ export * from './broadcast.types.js';
 export * from './agent-registry.types.js';
 export * from './shared-resources.types.js';
 export * from './doc-freshness.types.js';
+export * from './budget.types.js';
@@ -1,5 +1,7 @@
 // Managed List Types
 
+import type { BoardColumn } from './config.types.js';
+
 /** Base interface for managed list items */
 export interface ManagedListItem {
   id: string;
@@ -18,16 +20,31 @@ export interface ManagedListServiceOptions {
   defaults: ManagedListItem[];
 }
 
+/** Value kinds a custom task field can hold */
+export type CustomFieldType = 'string' | 'number' | 'enum' | 'date' | 'user' | 'url';
+
+/** A structured field declared by a task type and stored on its tasks */
+export interface CustomFieldDefinition {
+  id: string; // Key in task.customFields (e.g., "severity")
+  label: string;
+  type: CustomFieldType;
+  required?: boolean;
+  options?: string[]; // Allowed values for enum fields
+  description?: string;
+}
+
 /** Task type configuration with icon and color */
 export interface TaskTypeConfig extends ManagedListItem {
-  icon: string;    // Lucide icon name (e.g., "Code", "Search")
-  color?: string;  // Tailwind border color class (e.g., "border-l-violet-500")
+  icon: string; // Lucide icon name (e.g., "Code", "Search")
+  color?: string; // Tailwind border color class (e.g., "border-l-violet-500")
+  customFields?: CustomFieldDefinition[];
 }
 
 /** Project configuration with description and badge color */
 export interface ProjectConfig extends ManagedListItem {
   description?: string;
-  color?: string;  // Tailwind bg color class for badges (e.g., "bg-blue-500/20")
+  color?: string; // Tailwind bg color class for badges (e.g., "bg-blue-500/20")
+  columns?: BoardColumn[]; // Project workflow; falls back to the board settings columns
 }
 
 /** Sprint configuration */
@@ -8,6 +8,8 @@ export type BuiltInAgentType = 'claude-code' | 'amp' | 'copilot' | 'gemini' | 'v
 export type AgentType = BuiltInAgentType | (string & {});
 export type AttemptStatus = 'pending' | 'running' | 'complete' | 'failed';
 export type BlockedCategory = 'waiting-on-feedback' | 'technical-snag' | 'prerequisite' | 'other';
+/** Custom field values: numbers for number fields, strings for everything else */
+export type CustomFieldValue = string | number;
 
 export interface BlockedReason {
   category: BlockedCategory;
@@ -40,6 +42,9 @@ export interface Subtask {
   criteriaChecked?: boolean[];
 }
 
+/** Changes to one subtask, matched by ID */
+export type SubtaskUpdate = Partial<Omit<Subtask, 'id' | 'created'>> & { id: string };
+
 export interface VerificationStep {
   id: string;
   description: string;
@@ -148,12 +153,18 @@ export interface Task {
   description: string;
   type: TaskType;
   status: TaskStatus;
+  // Custom board column (see BoardColumn); status always holds its category
+  column?: string;
   priority: TaskPriority;
   project?: string;
   sprint?: string;
   created: string;
   updated: string;
 
+  // Write counter for optimistic concurrency — bumped on every update and
+  // served as the task's ETag; send it back as If-Match to detect lost updates
+  version?: number;
+
   // Agent assignment — "auto" uses routing engine, or a specific agent slug
   agent?: AgentType | 'auto';
   // Multi-agent assignment — multiple agents collaborating on a task
@@ -235,6 +246,9 @@ export interface Task {
   // Lessons learned (captured after task completion)
   lessonsLearned?: string; // Markdown content
   lessonTags?: string[]; // Categorization tags
+
+  // Values for the custom fields declared by the task's type, keyed by field ID
+  customFields?: Record<string, CustomFieldValue>;
 }
 
 export interface ReviewComment {
@@ -268,6 +282,8 @@ export interface CreateTaskInput {
   blockedBy?: string[]; // Can be provided when creating from a blueprint
   reviewScores?: [number, number, number, number]; // Optional 4x10 scores
   reviewComments?: ReviewComment[]; // Optional review comments
+  customFields?: Record<string, CustomFieldValue>;
+  column?: string; // Board column to start in; sets status to its category
 }
 
 export interface UpdateTaskInput {
@@ -275,6 +291,9 @@ export interface UpdateTaskInput {
   description?: string;
   type?: TaskType;
   status?: TaskStatus;
+  // Board column to move to; sets status to its category. null returns the
+  // task to the first column of its status
+  column?: string | null;
   priority?: TaskPriority;
   project?: string;
   sprint?: string;
@@ -283,6 +302,7 @@ export interface UpdateTaskInput {
   git?: Partial<TaskGit>;
   github?: TaskGitHub;
   attempt?: TaskAttempt;
+  attempts?: TaskAttempt[]; // Attempt history; replaces the stored list
   reviewComments?: ReviewComment[];
   reviewScores?: [number, number, number, number];
   review?: ReviewState;
@@ -304,6 +324,17 @@ export interface UpdateTaskInput {
   position?: number;
   lessonsLearned?: string;
   lessonTags?: string[];
+  // Merged into the task's values; null clears a field
+  customFields?: Record<string, CustomFieldValue | null>;
+
+  // Array merge operations — applied to the latest copy of the task, so
+  // concurrent writers never need to send (and overwrite) whole arrays
+  addSubtasks?: Subtask[];
+  updateSubtasks?: SubtaskUpdate[];
+  removeSubtasks?: string[];
+  addComments?: Comment[];
+  updateComments?: Pick<Comment, 'id' | 'text'>[];
+  removeComments?: string[];
 }
 
 export interface TaskFilters {
@@ -311,6 +342,7 @@ export interface TaskFilters {
   type?: TaskType | TaskType[];
   project?: string;
   search?: string;
+  customFields?: Record<string, string>; // Field ID → value to match
 }
 
 /**
@@ -321,6 +353,7 @@ export interface TaskSummary {
   id: string;
   title: string;
   status: TaskStatus;
+  column?: string;
   priority: TaskPriority;
   type: TaskType;
   project?: string;
@@ -341,6 +374,7 @@ export interface TaskSummary {
     isRunning: boolean;
   };
   attempt?: TaskAttempt;
+  customFields?: Record<string, CustomFieldValue>;
 }
 
 /**
@@ -355,3 +389,38 @@ export interface PaginatedResponse<T> {
     totalPages: number;
   };
 }
+
+// Revision History
+
+/** One field changed by a task update, with its values before and after */
+export interface TaskFieldChange {
+  field: string;
+  before?: unknown; // Omitted when the field was unset
+  after?: unknown; // Omitted when the field was cleared
+}
+
+/**
+ * Fields a revision restore never touches: they mirror state outside the
+ * task file (worktrees, GitHub issues, uploaded files, timers, agent runs)
+ */
+export const NON_RESTORABLE_TASK_FIELDS = [
+  'git',
+  'github',
+  'attachments',
+  'timeTracking',
+  'attempt',
+  'automation',
+] as const;
+
+/**
+ * A persisted task update. Returned by GET /api/tasks/:id/revisions.
+ */
+export interface TaskRevision {
+  id: string;
+  taskId: string;
+  revision: number; // 1-based, per task
+  timestamp: string;
+  author: string; // API key name, agent or 'system'
+  changes: TaskFieldChange[];
+  restoredFrom?: string; // Revision ID this update restored
+}
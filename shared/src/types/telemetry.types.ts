@@ -83,13 +83,37 @@ export interface TokenTelemetryEvent extends TelemetryEvent {
   agent: string;
   inputTokens: number;
   outputTokens: number;
-  cacheTokens?: number;
+  cacheTokens?: number; // Legacy combined cache count, priced as cache reads
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   totalTokens?: number;
-  cost?: number;
+  cost?: number; // USD
+  costSource?: TokenCostSource;
   model?: string;
   attemptId?: string;
 }
 
+/**
+ * Where a token event's cost came from: reported by the agent, or computed
+ * from the model pricing catalog (and recomputed when prices change)
+ */
+export type TokenCostSource = 'reported' | 'catalog';
+
+/**
+ * Price of one model, in USD per million tokens. `model` matches model IDs
+ * case-insensitively, exactly or as a prefix (the longest match wins), so
+ * "claude-sonnet-4" covers dated releases. A later `effectiveFrom` entry for
+ * the same model supersedes earlier ones from that date on.
+ */
+export interface ModelPricing {
+  model: string;
+  inputPer1M: number;
+  outputPer1M: number;
+  cacheReadPer1M?: number; // Defaults to the input rate
+  cacheWritePer1M?: number; // Defaults to the input rate
+  effectiveFrom?: string; // YYYY-MM-DD; omitted = since always
+}
+
 /** Union type for all telemetry events */
 export type AnyTelemetryEvent =
   | TaskTelemetryEvent
@@ -103,14 +127,14 @@ export type AnyTelemetryEvent =
 export interface TelemetryConfig {
   enabled: boolean;
   retention: number; // Days to retain events
-  traces?: boolean;  // Optional trace collection (future)
+  traces?: boolean; // Optional trace collection (future)
 }
 
 /** Query options for fetching events */
 export interface TelemetryQueryOptions {
   type?: TelemetryEventType | TelemetryEventType[];
-  since?: string;  // ISO timestamp
-  until?: string;  // ISO timestamp
+  since?: string; // ISO timestamp
+  until?: string; // ISO timestamp
   taskId?: string;
   project?: string;
   limit?: number;
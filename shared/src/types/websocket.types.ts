@@ -1,6 +1,7 @@
 // WebSocket Message Types
 
-import type { AttemptStatus } from './task.types.js';
+import type { AttemptStatus, Task } from './task.types.js';
+import type { JsonPatchOperation } from '../utils/json-patch.js';
 import type { ChatMessage } from './chat.types.js';
 
 export type WSMessageType =
@@ -43,3 +44,63 @@ export interface ChatMessageEvent extends WSMessage {
     message: ChatMessage;
   };
 }
+
+// Topic Subscriptions
+//
+// Task, workflow-run and telemetry events carry a sequence number and the
+// topics they belong to. A client that subscribes to topics only receives
+// matching events; clients that never subscribe receive everything.
+//
+// Topics: tasks, task:<id>, project:<name>, sprint:<name>, workflows,
+// workflow:<workflowId>, workflow-run:<runId>, telemetry, telemetry:<type>
+
+export type TaskChangeType =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'archived'
+  | 'restored'
+  | 'reordered';
+
+/** Client → server. `since` + `streamId` replay events missed while disconnected. */
+export interface TopicSubscribeMessage {
+  type: 'topics:subscribe';
+  topics: string[];
+  since?: number;
+  streamId?: string;
+}
+
+export interface TopicUnsubscribeMessage {
+  type: 'topics:unsubscribe';
+  topics: string[];
+}
+
+/**
+ * Server → client acknowledgement, sent before any replayed events.
+ * `resync` means missed events could not be replayed (server restart or
+ * buffer overflow) and the client should refetch.
+ */
+export interface TopicSubscribedMessage {
+  type: 'topics:subscribed';
+  topics: string[];
+  streamId: string;
+  seq: number; // Latest sequence number at subscription time
+  replayed: number;
+  resync: boolean;
+}
+
+/**
+ * A task change. `patch` holds the changed fields relative to the previous
+ * broadcast of the same task; `task` is the full task when there is no
+ * previous state to diff against.
+ */
+export interface TaskChangedMessage {
+  type: 'task:changed';
+  changeType: TaskChangeType;
+  taskId?: string;
+  timestamp: string;
+  seq: number;
+  topics: string[];
+  patch?: JsonPatchOperation[];
+  task?: Task;
+}
@@ -2,7 +2,7 @@
  * Shared API client for CLI and MCP
  */
 
-import type { Task } from '../types/task.types.js';
+import type { Task, UpdateTaskInput } from '../types/task.types.js';
 
 const DEFAULT_BASE = 'http://localhost:3001';
 
@@ -13,6 +13,27 @@ interface ApiEnvelope<T> {
   meta?: Record<string, unknown>;
 }
 
+/**
+ * Non-2xx response from the API; `status` lets callers tell a rejected
+ * request apart from a server that is temporarily unavailable
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Error body: `{ error: { code, message, details } }` envelope or inline `{ error: "..." }` */
+interface ApiErrorBody {
+  error?: string | { code?: string; message?: string; details?: unknown };
+}
+
 /**
  * Create an API client instance
  * @param baseUrl - Base URL for the API (default: http://localhost:3001)
@@ -29,10 +50,14 @@ export function createApiClient(baseUrl = DEFAULT_BASE) {
     });
 
     if (!res.ok) {
-      const error = (await res.json().catch(() => ({ error: res.statusText }))) as {
-        error?: string;
-      };
-      throw new Error(error.error || `API error: ${res.status}`);
+      const body = (await res.json().catch(() => ({ error: res.statusText }))) as ApiErrorBody;
+      const error = typeof body.error === 'string' ? { message: body.error } : body.error;
+      throw new ApiError(
+        error?.message || `API error: ${res.status}`,
+        res.status,
+        error?.code,
+        error?.details
+      );
     }
 
     if (res.status === 204) {
@@ -67,3 +92,88 @@ export async function findTask(id: string, apiClient = api): Promise<Task | null
   const tasks = await apiClient<Task[]>('/api/tasks');
   return tasks.find((t) => t.id === id || t.id.endsWith(id)) || null;
 }
+
+/** Array operations merge server-side, so they can't overwrite anyone's changes */
+const ARRAY_OPERATION_FIELDS = new Set([
+  'addSubtasks',
+  'updateSubtasks',
+  'removeSubtasks',
+  'addComments',
+  'updateComments',
+  'removeComments',
+]);
+
+/**
+ * Fields in `changes` that someone else changed between the writer's `base`
+ * copy and the server's `current` one — the ones a retry would overwrite.
+ * Array operations never conflict, nor does a field already set to the
+ * value being written.
+ */
+export function conflictingTaskFields(
+  changes: UpdateTaskInput,
+  base: Task,
+  current: Task
+): string[] {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  return Object.entries(changes)
+    .filter(([key, value]) => {
+      if (ARRAY_OPERATION_FIELDS.has(key)) return false;
+      const now = current[key as keyof Task];
+      return !same(now, base[key as keyof Task]) && !same(now, value);
+    })
+    .map(([key]) => key);
+}
+
+/**
+ * Thrown by `patchTask` when someone else changed the same fields first
+ */
+export class TaskConflictError extends ApiError {
+  constructor(
+    readonly task: Task,
+    readonly fields: string[]
+  ) {
+    super(
+      `Task ${task.id} was changed by someone else${fields.length ? ` (${fields.join(', ')})` : ''} — reload and retry`,
+      412,
+      'PRECONDITION_FAILED',
+      { currentVersion: task.version ?? 0, task }
+    );
+    this.name = 'TaskConflictError';
+  }
+}
+
+/**
+ * Update a task with optimistic concurrency. Sends the version of `base`
+ * (fetched when omitted) as If-Match; on 412 it retries against the newer
+ * version as long as the other writer didn't touch the fields being changed,
+ * and throws TaskConflictError when they did.
+ */
+export async function patchTask(
+  id: string,
+  changes: UpdateTaskInput,
+  options: { base?: Task; apiClient?: typeof api; retries?: number } = {}
+): Promise<Task> {
+  const apiClient = options.apiClient ?? api;
+  let base = options.base ?? (await apiClient<Task>(`/api/tasks/${id}`));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await apiClient<Task>(`/api/tasks/${base.id}`, {
+        method: 'PATCH',
+        headers: { 'If-Match': `"${base.version ?? 0}"` },
+        body: JSON.stringify(changes),
+      });
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.status !== 412) throw err;
+
+      const current =
+        (err.details as { task?: Task } | undefined)?.task ??
+        (await apiClient<Task>(`/api/tasks/${base.id}`));
+      const clobbered = conflictingTaskFields(changes, base, current);
+      if (clobbered.length > 0 || attempt >= (options.retries ?? 3)) {
+        throw new TaskConflictError(current, clobbered);
+      }
+      base = current;
+    }
+  }
+}
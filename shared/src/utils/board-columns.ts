@@ -0,0 +1,94 @@
+/**
+ * Board column (workflow) helpers.
+ *
+ * A workflow is an ordered list of BoardColumns. The board settings hold the
+ * default workflow and a project may declare its own. Tasks keep their status
+ * category in `status` and only record `column` when they sit in a column
+ * other than the first one of that category.
+ */
+
+import { DEFAULT_FEATURE_SETTINGS, type BoardColumn } from '../types/config.types.js';
+import type { ProjectConfig } from '../types/managed-list.types.js';
+import type { Task, TaskStatus } from '../types/task.types.js';
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = DEFAULT_FEATURE_SETTINGS.board.columns;
+
+/** Status categories every workflow needs a column for (cancelled tasks aren't shown) */
+export const BOARD_STATUS_CATEGORIES: TaskStatus[] = ['todo', 'in-progress', 'blocked', 'done'];
+
+export const BOARD_COLUMN_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+/**
+ * Columns for a project's board: its own workflow if it has one, otherwise
+ * the default from the board settings.
+ */
+export function getWorkflowColumns(
+  defaultColumns: BoardColumn[] | undefined,
+  project?: Pick<ProjectConfig, 'columns'> | null
+): BoardColumn[] {
+  if (project?.columns?.length) return project.columns;
+  return defaultColumns?.length ? defaultColumns : DEFAULT_BOARD_COLUMNS;
+}
+
+/**
+ * Structural problems with a workflow (duplicate IDs, missing categories).
+ * Returns one message per problem.
+ */
+export function validateBoardColumns(columns: BoardColumn[]): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const column of columns) {
+    if (seen.has(column.id)) issues.push(`Duplicate column ID "${column.id}"`);
+    seen.add(column.id);
+  }
+
+  for (const category of BOARD_STATUS_CATEGORIES) {
+    if (!columns.some((c) => c.category === category)) {
+      issues.push(`No column for status "${category}"`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * The column a task is shown in. A stale `column` (removed from the workflow,
+ * or whose category no longer matches the status) falls back to the first
+ * column of the task's status.
+ */
+export function getTaskColumn(
+  task: Pick<Task, 'status' | 'column'>,
+  columns: BoardColumn[]
+): BoardColumn | undefined {
+  const explicit = task.column
+    ? columns.find((c) => c.id === task.column && c.category === task.status)
+    : undefined;
+  return explicit ?? columns.find((c) => c.category === task.status);
+}
+
+/** Group tasks by column ID, keeping their order; tasks without a column are dropped */
+export function groupTasksByColumn<T extends Pick<Task, 'status' | 'column'>>(
+  tasks: T[],
+  columns: BoardColumn[]
+): Record<string, T[]> {
+  const grouped: Record<string, T[]> = Object.fromEntries(columns.map((c) => [c.id, []]));
+  for (const task of tasks) {
+    const column = getTaskColumn(task, columns);
+    if (column) grouped[column.id].push(task);
+  }
+  return grouped;
+}
+
+/**
+ * Whether a task belongs to the workflow of `projectId` (undefined = the
+ * default workflow, shared by every project without its own columns).
+ */
+export function isInWorkflow(
+  task: Pick<Task, 'project'>,
+  projectId: string | undefined,
+  projectsWithWorkflow: ReadonlySet<string>
+): boolean {
+  if (projectId) return task.project === projectId;
+  return !task.project || !projectsWithWorkflow.has(task.project);
+}
@@ -0,0 +1,76 @@
+/**
+ * Budget helpers.
+ *
+ * Budgets cap token spend globally, per project or per agent over a daily or
+ * monthly window. Windows are calendar days and months in UTC. The legacy
+ * monthly limits in BudgetSettings act as one more global monthly budget.
+ */
+
+import type { BudgetLimit, BudgetSettings, BudgetWindow } from '../types/config.types.js';
+
+/** ID of the global budget built from monthlyCostLimit / monthlyTokenLimit */
+export const MONTHLY_BUDGET_ID = 'monthly';
+
+/** All budgets in the settings, the legacy monthly limits first */
+export function getBudgetLimits(settings: BudgetSettings): BudgetLimit[] {
+  const limits = [...(settings.limits ?? [])];
+  if (settings.monthlyCostLimit > 0 || settings.monthlyTokenLimit > 0) {
+    limits.unshift({
+      id: MONTHLY_BUDGET_ID,
+      scope: 'global',
+      window: 'monthly',
+      costLimit: settings.monthlyCostLimit,
+      tokenLimit: settings.monthlyTokenLimit,
+    });
+  }
+  return limits;
+}
+
+/** Start of the window containing `at` */
+export function budgetWindowStart(window: BudgetWindow, at: Date = new Date()): Date {
+  return window === 'daily'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+/** End (exclusive) of the window containing `at` */
+export function budgetWindowEnd(window: BudgetWindow, at: Date = new Date()): Date {
+  return window === 'daily'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+}
+
+/** Whether spending by this project / agent counts against the budget */
+export function budgetApplies(
+  budget: BudgetLimit,
+  subject: { project?: string; agent?: string }
+): boolean {
+  if (budget.scope === 'global') return true;
+  const value = budget.scope === 'project' ? subject.project : subject.agent;
+  return !!value && value.toLowerCase() === budget.target?.toLowerCase();
+}
+
+/**
+ * Problems with a list of budgets (duplicate IDs, missing targets, no cap).
+ * Returns one message per problem.
+ */
+export function validateBudgetLimits(limits: BudgetLimit[]): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const limit of limits) {
+    if (seen.has(limit.id) || limit.id === MONTHLY_BUDGET_ID) {
+      issues.push(`Duplicate budget ID "${limit.id}"`);
+    }
+    seen.add(limit.id);
+
+    if (limit.scope !== 'global' && !limit.target?.trim()) {
+      issues.push(`Budget "${limit.id}" needs a ${limit.scope}`);
+    }
+    if (!limit.costLimit && !limit.tokenLimit) {
+      issues.push(`Budget "${limit.id}" has no cost or token limit`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,154 @@
+/**
+ * Custom task field helpers.
+ *
+ * Task types declare fields (`TaskTypeConfig.customFields`); tasks store the
+ * values in `task.customFields`, keyed by field ID. The server validates
+ * writes with these helpers and the board, API and analytics share the same
+ * `cf.<field>=<value>` filter syntax.
+ */
+
+import type { CustomFieldDefinition, CustomFieldType } from '../types/managed-list.types.js';
+import type { CustomFieldValue, Task } from '../types/task.types.js';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  'string',
+  'number',
+  'enum',
+  'date',
+  'user',
+  'url',
+];
+
+/** Query parameter prefix for custom field filters (`?cf.severity=high`) */
+export const CUSTOM_FIELD_FILTER_PREFIX = 'cf.';
+
+const MAX_TEXT_LENGTH = 500;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HTML_TAG_PATTERN = /<[a-z!/?]/i;
+
+export interface CustomFieldIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Check one value against its definition. Returns an error message, or null
+ * when the value is acceptable.
+ */
+export function validateCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: unknown
+): string | null {
+  if (definition.type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+  }
+
+  if (typeof value !== 'string' || value.trim() === '') return 'must be a non-empty string';
+  if (value.length > MAX_TEXT_LENGTH) return `must be at most ${MAX_TEXT_LENGTH} characters`;
+  // Values are stored verbatim (stripping would mangle URLs), so refuse markup
+  if (HTML_TAG_PATTERN.test(value)) return 'must not contain HTML';
+
+  switch (definition.type) {
+    case 'enum':
+      return definition.options?.includes(value)
+        ? null
+        : `must be one of: ${(definition.options ?? []).join(', ')}`;
+    case 'date':
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : 'must be a date (YYYY-MM-DD)';
+    case 'url':
+      try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:' ? null : 'must be an http(s) URL';
+      } catch {
+        return 'must be an http(s) URL';
+      }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate custom field values against a task type's definitions.
+ *
+ * With `partial` (updates), required fields may be omitted but not cleared,
+ * and `null` clears any field — including ones the task kept from a
+ * previous type.
+ */
+export function validateCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue | null> | undefined,
+  options: { partial?: boolean } = {}
+): CustomFieldIssue[] {
+  const issues: CustomFieldIssue[] = [];
+  const byId = new Map(definitions.map((d) => [d.id, d]));
+
+  for (const [field, value] of Object.entries(values ?? {})) {
+    const definition = byId.get(field);
+    if (value === null) {
+      if (definition?.required) issues.push({ field, message: 'is required' });
+      continue;
+    }
+    if (!definition) {
+      issues.push({ field, message: 'is not a field of this task type' });
+      continue;
+    }
+    const message = validateCustomFieldValue(definition, value);
+    if (message) issues.push({ field, message });
+  }
+
+  if (!options.partial) {
+    for (const definition of definitions) {
+      if (definition.required && values?.[definition.id] == null) {
+        issues.push({ field: definition.id, message: 'is required' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Apply an update's custom field changes; `null` removes a value. Returns
+ * undefined when no values remain.
+ */
+export function mergeCustomFields(
+  current: Record<string, CustomFieldValue> | undefined,
+  changes: Record<string, CustomFieldValue | null>
+): Record<string, CustomFieldValue> | undefined {
+  const merged: Record<string, CustomFieldValue> = { ...current };
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === null) delete merged[field];
+    else merged[field] = value;
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * Pull `cf.<field>=<value>` pairs out of a query string object
+ */
+export function parseCustomFieldFilters(query: Record<string, unknown>): Record<string, string> {
+  const filters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (!key.startsWith(CUSTOM_FIELD_FILTER_PREFIX) || key === CUSTOM_FIELD_FILTER_PREFIX) continue;
+    const text = Array.isArray(value) ? value[0] : value;
+    if (typeof text === 'string' && text !== '') {
+      filters[key.slice(CUSTOM_FIELD_FILTER_PREFIX.length)] = text;
+    }
+  }
+  return filters;
+}
+
+/**
+ * True when every filtered field equals the given value (case-insensitive)
+ */
+export function matchesCustomFieldFilters(
+  task: Pick<Task, 'customFields'>,
+  filters: Record<string, string> | undefined
+): boolean {
+  return Object.entries(filters ?? {}).every(([field, expected]) => {
+    const actual = task.customFields?.[field];
+    return actual !== undefined && String(actual).toLowerCase() === expected.toLowerCase();
+  });
+}
@@ -7,3 +7,8 @@ export * from './format.js';
 export * from './constants.js';
 export * from './api-client.js';
 export * from './agent-helpers.js';
+export * from './json-patch.js';
+export * from './custom-fields.js';
+export * from './board-columns.js';
+export * from './pricing.js';
+export * from './budget.js';
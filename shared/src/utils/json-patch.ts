@@ -0,0 +1,95 @@
+/**
+ * Minimal JSON Patch (RFC 6902) helpers
+ *
+ * The server diffs objects at the top level (one op per changed field), which
+ * keeps patches small for task updates; `applyJsonPatch` also accepts nested
+ * paths so other producers can send finer-grained ops.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePointer(path: string): string[] {
+  if (path === '') return [];
+  return path
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * One add/replace/remove op per top-level field that differs
+ */
+export function createJsonPatch(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+
+  for (const key of Object.keys(before)) {
+    if (before[key] !== undefined && after[key] === undefined) {
+      ops.push({ op: 'remove', path: `/${escapePointer(key)}` });
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    const path = `/${escapePointer(key)}`;
+    if (before[key] === undefined) {
+      ops.push({ op: 'add', path, value });
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(value)) {
+      ops.push({ op: 'replace', path, value });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Apply ops to a copy of `doc`. Containers along each path are copied, so
+ * the input is never mutated and unchanged branches keep their identity.
+ */
+export function applyJsonPatch<T>(doc: T, ops: JsonPatchOperation[]): T {
+  let result: unknown = doc;
+
+  for (const operation of ops) {
+    const keys = parsePointer(operation.path);
+    if (keys.length === 0) {
+      result = operation.op === 'remove' ? undefined : operation.value;
+      continue;
+    }
+
+    const root = copyContainer(result);
+    let parent = root;
+    for (const key of keys.slice(0, -1)) {
+      const child = copyContainer(parent[key]);
+      parent[key] = child;
+      parent = child;
+    }
+
+    const last = keys[keys.length - 1];
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : Number(last);
+      if (operation.op === 'remove') parent.splice(index, 1);
+      else if (operation.op === 'add') parent.splice(index, 0, operation.value);
+      else parent[index] = operation.value;
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = operation.value;
+    }
+    result = root;
+  }
+
+  return result as T;
+}
+
+/** Shallow copy of an object or array; anything else becomes an empty object */
+function copyContainer(value: unknown): Record<string, unknown> {
+  if (Array.isArray(value)) return [...value] as unknown as Record<string, unknown>;
+  if (value && typeof value === 'object') return { ...(value as Record<string, unknown>) };
+  return {};
+}
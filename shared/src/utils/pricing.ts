@@ -0,0 +1,134 @@
+/**
+ * Model pricing helpers.
+ *
+ * The pricing catalog lists per-model token rates. Token telemetry without a
+ * reported cost is priced from it on ingest, and metrics price any remaining
+ * events when they are read.
+ */
+
+import type { ModelPricing, TokenTelemetryEvent } from '../types/telemetry.types.js';
+
+/** List prices (USD per million tokens) used until a catalog is configured */
+export const DEFAULT_MODEL_PRICING: ModelPricing[] = [
+  {
+    model: 'claude-opus-4',
+    inputPer1M: 15,
+    outputPer1M: 75,
+    cacheReadPer1M: 1.5,
+    cacheWritePer1M: 18.75,
+  },
+  {
+    model: 'claude-opus-4-5',
+    inputPer1M: 5,
+    outputPer1M: 25,
+    cacheReadPer1M: 0.5,
+    cacheWritePer1M: 6.25,
+  },
+  {
+    model: 'claude-opus-4-6',
+    inputPer1M: 5,
+    outputPer1M: 25,
+    cacheReadPer1M: 0.5,
+    cacheWritePer1M: 6.25,
+  },
+  {
+    model: 'claude-sonnet-4',
+    inputPer1M: 3,
+    outputPer1M: 15,
+    cacheReadPer1M: 0.3,
+    cacheWritePer1M: 3.75,
+  },
+  {
+    model: 'claude-haiku-4-5',
+    inputPer1M: 1,
+    outputPer1M: 5,
+    cacheReadPer1M: 0.1,
+    cacheWritePer1M: 1.25,
+  },
+  {
+    model: 'claude-3-5-haiku',
+    inputPer1M: 0.8,
+    outputPer1M: 4,
+    cacheReadPer1M: 0.08,
+    cacheWritePer1M: 1,
+  },
+  { model: 'gpt-5', inputPer1M: 1.25, outputPer1M: 10, cacheReadPer1M: 0.125 },
+  { model: 'gpt-4.1', inputPer1M: 2, outputPer1M: 8, cacheReadPer1M: 0.5 },
+  { model: 'gpt-4o', inputPer1M: 2.5, outputPer1M: 10, cacheReadPer1M: 1.25 },
+  { model: 'o3', inputPer1M: 2, outputPer1M: 8, cacheReadPer1M: 0.5 },
+  { model: 'gemini-2.5-pro', inputPer1M: 1.25, outputPer1M: 10, cacheReadPer1M: 0.31 },
+  { model: 'gemini-2.5-flash', inputPer1M: 0.3, outputPer1M: 2.5, cacheReadPer1M: 0.075 },
+];
+
+export type TokenUsage = Pick<
+  TokenTelemetryEvent,
+  'inputTokens' | 'outputTokens' | 'cacheTokens' | 'cacheReadTokens' | 'cacheWriteTokens'
+>;
+
+/**
+ * Catalog entry pricing a model at a point in time: the longest matching
+ * model prefix, then the latest `effectiveFrom` on or before `at`.
+ */
+export function findModelPricing(
+  catalog: ModelPricing[],
+  model: string | undefined,
+  at: string = new Date().toISOString()
+): ModelPricing | undefined {
+  if (!model) return undefined;
+  // Provider-qualified IDs ("anthropic/claude-sonnet-4") match on the model name
+  const id = model.toLowerCase().slice(model.lastIndexOf('/') + 1);
+  const day = at.slice(0, 10);
+
+  let best: ModelPricing | undefined;
+  for (const entry of catalog) {
+    const key = entry.model.toLowerCase();
+    if (id !== key && !id.startsWith(key)) continue;
+    if (entry.effectiveFrom && entry.effectiveFrom > day) continue;
+
+    if (
+      !best ||
+      key.length > best.model.length ||
+      (key.length === best.model.length && (entry.effectiveFrom ?? '') > (best.effectiveFrom ?? ''))
+    ) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/** Cost in USD of one usage record, rounded to a millionth of a dollar */
+export function computeTokenCost(pricing: ModelPricing, usage: TokenUsage): number {
+  const cacheRead = usage.cacheReadTokens ?? usage.cacheTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const cost =
+    usage.inputTokens * pricing.inputPer1M +
+    usage.outputTokens * pricing.outputPer1M +
+    cacheRead * (pricing.cacheReadPer1M ?? pricing.inputPer1M) +
+    cacheWrite * (pricing.cacheWritePer1M ?? pricing.inputPer1M);
+  return Math.round(cost) / 1_000_000;
+}
+
+/**
+ * Problems with a pricing catalog (duplicate entries, bad dates).
+ * Returns one message per problem.
+ */
+export function validateModelPricing(catalog: ModelPricing[]): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of catalog) {
+    const key = `${entry.model.toLowerCase()}@${entry.effectiveFrom ?? ''}`;
+    if (seen.has(key)) {
+      issues.push(
+        `Duplicate price for "${entry.model}"${entry.effectiveFrom ? ` from ${entry.effectiveFrom}` : ''}`
+      );
+    }
+    seen.add(key);
+
+    if (entry.effectiveFrom && Number.isNaN(Date.parse(entry.effectiveFrom))) {
+      issues.push(`Invalid effectiveFrom date "${entry.effectiveFrom}" for "${entry.model}"`);
+    }
+  }
+
+  return issues;
+}
@@ -113,6 +113,53 @@ describe('tasksApi', () => {
     expect(result.status).toBe('done');
   });
 
+  it('update() sends If-Match and retries a 412 when other fields changed', async () => {
+    const base = createMockTask({ id: 'u2', title: 'Old', version: 3 });
+    const current = { ...base, description: 'edited elsewhere', version: 4 };
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 412,
+        json: async () => ({
+          success: false,
+          error: { code: 'PRECONDITION_FAILED', message: 'stale', details: { task: current } },
+          meta: { timestamp: new Date().toISOString() },
+        }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => envelope({ ...current, title: 'New', version: 5 }),
+      } as Response);
+
+    const result = await tasksApi.update('u2', { title: 'New' }, base);
+    const headers = vi
+      .mocked(fetch)
+      .mock.calls.map(([, init]) => (init?.headers as Record<string, string>)['If-Match']);
+    expect(headers).toEqual(['"3"', '"4"']);
+    expect(result.version).toBe(5);
+  });
+
+  it('update() rethrows a 412 with the clashing fields', async () => {
+    const base = createMockTask({ id: 'u3', title: 'Old', version: 1 });
+    const current = { ...base, title: 'Theirs', version: 2 };
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: false,
+      status: 412,
+      json: async () => ({
+        success: false,
+        error: { code: 'PRECONDITION_FAILED', message: 'stale', details: { task: current } },
+        meta: { timestamp: new Date().toISOString() },
+      }),
+    } as Response);
+
+    await expect(tasksApi.update('u3', { title: 'Mine' }, base)).rejects.toMatchObject({
+      code: 'PRECONDITION_FAILED',
+      details: { task: current, fields: ['title'] },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
   it('delete() calls DELETE /tasks/:id', async () => {
     vi.mocked(fetch).mockResolvedValueOnce({
       ok: true,
@@ -68,6 +68,27 @@ describe('useWebSocket', () => {
     expect(JSON.parse(ws.latest.sent[0])).toEqual(onOpenMsg);
   });
 
+  it('builds a fresh onOpen message on every reconnect', () => {
+    let since = 0;
+    const onOpen = vi.fn(() => ({ type: 'topics:subscribe', since }));
+    renderHook(() => useWebSocket({ url: 'ws://test/ws', onOpen }));
+
+    act(() => {
+      ws.latest.simulateOpen();
+    });
+    since = 7;
+    act(() => {
+      ws.latest.simulateClose();
+      vi.advanceTimersByTime(2000);
+    });
+    act(() => {
+      ws.latest.simulateOpen();
+    });
+
+    expect(onOpen).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(ws.latest.sent[0])).toEqual({ type: 'topics:subscribe', since: 7 });
+  });
+
   it('receives and parses messages', () => {
     const onMessage = vi.fn();
     const { result } = renderHook(() => useWebSocket({ url: 'ws://test/ws', onMessage }));
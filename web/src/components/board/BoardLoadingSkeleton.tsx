@@ -1,8 +1,7 @@
 import { Skeleton } from '@/components/ui/skeleton';
-import type { TaskStatus } from '@veritas-kanban/shared';
 
 interface Column {
-  id: TaskStatus;
+  id: string;
   title: string;
 }
 
@@ -12,7 +11,10 @@ interface BoardLoadingSkeletonProps {
 
 export function BoardLoadingSkeleton({ columns }: BoardLoadingSkeletonProps) {
   return (
-    <div className="grid grid-cols-4 gap-4">
+    <div
+      className="grid gap-4"
+      style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}
+    >
       {columns.map((column) => (
         <div
           key={column.id}
@@ -29,6 +29,7 @@ import {
   ExternalLink,
 } from 'lucide-react';
 import { BudgetCard } from '@/components/dashboard/BudgetCard';
+import { BudgetEnforcementCard } from '@/components/dashboard/BudgetEnforcementCard';
 import { MultiAgentPanel } from './MultiAgentPanel';
 
 // ─── Agent State Types ───────────────────────────────────────────────
@@ -449,6 +450,9 @@ export function BoardSidebar({ onTaskClick }: BoardSidebarProps) {
 
       {/* Monthly Budget */}
       <BudgetCard />
+
+      {/* Enforced budgets and override requests */}
+      <BudgetEnforcementCard />
     </div>
   );
 }
@@ -9,7 +9,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import type { Task, TaskType } from '@veritas-kanban/shared';
+import {
+  CUSTOM_FIELD_FILTER_PREFIX,
+  matchesCustomFieldFilters,
+  parseCustomFieldFilters,
+  type Task,
+  type TaskType,
+} from '@veritas-kanban/shared';
 import { useTaskTypes, getTypeIcon } from '@/hooks/useTaskTypes';
 import { useProjects } from '@/hooks/useProjects';
 import { useConfig } from '@/hooks/useConfig';
@@ -19,6 +25,8 @@ export interface FilterState {
   project: string | null;
   type: TaskType | null;
   agent: string | null;
+  /** Custom field ID -> value, for fields of the selected type */
+  customFields?: Record<string, string>;
 }
 
 interface FilterBarProps {
@@ -32,16 +40,29 @@ export function FilterBar({ filters, onFiltersChange }: FilterBarProps) {
   const { data: projects = [], isLoading: projectsLoading } = useProjects();
   const { data: config } = useConfig();
   const agents = config?.agents || [];
+  const customFieldDefs = filters.type
+    ? (taskTypes.find((t) => t.id === filters.type)?.customFields ?? [])
+    : [];
+  const customFilters = filters.customFields ?? {};
 
   // Count active filters
-  const activeFilterCount = [filters.search, filters.project, filters.type, filters.agent].filter(
-    Boolean
-  ).length;
+  const activeFilterCount =
+    [filters.search, filters.project, filters.type, filters.agent].filter(Boolean).length +
+    Object.keys(customFilters).length;
 
   const clearAllFilters = () => {
     onFiltersChange({ search: '', project: null, type: null, agent: null });
   };
 
+  const updateCustomFilter = (fieldId: string, value: string) => {
+    const { [fieldId]: _previous, ...rest } = customFilters;
+    const next = value ? { ...rest, [fieldId]: value } : rest;
+    onFiltersChange({
+      ...filters,
+      customFields: Object.keys(next).length > 0 ? next : undefined,
+    });
+  };
+
   const updateSearch = (value: string) => {
     onFiltersChange({ ...filters, search: value });
   };
@@ -101,7 +122,12 @@ export function FilterBar({ filters, onFiltersChange }: FilterBarProps) {
       <Select
         value={filters.type || 'all'}
         onValueChange={(value) =>
-          onFiltersChange({ ...filters, type: value === 'all' ? null : (value as TaskType) })
+          // Custom field filters belong to the previous type
+          onFiltersChange({
+            ...filters,
+            type: value === 'all' ? null : (value as TaskType),
+            customFields: undefined,
+          })
         }
         disabled={typesLoading}
       >
@@ -124,6 +150,39 @@ export function FilterBar({ filters, onFiltersChange }: FilterBarProps) {
         </SelectContent>
       </Select>
 
+      {/* Custom field filters for the selected type */}
+      {customFieldDefs.map((field) =>
+        field.type === 'enum' ? (
+          <Select
+            key={field.id}
+            value={customFilters[field.id] || 'all'}
+            onValueChange={(value) => updateCustomFilter(field.id, value === 'all' ? '' : value)}
+          >
+            <SelectTrigger className="w-[140px]" aria-label={`Filter by ${field.label}`}>
+              <SelectValue placeholder={field.label} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any {field.label}</SelectItem>
+              {(field.options ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            key={field.id}
+            type={field.type === 'date' ? 'date' : field.type === 'number' ? 'number' : 'text'}
+            placeholder={field.label}
+            value={customFilters[field.id] ?? ''}
+            onChange={(e) => updateCustomFilter(field.id, e.target.value)}
+            aria-label={`Filter by ${field.label}`}
+            className="w-[140px]"
+          />
+        )
+      )}
+
       {/* Agent filter */}
       <Select
         value={filters.agent || 'all'}
@@ -175,15 +234,20 @@ export function filtersToSearchParams(filters: FilterState): URLSearchParams {
   if (filters.project) params.set('project', filters.project);
   if (filters.type) params.set('type', filters.type);
   if (filters.agent) params.set('agent', filters.agent);
+  for (const [field, value] of Object.entries(filters.customFields ?? {})) {
+    params.set(`${CUSTOM_FIELD_FILTER_PREFIX}${field}`, value);
+  }
   return params;
 }
 
 export function searchParamsToFilters(params: URLSearchParams): FilterState {
+  const customFields = parseCustomFieldFilters(Object.fromEntries(params));
   return {
     search: params.get('q') || '',
     project: params.get('project') || null,
     type: (params.get('type') as TaskType) || null,
     agent: params.get('agent') || null,
+    ...(Object.keys(customFields).length > 0 && { customFields }),
   };
 }
 
@@ -220,6 +284,11 @@ export function filterTasks(tasks: Task[], filters: FilterState): Task[] {
       }
     }
 
+    // Custom field filters (case-insensitive equality)
+    if (!matchesCustomFieldFilters(task, filters.customFields)) {
+      return false;
+    }
+
     return true;
   });
 }
@@ -3,8 +3,15 @@ import { useBoardDragDrop } from '@/hooks/useBoardDragDrop';
 import { KanbanColumn } from './KanbanColumn';
 import { BoardLoadingSkeleton } from './BoardLoadingSkeleton';
 import { TaskDetailPanel } from '@/components/task/TaskDetailPanel';
-import type { TaskStatus, Task } from '@veritas-kanban/shared';
+import {
+  groupTasksByColumn,
+  isInWorkflow,
+  type TaskStatus,
+  type Task,
+} from '@veritas-kanban/shared';
 import { useFeatureSettings } from '@/hooks/useFeatureSettings';
+import { useBoardColumns } from '@/hooks/useBoardColumns';
+import { useToast } from '@/hooks/useToast';
 import { DndContext, DragOverlay } from '@dnd-kit/core';
 import { useState, useEffect, useCallback, useMemo, lazy, Suspense } from 'react';
 import { TaskCard } from '@/components/task/TaskCard';
@@ -33,17 +40,11 @@ const Dashboard = lazy(() =>
   }))
 );
 
-const COLUMNS: { id: TaskStatus; title: string }[] = [
-  { id: 'todo', title: 'To Do' },
-  { id: 'in-progress', title: 'In Progress' },
-  { id: 'blocked', title: 'Blocked' },
-  { id: 'done', title: 'Done' },
-];
-
 export function KanbanBoard() {
   const { data: tasks, isLoading, error } = useTasks();
   const { settings: featureSettings } = useFeatureSettings();
   const { announce } = useLiveAnnouncer();
+  const { toast } = useToast();
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
 
@@ -104,8 +105,25 @@ export function KanbanBoard() {
     return tasks ? filterTasks(tasks, filters) : [];
   }, [tasks, filters]);
 
-  // Group filtered tasks by status
+  // Group filtered tasks by status, then into the workflow's columns
   const tasksByStatus = useTasksByStatus(filteredTasks);
+  const { columns, workflowProject, projectsWithWorkflow } = useBoardColumns(filters.project);
+  const boardColumns = useMemo(() => columns.map((c) => ({ id: c.id, title: c.label })), [columns]);
+  const tasksByColumn = useMemo(
+    () => groupTasksByColumn(Object.values(tasksByStatus).flat(), columns),
+    [tasksByStatus, columns]
+  );
+
+  // WIP counts include tasks hidden by filters, matching the server's check
+  const wipCounts = useMemo(() => {
+    const inWorkflow = (tasks ?? []).filter((t) =>
+      isInWorkflow(t, workflowProject, projectsWithWorkflow)
+    );
+    const grouped = groupTasksByColumn(inWorkflow, columns);
+    return Object.fromEntries(columns.map((c) => [c.id, grouped[c.id].length]));
+  }, [tasks, columns, workflowProject, projectsWithWorkflow]);
+
+  const gridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` };
 
   // Register filtered tasks with keyboard context
   useEffect(() => {
@@ -155,11 +173,11 @@ export function KanbanBoard() {
   const handleMoveTask = useCallback(
     (taskId: string, status: TaskStatus) => {
       const task = filteredTasks.find((t) => t.id === taskId);
-      const columnName = COLUMNS.find((c) => c.id === status)?.title || status;
+      const columnName = columns.find((c) => c.category === status)?.label || status;
       updateTask.mutate({ id: taskId, input: { status } });
       announce(`Task ${task?.title || taskId} moved to ${columnName}`);
     },
-    [updateTask, filteredTasks, announce]
+    [updateTask, filteredTasks, announce, columns]
   );
 
   // Register callbacks with keyboard context (refs, so no need for useEffect)
@@ -170,7 +188,7 @@ export function KanbanBoard() {
   const {
     activeTask,
     isDragActive,
-    liveTasksByStatus,
+    liveTasksByColumn,
     sensors,
     collisionDetection,
     handleDragStart,
@@ -178,10 +196,32 @@ export function KanbanBoard() {
     handleDragEnd,
   } = useBoardDragDrop({
     tasks: filteredTasks,
-    tasksByStatus,
-    columns: COLUMNS,
-    onStatusChange: (taskId, status) => {
-      updateTask.mutate({ id: taskId, input: { status } });
+    tasksByColumn,
+    columns: boardColumns,
+    canMoveToColumn: (_taskId, columnId) => {
+      const column = columns.find((c) => c.id === columnId);
+      if (!column?.wipLimit || (wipCounts[columnId] ?? 0) < column.wipLimit) return true;
+      toast({
+        title: `${column.label} is full`,
+        description: `WIP limit of ${column.wipLimit} reached — finish something first`,
+        variant: 'destructive',
+      });
+      return false;
+    },
+    onColumnChange: (taskId, columnId) => {
+      const column = columns.find((c) => c.id === columnId);
+      if (!column) return;
+      updateTask.mutate(
+        { id: taskId, input: { status: column.category, column: column.id } },
+        {
+          onError: (err) =>
+            toast({
+              title: `Couldn't move task to ${column.label}`,
+              description: err.message,
+              variant: 'destructive',
+            }),
+        }
+      );
     },
     onReorder: (taskIds) => {
       reorderTasks.mutate(taskIds);
@@ -202,7 +242,7 @@ export function KanbanBoard() {
     : null;
 
   if (isLoading) {
-    return <BoardLoadingSkeleton columns={COLUMNS} />;
+    return <BoardLoadingSkeleton columns={boardColumns} />;
   }
 
   if (error) {
@@ -251,13 +291,21 @@ export function KanbanBoard() {
                 onDragOver={handleDragOver}
                 onDragEnd={handleDragEnd}
               >
-                <div className="grid grid-cols-4 gap-4" role="group" aria-label="Kanban columns">
-                  {COLUMNS.map((column) => (
+                <div
+                  className="grid gap-4"
+                  style={gridStyle}
+                  role="group"
+                  aria-label="Kanban columns"
+                >
+                  {columns.map((column) => (
                     <KanbanColumn
                       key={column.id}
                       id={column.id}
-                      title={column.title}
-                      tasks={liveTasksByStatus[column.id]}
+                      title={column.label}
+                      category={column.category}
+                      wipLimit={column.wipLimit}
+                      wipCount={wipCounts[column.id]}
+                      tasks={liveTasksByColumn[column.id]}
                       allTasks={filteredTasks}
                       onTaskClick={handleTaskClick}
                       selectedTaskId={selectedTaskId}
@@ -271,13 +319,21 @@ export function KanbanBoard() {
                 </DragOverlay>
               </DndContext>
             ) : (
-              <div className="grid grid-cols-4 gap-4" role="group" aria-label="Kanban columns">
-                {COLUMNS.map((column) => (
+              <div
+                className="grid gap-4"
+                style={gridStyle}
+                role="group"
+                aria-label="Kanban columns"
+              >
+                {columns.map((column) => (
                   <KanbanColumn
                     key={column.id}
                     id={column.id}
-                    title={column.title}
-                    tasks={tasksByStatus[column.id]}
+                    title={column.label}
+                    category={column.category}
+                    wipLimit={column.wipLimit}
+                    wipCount={wipCounts[column.id]}
+                    tasks={tasksByColumn[column.id]}
                     allTasks={filteredTasks}
                     onTaskClick={handleTaskClick}
                     selectedTaskId={selectedTaskId}
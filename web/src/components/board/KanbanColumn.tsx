@@ -11,8 +11,12 @@ import { ErrorBoundary } from '@/components/shared/ErrorBoundary';
 import type { Task, TaskStatus } from '@veritas-kanban/shared';
 
 interface KanbanColumnProps {
-  id: TaskStatus;
+  id: string;
   title: string;
+  category: TaskStatus;
+  wipLimit?: number;
+  /** Tasks in the column across the whole workflow, ignoring filters */
+  wipCount?: number;
   tasks: Task[];
   allTasks: Task[];
   onTaskClick?: (task: Task) => void;
@@ -31,6 +35,9 @@ const columnColors: Record<TaskStatus, string> = {
 export function KanbanColumn({
   id,
   title,
+  category,
+  wipLimit,
+  wipCount,
   tasks,
   allTasks,
   onTaskClick,
@@ -42,14 +49,17 @@ export function KanbanColumn({
   const { isSelecting, selectedIds, toggleGroup } = useBulkActions();
   const showDoneMetrics = featureSettings.board.showDoneMetrics;
 
-  // Get task IDs for done column to fetch bulk metrics
+  const isDone = category === 'done';
+  const atWipLimit = wipLimit !== undefined && (wipCount ?? tasks.length) >= wipLimit;
+
+  // Get task IDs for done columns to fetch bulk metrics
   const doneTaskIds = useMemo(() => {
-    if (id !== 'done' || !showDoneMetrics) return [];
+    if (!isDone || !showDoneMetrics) return [];
     return tasks.map((t) => t.id);
-  }, [id, tasks, showDoneMetrics]);
+  }, [isDone, tasks, showDoneMetrics]);
 
-  // Fetch bulk metrics only for done column
-  const { data: metricsMap } = useBulkTaskMetrics(doneTaskIds, id === 'done' && showDoneMetrics);
+  // Fetch bulk metrics only for done columns
+  const { data: metricsMap } = useBulkTaskMetrics(doneTaskIds, isDone && showDoneMetrics);
 
   // Column selection state
   const columnTaskIds = useMemo(() => tasks.map((t) => t.id), [tasks]);
@@ -66,7 +76,7 @@ export function KanbanColumn({
       aria-roledescription="kanban column"
       className={cn(
         'flex flex-col rounded-lg bg-muted/50 border-t-2 transition-all',
-        columnColors[id],
+        columnColors[category],
         isOver && 'ring-2 ring-primary/50 bg-muted/70'
       )}
     >
@@ -89,11 +99,18 @@ export function KanbanColumn({
           </h2>
         </div>
         <span
-          className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full"
+          className={cn(
+            'text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full',
+            atWipLimit && 'bg-destructive/15 text-destructive'
+          )}
           aria-live="polite"
-          aria-label={`${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`}
+          aria-label={
+            wipLimit !== undefined
+              ? `${wipCount ?? tasks.length} of ${wipLimit} tasks (WIP limit)`
+              : `${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`
+          }
         >
-          {tasks.length}
+          {wipLimit !== undefined ? `${wipCount ?? tasks.length}/${wipLimit}` : tasks.length}
         </span>
       </div>
 
@@ -112,8 +129,7 @@ export function KanbanColumn({
             tasks.map((task) => {
               const blocked = isTaskBlocked(task, allTasks);
               const blockers = blocked ? getTaskBlockers(task, allTasks) : [];
-              const taskMetrics =
-                id === 'done' && showDoneMetrics ? metricsMap?.get(task.id) : undefined;
+              const taskMetrics = isDone && showDoneMetrics ? metricsMap?.get(task.id) : undefined;
               return (
                 <ErrorBoundary key={task.id} level="widget">
                   <TaskCard
@@ -0,0 +1,145 @@
+import type { BudgetLimit } from '@veritas-kanban/shared';
+import {
+  useBudgetStatus,
+  usePendingBudgetOverrides,
+  useReviewBudgetOverride,
+} from '@/hooks/useBudgets';
+import { formatBudgetTokens, formatCurrency } from '@/hooks/useBudgetMetrics';
+import { useToast } from '@/hooks/useToast';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+function budgetLabel(budget: BudgetLimit): string {
+  const window = budget.window === 'daily' ? 'Daily' : 'Monthly';
+  return budget.scope === 'global' ? `${window} (all)` : `${window} · ${budget.target}`;
+}
+
+/**
+ * Enforced budgets with their usage this window, and override requests
+ * filed for work that was refused or paused
+ */
+export function BudgetEnforcementCard() {
+  const { data: status } = useBudgetStatus();
+  const { data: pending = [] } = usePendingBudgetOverrides();
+  const review = useReviewBudgetOverride();
+  const { toast } = useToast();
+
+  if (!status?.enforce || status.budgets.length === 0) {
+    return null;
+  }
+
+  const budgetsById = new Map(status.budgets.map((u) => [u.budget.id, u.budget]));
+  const exhausted = status.budgets.some((u) => u.exhausted && !u.override);
+
+  const decide = (id: string, decision: 'approved' | 'rejected') =>
+    review.mutate(
+      { id, decision },
+      {
+        onSuccess: (result) => {
+          if (result.resumedRuns.length > 0) {
+            toast({ title: `Resumed ${result.resumedRuns.length} paused workflow run(s)` });
+          }
+        },
+        onError: (err) =>
+          toast({
+            variant: 'destructive',
+            title: 'Failed to review override',
+            description: err.message,
+          }),
+      }
+    );
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border p-4 space-y-3',
+        exhausted ? 'bg-red-500/10 border-red-500/20' : 'bg-card'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        {exhausted ? (
+          <ShieldAlert className="h-4 w-4 text-red-500" />
+        ) : (
+          <ShieldCheck className="h-4 w-4 text-green-500" />
+        )}
+        <h3 className="text-sm font-medium">Budget Enforcement</h3>
+      </div>
+
+      <div className="space-y-2">
+        {status.budgets.map((usage) => (
+          <div key={usage.budget.id} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground truncate mr-2">
+                {budgetLabel(usage.budget)}
+              </span>
+              <span
+                className={cn(
+                  'font-medium shrink-0',
+                  usage.exhausted && !usage.override && 'text-red-500'
+                )}
+              >
+                {usage.budget.costLimit
+                  ? `${formatCurrency(usage.cost)} / ${formatCurrency(usage.budget.costLimit)}`
+                  : `${formatBudgetTokens(usage.tokens)} / ${formatBudgetTokens(usage.budget.tokenLimit ?? 0)}`}
+                {usage.override && ' (overridden)'}
+              </span>
+            </div>
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  'h-full',
+                  usage.exhausted
+                    ? 'bg-red-500'
+                    : usage.percentUsed >= 80
+                      ? 'bg-yellow-500'
+                      : 'bg-green-500'
+                )}
+                style={{ width: `${Math.min(usage.percentUsed, 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pending.length > 0 && (
+        <div className="border-t pt-2 space-y-2">
+          <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Override Requests
+          </div>
+          {pending.map((override) => {
+            const budget = budgetsById.get(override.budgetId);
+            return (
+              <div key={override.id} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 truncate" title={override.reason}>
+                  {override.requestedBy ?? 'unknown'} ·{' '}
+                  {budget ? budgetLabel(budget) : override.budgetId}
+                  {override.action && (
+                    <span className="text-muted-foreground"> ({override.action})</span>
+                  )}
+                </span>
+                <Button
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => decide(override.id, 'approved')}
+                  disabled={review.isPending}
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => decide(override.id, 'rejected')}
+                  disabled={review.isPending}
+                >
+                  Reject
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
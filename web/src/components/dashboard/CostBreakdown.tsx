@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useCostMetrics, type CostBreakdownEntry, type MetricsPeriod } from '@/hooks/useMetrics';
+import { cn } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type Dimension = 'byModel' | 'byAgent' | 'byProject';
+
+const dimensionLabels: Record<Dimension, string> = {
+  byModel: 'Model',
+  byAgent: 'Agent',
+  byProject: 'Project',
+};
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}K`;
+  return `${(tokens / 1000000).toFixed(2)}M`;
+}
+
+interface CostBreakdownProps {
+  period: MetricsPeriod;
+  project?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Token cost split by model, agent or project, priced from the model pricing catalog
+ */
+export function CostBreakdown({ period, project, from, to }: CostBreakdownProps) {
+  const [dimension, setDimension] = useState<Dimension>('byModel');
+  const { data, isLoading, error } = useCostMetrics(period, project, from, to);
+
+  const entries: CostBreakdownEntry[] = data?.[dimension] ?? [];
+  const maxCost = Math.max(...entries.map((e) => e.cost), 0);
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-muted-foreground">Cost Breakdown</h3>
+        <div className="flex gap-1" role="tablist" aria-label="Break down cost by">
+          {(Object.keys(dimensionLabels) as Dimension[]).map((d) => (
+            <button
+              key={d}
+              role="tab"
+              aria-selected={dimension === d}
+              onClick={() => setDimension(d)}
+              className={cn(
+                'px-2 py-0.5 text-xs rounded transition-colors',
+                dimension === d
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {dimensionLabels[d]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading && <Skeleton className="h-32 w-full" />}
+
+      {error && (
+        <div className="text-sm text-destructive text-center py-4">Failed to load cost data</div>
+      )}
+
+      {data && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm pb-2 border-b">
+            <span className="text-muted-foreground">Total Cost</span>
+            <div className="text-right">
+              <span className="font-bold text-lg">{formatCost(data.totalCost)}</span>
+              {data.estimatedCost > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {formatCost(data.estimatedCost)} estimated (model not in pricing catalog)
+                </div>
+              )}
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <div className="text-sm text-muted-foreground text-center py-4">
+              No token usage in this period
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-[240px] overflow-y-auto">
+              {entries.map((entry) => (
+                <div key={entry.key} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="truncate mr-2" title={entry.key}>
+                      {entry.key}
+                    </span>
+                    <span className="font-semibold shrink-0">{formatCost(entry.cost)}</span>
+                  </div>
+                  <div className="h-1.5 rounded bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary/70"
+                      style={{ width: `${maxCost > 0 ? (entry.cost / maxCost) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.runs} runs · {formatTokens(entry.inputTokens)} in ·{' '}
+                    {formatTokens(entry.outputTokens)} out
+                    {entry.cacheReadTokens + entry.cacheWriteTokens > 0 &&
+                      ` · ${formatTokens(entry.cacheReadTokens + entry.cacheWriteTokens)} cache`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
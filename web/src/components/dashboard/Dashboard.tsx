@@ -25,6 +25,7 @@ import { DurationDrillDown } from './DurationDrillDown';
 import { TrendsCharts } from './TrendsCharts';
 import { StatusTimeline } from './StatusTimeline';
 import { AgentComparison } from './AgentComparison';
+import { CostBreakdown } from './CostBreakdown';
 import { WhereTimeWent } from './WhereTimeWent';
 import { ActivityClock } from './ActivityClock';
 import { HourlyActivityChart } from './HourlyActivityChart';
@@ -421,6 +422,11 @@ export function Dashboard() {
         </div>
       )}
 
+      {/* Cost by model, agent and project */}
+      {widgets.showCostPerTask && (
+        <CostBreakdown period={period} project={project} from={customFrom} to={customTo} />
+      )}
+
       {/* New Dashboard Widgets */}
       {(widgets.showWallTime || widgets.showSessionMetrics || widgets.showActivityClock) && (
         <div className="grid grid-cols-3 gap-4">
@@ -7,6 +7,8 @@ export { TokensDrillDown } from './TokensDrillDown';
 export { DurationDrillDown } from './DurationDrillDown';
 export { TrendsCharts } from './TrendsCharts';
 export { BudgetCard } from './BudgetCard';
+export { BudgetEnforcementCard } from './BudgetEnforcementCard';
 export { StatusTimeline } from './StatusTimeline';
 export { AgentComparison } from './AgentComparison';
+export { CostBreakdown } from './CostBreakdown';
 export { ExportDialog, type ExportScope, type ExportFormat } from './ExportDialog';
@@ -1,6 +1,8 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { useKeyboard } from '@/hooks/useKeyboard';
+import { useSearch } from '@/hooks/useSearch';
+import { useToast } from '@/hooks/useToast';
 import { useView } from '@/contexts/ViewContext';
 import {
   Plus,
@@ -13,6 +15,8 @@ import {
   Moon,
   Sun,
   Keyboard,
+  FileText,
+  SquareCheck,
 } from 'lucide-react';
 import { useTheme } from '@/hooks/useTheme';
 import { cn } from '@/lib/utils';
@@ -25,18 +29,26 @@ interface CommandItem {
   category: string;
   action: () => void;
   keywords?: string[];
+  /** Secondary line (search result snippet) */
+  detail?: string;
 }
 
+/** Wait this long after typing stops before searching */
+const SEARCH_DEBOUNCE_MS = 200;
+
 export function CommandPalette() {
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [searchQuery, setSearchQuery] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
   const { openCreateDialog, isHelpOpen } = useKeyboard();
-  const { setView } = useView();
+  const { setView, navigateToTask } = useView();
   const { theme, setTheme } = useTheme();
+  const { toast } = useToast();
+  const { data: searchData } = useSearch(open ? searchQuery : '');
 
   const commands: CommandItem[] = useMemo(
     () => [
@@ -162,17 +174,53 @@ export function CommandPalette() {
     [openCreateDialog, setView, theme, setTheme]
   );
 
-  // Filter commands by query
+  // Debounce the query sent to the search API
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Tasks and docs matching the query
+  const searchResults: CommandItem[] = useMemo(() => {
+    if (query.trim().length < 2 || !searchData) return [];
+    return searchData.results.map((result) =>
+      result.kind === 'task'
+        ? {
+            id: `task:${result.id}`,
+            label: result.title,
+            icon: <SquareCheck className="h-4 w-4" />,
+            category: 'Tasks',
+            detail:
+              result.snippet ??
+              [result.task?.status, result.task?.project].filter(Boolean).join(' · '),
+            action: () => navigateToTask(result.id),
+          }
+        : {
+            id: `doc:${result.id}`,
+            label: result.title,
+            icon: <FileText className="h-4 w-4" />,
+            category: 'Docs',
+            detail: result.snippet ?? result.id,
+            action: () => {
+              navigator.clipboard?.writeText(result.id);
+              toast({ title: 'Doc path copied', description: result.id });
+            },
+          }
+    );
+  }, [query, searchData, navigateToTask, toast]);
+
+  // Filter commands by query, then append search results
   const filtered = useMemo(() => {
     if (!query.trim()) return commands;
     const q = query.toLowerCase();
-    return commands.filter(
+    const matching = commands.filter(
       (cmd) =>
         cmd.label.toLowerCase().includes(q) ||
         cmd.category.toLowerCase().includes(q) ||
         cmd.keywords?.some((k) => k.includes(q))
     );
-  }, [commands, query]);
+    return [...matching, ...searchResults];
+  }, [commands, query, searchResults]);
 
   // Group by category
   const grouped = useMemo(() => {
@@ -259,8 +307,8 @@ export function CommandPalette() {
               setQuery(e.target.value);
               setSelectedIndex(0);
             }}
-            placeholder="Type a command or search..."
-            aria-label="Search commands"
+            placeholder="Search tasks and docs, or type a command..."
+            aria-label="Search commands, tasks and docs"
             className="flex-1 h-12 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
           />
           <kbd className="hidden sm:inline-flex h-5 items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] text-muted-foreground">
@@ -271,7 +319,7 @@ export function CommandPalette() {
         {/* Results */}
         <div ref={listRef} className="max-h-[320px] overflow-y-auto p-2">
           {filtered.length === 0 ? (
-            <div className="py-6 text-center text-sm text-muted-foreground">No commands found</div>
+            <div className="py-6 text-center text-sm text-muted-foreground">No results found</div>
           ) : (
             grouped.map((group) => (
               <div key={group.category}>
@@ -302,7 +350,14 @@ export function CommandPalette() {
                       >
                         {cmd.icon}
                       </span>
-                      <span className="flex-1 text-left">{cmd.label}</span>
+                      <span className="flex-1 min-w-0 text-left">
+                        <span className="block truncate">{cmd.label}</span>
+                        {cmd.detail && (
+                          <span className="block truncate text-xs text-muted-foreground">
+                            {cmd.detail}
+                          </span>
+                        )}
+                      </span>
                       {cmd.shortcut && (
                         <kbd className="ml-auto hidden sm:inline-flex h-5 items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] text-muted-foreground">
                           {cmd.shortcut}
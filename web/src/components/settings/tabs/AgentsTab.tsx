@@ -373,6 +373,10 @@ function RoutingRulesSection({ agents }: RoutingRulesSectionProps) {
     saveConfig({ ...config, fallbackOnFailure: !config.fallbackOnFailure });
   };
 
+  const handleRegistryToggle = () => {
+    saveConfig({ ...config, useRegistry: config.useRegistry === false });
+  };
+
   const handleMaxRetriesChange = (value: number) => {
     saveConfig({ ...config, maxRetries: Math.min(3, Math.max(0, value)) });
   };
@@ -519,6 +523,12 @@ function RoutingRulesSection({ agents }: RoutingRulesSectionProps) {
                 checked={config.fallbackOnFailure}
                 onCheckedChange={handleFallbackToggle}
               />
+              <ToggleRow
+                label="Use Agent Registry"
+                description="Score live registered agents by capability, load, success rate and cost"
+                checked={config.useRegistry !== false}
+                onCheckedChange={handleRegistryToggle}
+              />
               <NumberRow
                 label="Max Retries"
                 description="Maximum retry attempts before giving up (0-3)"
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/useToast';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import {
+  BOARD_STATUS_CATEGORIES,
+  validateBoardColumns,
+  type BoardColumn,
+  type TaskStatus,
+} from '@veritas-kanban/shared';
+
+const CATEGORY_LABELS: Partial<Record<TaskStatus, string>> = {
+  todo: 'To Do',
+  'in-progress': 'In Progress',
+  blocked: 'Blocked',
+  done: 'Done',
+};
+
+/** Column IDs are derived from the label once and then stay fixed, so tasks keep their column */
+function columnIdFromLabel(label: string, taken: Set<string>): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'column';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+interface BoardColumnsEditorProps {
+  columns: BoardColumn[];
+  onSave: (columns: BoardColumn[]) => unknown;
+  /** Shown instead of the column count, e.g. when a project uses the default columns */
+  summary?: string;
+  /** Offer to drop these columns (e.g. a project going back to the default workflow) */
+  onReset?: () => unknown;
+}
+
+/**
+ * Edit a board workflow: ordered columns mapped to status categories, with
+ * optional WIP limits
+ */
+export function BoardColumnsEditor({ columns, onSave, summary, onReset }: BoardColumnsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<BoardColumn[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const current = draft ?? columns;
+
+  const change = (index: number, patch: Partial<BoardColumn>) => {
+    setDraft(current.map((column, i) => (i === index ? { ...column, ...patch } : column)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...current];
+    const [column] = next.splice(index, 1);
+    next.splice(index + offset, 0, column);
+    setDraft(next);
+  };
+
+  const run = async (action: () => unknown) => {
+    setSaving(true);
+    try {
+      await action();
+      setDraft(null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save columns',
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const taken = new Set(current.map((c) => c.id).filter(Boolean));
+    const cleaned = current
+      .filter((c) => c.label.trim())
+      .map((c) => {
+        const id = c.id || columnIdFromLabel(c.label, taken);
+        taken.add(id);
+        return {
+          id,
+          label: c.label.trim(),
+          category: c.category,
+          ...(c.wipLimit ? { wipLimit: c.wipLimit } : {}),
+        };
+      });
+
+    const issues = validateBoardColumns(cleaned);
+    if (issues.length > 0) {
+      toast({ variant: 'destructive', title: 'Invalid columns', description: issues.join('. ') });
+      return;
+    }
+    return run(() => onSave(cleaned));
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Board columns ({summary ?? columns.length})
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-1.5">
+          {current.map((column, index) => (
+            <div key={column.id || `new-${index}`} className="flex items-center gap-2">
+              <Input
+                value={column.label}
+                onChange={(e) => change(index, { label: e.target.value })}
+                placeholder="Label"
+                aria-label="Column label"
+                className="h-7 w-[160px]"
+              />
+              <Select
+                value={column.category}
+                onValueChange={(category) => change(index, { category: category as TaskStatus })}
+              >
+                <SelectTrigger className="h-7 w-[120px]" aria-label="Column status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOARD_STATUS_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                value={column.wipLimit ?? ''}
+                onChange={(e) =>
+                  change(index, {
+                    wipLimit: e.target.value ? Math.max(1, Number(e.target.value)) : undefined,
+                  })
+                }
+                placeholder="WIP"
+                aria-label="WIP limit"
+                className="h-7 w-[72px]"
+              />
+              <div className="flex items-center ml-auto">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${column.label || 'column'} left`}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => move(index, 1)}
+                  disabled={index === current.length - 1}
+                  aria-label={`Move ${column.label || 'column'} right`}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setDraft(current.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${column.label || 'column'}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setDraft([...current, { id: '', label: '', category: 'in-progress' }])}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add column
+            </Button>
+            {draft && (
+              <>
+                <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save columns'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+              </>
+            )}
+            {onReset && !draft && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-muted-foreground"
+                onClick={() => run(onReset)}
+                disabled={saving}
+              >
+                Use default columns
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
 import { useFeatureSettings, useDebouncedFeatureUpdate } from '@/hooks/useFeatureSettings';
 import { DEFAULT_FEATURE_SETTINGS, type DashboardWidgetSettings } from '@veritas-kanban/shared';
 import { SettingRow, ToggleRow, SectionHeader, SaveIndicator } from '../shared';
+import { BoardColumnsEditor } from './BoardColumnsEditor';
 
 export function BoardTab() {
   const { settings } = useFeatureSettings();
@@ -132,6 +133,17 @@ export function BoardTab() {
           checked={settings.board.showDoneMetrics}
           onCheckedChange={(v) => update('showDoneMetrics', v)}
         />
+        <div className="py-3">
+          <div className="text-sm font-medium">Columns</div>
+          <div className="text-xs text-muted-foreground mt-0.5">
+            Each column maps to a status and can have a WIP limit. Projects can declare their own
+            columns under Manage → Projects
+          </div>
+          <BoardColumnsEditor
+            columns={settings.board.columns ?? DEFAULT_FEATURE_SETTINGS.board.columns}
+            onSave={(columns) => debouncedUpdate({ board: { columns } })}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/useToast';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import {
+  validateBudgetLimits,
+  type BudgetLimit,
+  type BudgetScope,
+  type BudgetWindow,
+} from '@veritas-kanban/shared';
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  global: 'Global',
+  project: 'Project',
+  agent: 'Agent',
+};
+
+/** Budget IDs are derived once and then stay fixed, so override requests keep pointing at them */
+function budgetIdFor(limit: BudgetLimit, taken: Set<string>): string {
+  const base =
+    `${limit.target || limit.scope}-${limit.window}`
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '-')
+      .replace(/^[-_]+|-+$/g, '')
+      .slice(0, 40) || 'budget';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+interface BudgetLimitsEditorProps {
+  limits: BudgetLimit[];
+  onSave: (limits: BudgetLimit[]) => unknown;
+}
+
+/**
+ * Edit scoped budgets: a daily or monthly cost and/or token cap for all
+ * work, one project or one agent
+ */
+export function BudgetLimitsEditor({ limits, onSave }: BudgetLimitsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<BudgetLimit[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const current = draft ?? limits;
+
+  const change = (index: number, patch: Partial<BudgetLimit>) => {
+    setDraft(current.map((limit, i) => (i === index ? { ...limit, ...patch } : limit)));
+  };
+
+  const handleSave = async () => {
+    const taken = new Set(current.map((l) => l.id).filter(Boolean));
+    const cleaned = current.map((l) => {
+      const target = l.scope === 'global' ? undefined : l.target?.trim();
+      const id = l.id || budgetIdFor({ ...l, target }, taken);
+      taken.add(id);
+      return {
+        id,
+        scope: l.scope,
+        window: l.window,
+        ...(target ? { target } : {}),
+        ...(l.costLimit ? { costLimit: l.costLimit } : {}),
+        ...(l.tokenLimit ? { tokenLimit: l.tokenLimit } : {}),
+      };
+    });
+
+    const issues = validateBudgetLimits(cleaned);
+    if (issues.length > 0) {
+      toast({ variant: 'destructive', title: 'Invalid budgets', description: issues.join('. ') });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(cleaned);
+      setDraft(null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save budgets',
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parseLimit = (value: string) => (value ? Math.max(0, Number(value)) : undefined);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Scoped budgets ({limits.length})
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-1.5">
+          {current.map((limit, index) => (
+            <div key={limit.id || `new-${index}`} className="flex items-center gap-2">
+              <Select
+                value={limit.scope}
+                onValueChange={(scope) => change(index, { scope: scope as BudgetScope })}
+              >
+                <SelectTrigger className="h-7 w-[100px]" aria-label="Budget scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map((scope) => (
+                    <SelectItem key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={limit.scope === 'global' ? '' : (limit.target ?? '')}
+                onChange={(e) => change(index, { target: e.target.value })}
+                placeholder={limit.scope === 'agent' ? 'Agent' : 'Project'}
+                aria-label="Budget target"
+                className="h-7 w-[120px]"
+                disabled={limit.scope === 'global'}
+              />
+              <Select
+                value={limit.window}
+                onValueChange={(window) => change(index, { window: window as BudgetWindow })}
+              >
+                <SelectTrigger className="h-7 w-[100px]" aria-label="Budget window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={limit.costLimit ?? ''}
+                onChange={(e) => change(index, { costLimit: parseLimit(e.target.value) })}
+                placeholder="USD"
+                aria-label="Cost limit"
+                className="h-7 w-[80px]"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={limit.tokenLimit ?? ''}
+                onChange={(e) => {
+                  const tokens = parseLimit(e.target.value);
+                  change(index, {
+                    tokenLimit: tokens === undefined ? undefined : Math.round(tokens),
+                  });
+                }}
+                placeholder="Tokens"
+                aria-label="Token limit"
+                className="h-7 w-[100px]"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 ml-auto"
+                onClick={() => setDraft(current.filter((_, i) => i !== index))}
+                aria-label={`Remove ${limit.id || 'budget'}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() =>
+                setDraft([...current, { id: '', scope: 'project', target: '', window: 'daily' }])
+              }
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add budget
+            </Button>
+            {draft && (
+              <>
+                <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save budgets'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/useToast';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import {
+  CUSTOM_FIELD_TYPES,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from '@veritas-kanban/shared';
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  string: 'Text',
+  number: 'Number',
+  enum: 'Choice',
+  date: 'Date',
+  user: 'User',
+  url: 'URL',
+};
+
+/** Field IDs are derived from the label once and then stay fixed, so renames keep values */
+function fieldIdFromLabel(label: string, taken: Set<string>): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^[^a-z]+|-$/g, '')
+      .slice(0, 40) || 'field';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+interface CustomFieldsEditorProps {
+  fields: CustomFieldDefinition[];
+  onSave: (fields: CustomFieldDefinition[]) => Promise<unknown>;
+}
+
+/**
+ * Declare the custom fields of one task type
+ */
+export function CustomFieldsEditor({ fields, onSave }: CustomFieldsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<CustomFieldDefinition[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const current = draft ?? fields;
+
+  const change = (index: number, patch: Partial<CustomFieldDefinition>) => {
+    setDraft(current.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+  };
+
+  const handleSave = async () => {
+    const taken = new Set(current.map((f) => f.id).filter(Boolean));
+    const cleaned = current
+      .filter((f) => f.label.trim())
+      .map((f) => {
+        const id = f.id || fieldIdFromLabel(f.label, taken);
+        taken.add(id);
+        return {
+          ...f,
+          id,
+          label: f.label.trim(),
+          options:
+            f.type === 'enum' ? (f.options ?? []).map((o) => o.trim()).filter(Boolean) : undefined,
+        };
+      });
+
+    setSaving(true);
+    try {
+      await onSave(cleaned);
+      setDraft(null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save fields',
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Custom fields ({fields.length})
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-1.5">
+          {current.map((field, index) => (
+            <div key={field.id || `new-${index}`} className="flex items-center gap-2">
+              <Input
+                value={field.label}
+                onChange={(e) => change(index, { label: e.target.value })}
+                placeholder="Label"
+                aria-label="Field label"
+                className="h-7 w-[140px]"
+              />
+              <Select
+                value={field.type}
+                onValueChange={(type) => change(index, { type: type as CustomFieldType })}
+              >
+                <SelectTrigger className="h-7 w-[100px]" aria-label="Field type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {field.type === 'enum' && (
+                <Input
+                  value={(field.options ?? []).join(',')}
+                  onChange={(e) => change(index, { options: e.target.value.split(',') })}
+                  placeholder="Options, comma-separated"
+                  aria-label="Field options"
+                  className="h-7 flex-1"
+                />
+              )}
+              <label className="flex items-center gap-1 text-xs text-muted-foreground ml-auto">
+                <Checkbox
+                  checked={!!field.required}
+                  onCheckedChange={(checked) => change(index, { required: checked === true })}
+                />
+                Required
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => setDraft(current.filter((_, i) => i !== index))}
+                aria-label={`Remove ${field.label || 'field'}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setDraft([...current, { id: '', label: '', type: 'string' }])}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add field
+            </Button>
+            {draft && (
+              <>
+                <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save fields'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft(null)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
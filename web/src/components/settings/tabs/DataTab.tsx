@@ -1,6 +1,8 @@
+import { Input } from '@/components/ui/input';
 import { useFeatureSettings, useDebouncedFeatureUpdate } from '@/hooks/useFeatureSettings';
 import { DEFAULT_FEATURE_SETTINGS } from '@veritas-kanban/shared';
-import { ToggleRow, NumberRow, SectionHeader, SaveIndicator } from '../shared';
+import { ToggleRow, NumberRow, SettingRow, SectionHeader, SaveIndicator } from '../shared';
+import { BudgetLimitsEditor } from './BudgetLimitsEditor';
 
 export function DataTab() {
   const { settings } = useFeatureSettings();
@@ -18,6 +20,19 @@ export function DataTab() {
     debouncedUpdate({ budget: { [key]: value } });
   };
 
+  /** Comma-separated percentages, e.g. "80, 100" */
+  const updateNotifyThresholds = (value: string) => {
+    const thresholds = [
+      ...new Set(
+        value
+          .split(',')
+          .map((part) => Number(part.trim()))
+          .filter((n) => Number.isFinite(n) && n >= 1 && n <= 1000)
+      ),
+    ].sort((a, b) => a - b);
+    updateBudget('notifyThresholds', thresholds.slice(0, 10));
+  };
+
   const resetData = () => {
     debouncedUpdate({
       telemetry: DEFAULT_FEATURE_SETTINGS.telemetry,
@@ -118,6 +133,42 @@ export function DataTab() {
                 hideSpinners
                 maxLength={2}
               />
+              <ToggleRow
+                label="Enforce Budgets"
+                description="Refuse agent starts, automation and workflow steps once a budget is exhausted until an admin approves an override"
+                checked={settings.budget.enforce}
+                onCheckedChange={(v) => updateBudget('enforce', v)}
+              />
+              <SettingRow
+                label="Notify At"
+                description="Send a notification when a budget reaches each of these percentages"
+              >
+                <Input
+                  key={(
+                    settings.budget.notifyThresholds ??
+                    DEFAULT_FEATURE_SETTINGS.budget.notifyThresholds
+                  ).join(', ')}
+                  defaultValue={(
+                    settings.budget.notifyThresholds ??
+                    DEFAULT_FEATURE_SETTINGS.budget.notifyThresholds
+                  ).join(', ')}
+                  onBlur={(e) => updateNotifyThresholds(e.target.value)}
+                  placeholder="80, 100"
+                  aria-label="Budget notification thresholds"
+                  className="w-32 h-8 text-xs"
+                />
+              </SettingRow>
+              <div className="py-3">
+                <div className="text-sm font-medium">Scoped Budgets</div>
+                <div className="text-xs text-muted-foreground mt-0.5">
+                  Daily or monthly caps for all work, a single project or a single agent, on top of
+                  the monthly limits above
+                </div>
+                <BudgetLimitsEditor
+                  limits={settings.budget.limits ?? []}
+                  onSave={(limits) => updateBudget('limits', limits)}
+                />
+              </div>
             </>
           )}
         </div>
@@ -30,12 +30,16 @@ import type {
 import { exportAllTemplates, parseTemplateFile, checkDuplicateName } from '@/lib/template-io';
 import { ManagedListManager } from '../ManagedListManager';
 import { AddTemplateForm, TemplateItem } from './TemplateComponents';
+import { CustomFieldsEditor } from './CustomFieldsEditor';
+import { useFeatureSettings } from '@/hooks/useFeatureSettings';
+import { BoardColumnsEditor } from './BoardColumnsEditor';
 
 export function ManageTab() {
   const { data: _config } = useConfig();
   const { data: templates, isLoading: templatesLoading } = useTemplates();
   const taskTypesManager = useTaskTypesManager();
   const projectsManager = useProjectsManager();
+  const { settings } = useFeatureSettings();
   const sprintsManager = useSprintsManager();
   const { toast } = useToast();
   const [showAddTemplateForm, setShowAddTemplateForm] = useState(false);
@@ -116,50 +120,56 @@ export function ManageTab() {
             onReorder={taskTypesManager.reorder}
             canDeleteCheck={taskTypesManager.canDelete}
             renderExtraFields={(item, onChange) => (
-              <div className="flex items-center gap-4 mt-2">
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground whitespace-nowrap">Icon</Label>
-                  <Select value={item.icon} onValueChange={(icon) => onChange({ icon })}>
-                    <SelectTrigger className="h-7 w-[120px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {getAvailableIcons().map((iconName) => {
-                        const IconComponent = getTypeIcon(iconName);
-                        return (
-                          <SelectItem key={iconName} value={iconName}>
+              <>
+                <div className="flex items-center gap-4 mt-2">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground whitespace-nowrap">Icon</Label>
+                    <Select value={item.icon} onValueChange={(icon) => onChange({ icon })}>
+                      <SelectTrigger className="h-7 w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getAvailableIcons().map((iconName) => {
+                          const IconComponent = getTypeIcon(iconName);
+                          return (
+                            <SelectItem key={iconName} value={iconName}>
+                              <div className="flex items-center gap-2">
+                                {IconComponent && <IconComponent className="h-4 w-4" />}
+                                {iconName}
+                              </div>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground whitespace-nowrap">Color</Label>
+                    <Select
+                      value={item.color || 'border-l-gray-500'}
+                      onValueChange={(color) => onChange({ color })}
+                    >
+                      <SelectTrigger className="h-7 w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AVAILABLE_COLORS.map((color) => (
+                          <SelectItem key={color.value} value={color.value}>
                             <div className="flex items-center gap-2">
-                              {IconComponent && <IconComponent className="h-4 w-4" />}
-                              {iconName}
+                              <div className={`w-4 h-4 rounded border-l-4 ${color.value}`}></div>
+                              {color.label}
                             </div>
                           </SelectItem>
-                        );
-                      })}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground whitespace-nowrap">Color</Label>
-                  <Select
-                    value={item.color || 'border-l-gray-500'}
-                    onValueChange={(color) => onChange({ color })}
-                  >
-                    <SelectTrigger className="h-7 w-[120px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {AVAILABLE_COLORS.map((color) => (
-                        <SelectItem key={color.value} value={color.value}>
-                          <div className="flex items-center gap-2">
-                            <div className={`w-4 h-4 rounded border-l-4 ${color.value}`}></div>
-                            {color.label}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
+                <CustomFieldsEditor
+                  fields={item.customFields ?? []}
+                  onSave={(customFields) => taskTypesManager.update(item.id, { customFields })}
+                />
+              </>
             )}
             newItemDefaults={{ icon: 'Code', color: 'border-l-gray-500' }}
           />
@@ -180,38 +190,50 @@ export function ManageTab() {
             onReorder={projectsManager.reorder}
             canDeleteCheck={projectsManager.canDelete}
             renderExtraFields={(item, onChange) => (
-              <div className="flex items-center gap-4 mt-2">
-                <div className="flex items-center gap-2 flex-1">
-                  <Label className="text-xs text-muted-foreground whitespace-nowrap">Desc</Label>
-                  <Input
-                    value={item.description || ''}
-                    onChange={(e) => onChange({ description: e.target.value })}
-                    placeholder="Optional..."
-                    className="h-7 flex-1"
-                  />
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground whitespace-nowrap">Color</Label>
-                  <Select
-                    value={item.color || 'bg-muted'}
-                    onValueChange={(color) => onChange({ color })}
-                  >
-                    <SelectTrigger className="h-7 w-[120px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {AVAILABLE_PROJECT_COLORS.map((color) => (
-                        <SelectItem key={color.value} value={color.value}>
-                          <div className="flex items-center gap-2">
-                            <div className={`w-4 h-4 rounded ${color.value}`}></div>
-                            {color.label}
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+              <>
+                <div className="flex items-center gap-4 mt-2">
+                  <div className="flex items-center gap-2 flex-1">
+                    <Label className="text-xs text-muted-foreground whitespace-nowrap">Desc</Label>
+                    <Input
+                      value={item.description || ''}
+                      onChange={(e) => onChange({ description: e.target.value })}
+                      placeholder="Optional..."
+                      className="h-7 flex-1"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs text-muted-foreground whitespace-nowrap">Color</Label>
+                    <Select
+                      value={item.color || 'bg-muted'}
+                      onValueChange={(color) => onChange({ color })}
+                    >
+                      <SelectTrigger className="h-7 w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AVAILABLE_PROJECT_COLORS.map((color) => (
+                          <SelectItem key={color.value} value={color.value}>
+                            <div className="flex items-center gap-2">
+                              <div className={`w-4 h-4 rounded ${color.value}`}></div>
+                              {color.label}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
+                <BoardColumnsEditor
+                  columns={item.columns?.length ? item.columns : settings.board.columns}
+                  summary={item.columns?.length ? undefined : 'default'}
+                  onSave={(columns) => projectsManager.update(item.id, { columns })}
+                  onReset={
+                    item.columns?.length
+                      ? () => projectsManager.update(item.id, { columns: [] })
+                      : undefined
+                  }
+                />
+              </>
             )}
             newItemDefaults={{ description: '', color: 'bg-blue-500/20' }}
           />
@@ -26,6 +26,7 @@ import { useTemplateForm } from '@/hooks/useTemplateForm';
 import { useCreateTaskForm } from '@/hooks/useCreateTaskForm';
 import { BlueprintPreview } from './create/BlueprintPreview';
 import { TemplateVariableInputs } from './create/TemplateVariableInputs';
+import { CustomFieldInputs } from './CustomFieldInputs';
 import type { TaskPriority } from '@veritas-kanban/shared';
 import { FileText, X, Check, HelpCircle, Info } from 'lucide-react';
 import { getCategoryIcon } from '@/lib/template-categories';
@@ -46,6 +47,7 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
     setProject,
     setSprint,
     setAgent,
+    setCustomField,
     setCategoryFilter,
     setNewProjectName,
     toggleHelp,
@@ -64,6 +66,7 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
     project,
     sprint,
     agent,
+    customFields,
     categoryFilter,
     showHelp,
     showNewProject,
@@ -75,6 +78,10 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
   const { data: sprints = [] } = useSprints();
   const { data: config } = useConfig();
   const enabledAgents = config?.agents.filter((a) => a.enabled) || [];
+  const customFieldDefs = taskTypes.find((t) => t.id === type)?.customFields ?? [];
+  const missingRequiredField = customFieldDefs.some(
+    (f) => f.required && customFields[f.id] === undefined
+  );
 
   const {
     selectedTemplate,
@@ -125,11 +132,11 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
     e.preventDefault();
 
     // Use computed canSubmit instead of inline check
-    if (!canSubmit(isBlueprint)) {
+    if (!canSubmit(isBlueprint) || (!isBlueprint && missingRequiredField)) {
       return;
     }
 
-    await createTasks(title, description, project, sprint, type, priority, agent);
+    await createTasks(title, description, project, sprint, type, priority, agent, customFields);
 
     // Reset form state atomically
     resetForm();
@@ -240,6 +247,14 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
             {isBlueprint ? (
               <>
                 <BlueprintPreview template={currentTemplate!} />
+                {customFieldDefs.length > 0 && (
+                  <CustomFieldInputs
+                    fields={customFieldDefs}
+                    values={customFields}
+                    onChange={setCustomField}
+                  />
+                )}
+
                 <TemplateVariableInputs
                   variables={requiredCustomVars}
                   values={customVars}
@@ -455,7 +470,12 @@ export function CreateTaskDialog({ open, onOpenChange }: CreateTaskDialogProps)
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={!canSubmit(isBlueprint) || isCreating}>
+            <Button
+              type="submit"
+              disabled={
+                !canSubmit(isBlueprint) || (!isBlueprint && missingRequiredField) || isCreating
+              }
+            >
               {isCreating ? 'Creating...' : isBlueprint ? 'Create Tasks' : 'Create Task'}
             </Button>
           </DialogFooter>
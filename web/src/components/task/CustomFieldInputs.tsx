@@ -0,0 +1,132 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useConfig } from '@/hooks/useConfig';
+import { ExternalLink } from 'lucide-react';
+import type { CustomFieldDefinition, CustomFieldValue } from '@veritas-kanban/shared';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue | null> | undefined;
+  /** `null` means the field was cleared */
+  onChange: (fieldId: string, value: CustomFieldValue | null) => void;
+  readOnly?: boolean;
+}
+
+function ReadOnlyValue({ field, value }: { field: CustomFieldDefinition; value: string }) {
+  if (field.type === 'url' && value) {
+    return (
+      <a
+        href={value}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-1 text-sm text-primary hover:underline truncate px-3 py-2"
+      >
+        {value}
+        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+      </a>
+    );
+  }
+  return (
+    <div className="text-sm font-medium px-3 py-2 bg-muted/30 rounded-md">
+      {value || <span className="text-muted-foreground italic">Not set</span>}
+    </div>
+  );
+}
+
+/**
+ * Inputs for the custom fields a task type declares
+ */
+export function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  readOnly = false,
+}: CustomFieldInputsProps) {
+  const { data: config } = useConfig();
+  const agents = config?.agents.filter((a) => a.enabled) || [];
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => {
+        const value = values?.[field.id];
+        const text = value === null || value === undefined ? '' : String(value);
+        const inputId = `custom-field-${field.id}`;
+        const setText = (next: string) => onChange(field.id, next.trim() === '' ? null : next);
+
+        let control: React.ReactNode;
+        if (readOnly) {
+          control = <ReadOnlyValue field={field} value={text} />;
+        } else if (field.type === 'enum') {
+          control = (
+            <Select
+              value={text || '__none__'}
+              onValueChange={(v) => onChange(field.id, v === '__none__' ? null : v)}
+            >
+              <SelectTrigger id={inputId}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none__">—</SelectItem>
+                {(field.options ?? []).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        } else if (field.type === 'number') {
+          control = (
+            <Input
+              id={inputId}
+              type="number"
+              value={text}
+              onChange={(e) =>
+                onChange(field.id, e.target.value === '' ? null : Number(e.target.value))
+              }
+            />
+          );
+        } else {
+          control = (
+            <>
+              <Input
+                id={inputId}
+                type={field.type === 'date' ? 'date' : field.type === 'url' ? 'url' : 'text'}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={field.type === 'url' ? 'https://...' : undefined}
+                list={field.type === 'user' ? `${inputId}-users` : undefined}
+              />
+              {field.type === 'user' && (
+                <datalist id={`${inputId}-users`}>
+                  {agents.map((a) => (
+                    <option key={a.type} value={a.type}>
+                      {a.name}
+                    </option>
+                  ))}
+                </datalist>
+              )}
+            </>
+          );
+        }
+
+        return (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={inputId} className="text-muted-foreground" title={field.description}>
+              {field.label}
+              {field.required && <span className="text-destructive ml-0.5">*</span>}
+            </Label>
+            {control}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
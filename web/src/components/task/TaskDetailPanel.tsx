@@ -9,6 +9,7 @@ import { useFeatureSettings } from '@/hooks/useFeatureSettings';
 import { useDebouncedSave } from '@/hooks/useDebouncedSave';
 import { TaskDetailsTab } from './detail/TaskDetailsTab';
 import { ProgressTab } from './detail/ProgressTab';
+import { HistoryTab } from './detail/HistoryTab';
 import { GitSection } from './GitSection';
 import { AgentPanel } from './AgentPanel';
 import { DiffViewer } from './DiffViewer';
@@ -33,6 +34,7 @@ import {
   MessageSquare,
   NotebookPen,
   Workflow,
+  History,
 } from 'lucide-react';
 import type { Task, ReviewComment, ReviewState } from '@veritas-kanban/shared';
 
@@ -174,7 +176,7 @@ export function TaskDetailPanel({
           className="flex-1 flex flex-col overflow-hidden mt-3"
         >
           <TabsList
-            className={`grid w-full flex-shrink-0 ${isCodeTask ? (taskSettings.enableAttachments ? 'grid-cols-8' : 'grid-cols-7') : taskSettings.enableAttachments ? 'grid-cols-4' : 'grid-cols-3'}`}
+            className={`grid w-full flex-shrink-0 ${isCodeTask ? (taskSettings.enableAttachments ? 'grid-cols-9' : 'grid-cols-8') : taskSettings.enableAttachments ? 'grid-cols-5' : 'grid-cols-4'}`}
           >
             <TabsTrigger value="details">Details</TabsTrigger>
             <TabsTrigger value="progress" className="flex items-center gap-1">
@@ -215,6 +217,10 @@ export function TaskDetailPanel({
               <BarChart3 className="h-3 w-3" />
               Metrics
             </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-1">
+              <History className="h-3 w-3" />
+              History
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 overflow-y-auto mt-4">
@@ -311,6 +317,13 @@ export function TaskDetailPanel({
                 <TaskMetricsPanel task={localTask} />
               </FeatureErrorBoundary>
             </TabsContent>
+
+            {/* History Tab */}
+            <TabsContent value="history" className="mt-0">
+              <FeatureErrorBoundary fallbackTitle="Revision history failed to load">
+                <HistoryTab task={localTask} readOnly={readOnly} />
+              </FeatureErrorBoundary>
+            </TabsContent>
           </div>
         </Tabs>
       </SheetContent>
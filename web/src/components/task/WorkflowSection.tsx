@@ -39,7 +39,7 @@ interface Workflow {
 interface WorkflowRun {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'blocked' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'blocked' | 'completed' | 'failed' | 'cancelled';
   currentStep?: string;
   startedAt: string;
 }
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useTaskRevisions, useRestoreRevision } from '@/hooks/useTaskRevisions';
+import { useToast } from '@/hooks/useToast';
+import { cn } from '@/lib/utils';
+import { History, ChevronDown, ChevronRight, RotateCcw, User } from 'lucide-react';
+import {
+  NON_RESTORABLE_TASK_FIELDS,
+  type Task,
+  type TaskFieldChange,
+  type TaskRevision,
+} from '@veritas-kanban/shared';
+
+interface HistoryTabProps {
+  task: Task;
+  readOnly?: boolean;
+}
+
+interface DiffRow {
+  type: 'add' | 'delete' | 'same';
+  text: string;
+}
+
+/** Beyond this many lines per side, show a plain before/after instead of an LCS diff */
+const MAX_DIFF_LINES = 400;
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Line diff via longest common subsequence
+ */
+function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ type: 'delete' as const, text })),
+      ...b.map((text) => ({ type: 'add' as const, text })),
+    ];
+  }
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      rows.push({ type: 'add', text: b[j++] });
+    } else {
+      rows.push({ type: 'delete', text: a[i++] });
+    }
+  }
+  return rows;
+}
+
+function FieldDiff({ change }: { change: TaskFieldChange }) {
+  const rows = diffLines(formatValue(change.before), formatValue(change.after));
+
+  return (
+    <div className="rounded border border-border font-mono text-xs overflow-x-auto">
+      {rows.length === 0 ? (
+        <div className="px-2 py-1 text-muted-foreground">(empty)</div>
+      ) : (
+        rows.map((row, index) => (
+          <div
+            key={index}
+            className={cn(
+              'px-2 whitespace-pre-wrap break-words',
+              row.type === 'add' && 'bg-green-500/10 text-green-600 dark:text-green-400',
+              row.type === 'delete' && 'bg-red-500/10 text-red-600 dark:text-red-400'
+            )}
+          >
+            <span className="select-none mr-2 text-muted-foreground">
+              {row.type === 'add' ? '+' : row.type === 'delete' ? '-' : ' '}
+            </span>
+            {row.text}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function RevisionItem({
+  revision,
+  revisionNumbers,
+  readOnly,
+  isRestoring,
+  onRestore,
+}: {
+  revision: TaskRevision;
+  revisionNumbers: Map<string, number>;
+  readOnly: boolean;
+  isRestoring: boolean;
+  onRestore: (revision: TaskRevision, field?: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const restoredFrom = revision.restoredFrom ? revisionNumbers.get(revision.restoredFrom) : null;
+
+  return (
+    <div className="rounded-md border border-border">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="flex flex-1 items-center gap-2 text-left min-w-0"
+          aria-expanded={expanded}
+        >
+          {expanded ? (
+            <ChevronDown className="h-3 w-3 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-3 w-3 flex-shrink-0" />
+          )}
+          <span className="text-sm font-medium">#{revision.revision}</span>
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <User className="h-3 w-3" />
+            {revision.author}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(revision.timestamp).toLocaleString()}
+          </span>
+          <span className="truncate text-xs text-muted-foreground">
+            {revision.changes.map((c) => c.field).join(', ')}
+          </span>
+          {revision.restoredFrom && (
+            <Badge variant="secondary" className="text-[10px]">
+              {restoredFrom ? `Restored #${restoredFrom}` : 'Restore'}
+            </Badge>
+          )}
+        </button>
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isRestoring}
+            onClick={() => onRestore(revision)}
+            title="Restore the task to how it was after this revision"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Restore
+          </Button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 border-t border-border px-3 py-2">
+          {revision.changes.map((change) => (
+            <div key={change.field} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium">{change.field}</span>
+                {!readOnly &&
+                  !(NON_RESTORABLE_TASK_FIELDS as readonly string[]).includes(change.field) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs"
+                      disabled={isRestoring}
+                      onClick={() => onRestore(revision, change.field)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore field
+                    </Button>
+                  )}
+              </div>
+              <FieldDiff change={change} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * History Tab - Field-level revision history with point-in-time restore
+ */
+export function HistoryTab({ task, readOnly = false }: HistoryTabProps) {
+  const { data: revisions = [], isLoading } = useTaskRevisions(task.id);
+  const restoreRevision = useRestoreRevision();
+  const { toast } = useToast();
+
+  const revisionNumbers = new Map(revisions.map((r) => [r.id, r.revision]));
+
+  const handleRestore = async (revision: TaskRevision, field?: string) => {
+    try {
+      await restoreRevision.mutateAsync({ taskId: task.id, revisionId: revision.id, field });
+      toast({
+        title: field
+          ? `Restored ${field} from revision #${revision.revision}`
+          : `Restored revision #${revision.revision}`,
+      });
+    } catch (error) {
+      toast({
+        title: '❌ Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Revision History</h3>
+        <span className="text-xs text-muted-foreground">({revisions.length})</span>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No changes recorded yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {revisions.map((revision) => (
+            <RevisionItem
+              key={revision.id}
+              revision={revision}
+              revisionNumbers={revisionNumbers}
+              readOnly={readOnly}
+              isRestoring={restoreRevision.isPending}
+              onRestore={handleRestore}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
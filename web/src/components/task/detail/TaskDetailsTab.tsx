@@ -23,8 +23,10 @@ import { CommentsSection } from '../CommentsSection';
 import { DeliverablesSection } from '../DeliverablesSection';
 import { BlockedReasonSection } from '../BlockedReasonSection';
 import { LessonsLearnedSection } from '../LessonsLearnedSection';
+import { CustomFieldInputs } from '../CustomFieldInputs';
 import { useDeleteTask, useArchiveTask } from '@/hooks/useTasks';
 import { useFeatureSettings } from '@/hooks/useFeatureSettings';
+import { useTaskTypes } from '@/hooks/useTaskTypes';
 import { Trash2, Archive, Calendar, Clock, RotateCcw } from 'lucide-react';
 import type { Task, BlockedReason } from '@veritas-kanban/shared';
 
@@ -49,6 +51,8 @@ export function TaskDetailsTab({
   const taskSettings = featureSettings.tasks;
   const markdownSettings = featureSettings.markdown;
   const markdownEnabled = markdownSettings?.enableMarkdown ?? true;
+  const { data: taskTypes = [] } = useTaskTypes();
+  const customFieldDefs = taskTypes.find((t) => t.id === task.type)?.customFields ?? [];
 
   const handleDelete = async () => {
     await deleteTask.mutateAsync(task.id);
@@ -110,6 +114,22 @@ export function TaskDetailsTab({
       {/* Metadata Section */}
       <TaskMetadataSection task={task} onUpdate={onUpdate} readOnly={readOnly} />
 
+      {/* Custom fields declared by the task type */}
+      {customFieldDefs.length > 0 && (
+        <CustomFieldInputs
+          fields={customFieldDefs}
+          values={task.customFields}
+          readOnly={readOnly}
+          onChange={(fieldId, value) =>
+            // null clears the field server-side; the PATCH merges per key
+            onUpdate('customFields', {
+              ...task.customFields,
+              [fieldId]: value,
+            } as Task['customFields'])
+          }
+        />
+      )}
+
       {/* Blocked Reason (shown when status is blocked) */}
       {task.status === 'blocked' && (
         <div className="border-t pt-4">
@@ -111,8 +111,12 @@ export function WorkflowDashboard({ onBack }: WorkflowDashboardProps) {
         queryClient.invalidateQueries({ queryKey: ['workflow-active-runs'] });
         queryClient.invalidateQueries({ queryKey: ['workflow-recent-runs'] });
 
-        // Refetch stats on completion/failure
-        if (updatedRun.status === 'completed' || updatedRun.status === 'failed') {
+        // Refetch stats on completion/failure/cancellation
+        if (
+          updatedRun.status === 'completed' ||
+          updatedRun.status === 'failed' ||
+          updatedRun.status === 'cancelled'
+        ) {
           queryClient.invalidateQueries({ queryKey: ['workflow-stats'] });
         }
       }
@@ -209,6 +213,7 @@ export function WorkflowDashboard({ onBack }: WorkflowDashboardProps) {
               <SelectItem value="completed">Completed</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
               <SelectItem value="blocked">Blocked</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
             </SelectContent>
           </Select>
@@ -18,7 +18,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ArrowLeft, Clock, CheckCircle2, XCircle, AlertCircle, PlayCircle } from 'lucide-react';
+import {
+  ArrowLeft,
+  Clock,
+  CheckCircle2,
+  XCircle,
+  AlertCircle,
+  PlayCircle,
+  Ban,
+} from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -29,7 +37,7 @@ interface WorkflowRunListProps {
   onBack: () => void;
 }
 
-type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed';
+type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed' | 'cancelled';
 
 interface WorkflowRun {
   id: string;
@@ -105,6 +113,7 @@ export function WorkflowRunList({ workflowId, onBack }: WorkflowRunListProps) {
             <SelectItem value="completed">Completed</SelectItem>
             <SelectItem value="failed">Failed</SelectItem>
             <SelectItem value="blocked">Blocked</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
             <SelectItem value="pending">Pending</SelectItem>
           </SelectContent>
         </Select>
@@ -171,6 +180,11 @@ function RunCard({ run, onClick }: RunCardProps) {
       color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
       label: 'Blocked',
     },
+    cancelled: {
+      icon: Ban,
+      color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+      label: 'Cancelled',
+    },
   };
 
   const config = statusConfig[run.status];
@@ -4,9 +4,10 @@
  * Features:
  * - Live step-by-step progress
  * - Color-coded step status (green=completed, blue=running, red=failed, yellow=blocked, gray=pending)
- * - Resume button for blocked runs
+ * - Resume button for blocked runs, Cancel button for unfinished runs
  * - Auto-updates via WebSocket workflow:status events
  * - Shows overall run progress
+ * - Loop progress and per-iteration verification results (loop.verify_each)
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -20,6 +21,7 @@ import {
   PlayCircle,
   Clock,
   Pause,
+  Ban,
 } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -31,8 +33,18 @@ interface WorkflowRunViewProps {
   onBack: () => void;
 }
 
-type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed';
-type StepRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed' | 'cancelled';
+type StepRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+interface LoopVerifyResult {
+  iteration: number;
+  attempt: number;
+  passed: boolean;
+  decision?: string;
+  output?: string;
+  error?: string;
+  verifiedAt: string;
+}
 
 interface StepRun {
   stepId: string;
@@ -44,6 +56,13 @@ interface StepRun {
   retries: number;
   output?: string;
   error?: string;
+  loopState?: {
+    totalIterations: number;
+    currentIteration: number;
+    completedIterations: number;
+    failedIterations: number;
+    verifyResults?: LoopVerifyResult[];
+  };
 }
 
 interface WorkflowRun {
@@ -109,8 +128,9 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
   }, [fetchRun]);
 
   // Fetch workflow definition when run loads
+  const { workflowId, workflowVersion } = run ?? {};
   useEffect(() => {
-    if (!run) return;
+    if (!workflowId || workflowVersion === undefined) return;
 
     setWorkflow(null);
     setIsWorkflowLoading(true);
@@ -118,7 +138,10 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
     let isCancelled = false;
     const fetchWorkflow = async () => {
       try {
-        const workflowResponse = await fetch(`/api/workflows/${run.workflowId}`);
+        // The version the run is pinned to, not the latest definition
+        const workflowResponse = await fetch(
+          `/api/workflows/${workflowId}/versions/${workflowVersion}`
+        );
         if (!workflowResponse.ok) throw new Error('Failed to fetch workflow definition');
         const json = await workflowResponse.json();
         if (!isCancelled) {
@@ -141,7 +164,7 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
     return () => {
       isCancelled = true;
     };
-  }, [run?.workflowId]);
+  }, [workflowId, workflowVersion]);
 
   // WebSocket subscription for live updates
   const handleWebSocketMessage = useCallback(
@@ -181,6 +204,28 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
     }
   };
 
+  const handleCancel = async () => {
+    try {
+      const response = await fetch(`/api/workflows/runs/${runId}/cancel`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) throw new Error('Failed to cancel workflow run');
+
+      toast({
+        title: 'Workflow cancelled',
+        description: 'The workflow run has been cancelled',
+      });
+
+      fetchRun();
+    } catch (error) {
+      toast({
+        title: '❌ Failed to cancel workflow run',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
   if (isLoading || (run && isWorkflowLoading)) {
     return (
       <div className="space-y-6">
@@ -232,6 +277,11 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
       color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
       label: 'Blocked',
     },
+    cancelled: {
+      icon: Ban,
+      color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+      label: 'Cancelled',
+    },
   };
 
   const config = statusConfig[run.status];
@@ -248,7 +298,9 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
           </Button>
           <div>
             <h1 className="text-2xl font-bold">{workflowName}</h1>
-            <p className="text-sm text-muted-foreground">Run: {run.id}</p>
+            <p className="text-sm text-muted-foreground">
+              Run: {run.id} · v{run.workflowVersion}
+            </p>
           </div>
         </div>
 
@@ -263,6 +315,12 @@ export function WorkflowRunView({ runId, onBack }: WorkflowRunViewProps) {
               Resume
             </Button>
           )}
+          {(run.status === 'pending' || run.status === 'running' || run.status === 'blocked') && (
+            <Button size="sm" variant="outline" onClick={handleCancel}>
+              <Ban className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
 
@@ -368,10 +426,17 @@ function StepCard({ stepDef, stepRun, index, isExpanded, onToggleExpand }: StepC
       color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
       borderColor: 'border-gray-300',
     },
+    cancelled: {
+      icon: Ban,
+      color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+      borderColor: 'border-gray-400',
+    },
   };
 
   const config = statusConfig[stepRun.status];
   const Icon = config.icon;
+  const loopState = stepRun.loopState;
+  const verifyResults = loopState?.verifyResults ?? [];
 
   return (
     <div
@@ -419,6 +484,13 @@ function StepCard({ stepDef, stepRun, index, isExpanded, onToggleExpand }: StepC
               <div>Started: {new Date(stepRun.startedAt).toLocaleTimeString()}</div>
             )}
             {stepRun.duration !== undefined && <div>Duration: {stepRun.duration}s</div>}
+            {loopState && (
+              <div>
+                Iteration {loopState.currentIteration}/{loopState.totalIterations} ·{' '}
+                {loopState.completedIterations} completed
+                {loopState.failedIterations > 0 && ` · ${loopState.failedIterations} failed`}
+              </div>
+            )}
           </div>
 
           {stepRun.error && (
@@ -427,6 +499,38 @@ function StepCard({ stepDef, stepRun, index, isExpanded, onToggleExpand }: StepC
             </div>
           )}
 
+          {isExpanded && verifyResults.length > 0 && (
+            <div className="mt-3 space-y-1 text-sm">
+              <strong>Verification</strong>
+              <ul className="space-y-1">
+                {verifyResults.map((result) => (
+                  <li
+                    key={`${result.iteration}-${result.attempt}`}
+                    className="flex items-center gap-2"
+                  >
+                    {result.passed ? (
+                      <CheckCircle2 className="h-3 w-3 text-green-600" />
+                    ) : (
+                      <XCircle className="h-3 w-3 text-red-600" />
+                    )}
+                    <span>
+                      Iteration {result.iteration}
+                      {result.attempt > 1 && ` (attempt ${result.attempt})`}
+                    </span>
+                    {result.decision && (
+                      <Badge variant="outline" className="text-xs">
+                        {result.decision}
+                      </Badge>
+                    )}
+                    {result.error && (
+                      <span className="text-destructive truncate">{result.error}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {isExpanded && stepRun.output && (
             <div className="mt-3 p-3 rounded bg-secondary text-sm font-mono whitespace-pre-wrap">
               <strong>Output:</strong>
@@ -0,0 +1,294 @@
+/**
+ * WorkflowVersionsPanel - Version history for a workflow
+ *
+ * Features:
+ * - List saved versions with who saved them and when
+ * - Diff any two versions
+ * - Roll back to an earlier version (saved as a new version)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, GitCompare, History, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/useToast';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+interface WorkflowVersionsPanelProps {
+  workflowId: string;
+  onBack: () => void;
+}
+
+interface WorkflowChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface WorkflowVersion {
+  version: number;
+  name: string;
+  current: boolean;
+  savedAt?: string;
+  savedBy?: string;
+  action?: 'create' | 'edit' | 'rollback';
+  restoredVersion?: number;
+  changes?: WorkflowChange[];
+}
+
+interface WorkflowDiff {
+  from: number;
+  to: number;
+  changes: WorkflowChange[];
+}
+
+export function WorkflowVersionsPanel({ workflowId, onBack }: WorkflowVersionsPanelProps) {
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState<string>('');
+  const [toVersion, setToVersion] = useState<string>('');
+  const [diff, setDiff] = useState<WorkflowDiff | null>(null);
+  const { toast } = useToast();
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/versions`);
+      if (!response.ok) throw new Error('Failed to fetch workflow versions');
+      const json = await response.json();
+      const list: WorkflowVersion[] = json.data ?? json;
+      setVersions(list);
+
+      // Default comparison: previous version → current
+      if (list.length > 0) {
+        setToVersion(String(list[0].version));
+        setFromVersion(String((list[1] ?? list[0]).version));
+      }
+    } catch (error) {
+      toast({
+        title: '❌ Failed to load workflow versions',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId, toast]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // Fetch the diff whenever the compared versions change
+  useEffect(() => {
+    if (!fromVersion || !toVersion) return;
+
+    let isCancelled = false;
+    const fetchDiff = async () => {
+      try {
+        const response = await fetch(
+          `/api/workflows/${workflowId}/diff?from=${fromVersion}&to=${toVersion}`
+        );
+        if (!response.ok) throw new Error('Failed to diff workflow versions');
+        const json = await response.json();
+        if (!isCancelled) setDiff(json.data ?? json);
+      } catch (error) {
+        if (!isCancelled) {
+          setDiff(null);
+          toast({
+            title: '❌ Failed to diff workflow versions',
+            description: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    };
+    fetchDiff();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [workflowId, fromVersion, toVersion, toast]);
+
+  const handleRollback = async (version: number) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/versions/${version}/rollback`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error('Failed to roll back workflow');
+
+      const json = await response.json();
+      const result = json.data ?? json;
+      toast({
+        title: 'Workflow rolled back',
+        description: `Version ${version} restored as v${result.version}`,
+      });
+      fetchVersions();
+    } catch (error) {
+      toast({
+        title: '❌ Failed to roll back workflow',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Workflows
+        </Button>
+        <h1 className="text-2xl font-bold">Versions</h1>
+        <Badge variant="secondary">{versions.length} versions</Badge>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : versions.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">No versions found</div>
+      ) : (
+        <>
+          {/* Compare */}
+          <div className="p-6 rounded-lg border bg-card space-y-4">
+            <div className="flex items-center gap-3">
+              <GitCompare className="h-4 w-4 text-muted-foreground" />
+              <span className="font-semibold">Compare</span>
+              <VersionSelect versions={versions} value={fromVersion} onChange={setFromVersion} />
+              <span className="text-muted-foreground">→</span>
+              <VersionSelect versions={versions} value={toVersion} onChange={setToVersion} />
+            </div>
+            {diff && <ChangeList changes={diff.changes} />}
+          </div>
+
+          {/* History */}
+          <div className="space-y-3">
+            {versions.map((version) => (
+              <div
+                key={version.version}
+                className="p-4 rounded-lg border bg-card flex items-start justify-between gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1">
+                    <Badge variant="outline" className="text-xs font-mono">
+                      v{version.version}
+                    </Badge>
+                    {version.current && <Badge className="text-xs">Current</Badge>}
+                    <span className="font-medium truncate">{version.name}</span>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    {version.savedAt && <div>{new Date(version.savedAt).toLocaleString()}</div>}
+                    {version.savedBy && <div>by {version.savedBy}</div>}
+                    {version.action === 'rollback' && version.restoredVersion !== undefined && (
+                      <div className="flex items-center gap-1">
+                        <History className="h-3 w-3" />
+                        Restored v{version.restoredVersion}
+                      </div>
+                    )}
+                    {version.changes && version.action !== 'create' && (
+                      <div>
+                        {version.changes.length} change{version.changes.length !== 1 ? 's' : ''}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {!version.current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRollback(version.version)}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface VersionSelectProps {
+  versions: WorkflowVersion[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function VersionSelect({ versions, value, onChange }: VersionSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            v{version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ChangeList({ changes }: { changes: WorkflowChange[] }) {
+  if (changes.length === 0) {
+    return <div className="text-sm text-muted-foreground">No differences</div>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {changes.map((change) => {
+        const kind =
+          change.oldValue === null ? 'added' : change.newValue === null ? 'removed' : 'changed';
+        return (
+          <li key={change.field} className="text-sm">
+            <div className="flex items-center gap-2">
+              <Badge
+                className={cn(
+                  'text-xs',
+                  kind === 'added' &&
+                    'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+                  kind === 'removed' && 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+                  kind === 'changed' &&
+                    'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                )}
+              >
+                {kind}
+              </Badge>
+              <span className="font-mono">{change.field}</span>
+            </div>
+            {kind === 'changed' && (
+              <div className="mt-1 grid grid-cols-2 gap-2">
+                <pre className="p-2 rounded bg-muted text-xs overflow-x-auto">
+                  {formatValue(change.oldValue)}
+                </pre>
+                <pre className="p-2 rounded bg-muted text-xs overflow-x-auto">
+                  {formatValue(change.newValue)}
+                </pre>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
@@ -5,6 +5,7 @@
  * - List all workflows with metadata
  * - Start workflow runs
  * - View active runs per workflow
+ * - Browse, diff and roll back workflow versions
  * - Empty state when no workflows exist
  */
 
@@ -12,11 +13,12 @@ import { useState, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Search, Play, Users, ListOrdered, BarChart3 } from 'lucide-react';
+import { ArrowLeft, Search, Play, Users, ListOrdered, BarChart3, History } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { WorkflowRunList } from './WorkflowRunList';
 import { WorkflowDashboard } from './WorkflowDashboard';
+import { WorkflowVersionsPanel } from './WorkflowVersionsPanel';
 
 interface WorkflowsPageProps {
   onBack: () => void;
@@ -38,6 +40,7 @@ export function WorkflowsPage({ onBack }: WorkflowsPageProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(null);
   const [showDashboard, setShowDashboard] = useState(false);
+  const [versionsWorkflowId, setVersionsWorkflowId] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Fetch workflows on mount
@@ -101,6 +104,15 @@ export function WorkflowsPage({ onBack }: WorkflowsPageProps) {
     return <WorkflowDashboard onBack={() => setShowDashboard(false)} />;
   }
 
+  if (versionsWorkflowId) {
+    return (
+      <WorkflowVersionsPanel
+        workflowId={versionsWorkflowId}
+        onBack={() => setVersionsWorkflowId(null)}
+      />
+    );
+  }
+
   if (selectedWorkflowId) {
     return (
       <WorkflowRunList workflowId={selectedWorkflowId} onBack={() => setSelectedWorkflowId(null)} />
@@ -156,6 +168,7 @@ export function WorkflowsPage({ onBack }: WorkflowsPageProps) {
               workflow={workflow}
               onStartRun={() => handleStartRun(workflow.id)}
               onViewRuns={() => setSelectedWorkflowId(workflow.id)}
+              onViewVersions={() => setVersionsWorkflowId(workflow.id)}
             />
           ))}
         </div>
@@ -168,9 +181,10 @@ interface WorkflowCardProps {
   workflow: Workflow;
   onStartRun: () => void;
   onViewRuns: () => void;
+  onViewVersions: () => void;
 }
 
-function WorkflowCard({ workflow, onStartRun, onViewRuns }: WorkflowCardProps) {
+function WorkflowCard({ workflow, onStartRun, onViewRuns, onViewVersions }: WorkflowCardProps) {
   return (
     <div className="p-6 rounded-lg border bg-card hover:bg-accent/50 transition-colors">
       <div className="flex items-start justify-between gap-4">
@@ -213,6 +227,10 @@ function WorkflowCard({ workflow, onStartRun, onViewRuns }: WorkflowCardProps) {
               View Runs
             </Button>
           )}
+          <Button size="sm" variant="outline" onClick={onViewVersions}>
+            <History className="h-3 w-3 mr-1" />
+            Versions
+          </Button>
         </div>
       </div>
     </div>
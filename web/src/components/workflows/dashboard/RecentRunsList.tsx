@@ -4,7 +4,7 @@
 
 import { memo, useMemo } from 'react';
 import { Badge } from '@/components/ui/badge';
-import { Clock, PlayCircle, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { Clock, PlayCircle, CheckCircle2, XCircle, AlertCircle, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { WorkflowRun } from '@/hooks/useWorkflowStats';
 
@@ -86,6 +86,11 @@ const RecentRunCard = memo(function RecentRunCard({ run, onClick }: RecentRunCar
       color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
       label: 'Blocked',
     },
+    cancelled: {
+      icon: Ban,
+      color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+      label: 'Cancelled',
+    },
   };
 
   const config = statusConfig[run.status];
@@ -33,7 +33,9 @@ export * from './useMetrics';
 export * from './useBudgetMetrics';
 export * from './usePreview';
 export * from './useProjects';
+export * from './useSearch';
 export * from './useSprints';
+export * from './useTaskRevisions';
 export * from './useTaskSync';
 export * from './useTaskTypes';
 export * from './useTasks';
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { getWorkflowColumns, type BoardColumn } from '@veritas-kanban/shared';
+import { useFeatureSettings } from './useFeatureSettings';
+import { useProjects } from './useProjects';
+
+interface BoardWorkflow {
+  columns: BoardColumn[];
+  /** Project whose own workflow is shown; undefined for the default workflow */
+  workflowProject: string | undefined;
+  /** Projects that declare their own columns (their tasks skip the default WIP counts) */
+  projectsWithWorkflow: Set<string>;
+}
+
+/**
+ * Board columns for the selected project — its own workflow if it has one,
+ * otherwise the default columns from the board settings.
+ */
+export function useBoardColumns(projectId: string | null): BoardWorkflow {
+  const { settings } = useFeatureSettings();
+  const { data: projects = [] } = useProjects();
+
+  return useMemo(() => {
+    const project = projectId ? projects.find((p) => p.id === projectId) : undefined;
+    return {
+      columns: getWorkflowColumns(settings.board.columns, project),
+      workflowProject: project?.columns?.length ? project.id : undefined,
+      projectsWithWorkflow: new Set(projects.filter((p) => p.columns?.length).map((p) => p.id)),
+    };
+  }, [projectId, projects, settings.board.columns]);
+}
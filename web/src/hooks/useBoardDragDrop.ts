@@ -11,21 +11,24 @@ import {
   useSensors,
 } from '@dnd-kit/core';
 import { arrayMove } from '@dnd-kit/sortable';
-import type { Task, TaskStatus } from '@veritas-kanban/shared';
+import type { Task } from '@veritas-kanban/shared';
 
 interface UseBoardDragDropOptions {
   tasks: Task[];
-  tasksByStatus: Record<TaskStatus, Task[]>;
-  columns: { id: TaskStatus; title: string }[];
-  onStatusChange: (taskId: string, status: TaskStatus) => void;
+  /** Tasks grouped by board column ID */
+  tasksByColumn: Record<string, Task[]>;
+  columns: { id: string; title: string }[];
+  onColumnChange: (taskId: string, columnId: string) => void;
   onReorder: (taskIds: string[], onSuccess?: () => void) => void;
+  /** Return false to reject a cross-column drop (e.g. the column is at its WIP limit) */
+  canMoveToColumn?: (taskId: string, columnId: string) => boolean;
 }
 
 interface UseBoardDragDropReturn {
   activeTask: Task | null;
   isDragActive: boolean;
   /** Use this for rendering columns — reflects real-time drag state */
-  liveTasksByStatus: Record<TaskStatus, Task[]>;
+  liveTasksByColumn: Record<string, Task[]>;
   sensors: ReturnType<typeof useSensors>;
   collisionDetection: CollisionDetection;
   handleDragStart: (event: DragStartEvent) => void;
@@ -35,15 +38,16 @@ interface UseBoardDragDropReturn {
 
 export function useBoardDragDrop({
   tasks,
-  tasksByStatus,
+  tasksByColumn,
   columns,
-  onStatusChange,
+  onColumnChange,
   onReorder,
+  canMoveToColumn,
 }: UseBoardDragDropOptions): UseBoardDragDropReturn {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
-  // Local copy of tasksByStatus that updates in real-time during drag.
+  // Local copy of tasksByColumn that updates in real-time during drag.
   // null = not dragging, use server state; non-null = mid-drag, use local state
-  const [dragState, setDragState] = useState<Record<TaskStatus, Task[]> | null>(null);
+  const [dragState, setDragState] = useState<Record<string, Task[]> | null>(null);
   const activeIdRef = useRef<string | null>(null);
 
   const sensors = useSensors(
@@ -64,12 +68,8 @@ export function useBoardDragDrop({
       const pointerCollisions = pointerWithin(args);
 
       if (pointerCollisions.length > 0) {
-        const taskCollision = pointerCollisions.find(
-          (c) => !columnIds.includes(c.id as TaskStatus)
-        );
-        const columnCollision = pointerCollisions.find((c) =>
-          columnIds.includes(c.id as TaskStatus)
-        );
+        const taskCollision = pointerCollisions.find((c) => !columnIds.includes(c.id as string));
+        const columnCollision = pointerCollisions.find((c) => columnIds.includes(c.id as string));
 
         if (taskCollision) return [taskCollision];
         if (columnCollision) return [columnCollision];
@@ -82,11 +82,11 @@ export function useBoardDragDrop({
   );
 
   // The live state columns should render from — either mid-drag local state or server state
-  const liveTasksByStatus = dragState ?? tasksByStatus;
+  const liveTasksByColumn = dragState ?? tasksByColumn;
 
   // Find which column a task belongs to in the given state
   const findColumn = useCallback(
-    (taskId: string, state: Record<TaskStatus, Task[]>): TaskStatus | null => {
+    (taskId: string, state: Record<string, Task[]>): string | null => {
       for (const col of columns) {
         if (state[col.id]?.some((t: Task) => t.id === taskId)) {
           return col.id;
@@ -104,10 +104,10 @@ export function useBoardDragDrop({
         setActiveTask(task);
         activeIdRef.current = event.active.id as string;
         // Snapshot current server state into local drag state
-        setDragState({ ...tasksByStatus });
+        setDragState({ ...tasksByColumn });
       }
     },
-    [tasks, tasksByStatus]
+    [tasks, tasksByColumn]
   );
 
   const handleDragOver = useCallback(
@@ -126,8 +126,8 @@ export function useBoardDragDrop({
         if (!activeColumn) return prev;
 
         // Determine destination column
-        const isOverColumn = columnIds.includes(overId as TaskStatus);
-        const overColumn = isOverColumn ? (overId as TaskStatus) : findColumn(overId, prev);
+        const isOverColumn = columnIds.includes(overId);
+        const overColumn = isOverColumn ? overId : findColumn(overId, prev);
 
         if (!overColumn || activeColumn === overColumn) return prev;
 
@@ -181,15 +181,15 @@ export function useBoardDragDrop({
       const overId = over.id as string;
 
       // Find where the task ended up in our local drag state
-      const originalColumn = findColumn(activeId, tasksByStatus);
+      const originalColumn = findColumn(activeId, tasksByColumn);
       const finalColumn = findColumn(activeId, finalState);
 
       if (!originalColumn || !finalColumn) return;
 
-      if (originalColumn === finalColumn && !columnIds.includes(overId as TaskStatus)) {
+      if (originalColumn === finalColumn && !columnIds.includes(overId)) {
         // Same column — check for reorder
         const columnTasks = finalState[finalColumn];
-        const origColumnTasks = tasksByStatus[originalColumn];
+        const origColumnTasks = tasksByColumn[originalColumn];
         const oldIndex = origColumnTasks.findIndex((t: Task) => t.id === activeId);
         const newIndex = columnTasks.findIndex((t: Task) => t.id === activeId);
 
@@ -198,21 +198,24 @@ export function useBoardDragDrop({
           onReorder(reordered.map((t: Task) => t.id));
         }
       } else if (originalColumn !== finalColumn) {
-        // Cross-column: commit the status change and new order
-        onStatusChange(activeId, finalColumn);
+        // Rejected drops snap back to the server state
+        if (canMoveToColumn && !canMoveToColumn(activeId, finalColumn)) return;
+
+        // Cross-column: commit the column change and new order
+        onColumnChange(activeId, finalColumn);
 
         // Send the new order for the destination column
         const newOrder = finalState[finalColumn].map((t: Task) => t.id);
         onReorder(newOrder);
       }
     },
-    [columnIds, dragState, findColumn, onReorder, onStatusChange, tasksByStatus]
+    [canMoveToColumn, columnIds, dragState, findColumn, onColumnChange, onReorder, tasksByColumn]
   );
 
   return {
     activeTask,
     isDragActive: activeTask !== null,
-    liveTasksByStatus,
+    liveTasksByColumn,
     sensors,
     collisionDetection,
     handleDragStart,
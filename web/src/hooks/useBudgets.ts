@@ -0,0 +1,60 @@
+/**
+ * React Query hooks for budget enforcement: usage per budget and the
+ * override requests filed when work is refused.
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BudgetOverride, BudgetUsage } from '@veritas-kanban/shared';
+import { apiFetch } from '@/lib/api/helpers';
+import { useFeatureSettings } from './useFeatureSettings';
+
+export interface BudgetStatus {
+  enforce: boolean;
+  budgets: BudgetUsage[];
+}
+
+const API_BASE = '/api/budgets';
+
+/** Usage of every configured budget in its current window */
+export function useBudgetStatus() {
+  const { settings } = useFeatureSettings();
+  return useQuery<BudgetStatus>({
+    queryKey: ['budget-status'],
+    queryFn: () => apiFetch<BudgetStatus>(API_BASE),
+    enabled: settings.budget.enabled,
+    refetchInterval: 60_000,
+    staleTime: 30_000,
+  });
+}
+
+/** Override requests still waiting on an admin */
+export function usePendingBudgetOverrides() {
+  const { settings } = useFeatureSettings();
+  return useQuery<BudgetOverride[]>({
+    queryKey: ['budget-overrides', 'pending'],
+    queryFn: () => apiFetch<BudgetOverride[]>(`${API_BASE}/overrides?status=pending`),
+    enabled: settings.budget.enabled && settings.budget.enforce,
+    refetchInterval: 60_000,
+    staleTime: 30_000,
+  });
+}
+
+/** Approve or reject an override request */
+export function useReviewBudgetOverride() {
+  const queryClient = useQueryClient();
+  return useMutation<
+    BudgetOverride & { resumedRuns: string[] },
+    Error,
+    { id: string; decision: 'approved' | 'rejected' }
+  >({
+    mutationFn: ({ id, decision }) =>
+      apiFetch(`${API_BASE}/overrides/${encodeURIComponent(id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['budget-overrides'] });
+      queryClient.invalidateQueries({ queryKey: ['budget-status'] });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useReducer, useCallback, useMemo } from 'react';
-import type { TaskPriority } from '@veritas-kanban/shared';
+import type { CustomFieldValue, TaskPriority } from '@veritas-kanban/shared';
 
 // ====== State Types ======
 
@@ -11,6 +11,7 @@ export interface CreateTaskFormState {
   project: string;
   sprint: string;
   agent: string; // "auto" | agent type slug | "" (empty = auto)
+  customFields: Record<string, CustomFieldValue>; // values for the selected type's fields
   categoryFilter: string;
   showHelp: boolean;
   showNewProject: boolean;
@@ -27,6 +28,7 @@ type CreateTaskFormAction =
   | { type: 'SET_PROJECT'; payload: string }
   | { type: 'SET_SPRINT'; payload: string }
   | { type: 'SET_AGENT'; payload: string }
+  | { type: 'SET_CUSTOM_FIELD'; payload: { field: string; value: CustomFieldValue | null } }
   | { type: 'SET_CATEGORY_FILTER'; payload: string }
   | { type: 'TOGGLE_HELP' }
   | { type: 'SHOW_NEW_PROJECT' }
@@ -45,6 +47,7 @@ const initialState: CreateTaskFormState = {
   project: '',
   sprint: '',
   agent: 'auto',
+  customFields: {},
   categoryFilter: 'all',
   showHelp: false,
   showNewProject: false,
@@ -63,7 +66,12 @@ function createTaskFormReducer(
     case 'SET_DESCRIPTION':
       return { ...state, description: action.payload };
     case 'SET_TYPE':
-      return { ...state, type: action.payload };
+      // Custom fields belong to the type, so switching types starts over
+      return {
+        ...state,
+        type: action.payload,
+        customFields: action.payload === state.type ? state.customFields : {},
+      };
     case 'SET_PRIORITY':
       return { ...state, priority: action.payload };
     case 'SET_PROJECT':
@@ -72,6 +80,16 @@ function createTaskFormReducer(
       return { ...state, sprint: action.payload };
     case 'SET_AGENT':
       return { ...state, agent: action.payload };
+    case 'SET_CUSTOM_FIELD': {
+      const { [action.payload.field]: _removed, ...rest } = state.customFields;
+      return {
+        ...state,
+        customFields:
+          action.payload.value === null
+            ? rest
+            : { ...rest, [action.payload.field]: action.payload.value },
+      };
+    }
     case 'SET_CATEGORY_FILTER':
       return { ...state, categoryFilter: action.payload };
     case 'TOGGLE_HELP':
@@ -103,6 +121,7 @@ export interface UseCreateTaskFormReturn {
   setProject: (project: string) => void;
   setSprint: (sprint: string) => void;
   setAgent: (agent: string) => void;
+  setCustomField: (field: string, value: CustomFieldValue | null) => void;
   setCategoryFilter: (category: string) => void;
   setNewProjectName: (name: string) => void;
   // Actions
@@ -168,6 +187,10 @@ export function useCreateTaskForm(): UseCreateTaskFormReturn {
     dispatch({ type: 'SET_AGENT', payload: agent });
   }, []);
 
+  const setCustomField = useCallback((field: string, value: CustomFieldValue | null) => {
+    dispatch({ type: 'SET_CUSTOM_FIELD', payload: { field, value } });
+  }, []);
+
   const setCategoryFilter = useCallback((category: string) => {
     dispatch({ type: 'SET_CATEGORY_FILTER', payload: category });
   }, []);
@@ -212,6 +235,7 @@ export function useCreateTaskForm(): UseCreateTaskFormReturn {
       setProject,
       setSprint,
       setAgent,
+      setCustomField,
       setCategoryFilter,
       setNewProjectName,
       toggleHelp,
@@ -230,6 +254,7 @@ export function useCreateTaskForm(): UseCreateTaskFormReturn {
       setProject,
       setSprint,
       setAgent,
+      setCustomField,
       setCategoryFilter,
       setNewProjectName,
       toggleHelp,
@@ -73,6 +73,31 @@ export function useDebouncedSave(task: Task | null) {
             });
           },
           onError: (error) => {
+            const conflict = error as Error & { code?: string; details?: { task?: Task } };
+            const current =
+              conflict.code === 'PRECONDITION_FAILED' ? conflict.details?.task : undefined;
+            if (current) {
+              // Someone else changed these fields first — drop the local edits
+              // and show their version rather than overwrite it
+              setChangedFields((prev) => {
+                const remaining = new Set(prev);
+                fieldsToClear.forEach((f) => remaining.delete(f));
+                return remaining;
+              });
+              setLocalTask((prev) => {
+                if (!prev) return prev;
+                const reverted = { ...prev };
+                fieldsToClear.forEach((field) => {
+                  (reverted as Record<string, unknown>)[field as string] = current[field];
+                });
+                return reverted;
+              });
+              toastRef.current({
+                title: 'Task changed elsewhere',
+                description: `Your edit was replaced with the latest version — ${error.message}`,
+              });
+              return;
+            }
             toastRef.current({
               variant: 'destructive',
               title: 'Failed to save changes',
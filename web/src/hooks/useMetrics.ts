@@ -375,6 +375,55 @@ export function useTaskCost(
   });
 }
 
+// ── Cost Breakdown ──────────────────────────────────────────────────
+
+export interface CostBreakdownEntry {
+  key: string;
+  cost: number;
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface CostMetrics {
+  period: MetricsPeriod;
+  totalCost: number;
+  estimatedCost: number; // Part of totalCost for models missing from the pricing catalog
+  runs: number;
+  byModel: CostBreakdownEntry[];
+  byAgent: CostBreakdownEntry[];
+  byProject: CostBreakdownEntry[];
+}
+
+async function fetchCostMetrics(
+  period: MetricsPeriod,
+  project?: string,
+  from?: string,
+  to?: string
+): Promise<CostMetrics> {
+  const params = new URLSearchParams();
+  params.set('period', period);
+  if (project) params.set('project', project);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return apiFetch<CostMetrics>(`${API_BASE}/metrics/costs?${params}`);
+}
+
+export function useCostMetrics(
+  period: MetricsPeriod = '7d',
+  project?: string,
+  from?: string,
+  to?: string
+) {
+  return useQuery({
+    queryKey: ['cost-metrics', period, project, from, to],
+    queryFn: () => fetchCostMetrics(period, project, from, to),
+    staleTime: 30000,
+  });
+}
+
 // ── Agent Utilization ───────────────────────────────────────────────
 
 export interface DailyUtilization {
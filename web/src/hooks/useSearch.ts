@@ -0,0 +1,40 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { TaskPriority, TaskStatus } from '@veritas-kanban/shared';
+import { apiFetch } from '@/lib/api/helpers';
+
+export interface SearchResult {
+  kind: 'task' | 'doc';
+  id: string; // Task ID or doc path
+  title: string;
+  score: number;
+  matchedFields: string[];
+  snippet?: string;
+  task?: {
+    status: TaskStatus;
+    priority: TaskPriority;
+    type: string;
+    project?: string;
+    agent?: string;
+  };
+}
+
+export interface SearchResponse {
+  total: number;
+  results: SearchResult[];
+}
+
+/**
+ * Ranked search across tasks, comments, attachments and docs.
+ * Supports filters (`status:blocked project:api`) and "exact phrases".
+ */
+export function useSearch(query: string, limit: number = 10) {
+  const q = query.trim();
+  return useQuery<SearchResponse>({
+    queryKey: ['search', q, limit],
+    queryFn: () =>
+      apiFetch<SearchResponse>(`/api/search?q=${encodeURIComponent(q)}&limit=${limit}`),
+    enabled: q.length >= 2,
+    staleTime: 10_000,
+    placeholderData: keepPreviousData,
+  });
+}
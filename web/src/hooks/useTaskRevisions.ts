@@ -0,0 +1,38 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+
+/**
+ * Hook to fetch a task's revision history (newest first)
+ */
+export function useTaskRevisions(taskId: string | undefined) {
+  return useQuery({
+    queryKey: ['tasks', taskId, 'revisions'],
+    queryFn: () => (taskId ? api.tasks.listRevisions(taskId) : Promise.resolve([])),
+    enabled: !!taskId,
+    staleTime: 10_000,
+  });
+}
+
+/**
+ * Hook to restore a task — or a single field — to a prior revision
+ */
+export function useRestoreRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      taskId,
+      revisionId,
+      field,
+    }: {
+      taskId: string;
+      revisionId: string;
+      field?: string;
+    }) => api.tasks.restoreRevision(taskId, revisionId, field),
+    onSuccess: (task) => {
+      // Also refetches the revision list, which now ends with the restore
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.setQueryData(['tasks', task.id], task);
+    },
+  });
+}
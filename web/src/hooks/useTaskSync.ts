@@ -1,15 +1,70 @@
 import { useCallback, useRef, useEffect } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  applyJsonPatch,
+  type Task,
+  type TaskChangedMessage,
+  type TopicSubscribedMessage,
+} from '@veritas-kanban/shared';
 import { useWebSocket, type WebSocketMessage, type ConnectionState } from './useWebSocket';
 
 // Global event target for chat WebSocket events
 // Chat hooks subscribe to this instead of opening their own WebSocket
 export const chatEventTarget = new EventTarget();
 
+/** The board shows every task, so it subscribes to all task, workflow and telemetry events */
+const SYNC_TOPICS = ['tasks', 'workflows', 'telemetry'];
+
+/**
+ * Apply a task:changed message directly to the task caches.
+ * Returns false when the message carries no usable state and the caller
+ * should refetch instead.
+ */
+function applyTaskChange(queryClient: QueryClient, message: TaskChangedMessage): boolean {
+  const { taskId, changeType, task, patch } = message;
+  if (!taskId) return false;
+
+  if (changeType === 'deleted' || changeType === 'archived') {
+    queryClient.setQueryData<Task[]>(['tasks'], (old) => old?.filter((t) => t.id !== taskId));
+    queryClient.removeQueries({ queryKey: ['tasks', taskId], exact: true });
+    return true;
+  }
+
+  if (task) {
+    queryClient.setQueryData<Task[]>(['tasks'], (old) => {
+      if (!old) return old;
+      return old.some((t) => t.id === taskId)
+        ? old.map((t) => (t.id === taskId ? task : t))
+        : [task, ...old];
+    });
+    queryClient.setQueryData(['tasks', taskId], task);
+    return true;
+  }
+
+  if (patch) {
+    const cachedList = queryClient.getQueryData<Task[]>(['tasks']);
+    if (!cachedList?.some((t) => t.id === taskId)) return false;
+
+    queryClient.setQueryData<Task[]>(['tasks'], (old) =>
+      old?.map((t) => (t.id === taskId ? applyJsonPatch(t, patch) : t))
+    );
+    queryClient.setQueryData<Task>(['tasks', taskId], (old) =>
+      old ? applyJsonPatch(old, patch) : old
+    );
+    return true;
+  }
+
+  return false;
+}
+
 /**
- * Connects to the Veritas Kanban WebSocket server and listens for
- * task:changed events. When received, invalidates the React Query
- * task cache so the board updates in real-time.
+ * Connects to the Veritas Kanban WebSocket server and subscribes to task,
+ * workflow and telemetry topics. task:changed events carry the changed
+ * fields as a JSON patch (or the full task), which is applied straight to
+ * the React Query cache; events without one invalidate it instead. On
+ * reconnect the subscription resumes from the last sequence number seen, so
+ * missed events are replayed — or everything is refetched when the server
+ * can no longer replay them.
  *
  * Returns connection status so the caller can provide it to
  * `WebSocketStatusProvider`, allowing data-fetching hooks to
@@ -25,6 +80,10 @@ export function useTaskSync(): {
   // Debounce timer for task-counts invalidation (to handle bulk operations)
   const countsInvalidationTimerRef = useRef<number | null>(null);
 
+  // Resume point for the topic subscription
+  const lastSeqRef = useRef<number | null>(null);
+  const streamIdRef = useRef<string | undefined>(undefined);
+
   // Clear debounce timer on unmount
   useEffect(() => {
     return () => {
@@ -36,6 +95,21 @@ export function useTaskSync(): {
 
   const handleMessage = useCallback(
     (message: WebSocketMessage) => {
+      if (message.type === 'topics:subscribed') {
+        const ack = message as unknown as TopicSubscribedMessage;
+        streamIdRef.current = ack.streamId;
+        // After a resume, replayed events advance the sequence themselves
+        if (ack.resync || lastSeqRef.current === null) {
+          lastSeqRef.current = ack.seq;
+        }
+        if (ack.resync) {
+          // Events were missed and cannot be replayed — refetch everything
+          queryClient.invalidateQueries();
+        }
+      } else if (typeof message.seq === 'number') {
+        lastSeqRef.current = Math.max(lastSeqRef.current ?? 0, message.seq);
+      }
+
       // Forward chat events to the chat event target
       if (
         message.type === 'chat:delta' ||
@@ -51,12 +125,13 @@ export function useTaskSync(): {
       }
 
       if (message.type === 'task:changed') {
-        // Invalidate task queries to trigger a refetch
-        queryClient.invalidateQueries({ queryKey: ['tasks'] });
+        const change = message as unknown as TaskChangedMessage;
 
-        // Also invalidate specific task if we know which one
-        if (message.taskId) {
-          queryClient.invalidateQueries({ queryKey: ['tasks', message.taskId] });
+        if (!applyTaskChange(queryClient, change)) {
+          // No patch to apply — invalidate task queries to trigger a refetch
+          queryClient.invalidateQueries({ queryKey: ['tasks'] });
+        } else if (change.taskId) {
+          queryClient.invalidateQueries({ queryKey: ['tasks', change.taskId, 'revisions'] });
         }
 
         // If it's an archive-related change, also invalidate archive queries
@@ -96,8 +171,19 @@ export function useTaskSync(): {
     [queryClient]
   );
 
+  const getSubscribeMessage = useCallback(
+    (): WebSocketMessage => ({
+      type: 'topics:subscribe',
+      topics: SYNC_TOPICS,
+      ...(lastSeqRef.current !== null
+        ? { since: lastSeqRef.current, streamId: streamIdRef.current }
+        : {}),
+    }),
+    []
+  );
+
   const { isConnected, connectionState, reconnectAttempt } = useWebSocket({
-    onOpen: { type: 'subscribe:tasks' },
+    onOpen: getSubscribeMessage,
     onMessage: handleMessage,
     maxReconnectAttempts: 20,
   });
@@ -91,8 +91,16 @@ export function useUpdateTask() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, input }: { id: string; input: UpdateTaskInput }) =>
-      api.tasks.update(id, input),
+    // The cached copy is what the user edited, so its version goes out as
+    // If-Match unless the caller passes a base explicitly
+    mutationFn: ({ id, input, base }: { id: string; input: UpdateTaskInput; base?: Task }) =>
+      api.tasks.update(
+        id,
+        input,
+        base ??
+          queryClient.getQueryData<Task>(['tasks', id]) ??
+          queryClient.getQueryData<Task[]>(['tasks'])?.find((t) => t.id === id)
+      ),
     // On success, merge the server response with the current cache.
     // Preserve timeTracking from the cache if it wasn't part of this update,
     // since concurrent timer mutations (start/stop) may have already patched
@@ -124,6 +132,16 @@ export function useUpdateTask() {
         queryClient.invalidateQueries({ queryKey: ['task-counts'] });
       }
     },
+    // On a conflict the server sent its current copy — show that instead of
+    // the stale one so the user can redo their edit on top of it
+    onError: (error: Error & { code?: string; details?: { task?: Task } }) => {
+      const current = error.code === 'PRECONDITION_FAILED' ? error.details?.task : undefined;
+      if (!current) return;
+      queryClient.setQueryData<Task[]>(['tasks'], (old) =>
+        old ? old.map((t) => (t.id === current.id ? current : t)) : old
+      );
+      queryClient.setQueryData(['tasks', current.id], current);
+    },
     // NOTE: No general onSettled invalidation here. The onSuccess handler already
     // patches the cache with the server response (preserving timer state).
     // An aggressive invalidateQueries would trigger a background refetch
@@ -7,7 +7,7 @@ import {
   type VariableContext,
 } from '@/lib/template-variables';
 import { nanoid } from 'nanoid';
-import type { Subtask, TaskPriority } from '@veritas-kanban/shared';
+import type { CustomFieldValue, Subtask, TaskPriority } from '@veritas-kanban/shared';
 
 export function useTemplateForm() {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
@@ -107,7 +107,8 @@ export function useTemplateForm() {
     sprint: string,
     type: string,
     priority: string,
-    agent?: string
+    agent?: string,
+    customFields?: Record<string, CustomFieldValue>
   ) => {
     // Build variable context
     const context: VariableContext = {
@@ -142,6 +143,8 @@ export function useTemplateForm() {
         sprint: sprint.trim() || undefined,
         agent: agent && agent !== 'auto' ? agent : undefined,
         subtasks: interpolatedSubtasks.length > 0 ? interpolatedSubtasks : undefined,
+        customFields:
+          customFields && Object.keys(customFields).length > 0 ? customFields : undefined,
       });
     }
   };
@@ -15,8 +15,8 @@ export interface UseWebSocketOptions {
   url?: string;
   /** Whether to automatically connect. Default true. */
   autoConnect?: boolean;
-  /** Message to send on open (subscription). */
-  onOpen?: WebSocketMessage;
+  /** Message to send on open (subscription). A function is called on every (re)connect. */
+  onOpen?: WebSocketMessage | (() => WebSocketMessage);
   /** Whether to automatically reconnect on disconnect. Default true. */
   autoReconnect?: boolean;
   /** Maximum reconnect attempts before giving up. 0 = unlimited. Default 20. */
@@ -176,8 +176,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       resetKeepaliveTimeout();
 
       // Send subscription message if provided
-      if (onOpenRef.current) {
-        ws.send(JSON.stringify(onOpenRef.current));
+      const openMessage = onOpenRef.current;
+      if (openMessage) {
+        ws.send(JSON.stringify(typeof openMessage === 'function' ? openMessage() : openMessage));
       }
     };
 
@@ -4,7 +4,13 @@ import { useWebSocketStatus } from '@/contexts/WebSocketContext';
 
 export type WorkflowPeriod = '24h' | '7d' | '30d';
 
-export type WorkflowRunStatus = 'pending' | 'running' | 'blocked' | 'completed' | 'failed';
+export type WorkflowRunStatus =
+  | 'pending'
+  | 'running'
+  | 'blocked'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 export interface WorkflowRun {
   id: string;
@@ -1,9 +1,17 @@
 /**
- * Task API endpoints: CRUD, archive, subtasks, comments, blocking, reorder.
+ * Task API endpoints: CRUD, archive, subtasks, comments, blocking, reorder, revisions.
  */
-import type { Task, CreateTaskInput, UpdateTaskInput } from '@veritas-kanban/shared';
+import {
+  conflictingTaskFields,
+  type Task,
+  type CreateTaskInput,
+  type UpdateTaskInput,
+  type TaskRevision,
+} from '@veritas-kanban/shared';
 import { API_BASE, handleResponse } from './helpers';
 
+const MAX_CONFLICT_RETRIES = 3;
+
 export const tasksApi = {
   list: async (): Promise<Task[]> => {
     const response = await fetch(`${API_BASE}/tasks`);
@@ -30,14 +38,38 @@ export const tasksApi = {
     return handleResponse<Task>(response);
   },
 
-  update: async (id: string, input: UpdateTaskInput): Promise<Task> => {
-    const response = await fetch(`${API_BASE}/tasks/${id}`, {
-      credentials: 'include',
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(input),
-    });
-    return handleResponse<Task>(response);
+  /**
+   * Pass the `base` copy the edit was made against to send its version as
+   * If-Match. On 412 the update is retried against the server's newer copy
+   * unless someone else changed the same fields; then the error is rethrown
+   * with `details.task` (current task) and `details.fields` (the clashes).
+   */
+  update: async (id: string, input: UpdateTaskInput, base?: Task): Promise<Task> => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${API_BASE}/tasks/${id}`, {
+        credentials: 'include',
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(base && { 'If-Match': `"${base.version ?? 0}"` }),
+        },
+        body: JSON.stringify(input),
+      });
+      try {
+        return await handleResponse<Task>(response);
+      } catch (err) {
+        const error = err as Error & { code?: string; details?: Record<string, unknown> };
+        const current = error.details?.task as Task | undefined;
+        if (!base || error.code !== 'PRECONDITION_FAILED' || !current) throw err;
+
+        const fields = conflictingTaskFields(input, base, current);
+        if (fields.length > 0 || attempt >= MAX_CONFLICT_RETRIES) {
+          error.details = { ...error.details, fields };
+          throw error;
+        }
+        base = current;
+      }
+    }
   },
 
   delete: async (id: string): Promise<void> => {
@@ -334,6 +366,21 @@ export const tasksApi = {
     });
     return handleResponse<void>(response);
   },
+
+  listRevisions: async (taskId: string): Promise<TaskRevision[]> => {
+    const response = await fetch(`${API_BASE}/tasks/${taskId}/revisions`);
+    return handleResponse<TaskRevision[]>(response);
+  },
+
+  restoreRevision: async (taskId: string, revisionId: string, field?: string): Promise<Task> => {
+    const response = await fetch(`${API_BASE}/tasks/${taskId}/revisions/${revisionId}/restore`, {
+      credentials: 'include',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(field ? { field } : {}),
+    });
+    return handleResponse<Task>(response);
+  },
 };
 
 // Types